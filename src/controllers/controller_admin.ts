@@ -20,7 +20,6 @@ import {
   validateNumber,
   validateFields,
 } from "../utils/validation";
-import { prepareJsonb } from "../utils/json";
 import {
   SetPauseFlagsRequest,
   GetPauseFlagsRequest,
@@ -47,8 +46,47 @@ import {
   GetDisputesRequest,
   GetDisputeRequest,
   ResolveDisputeRequest,
+  VoidMarketRequest,
+  ReplayMarketRequest,
+  GetTrendingScoresRequest,
+  GetMarketTrendingScoreRequest,
+  GetLiquidityAlertsRequest,
+  AcknowledgeLiquidityAlertRequest,
+  RunLiquidityCheckRequest,
+  GetTradingHaltsRequest,
+  HaltMarketTradingRequest,
+  ResumeTradingHaltRequest,
+  GetRiskRulesRequest,
+  UpdateRiskRuleRequest,
+  GetUserAccountLinksRequest,
 } from "../types/requests";
 import { DisputeModel } from "../models/Dispute";
+import { ResolverReputationService } from "../services/resolverReputationService";
+import { AdminAuditService } from "../services/adminAuditService";
+import { MarketLifecycleService } from "../services/marketLifecycleService";
+import { MarketVoidService } from "../services/marketVoidService";
+import { MarketReplayService } from "../services/marketReplayService";
+import { LedgerService } from "../services/ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
+import { VOID_FEE_POLICIES } from "../utils/marketVoid";
+import { TrendingScoreModel } from "../models/TrendingScore";
+import { getLiquidityMonitor } from "../services/liquidityMonitor";
+import { TradingHaltService } from "../services/tradingHaltService";
+import { RiskRulesEngine } from "../services/riskRulesEngine";
+import { RiskRuleModel } from "../models/RiskRule";
+import { AccountLinkService } from "../services/accountLinkService";
+import { UserDeviceModel, UserIpAddressModel } from "../models/AccountLink";
+import { summarizeAccountLinks } from "../utils/accountLinks";
+import {
+  RISK_RULE_ACTIONS,
+  RISK_SEVERITIES,
+  RiskRuleAction,
+  RiskSeverity,
+} from "../utils/riskRules";
+import {
+  CircuitBreakerStateModel,
+  TradingHaltModel,
+} from "../models/TradingHalt";
 
 /**
  * @route POST /api/admin/pause
@@ -62,11 +100,28 @@ export const setPauseFlags = async (
   try {
     const { pauseTrading } = req.body;
 
-    // Update pause_trading in moodring table
-    await pool.query(
-      `UPDATE moodring SET pause_trading = $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT`,
-      [pauseTrading ?? false]
-    );
+    await withTransaction(async (client) => {
+      const previous = await client.query(
+        `SELECT pause_trading FROM moodring LIMIT 1 FOR UPDATE`
+      );
+
+      // Update pause_trading in moodring table
+      await client.query(
+        `UPDATE moodring SET pause_trading = $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT`,
+        [pauseTrading ?? false]
+      );
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "pause_trading_update",
+          targetType: "platform",
+          before: { pause_trading: previous.rows[0]?.pause_trading ?? false },
+          after: { pause_trading: pauseTrading ?? false },
+        },
+        client
+      );
+    });
 
     return sendSuccess(res, { message: "Pause flag updated successfully" });
   } catch (error: any) {
@@ -222,6 +277,30 @@ export const withdrawProtocolFees = async (
          WHERE user_id = $2`,
         [withdrawalAmount, adminUserId]
       );
+      await LedgerService.transfer(
+        client,
+        "protocol_fee_withdrawal",
+        LedgerAccounts.protocolFees(),
+        LedgerAccounts.user(adminUserId),
+        withdrawalAmount
+      );
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "protocol_fees_withdraw",
+          targetType: "platform",
+          before: { current_protocol_fees_balance: currentBalance },
+          after: {
+            current_protocol_fees_balance: currentBalance - withdrawalAmount,
+          },
+          details: {
+            amount: withdrawalAmount,
+            destination_user_id: adminUserId,
+          },
+        },
+        client
+      );
 
       return withdrawalAmount;
     });
@@ -277,6 +356,13 @@ export const createCategory = async (
 
     const category = await CategoryModel.create({ name: normalizedName });
 
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "category_create",
+      targetType: "category",
+      targetId: category.id,
+      after: category,
+    });
+
     return sendSuccess(
       res,
       {
@@ -320,12 +406,20 @@ export const deleteCategory = async (
 ) => {
   try {
     const { id } = req.params;
-    const deleted = await CategoryModel.delete(id);
+    const category = await CategoryModel.findById(id);
+    const deleted = category ? await CategoryModel.delete(id) : false;
 
     if (!deleted) {
       return sendNotFound(res, "Category");
     }
 
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "category_delete",
+      targetType: "category",
+      targetId: id,
+      before: category,
+    });
+
     return sendSuccess(res, { message: "Category deleted successfully" });
   } catch (error: any) {
     console.error("Delete category error:", error);
@@ -346,26 +440,54 @@ export const toggleMarketFeatured = async (
     const { id } = req.params;
     const { is_featured, featured_order } = req.body;
 
-    const result = await pool.query(
-      `
-      UPDATE markets
-      SET 
-        is_featured = COALESCE($1, NOT is_featured),
-        featured_order = $2,
-        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
-      WHERE id = $3
-      RETURNING *
-    `,
-      [is_featured, featured_order || null, id]
-    );
+    const market = await withTransaction(async (client) => {
+      const previous = await client.query(
+        `SELECT is_featured, featured_order FROM markets WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (previous.rows.length === 0) {
+        return null;
+      }
 
-    if (result.rows.length === 0) {
+      const result = await client.query(
+        `
+        UPDATE markets
+        SET 
+          is_featured = COALESCE($1, NOT is_featured),
+          featured_order = $2,
+          updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+        WHERE id = $3
+        RETURNING *
+      `,
+        [is_featured, featured_order || null, id]
+      );
+      const updated = result.rows[0];
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "market_feature",
+          targetType: "market",
+          targetId: id,
+          before: previous.rows[0],
+          after: {
+            is_featured: updated.is_featured,
+            featured_order: updated.featured_order,
+          },
+        },
+        client
+      );
+
+      return updated;
+    });
+
+    if (!market) {
       return sendNotFound(res, "Market");
     }
 
     return sendSuccess(res, {
       message: "Market featured status updated",
-      market: result.rows[0],
+      market,
     });
   } catch (error: any) {
     console.error("Toggle market featured error:", error);
@@ -386,25 +508,50 @@ export const toggleMarketVerified = async (
     const { id } = req.params;
     const { is_verified } = req.body;
 
-    const result = await pool.query(
-      `
-      UPDATE markets
-      SET 
-        is_verified = COALESCE($1, NOT is_verified),
-        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
-      WHERE id = $2
-      RETURNING *
-    `,
-      [is_verified, id]
-    );
+    const market = await withTransaction(async (client) => {
+      const previous = await client.query(
+        `SELECT is_verified FROM markets WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (previous.rows.length === 0) {
+        return null;
+      }
+
+      const result = await client.query(
+        `
+        UPDATE markets
+        SET 
+          is_verified = COALESCE($1, NOT is_verified),
+          updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+        WHERE id = $2
+        RETURNING *
+      `,
+        [is_verified, id]
+      );
+      const updated = result.rows[0];
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "market_verify",
+          targetType: "market",
+          targetId: id,
+          before: previous.rows[0],
+          after: { is_verified: updated.is_verified },
+        },
+        client
+      );
+
+      return updated;
+    });
 
-    if (result.rows.length === 0) {
+    if (!market) {
       return sendNotFound(res, "Market");
     }
 
     return sendSuccess(res, {
       message: "Market verified status updated",
-      market: result.rows[0],
+      market,
     });
   } catch (error: any) {
     console.error("Toggle market verified error:", error);
@@ -441,11 +588,20 @@ export const updateMarketCategories = async (
 
     // Update categories
     const { MarketModel } = require("../models/Market");
+    const previousCategories = await MarketModel.getCategories(id);
     await MarketModel.setCategories(id, category_ids);
 
     // Get updated categories
     const categories = await MarketModel.getCategories(id);
 
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "market_categories_update",
+      targetType: "market",
+      targetId: id,
+      before: previousCategories,
+      after: categories,
+    });
+
     return sendSuccess(res, {
       message: "Market categories updated",
       categories,
@@ -456,6 +612,440 @@ export const updateMarketCategories = async (
   }
 };
 
+/**
+ * @route POST /api/admin/market/:id/void
+ * @desc Void a market: refund holders' cost basis and LPs' share of the pool
+ * @access Admin
+ */
+export const voidMarket = async (req: VoidMarketRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = req.id;
+    const reason =
+      typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+    const feePolicy = req.body.fee_policy || "retain";
+
+    const validation = validateFields([
+      validateRequired(reason, "Reason"),
+      validateLength(reason, "Reason", 1, 1000),
+      validateEnum(feePolicy, "Fee policy", VOID_FEE_POLICIES),
+    ]);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+
+    const result = await withTransaction(async (client) => {
+      const voided = await MarketVoidService.voidMarket(client, id, {
+        reason,
+        actorId: adminId,
+        feePolicy,
+      });
+      const { refunded_user_ids, ...summary } = voided;
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "market_void",
+          targetType: "market",
+          targetId: id,
+          after: { status: voided.status, is_voided: true },
+          details: { reason, ...summary },
+        },
+        client
+      );
+
+      return voided;
+    });
+
+    await MarketVoidService.emitRefundBalances(result.refunded_user_ids);
+
+    return sendSuccess(res, {
+      message: "Market voided and refunded",
+      void: result,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Void market error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/market/:id/replay
+ * @desc Replay a market's trades and liquidity events through the LMSR and
+ * report where the result diverges from stored market and position state
+ * @access Admin
+ */
+export const replayMarket = async (req: ReplayMarketRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const report = await MarketReplayService.replayMarket(id);
+    if (!report) {
+      return sendNotFound(res, "Market");
+    }
+
+    return sendSuccess(res, { replay: report });
+  } catch (error: any) {
+    console.error("Replay market error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/trending
+ * @desc Get the most trending markets with their score breakdown
+ * @access Admin
+ */
+export const getTrendingScores = async (
+  req: GetTrendingScoresRequest,
+  res: Response
+) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const scores = await TrendingScoreModel.findTop(limit);
+
+    return sendSuccess(res, { scores });
+  } catch (error: any) {
+    console.error("Get trending scores error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/market/:id/trending
+ * @desc Get a market's trending score and why it has it
+ * @access Admin
+ */
+export const getMarketTrendingScore = async (
+  req: GetMarketTrendingScoreRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const score = await TrendingScoreModel.findByMarketId(id);
+    if (!score) {
+      return sendNotFound(res, "Trending score");
+    }
+
+    return sendSuccess(res, { score });
+  } catch (error: any) {
+    console.error("Get market trending score error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/liquidity/alerts
+ * @desc Get liquidity alerts, unresolved ones by default
+ * @access Admin
+ */
+export const getLiquidityAlerts = async (
+  req: GetLiquidityAlertsRequest,
+  res: Response
+) => {
+  try {
+    const { market_id, severity, include_resolved } = req.query;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = (page - 1) * limit;
+
+    if (severity) {
+      const severityValidation = validateEnum(severity, "Severity", [
+        "warning",
+        "critical",
+      ]);
+      if (!severityValidation.isValid) {
+        return sendValidationError(res, severityValidation.error!);
+      }
+    }
+
+    const { alerts, total } = await getLiquidityMonitor().getAlerts({
+      marketId: market_id,
+      severity: severity as "warning" | "critical" | undefined,
+      includeResolved: include_resolved === "true",
+      limit,
+      offset,
+    });
+
+    return sendSuccess(res, {
+      alerts,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get liquidity alerts error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/liquidity/alerts/:id/acknowledge
+ * @desc Acknowledge a liquidity alert, marking it resolved
+ * @access Admin
+ */
+export const acknowledgeLiquidityAlert = async (
+  req: AcknowledgeLiquidityAlertRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+    const monitor = getLiquidityMonitor();
+
+    const alert = await withTransaction(async (client) => {
+      const existing = await monitor.getAlert(id, client);
+      if (!existing) {
+        throw new TransactionError(404, "Liquidity alert not found");
+      }
+      if (!(await monitor.resolveAlert(id, req.id, client))) {
+        throw new TransactionError(400, "Liquidity alert is already resolved");
+      }
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "liquidity_alert_acknowledge",
+          targetType: "liquidity_alert",
+          targetId: id,
+          before: { is_resolved: false },
+          after: { is_resolved: true, note: req.body?.note ?? null },
+        },
+        client
+      );
+
+      return monitor.getAlert(id, client);
+    });
+
+    return sendSuccess(res, { alert });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message);
+    }
+    console.error("Acknowledge liquidity alert error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/liquidity/check
+ * @desc Check one market, or every open market, for liquidity risk now
+ * @access Admin
+ */
+export const runLiquidityCheck = async (
+  req: RunLiquidityCheckRequest,
+  res: Response
+) => {
+  try {
+    const marketId = req.body?.market_id;
+    const monitor = getLiquidityMonitor();
+
+    if (marketId) {
+      const alerts = await monitor.checkMarketLiquidity(marketId);
+      return sendSuccess(res, { market_id: marketId, alerts });
+    }
+
+    const alertCount = await monitor.checkAllMarkets();
+    return sendSuccess(res, { alert_count: alertCount });
+  } catch (error: any) {
+    console.error("Run liquidity check error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/halts
+ * @desc Get trading halts, active ones by default, with circuit breaker state
+ * @access Admin
+ */
+export const getTradingHalts = async (
+  req: GetTradingHaltsRequest,
+  res: Response
+) => {
+  try {
+    const { market_id, status = "active" } = req.query;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = (page - 1) * limit;
+
+    const statusValidation = validateEnum(status, "Status", ["active", "all"]);
+    if (!statusValidation.isValid) {
+      return sendValidationError(res, statusValidation.error!);
+    }
+
+    const [{ halts, total }, circuitBreakers] = await Promise.all([
+      TradingHaltModel.findAll(
+        { marketId: market_id, activeOnly: status === "active" },
+        limit,
+        offset
+      ),
+      CircuitBreakerStateModel.findAll(),
+    ]);
+
+    return sendSuccess(res, {
+      halts,
+      circuit_breakers: circuitBreakers,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get trading halts error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/market/:id/halt
+ * @desc Halt trading on a market, or on one of its options
+ * @access Admin
+ */
+export const haltMarketTrading = async (
+  req: HaltMarketTradingRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+    const { option_id, resume_at } = req.body;
+    const reason =
+      typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+    const now = Math.floor(Date.now() / 1000);
+
+    const validation = validateFields([
+      validateRequired(reason, "Reason"),
+      validateLength(reason, "Reason", 1, 500),
+    ]);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+    if (
+      resume_at !== undefined &&
+      resume_at !== null &&
+      (!Number.isInteger(resume_at) || resume_at <= now)
+    ) {
+      return sendValidationError(
+        res,
+        "Resume time must be a future unix timestamp"
+      );
+    }
+
+    const halt = await withTransaction(async (client) => {
+      const market = await client.query(
+        `SELECT id FROM markets WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (market.rows.length === 0) {
+        throw new TransactionError(404, "Market not found");
+      }
+      if (option_id) {
+        const option = await client.query(
+          `SELECT id FROM market_options WHERE id = $1 AND market_id = $2`,
+          [option_id, id]
+        );
+        if (option.rows.length === 0) {
+          throw new TransactionError(404, "Option not found");
+        }
+      }
+
+      const created = await TradingHaltService.halt(client, {
+        market_id: id,
+        option_id: option_id || null,
+        source: "admin",
+        reason,
+        halted_by: req.id,
+        resume_at: resume_at ?? null,
+      });
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "trading_halt",
+          targetType: option_id ? "option" : "market",
+          targetId: option_id || id,
+          after: { halt_id: created.id, is_halted: true },
+          details: { market_id: id, reason, resume_at: created.resume_at },
+        },
+        client
+      );
+
+      return created;
+    });
+
+    TradingHaltService.broadcast(halt, "halted");
+
+    return sendSuccess(res, { halt });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Halt market trading error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/halts/:id/resume
+ * @desc Resume trading halted by an admin or an automatic halt
+ * @access Admin
+ */
+export const resumeTradingHalt = async (
+  req: ResumeTradingHaltRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const halt = await withTransaction(async (client) => {
+      const existing = await TradingHaltModel.findById(id, client);
+      if (!existing) {
+        throw new TransactionError(404, "Trading halt not found");
+      }
+
+      const resumed = await TradingHaltService.resume(client, id, req.id);
+      if (!resumed) {
+        throw new TransactionError(400, "Trading halt has already ended");
+      }
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "trading_resume",
+          targetType: existing.option_id ? "option" : "market",
+          targetId: existing.option_id || existing.market_id,
+          before: { halt_id: id, is_halted: true },
+          after: { halt_id: id, is_halted: false },
+          details: { market_id: existing.market_id, source: existing.source },
+        },
+        client
+      );
+
+      return resumed;
+    });
+
+    TradingHaltService.broadcast(halt, "resumed");
+
+    return sendSuccess(res, { halt });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Resume trading halt error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
 /**
  * @route POST /api/admin/withdrawal/:id/process
  * @desc Process a pending withdrawal (admin marks it as completed)
@@ -516,9 +1106,39 @@ export const processWithdrawal = async (
              WHERE id = $2`,
             [withdrawal.amount, withdrawal.wallet_id]
           );
+          await LedgerService.transfer(
+            client,
+            "withdrawal_refund",
+            LedgerAccounts.hotWallet(),
+            LedgerAccounts.user(withdrawal.user_id),
+            Number(withdrawal.amount),
+            { reference_type: "withdrawal", reference_id: id }
+          );
         }
       }
 
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "withdrawal_process",
+          targetType: "withdrawal",
+          targetId: id,
+          before: { status: withdrawal.status },
+          after: {
+            status,
+            transaction_signature: transaction_signature || null,
+            failure_reason: failure_reason || null,
+          },
+          details: {
+            user_id: withdrawal.user_id,
+            amount: withdrawal.amount,
+            token_symbol: withdrawal.token_symbol,
+            refunded: status === "failed",
+          },
+        },
+        client
+      );
+
       return { ...withdrawal, status };
     });
 
@@ -741,6 +1361,18 @@ export const adjustUserBalance = async (
         ]
       );
 
+      await AdminAuditService.record(AdminAuditService.getContext(req), {
+        action: "balance_adjustment_request",
+        targetType: "user",
+        targetId: id,
+        after: requestResult.rows[0],
+        details: {
+          amount: parsedAmount,
+          token_symbol,
+          reason: reason || "Balance adjustment",
+        },
+      });
+
       return sendSuccess(res, {
         message:
           "Balance adjustment request created. Requires multi-admin approval.",
@@ -804,6 +1436,18 @@ export const adjustUserBalance = async (
            WHERE user_id = $2`,
           [parsedAmount, id]
         );
+        await LedgerService.transfer(
+          client,
+          "balance_adjustment",
+          LedgerAccounts.adjustments(),
+          LedgerAccounts.user(id),
+          parsedAmount,
+          {
+            reference_type: "user",
+            reference_id: id,
+            description: reason || "Balance adjustment",
+          }
+        );
       }
 
       const newBalance = previousBalance + parsedAmount;
@@ -827,32 +1471,31 @@ export const adjustUserBalance = async (
         ]
       );
 
-      return { previousBalance, newBalance };
-    });
-
-    if (!result) {
-      return sendNotFound(res, "Wallet");
-    }
-
-    // Also log to admin_actions for general admin logging (non-critical)
-    try {
-      await pool.query(
-        `INSERT INTO admin_actions (admin_user_id, action_type, target_user_id, metadata)
-         VALUES ($1, 'balance_adjustment', $2, $3)`,
-        [
-          adminUserId,
-          id,
-          prepareJsonb({
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "balance_adjustment",
+          targetType: "user",
+          targetId: id,
+          before: {
+            [`balance_${token_symbol.toLowerCase()}`]: previousBalance,
+          },
+          after: { [`balance_${token_symbol.toLowerCase()}`]: newBalance },
+          details: {
             amount: parsedAmount,
             token_symbol,
             reason: reason || "Manual adjustment",
             single_admin: true, // Small amount, single admin approval
-          }),
-        ]
+          },
+        },
+        client
       );
-    } catch (error) {
-      // Non-critical logging failure, don't fail the request
-      console.error("Failed to log to admin_actions:", error);
+
+      return { previousBalance, newBalance };
+    });
+
+    if (!result) {
+      return sendNotFound(res, "Wallet");
     }
 
     return sendSuccess(res, {
@@ -926,8 +1569,13 @@ export const approveBalanceAdjustment = async (req: any, res: Response) => {
         [approvalsReceived, approvedBy, requestId]
       );
 
+      const executed = approvalsReceived >= request.approvals_required;
+      const balanceField =
+        request.token_symbol === "SOL" ? "balance_sol" : "balance_usdc";
+      let previousBalance: number | null = null;
+
       // If enough approvals, execute the adjustment
-      if (approvalsReceived >= request.approvals_required) {
+      if (executed) {
         const wallet = await WalletModel.findByUserId(
           request.target_user_id,
           client
@@ -935,6 +1583,7 @@ export const approveBalanceAdjustment = async (req: any, res: Response) => {
         if (!wallet) {
           throw new TransactionError(404, "Wallet not found");
         }
+        previousBalance = Number(wallet[balanceField]);
 
         // Execute adjustment
         if (request.token_symbol === "SOL") {
@@ -951,6 +1600,18 @@ export const approveBalanceAdjustment = async (req: any, res: Response) => {
              WHERE user_id = $2`,
             [request.amount, request.target_user_id]
           );
+          await LedgerService.transfer(
+            client,
+            "balance_adjustment",
+            LedgerAccounts.adjustments(),
+            LedgerAccounts.user(request.target_user_id),
+            Number(request.amount),
+            {
+              reference_type: "balance_adjustment_request",
+              reference_id: requestId,
+              description: request.reason || "Balance adjustment",
+            }
+          );
         }
 
         // Mark request as approved and executed
@@ -964,30 +1625,39 @@ export const approveBalanceAdjustment = async (req: any, res: Response) => {
            WHERE id = $2`,
           [adminUserId, requestId]
         );
-
-        // Log the adjustment
-        await client.query(
-          `INSERT INTO admin_actions (admin_user_id, action_type, target_user_id, metadata)
-           VALUES ($1, 'balance_adjustment', $2, $3)`,
-          [
-            adminUserId,
-            request.target_user_id,
-            prepareJsonb({
-              amount: request.amount,
-              token_symbol: request.token_symbol,
-              reason: request.reason,
-              multi_admin: true,
-              request_id: requestId,
-              approved_by: approvedBy,
-            }),
-          ]
-        );
       }
 
+      // Log the approval (and the adjustment, once executed)
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: executed
+            ? "balance_adjustment"
+            : "balance_adjustment_approve",
+          targetType: "user",
+          targetId: request.target_user_id,
+          before: executed
+            ? { [balanceField]: previousBalance }
+            : { approvals_received: request.approvals_received },
+          after: executed
+            ? { [balanceField]: previousBalance! + Number(request.amount) }
+            : { approvals_received: approvalsReceived },
+          details: {
+            amount: request.amount,
+            token_symbol: request.token_symbol,
+            reason: request.reason,
+            multi_admin: true,
+            request_id: requestId,
+            approved_by: approvedBy,
+          },
+        },
+        client
+      );
+
       return {
         request,
         approvalsReceived,
-        executed: approvalsReceived >= request.approvals_required,
+        executed,
       };
     });
 
@@ -1104,18 +1774,16 @@ export const createCircleHotWallet = async (
     const walletResult = await circleWallet.createHotWallet(name);
 
     // Log the admin action
-    await pool.query(
-      `INSERT INTO admin_actions (admin_user_id, action_type, metadata)
-       VALUES ($1, 'create_circle_hot_wallet', $2)`,
-      [
-        req.id,
-        prepareJsonb({
-          wallet_id: walletResult.walletId,
-          address: walletResult.address,
-          name: name || null,
-        }),
-      ]
-    );
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "create_circle_hot_wallet",
+      targetType: "hot_wallet",
+      targetId: walletResult.walletId,
+      after: {
+        wallet_id: walletResult.walletId,
+        address: walletResult.address,
+        name: name || null,
+      },
+    });
 
     return sendSuccess(
       res,
@@ -1268,24 +1936,21 @@ export const withdrawToColdStorage = async (
     );
 
     // Log the admin action
-    await pool.query(
-      `INSERT INTO admin_actions (admin_user_id, action_type, metadata)
-       VALUES ($1, 'withdraw_to_cold_storage', $2)`,
-      [
-        adminUserId,
-        prepareJsonb({
-          hot_wallet_id: hotWalletInfo.walletId,
-          hot_wallet_address: hotWalletInfo.address,
-          destination_address,
-          amount: parsedAmount,
-          amount_usdc: usdcAmount,
-          transaction_id: transactionId,
-          transaction_hash: transactionHash,
-          previous_balance: hotWalletBalance,
-          new_balance: hotWalletBalance - parsedAmount,
-        }),
-      ]
-    );
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "withdraw_to_cold_storage",
+      targetType: "hot_wallet",
+      targetId: hotWalletInfo.walletId,
+      before: { balance: hotWalletBalance },
+      after: { balance: hotWalletBalance - parsedAmount },
+      details: {
+        hot_wallet_address: hotWalletInfo.address,
+        destination_address,
+        amount: parsedAmount,
+        amount_usdc: usdcAmount,
+        transaction_id: transactionId,
+        transaction_hash: transactionHash,
+      },
+    });
 
     return sendSuccess(res, {
       message: "Funds withdrawn to cold storage successfully",
@@ -1354,6 +2019,9 @@ export const getAdminSettings = async (
         max_market_volatility_threshold: config.max_market_volatility_threshold,
         suspicious_trade_threshold: Number(config.suspicious_trade_threshold),
         circuit_breaker_threshold: Number(config.circuit_breaker_threshold),
+        volatility_halt_enabled: config.volatility_halt_enabled,
+        volatility_halt_seconds: config.volatility_halt_seconds,
+        liquidity_halt_enabled: config.liquidity_halt_enabled,
       },
       dispute_controls: {
         default_dispute_period_hours: config.default_dispute_period_hours,
@@ -1370,6 +2038,16 @@ export const getAdminSettings = async (
         lp_fee_rate: config.lp_fee_rate,
         protocol_fee_rate: config.protocol_fee_rate,
         creator_fee_rate: config.creator_fee_rate,
+        referral_fee_share_bps: config.referral_fee_share_bps,
+      },
+      trending_controls: {
+        trending_window_hours: config.trending_window_hours,
+        trending_half_life_hours: config.trending_half_life_hours,
+        trending_volume_weight: config.trending_volume_weight,
+        trending_traders_weight: config.trending_traders_weight,
+        trending_price_weight: config.trending_price_weight,
+        trending_comment_weight: config.trending_comment_weight,
+        trending_watchlist_weight: config.trending_watchlist_weight,
       },
     };
 
@@ -1400,6 +2078,7 @@ export const updateAdminSettings = async (
       dispute_controls,
       feature_flags,
       platform_fees,
+      trending_controls,
     } = req.body;
 
     // Build update object by flattening the nested structure
@@ -1432,12 +2111,21 @@ export const updateAdminSettings = async (
     if (platform_fees) {
       Object.assign(updateData, platform_fees);
     }
+    if (trending_controls) {
+      Object.assign(updateData, trending_controls);
+    }
 
     // Validate that at least one field is being updated
     if (Object.keys(updateData).length === 0) {
       return sendValidationError(res, "At least one setting must be provided");
     }
 
+    // Snapshot the fields being changed before updating
+    const previousConfig: any = await MoodringModel.get();
+    const oldValues = Object.fromEntries(
+      Object.keys(updateData).map((key) => [key, previousConfig?.[key] ?? null])
+    );
+
     // Update the settings
     const updatedConfig = await MoodringModel.update(updateData);
 
@@ -1446,18 +2134,13 @@ export const updateAdminSettings = async (
     }
 
     // Log the admin action
-    await pool.query(
-      `INSERT INTO admin_actions (admin_user_id, action_type, metadata)
-       VALUES ($1, 'settings_update', $2)`,
-      [
-        req.id,
-        prepareJsonb({
-          updated_fields: Object.keys(updateData),
-          old_values: {}, // Would need to be populated from before update
-          new_values: updateData,
-        }),
-      ]
-    );
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "settings_update",
+      targetType: "settings",
+      before: oldValues,
+      after: updateData,
+      details: { updated_fields: Object.keys(updateData) },
+    });
 
     return sendSuccess(res, {
       message: "Admin settings updated successfully",
@@ -1491,6 +2174,7 @@ export const getAdminSettingsGroup = async (
       "dispute_controls",
       "feature_flags",
       "platform_fees",
+      "trending_controls",
     ];
 
     if (!validGroups.includes(group)) {
@@ -1555,6 +2239,9 @@ export const getAdminSettingsGroup = async (
             config.max_market_volatility_threshold,
           suspicious_trade_threshold: Number(config.suspicious_trade_threshold),
           circuit_breaker_threshold: Number(config.circuit_breaker_threshold),
+          volatility_halt_enabled: config.volatility_halt_enabled,
+          volatility_halt_seconds: config.volatility_halt_seconds,
+          liquidity_halt_enabled: config.liquidity_halt_enabled,
         };
         break;
       case "dispute_controls":
@@ -1577,6 +2264,18 @@ export const getAdminSettingsGroup = async (
           lp_fee_rate: config.lp_fee_rate,
           protocol_fee_rate: config.protocol_fee_rate,
           creator_fee_rate: config.creator_fee_rate,
+          referral_fee_share_bps: config.referral_fee_share_bps,
+        };
+        break;
+      case "trending_controls":
+        groupData = {
+          trending_window_hours: config.trending_window_hours,
+          trending_half_life_hours: config.trending_half_life_hours,
+          trending_volume_weight: config.trending_volume_weight,
+          trending_traders_weight: config.trending_traders_weight,
+          trending_price_weight: config.trending_price_weight,
+          trending_comment_weight: config.trending_comment_weight,
+          trending_watchlist_weight: config.trending_watchlist_weight,
         };
         break;
     }
@@ -1666,6 +2365,7 @@ export const reviewSuspiciousTrade = async (req: any, res: Response) => {
       return sendValidationError(res, validation.error!);
     }
 
+    const previousTrade = await SuspiciousTradeModel.findById(id);
     const updatedTrade = await SuspiciousTradeModel.updateReviewStatus(id, {
       review_status,
       reviewed_by: adminId,
@@ -1679,6 +2379,24 @@ export const reviewSuspiciousTrade = async (req: any, res: Response) => {
       return sendNotFound(res, "Suspicious trade not found");
     }
 
+    await AdminAuditService.record(AdminAuditService.getContext(req), {
+      action: "suspicious_trade_review",
+      targetType: "suspicious_trade",
+      targetId: id,
+      before: previousTrade && {
+        review_status: previousTrade.review_status,
+        review_notes: previousTrade.review_notes,
+        risk_score: previousTrade.risk_score,
+        manual_action_required: previousTrade.manual_action_required,
+      },
+      after: {
+        review_status: updatedTrade.review_status,
+        review_notes: updatedTrade.review_notes,
+        risk_score: updatedTrade.risk_score,
+        manual_action_required: updatedTrade.manual_action_required,
+      },
+    });
+
     return sendSuccess(res, {
       suspicious_trade: updatedTrade,
       message: "Suspicious trade reviewed successfully",
@@ -1721,6 +2439,202 @@ export const getUserSuspiciousTrades = async (req: any, res: Response) => {
   }
 };
 
+/**
+ * @route GET /api/admin/risk-rules
+ * @desc Get the suspicious trade detection rules and their settings
+ * @access Admin
+ */
+export const getRiskRules = async (req: GetRiskRulesRequest, res: Response) => {
+  try {
+    const rules = await RiskRulesEngine.listRules();
+
+    return sendSuccess(res, {
+      rules: rules.map(({ rule, config, stored }) => ({
+        name: rule.name,
+        description: rule.description,
+        ...config,
+        defaults: rule.defaults,
+        updated_by: stored?.updated_by ?? null,
+        updated_at: stored?.updated_at ?? null,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Get risk rules error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route PUT /api/admin/risk-rules/:name
+ * @desc Turn a risk rule on or off, or change its severity, action or parameters
+ * @access Admin
+ */
+export const updateRiskRule = async (
+  req: UpdateRiskRuleRequest,
+  res: Response
+) => {
+  try {
+    const { name } = req.params;
+    const { enabled, severity, action, params } = req.body;
+
+    const rule = RiskRulesEngine.getRule(name);
+    if (!rule) {
+      return sendNotFound(res, "Risk rule");
+    }
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return sendValidationError(res, "Enabled must be a boolean");
+    }
+    const validations = [];
+    if (severity !== undefined) {
+      validations.push(
+        validateEnum(severity, "Severity", [...RISK_SEVERITIES])
+      );
+    }
+    if (action !== undefined) {
+      validations.push(validateEnum(action, "Action", [...RISK_RULE_ACTIONS]));
+    }
+    const validation = validateFields(validations);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+    if (params !== undefined) {
+      if (typeof params !== "object" || params === null) {
+        return sendValidationError(res, "Params must be an object");
+      }
+      for (const [key, value] of Object.entries(params)) {
+        if (!(key in rule.defaults.params)) {
+          return sendValidationError(
+            res,
+            `Unknown parameter for ${name}: ${key}`
+          );
+        }
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+          return sendValidationError(
+            res,
+            `${key} must be a non-negative number`
+          );
+        }
+      }
+    }
+
+    const updated = await withTransaction(async (client) => {
+      const current = (await RiskRulesEngine.listRules(client)).find(
+        (entry) => entry.rule.name === name
+      )!.config;
+
+      const next = {
+        enabled: enabled ?? current.enabled,
+        severity: (severity as RiskSeverity) ?? current.severity,
+        action: (action as RiskRuleAction) ?? current.action,
+        params: { ...current.params, ...params },
+      };
+      const stored = await RiskRuleModel.upsert(name, next, req.id, client);
+
+      await AdminAuditService.record(
+        AdminAuditService.getContext(req),
+        {
+          action: "risk_rule_update",
+          targetType: "risk_rule",
+          targetId: name,
+          before: current,
+          after: next,
+        },
+        client
+      );
+
+      return stored;
+    });
+
+    return sendSuccess(res, {
+      rule: {
+        name: rule.name,
+        description: rule.description,
+        enabled: updated.enabled,
+        severity: updated.severity,
+        action: updated.action,
+        params: updated.params,
+        defaults: rule.defaults,
+        updated_by: updated.updated_by,
+        updated_at: updated.updated_at,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Update risk rule error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/user/:id/links
+ * @desc Get a user's devices, login IPs and the accounts linked to them
+ * @access Admin
+ */
+export const getUserAccountLinks = async (
+  req: GetUserAccountLinksRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+    const depth = Math.min(
+      Math.max(parseInt(req.query.depth || "") || 2, 1),
+      4
+    );
+
+    const userResult = await pool.query(`SELECT id FROM users WHERE id = $1`, [
+      id,
+    ]);
+    if (userResult.rows.length === 0) {
+      return sendNotFound(res, "User");
+    }
+
+    const [devices, ipAddresses, cluster] = await Promise.all([
+      UserDeviceModel.findByUserId(id),
+      UserIpAddressModel.findByUserId(id),
+      AccountLinkService.getCluster(id, depth),
+    ]);
+
+    const usersResult = await pool.query(
+      `SELECT id, username, display_name, created_at
+       FROM users WHERE id = ANY($1::uuid[])`,
+      [cluster.user_ids]
+    );
+    const users = new Map(usersResult.rows.map((row) => [row.id, row]));
+
+    return sendSuccess(res, {
+      user_id: id,
+      devices,
+      ip_addresses: ipAddresses,
+      linked_accounts: summarizeAccountLinks(id, cluster.edges).map(
+        (account) => ({
+          ...account,
+          username: users.get(account.user_id)?.username ?? null,
+        })
+      ),
+      cluster: {
+        users: cluster.user_ids.map((userId) => {
+          const user = users.get(userId);
+          return {
+            id: userId,
+            username: user?.username ?? null,
+            display_name: user?.display_name ?? null,
+            created_at: user ? Number(user.created_at) : null,
+          };
+        }),
+        links: cluster.edges,
+        depth: cluster.depth,
+        truncated: cluster.truncated,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get user account links error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
 /**
  * @route POST /api/admin/user/:id/admin
  * @desc Add or remove admin privileges for a user
@@ -1739,10 +2653,20 @@ export const toggleUserAdmin = async (
     }
 
     const { MoodringAdminModel } = require("../models/Moodring");
+    const wasAdmin = !!(await MoodringAdminModel.getAdminWithUser(id));
+    const auditToggle = () =>
+      AdminAuditService.record(AdminAuditService.getContext(req), {
+        action: "user_admin_toggle",
+        targetType: "user",
+        targetId: id,
+        before: { is_admin: wasAdmin },
+        after: { is_admin },
+      });
 
     if (is_admin) {
       // Add admin
       const admin = await MoodringAdminModel.addAdmin(id);
+      await auditToggle();
       return sendSuccess(res, {
         message: "User granted admin privileges",
         is_admin: true,
@@ -1753,6 +2677,7 @@ export const toggleUserAdmin = async (
       if (!removed) {
         return sendError(res, 404, "Admin record not found");
       }
+      await auditToggle();
       return sendSuccess(res, {
         message: "Admin privileges removed",
         is_admin: false,
@@ -1839,7 +2764,9 @@ export const getDispute = async (req: GetDisputeRequest, res: Response) => {
 
 /**
  * @route POST /api/admin/disputes/:id/resolve
- * @desc Resolve or dismiss a dispute
+ * @desc Resolve (uphold) or dismiss a dispute. Upholding a dispute overturns the
+ * option's resolution: its resolvers lose reputation and part of their locked bond.
+ * With void_market, upholding the dispute voids the whole market and refunds it.
  * @access Admin
  */
 export const resolveDispute = async (
@@ -1850,38 +2777,136 @@ export const resolveDispute = async (
     const { id } = req.params;
     const adminId = req.id;
     const { status, review_notes } = req.body;
+    const voidMarket = req.body.void_market === true;
+    const feePolicy = req.body.fee_policy || "retain";
 
     // Validate required fields
     const validation = validateFields([
       validateRequired(status, "Status"),
       validateEnum(status, "Status", ["resolved", "dismissed"]),
+      validateEnum(feePolicy, "Fee policy", VOID_FEE_POLICIES),
     ]);
 
     if (!validation.isValid) {
       return sendValidationError(res, validation.error!);
     }
 
-    // Check if dispute exists
-    const dispute = await DisputeModel.findById(id);
-    if (!dispute) {
-      return sendNotFound(res, "Dispute");
+    if (voidMarket && status !== "resolved") {
+      return sendValidationError(
+        res,
+        "A market can only be voided by upholding (resolving) a dispute"
+      );
     }
 
-    // Update dispute status
-    const updatedDispute = await DisputeModel.update(id, {
-      status,
-      reviewed_by: adminId,
-      reviewed_at: Math.floor(Date.now() / 1000),
-      review_notes: review_notes || null,
-    });
+    const { updatedDispute, overturn, voided } = await withTransaction(
+      async (client) => {
+        const disputeResult = await client.query(
+          `SELECT * FROM disputes WHERE id = $1 FOR UPDATE`,
+          [id]
+        );
+        const dispute = disputeResult.rows[0];
+        if (!dispute) {
+          throw new TransactionError(404, "Dispute not found");
+        }
+        if (dispute.status === "resolved" || dispute.status === "dismissed") {
+          throw new TransactionError(
+            400,
+            `Dispute has already been ${dispute.status}`
+          );
+        }
+
+        // Update dispute status
+        const updatedDispute = await DisputeModel.update(
+          id,
+          {
+            status,
+            reviewed_by: adminId,
+            reviewed_at: Math.floor(Date.now() / 1000),
+            review_notes: review_notes || null,
+          },
+          client
+        );
+
+        // An upheld dispute overturns the resolution: penalise its resolvers
+        const overturn =
+          status === "resolved"
+            ? await ResolverReputationService.applyOverturn(client, dispute)
+            : null;
+
+        // Voiding closes the market's other disputes and unwinds it;
+        // otherwise the market leaves DISPUTED once its last open dispute
+        // is closed
+        const voided = voidMarket
+          ? await MarketVoidService.voidMarket(client, dispute.market_id, {
+              reason: review_notes?.trim() || "Dispute upheld",
+              actorId: adminId,
+              feePolicy,
+              disputeId: id,
+            })
+          : null;
+        if (!voided) {
+          await MarketLifecycleService.settleDisputes(
+            client,
+            dispute.market_id,
+            adminId
+          );
+        }
+
+        await AdminAuditService.record(
+          AdminAuditService.getContext(req),
+          {
+            action: "dispute_resolve",
+            targetType: "dispute",
+            targetId: id,
+            before: { status: dispute.status },
+            after: { status, review_notes: review_notes || null },
+            details: {
+              market_id: dispute.market_id,
+              option_id: dispute.option_id,
+              overturn,
+              market_voided: !!voided,
+            },
+          },
+          client
+        );
+
+        if (voided) {
+          const { refunded_user_ids, ...summary } = voided;
+          await AdminAuditService.record(
+            AdminAuditService.getContext(req),
+            {
+              action: "market_void",
+              targetType: "market",
+              targetId: dispute.market_id,
+              after: { status: voided.status, is_voided: true },
+              details: { dispute_id: id, ...summary },
+            },
+            client
+          );
+        }
+
+        return { updatedDispute, overturn, voided };
+      }
+    );
+
+    if (voided) {
+      await MarketVoidService.emitRefundBalances(voided.refunded_user_ids);
+    }
 
     return sendSuccess(res, {
       dispute: updatedDispute,
-      message: `Dispute ${
-        status === "resolved" ? "resolved" : "dismissed"
-      } successfully`,
+      overturn,
+      void: voided,
+      message: voided
+        ? "Dispute upheld and market voided"
+        : `Dispute ${
+            status === "resolved" ? "resolved" : "dismissed"
+          } successfully`,
     });
   } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
     console.error("Resolve dispute error:", error);
     return sendError(res, 500, error.message || "Internal server error");
   }
@@ -0,0 +1,134 @@
+import { Response } from "express";
+import { AdminAuditService } from "../services/adminAuditService";
+import { AdminAuditLogFilters } from "../models/AdminAuditLog";
+import { sendError, sendSuccess, sendValidationError } from "../utils/errors";
+import {
+  GetAdminAuditLogRequest,
+  VerifyAdminAuditLogRequest,
+} from "../types/requests";
+
+const MAX_EXPORT_ROWS = 10_000;
+
+/**
+ * Parse audit log filters from the query string.
+ * Returns an error message if a time bound is not a Unix timestamp.
+ */
+const parseAuditFilters = (
+  query: GetAdminAuditLogRequest["query"]
+): { filters: AdminAuditLogFilters; error?: string } => {
+  const filters: AdminAuditLogFilters = {
+    admin_user_id: query.admin_id || undefined,
+    action: query.action || undefined,
+    target_type: query.target_type || undefined,
+    target_id: query.target_id || undefined,
+  };
+
+  for (const bound of ["from", "to"] as const) {
+    if (query[bound] !== undefined && query[bound] !== "") {
+      const value = Number(query[bound]);
+      if (!Number.isInteger(value) || value < 0) {
+        return {
+          filters,
+          error: `${bound} must be a Unix timestamp in seconds`,
+        };
+      }
+      filters[bound] = value;
+    }
+  }
+
+  return { filters };
+};
+
+/**
+ * @route GET /api/admin/audit
+ * @desc Get admin audit log entries, newest first. Filters: admin_id, action,
+ * target_type, target_id, from, to
+ * @access Admin
+ */
+export const getAdminAuditLog = async (
+  req: GetAdminAuditLogRequest,
+  res: Response
+) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = (page - 1) * limit;
+
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const { entries, total } = await AdminAuditService.list(filters, {
+      limit,
+      offset,
+    });
+
+    return sendSuccess(res, {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get admin audit log error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/audit/export
+ * @desc Export admin audit log entries as CSV (same filters as GET /audit)
+ * @access Admin
+ */
+export const exportAdminAuditLog = async (
+  req: GetAdminAuditLogRequest,
+  res: Response
+) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const { entries, total } = await AdminAuditService.list(filters, {
+      limit: MAX_EXPORT_ROWS,
+      offset: 0,
+    });
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="admin-audit-${Math.floor(Date.now() / 1000)}.csv"`
+    );
+    if (total > entries.length) {
+      res.setHeader("X-Truncated", "true");
+    }
+    return res.status(200).send(AdminAuditService.toCsv(entries));
+  } catch (error: any) {
+    console.error("Export admin audit log error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/audit/verify
+ * @desc Verify the admin audit log hash chain
+ * @access Admin
+ */
+export const verifyAdminAuditLog = async (
+  req: VerifyAdminAuditLogRequest,
+  res: Response
+) => {
+  try {
+    const verification = await AdminAuditService.verifyChain();
+    return sendSuccess(res, verification);
+  } catch (error: any) {
+    console.error("Verify admin audit log error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
@@ -1,4 +1,4 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 import crypto from "crypto";
 import { pool } from "../db";
 import { UserModel } from "../models/User";
@@ -29,12 +29,47 @@ import {
   LogoutRequest,
 } from "../types/requests";
 import { MoodringAdminModel } from "../models/Moodring";
+import { ReferralService } from "../services/referralService";
+import { AccountLinkService } from "../services/accountLinkService";
+import { getClientIp } from "../utils/request";
 
 // Constants for security
 const NONCE_EXPIRY_MINUTES = 5;
 const OTP_MAX_ATTEMPTS = 5;
 const OTP_LOCKOUT_MINUTES = 15;
 
+/**
+ * Record the referral for a new account. Never fails sign-up: an unknown or
+ * unusable code is ignored.
+ */
+const applyReferralCode = async (userId: string, referralCode: string) => {
+  try {
+    await ReferralService.captureReferral(userId, referralCode);
+  } catch (error) {
+    console.error(`Failed to record referral for user ${userId}:`, error);
+  }
+};
+
+/**
+ * Record the login's device and IP for account linking. Never fails login.
+ */
+const recordLoginSignals = async (
+  req: Request,
+  userId: string,
+  deviceFingerprint?: string
+) => {
+  try {
+    await AccountLinkService.recordLogin({
+      userId,
+      deviceFingerprint,
+      ipAddress: getClientIp(req),
+      userAgent: (req.headers["user-agent"] as string | undefined) || null,
+    });
+  } catch (error) {
+    console.error(`Failed to record login signals for user ${userId}:`, error);
+  }
+};
+
 /**
  * @route POST /api/auth/magic-link/request
  * @desc Request magic link (OTP) via email
@@ -86,7 +121,7 @@ export const verifyMagicLink = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { email, otp } = req.body;
+    const { email, otp, referral_code, device_fingerprint } = req.body;
 
     const validation = validateFields([
       validateRequired(otp, "OTP"),
@@ -292,6 +327,14 @@ export const verifyMagicLink = async (
       return { user, wallet, isNewUser };
     });
 
+    // Before the referral, so a code from an account on the same device
+    // is caught
+    await recordLoginSignals(req, result.user.id, device_fingerprint);
+
+    if (result.isNewUser && referral_code) {
+      await applyReferralCode(result.user.id, referral_code);
+    }
+
     // Generate JWT tokens
     const tokens = await generateTokenPair({
       id: result.user.id,
@@ -428,7 +471,14 @@ export const authenticateWithWallet = async (
   res: Response
 ): Promise<Response | void> => {
   try {
-    const { wallet_address, signature, message, nonce } = req.body;
+    const {
+      wallet_address,
+      signature,
+      message,
+      nonce,
+      referral_code,
+      device_fingerprint,
+    } = req.body;
 
     const validation = validateFields([
       validateRequired(wallet_address, "Wallet address"),
@@ -658,6 +708,14 @@ export const authenticateWithWallet = async (
       return { user, wallet, isNewUser };
     });
 
+    // Before the referral, so a code from an account on the same device
+    // is caught
+    await recordLoginSignals(req, result.user.id, device_fingerprint);
+
+    if (result.isNewUser && referral_code) {
+      await applyReferralCode(result.user.id, referral_code);
+    }
+
     // Generate JWT tokens
     const tokens = await generateTokenPair({
       id: result.user.id,
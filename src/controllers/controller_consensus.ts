@@ -0,0 +1,268 @@
+import { Response } from "express";
+import { UUID } from "crypto";
+import { MarketModel } from "../models/Market";
+import { ResolutionMode } from "../models/Resolution";
+import { ResolverModel } from "../models/Resolver";
+import { ConsensusTallyModel, JurorVoteModel } from "../models/Consensus";
+import { ConsensusResolutionService } from "../services/consensusResolutionService";
+import { emitBalanceUpdate } from "../services/websocket";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendValidationError,
+} from "../utils/errors";
+import {
+  validateFields,
+  validateNumber,
+  validateRequired,
+} from "../utils/validation";
+import {
+  JurorBondRequest,
+  GetJurorPanelRequest,
+  EnlistJurorRequest,
+  CommitJurorVoteRequest,
+  RevealJurorVoteRequest,
+} from "../types/requests";
+
+/**
+ * Shared handler for moving USDC between the wallet and the resolver bond
+ */
+const moveJurorBond =
+  (direction: "deposit" | "withdraw") =>
+  async (req: JurorBondRequest, res: Response) => {
+    try {
+      const userId = req.id;
+      if (!userId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      const amountValidation = validateNumber(req.body?.amount, "Amount", 1);
+      if (!amountValidation.isValid) {
+        return sendValidationError(res, amountValidation.error!);
+      }
+      const amount = Math.floor(Number(req.body.amount));
+
+      const { resolver, newBalance } = await withTransaction((client) =>
+        direction === "deposit"
+          ? ConsensusResolutionService.depositBond(
+              client,
+              userId as UUID,
+              amount
+            )
+          : ConsensusResolutionService.withdrawBond(
+              client,
+              userId as UUID,
+              amount
+            )
+      );
+
+      try {
+        emitBalanceUpdate({
+          user_id: userId,
+          balance_usdc: newBalance,
+          timestamp: new Date(),
+        });
+      } catch (wsError) {
+        console.error("WebSocket emission error:", wsError);
+      }
+
+      return sendSuccess(res, {
+        resolver,
+        new_balance: newBalance,
+      });
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return sendError(res, error.statusCode, error.message, error.details);
+      }
+      console.error(`Juror bond ${direction} error:`, error);
+      return sendError(res, 500, `Failed to ${direction} juror bond`);
+    }
+  };
+
+/**
+ * @route POST /api/resolution/jurors/bond
+ * @desc Move USDC (micro-USDC amount) from the wallet into the caller's resolver bond
+ * @access Private
+ */
+export const depositJurorBond = moveJurorBond("deposit");
+
+/**
+ * @route POST /api/resolution/jurors/bond/withdraw
+ * @desc Move free resolver bond back to the wallet
+ * @access Private
+ */
+export const withdrawJurorBond = moveJurorBond("withdraw");
+
+/**
+ * @route GET /api/resolution/:marketId/jurors
+ * @desc Get the juror panel, phase, deadlines, votes and tallies of a CONSENSUS market.
+ * Vote outcomes are only shown once revealed.
+ * @access Public
+ */
+export const getJurorPanel = async (
+  req: GetJurorPanelRequest,
+  res: Response
+) => {
+  try {
+    const { marketId } = req.params;
+
+    const market = await MarketModel.findById(marketId);
+    if (!market) {
+      return sendNotFound(res, "Market");
+    }
+    if (market.resolution_mode !== ResolutionMode.CONSENSUS) {
+      return sendError(res, 400, "Market does not use CONSENSUS resolution");
+    }
+
+    const schedule = ConsensusResolutionService.getSchedule(market);
+    const jurors = await ResolverModel.getJurors(marketId);
+    const votes = await JurorVoteModel.findByMarket(marketId);
+    const tallies = await ConsensusTallyModel.findByMarket(marketId);
+
+    return sendSuccess(res, {
+      ...schedule,
+      jurors: jurors.map((juror) => ({
+        resolver_id: juror.resolver_id,
+        user_id: juror.user_id,
+        name: juror.name,
+        bond_committed: juror.bond_committed,
+        bond_slashed: juror.bond_slashed,
+        released_at: juror.released_at,
+      })),
+      votes: votes.map((vote) => ({
+        option_id: vote.option_id,
+        resolver_id: vote.resolver_id,
+        commitment: vote.commitment,
+        committed_at: vote.committed_at,
+        revealed_outcome: vote.revealed_outcome,
+        revealed_at: vote.revealed_at,
+      })),
+      tallies,
+    });
+  } catch (error: any) {
+    console.error("Get juror panel error:", error);
+    return sendError(res, 500, "Failed to get juror panel");
+  }
+};
+
+/**
+ * @route POST /api/resolution/:marketId/jurors
+ * @desc Join the juror panel of a CONSENSUS market before it expires,
+ * locking the market's juror bond from the caller's resolver bond
+ * @access Private
+ */
+export const enlistJuror = async (req: EnlistJurorRequest, res: Response) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const juror = await withTransaction((client) =>
+      ConsensusResolutionService.enlist(
+        client,
+        req.params.marketId,
+        userId as UUID
+      )
+    );
+
+    return sendSuccess(res, { juror }, 201);
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Enlist juror error:", error);
+    return sendError(res, 500, "Failed to join juror panel");
+  }
+};
+
+/**
+ * @route POST /api/resolution/:marketId/votes/commit
+ * @desc Commit a hidden YES/NO vote on an option during the commit phase.
+ * commitment = hex sha256 of "<optionId>:<userId>:<YES|NO>:<salt>"
+ * @access Private (market jurors)
+ */
+export const commitJurorVote = async (
+  req: CommitJurorVoteRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { optionId, commitment } = req.body;
+    const validation = validateFields([
+      validateRequired(optionId, "Option ID"),
+      validateRequired(commitment, "Commitment"),
+    ]);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+
+    const vote = await withTransaction((client) =>
+      ConsensusResolutionService.commitVote(client, {
+        marketId: req.params.marketId,
+        optionId,
+        userId: userId as UUID,
+        commitment,
+      })
+    );
+
+    return sendSuccess(res, { vote });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Commit juror vote error:", error);
+    return sendError(res, 500, "Failed to commit vote");
+  }
+};
+
+/**
+ * @route POST /api/resolution/:marketId/votes/reveal
+ * @desc Reveal a committed vote during the reveal phase
+ * @access Private (market jurors)
+ */
+export const revealJurorVote = async (
+  req: RevealJurorVoteRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { optionId, outcome, salt } = req.body;
+    const validation = validateFields([
+      validateRequired(optionId, "Option ID"),
+      validateRequired(outcome, "Outcome"),
+      validateRequired(salt, "Salt"),
+    ]);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+
+    const vote = await withTransaction((client) =>
+      ConsensusResolutionService.revealVote(client, {
+        marketId: req.params.marketId,
+        optionId,
+        userId: userId as UUID,
+        outcome,
+        salt,
+      })
+    );
+
+    return sendSuccess(res, { vote });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Reveal juror vote error:", error);
+    return sendError(res, 500, "Failed to reveal vote");
+  }
+};
@@ -0,0 +1,288 @@
+import { Response } from "express";
+import { UUID } from "crypto";
+import { UserModel } from "../models/User";
+import { MoodringModel } from "../models/Moodring";
+import {
+  CopyTradeStatus,
+  CopyTradeQueueModel,
+  TraderFollowModel,
+} from "../models/CopyTrade";
+import { CopyTradingService } from "../services/copyTradingService";
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendValidationError,
+} from "../utils/errors";
+import {
+  validateEnum,
+  validateFields,
+  validateNumber,
+  validateRequired,
+} from "../utils/validation";
+import {
+  FollowTraderRequest,
+  UnfollowTraderRequest,
+  GetCopyFollowingRequest,
+  GetCopyLedgerRequest,
+} from "../types/requests";
+
+const MAX_SLIPPAGE_BPS = 5_000; // 50%
+
+const copyTradingDisabled = (res: Response) =>
+  sendError(res, 403, "Copy trading is currently disabled");
+
+/**
+ * @route POST /api/copy/follow/:trader_id
+ * @desc Start copying a trader, or update the sizing rule of an existing follow
+ * @access Private
+ *
+ * Sizing modes (amounts in micro-USDC):
+ * - fixed: every copied buy spends fixed_amount
+ * - percentage: copied buys spend copy_percentage % of the leader's cost
+ * - market_cap: like percentage, until max_per_market has been spent in a market
+ * Sells always mirror the fraction of the position the leader sold.
+ */
+export const followTrader = async (req: FollowTraderRequest, res: Response) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    if (!(await MoodringModel.isFeatureEnabled("copy_trading"))) {
+      return copyTradingDisabled(res);
+    }
+
+    const { trader_id } = req.params;
+    const {
+      sizing_mode,
+      copy_percentage = 100,
+      fixed_amount,
+      max_trade_amount = null,
+      max_per_market = null,
+      max_slippage_bps = 200,
+    } = req.body;
+
+    if (trader_id === userId) {
+      return sendValidationError(res, "You cannot copy your own trades");
+    }
+
+    const validation = validateFields([
+      validateEnum(sizing_mode, "Sizing mode", [
+        "fixed",
+        "percentage",
+        "market_cap",
+      ]),
+      validateNumber(copy_percentage, "Copy percentage", 1, 100),
+      validateNumber(
+        max_slippage_bps,
+        "Max slippage (bps)",
+        0,
+        MAX_SLIPPAGE_BPS
+      ),
+      sizing_mode === "fixed"
+        ? validateNumber(fixed_amount, "Fixed amount", 1)
+        : { isValid: true },
+      sizing_mode === "market_cap"
+        ? validateRequired(max_per_market, "Max per market")
+        : { isValid: true },
+      max_trade_amount !== null
+        ? validateNumber(max_trade_amount, "Max trade amount", 1)
+        : { isValid: true },
+      max_per_market !== null
+        ? validateNumber(max_per_market, "Max per market", 1)
+        : { isValid: true },
+    ]);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+
+    const trader = await UserModel.findById(trader_id);
+    if (!trader) {
+      return sendNotFound(res, "User");
+    }
+
+    const access = await CopyTradingService.checkFollowAccess(
+      trader_id,
+      userId
+    );
+    if (!access.allowed) {
+      return sendError(
+        res,
+        403,
+        `You need at least ${access.requiredKeys} key(s) to copy this trader. You currently have ${access.ownedKeys} key(s).`,
+        {
+          required_keys: access.requiredKeys,
+          owned_keys: access.ownedKeys,
+        }
+      );
+    }
+
+    const follow = await TraderFollowModel.upsert({
+      follower_id: userId as UUID,
+      trader_id: trader_id as UUID,
+      sizing_mode,
+      copy_percentage: Math.floor(Number(copy_percentage)),
+      fixed_amount:
+        sizing_mode === "fixed" ? Math.floor(Number(fixed_amount)) : null,
+      max_trade_amount:
+        max_trade_amount !== null ? Math.floor(Number(max_trade_amount)) : null,
+      max_per_market:
+        max_per_market !== null ? Math.floor(Number(max_per_market)) : null,
+      max_slippage_bps: Math.floor(Number(max_slippage_bps)),
+    });
+
+    return sendSuccess(res, {
+      message: "Now copying this trader",
+      follow,
+    });
+  } catch (error: any) {
+    console.error("Follow trader error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to copy trader. Please try again."
+    );
+  }
+};
+
+/**
+ * @route DELETE /api/copy/follow/:trader_id
+ * @desc Stop copying a trader (pending copies are rejected)
+ * @access Private
+ */
+export const unfollowTrader = async (
+  req: UnfollowTraderRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const follow = await TraderFollowModel.disable(
+      userId,
+      req.params.trader_id
+    );
+    if (!follow) {
+      return sendNotFound(res, "Copy follow");
+    }
+
+    return sendSuccess(res, {
+      message: "Stopped copying this trader",
+      follow,
+    });
+  } catch (error: any) {
+    console.error("Unfollow trader error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to stop copying trader. Please try again."
+    );
+  }
+};
+
+/**
+ * @route GET /api/copy/following
+ * @desc Get traders the current user is copying
+ * @access Private
+ */
+export const getCopyFollowing = async (
+  req: GetCopyFollowingRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const follows = await TraderFollowModel.findByFollower(userId);
+    return sendSuccess(res, { follows });
+  } catch (error: any) {
+    console.error("Get copy following error:", error);
+    return sendError(res, 500, "Failed to get copied traders");
+  }
+};
+
+/**
+ * @route GET /api/copy/followers
+ * @desc Get the number of users copying the current user
+ * @access Private
+ */
+export const getCopyFollowers = async (
+  req: GetCopyFollowingRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const count = await TraderFollowModel.countActiveFollowers(userId);
+    return sendSuccess(res, { copiers: count });
+  } catch (error: any) {
+    console.error("Get copy followers error:", error);
+    return sendError(res, 500, "Failed to get copiers");
+  }
+};
+
+/**
+ * @route GET /api/copy/ledger
+ * @desc Get the copied-trade ledger for the current user
+ * @access Private
+ */
+export const getCopyLedger = async (
+  req: GetCopyLedgerRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { status, trader_id } = req.query;
+    if (status) {
+      const statusValidation = validateEnum(status, "Status", [
+        "pending",
+        "processing",
+        "completed",
+        "failed",
+        "rejected",
+      ]);
+      if (!statusValidation.isValid) {
+        return sendValidationError(res, statusValidation.error!);
+      }
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const { entries, total } = await CopyTradeQueueModel.findLedger(
+      userId,
+      { status: status as CopyTradeStatus | undefined, traderId: trader_id },
+      limit,
+      offset
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return sendSuccess(res, {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get copy ledger error:", error);
+    return sendError(res, 500, "Failed to get copied trades");
+  }
+};
@@ -18,6 +18,8 @@ import {
   sendValidationError,
 } from "../utils/errors";
 import { withTransaction, TransactionError } from "../utils/transaction";
+import { LedgerService } from "../services/ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
 import {
   BuyKeysRequest,
   SellKeysRequest,
@@ -122,6 +124,22 @@ export const buyKeys = async (req: BuyKeysRequest, res: Response) => {
         );
       }
 
+      // Proceeds for a trader without a wallet aren't credited to anyone
+      await LedgerService.transfer(
+        client,
+        "key_buy",
+        LedgerAccounts.user(buyerId),
+        traderWallet
+          ? LedgerAccounts.user(trader_id)
+          : LedgerAccounts.adjustments(),
+        totalCost,
+        {
+          reference_type: "user",
+          reference_id: trader_id,
+          metadata: { quantity },
+        }
+      );
+
       // Update key supply
       const newSupply = currentSupply + quantity;
       await client.query(
@@ -325,6 +343,21 @@ export const sellKeys = async (req: SellKeysRequest, res: Response) => {
         );
       }
 
+      await LedgerService.transfer(
+        client,
+        "key_sell",
+        traderWallet
+          ? LedgerAccounts.user(trader_id)
+          : LedgerAccounts.adjustments(),
+        LedgerAccounts.user(sellerId),
+        totalPayout,
+        {
+          reference_type: "user",
+          reference_id: trader_id,
+          metadata: { quantity },
+        }
+      );
+
       // Update key supply
       const newSupply = currentSupply - quantity;
       await client.query(
@@ -0,0 +1,112 @@
+import { Response } from "express";
+import { LedgerModel, LedgerReconciliationModel } from "../models/Ledger";
+import { WalletModel } from "../models/Wallet";
+import { LedgerReconciliationService } from "../services/ledgerReconciliationService";
+import { LedgerAccounts } from "../utils/ledger";
+import { sendError, sendNotFound, sendSuccess } from "../utils/errors";
+import {
+  GetLedgerReconciliationsRequest,
+  GetUserLedgerRequest,
+  RunLedgerReconciliationRequest,
+} from "../types/requests";
+
+const parsePagination = (query: { page?: string; limit?: string }) => {
+  const page = parseInt(query.page as string) || 1;
+  const limit = Math.min(parseInt(query.limit as string) || 50, 200);
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+/**
+ * @route GET /api/admin/ledger/reconciliations
+ * @desc Get ledger reconciliation runs, newest first
+ * @access Admin
+ */
+export const getLedgerReconciliations = async (
+  req: GetLedgerReconciliationsRequest,
+  res: Response
+) => {
+  try {
+    const { page, limit, offset } = parsePagination(req.query);
+
+    const { reconciliations, total } =
+      await LedgerReconciliationModel.findRecent(limit, offset);
+
+    return sendSuccess(res, {
+      reconciliations,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get ledger reconciliations error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/ledger/reconcile
+ * @desc Reconcile the ledger against wallet balances and fee totals now
+ * @access Admin
+ */
+export const runLedgerReconciliation = async (
+  req: RunLedgerReconciliationRequest,
+  res: Response
+) => {
+  try {
+    const reconciliation = await LedgerReconciliationService.reconcile(req.id);
+    return sendSuccess(res, { reconciliation });
+  } catch (error: any) {
+    console.error("Run ledger reconciliation error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/admin/ledger/user/:id
+ * @desc Get a user's ledger entries, newest first, with their ledger balance
+ * next to their wallet balance
+ * @access Admin
+ */
+export const getUserLedger = async (
+  req: GetUserLedgerRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+    const { page, limit, offset } = parsePagination(req.query);
+
+    const wallet = await WalletModel.findByUserId(id);
+    if (!wallet) {
+      return sendNotFound(res, "Wallet");
+    }
+
+    const account = LedgerAccounts.user(id);
+    const [ledgerBalance, { entries, total }] = await Promise.all([
+      LedgerModel.getAccountBalance(account.type, account.id),
+      LedgerModel.findEntriesByAccount(account.type, account.id, limit, offset),
+    ]);
+    const walletBalance = Number(wallet.balance_usdc);
+
+    return sendSuccess(res, {
+      user_id: id,
+      wallet_balance: walletBalance,
+      ledger_balance: ledgerBalance,
+      difference: ledgerBalance - walletBalance,
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get user ledger error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
@@ -16,6 +16,9 @@ import {
   sendValidationError,
 } from "../utils/errors";
 import { validateRequired, validateNumber } from "../utils/validation";
+import { calculateResolvedPayout } from "../utils/scalar";
+import { LedgerService } from "../services/ledgerService";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
 import {
   AddLiquidityRequest,
   RemoveLiquidityRequest,
@@ -134,9 +137,11 @@ async function calculatePendingClaims(
 ): Promise<number> {
   // Get all resolved options for this market
   const optionsResult = await client.query(
-    `SELECT id, winning_side 
-     FROM market_options 
-     WHERE market_id = $1 AND is_resolved = TRUE AND winning_side IS NOT NULL`,
+    `SELECT o.id, o.winning_side, o.resolved_value,
+            m.is_scalar, m.scalar_lower_bound, m.scalar_upper_bound
+     FROM market_options o
+     JOIN markets m ON m.id = o.market_id
+     WHERE o.market_id = $1 AND o.is_resolved = TRUE AND o.winning_side IS NOT NULL`,
     [marketId]
   );
 
@@ -149,7 +154,6 @@ async function calculatePendingClaims(
   // For each resolved option, calculate pending claims
   for (const option of optionsResult.rows) {
     const optionId = option.id;
-    const winningSide = option.winning_side;
 
     // Get all unclaimed positions for this option
     const positionsResult = await client.query(
@@ -166,14 +170,12 @@ async function calculatePendingClaims(
       const yesShares = Number(position.yes_shares || 0);
       const noShares = Number(position.no_shares || 0);
 
-      // Payout is 1 micro-USDC per winning share
-      if (winningSide === 1) {
-        // YES won, so yes_shares are winning
-        totalPendingClaims += yesShares;
-      } else if (winningSide === 2) {
-        // NO won, so no_shares are winning
-        totalPendingClaims += noShares;
-      }
+      // Payout is 1 micro-USDC per winning share (pro rata on scalar options)
+      totalPendingClaims += calculateResolvedPayout(
+        option,
+        yesShares,
+        noShares
+      );
     }
   }
 
@@ -332,6 +334,14 @@ export const addLiquidity = async (req: AddLiquidityRequest, res: Response) => {
               `UPDATE wallets SET balance_usdc = balance_usdc - $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
               [parsedAmount, wallet.id]
             );
+            await LedgerService.transfer(
+              client,
+              "liquidity_add",
+              LedgerAccounts.user(userId),
+              LedgerAccounts.marketPool(marketId),
+              parsedAmount,
+              { reference_type: "market", reference_id: marketId }
+            );
 
             // Update market liquidity pool
             const newLiquidity = currentPoolLiquidity + parsedAmount;
@@ -708,6 +718,16 @@ export const removeLiquidity = async (
               `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE user_id = $2`,
               [usdcToReturn, userId]
             );
+            await LedgerService.post(client, {
+              transaction_type: "liquidity_remove",
+              reference_type: "market",
+              reference_id: marketId,
+              entries: [
+                debit(LedgerAccounts.marketPool(marketId), liquidityPortion),
+                debit(LedgerAccounts.lpFeePool(marketId), feesPortion),
+                credit(LedgerAccounts.user(userId), usdcToReturn),
+              ],
+            });
 
             return {
               usdcToReturn,
@@ -1230,6 +1250,16 @@ export const claimLpRewards = async (
               `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE user_id = $2`,
               [payout, userId]
             );
+            await LedgerService.post(client, {
+              transaction_type: "lp_rewards_claim",
+              reference_type: "market",
+              reference_id: marketId,
+              entries: [
+                debit(LedgerAccounts.marketPool(marketId), liquidityPortion),
+                debit(LedgerAccounts.lpFeePool(marketId), feesPortion),
+                credit(LedgerAccounts.user(userId), payout),
+              ],
+            });
 
             // Get updated balance for websocket update
             const updatedWalletResult = await client.query(
@@ -0,0 +1,429 @@
+import { Response } from "express";
+import { pool } from "../db";
+import { MarketModel } from "../models/Market";
+import { MoodringModel } from "../models/Moodring";
+import { LiveRoom, LiveRoomModel } from "../models/LiveRoom";
+import {
+  emitLiveRoomUpdate,
+  removeUserFromLiveRoom,
+} from "../services/websocket";
+import { TransactionError } from "../utils/transaction";
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendValidationError,
+} from "../utils/errors";
+import {
+  GetActiveLiveRoomsRequest,
+  GetLiveRoomRequest,
+  GetLiveRoomMessagesRequest,
+  JoinLiveRoomRequest,
+  LeaveLiveRoomRequest,
+  ModerateLiveRoomParticipantRequest,
+  CloseLiveRoomRequest,
+} from "../types/requests";
+
+type ModerationAction = "promote" | "demote" | "mute" | "unmute" | "kick";
+
+const MAX_KICK_REASON_LENGTH = 500;
+
+/**
+ * Throw unless live rooms are enabled in the platform config
+ */
+const requireLiveRoomsEnabled = async () => {
+  if (!(await MoodringModel.isFeatureEnabled("live_rooms"))) {
+    throw new TransactionError(403, "Live rooms are currently disabled");
+  }
+};
+
+/**
+ * Load an active room the actor may moderate: room hosts and the market creator.
+ * Returns whether the actor is the market creator.
+ */
+const getModeratedRoom = async (
+  roomId: string,
+  actorId: string
+): Promise<{ room: LiveRoom; isCreator: boolean }> => {
+  const room = await LiveRoomModel.findById(roomId);
+  if (!room || !room.is_active) {
+    throw new TransactionError(404, "Live room not found");
+  }
+
+  const creatorResult = await pool.query(
+    `SELECT creator_id FROM markets WHERE id = $1`,
+    [room.market_id]
+  );
+  const isCreator = creatorResult.rows[0]?.creator_id === actorId;
+  if (isCreator) {
+    return { room, isCreator };
+  }
+
+  const actor = await LiveRoomModel.getParticipant(roomId, actorId);
+  if (!actor || actor.role !== "host") {
+    throw new TransactionError(
+      403,
+      "Only hosts and the market creator can moderate this room"
+    );
+  }
+
+  return { room, isCreator };
+};
+
+/**
+ * @route GET /api/live-rooms
+ * @desc Get active live rooms, busiest first
+ * @access Public
+ */
+export const getActiveLiveRooms = async (
+  req: GetActiveLiveRoomsRequest,
+  res: Response
+) => {
+  try {
+    await requireLiveRoomsEnabled();
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const rooms = await LiveRoomModel.getActiveRooms(limit);
+
+    return sendSuccess(res, { rooms });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Get active live rooms error:", error);
+    return sendError(res, 500, "Failed to get live rooms");
+  }
+};
+
+/**
+ * @route GET /api/live-rooms/:roomId
+ * @desc Get a live room with its current participants
+ * @access Public
+ */
+export const getLiveRoom = async (req: GetLiveRoomRequest, res: Response) => {
+  try {
+    await requireLiveRoomsEnabled();
+
+    const room = await LiveRoomModel.findByIdWithParticipants(
+      req.params.roomId
+    );
+    if (!room) {
+      return sendNotFound(res, "Live room");
+    }
+
+    return sendSuccess(res, { room });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Get live room error:", error);
+    return sendError(res, 500, "Failed to get live room");
+  }
+};
+
+/**
+ * @route GET /api/live-rooms/:roomId/messages
+ * @desc Get chat history for a live room (newest first, page back with ?before=)
+ * @access Private
+ */
+export const getLiveRoomMessages = async (
+  req: GetLiveRoomMessagesRequest,
+  res: Response
+) => {
+  try {
+    await requireLiveRoomsEnabled();
+
+    const { roomId } = req.params;
+    const room = await LiveRoomModel.findById(roomId);
+    if (!room) {
+      return sendNotFound(res, "Live room");
+    }
+
+    if (req.id && (await LiveRoomModel.isKicked(roomId, req.id))) {
+      return sendError(res, 403, "You have been removed from this room");
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const before = parseInt(req.query.before as string) || undefined;
+
+    const messages = await LiveRoomModel.getMessages(roomId, limit, before);
+
+    return sendSuccess(res, {
+      messages,
+      hasMore: messages.length === limit,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Get live room messages error:", error);
+    return sendError(res, 500, "Failed to get messages");
+  }
+};
+
+/**
+ * @route POST /api/live-rooms/market/:marketId/join
+ * @desc Join the live room of a market (created on first join).
+ * The market creator joins as host, everyone else as a listener.
+ * @access Private
+ */
+export const joinLiveRoom = async (req: JoinLiveRoomRequest, res: Response) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    await requireLiveRoomsEnabled();
+
+    const market = await MarketModel.findById(req.params.marketId);
+    if (!market) {
+      return sendNotFound(res, "Market");
+    }
+
+    const room = await LiveRoomModel.getOrCreateForMarket(market.id);
+
+    if (await LiveRoomModel.isKicked(room.id, userId)) {
+      return sendError(res, 403, "You have been removed from this room");
+    }
+
+    let participant = await LiveRoomModel.getParticipant(room.id, userId);
+    if (!participant) {
+      if (
+        Number(room.current_participant_count) >= Number(room.max_participants)
+      ) {
+        return sendError(res, 409, "This live room is full");
+      }
+
+      const role = market.creator_id === userId ? "host" : "listener";
+      participant = await LiveRoomModel.addParticipant(room.id, userId, role);
+
+      emitLiveRoomUpdate({
+        room_id: room.id,
+        event: "joined",
+        user_id: userId,
+        participant,
+        timestamp: new Date(),
+      });
+    }
+
+    const roomWithParticipants = await LiveRoomModel.findByIdWithParticipants(
+      room.id
+    );
+
+    return sendSuccess(res, {
+      room: roomWithParticipants,
+      participant,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Join live room error:", error);
+    return sendError(res, 500, "Failed to join live room");
+  }
+};
+
+/**
+ * @route POST /api/live-rooms/:roomId/leave
+ * @desc Leave a live room
+ * @access Private
+ */
+export const leaveLiveRoom = async (
+  req: LeaveLiveRoomRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { roomId } = req.params;
+    const left = await LiveRoomModel.removeParticipant(roomId, userId);
+    if (!left) {
+      return sendNotFound(res, "Live room participant");
+    }
+
+    emitLiveRoomUpdate({
+      room_id: roomId,
+      event: "left",
+      user_id: userId,
+      timestamp: new Date(),
+    });
+
+    return sendSuccess(res, { message: "Left live room" });
+  } catch (error: any) {
+    console.error("Leave live room error:", error);
+    return sendError(res, 500, "Failed to leave live room");
+  }
+};
+
+/**
+ * Shared handler for participant moderation actions
+ */
+const moderateParticipant =
+  (action: ModerationAction) =>
+  async (req: ModerateLiveRoomParticipantRequest, res: Response) => {
+    try {
+      const actorId = req.id;
+      if (!actorId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      await requireLiveRoomsEnabled();
+
+      const { roomId, userId } = req.params;
+      if (userId === actorId) {
+        return sendValidationError(res, "You cannot moderate yourself");
+      }
+
+      const { room, isCreator } = await getModeratedRoom(roomId, actorId);
+
+      const target = await LiveRoomModel.getParticipant(room.id, userId);
+      if (!target) {
+        return sendNotFound(res, "Live room participant");
+      }
+      // Hosts can only be moderated by the market creator
+      if (target.role === "host" && !isCreator) {
+        return sendError(
+          res,
+          403,
+          "Only the market creator can moderate a host"
+        );
+      }
+
+      let participant = null;
+      switch (action) {
+        case "promote":
+          participant = await LiveRoomModel.promoteToSpeaker(room.id, userId);
+          break;
+        case "demote":
+          participant = await LiveRoomModel.demoteToListener(room.id, userId);
+          break;
+        case "mute":
+          participant = await LiveRoomModel.setHostMute(room.id, userId, true);
+          break;
+        case "unmute":
+          participant = await LiveRoomModel.setHostMute(room.id, userId, false);
+          break;
+        case "kick": {
+          const reason = req.body?.reason?.trim() || null;
+          if (reason && reason.length > MAX_KICK_REASON_LENGTH) {
+            return sendValidationError(
+              res,
+              `Reason must be at most ${MAX_KICK_REASON_LENGTH} characters`
+            );
+          }
+          await LiveRoomModel.kickParticipant(room.id, userId, actorId, reason);
+          break;
+        }
+      }
+
+      if (!participant && action !== "kick") {
+        return sendError(res, 400, `Participant cannot be ${action}d`);
+      }
+
+      const eventByAction = {
+        promote: "promoted",
+        demote: "demoted",
+        mute: "muted",
+        unmute: "unmuted",
+        kick: "kicked",
+      } as const;
+
+      emitLiveRoomUpdate({
+        room_id: room.id,
+        event: eventByAction[action],
+        user_id: userId,
+        participant: participant || undefined,
+        actor_id: actorId,
+        timestamp: new Date(),
+      });
+
+      if (action === "kick") {
+        await removeUserFromLiveRoom(room.id, userId);
+      }
+
+      return sendSuccess(res, {
+        message: `Participant ${eventByAction[action]}`,
+        participant,
+      });
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return sendError(res, error.statusCode, error.message, error.details);
+      }
+      console.error(`Live room ${action} error:`, error);
+      return sendError(res, 500, `Failed to ${action} participant`);
+    }
+  };
+
+/**
+ * @route POST /api/live-rooms/:roomId/participants/:userId/promote
+ * @desc Promote a listener to speaker
+ * @access Private (room host or market creator)
+ */
+export const promoteParticipant = moderateParticipant("promote");
+
+/**
+ * @route POST /api/live-rooms/:roomId/participants/:userId/demote
+ * @desc Demote a speaker to listener
+ * @access Private (room host or market creator)
+ */
+export const demoteParticipant = moderateParticipant("demote");
+
+/**
+ * @route POST /api/live-rooms/:roomId/participants/:userId/mute
+ * @desc Mute a participant (microphone and chat) until unmuted by a host
+ * @access Private (room host or market creator)
+ */
+export const muteParticipant = moderateParticipant("mute");
+
+/**
+ * @route POST /api/live-rooms/:roomId/participants/:userId/unmute
+ * @desc Lift a host mute
+ * @access Private (room host or market creator)
+ */
+export const unmuteParticipant = moderateParticipant("unmute");
+
+/**
+ * @route POST /api/live-rooms/:roomId/participants/:userId/kick
+ * @desc Remove a participant from the room; they cannot rejoin it
+ * @access Private (room host or market creator)
+ */
+export const kickParticipant = moderateParticipant("kick");
+
+/**
+ * @route POST /api/live-rooms/:roomId/close
+ * @desc Close a live room and remove all participants
+ * @access Private (room host or market creator)
+ */
+export const closeLiveRoom = async (
+  req: CloseLiveRoomRequest,
+  res: Response
+) => {
+  try {
+    const actorId = req.id;
+    if (!actorId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { room } = await getModeratedRoom(req.params.roomId, actorId);
+    await LiveRoomModel.closeRoom(room.id);
+
+    emitLiveRoomUpdate({
+      room_id: room.id,
+      event: "closed",
+      actor_id: actorId,
+      timestamp: new Date(),
+    });
+
+    return sendSuccess(res, { message: "Live room closed" });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Close live room error:", error);
+    return sendError(res, 500, "Failed to close live room");
+  }
+};
@@ -3,8 +3,8 @@ import { BN } from "@coral-xyz/anchor";
 import { v4 as uuidv4 } from "uuid";
 import { UUID } from "crypto";
 import { pool } from "../db";
-import { MarketModel } from "../models/Market";
-import { OptionModel } from "../models/Option";
+import { Market, MarketModel } from "../models/Market";
+import { Option, OptionModel } from "../models/Option";
 import { CategoryModel } from "../models/Category";
 import { uploadImageToS3 } from "../utils/metadata";
 import { validateImage, validateTextContent } from "../utils/contentModeration";
@@ -16,13 +16,31 @@ import {
   calculate_no_price,
   calculate_buy_cost,
   calculate_sell_payout,
+  calculate_multi_buy_cost,
+  calculate_multi_prices,
+  calculate_multi_sell_payout,
   PRECISION,
 } from "../utils/lmsr";
+import {
+  MAX_SCALAR_UNIT_LENGTH,
+  getScalarImpliedValue,
+  parseScalarValue,
+  validateScalarBounds,
+} from "../utils/scalar";
 import { MoodringAdminModel, MoodringModel } from "../models/Moodring";
 import { WatchlistModel } from "../models/Watchlist";
 import { LpPositionModel } from "../models/LpPosition";
+import { MarketStatusHistoryModel } from "../models/MarketStatusHistory";
 import { PoolClient } from "pg";
-import { ResolutionMode, MarketStatus } from "../models/Resolution";
+import {
+  ResolutionMode,
+  MarketStatus,
+  ResolutionConfig,
+} from "../models/Resolution";
+import { ConsensusResolutionService } from "../services/consensusResolutionService";
+import { OpinionResolutionService } from "../services/opinionResolutionService";
+import { LedgerService } from "../services/ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
 import { withTransaction, TransactionError } from "../utils/transaction";
 import {
   sendError,
@@ -86,6 +104,56 @@ const normalizeQuestion = (question: string): string => {
   return normalized;
 };
 
+/**
+ * YES price (0..1) of each option, in the order given.
+ * Options of an exclusive market share one LMSR cost function, so they are
+ * priced together and their prices sum to 1; every other option is its own
+ * YES/NO pair. Falls back to even prices if the market isn't initialized.
+ */
+const getOptionYesPrices = (
+  market: { liquidity_parameter: number | string; is_exclusive?: boolean },
+  options: Array<{
+    yes_quantity: number | string;
+    no_quantity: number | string;
+  }>
+): number[] => {
+  const evenPrice = market.is_exclusive ? 1 / options.length : 0.5;
+  const prices = options.map(() => evenPrice);
+
+  // Only calculate prices if market has valid liquidity_parameter
+  if (!market.liquidity_parameter || Number(market.liquidity_parameter) <= 0) {
+    return prices;
+  }
+  const liquidityParam = new BN(market.liquidity_parameter);
+
+  if (market.is_exclusive) {
+    try {
+      return calculate_multi_prices(
+        options.map(
+          (option) => new BN(Math.floor(Number(option.yes_quantity)))
+        ),
+        liquidityParam
+      ).map((price) => price / PRECISION.toNumber());
+    } catch (e) {
+      return prices;
+    }
+  }
+
+  return options.map((option, i) => {
+    try {
+      const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
+      const noQty = new BN(Math.floor(Number(option.no_quantity)));
+      return (
+        calculate_yes_price(yesQty, noQty, liquidityParam) /
+        PRECISION.toNumber()
+      );
+    } catch (e) {
+      // Use defaults if calculation fails
+      return prices[i];
+    }
+  });
+};
+
 /**
  * @route GET /api/market/creation-fee
  * @desc Get the market creation fee
@@ -125,8 +193,14 @@ export const createMarket = async (req: CreateMarketRequest, res: Response) => {
       marketDescription,
       marketExpirationDate,
       isBinary,
+      isScalar,
+      scalarLowerBound,
+      scalarUpperBound,
+      scalarUnit,
+      isExclusive,
       categoryIds,
       resolutionMode,
+      resolutionConfig,
     } = req.body;
 
     if (!userId) {
@@ -206,6 +280,71 @@ export const createMarket = async (req: CreateMarketRequest, res: Response) => {
       return sendValidationError(res, modeValidation.error!);
     }
 
+    // CONSENSUS markets carry their juror settings and OPINION markets their
+    // commit–reveal settings (defaults filled in)
+    let marketResolutionConfig: ResolutionConfig | null = null;
+    try {
+      if (resolutionMode === ResolutionMode.CONSENSUS) {
+        marketResolutionConfig =
+          ConsensusResolutionService.parseConfig(resolutionConfig);
+      } else if (resolutionMode === ResolutionMode.OPINION) {
+        marketResolutionConfig =
+          OpinionResolutionService.parseConfig(resolutionConfig);
+      }
+    } catch (error: any) {
+      return sendValidationError(res, error.message);
+    }
+
+    // Scalar markets are single-option markets paying out by where a resolved
+    // value falls in their range
+    const isScalarMarket = String(isScalar) === "true";
+    if (isScalarMarket) {
+      const boundsError = validateScalarBounds(
+        scalarLowerBound,
+        scalarUpperBound
+      );
+      if (boundsError) {
+        return sendValidationError(res, boundsError);
+      }
+      if (
+        resolutionMode !== ResolutionMode.AUTHORITY &&
+        resolutionMode !== ResolutionMode.ORACLE
+      ) {
+        return sendValidationError(
+          res,
+          "Scalar markets must use AUTHORITY or ORACLE resolution"
+        );
+      }
+      if (scalarUnit && scalarUnit.length > MAX_SCALAR_UNIT_LENGTH) {
+        return sendValidationError(
+          res,
+          `Scalar unit must be ${MAX_SCALAR_UNIT_LENGTH} characters or less`
+        );
+      }
+    }
+    const isBinaryMarket = isScalarMarket || String(isBinary) === "true";
+
+    // Exclusive markets price their options as outcomes of one event, so
+    // they need several options and exactly one of them must win
+    const isExclusiveMarket = String(isExclusive) === "true";
+    if (isExclusiveMarket) {
+      if (isBinaryMarket) {
+        return sendValidationError(
+          res,
+          "Exclusive markets must be multiple-choice markets"
+        );
+      }
+      if (
+        resolutionMode !== ResolutionMode.AUTHORITY &&
+        resolutionMode !== ResolutionMode.ORACLE
+      ) {
+        return sendValidationError(
+          res,
+          "Exclusive markets must use AUTHORITY or ORACLE resolution"
+        );
+      }
+    }
+
     // Bond amount is no longer required for market creation
     // Bond amounts are only required when disputing resolutions
     const bondAmount = 0;
@@ -381,7 +520,16 @@ export const createMarket = async (req: CreateMarketRequest, res: Response) => {
           image_url: imageUrl,
           expiration_timestamp: expirationTimestamp,
           shared_pool_vault: sharedPoolVault,
-          is_binary: String(isBinary) === "true",
+          is_binary: isBinaryMarket,
+          is_scalar: isScalarMarket,
+          scalar_lower_bound: isScalarMarket
+            ? parseScalarValue(scalarLowerBound)!.toString()
+            : null,
+          scalar_upper_bound: isScalarMarket
+            ? parseScalarValue(scalarUpperBound)!.toString()
+            : null,
+          scalar_unit: isScalarMarket ? scalarUnit?.trim() || null : null,
+          is_exclusive: isExclusiveMarket,
           is_verified: false,
           is_resolved: false,
           is_initialized: false,
@@ -390,19 +538,19 @@ export const createMarket = async (req: CreateMarketRequest, res: Response) => {
           shared_pool_liquidity: 0,
           total_shared_lp_shares: 0,
           resolution_mode: resolutionMode as ResolutionMode,
+          resolution_config: marketResolutionConfig,
           bond_amount: bondAmount,
           category_ids: [categoryId],
         },
         client
       );
 
-      // Automatically create a "binary" option for binary markets
-      const isBinaryMarket = String(isBinary) === "true";
+      // Automatically create a "binary" option for binary and scalar markets
       if (isBinaryMarket) {
         await OptionModel.create(
           {
             market_id: createdMarket.id,
-            option_label: "Binary",
+            option_label: isScalarMarket ? "Scalar" : "Binary",
             option_sub_label: null,
             option_image_url: null,
             yes_quantity: 0,
@@ -430,7 +578,9 @@ export const createMarket = async (req: CreateMarketRequest, res: Response) => {
       metadata: {
         question: normalizedQuestion,
         expiration: expirationTimestamp,
-        is_binary: String(isBinary) === "true",
+        is_binary: isBinaryMarket,
+        is_scalar: isScalarMarket,
+        is_exclusive: isExclusiveMarket,
       },
     });
 
@@ -1121,7 +1271,9 @@ export const getMarkets = async (req: GetMarketsRequest, res: Response) => {
         "m.is_resolved = FALSE AND m.is_initialized = TRUE AND m.expiration_timestamp > EXTRACT(EPOCH FROM NOW())"
       );
     } else if (status === "resolved") {
-      conditions.push("m.is_resolved = TRUE");
+      conditions.push("m.is_resolved = TRUE AND m.is_voided = FALSE");
+    } else if (status === "voided") {
+      conditions.push("m.is_voided = TRUE");
     } else if (status === "expired") {
       conditions.push(
         "m.is_resolved = FALSE AND m.expiration_timestamp <= EXTRACT(EPOCH FROM NOW())"
@@ -1249,33 +1401,12 @@ export const getMarkets = async (req: GetMarketsRequest, res: Response) => {
     const marketsWithDetails = markets.map((market) => {
       // Calculate prices for options
       const marketOptions = optionsByMarket[market.id] || [];
-      const optionsWithPrices = marketOptions.map((option: any) => {
-        let yesPrice = 0.5;
-        let noPrice = 0.5;
-
-        // Only calculate prices if market has valid liquidity_parameter
-        if (
-          market.liquidity_parameter &&
-          Number(market.liquidity_parameter) > 0
-        ) {
-          try {
-            const liquidityParam = new BN(market.liquidity_parameter);
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-
-            yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-            noPrice = 1 - yesPrice;
-          } catch (e) {
-            // Use defaults if calculation fails
-          }
-        }
-
+      const yesPrices = getOptionYesPrices(market, marketOptions);
+      const optionsWithPrices = marketOptions.map((option: any, i: number) => {
         return {
           ...option,
-          yes_price: yesPrice,
-          no_price: noPrice,
+          yes_price: yesPrices[i],
+          no_price: 1 - yesPrices[i],
         };
       });
 
@@ -1350,21 +1481,9 @@ export const getFeaturedMarkets = async (
 
     const marketsWithOptions = markets.map((market) => {
       const marketOptions = optionsByMarket[market.id] || [];
-      const optionsWithPrices = marketOptions.map((option: any) => {
-        let yesPrice = 0.5;
-        if (
-          market.liquidity_parameter &&
-          Number(market.liquidity_parameter) > 0
-        ) {
-          try {
-            const liquidityParam = new BN(market.liquidity_parameter);
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-          } catch (e) {}
-        }
+      const yesPrices = getOptionYesPrices(market, marketOptions);
+      const optionsWithPrices = marketOptions.map((option: any, i: number) => {
+        const yesPrice = yesPrices[i];
         return { ...option, yes_price: yesPrice, no_price: 1 - yesPrice };
       });
       return { ...market, options: optionsWithPrices };
@@ -1379,7 +1498,7 @@ export const getFeaturedMarkets = async (
 
 /**
  * @route GET /api/market/trending
- * @desc Get trending markets
+ * @desc Get trending markets, ranked by trending score (see TrendingService)
  * @access Public
  */
 export const getTrendingMarkets = async (
@@ -1398,7 +1517,8 @@ export const getTrendingMarkets = async (
         u.username as creator_username,
         u.display_name as creator_display_name,
         u.avatar_url as creator_avatar_url,
-        CASE WHEN ma.user_id IS NOT NULL THEN TRUE ELSE FALSE END as is_admin_creator
+        CASE WHEN ma.user_id IS NOT NULL THEN TRUE ELSE FALSE END as is_admin_creator,
+        ts.rank as trending_rank
       FROM markets m
       LEFT JOIN (
         SELECT market_id, 
@@ -1410,9 +1530,10 @@ export const getTrendingMarkets = async (
       ) t ON m.id = t.market_id
       LEFT JOIN users u ON m.creator_id = u.id
       LEFT JOIN moodring_admins ma ON m.creator_id = ma.user_id
+      LEFT JOIN market_trending_scores ts ON ts.market_id = m.id
       WHERE m.is_resolved = FALSE AND m.is_initialized = TRUE
         AND m.expiration_timestamp > EXTRACT(EPOCH FROM NOW())
-      ORDER BY recent_volume DESC NULLS LAST, m.total_volume DESC
+      ORDER BY m.trending_score DESC, recent_volume DESC NULLS LAST, m.total_volume DESC
       LIMIT $1
     `,
       [limit]
@@ -1424,21 +1545,9 @@ export const getTrendingMarkets = async (
 
     const marketsWithOptions = markets.map((market) => {
       const marketOptions = optionsByMarket[market.id] || [];
-      const optionsWithPrices = marketOptions.map((option: any) => {
-        let yesPrice = 0.5;
-        if (
-          market.liquidity_parameter &&
-          Number(market.liquidity_parameter) > 0
-        ) {
-          try {
-            const liquidityParam = new BN(market.liquidity_parameter);
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-          } catch (e) {}
-        }
+      const yesPrices = getOptionYesPrices(market, marketOptions);
+      const optionsWithPrices = marketOptions.map((option: any, i: number) => {
+        const yesPrice = yesPrices[i];
         return { ...option, yes_price: yesPrice, no_price: 1 - yesPrice };
       });
       return { ...market, options: optionsWithPrices };
@@ -1469,7 +1578,7 @@ export const getMyMarkets = async (req: GetMyMarketsRequest, res: Response) => {
     );
     const offset = (page - 1) * limit;
 
-    // Filter by status: all, pending (not initialized), active, resolved
+    // Filter by status: all, pending (not initialized), active, resolved, voided
     const status = (req.query.status as string) || "all";
 
     // Build WHERE clause
@@ -1486,7 +1595,9 @@ export const getMyMarkets = async (req: GetMyMarketsRequest, res: Response) => {
         "m.is_initialized = TRUE AND m.is_resolved = FALSE AND m.expiration_timestamp > EXTRACT(EPOCH FROM NOW())"
       );
     } else if (status === "resolved") {
-      conditions.push("m.is_resolved = TRUE");
+      conditions.push("m.is_resolved = TRUE AND m.is_voided = FALSE");
+    } else if (status === "voided") {
+      conditions.push("m.is_voided = TRUE");
     } else if (status === "expired") {
       conditions.push(
         "m.is_resolved = FALSE AND m.expiration_timestamp <= EXTRACT(EPOCH FROM NOW())"
@@ -1555,21 +1666,9 @@ export const getMyMarkets = async (req: GetMyMarketsRequest, res: Response) => {
 
     const marketsWithDetails = markets.map((market) => {
       const marketOptions = optionsByMarket[market.id] || [];
-      const optionsWithPrices = marketOptions.map((option: any) => {
-        let yesPrice = 0.5;
-        if (
-          market.liquidity_parameter &&
-          Number(market.liquidity_parameter) > 0
-        ) {
-          try {
-            const liquidityParam = new BN(market.liquidity_parameter);
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-          } catch (e) {}
-        }
+      const yesPrices = getOptionYesPrices(market, marketOptions);
+      const optionsWithPrices = marketOptions.map((option: any, i: number) => {
+        const yesPrice = yesPrices[i];
         return { ...option, yes_price: yesPrice, no_price: 1 - yesPrice };
       });
       return {
@@ -1673,33 +1772,19 @@ export const getMarket = async (req: GetMarketRequest, res: Response) => {
     const categories = categoriesResult.rows;
 
     // Calculate prices for each option
-    const optionsWithPrices = options.map((option) => {
-      let yesPrice = 0.5;
-      let noPrice = 0.5;
-
-      // Only calculate if market has valid liquidity_parameter
-      if (
-        market.liquidity_parameter &&
-        Number(market.liquidity_parameter) > 0
-      ) {
-        try {
-          const liquidityParam = new BN(market.liquidity_parameter);
-          const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-          const noQty = new BN(Math.floor(Number(option.no_quantity)));
-
-          yesPrice =
-            calculate_yes_price(yesQty, noQty, liquidityParam) /
-            PRECISION.toNumber();
-          noPrice = 1 - yesPrice;
-        } catch (e) {
-          // Use defaults
-        }
-      }
+    const yesPrices = getOptionYesPrices(market, options);
+    const optionsWithPrices = options.map((option, i) => {
+      const yesPrice = yesPrices[i];
+      const noPrice = 1 - yesPrice;
 
       return {
         ...option,
         yes_price: yesPrice,
         no_price: noPrice,
+        // Scalar markets: value implied by the LONG price
+        ...(market.is_scalar && {
+          implied_value: getScalarImpliedValue(market, yesPrice),
+        }),
       };
     });
 
@@ -1798,6 +1883,12 @@ export const initializeMarket = async (
       if (options.length < 1) {
         throw new TransactionError(400, "Market requires at least 1 option");
       }
+      if (selectedMarket.is_exclusive && options.length < 2) {
+        throw new TransactionError(
+          400,
+          "Exclusive market requires at least 2 options"
+        );
+      }
 
       // Get user wallet with lock
       const walletResult = await client.query(
@@ -1852,6 +1943,14 @@ export const initializeMarket = async (
       WHERE id = $1`,
         [market, parsedLiquidity, initialShares, liquidityParam]
       );
+      await LedgerService.transfer(
+        client,
+        "market_initialize",
+        LedgerAccounts.user(userId),
+        LedgerAccounts.marketPool(market),
+        parsedLiquidity,
+        { reference_type: "market", reference_id: market }
+      );
 
       // Create LP position for the creator using model
       await LpPositionModel.create(
@@ -1963,6 +2062,14 @@ export const withdrawCreatorFee = async (
         `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE user_id = $2`,
         [feesToWithdraw, userId]
       );
+      await LedgerService.transfer(
+        client,
+        "creator_fee_withdrawal",
+        LedgerAccounts.creatorFees(market),
+        LedgerAccounts.user(userId),
+        feesToWithdraw,
+        { reference_type: "market", reference_id: market }
+      );
 
       // Get updated balance for websocket update
       const updatedWalletResult = await client.query(
@@ -2043,21 +2150,14 @@ export const getFairValue = async (req: GetFairValueRequest, res: Response) => {
       );
     }
 
-    const liquidityParam = new BN(marketData.liquidity_parameter);
-    const yesQty = new BN(Math.floor(Number(optionData.yes_quantity)));
-    const noQty = new BN(Math.floor(Number(optionData.no_quantity)));
-
-    let yesPrice = 0.5;
-    let noPrice = 0.5;
-
-    try {
-      yesPrice =
-        calculate_yes_price(yesQty, noQty, liquidityParam) /
-        PRECISION.toNumber();
-      noPrice = 1 - yesPrice;
-    } catch (e) {
-      // Use defaults on calculation error
-    }
+    // Exclusive markets price the option against all of its siblings
+    const pricedOptions = marketData.is_exclusive
+      ? await OptionModel.findByMarketId(marketData.id)
+      : [optionData];
+    const yesPrice = getOptionYesPrices(marketData, pricedOptions)[
+      pricedOptions.findIndex((o) => o.id === optionData.id)
+    ];
+    const noPrice = 1 - yesPrice;
 
     return sendSuccess(res, {
       yes_price: yesPrice,
@@ -2065,6 +2165,9 @@ export const getFairValue = async (req: GetFairValueRequest, res: Response) => {
       yes_quantity: Number(optionData.yes_quantity),
       no_quantity: Number(optionData.no_quantity),
       liquidity_parameter: Number(marketData.liquidity_parameter),
+      ...(marketData.is_scalar && {
+        implied_value: getScalarImpliedValue(marketData, yesPrice),
+      }),
     });
   } catch (error: any) {
     console.error("Get fair value error:", error);
@@ -2072,6 +2175,92 @@ export const getFairValue = async (req: GetFairValueRequest, res: Response) => {
   }
 };
 
+/**
+ * Estimate a buy or sell on an exclusive market, where only YES shares trade
+ * and the option is priced against all of its siblings.
+ * Responds with the same shape as the binary estimates, plus the new price of
+ * every outcome.
+ */
+const estimateExclusiveTrade = async (
+  res: Response,
+  marketData: Market,
+  optionData: Option,
+  action: "buy" | "sell",
+  yesShares: number,
+  noShares: number
+) => {
+  if (noShares > 0) {
+    return sendValidationError(
+      res,
+      "Exclusive markets only trade YES shares of each outcome"
+    );
+  }
+
+  const options = await OptionModel.findByMarketId(marketData.id);
+  const outcomeIndex = options.findIndex((o) => o.id === optionData.id);
+  const liquidityParam = new BN(marketData.liquidity_parameter);
+  const quantities = options.map(
+    (option) => new BN(Math.floor(Number(option.yes_quantity)))
+  );
+
+  if (action === "sell" && yesShares > Number(optionData.yes_quantity)) {
+    return sendError(res, 400, "Insufficient market liquidity");
+  }
+
+  let amount: number;
+  try {
+    amount =
+      action === "buy"
+        ? calculate_multi_buy_cost(
+            quantities,
+            outcomeIndex,
+            new BN(yesShares),
+            liquidityParam
+          )
+        : calculate_multi_sell_payout(
+            quantities,
+            outcomeIndex,
+            new BN(yesShares),
+            liquidityParam
+          );
+  } catch (error) {
+    return sendError(
+      res,
+      400,
+      action === "buy"
+        ? "Failed to calculate cost"
+        : "Failed to calculate payout"
+    );
+  }
+
+  // Calculate fees
+  const TOTAL_FEE_BPS = 250; // 2.5%
+  const fees = Math.floor((amount * TOTAL_FEE_BPS) / 10000);
+
+  // Calculate new prices after trade
+  const delta = new BN(yesShares);
+  quantities[outcomeIndex] =
+    action === "buy"
+      ? quantities[outcomeIndex].add(delta)
+      : quantities[outcomeIndex].sub(delta);
+  const newPrices = calculate_multi_prices(quantities, liquidityParam).map(
+    (price) => price / PRECISION.toNumber()
+  );
+
+  return sendSuccess(res, {
+    ...(action === "buy"
+      ? { cost: amount, fees, total_cost: amount + fees }
+      : { payout: amount, fees, net_payout: amount - fees }),
+    price_per_share: yesShares > 0 ? (amount * 1_000_000) / yesShares : 0,
+    new_yes_price: newPrices[outcomeIndex],
+    new_no_price: 1 - newPrices[outcomeIndex],
+    new_outcome_prices: options.map((option, i) => ({
+      option_id: option.id,
+      price: newPrices[i],
+    })),
+  });
+};
+
 /**
  * @route POST /api/market/estimate/buy-cost
  * @desc Estimate cost to buy shares
@@ -2119,6 +2308,17 @@ export const estimateBuyCost = async (
       );
     }
 
+    if (marketData.is_exclusive) {
+      return estimateExclusiveTrade(
+        res,
+        marketData,
+        optionData,
+        "buy",
+        parsedBuyYes,
+        parsedBuyNo
+      );
+    }
+
     const liquidityParam = new BN(marketData.liquidity_parameter);
     const currentYes = new BN(Math.floor(Number(optionData.yes_quantity)));
     const currentNo = new BN(Math.floor(Number(optionData.no_quantity)));
@@ -2212,6 +2412,17 @@ export const estimateSellPayout = async (
       );
     }
 
+    if (marketData.is_exclusive) {
+      return estimateExclusiveTrade(
+        res,
+        marketData,
+        optionData,
+        "sell",
+        parsedSellYes,
+        parsedSellNo
+      );
+    }
+
     const liquidityParam = new BN(marketData.liquidity_parameter);
     const currentYes = new BN(Math.floor(Number(optionData.yes_quantity)));
     const currentNo = new BN(Math.floor(Number(optionData.no_quantity)));
@@ -2435,21 +2646,9 @@ export const getWatchlist = async (req: GetWatchlistRequest, res: Response) => {
 
     const marketsWithDetails = markets.map((market) => {
       const marketOptions = optionsByMarket[market.id] || [];
-      const optionsWithPrices = marketOptions.map((option: any) => {
-        let yesPrice = 0.5;
-        if (
-          market.liquidity_parameter &&
-          Number(market.liquidity_parameter) > 0
-        ) {
-          try {
-            const liquidityParam = new BN(market.liquidity_parameter);
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-          } catch (e) {}
-        }
+      const yesPrices = getOptionYesPrices(market, marketOptions);
+      const optionsWithPrices = marketOptions.map((option: any, i: number) => {
+        const yesPrice = yesPrices[i];
         return { ...option, yes_price: yesPrice, no_price: 1 - yesPrice };
       });
       return {
@@ -2536,36 +2735,26 @@ export const getMarketOEmbed = async (req: GetMarketRequest, res: Response) => {
     // Calculate prices for options and build options string
     let optionsText = "";
     if (options && options.length > 0) {
-      const liquidityParam = market.liquidity_parameter
-        ? new BN(market.liquidity_parameter)
-        : null;
       const optionPrices: Array<{ label: string; price: number }> = [];
 
       // Calculate prices for all options first
-      for (const option of options) {
-        try {
-          if (liquidityParam && Number(liquidityParam) > 0) {
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            const yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-
-            if (market.is_binary) {
-              // Binary market: show Yes and No
-              optionPrices.push({ label: "Yes", price: yesPrice });
-              optionPrices.push({ label: "No", price: 1 - yesPrice });
-              break; // Only need first option for binary
-            } else {
-              // Multiple choice: show option label
-              optionPrices.push({
-                label: option.option_label,
-                price: yesPrice,
-              });
-            }
-          }
-        } catch (e) {
-          // Skip if calculation fails
+      if (
+        market.liquidity_parameter &&
+        Number(market.liquidity_parameter) > 0
+      ) {
+        const yesPrices = getOptionYesPrices(market, options);
+        if (market.is_binary) {
+          // Binary market: show Yes and No
+          optionPrices.push({ label: "Yes", price: yesPrices[0] });
+          optionPrices.push({ label: "No", price: 1 - yesPrices[0] });
+        } else {
+          // Multiple choice: show option label
+          options.forEach((option, i) => {
+            optionPrices.push({
+              label: option.option_label,
+              price: yesPrices[i],
+            });
+          });
         }
       }
 
@@ -2619,6 +2808,38 @@ export const getMarketOEmbed = async (req: GetMarketRequest, res: Response) => {
   }
 };
 
+/**
+ * @route GET /api/market/:id/status-history
+ * @desc Get a market's status transitions, oldest first
+ * @access Public
+ */
+export const getMarketStatusHistory = async (
+  req: GetMarketRequest,
+  res: Response
+) => {
+  try {
+    const { id } = req.params;
+
+    const market = await MarketModel.findById(id);
+    if (!market) {
+      return sendNotFound(res, "Market");
+    }
+
+    const history = await MarketStatusHistoryModel.findByMarket(id);
+
+    return sendSuccess(res, {
+      status: market.status,
+      trading_closed_at: market.trading_closed_at ?? null,
+      resolution_deadline: market.resolution_deadline ?? null,
+      escalated_at: market.escalated_at ?? null,
+      history,
+    });
+  } catch (error: any) {
+    console.error("Get market status history error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
 /**
  * @route GET /api/market/:id/meta
  * @desc Get HTML with meta tags for Discord scraping
@@ -2664,36 +2885,26 @@ export const getMarketMeta = async (req: GetMarketRequest, res: Response) => {
     // Calculate prices for options and build options string
     let optionsText = "";
     if (options && options.length > 0) {
-      const liquidityParam = market.liquidity_parameter
-        ? new BN(market.liquidity_parameter)
-        : null;
       const optionPrices: Array<{ label: string; price: number }> = [];
 
       // Calculate prices for all options first
-      for (const option of options) {
-        try {
-          if (liquidityParam && Number(liquidityParam) > 0) {
-            const yesQty = new BN(Math.floor(Number(option.yes_quantity)));
-            const noQty = new BN(Math.floor(Number(option.no_quantity)));
-            const yesPrice =
-              calculate_yes_price(yesQty, noQty, liquidityParam) /
-              PRECISION.toNumber();
-
-            if (market.is_binary) {
-              // Binary market: show Yes and No
-              optionPrices.push({ label: "Yes", price: yesPrice });
-              optionPrices.push({ label: "No", price: 1 - yesPrice });
-              break; // Only need first option for binary
-            } else {
-              // Multiple choice: show option label
-              optionPrices.push({
-                label: option.option_label,
-                price: yesPrice,
-              });
-            }
-          }
-        } catch (e) {
-          // Skip if calculation fails
+      if (
+        market.liquidity_parameter &&
+        Number(market.liquidity_parameter) > 0
+      ) {
+        const yesPrices = getOptionYesPrices(market, options);
+        if (market.is_binary) {
+          // Binary market: show Yes and No
+          optionPrices.push({ label: "Yes", price: yesPrices[0] });
+          optionPrices.push({ label: "No", price: 1 - yesPrices[0] });
+        } else {
+          // Multiple choice: show option label
+          options.forEach((option, i) => {
+            optionPrices.push({
+              label: option.option_label,
+              price: yesPrices[i],
+            });
+          });
         }
       }
 
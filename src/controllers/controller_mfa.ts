@@ -0,0 +1,185 @@
+import { Response } from "express";
+import { MoodringAdminModel } from "../models/Moodring";
+import { AdminSessionModel } from "../models/AdminMfa";
+import { AdminMfaService } from "../services/adminMfaService";
+import { AdminAuditService } from "../services/adminAuditService";
+import { AdminRequest, ADMIN_SESSION_COOKIE } from "../middleware/admin";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import { sendError, sendSuccess, sendValidationError } from "../utils/errors";
+import { validateRequired } from "../utils/validation";
+import { getClientIp } from "../utils/request";
+import UserRequest from "../types";
+import {
+  ConfirmMfaEnrollmentRequest,
+  VerifyMfaRequest,
+} from "../types/requests";
+
+const adminSessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path: "/",
+};
+
+/**
+ * @route GET /api/admin/mfa/status
+ * @desc Get the MFA enrollment status of the current admin
+ * @access Admin (no MFA session required)
+ */
+export const getMfaStatus = async (req: UserRequest, res: Response) => {
+  try {
+    const status = await AdminMfaService.getStatus(req.id);
+    return sendSuccess(res, status);
+  } catch (error: any) {
+    console.error("Get MFA status error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/mfa/enroll
+ * @desc Start MFA enrollment: returns a new TOTP secret and otpauth URL
+ * @access Admin (no MFA session required)
+ */
+export const enrollMfa = async (req: UserRequest, res: Response) => {
+  try {
+    const admin = await MoodringAdminModel.getAdminWithUser(req.id);
+    const accountName = admin?.email || admin?.username || req.id;
+
+    const enrollment = await AdminMfaService.beginEnrollment(
+      req.id,
+      accountName
+    );
+    return sendSuccess(res, enrollment, 201);
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Enroll MFA error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/mfa/enroll/confirm
+ * @desc Confirm MFA enrollment with a TOTP code; returns backup codes and
+ * starts an admin session
+ * @access Admin (no MFA session required)
+ */
+export const confirmMfaEnrollment = async (
+  req: ConfirmMfaEnrollmentRequest,
+  res: Response
+) => {
+  try {
+    const { code } = req.body;
+    if (!validateRequired(code, "Code").isValid) {
+      return sendValidationError(res, "Code is required");
+    }
+
+    const result = await withTransaction(async (client) => {
+      const { backupCodes } = await AdminMfaService.confirmEnrollment(
+        client,
+        req.id,
+        String(code)
+      );
+      const { token, session } = await AdminMfaService.createSession(
+        client,
+        req.id,
+        {
+          ipAddress: getClientIp(req),
+          userAgent: req.headers["user-agent"],
+        }
+      );
+      await AdminAuditService.record(
+        { ...AdminAuditService.getContext(req), sessionId: session.id },
+        {
+          action: "mfa_enable",
+          targetType: "user",
+          targetId: req.id,
+          before: { mfa_enabled: false },
+          after: { mfa_enabled: true },
+        },
+        client
+      );
+      return { backupCodes, token, session };
+    });
+
+    res.cookie(ADMIN_SESSION_COOKIE, result.token, adminSessionCookieOptions);
+
+    return sendSuccess(res, {
+      message: "MFA enabled",
+      backup_codes: result.backupCodes,
+      session_token: result.token,
+      expires_at: result.session.expires_at,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Confirm MFA enrollment error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route POST /api/admin/mfa/verify
+ * @desc Verify a TOTP or backup code and start an admin session
+ * @access Admin (no MFA session required)
+ */
+export const verifyMfa = async (req: VerifyMfaRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!validateRequired(code, "Code").isValid) {
+      return sendValidationError(res, "Code is required");
+    }
+
+    const result = await withTransaction(async (client) => {
+      const method = await AdminMfaService.verifyCode(
+        client,
+        req.id,
+        String(code)
+      );
+      const { token, session } = await AdminMfaService.createSession(
+        client,
+        req.id,
+        {
+          ipAddress: getClientIp(req),
+          userAgent: req.headers["user-agent"],
+        }
+      );
+      return { method, token, session };
+    });
+
+    res.cookie(ADMIN_SESSION_COOKIE, result.token, adminSessionCookieOptions);
+
+    return sendSuccess(res, {
+      method: result.method,
+      session_token: result.token,
+      expires_at: result.session.expires_at,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Verify MFA error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route DELETE /api/admin/mfa/session
+ * @desc End the current admin session
+ * @access Admin
+ */
+export const endAdminSession = async (req: AdminRequest, res: Response) => {
+  try {
+    if (req.adminSessionId) {
+      await AdminSessionModel.revoke(req.adminSessionId);
+    }
+    res.clearCookie(ADMIN_SESSION_COOKIE, adminSessionCookieOptions);
+    return sendSuccess(res, { message: "Admin session ended" });
+  } catch (error: any) {
+    console.error("End admin session error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
@@ -3,12 +3,28 @@ import { pool } from "../db";
 import { WalletModel } from "../models/Wallet";
 import { TradeModel } from "../models/Trade";
 import { UserStatsModel } from "../models/UserStats";
-import { sendError, sendNotFound, sendSuccess } from "../utils/errors";
+import { MarketVoidRefundModel } from "../models/MarketVoidRefund";
+import { PortfolioSnapshotService } from "../services/portfolioSnapshotService";
+import { StatementService } from "../services/statementService";
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendValidationError,
+} from "../utils/errors";
+import { EQUITY_INTERVALS, EquityInterval } from "../utils/equity";
+import {
+  STATEMENT_FORMATS,
+  StatementFormat,
+  resolveStatementPeriod,
+} from "../utils/statement";
 import {
   GetPortfolioRequest,
   GetPositionsRequest,
   GetPnLSummaryRequest,
   GetLiquidityPositionsRequest,
+  GetStatementRequest,
+  GetPortfolioHistoryRequest,
 } from "../types/requests";
 
 /**
@@ -34,6 +50,7 @@ export const getPortfolio = async (req: GetPortfolioRequest, res: Response) => {
         m.question as market_question,
         m.image_url as market_image,
         m.is_resolved as market_resolved,
+        m.is_voided as market_voided,
         m.expiration_timestamp,
         mo.option_label,
         mo.option_image_url,
@@ -67,6 +84,9 @@ export const getPortfolio = async (req: GetPortfolioRequest, res: Response) => {
       [userId]
     );
 
+    // Refunds from voided markets (their positions were zeroed when voided)
+    const voidRefunds = await MarketVoidRefundModel.findByUser(userId);
+
     // Get user stats
     const stats = await UserStatsModel.findByUserId(userId);
 
@@ -146,6 +166,15 @@ export const getPortfolio = async (req: GetPortfolioRequest, res: Response) => {
         positions: liquidityPositions,
         total: liquidityPositions.length,
       },
+      voided: {
+        refunds: voidRefunds,
+        total: voidRefunds.length,
+        total_refunded: voidRefunds.reduce(
+          (sum, refund) =>
+            sum + Number(refund.amount) + Number(refund.fee_refund),
+          0
+        ),
+      },
       stats: stats || {
         total_trades: tradeSummary.total_trades,
         total_volume: tradeSummary.total_volume,
@@ -194,6 +223,9 @@ export const getPositions = async (req: GetPositionsRequest, res: Response) => {
       whereClause += " AND m.is_resolved = FALSE";
     } else if (status === "resolved") {
       whereClause += " AND m.is_resolved = TRUE";
+    } else if (status === "voided") {
+      // Voided positions were zeroed when they were refunded
+      whereClause = "WHERE up.user_id = $1 AND m.is_voided = TRUE";
     }
 
     const [positionsResult, countResult] = await Promise.all([
@@ -204,14 +236,23 @@ export const getPositions = async (req: GetPositionsRequest, res: Response) => {
           m.question as market_question,
           m.image_url as market_image,
           m.is_resolved as market_resolved,
+          m.is_voided as market_voided,
           m.expiration_timestamp,
           mo.option_label,
           mo.option_image_url,
           mo.is_resolved as option_resolved,
-          mo.winning_side
+          mo.winning_side,
+          vr.shares as void_shares,
+          vr.cost_basis as void_cost_basis,
+          vr.amount as void_refund,
+          vr.fee_refund as void_fee_refund
         FROM user_positions up
         LEFT JOIN markets m ON up.market_id = m.id
         LEFT JOIN market_options mo ON up.option_id = mo.id
+        LEFT JOIN market_void_refunds vr
+          ON vr.user_id = up.user_id
+          AND vr.option_id = up.option_id
+          AND vr.refund_type = 'position'
         ${whereClause}
         ORDER BY m.expiration_timestamp ASC
         LIMIT $2 OFFSET $3
@@ -234,6 +275,24 @@ export const getPositions = async (req: GetPositionsRequest, res: Response) => {
 
     // Transform positions to match frontend interface
     const transformedPositions = positionsResult.rows.map((pos: any) => {
+      // Voided: the position was refunded its cost basis (pro rata if the
+      // pool was short) instead of resolving
+      if (pos.market_voided) {
+        const costBasis = Number(pos.void_cost_basis || 0);
+        const refund = Number(pos.void_refund || 0);
+        return {
+          ...pos,
+          shares: Number(pos.void_shares || 0) / 1_000_000,
+          pnl: (refund - costBasis) / 1_000_000,
+          pnl_percent:
+            costBasis > 0 ? ((refund - costBasis) / costBasis) * 100 : 0,
+          is_resolved: true,
+          is_voided: true,
+          refund: refund / 1_000_000,
+          fee_refund: Number(pos.void_fee_refund || 0) / 1_000_000,
+        };
+      }
+
       const yesShares = Number(pos.yes_shares || 0);
       const noShares = Number(pos.no_shares || 0);
       const totalYesCost = Number(pos.total_yes_cost || 0);
@@ -300,6 +359,7 @@ export const getPositions = async (req: GetPositionsRequest, res: Response) => {
         pnl: pnl / 1_000_000, // Convert from micro-USDC to USDC
         pnl_percent: pnlPercent,
         is_resolved: isResolved,
+        is_voided: false,
         winning_outcome: winningOutcome,
       };
     });
@@ -478,7 +538,8 @@ export const getPnLSummary = async (
         mo.winning_side,
         mo.option_label,
         m.question,
-        m.is_resolved as market_resolved
+        m.is_resolved as market_resolved,
+        m.is_voided as market_voided
       FROM user_positions up
       LEFT JOIN market_options mo ON up.option_id = mo.id
       LEFT JOIN markets m ON up.market_id = m.id
@@ -510,8 +571,10 @@ export const getPnLSummary = async (
     // This can be enhanced later with actual price fetching
     unrealizedPnL = 0;
 
-    // Calculate best and worst trades from resolved positions
-    const resolvedPositions = positions.filter((p) => p.option_resolved);
+    // Calculate best and worst trades from resolved and voided positions
+    const resolvedPositions = positions.filter(
+      (p) => p.option_resolved || p.market_voided
+    );
     let bestTrade: { market: string; pnl: number } | null = null;
     let worstTrade: { market: string; pnl: number } | null = null;
 
@@ -555,3 +618,116 @@ export const getPnLSummary = async (
     return sendError(res, 500, error.message || "Internal server error");
   }
 };
+
+const HISTORY_RANGES: Record<string, number | null> = {
+  "24H": 86400,
+  "7D": 7 * 86400,
+  "30D": 30 * 86400,
+  "90D": 90 * 86400,
+  "1Y": 365 * 86400,
+  ALL: null,
+};
+
+/**
+ * @route GET /api/user/portfolio/history
+ * @desc Get user's equity curve, drawdown and realized/unrealized PnL over time
+ * @access Private
+ */
+export const getPortfolioHistory = async (
+  req: GetPortfolioHistoryRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    const interval = (req.query.interval || "1d") as EquityInterval;
+    if (!EQUITY_INTERVALS.includes(interval)) {
+      return sendValidationError(
+        res,
+        `interval must be one of: ${EQUITY_INTERVALS.join(", ")}`
+      );
+    }
+
+    const range = (req.query.range || "30D").toUpperCase();
+    if (!(range in HISTORY_RANGES)) {
+      return sendValidationError(
+        res,
+        `range must be one of: ${Object.keys(HISTORY_RANGES).join(", ")}`
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const rangeSeconds = HISTORY_RANGES[range];
+    const from = rangeSeconds === null ? 0 : now - rangeSeconds;
+
+    const curve = await PortfolioSnapshotService.getEquityCurve(
+      userId,
+      interval,
+      from,
+      now
+    );
+
+    return sendSuccess(res, {
+      interval,
+      range,
+      from,
+      to: now,
+      ...curve,
+    });
+  } catch (error: any) {
+    console.error("Get portfolio history error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
+
+/**
+ * @route GET /api/user/statement
+ * @desc Get user's account statement for a period as JSON, CSV or PDF
+ * @access Private
+ */
+export const getStatement = async (req: GetStatementRequest, res: Response) => {
+  try {
+    const userId = req.id;
+    const format = (
+      req.query.format || "json"
+    ).toLowerCase() as StatementFormat;
+    if (!STATEMENT_FORMATS.includes(format)) {
+      return sendValidationError(
+        res,
+        `format must be one of: ${STATEMENT_FORMATS.join(", ")}`
+      );
+    }
+
+    const { period, error } = resolveStatementPeriod(req.query);
+    if (error || !period) {
+      return sendValidationError(res, error || "Invalid period");
+    }
+
+    const statement = await StatementService.generate(userId, period);
+    if (!statement) {
+      return sendNotFound(res, "Wallet");
+    }
+
+    const filename = `statement-${period.label.replace(/[^\w-]+/g, "_")}`;
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.csv"`
+      );
+      return res.status(200).send(StatementService.toCsv(statement));
+    }
+    if (format === "pdf") {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.pdf"`
+      );
+      return res.status(200).send(StatementService.toPdf(statement));
+    }
+
+    return sendSuccess(res, { statement });
+  } catch (error: any) {
+    console.error("Get statement error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
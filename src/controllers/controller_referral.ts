@@ -0,0 +1,183 @@
+import { Response } from "express";
+import { UUID } from "crypto";
+import { MoodringModel } from "../models/Moodring";
+import { ReferralModel } from "../models/Referral";
+import { ReferralService } from "../services/referralService";
+import { emitBalanceUpdate } from "../services/websocket";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import { sendError, sendSuccess } from "../utils/errors";
+import {
+  GetReferralStatsRequest,
+  GetReferralsRequest,
+  GetReferralPayoutsRequest,
+  ClaimReferralRewardsRequest,
+} from "../types/requests";
+
+/**
+ * @route GET /api/referral/stats
+ * @desc Get the current user's referral code, earnings and claimable rewards
+ * @access Private
+ */
+export const getReferralStats = async (
+  req: GetReferralStatsRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    if (!(await MoodringModel.isFeatureEnabled("referrals"))) {
+      return sendError(res, 403, "Referrals are currently disabled");
+    }
+
+    const [code, stats, claimable, config] = await Promise.all([
+      ReferralModel.getOrCreateCode(userId),
+      ReferralModel.getReferrerStats(userId),
+      ReferralModel.getClaimableAmount(userId),
+      MoodringModel.get(),
+    ]);
+
+    return sendSuccess(res, {
+      code: code.code,
+      uses_count: code.uses_count,
+      total_referrals: stats.total_referrals,
+      total_earnings: Number(stats.total_earnings),
+      claimable_rewards: claimable.amount,
+      claimable_reward_count: claimable.reward_count,
+      fee_share_bps: Number(config?.referral_fee_share_bps || 0),
+    });
+  } catch (error: any) {
+    console.error("Get referral stats error:", error);
+    return sendError(res, 500, "Failed to get referral stats");
+  }
+};
+
+/**
+ * @route GET /api/referral/referrals
+ * @desc Get users referred by the current user
+ * @access Private
+ */
+export const getReferrals = async (req: GetReferralsRequest, res: Response) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const { referrals, total } = await ReferralModel.getReferralsByReferrer(
+      userId,
+      limit,
+      offset
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return sendSuccess(res, {
+      referrals,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get referrals error:", error);
+    return sendError(res, 500, "Failed to get referrals");
+  }
+};
+
+/**
+ * @route GET /api/referral/payouts
+ * @desc Get the current user's referral reward claim history
+ * @access Private
+ */
+export const getReferralPayouts = async (
+  req: GetReferralPayoutsRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const { payouts, total } = await ReferralModel.getPayouts(
+      userId,
+      limit,
+      offset
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return sendSuccess(res, {
+      payouts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get referral payouts error:", error);
+    return sendError(res, 500, "Failed to get referral payouts");
+  }
+};
+
+/**
+ * @route POST /api/referral/claim
+ * @desc Claim all accrued referral rewards to the wallet balance
+ * @access Private
+ */
+export const claimReferralRewards = async (
+  req: ClaimReferralRewardsRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { payout, newBalance } = await withTransaction((client) =>
+      ReferralService.claimRewards(client, userId as UUID)
+    );
+
+    try {
+      emitBalanceUpdate({
+        user_id: userId,
+        balance_usdc: newBalance,
+        timestamp: new Date(),
+      });
+    } catch (wsError) {
+      console.error("WebSocket emission error:", wsError);
+    }
+
+    return sendSuccess(res, {
+      message: "Referral rewards claimed successfully",
+      payout,
+      new_balance: newBalance,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Claim referral rewards error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to claim referral rewards. Please try again."
+    );
+  }
+};
@@ -9,7 +9,19 @@ import {
   MarketStatus,
 } from "../models/Resolution";
 import { DisputeModel } from "../models/Dispute";
+import { ResolverModel } from "../models/Resolver";
+import { LimitOrderModel } from "../models/LimitOrder";
+import { PositionTriggerModel } from "../models/PositionTrigger";
 import { ResolutionEngine } from "../services/resolutionEngine";
+import { OpinionResolutionService } from "../services/opinionResolutionService";
+import { ConsensusResolutionService } from "../services/consensusResolutionService";
+import { MarketLifecycleService } from "../services/marketLifecycleService";
+import {
+  resolveExclusiveLosers,
+  validateExclusiveResolution,
+} from "../services/optionResolution";
+import { emitBalanceUpdate } from "../services/websocket";
+import { LedgerService } from "../services/ledgerService";
 import { withTransaction, TransactionError } from "../utils/transaction";
 import {
   sendError,
@@ -35,9 +47,17 @@ import {
 } from "../utils/evidenceValidation";
 import {
   ResolutionApprovalModel,
+  ResolutionCommitmentModel,
   ResolutionSubmissionModel,
 } from "../models/Resolution";
 import { parseJsonb, prepareJsonb } from "../utils/json";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
+import {
+  calculateResolvedPayout,
+  getScalarLongFraction,
+  getScalarWinningSide,
+  parseScalarValue,
+} from "../utils/scalar";
 
 /**
  * Auto-credit winnings to all winners when an option is resolved
@@ -77,7 +97,9 @@ async function autoCreditWinnings(
 
     // Get market data to check pool liquidity
     const marketResult = await client.query(
-      `SELECT shared_pool_liquidity, base_liquidity_parameter FROM markets WHERE id = $1 FOR UPDATE`,
+      `SELECT shared_pool_liquidity, base_liquidity_parameter,
+              is_scalar, scalar_lower_bound, scalar_upper_bound
+       FROM markets WHERE id = $1 FOR UPDATE`,
       [marketId]
     );
     const marketData = marketResult.rows[0];
@@ -87,6 +109,17 @@ async function autoCreditWinnings(
       return;
     }
 
+    // Scalar options pay out by their resolved value
+    const optionResult = await client.query(
+      `SELECT resolved_value FROM market_options WHERE id = $1`,
+      [optionId]
+    );
+    const resolution = {
+      ...marketData,
+      winning_side: winningSide,
+      resolved_value: optionResult.rows[0]?.resolved_value,
+    };
+
     let currentPoolLiquidity = Number(marketData.shared_pool_liquidity || 0);
     let totalPayout = 0;
     const winnerUpdates: Array<{
@@ -104,13 +137,12 @@ async function autoCreditWinnings(
     for (const position of positions) {
       const yesShares = Number(position.yes_shares);
       const noShares = Number(position.no_shares);
-      const winningShares = winningSide === 1 ? yesShares : noShares;
+      const payout = calculateResolvedPayout(resolution, yesShares, noShares);
       const totalCostBasis =
         Number(position.total_yes_cost) + Number(position.total_no_cost);
 
-      if (winningShares > 0) {
+      if (payout > 0) {
         // Winner: gets payout
-        const payout = winningShares;
         const realizedPnl = payout - totalCostBasis;
 
         // Check if pool has enough liquidity
@@ -148,6 +180,18 @@ async function autoCreditWinnings(
         [update.payout, update.walletId]
       );
     }
+    await LedgerService.post(client, {
+      transaction_type: "resolution_payout",
+      reference_type: "option",
+      reference_id: optionId,
+      metadata: { market_id: marketId },
+      entries: [
+        debit(LedgerAccounts.marketPool(marketId), totalPayout),
+        ...winnerUpdates.map((update) =>
+          credit(LedgerAccounts.user(update.userId), update.payout)
+        ),
+      ],
+    });
 
     // Update positions for winners - zero out shares and mark as claimed
     for (const update of winnerUpdates) {
@@ -290,6 +334,91 @@ async function autoCreditWinnings(
   }
 }
 
+/**
+ * Commit–reveal submission for OPINION markets. A body with `commitment`
+ * commits a hidden vote during the commit phase; a body with `outcome`
+ * (YES/NO) and `salt` reveals it during the reveal phase.
+ */
+async function submitOpinionResolution(
+  req: SubmitResolutionRequest,
+  res: Response,
+  userId: UUID
+) {
+  const { marketId, optionId, commitment, outcome, salt, evidence, signature } =
+    req.body;
+
+  if (commitment !== undefined) {
+    const result = await withTransaction((client) =>
+      OpinionResolutionService.commit(client, {
+        marketId,
+        optionId: optionId!,
+        userId,
+        commitment,
+      })
+    );
+
+    if (result.newBalance !== null) {
+      try {
+        emitBalanceUpdate({
+          user_id: userId,
+          balance_usdc: result.newBalance,
+          timestamp: new Date(),
+        });
+      } catch (wsError) {
+        console.error("WebSocket emission error:", wsError);
+      }
+    }
+
+    return sendSuccess(
+      res,
+      {
+        commitment: result.commitment,
+        phase: result.schedule.phase,
+        commit_deadline: result.schedule.commit_deadline,
+        reveal_deadline: result.schedule.reveal_deadline,
+      },
+      201
+    );
+  }
+
+  const validation = validateFields([
+    validateRequired(outcome, "Outcome"),
+    validateRequired(salt, "Salt"),
+  ]);
+  if (!validation.isValid) {
+    return sendValidationError(res, validation.error!);
+  }
+
+  const result = await withTransaction((client) =>
+    OpinionResolutionService.reveal(client, {
+      marketId,
+      optionId: optionId!,
+      userId,
+      outcome: String(outcome),
+      salt: salt!,
+      evidence,
+      signature,
+    })
+  );
+
+  if (result.newBalance !== null) {
+    try {
+      emitBalanceUpdate({
+        user_id: userId,
+        balance_usdc: result.newBalance,
+        timestamp: new Date(),
+      });
+    } catch (wsError) {
+      console.error("WebSocket emission error:", wsError);
+    }
+  }
+
+  return sendSuccess(res, {
+    submission: result.submission,
+    commitment: result.commitment,
+  });
+}
+
 /**
  * @route POST /api/resolution/submit
  * @desc Submit a resolution for a market
@@ -308,12 +437,27 @@ export const submitResolution = async (
       req.body;
 
     // Validate required fields - optionId is now required
-    const validation = validateFields([
+    const idValidation = validateFields([
       validateRequired(marketId, "Market ID"),
-      validateRequired(outcome, "Outcome"),
       validateRequired(optionId, "Option ID"),
     ]);
+    if (!idValidation.isValid) {
+      return sendValidationError(res, idValidation.error!);
+    }
+
+    // OPINION markets take submissions through commit–reveal
+    const targetMarket = await MarketModel.findById(marketId);
+    if (!targetMarket) {
+      return sendNotFound(res, "Market");
+    }
+    if (
+      targetMarket.resolution_mode === ResolutionMode.OPINION &&
+      (req.body.commitment !== undefined || req.body.salt !== undefined)
+    ) {
+      return await submitOpinionResolution(req, res, userId as UUID);
+    }
 
+    const validation = validateFields([validateRequired(outcome, "Outcome")]);
     if (!validation.isValid) {
       return sendValidationError(res, validation.error!);
     }
@@ -355,8 +499,25 @@ export const submitResolution = async (
       if (option.is_resolved) {
         throw new TransactionError(400, "Option is already resolved");
       }
-      // Validate that the outcome matches the option label
-      if (outcome !== option.option_label) {
+      // Scalar markets resolve to a value in (or clamped to) their range;
+      // other markets must name the option label
+      let scalarValue: string | null = null;
+      if (market.is_scalar) {
+        const parsedValue = parseScalarValue(outcome);
+        if (!parsedValue) {
+          throw new TransactionError(
+            400,
+            "Outcome must be a number for scalar markets"
+          );
+        }
+        if (winningSide !== undefined) {
+          throw new TransactionError(
+            400,
+            "winningSide does not apply to scalar markets; submit the resolved value as the outcome"
+          );
+        }
+        scalarValue = parsedValue.toString();
+      } else if (outcome !== option.option_label) {
         throw new TransactionError(
           400,
           `Outcome must match the option label: ${option.option_label}`
@@ -383,7 +544,10 @@ export const submitResolution = async (
       // Authorization rules:
       // - ORACLE: only platform admins can resolve
       // - AUTHORITY: creator or admin can resolve
-      // - OPINION: anyone can resolve if market expiration has passed
+      // - OPINION: anyone can submit through commit–reveal (see submitOpinionResolution);
+      //   admins can step in once the reveal phase has closed
+      // - CONSENSUS: jurors resolve through votes; admins can step in
+      //   (e.g. when the juror tally fails)
       // - Legacy (no resolution_mode): treated as AUTHORITY (creator or admin)
       if (effectiveResolutionMode === ResolutionMode.ORACLE) {
         if (!isAdmin) {
@@ -404,12 +568,35 @@ export const submitResolution = async (
           );
         }
       } else if (effectiveResolutionMode === ResolutionMode.OPINION) {
-        // For OPINION, anyone can resolve if market expiration has passed
-        const now = Math.floor(Date.now() / 1000);
-        if (market.expiration_timestamp > now) {
+        if (!isAdmin) {
+          throw new TransactionError(
+            400,
+            "OPINION mode submissions must be committed and revealed. Send a commitment, or an outcome and salt."
+          );
+        }
+        if (OpinionResolutionService.getSchedule(market).phase !== "closed") {
+          throw new TransactionError(
+            400,
+            "OPINION mode markets can only be resolved directly after the reveal phase"
+          );
+        }
+        if (winningSide !== 1 && winningSide !== 2) {
           throw new TransactionError(
             400,
-            "Market expiration date has not passed. OPINION mode markets can only be resolved after expiration."
+            "winningSide is required to resolve an OPINION mode market directly"
+          );
+        }
+      } else if (effectiveResolutionMode === ResolutionMode.CONSENSUS) {
+        if (!isAdmin) {
+          throw new TransactionError(
+            403,
+            "CONSENSUS mode markets are resolved by juror vote. Only platform admins can resolve them directly."
+          );
+        }
+        if (winningSide !== 1 && winningSide !== 2) {
+          throw new TransactionError(
+            400,
+            "winningSide is required to resolve a CONSENSUS mode market directly"
           );
         }
       }
@@ -424,14 +611,15 @@ export const submitResolution = async (
       const submission = await client.query(
         `INSERT INTO resolution_submissions (
           market_id, user_id, outcome, evidence, signature, 
-          evidence_hash, evidence_source, evidence_timestamp, requires_approval, submitted_at
+          evidence_hash, evidence_source, evidence_timestamp, requires_approval, submitted_at,
+          numeric_outcome
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
         RETURNING *`,
         [
           marketId,
           userId,
-          outcome,
+          String(outcome),
           prepareJsonb(evidence),
           signature || null,
           evidenceHash,
@@ -439,6 +627,7 @@ export const submitResolution = async (
           evidenceValidation.timestamp || null,
           requiresApproval,
           Math.floor(Date.now() / 1000),
+          scalarValue,
         ]
       );
 
@@ -488,10 +677,11 @@ export const submitResolution = async (
 
       // Update market status to RESOLVING if not already
       if (market.status === MarketStatus.OPEN) {
-        await MarketModel.update(
+        await MarketLifecycleService.transition(
+          client,
           marketId,
-          { status: MarketStatus.RESOLVING },
-          client
+          MarketStatus.RESOLVING,
+          { reason: "Resolution submitted", actorId: userId }
         );
       }
 
@@ -518,7 +708,26 @@ export const submitResolution = async (
       let resolvedWinningSide: number;
       let resolutionTrace: any;
 
-      if (
+      if (scalarValue !== null) {
+        // Scalar: payouts follow the value; winning_side records the side paid more
+        resolvedWinningSide = getScalarWinningSide(market, scalarValue);
+        resolutionTrace = {
+          mode: market.resolution_mode,
+          note: `Scalar option resolved to ${scalarValue}${
+            market.scalar_unit ? ` ${market.scalar_unit}` : ""
+          }`,
+          resolved_value: scalarValue,
+          lower_bound: market.scalar_lower_bound,
+          upper_bound: market.scalar_upper_bound,
+          long_payout_fraction: getScalarLongFraction(
+            market,
+            scalarValue
+          ).toString(),
+          submission_id: submissionRecord.id,
+          evidence: submissionRecord.evidence,
+          evidence_hash: evidenceHash,
+        };
+      } else if (
         winningSide !== undefined &&
         (winningSide === 1 || winningSide === 2)
       ) {
@@ -577,6 +786,16 @@ export const submitResolution = async (
         }
       }
 
+      // Exclusive markets resolve exactly one option YES
+      if (market.is_exclusive) {
+        await validateExclusiveResolution(
+          client,
+          marketId,
+          optionId!,
+          resolvedWinningSide
+        );
+      }
+
       // Set dispute deadline (2 hours from now)
       const disputeWindowHours = 2;
       const disputeDeadline =
@@ -591,6 +810,7 @@ export const submitResolution = async (
         {
           is_resolved: true,
           winning_side: resolvedWinningSide,
+          resolved_value: scalarValue ?? undefined,
           resolved_at: Math.floor(Date.now() / 1000),
           resolved_reason: resolutionReason,
           resolved_by: userId,
@@ -599,6 +819,26 @@ export const submitResolution = async (
         client
       );
 
+      // Resting limit orders and position triggers on this option can no longer fill
+      await LimitOrderModel.expireByOption(
+        optionId!,
+        "Option resolved",
+        client
+      );
+      await PositionTriggerModel.expireByOption(
+        optionId!,
+        "Option resolved",
+        client
+      );
+
+      // The other outcomes of an exclusive market lose once the winner is known
+      if (market.is_exclusive && resolvedWinningSide === 1) {
+        await resolveExclusiveLosers(client, marketId, optionId!, {
+          resolvedBy: userId,
+          disputeDeadline,
+        });
+      }
+
       // Update market resolved_options count
       const allOptions = await OptionModel.findByMarketId(marketId, client);
       const resolvedCount = allOptions.filter((opt) => opt.is_resolved).length;
@@ -610,12 +850,21 @@ export const submitResolution = async (
 
       // Check if all options are resolved, then mark market as resolved
       if (resolvedCount === allOptions.length) {
-        await MarketModel.update(
+        await MarketModel.update(marketId, { is_resolved: true }, client);
+        await MarketLifecycleService.transition(
+          client,
           marketId,
-          {
-            is_resolved: true,
-            status: MarketStatus.RESOLVED,
-          },
+          MarketStatus.RESOLVED,
+          { reason: "All options resolved", actorId: userId }
+        );
+        await LimitOrderModel.expireByMarket(
+          marketId,
+          "Market resolved",
+          client
+        );
+        await PositionTriggerModel.expireByMarket(
+          marketId,
+          "Market resolved",
           client
         );
       }
@@ -700,6 +949,42 @@ export const getResolution = async (
     const resolution = await MarketResolutionModel.findByMarket(marketId);
     const submissions = await ResolutionSubmissionModel.findByMarket(marketId);
 
+    // Commit–reveal phase and deadlines; committed outcomes stay hidden until revealed
+    let schedule = null;
+    let commitments = null;
+    if (market.resolution_mode === ResolutionMode.OPINION) {
+      schedule = OpinionResolutionService.getSchedule(market);
+      commitments = (
+        await ResolutionCommitmentModel.findByMarket(marketId)
+      ).map((c) => ({
+        id: c.id,
+        option_id: c.option_id,
+        user_id: c.user_id,
+        commitment: c.commitment,
+        bond_amount: c.bond_amount,
+        status: c.status,
+        committed_at: c.committed_at,
+        revealed_at: c.revealed_at,
+        forfeited_at: c.forfeited_at,
+      }));
+    } else if (market.resolution_mode === ResolutionMode.CONSENSUS) {
+      schedule = ConsensusResolutionService.getSchedule(market);
+    }
+
+    // Resolvers assigned to the market, with their public reputation
+    const resolvers = (await ResolverModel.getMarketResolvers(marketId)).map(
+      (assignment) => ({
+        resolver_id: assignment.resolver_id,
+        role: assignment.role,
+        bond_committed: assignment.bond_committed,
+        bond_slashed: assignment.bond_slashed,
+        released_at: assignment.released_at,
+        name: assignment.resolver.name,
+        type: assignment.resolver.type,
+        reputation_score: assignment.resolver.reputation_score,
+      })
+    );
+
     return sendSuccess(res, {
       market: {
         id: market.id,
@@ -710,6 +995,9 @@ export const getResolution = async (
       },
       resolution,
       submissions,
+      schedule,
+      commitments,
+      resolvers,
     });
   } catch (error: any) {
     console.error("Get resolution error:", error);
@@ -748,7 +1036,12 @@ export const disputeResolution = async (
     const DISPUTE_RESOLUTION_FEE_MICROUSDC = 100 * 1_000_000;
 
     await withTransaction(async (client) => {
-      const market = await MarketModel.findById(marketId, client);
+      // Lock the market first: the dispute moves it to DISPUTED
+      const marketResult = await client.query(
+        `SELECT * FROM markets WHERE id = $1 FOR UPDATE`,
+        [marketId]
+      );
+      const market = marketResult.rows[0];
       if (!market) {
         throw new TransactionError(404, "Market not found");
       }
@@ -820,6 +1113,14 @@ export const disputeResolution = async (
         DISPUTE_RESOLUTION_FEE_MICROUSDC,
         client
       );
+      await LedgerService.transfer(
+        client,
+        "dispute_fee",
+        LedgerAccounts.user(userId),
+        LedgerAccounts.protocolFees(),
+        DISPUTE_RESOLUTION_FEE_MICROUSDC,
+        { reference_type: "option", reference_id: optionId }
+      );
 
       // Create dispute record with reason and evidence
       await DisputeModel.create(
@@ -835,10 +1136,15 @@ export const disputeResolution = async (
       );
 
       // Update market status to DISPUTED
-      await MarketModel.update(
+      await MarketLifecycleService.transition(
+        client,
         marketId,
-        { status: MarketStatus.DISPUTED },
-        client
+        MarketStatus.DISPUTED,
+        {
+          reason: "Resolution disputed",
+          actorId: userId,
+          metadata: { option_id: optionId },
+        }
       );
     });
 
@@ -0,0 +1,211 @@
+import { Response } from "express";
+import {
+  ResolverBondLedgerModel,
+  ResolverModel,
+  ResolverReputationEventModel,
+  ResolverType,
+} from "../models/Resolver";
+import {
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendValidationError,
+} from "../utils/errors";
+import { validateEnum } from "../utils/validation";
+import {
+  GetResolversRequest,
+  GetResolverProfileRequest,
+  GetResolverHistoryRequest,
+} from "../types/requests";
+
+const getPagination = (query: { page?: string; limit?: string }) => {
+  const page = parseInt(query.page as string) || 1;
+  const limit = Math.min(parseInt(query.limit as string) || 20, 100);
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+const paginationMeta = (page: number, limit: number, total: number) => {
+  const totalPages = Math.ceil(total / limit);
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasMore: page < totalPages,
+  };
+};
+
+/**
+ * @route GET /api/resolution/resolvers
+ * @desc List resolvers by reputation
+ * @access Public
+ */
+export const getResolvers = async (req: GetResolversRequest, res: Response) => {
+  try {
+    const { type } = req.query;
+    if (type !== undefined) {
+      const typeValidation = validateEnum(
+        type,
+        "Type",
+        Object.values(ResolverType)
+      );
+      if (!typeValidation.isValid) {
+        return sendValidationError(res, typeValidation.error!);
+      }
+    }
+
+    const { page, limit, offset } = getPagination(req.query);
+    const { resolvers, total } = await ResolverModel.list({
+      type: type as ResolverType | undefined,
+      limit,
+      offset,
+    });
+
+    return sendSuccess(res, {
+      resolvers,
+      pagination: paginationMeta(page, limit, total),
+    });
+  } catch (error: any) {
+    console.error("Get resolvers error:", error);
+    return sendError(res, 500, "Failed to get resolvers");
+  }
+};
+
+/**
+ * @route GET /api/resolution/resolvers/:resolverId
+ * @desc Public resolver profile: reputation, bond, track record and recent reputation events
+ * @access Public
+ */
+export const getResolverProfile = async (
+  req: GetResolverProfileRequest,
+  res: Response
+) => {
+  try {
+    const { resolverId } = req.params;
+
+    const resolver = await ResolverModel.findById(resolverId);
+    if (!resolver) {
+      return sendNotFound(res, "Resolver");
+    }
+
+    const stats = await ResolverModel.getStats(resolverId);
+    const { events } = await ResolverReputationEventModel.findByResolver(
+      resolverId,
+      10,
+      0
+    );
+
+    return sendSuccess(res, {
+      resolver,
+      stats,
+      recent_reputation_events: events,
+    });
+  } catch (error: any) {
+    console.error("Get resolver profile error:", error);
+    return sendError(res, 500, "Failed to get resolver profile");
+  }
+};
+
+/**
+ * @route GET /api/resolution/resolvers/:resolverId/reputation
+ * @desc Reputation history of a resolver
+ * @access Public
+ */
+export const getResolverReputation = async (
+  req: GetResolverHistoryRequest,
+  res: Response
+) => {
+  try {
+    const { resolverId } = req.params;
+
+    const resolver = await ResolverModel.findById(resolverId);
+    if (!resolver) {
+      return sendNotFound(res, "Resolver");
+    }
+
+    const { page, limit, offset } = getPagination(req.query);
+    const { events, total } = await ResolverReputationEventModel.findByResolver(
+      resolverId,
+      limit,
+      offset
+    );
+
+    return sendSuccess(res, {
+      reputation_score: resolver.reputation_score,
+      events,
+      pagination: paginationMeta(page, limit, total),
+    });
+  } catch (error: any) {
+    console.error("Get resolver reputation error:", error);
+    return sendError(res, 500, "Failed to get resolver reputation");
+  }
+};
+
+/**
+ * @route GET /api/resolution/resolvers/:resolverId/ledger
+ * @desc Bond ledger of a resolver: every deposit, withdrawal, lock, release and slash
+ * @access Public
+ */
+export const getResolverBondLedger = async (
+  req: GetResolverHistoryRequest,
+  res: Response
+) => {
+  try {
+    const { resolverId } = req.params;
+
+    const resolver = await ResolverModel.findById(resolverId);
+    if (!resolver) {
+      return sendNotFound(res, "Resolver");
+    }
+
+    const { page, limit, offset } = getPagination(req.query);
+    const { entries, total } = await ResolverBondLedgerModel.findByResolver(
+      resolverId,
+      limit,
+      offset
+    );
+
+    return sendSuccess(res, {
+      bond_balance: resolver.bond_balance,
+      entries,
+      pagination: paginationMeta(page, limit, total),
+    });
+  } catch (error: any) {
+    console.error("Get resolver bond ledger error:", error);
+    return sendError(res, 500, "Failed to get resolver bond ledger");
+  }
+};
+
+/**
+ * @route GET /api/resolution/resolvers/:resolverId/markets
+ * @desc Markets a resolver is assigned to, with bond committed and slashed on each
+ * @access Public
+ */
+export const getResolverMarkets = async (
+  req: GetResolverHistoryRequest,
+  res: Response
+) => {
+  try {
+    const { resolverId } = req.params;
+
+    const resolver = await ResolverModel.findById(resolverId);
+    if (!resolver) {
+      return sendNotFound(res, "Resolver");
+    }
+
+    const { page, limit, offset } = getPagination(req.query);
+    const { assignments, total } = await ResolverModel.getMarketAssignments(
+      resolverId,
+      limit,
+      offset
+    );
+
+    return sendSuccess(res, {
+      markets: assignments,
+      pagination: paginationMeta(page, limit, total),
+    });
+  } catch (error: any) {
+    console.error("Get resolver markets error:", error);
+    return sendError(res, 500, "Failed to get resolver markets");
+  }
+};
@@ -1,5 +1,4 @@
 import { Response } from "express";
-import { BN } from "@coral-xyz/anchor";
 import { UUID } from "crypto";
 import { pool } from "../db";
 import { TradeModel } from "../models/Trade";
@@ -12,10 +11,9 @@ import { OptionModel } from "../models/Option";
 import { MarketModel } from "../models/Market";
 import { UserKeyModel } from "../models/UserKey";
 import { UserModel } from "../models/User";
-import { calculate_yes_price, PRECISION } from "../utils/lmsr";
+import { PRECISION } from "../utils/lmsr";
 import {
   emitTradeUpdate,
-  emitPriceUpdate,
   emitBalanceUpdate,
   emitMarketUpdate,
 } from "../services/websocket";
@@ -30,6 +28,17 @@ import {
 import { validateEnum } from "../utils/validation";
 import { TradeValidationService } from "../services/tradeValidation";
 import { TradeService } from "../services/tradeService";
+import { recordTradePrices, emitTradePrices } from "../services/tradeEvents";
+import { CommonTradeOperations } from "../services/commonTradeOperations";
+import { TradingHaltService } from "../services/tradingHaltService";
+import { LimitOrderService } from "../services/limitOrderService";
+import { CopyTradingService } from "../services/copyTradingService";
+import { LimitOrderModel, LimitOrderStatus } from "../models/LimitOrder";
+import {
+  PositionTriggerModel,
+  PositionTriggerStatus,
+} from "../models/PositionTrigger";
+import { isTriggerHit } from "../services/positionTriggerProcessor";
 import {
   BuySharesRequest,
   SellSharesRequest,
@@ -41,6 +50,12 @@ import {
   GetMarketPriceHistoryRequest,
   GetOHLCDataRequest,
   GetUserTradesRequest,
+  PlaceLimitOrderRequest,
+  CancelLimitOrderRequest,
+  GetLimitOrdersRequest,
+  CreatePositionTriggerRequest,
+  CancelPositionTriggerRequest,
+  GetPositionTriggersRequest,
 } from "../types/requests";
 
 /**
@@ -111,26 +126,14 @@ export const buyShares = async (req: BuySharesRequest, res: Response) => {
       status: "completed",
     });
 
-    // Record price snapshot for chart history
-    const newYesPriceForSnapshot =
-      calculate_yes_price(
-        new BN(result.newYesQuantity),
-        new BN(result.newNoQuantity),
-        result.liquidityParam
-      ) / PRECISION.toNumber();
-
-    await PriceSnapshotModel.recordPrice({
-      option_id: option,
-      market_id: market,
-      yes_price: newYesPriceForSnapshot,
-      no_price: 1 - newYesPriceForSnapshot,
-      yes_quantity: result.newYesQuantity,
-      no_quantity: result.newNoQuantity,
-      volume: result.totalCost,
-      trade_count: 1,
-      snapshot_type: "trade",
-      trade_id: trade.id,
-    });
+    // Record price snapshots for chart history
+    await recordTradePrices(
+      market,
+      option,
+      trade.id,
+      result.totalCost,
+      result.prices
+    );
 
     // Record activity
     await ActivityModel.create({
@@ -169,14 +172,7 @@ export const buyShares = async (req: BuySharesRequest, res: Response) => {
         timestamp: new Date(),
       });
 
-      emitPriceUpdate({
-        option_id: option,
-        yes_price: newYesPriceForSnapshot,
-        no_price: 1 - newYesPriceForSnapshot,
-        yes_quantity: result.newYesQuantity,
-        no_quantity: result.newNoQuantity,
-        timestamp: new Date(),
-      });
+      emitTradePrices(result.prices);
 
       emitBalanceUpdate({
         user_id: userId,
@@ -200,10 +196,25 @@ export const buyShares = async (req: BuySharesRequest, res: Response) => {
           timestamp: new Date(),
         });
       }
+
+      // Tell the market's subscribers if this trade tripped a volatility halt
+      if (result.halt) {
+        TradingHaltService.broadcast(result.halt, "halted");
+      }
     } catch (wsError) {
       console.error("WebSocket emission error:", wsError);
     }
 
+    // Fill any resting limit orders crossed by the new price (non-blocking)
+    LimitOrderService.matchMarket(market).catch((error) => {
+      console.error("Limit order matching error:", error);
+    });
+
+    // Queue mirrored trades for copy-trading followers (non-blocking)
+    CopyTradingService.enqueueCopies(trade).catch((error) => {
+      console.error("Copy trade enqueue error:", error);
+    });
+
     return sendSuccess(res, {
       message: "Shares bought successfully",
       trade: {
@@ -297,26 +308,14 @@ export const sellShares = async (req: SellSharesRequest, res: Response) => {
       status: "completed",
     });
 
-    // Record price snapshot for chart history
-    const newYesPriceForSnapshot =
-      calculate_yes_price(
-        new BN(result.newYesQuantity),
-        new BN(result.newNoQuantity),
-        result.liquidityParam
-      ) / PRECISION.toNumber();
-
-    await PriceSnapshotModel.recordPrice({
-      option_id: option,
-      market_id: market,
-      yes_price: newYesPriceForSnapshot,
-      no_price: 1 - newYesPriceForSnapshot,
-      yes_quantity: result.newYesQuantity,
-      no_quantity: result.newNoQuantity,
-      volume: result.rawCost,
-      trade_count: 1,
-      snapshot_type: "trade",
-      trade_id: trade.id,
-    });
+    // Record price snapshots for chart history
+    await recordTradePrices(
+      market,
+      option,
+      trade.id,
+      result.rawCost,
+      result.prices
+    );
 
     // Record activity
     await ActivityModel.create({
@@ -356,14 +355,7 @@ export const sellShares = async (req: SellSharesRequest, res: Response) => {
         timestamp: new Date(),
       });
 
-      emitPriceUpdate({
-        option_id: option,
-        yes_price: newYesPriceForSnapshot,
-        no_price: 1 - newYesPriceForSnapshot,
-        yes_quantity: result.newYesQuantity,
-        no_quantity: result.newNoQuantity,
-        timestamp: new Date(),
-      });
+      emitTradePrices(result.prices);
 
       emitBalanceUpdate({
         user_id: userId,
@@ -388,10 +380,27 @@ export const sellShares = async (req: SellSharesRequest, res: Response) => {
           timestamp: new Date(),
         });
       }
+
+      // Tell the market's subscribers if this trade tripped a volatility halt
+      if (result.halt) {
+        TradingHaltService.broadcast(result.halt, "halted");
+      }
     } catch (wsError) {
       console.error("WebSocket emission error:", wsError);
     }
 
+    // Fill any resting limit orders crossed by the new price (non-blocking)
+    LimitOrderService.matchMarket(market).catch((error) => {
+      console.error("Limit order matching error:", error);
+    });
+
+    // Queue mirrored trades for copy-trading followers (non-blocking)
+    CopyTradingService.enqueueCopies(trade, result.sharesBefore).catch(
+      (error) => {
+        console.error("Copy trade enqueue error:", error);
+      }
+    );
+
     return sendSuccess(res, {
       message: "Shares sold successfully",
       trade: {
@@ -564,14 +573,16 @@ export const getPosition = async (req: GetPositionRequest, res: Response) => {
 
     if (optionData && marketData) {
       try {
-        const liquidityParam = new BN(marketData.liquidity_parameter);
-        currentYesPrice =
-          calculate_yes_price(
-            new BN(Math.floor(Number(optionData.yes_quantity))),
-            new BN(Math.floor(Number(optionData.no_quantity))),
-            liquidityParam
-          ) / PRECISION.toNumber();
-        currentNoPrice = 1 - currentYesPrice;
+        // Exclusive markets price the option against all of its siblings
+        const prices = await CommonTradeOperations.getMarketOptionPrices(
+          pool,
+          marketData.id
+        );
+        const price = prices.find((p) => p.option_id === optionData.id);
+        if (price) {
+          currentYesPrice = price.yes_price / PRECISION.toNumber();
+          currentNoPrice = 1 - currentYesPrice;
+        }
       } catch (e) {
         // Use defaults
       }
@@ -924,3 +935,450 @@ export const getOHLCData = async (req: GetOHLCDataRequest, res: Response) => {
     );
   }
 };
+
+/**
+ * @route POST /api/trade/limit-orders
+ * @desc Place a resting limit order (buy YES/NO when the price is at or below the limit)
+ * @access Private
+ *
+ * Note: quantity is in micro-shares and limitPrice in micro-USDC per share.
+ * The worst-case cost (quantity * limitPrice + fees) is escrowed from the wallet.
+ */
+export const placeLimitOrder = async (
+  req: PlaceLimitOrderRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { market, option } = req.body;
+
+    const validation = TradeValidationService.validateLimitOrderRequest(req);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+
+    const order = await withTradeQueue(
+      market as UUID,
+      option as UUID,
+      async () =>
+        await withTransaction(async (client) => {
+          return await LimitOrderService.placeOrder(
+            client,
+            userId as UUID,
+            market as UUID,
+            option as UUID,
+            validation.side!,
+            validation.quantity!,
+            validation.limitPrice!
+          );
+        })
+    );
+
+    const updatedWalletResult = await pool.query(
+      `SELECT balance_usdc FROM wallets WHERE user_id = $1`,
+      [userId]
+    );
+    try {
+      emitBalanceUpdate({
+        user_id: userId,
+        balance_usdc: updatedWalletResult.rows[0]?.balance_usdc || 0,
+        timestamp: new Date(),
+      });
+    } catch (wsError) {
+      console.error("WebSocket emission error:", wsError);
+    }
+
+    // The order may already cross the current price
+    LimitOrderService.matchMarket(market).catch((error) => {
+      console.error("Limit order matching error:", error);
+    });
+
+    return sendSuccess(res, {
+      message: "Limit order placed successfully",
+      order,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Place limit order error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to place limit order. Please try again."
+    );
+  }
+};
+
+/**
+ * @route DELETE /api/trade/limit-orders/:id
+ * @desc Cancel an open limit order and release its escrow
+ * @access Private
+ */
+export const cancelLimitOrder = async (
+  req: CancelLimitOrderRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { id } = req.params;
+
+    const existing = await LimitOrderModel.findById(id);
+    if (!existing || existing.user_id !== userId) {
+      return sendNotFound(res, "Limit order");
+    }
+
+    // Serialize with the matcher so a cancel can't race a fill
+    const order = await withTradeQueue(
+      existing.market_id,
+      existing.option_id,
+      async () =>
+        await withTransaction(async (client) => {
+          return await LimitOrderService.cancelOrder(
+            client,
+            userId as UUID,
+            id as UUID
+          );
+        })
+    );
+
+    const updatedWalletResult = await pool.query(
+      `SELECT balance_usdc FROM wallets WHERE user_id = $1`,
+      [userId]
+    );
+    try {
+      emitBalanceUpdate({
+        user_id: userId,
+        balance_usdc: updatedWalletResult.rows[0]?.balance_usdc || 0,
+        timestamp: new Date(),
+      });
+    } catch (wsError) {
+      console.error("WebSocket emission error:", wsError);
+    }
+
+    return sendSuccess(res, {
+      message: "Limit order cancelled",
+      order,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Cancel limit order error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to cancel limit order. Please try again."
+    );
+  }
+};
+
+/**
+ * @route GET /api/trade/limit-orders
+ * @desc Get the current user's limit orders
+ * @access Private
+ */
+export const getLimitOrders = async (
+  req: GetLimitOrdersRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { status, market } = req.query;
+
+    if (status) {
+      const statusValidation = validateEnum(status, "Status", [
+        "open",
+        "filled",
+        "cancelled",
+        "expired",
+      ]);
+      if (!statusValidation.isValid) {
+        return sendValidationError(res, statusValidation.error!);
+      }
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const { orders, total } = await LimitOrderModel.findByUserId(
+      userId,
+      {
+        status: status as LimitOrderStatus | undefined,
+        marketId: market,
+      },
+      limit,
+      offset
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return sendSuccess(res, {
+      orders,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get limit orders error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to get limit orders. Please try again."
+    );
+  }
+};
+
+// Maximum number of active stop-loss/take-profit triggers per user
+const MAX_ACTIVE_TRIGGERS_PER_USER = 50;
+
+/**
+ * @route POST /api/trade/triggers
+ * @desc Attach a stop-loss or take-profit trigger to a position
+ * @access Private
+ *
+ * Note: triggerPrice is in micro-USDC per share. A stop-loss fires when the
+ * side price falls to or below it, a take-profit when it rises to or above it.
+ */
+export const createPositionTrigger = async (
+  req: CreatePositionTriggerRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { market, option } = req.body;
+
+    const validation =
+      TradeValidationService.validatePositionTriggerRequest(req);
+    if (!validation.isValid) {
+      return sendValidationError(res, validation.error!);
+    }
+    const side = validation.side!;
+    const triggerType = validation.triggerType!;
+    const triggerPrice = validation.triggerPrice!;
+
+    const trigger = await withTransaction(async (client) => {
+      const marketData = await MarketModel.findById(market, client);
+      if (!marketData) {
+        throw new TransactionError(404, "Market not found");
+      }
+      if (marketData.is_resolved) {
+        throw new TransactionError(400, "Market is already resolved");
+      }
+
+      const optionData = await OptionModel.findById(option, client);
+      if (!optionData || optionData.market_id !== market) {
+        throw new TransactionError(404, "Option not found");
+      }
+      if (optionData.is_resolved) {
+        throw new TransactionError(400, "Option is already resolved");
+      }
+      TradeService.checkSideTradable(marketData, side);
+
+      const position = await UserPositionModel.findByUserAndOption(
+        userId,
+        option,
+        client
+      );
+      const shares =
+        side === "yes"
+          ? Number(position?.yes_shares || 0)
+          : Number(position?.no_shares || 0);
+      if (!position || shares <= 0) {
+        throw new TransactionError(
+          400,
+          `You have no ${side.toUpperCase()} shares on this option`
+        );
+      }
+
+      const activeCountResult = await client.query(
+        `SELECT COUNT(*)::int as count FROM position_triggers WHERE user_id = $1 AND status = 'active'`,
+        [userId]
+      );
+      if (
+        (activeCountResult.rows[0]?.count || 0) >= MAX_ACTIVE_TRIGGERS_PER_USER
+      ) {
+        throw new TransactionError(
+          400,
+          `You can have at most ${MAX_ACTIVE_TRIGGERS_PER_USER} active triggers`
+        );
+      }
+
+      // Reject triggers that would fire immediately
+      const currentPrice = await LimitOrderService.getSidePrice(
+        client,
+        market,
+        option,
+        side
+      );
+      if (
+        isTriggerHit(
+          { trigger_type: triggerType, trigger_price: triggerPrice },
+          currentPrice
+        )
+      ) {
+        throw new TransactionError(
+          400,
+          triggerType === "stop_loss"
+            ? "Stop-loss price must be below the current price"
+            : "Take-profit price must be above the current price",
+          { current_price: currentPrice }
+        );
+      }
+
+      return await PositionTriggerModel.create(
+        {
+          user_id: userId as UUID,
+          market_id: market as UUID,
+          option_id: option as UUID,
+          position_id: position.id,
+          side,
+          trigger_type: triggerType,
+          trigger_price: triggerPrice,
+          sell_percentage: validation.sellPercentage,
+          slippage_bps: validation.slippageBps,
+        },
+        client
+      );
+    });
+
+    return sendSuccess(res, {
+      message: "Trigger created successfully",
+      trigger,
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionError) {
+      return sendError(res, error.statusCode, error.message, error.details);
+    }
+    console.error("Create position trigger error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to create trigger. Please try again."
+    );
+  }
+};
+
+/**
+ * @route DELETE /api/trade/triggers/:id
+ * @desc Cancel an active stop-loss/take-profit trigger
+ * @access Private
+ */
+export const cancelPositionTrigger = async (
+  req: CancelPositionTriggerRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { id } = req.params;
+
+    const existing = await PositionTriggerModel.findById(id);
+    if (!existing || existing.user_id !== userId) {
+      return sendNotFound(res, "Trigger");
+    }
+
+    const trigger = await PositionTriggerModel.markClosed(
+      id,
+      "cancelled",
+      "Cancelled by user"
+    );
+    if (!trigger) {
+      return sendError(res, 400, `Trigger is already ${existing.status}`);
+    }
+
+    return sendSuccess(res, {
+      message: "Trigger cancelled",
+      trigger,
+    });
+  } catch (error: any) {
+    console.error("Cancel position trigger error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to cancel trigger. Please try again."
+    );
+  }
+};
+
+/**
+ * @route GET /api/trade/triggers
+ * @desc Get the current user's stop-loss/take-profit triggers
+ * @access Private
+ */
+export const getPositionTriggers = async (
+  req: GetPositionTriggersRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.id;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+    const { status, option } = req.query;
+
+    if (status) {
+      const statusValidation = validateEnum(status, "Status", [
+        "active",
+        "executed",
+        "failed",
+        "cancelled",
+        "expired",
+      ]);
+      if (!statusValidation.isValid) {
+        return sendValidationError(res, statusValidation.error!);
+      }
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    const { triggers, total } = await PositionTriggerModel.findByUserId(
+      userId,
+      {
+        status: status as PositionTriggerStatus | undefined,
+        optionId: option,
+      },
+      limit,
+      offset
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    return sendSuccess(res, {
+      triggers,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get position triggers error:", error);
+    return sendError(
+      res,
+      500,
+      error.message || "Failed to get triggers. Please try again."
+    );
+  }
+};
@@ -0,0 +1,150 @@
+import { Response } from "express";
+import { DepositWebhookModel } from "../models/DepositWebhook";
+import {
+  getDepositListener,
+  isDepositWebhookEnabled,
+} from "../services/depositListener";
+import {
+  DepositNotification,
+  parseDepositWebhook,
+  verifyWebhookSignature,
+  webhookEventId,
+} from "../utils/depositWebhook";
+import { sendError, sendNotFound, sendSuccess } from "../utils/errors";
+import { secretsManager } from "../utils/secrets";
+import {
+  DepositWebhookRequest,
+  GetDepositWebhookDeadLettersRequest,
+} from "../types/requests";
+
+/**
+ * @route POST /api/v1/webhooks/deposits
+ * @desc Receive transaction notifications from an RPC provider and credit
+ * the deposits they made, as the deposit listener's polling would
+ * @access Public (HMAC signed, see utils/depositWebhook.ts)
+ */
+export const receiveDepositWebhook = async (
+  req: DepositWebhookRequest,
+  res: Response
+) => {
+  try {
+    if (!isDepositWebhookEnabled()) {
+      return sendNotFound(res, "Webhook");
+    }
+
+    const secret = await secretsManager.getOptionalSecret(
+      "DEPOSIT_WEBHOOK_SECRET"
+    );
+    const listener = getDepositListener();
+    if (!secret || !listener) {
+      return sendError(res, 503, "Deposit webhooks are not available");
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const invalid = verifyWebhookSignature({
+      secret,
+      timestamp: req.get("x-webhook-timestamp"),
+      signature: req.get("x-webhook-signature"),
+      id: req.get("x-webhook-id"),
+      body,
+    });
+    if (invalid) {
+      console.warn(`[Deposits] Rejected deposit webhook: ${invalid}`);
+      return sendError(res, 401, invalid);
+    }
+
+    // Replay protection: each event is only processed once, and the id is
+    // covered by the signature so it can't be swapped for a fresh one
+    const eventId = webhookEventId(req.get("x-webhook-id"), body);
+    const event = await DepositWebhookModel.claimEvent(eventId);
+    if (!event) {
+      return sendSuccess(res, { received: true, duplicate: true });
+    }
+
+    // Payloads we can't read are dead-lettered and acknowledged, so the
+    // provider doesn't keep retrying them; polling still finds the deposits
+    let notifications: DepositNotification[] = [];
+    let deadLettered = 0;
+    try {
+      const parsed = parseDepositWebhook(body);
+      notifications = parsed.notifications;
+      for (const { error, entry } of parsed.errors) {
+        await DepositWebhookModel.recordDeadLetter(
+          eventId,
+          JSON.stringify(entry) ?? String(entry),
+          error
+        );
+        deadLettered++;
+      }
+    } catch (error: any) {
+      await DepositWebhookModel.recordDeadLetter(
+        eventId,
+        body.toString(),
+        error.message
+      );
+      deadLettered++;
+    }
+
+    let wallets = 0;
+    try {
+      for (const notification of notifications) {
+        wallets += await listener.ingestNotification(notification);
+      }
+    } catch (error) {
+      // Let the provider's retry through; deposits already credited by
+      // this event are recorded per signature and won't be credited twice
+      await DepositWebhookModel.releaseEvent(event.id);
+      throw error;
+    }
+
+    await DepositWebhookModel.markProcessed(
+      event.id,
+      notifications.length + deadLettered
+    );
+
+    return sendSuccess(res, {
+      received: true,
+      transactions: notifications.length,
+      wallets,
+      dead_lettered: deadLettered,
+    });
+  } catch (error: any) {
+    console.error("Deposit webhook error:", error);
+    return sendError(res, 500, "Failed to process deposit webhook");
+  }
+};
+
+/**
+ * @route GET /api/admin/deposits/webhook-dead-letters
+ * @desc Get deposit webhook payloads that couldn't be parsed, newest first
+ * @access Admin
+ */
+export const getDepositWebhookDeadLetters = async (
+  req: GetDepositWebhookDeadLettersRequest,
+  res: Response
+) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = (page - 1) * limit;
+
+    const { dead_letters, total } = await DepositWebhookModel.findDeadLetters(
+      limit,
+      offset
+    );
+
+    return sendSuccess(res, {
+      dead_letters,
+      pagination: {
+        total,
+        page,
+        limit,
+        offset,
+        has_more: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get deposit webhook dead letters error:", error);
+    return sendError(res, 500, error.message || "Internal server error");
+  }
+};
@@ -6,9 +6,13 @@ import { WalletModel } from "../models/Wallet";
 import { WithdrawalModel } from "../models/Withdrawal";
 import { ActivityModel } from "../models/Activity";
 import { NotificationModel } from "../models/Notification";
+import { SuspiciousTradeModel } from "../models/SuspiciousTrade";
 import { getCircleWallet } from "../services/circleWallet";
 import { withTransaction, TransactionError } from "../utils/transaction";
 import { queueWithdrawal } from "../services/withdrawalQueue";
+import { LedgerService } from "../services/ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
+import { AccountLinkService } from "../services/accountLinkService";
 import {
   sendError,
   sendNotFound,
@@ -180,6 +184,15 @@ export const requestWithdrawal = async (req: any, res: Response) => {
           });
         }
 
+        // Trades held by the risk rules keep funds on the platform until
+        // an admin reviews them
+        if (await SuspiciousTradeModel.hasPendingHold(userId, client)) {
+          throw new TransactionError(
+            403,
+            "Withdrawals are on hold while recent trading activity is reviewed"
+          );
+        }
+
         // SECURITY FIX: Check for ANY pending/processing withdrawal (stricter check)
         // Reduced window to 10 seconds for duplicate detection
         const tenSecondsAgo = Math.floor((Date.now() - 10000) / 1000);
@@ -299,11 +312,26 @@ export const requestWithdrawal = async (req: any, res: Response) => {
 
         const newWithdrawal = withdrawalResult.rows[0];
 
+        // Link accounts that withdraw to the same place
+        await AccountLinkService.recordWithdrawalDestination(
+          client,
+          userId,
+          destination_address
+        );
+
         // Deduct from USDC balance immediately (inside transaction)
         await client.query(
           `UPDATE wallets SET balance_usdc = balance_usdc - $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
           [parsedAmount, wallet.id]
         );
+        await LedgerService.transfer(
+          client,
+          "withdrawal",
+          LedgerAccounts.user(userId),
+          LedgerAccounts.hotWallet(),
+          parsedAmount,
+          { reference_type: "withdrawal", reference_id: newWithdrawal.id }
+        );
 
         return {
           withdrawal: newWithdrawal,
@@ -368,6 +396,14 @@ export const requestWithdrawal = async (req: any, res: Response) => {
             `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
             [parsedAmount, wallet.id]
           );
+          await LedgerService.transfer(
+            client,
+            "withdrawal_refund",
+            LedgerAccounts.hotWallet(),
+            LedgerAccounts.user(userId),
+            parsedAmount,
+            { reference_type: "withdrawal", reference_id: withdrawal.id }
+          );
         }
 
         await client.query(
@@ -434,6 +470,14 @@ export const cancelWithdrawal = async (
         `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
         [withdrawal.amount, withdrawal.wallet_id]
       );
+      await LedgerService.transfer(
+        client,
+        "withdrawal_refund",
+        LedgerAccounts.hotWallet(),
+        LedgerAccounts.user(userId),
+        Number(withdrawal.amount),
+        { reference_type: "withdrawal", reference_id: id }
+      );
 
       // Update withdrawal status
       await client.query(
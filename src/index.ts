@@ -36,6 +36,10 @@ import route_analytics from "./routes/route_analytics";
 import route_resolution from "./routes/route_resolution";
 import route_post from "./routes/route_post";
 import route_key from "./routes/route_key";
+import route_copy from "./routes/route_copy";
+import route_referral from "./routes/route_referral";
+import route_liveroom from "./routes/route_liveroom";
+import route_webhook from "./routes/route_webhook";
 import { getMarketMeta } from "./controllers/controller_market";
 import { GetMarketRequest } from "./types/requests";
 
@@ -45,6 +49,14 @@ import { GetMarketRequest } from "./types/requests";
 import { initializeWebSocket } from "./services/websocket";
 import { startDepositListener } from "./services/depositListener";
 import { startResolutionProcessor } from "./services/resolutionProcessor";
+import { startLiquidityMonitorProcessor } from "./services/liquidityMonitor";
+import { startTradingHaltProcessor } from "./services/tradingHaltService";
+import { startPositionTriggerProcessor } from "./services/positionTriggerProcessor";
+import { startCopyTradeProcessor } from "./services/copyTradeProcessor";
+import { startMarketLifecycleProcessor } from "./services/marketLifecycleProcessor";
+import { startLedgerReconciliationProcessor } from "./services/ledgerReconciliationService";
+import { startPortfolioSnapshotProcessor } from "./services/portfolioSnapshotService";
+import { startTrendingProcessor } from "./services/trendingService";
 import { initializeCircleWallet } from "./services/circleWallet";
 import { initializeWithdrawalQueue } from "./services/withdrawalQueue";
 import { generalLimiter } from "./middleware/rateLimit";
@@ -201,6 +213,17 @@ app.use(globalIPBlacklist);
 // Cookie parser
 app.use(cookieParser());
 
+// API Versioning - All routes under /api/v1/
+const API_VERSION = "/api/v1";
+
+// Provider webhooks need the raw body to check their signature, so they're
+// mounted before the JSON body parser (and outside the general rate limit)
+app.use(
+  `${API_VERSION}/webhooks`,
+  express.raw({ type: "*/*", limit: "1mb" }),
+  route_webhook
+);
+
 // Request size limits to prevent DoS attacks
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
@@ -233,9 +256,6 @@ app.options("/health", (req, res) => {
   res.status(204).end();
 });
 
-// API Versioning - All routes under /api/v1/
-const API_VERSION = "/api/v1";
-
 // Apply general rate limiting to all API routes
 app.use(API_VERSION, generalLimiter);
 
@@ -253,6 +273,9 @@ app.use(`${API_VERSION}/analytics`, route_analytics);
 app.use(`${API_VERSION}/resolution`, route_resolution);
 app.use(`${API_VERSION}/posts`, route_post);
 app.use(`${API_VERSION}/key`, route_key);
+app.use(`${API_VERSION}/copy`, route_copy);
+app.use(`${API_VERSION}/referral`, route_referral);
+app.use(`${API_VERSION}/live-rooms`, route_liveroom);
 
 // Admin routes with IP whitelist
 app.use(`${API_VERSION}/admin`, adminIPWhitelist, route_admin);
@@ -377,6 +400,38 @@ app.get("/market/:id", async (req, res, next) => {
   startResolutionProcessor();
   console.log("✅ Resolution processor started");
 
+  // Start liquidity monitor to raise alerts on under-reserved markets
+  startLiquidityMonitorProcessor();
+  console.log("✅ Liquidity monitor started");
+
+  // Start trading halt processor to resume halts at their scheduled time
+  startTradingHaltProcessor();
+  console.log("✅ Trading halt processor started");
+
+  // Start stop-loss / take-profit trigger processor
+  startPositionTriggerProcessor();
+  console.log("✅ Position trigger processor started");
+
+  // Start copy trade processor to execute mirrored trades for followers
+  startCopyTradeProcessor();
+  console.log("✅ Copy trade processor started");
+
+  // Start market lifecycle processor to close expired markets and escalate overdue resolutions
+  startMarketLifecycleProcessor();
+  console.log("✅ Market lifecycle processor started");
+
+  // Start ledger reconciliation to check balances against the double-entry ledger
+  startLedgerReconciliationProcessor();
+  console.log("✅ Ledger reconciliation processor started");
+
+  // Start portfolio snapshots for the equity curve on the Portfolio page
+  startPortfolioSnapshotProcessor();
+  console.log("✅ Portfolio snapshot processor started");
+
+  // Start trending scorer for markets.trending_score and the trending feed
+  startTrendingProcessor();
+  console.log("✅ Trending processor started");
+
   // Initialize withdrawal job queue (SECURITY FIX: CVE-004)
   initializeWithdrawalQueue();
   console.log("✅ Withdrawal queue initialized");
@@ -1,36 +1,119 @@
-import { Request, Response, NextFunction } from "express";
 import { MoodringAdminModel } from "../models/Moodring";
+import { AdminSessionModel } from "../models/AdminMfa";
+import { AdminMfaService } from "../services/adminMfaService";
+import { withTransaction, TransactionError } from "../utils/transaction";
 import UserRequest from "../types";
+import { typedMiddleware } from "../types/routeHandler";
+
+export const ADMIN_SESSION_HEADER = "x-admin-session";
+export const ADMIN_SESSION_COOKIE = "adminSession";
+export const MFA_CODE_HEADER = "x-mfa-code";
+
+export type AdminRequest = UserRequest & { adminSessionId?: string };
 
 /**
- * Middleware to require admin privileges
- * Must be used after authenticateToken middleware
+ * Middleware to require the admin role, without an MFA session.
+ * Only used for MFA enrollment and sign-in; every other admin route uses
+ * requireAdmin. Must be used after authenticateToken middleware
  */
-export const requireAdmin = async (
-  req: UserRequest,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    if (!req.id) {
-      res.status(401).send({ error: "Authentication required" });
-      return;
-    }
+export const requireAdminRole = typedMiddleware<UserRequest>(
+  async (req, res, next) => {
+    try {
+      if (!req.id) {
+        res.status(401).send({ error: "Authentication required" });
+        return;
+      }
+
+      // Check if user is in the admin table
+      // getAdminWithUser returns null if user is not an admin
+      const adminRecord = await MoodringAdminModel.getAdminWithUser(req.id);
 
-    // Check if user is in the admin table
-    // getAdminWithUser returns null if user is not an admin
-    const adminRecord = await MoodringAdminModel.getAdminWithUser(req.id);
+      if (!adminRecord) {
+        // User exists but is not an admin
+        res.status(403).send({ error: "Admin access required" });
+        return;
+      }
 
-    if (!adminRecord) {
-      // User exists but is not an admin
-      res.status(403).send({ error: "Admin access required" });
-      return;
+      // User is verified as an admin, proceed
+      next();
+    } catch (error) {
+      console.error("Admin middleware error:", error);
+      res.status(500).send({ error: "Failed to verify admin privileges" });
     }
+  }
+);
+
+/**
+ * Middleware to require admin privileges and an MFA-verified admin session
+ * (sent in the X-Admin-Session header or the adminSession cookie)
+ * Must be used after authenticateToken middleware
+ */
+export const requireAdmin = typedMiddleware<AdminRequest>(
+  async (req, res, next) => {
+    await requireAdminRole(req, res, async () => {
+      try {
+        const token =
+          (req.headers[ADMIN_SESSION_HEADER] as string | undefined) ||
+          (req.cookies?.[ADMIN_SESSION_COOKIE] as string | undefined);
+
+        const session = await AdminMfaService.getActiveSession(req.id, token);
+        if (!session) {
+          res.status(401).send({
+            error: "Admin MFA session required",
+            code: "ADMIN_MFA_REQUIRED",
+          });
+          return;
+        }
 
-    // User is verified as an admin, proceed
-    next();
-  } catch (error) {
-    console.error("Admin middleware error:", error);
-    res.status(500).send({ error: "Failed to verify admin privileges" });
+        req.adminSessionId = session.id;
+        next();
+      } catch (error) {
+        console.error("Admin session middleware error:", error);
+        res.status(500).send({ error: "Failed to verify admin session" });
+      }
+    });
+  }
+);
+
+/**
+ * Middleware to require a fresh MFA code (X-MFA-Code header) for sensitive
+ * admin actions. Each code is accepted once.
+ * Must be used after requireAdmin middleware
+ */
+export const requireStepUp = typedMiddleware<AdminRequest>(
+  async (req, res, next) => {
+    try {
+      const code = req.headers[MFA_CODE_HEADER] as string | undefined;
+      if (!code) {
+        res.status(401).send({
+          error: "This action requires a fresh MFA code",
+          code: "MFA_STEP_UP_REQUIRED",
+        });
+        return;
+      }
+
+      await withTransaction(async (client) => {
+        await AdminMfaService.verifyCode(client, req.id, code);
+        if (req.adminSessionId) {
+          await AdminSessionModel.recordStepUp(
+            req.adminSessionId,
+            Math.floor(Date.now() / 1000),
+            client
+          );
+        }
+      });
+
+      next();
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        res.status(error.statusCode).send({
+          error: error.message,
+          code: "MFA_STEP_UP_REQUIRED",
+        });
+        return;
+      }
+      console.error("Step-up middleware error:", error);
+      res.status(500).send({ error: "Failed to verify MFA code" });
+    }
   }
-};
+);
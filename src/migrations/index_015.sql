@@ -0,0 +1,46 @@
+-- =====================================================
+-- LIMIT ORDERS MIGRATION (index_015.sql)
+-- =====================================================
+-- This migration adds resting limit orders on top of the
+-- LMSR market maker. Funds for an order are escrowed from
+-- the user's wallet when it is placed and are released either
+-- into the fill, back to the wallet on cancel, or back to the
+-- wallet when the option/market resolves.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS limit_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES market_options(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('yes', 'no')),
+  quantity BIGINT NOT NULL CHECK (quantity > 0), -- micro-shares
+  limit_price BIGINT NOT NULL CHECK (limit_price > 0 AND limit_price < 1000000), -- micro-USDC per share
+  escrow_amount BIGINT NOT NULL DEFAULT 0 CHECK (escrow_amount >= 0), -- micro-USDC held for this order
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled', 'expired')),
+  filled_trade_id UUID REFERENCES trades(id) ON DELETE SET NULL,
+  fill_price BIGINT, -- average micro-USDC per share paid on fill
+  fill_cost BIGINT, -- total micro-USDC paid on fill (including fees)
+  cancel_reason TEXT,
+  filled_at BIGINT,
+  cancelled_at BIGINT,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+-- Matcher scans open orders per option, best price first
+CREATE INDEX IF NOT EXISTS idx_limit_orders_open_option
+ON limit_orders(option_id, side, limit_price DESC, created_at ASC)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_user
+ON limit_orders(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_market
+ON limit_orders(market_id, status);
+
+ALTER TABLE limit_orders ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
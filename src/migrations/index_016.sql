@@ -0,0 +1,42 @@
+-- =====================================================
+-- POSITION TRIGGERS MIGRATION (index_016.sql)
+-- =====================================================
+-- This migration adds stop-loss / take-profit triggers
+-- attached to user positions. A background worker watches
+-- price snapshots and sells the configured share of the
+-- position when the trigger price is crossed.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS position_triggers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES market_options(id) ON DELETE CASCADE,
+  position_id UUID NOT NULL REFERENCES user_positions(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('yes', 'no')),
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('stop_loss', 'take_profit')),
+  trigger_price BIGINT NOT NULL CHECK (trigger_price > 0 AND trigger_price < 1000000), -- micro-USDC per share
+  sell_percentage INT NOT NULL DEFAULT 100 CHECK (sell_percentage > 0 AND sell_percentage <= 100),
+  slippage_bps INT NOT NULL DEFAULT 500 CHECK (slippage_bps >= 0 AND slippage_bps <= 10000),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'executed', 'failed', 'cancelled', 'expired')),
+  executed_trade_id UUID REFERENCES trades(id) ON DELETE SET NULL,
+  executed_quantity BIGINT,
+  executed_payout BIGINT, -- net micro-USDC received
+  failure_reason TEXT,
+  triggered_at BIGINT,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_position_triggers_active_option
+ON position_triggers(option_id)
+WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_position_triggers_user
+ON position_triggers(user_id, created_at DESC);
+
+ALTER TABLE position_triggers ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,58 @@
+-- =====================================================
+-- COPY TRADING MIGRATION (index_017.sql)
+-- =====================================================
+-- This migration extends the copy-trading tables from
+-- index_001.sql with sizing rules and the bookkeeping the
+-- copy-trade engine needs:
+-- 1. Sizing rules on trader_follows (fixed / percentage / per-market cap)
+-- 2. Leader position snapshot and result link on copy_trade_queue
+-- =====================================================
+
+-- =====================================================
+-- 1. SIZING RULES
+-- =====================================================
+-- fixed:      copy every buy with a fixed USDC amount (fixed_amount)
+-- percentage: copy copy_percentage % of the leader's trade size
+-- market_cap: copy copy_percentage % of the leader's size until the
+--             follower's copied spend in a market reaches max_per_market
+-- max_trade_amount and max_per_market apply as caps in every mode.
+
+ALTER TABLE trader_follows
+ADD COLUMN IF NOT EXISTS sizing_mode TEXT NOT NULL DEFAULT 'percentage',
+ADD COLUMN IF NOT EXISTS fixed_amount BIGINT, -- micro-USDC per copied buy (fixed mode)
+ADD COLUMN IF NOT EXISTS max_per_market BIGINT, -- micro-USDC copied spend cap per market (NULL = no cap)
+ADD COLUMN IF NOT EXISTS max_slippage_bps INT NOT NULL DEFAULT 200; -- price tolerance vs the leader's fill
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_trader_follows_sizing_mode'
+  ) THEN
+    ALTER TABLE trader_follows
+    ADD CONSTRAINT chk_trader_follows_sizing_mode
+    CHECK (sizing_mode IN ('fixed', 'percentage', 'market_cap'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_trader_follows_trader_active
+ON trader_follows(trader_id)
+WHERE enabled = TRUE AND auto_copy = TRUE;
+
+-- =====================================================
+-- 2. COPY TRADE QUEUE BOOKKEEPING
+-- =====================================================
+
+ALTER TABLE copy_trade_queue
+ADD COLUMN IF NOT EXISTS leader_shares_before BIGINT, -- leader's shares on the side before a sell
+ADD COLUMN IF NOT EXISTS copied_trade_id UUID REFERENCES trades(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_copy_trade_queue_follower
+ON copy_trade_queue(follower_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_copy_trade_queue_pending
+ON copy_trade_queue(created_at ASC)
+WHERE status = 'pending';
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,76 @@
+-- =====================================================
+-- REFERRAL REWARDS MIGRATION (index_018.sql)
+-- =====================================================
+-- This migration adds fee-share rewards to the referral
+-- program from index_001.sql:
+-- 1. Referral fee share setting on moodring
+-- 2. Per-trade reward ledger (referral_rewards)
+-- 3. Claim history (referral_payouts)
+-- =====================================================
+
+-- =====================================================
+-- 1. FEE SHARE SETTING
+-- =====================================================
+-- Share of the protocol fee on a referred user's trade that is
+-- paid to the referrer, in basis points of the protocol fee.
+
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS referral_fee_share_bps INT NOT NULL DEFAULT 1000;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_moodring_referral_fee_share_bps'
+  ) THEN
+    ALTER TABLE moodring
+    ADD CONSTRAINT chk_moodring_referral_fee_share_bps
+    CHECK (referral_fee_share_bps >= 0 AND referral_fee_share_bps <= 10000);
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. CLAIM HISTORY
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS referral_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount BIGINT NOT NULL CHECK (amount > 0), -- micro-USDC credited to the wallet
+  reward_count INT NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_payouts_user
+ON referral_payouts(user_id, created_at DESC);
+
+-- =====================================================
+-- 3. REWARD LEDGER
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS referral_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referral_id UUID NOT NULL REFERENCES referrals(id) ON DELETE CASCADE,
+  referrer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  referred_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  market_id UUID REFERENCES markets(id) ON DELETE SET NULL,
+  option_id UUID REFERENCES market_options(id) ON DELETE SET NULL,
+  trade_type TEXT NOT NULL CHECK (trade_type IN ('buy', 'sell')),
+  protocol_fee BIGINT NOT NULL, -- protocol fee on the referred trade (micro-USDC)
+  reward_amount BIGINT NOT NULL CHECK (reward_amount > 0), -- micro-USDC
+  payout_id UUID REFERENCES referral_payouts(id) ON DELETE SET NULL, -- NULL until claimed
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_unclaimed
+ON referral_rewards(referrer_id)
+WHERE payout_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_referral
+ON referral_rewards(referral_id);
+
+ALTER TABLE referral_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_rewards ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,53 @@
+-- =====================================================
+-- LIVE ROOMS MODERATION MIGRATION (index_019.sql)
+-- =====================================================
+-- This migration prepares the live room tables from
+-- index_001.sql for the live rooms API:
+-- 1. Active participants are tracked with left_at IS NULL
+-- 2. Host mutes on participants
+-- 3. Kicked users (cannot rejoin the room)
+-- =====================================================
+
+-- =====================================================
+-- 1. PARTICIPANT LEFT_AT
+-- =====================================================
+-- left_at was NOT NULL DEFAULT 0, but active participants (and the
+-- unique active participation index) are identified by left_at IS NULL.
+
+ALTER TABLE live_room_participants ALTER COLUMN left_at DROP NOT NULL;
+ALTER TABLE live_room_participants ALTER COLUMN left_at DROP DEFAULT;
+
+UPDATE live_room_participants SET left_at = NULL WHERE left_at = 0;
+
+-- =====================================================
+-- 2. HOST MUTES
+-- =====================================================
+-- A participant muted by a host cannot unmute or post chat messages
+-- until a host unmutes them.
+
+ALTER TABLE live_room_participants
+ADD COLUMN IF NOT EXISTS is_muted_by_host BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =====================================================
+-- 3. KICKS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS live_room_kicks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES live_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kicked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  UNIQUE(room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_room_messages_room_active
+ON live_room_messages(room_id, created_at DESC)
+WHERE is_deleted = false;
+
+ALTER TABLE live_room_kicks ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
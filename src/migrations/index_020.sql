@@ -0,0 +1,108 @@
+-- =====================================================
+-- CONSENSUS RESOLUTION MIGRATION (index_020.sql)
+-- =====================================================
+-- This migration adds juror-based (CONSENSUS) resolution:
+-- 1. Resolver registry and market resolver assignments
+-- 2. CONSENSUS resolution mode and per-market resolution config
+-- 3. Juror commit/reveal votes
+-- 4. Consensus tallies (hashed resolution trace per option)
+-- =====================================================
+
+-- =====================================================
+-- 1. RESOLVERS
+-- =====================================================
+-- bond_balance is the resolver's free bond (micro-USDC). Bond committed
+-- to a market is moved out of bond_balance into market_resolvers and
+-- returned, minus any slashing, once the market is resolved.
+
+CREATE TABLE IF NOT EXISTS resolvers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('PLATFORM', 'USER', 'WITNESS', 'CONSENSUS')),
+  name VARCHAR(255) NOT NULL,
+  public_key VARCHAR(255),
+  user_id UUID UNIQUE REFERENCES users(id) ON DELETE SET NULL,
+  bond_balance BIGINT NOT NULL DEFAULT 0 CHECK (bond_balance >= 0),
+  reputation_score INT NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_resolvers_type ON resolvers(type, reputation_score DESC);
+
+CREATE TABLE IF NOT EXISTS market_resolvers (
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  resolver_id UUID NOT NULL REFERENCES resolvers(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('AUTHORITY', 'WITNESS', 'JUROR')),
+  bond_committed BIGINT NOT NULL DEFAULT 0 CHECK (bond_committed >= 0),
+  bond_slashed BIGINT NOT NULL DEFAULT 0 CHECK (bond_slashed >= 0),
+  released_at BIGINT, -- NULL while the bond is locked
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  PRIMARY KEY (market_id, resolver_id),
+  CHECK (bond_slashed <= bond_committed)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_resolvers_resolver ON market_resolvers(resolver_id);
+
+CREATE INDEX IF NOT EXISTS idx_market_resolvers_locked
+ON market_resolvers(market_id)
+WHERE released_at IS NULL;
+
+-- =====================================================
+-- 2. CONSENSUS RESOLUTION MODE
+-- =====================================================
+
+ALTER TABLE markets DROP CONSTRAINT IF EXISTS markets_resolution_mode_check;
+ALTER TABLE markets
+ADD CONSTRAINT markets_resolution_mode_check
+CHECK (resolution_mode IN ('ORACLE', 'AUTHORITY', 'OPINION', 'CONSENSUS'));
+
+-- Mode-specific settings (quorumSize, minJurors, consensusThreshold, ...)
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS resolution_config JSONB;
+
+-- =====================================================
+-- 3. JUROR VOTES
+-- =====================================================
+-- Jurors vote YES/NO on each option. During the commit phase only
+-- sha256(option_id:user_id:outcome:salt) is stored; the outcome is
+-- filled in when the juror reveals it.
+
+CREATE TABLE IF NOT EXISTS juror_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES market_options(id) ON DELETE CASCADE,
+  resolver_id UUID NOT NULL REFERENCES resolvers(id) ON DELETE CASCADE,
+  commitment VARCHAR(64) NOT NULL,
+  revealed_outcome TEXT CHECK (revealed_outcome IN ('YES', 'NO')),
+  committed_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  revealed_at BIGINT,
+  UNIQUE(option_id, resolver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_juror_votes_market ON juror_votes(market_id);
+
+-- =====================================================
+-- 4. CONSENSUS TALLIES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS consensus_tallies (
+  option_id UUID PRIMARY KEY REFERENCES market_options(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('resolved', 'failed')),
+  final_outcome TEXT CHECK (final_outcome IN ('YES', 'NO')),
+  resolution_trace JSONB,
+  canonical_hash TEXT UNIQUE,
+  failure_reason TEXT,
+  total_slashed BIGINT NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_consensus_tallies_market ON consensus_tallies(market_id);
+
+ALTER TABLE resolvers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE market_resolvers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE juror_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consensus_tallies ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
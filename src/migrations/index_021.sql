@@ -0,0 +1,54 @@
+-- =====================================================
+-- RESOLUTION COMMIT-REVEAL MIGRATION (index_021.sql)
+-- =====================================================
+-- This migration adds commit-reveal submissions for
+-- OPINION mode markets:
+-- 1. Option reference on resolution submissions
+-- 2. Bonded submission commitments
+-- =====================================================
+
+-- =====================================================
+-- 1. SUBMISSION OPTION
+-- =====================================================
+-- Revealed submissions record the option they vote on and
+-- outcome YES/NO.
+
+ALTER TABLE resolution_submissions
+ADD COLUMN IF NOT EXISTS option_id UUID REFERENCES market_options(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_resolution_submissions_option
+ON resolution_submissions(option_id)
+WHERE option_id IS NOT NULL;
+
+-- =====================================================
+-- 2. COMMITMENTS
+-- =====================================================
+-- During the commit phase a submitter posts
+-- sha256(option_id:user_id:outcome:salt) and a bond from their wallet.
+-- Revealing a matching outcome and salt creates the resolution
+-- submission and refunds the bond; unrevealed commitments are
+-- forfeited once the reveal phase ends.
+
+CREATE TABLE IF NOT EXISTS resolution_commitments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES market_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  commitment VARCHAR(64) NOT NULL,
+  bond_amount BIGINT NOT NULL DEFAULT 0 CHECK (bond_amount >= 0), -- micro-USDC
+  status TEXT NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'revealed', 'forfeited')),
+  submission_id UUID REFERENCES resolution_submissions(id) ON DELETE SET NULL,
+  committed_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  revealed_at BIGINT,
+  forfeited_at BIGINT,
+  UNIQUE(option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resolution_commitments_market
+ON resolution_commitments(market_id, status);
+
+ALTER TABLE resolution_commitments ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,84 @@
+-- =====================================================
+-- RESOLVER REPUTATION MIGRATION (index_022.sql)
+-- =====================================================
+-- This migration adds resolver accountability:
+-- 1. Resolver bond ledger
+-- 2. Reputation events
+-- 3. Option reputation settlement marker
+-- =====================================================
+
+-- =====================================================
+-- 1. BOND LEDGER
+-- =====================================================
+-- Every change to a resolver's bond is recorded here:
+-- deposit/withdraw move USDC between wallet and bond,
+-- lock/release move bond in and out of a market, and
+-- slash takes locked bond for the protocol.
+
+CREATE TABLE IF NOT EXISTS resolver_bond_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resolver_id UUID NOT NULL REFERENCES resolvers(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('deposit', 'withdraw', 'lock', 'release', 'slash')),
+  amount BIGINT NOT NULL CHECK (amount > 0), -- micro-USDC
+  bond_balance_after BIGINT NOT NULL, -- free bond balance after the entry
+  market_id UUID REFERENCES markets(id) ON DELETE SET NULL,
+  option_id UUID REFERENCES market_options(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_resolver_bond_ledger_resolver
+ON resolver_bond_ledger(resolver_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_resolver_bond_ledger_market
+ON resolver_bond_ledger(market_id)
+WHERE market_id IS NOT NULL;
+
+ALTER TABLE resolver_bond_ledger ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. REPUTATION EVENTS
+-- =====================================================
+-- A resolver gains reputation for each option resolution whose
+-- dispute window closes without an upheld dispute, and loses it
+-- when an admin upholds a dispute against the resolution.
+
+CREATE TABLE IF NOT EXISTS resolver_reputation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resolver_id UUID NOT NULL REFERENCES resolvers(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES market_options(id) ON DELETE CASCADE,
+  dispute_id UUID REFERENCES disputes(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('undisputed', 'overturned')),
+  delta INTEGER NOT NULL,
+  score_after INTEGER NOT NULL,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  UNIQUE(resolver_id, option_id, event_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resolver_reputation_events_resolver
+ON resolver_reputation_events(resolver_id, created_at DESC);
+
+ALTER TABLE resolver_reputation_events ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 3. OPTION SETTLEMENT MARKER
+-- =====================================================
+-- Set once an option resolution has been scored (undisputed or
+-- overturned) so it is only scored once.
+
+ALTER TABLE market_options
+ADD COLUMN IF NOT EXISTS reputation_settled_at BIGINT;
+
+-- Resolutions made before this migration are not scored retroactively
+UPDATE market_options
+SET reputation_settled_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+WHERE is_resolved = TRUE AND reputation_settled_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_market_options_reputation_pending
+ON market_options(dispute_deadline)
+WHERE is_resolved = TRUE AND reputation_settled_at IS NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
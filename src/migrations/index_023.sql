@@ -0,0 +1,53 @@
+-- =====================================================
+-- SCALAR MARKETS MIGRATION (index_023.sql)
+-- =====================================================
+-- This migration adds scalar (numeric-range) markets:
+-- 1. Market range columns
+-- 2. Resolved value on options
+-- 3. Numeric outcome on resolution submissions
+-- =====================================================
+
+-- =====================================================
+-- 1. MARKET RANGE
+-- =====================================================
+-- A scalar market has one option where YES is LONG and NO is
+-- SHORT on a value between the lower and upper bound.
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS is_scalar BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS scalar_lower_bound NUMERIC(38, 8),
+ADD COLUMN IF NOT EXISTS scalar_upper_bound NUMERIC(38, 8),
+ADD COLUMN IF NOT EXISTS scalar_unit VARCHAR(20);
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_scalar_bounds_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_scalar_bounds_check CHECK (
+  is_scalar = FALSE
+  OR (
+    scalar_lower_bound IS NOT NULL
+    AND scalar_upper_bound IS NOT NULL
+    AND scalar_upper_bound > scalar_lower_bound
+  )
+);
+
+-- =====================================================
+-- 2. RESOLVED VALUE
+-- =====================================================
+-- LONG shares pay (value - lower) / (upper - lower), clamped to
+-- [0, 1]; SHORT shares pay the remainder.
+
+ALTER TABLE market_options
+ADD COLUMN IF NOT EXISTS resolved_value NUMERIC(38, 8);
+
+-- =====================================================
+-- 3. NUMERIC SUBMISSIONS
+-- =====================================================
+
+ALTER TABLE resolution_submissions
+ADD COLUMN IF NOT EXISTS numeric_outcome NUMERIC(38, 8);
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
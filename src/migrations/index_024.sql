@@ -0,0 +1,30 @@
+-- =====================================================
+-- EXCLUSIVE MARKETS MIGRATION (index_024.sql)
+-- =====================================================
+-- This migration adds mutually exclusive multi-outcome markets:
+-- 1. Exclusive market flag
+-- =====================================================
+
+-- =====================================================
+-- 1. EXCLUSIVE MARKETS
+-- =====================================================
+-- The options of an exclusive market are outcomes of one event.
+-- They share a single LMSR cost function C(q) = b * ln(sum e^(q_i/b)),
+-- so their prices sum to 1, only YES shares are traded, and exactly
+-- one option resolves YES.
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS is_exclusive BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_exclusive_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_exclusive_check CHECK (
+  is_exclusive = FALSE
+  OR (is_binary = FALSE AND is_scalar = FALSE)
+);
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
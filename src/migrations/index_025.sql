@@ -0,0 +1,36 @@
+-- =====================================================
+-- ADMIN MFA MIGRATION (index_025.sql)
+-- =====================================================
+-- This migration completes admin multi-factor authentication
+-- on top of the tables created in index_008.sql:
+-- 1. TOTP replay protection
+-- 2. MFA-bound admin sessions
+-- =====================================================
+
+-- =====================================================
+-- 1. TOTP REPLAY PROTECTION
+-- =====================================================
+-- last_used_step is the most recent 30-second TOTP time step
+-- accepted for the admin; codes from that step or earlier are
+-- rejected so a code can't be used twice.
+-- backup_codes holds SHA-256 hashes of single-use recovery codes.
+
+ALTER TABLE admin_mfa_secrets
+ADD COLUMN IF NOT EXISTS last_used_step BIGINT,
+ADD COLUMN IF NOT EXISTS enabled_at BIGINT;
+
+-- =====================================================
+-- 2. MFA-BOUND SESSIONS
+-- =====================================================
+-- session_token stores the SHA-256 hash of the token handed to
+-- the admin. A session is only issued after a successful MFA
+-- check; last_step_up_at records the latest step-up code used
+-- with it for a sensitive action.
+
+ALTER TABLE admin_sessions
+ADD COLUMN IF NOT EXISTS mfa_verified_at BIGINT,
+ADD COLUMN IF NOT EXISTS last_step_up_at BIGINT;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
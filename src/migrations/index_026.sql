@@ -0,0 +1,73 @@
+-- =====================================================
+-- ADMIN AUDIT LOG MIGRATION (index_026.sql)
+-- =====================================================
+-- This migration makes admin_audit_log (index_008.sql) the
+-- single, tamper-evident record of admin mutations:
+-- 1. Before/after snapshots and free-form targets
+-- 2. Hash chain
+-- 3. Append-only enforcement
+-- =====================================================
+
+-- =====================================================
+-- 1. SNAPSHOTS AND TARGETS
+-- =====================================================
+-- Targets are not always UUIDs (settings groups, Circle wallet
+-- ids), so target_id becomes TEXT.
+
+ALTER TABLE admin_audit_log
+ADD COLUMN IF NOT EXISTS before_state JSONB,
+ADD COLUMN IF NOT EXISTS after_state JSONB;
+
+ALTER TABLE admin_audit_log
+ALTER COLUMN target_id TYPE TEXT USING target_id::TEXT;
+
+-- =====================================================
+-- 2. HASH CHAIN
+-- =====================================================
+-- Each entry stores the hash of the previous entry and a SHA-256
+-- hash over its own contents plus prev_hash. Editing, deleting or
+-- reordering any entry breaks every hash after it.
+-- sequence is gapless and assigned by the audit service under an
+-- advisory lock; the unique index stops the chain from forking.
+
+ALTER TABLE admin_audit_log
+ADD COLUMN IF NOT EXISTS sequence BIGINT,
+ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_audit_log_sequence
+ON admin_audit_log(sequence);
+
+-- =====================================================
+-- 3. APPEND-ONLY ENFORCEMENT
+-- =====================================================
+-- Audit entries are never updated or deleted. Admin users that
+-- have audit entries can no longer be hard-deleted, and session_id
+-- is kept as a plain reference so that revoking or expiring an
+-- admin session doesn't rewrite the entries made with it.
+
+ALTER TABLE admin_audit_log
+DROP CONSTRAINT IF EXISTS admin_audit_log_session_id_fkey;
+
+ALTER TABLE admin_audit_log
+DROP CONSTRAINT IF EXISTS admin_audit_log_admin_user_id_fkey;
+
+ALTER TABLE admin_audit_log
+ADD CONSTRAINT admin_audit_log_admin_user_id_fkey
+FOREIGN KEY (admin_user_id) REFERENCES users(id);
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+BEFORE UPDATE OR DELETE ON admin_audit_log
+FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
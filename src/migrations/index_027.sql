@@ -0,0 +1,55 @@
+-- =====================================================
+-- MARKET LIFECYCLE MIGRATION (index_027.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Market status history
+-- 2. Resolution deadlines and escalation tracking
+-- =====================================================
+
+-- =====================================================
+-- 1. MARKET STATUS HISTORY
+-- =====================================================
+-- One row per market status transition
+-- (OPEN -> RESOLVING -> RESOLVED, disputes, ...).
+-- sequence numbers a market's transitions in order (several can
+-- happen within the same second); transitions hold the market lock.
+-- actor_id is NULL for transitions made by the lifecycle scheduler.
+
+CREATE TABLE IF NOT EXISTS market_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  sequence INT NOT NULL,
+  from_status VARCHAR(20) NOT NULL,
+  to_status VARCHAR(20) NOT NULL,
+  reason TEXT NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  metadata JSONB,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  UNIQUE(market_id, sequence)
+);
+
+ALTER TABLE market_status_history ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. RESOLUTION DEADLINES AND ESCALATION
+-- =====================================================
+-- trading_closed_at: when the scheduler closed trading at expiration
+-- resolution_deadline: markets still unresolved after this are
+-- escalated to platform admins (escalated_at)
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS trading_closed_at BIGINT,
+ADD COLUMN IF NOT EXISTS resolution_deadline BIGINT,
+ADD COLUMN IF NOT EXISTS escalated_at BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_markets_lifecycle_expiration
+ON markets(expiration_timestamp)
+WHERE is_resolved = FALSE AND trading_closed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_markets_resolution_deadline
+ON markets(resolution_deadline)
+WHERE is_resolved = FALSE AND escalated_at IS NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,68 @@
+-- =====================================================
+-- MARKET VOID MIGRATION (index_028.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. VOIDED market status and void tracking on markets
+-- 2. Market void refunds
+-- =====================================================
+
+-- =====================================================
+-- 1. VOIDED MARKETS
+-- =====================================================
+-- A voided market is cancelled and unwound: holders get back their
+-- net cost basis and LPs their share of the pool. is_resolved is also
+-- set so the market drops out of trading and resolution.
+-- void_fee_policy: 'retain' (trading fees stay with the platform,
+-- creator and LPs) or 'refund' (fees paid on buys are refunded too)
+
+ALTER TABLE markets DROP CONSTRAINT IF EXISTS markets_status_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_status_check
+CHECK (status IN ('OPEN', 'RESOLVING', 'RESOLVED', 'DISPUTED', 'VOIDED'));
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS is_voided BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS voided_at BIGINT,
+ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS void_reason TEXT,
+ADD COLUMN IF NOT EXISTS void_fee_policy TEXT CHECK (void_fee_policy IN ('retain', 'refund'));
+
+CREATE INDEX IF NOT EXISTS idx_markets_voided
+ON markets(voided_at DESC)
+WHERE is_voided = TRUE;
+
+-- =====================================================
+-- 2. MARKET VOID REFUNDS
+-- =====================================================
+-- One row per refunded position (refund_type 'position', per option)
+-- and per refunded LP position (refund_type 'liquidity').
+-- cost_basis: the position's net cost, or the LP's deposited amount
+-- amount: refunded from the pool (less than cost_basis if the pool
+-- could not cover every holder in full)
+-- fee_refund: trading fees refunded under the 'refund' fee policy
+
+CREATE TABLE IF NOT EXISTS market_void_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  option_id UUID REFERENCES market_options(id) ON DELETE CASCADE,
+  refund_type VARCHAR(20) NOT NULL CHECK (refund_type IN ('position', 'liquidity')),
+  shares BIGINT NOT NULL DEFAULT 0,
+  cost_basis BIGINT NOT NULL DEFAULT 0,
+  amount BIGINT NOT NULL DEFAULT 0,
+  fee_refund BIGINT NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_void_refunds_market
+ON market_void_refunds(market_id);
+
+CREATE INDEX IF NOT EXISTS idx_market_void_refunds_user
+ON market_void_refunds(user_id, created_at DESC);
+
+ALTER TABLE market_void_refunds ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,174 @@
+-- =====================================================
+-- DOUBLE-ENTRY LEDGER MIGRATION (index_029.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Ledger transactions and entries
+-- 2. Ledger reconciliation runs
+-- 3. Opening balances carried over from current state
+-- =====================================================
+
+-- =====================================================
+-- 1. LEDGER
+-- =====================================================
+-- Every movement of USDC between balances is one ledger transaction
+-- whose debit entries sum to its credit entries (see utils/ledger.ts).
+-- account_type / account_id: the account the entry posts to. account_id
+-- is the user, market or resolver id, NULL for platform-wide accounts.
+-- amount: micro-USDC, always positive; direction gives the side.
+-- reference_type / reference_id: what caused the movement (trade,
+-- withdrawal, deposit, ...)
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_type VARCHAR(50) NOT NULL,
+  reference_type VARCHAR(50),
+  reference_id TEXT,
+  description TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_type
+ON ledger_transactions(transaction_type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_reference
+ON ledger_transactions(reference_type, reference_id);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id) ON DELETE RESTRICT,
+  account_type VARCHAR(30) NOT NULL CHECK (account_type IN (
+    'user', 'market_pool', 'lp_fee_pool', 'creator_fees', 'protocol_fees',
+    'referral_rewards', 'escrow', 'resolver_bond', 'hot_wallet', 'adjustments'
+  )),
+  account_id UUID,
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction
+ON ledger_entries(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account
+ON ledger_entries(account_type, account_id, created_at DESC);
+
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. LEDGER RECONCILIATIONS
+-- =====================================================
+-- One row per reconciliation run. mismatches holds every account whose
+-- ledger balance differs from the stored balance, plus any unbalanced
+-- transactions.
+
+CREATE TABLE IF NOT EXISTS ledger_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('balanced', 'mismatched')),
+  accounts_checked INT NOT NULL DEFAULT 0,
+  mismatch_count INT NOT NULL DEFAULT 0,
+  mismatches JSONB NOT NULL DEFAULT '[]',
+  totals JSONB NOT NULL DEFAULT '{}',
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for the scheduled job
+  started_at BIGINT NOT NULL,
+  completed_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_reconciliations_completed
+ON ledger_reconciliations(completed_at DESC);
+
+ALTER TABLE ledger_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 3. OPENING BALANCES
+-- =====================================================
+-- Balances that existed before the ledger are posted once, as an
+-- 'opening_balance' transaction against the hot wallet, so the ledger
+-- reconciles from the start. moodring.creator_fees_collected is a
+-- running total rather than a balance, so its value at this point is
+-- kept in the transaction's metadata instead.
+
+DO $$
+DECLARE
+  opening_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM ledger_transactions WHERE transaction_type = 'opening_balance'
+  ) THEN
+    INSERT INTO ledger_transactions (transaction_type, description, metadata)
+    VALUES (
+      'opening_balance',
+      'Balances carried over when the ledger was introduced',
+      jsonb_build_object(
+        'creator_fees_collected',
+        COALESCE((SELECT creator_fees_collected FROM moodring LIMIT 1), 0)
+      )
+    )
+    RETURNING id INTO opening_id;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'user', user_id, 'credit', balance_usdc
+    FROM wallets
+    WHERE balance_usdc > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'market_pool', id, 'credit', shared_pool_liquidity
+    FROM markets
+    WHERE shared_pool_liquidity > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'lp_fee_pool', id, 'credit', accumulated_lp_fees
+    FROM markets
+    WHERE accumulated_lp_fees > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'creator_fees', id, 'credit', creator_fees_collected
+    FROM markets
+    WHERE creator_fees_collected > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'protocol_fees', NULL, 'credit', current_protocol_fees_balance
+    FROM moodring
+    WHERE current_protocol_fees_balance > 0
+    LIMIT 1;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'referral_rewards', NULL, 'credit', SUM(reward_amount)
+    FROM referral_rewards
+    WHERE payout_id IS NULL
+    HAVING SUM(reward_amount) > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'escrow', user_id, 'credit', SUM(amount)
+    FROM (
+      SELECT user_id, escrow_amount AS amount FROM limit_orders WHERE status = 'open'
+      UNION ALL
+      SELECT user_id, bond_amount AS amount FROM resolution_commitments WHERE status = 'committed'
+    ) held
+    GROUP BY user_id
+    HAVING SUM(amount) > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'resolver_bond', r.id, 'credit',
+           r.bond_balance + COALESCE(locked.amount, 0)
+    FROM resolvers r
+    LEFT JOIN (
+      SELECT resolver_id, SUM(bond_committed - bond_slashed) AS amount
+      FROM market_resolvers
+      WHERE released_at IS NULL
+      GROUP BY resolver_id
+    ) locked ON locked.resolver_id = r.id
+    WHERE r.bond_balance + COALESCE(locked.amount, 0) > 0;
+
+    INSERT INTO ledger_entries (transaction_id, account_type, account_id, direction, amount)
+    SELECT opening_id, 'hot_wallet', NULL, 'debit', SUM(amount)
+    FROM ledger_entries
+    WHERE transaction_id = opening_id
+    HAVING SUM(amount) > 0;
+  END IF;
+END $$;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
@@ -0,0 +1,44 @@
+-- =====================================================
+-- PORTFOLIO SNAPSHOTS MIGRATION (index_030.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Hourly and daily portfolio equity snapshots per user
+-- =====================================================
+
+-- =====================================================
+-- 1. PORTFOLIO SNAPSHOTS
+-- =====================================================
+-- One row per user, interval and bucket, holding the portfolio's value
+-- at the end of the bucket (the snapshot job overwrites the current
+-- bucket each run). All amounts are micro-USDC.
+-- positions_value: open positions valued at their latest price snapshot
+-- (winning shares at 1 USDC once an option resolves)
+-- liquidity_value: LP shares valued at the pool's current share value
+-- cost_basis: total cost of the open positions
+-- realized_pnl / unrealized_pnl: from user_positions, and
+-- positions_value - cost_basis
+-- net_deposits: USDC deposited minus USDC withdrawn, so charts can tell
+-- performance apart from money moved in and out
+
+CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  interval_type VARCHAR(10) NOT NULL CHECK (interval_type IN ('1h', '1d')),
+  bucket_start BIGINT NOT NULL,
+  cash_balance BIGINT NOT NULL DEFAULT 0,
+  positions_value BIGINT NOT NULL DEFAULT 0,
+  liquidity_value BIGINT NOT NULL DEFAULT 0,
+  total_value BIGINT NOT NULL DEFAULT 0,
+  cost_basis BIGINT NOT NULL DEFAULT 0,
+  realized_pnl BIGINT NOT NULL DEFAULT 0,
+  unrealized_pnl BIGINT NOT NULL DEFAULT 0,
+  net_deposits BIGINT NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  UNIQUE(user_id, interval_type, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_bucket
+ON portfolio_snapshots(interval_type, bucket_start);
+
+ALTER TABLE portfolio_snapshots ENABLE ROW LEVEL SECURITY;
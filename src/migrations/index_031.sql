@@ -0,0 +1,56 @@
+-- =====================================================
+-- MULTI-TOKEN DEPOSITS MIGRATION (index_031.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. The original token and conversion rate of each deposit
+-- 2. Per-mint signature cursors for the deposit listener
+-- =====================================================
+
+-- =====================================================
+-- 1. DEPOSIT TOKEN DETAILS
+-- =====================================================
+-- Deposits can be made in any allowed SPL token (see
+-- utils/depositTokens.ts). amount stays the micro-USDC credited to the
+-- wallet (0 for a held deposit) and token_symbol the token received.
+-- token_mint / token_amount / token_decimals: what arrived on chain, in
+-- the token's base units
+-- conversion_rate: USDC per token used to credit it (1 for USDC)
+-- price_source: the price source that quoted the rate
+-- hold_reason: why a deposit wasn't credited (status 'held'), e.g. the
+-- quoted rate was outside the token's slippage limit
+-- One deposit is recorded per transaction signature and token mint, since
+-- a single transaction can send several allowed tokens to a wallet.
+
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS token_mint VARCHAR(64);
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS token_amount NUMERIC(40, 0);
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS token_decimals INT;
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS conversion_rate NUMERIC(24, 12);
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS price_source VARCHAR(50);
+ALTER TABLE wallet_deposits ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+
+-- Deposits before this migration were all USDC, credited one to one
+UPDATE wallet_deposits
+SET token_amount = amount, token_decimals = 6, conversion_rate = 1
+WHERE token_symbol = 'USDC' AND token_amount IS NULL;
+
+ALTER TABLE wallet_deposits DROP CONSTRAINT IF EXISTS wallet_deposits_signature_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_deposits_signature_mint
+  ON wallet_deposits(signature, token_mint);
+
+-- =====================================================
+-- 2. TOKEN CURSORS
+-- =====================================================
+-- Each token has its own token account per wallet, so the listener
+-- tracks the last processed signature per wallet and mint. The base token
+-- (USDC) keeps using wallets.last_signature.
+
+CREATE TABLE IF NOT EXISTS wallet_token_cursors (
+  wallet_id UUID NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+  token_mint VARCHAR(64) NOT NULL,
+  last_signature VARCHAR(128) NOT NULL,
+  last_signature_slot BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  PRIMARY KEY (wallet_id, token_mint)
+);
+
+ALTER TABLE wallet_token_cursors ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,53 @@
+-- =====================================================
+-- DEPOSIT WEBHOOKS MIGRATION (index_032.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Received deposit webhook events (replay protection)
+-- 2. A dead-letter table for webhook payloads that couldn't be parsed
+-- =====================================================
+
+-- =====================================================
+-- 1. DEPOSIT WEBHOOK EVENTS
+-- =====================================================
+-- One row per accepted webhook event (see utils/depositWebhook.ts). An
+-- event id is only accepted once, so a replayed request is ignored.
+-- event_id: the provider's id, or sha256:<body hash> without one
+-- transaction_count: transactions in the payload
+-- status: 'processing' while its deposits are being credited, then
+-- 'processed' (an event whose processing failed is deleted so the
+-- provider's retry is accepted)
+
+CREATE TABLE IF NOT EXISTS deposit_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id VARCHAR(160) NOT NULL UNIQUE,
+  transaction_count INT NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed')),
+  received_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  processed_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_webhook_events_received_at
+  ON deposit_webhook_events(received_at);
+
+ALTER TABLE deposit_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. DEPOSIT WEBHOOK DEAD LETTERS
+-- =====================================================
+-- Authenticated payloads (or single transactions in them) that couldn't
+-- be parsed, kept for investigation. Deposits they referred to are still
+-- picked up by the listener's polling backstop.
+
+CREATE TABLE IF NOT EXISTS deposit_webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id VARCHAR(160),
+  payload TEXT NOT NULL,
+  error TEXT NOT NULL,
+  received_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_webhook_dead_letters_received_at
+  ON deposit_webhook_dead_letters(received_at DESC);
+
+ALTER TABLE deposit_webhook_dead_letters ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,73 @@
+-- =====================================================
+-- TRENDING SCORES MIGRATION (index_033.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Trending score settings on moodring
+-- 2. Per-market trending scores with their breakdown
+-- =====================================================
+
+-- =====================================================
+-- 1. TRENDING SETTINGS
+-- =====================================================
+-- How markets.trending_score is computed (see utils/trending.ts).
+-- trending_window_hours: how far back activity counts
+-- trending_half_life_hours: volume, comments and watchlist adds count
+-- half as much every half-life
+-- trending_*_weight: weight of each signal, 100 = 1x, 0 turns it off
+
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_window_hours INT NOT NULL DEFAULT 24;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_half_life_hours INT NOT NULL DEFAULT 6;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_volume_weight INT NOT NULL DEFAULT 100;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_traders_weight INT NOT NULL DEFAULT 100;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_price_weight INT NOT NULL DEFAULT 100;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_comment_weight INT NOT NULL DEFAULT 50;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS trending_watchlist_weight INT NOT NULL DEFAULT 50;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_moodring_trending_settings'
+  ) THEN
+    ALTER TABLE moodring
+    ADD CONSTRAINT chk_moodring_trending_settings
+    CHECK (
+      trending_window_hours BETWEEN 1 AND 720
+      AND trending_half_life_hours BETWEEN 1 AND 720
+      AND trending_volume_weight BETWEEN 0 AND 10000
+      AND trending_traders_weight BETWEEN 0 AND 10000
+      AND trending_price_weight BETWEEN 0 AND 10000
+      AND trending_comment_weight BETWEEN 0 AND 10000
+      AND trending_watchlist_weight BETWEEN 0 AND 10000
+    );
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. MARKET TRENDING SCORES
+-- =====================================================
+-- The latest score of each open market, written by the trending scorer
+-- alongside markets.trending_score. breakdown holds each signal's value,
+-- weight and points so admins can see why a market is trending.
+-- rank: 1 = most trending, NULL for markets without activity
+-- previous_rank: rank in the scorer's previous run
+
+CREATE TABLE IF NOT EXISTS market_trending_scores (
+  market_id UUID PRIMARY KEY REFERENCES markets(id) ON DELETE CASCADE,
+  score BIGINT NOT NULL DEFAULT 0,
+  rank INT,
+  previous_rank INT,
+  breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
+  computed_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_trending_scores_rank
+  ON market_trending_scores(rank) WHERE rank IS NOT NULL;
+
+ALTER TABLE market_trending_scores ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,73 @@
+-- =====================================================
+-- TRADING HALTS MIGRATION (index_034.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Automatic halt settings on moodring
+-- 2. Per-market and per-option trading halts
+-- =====================================================
+
+-- =====================================================
+-- 1. HALT SETTINGS
+-- =====================================================
+-- volatility_halt_enabled: halt an option when a trade moves its price
+-- past max_market_volatility_threshold
+-- volatility_halt_seconds: how long a volatility halt lasts before
+-- trading resumes on its own
+-- liquidity_halt_enabled: halt a market when the liquidity monitor raises
+-- a critical alert; these halts stay until an admin resumes trading
+
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS volatility_halt_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS volatility_halt_seconds INT NOT NULL DEFAULT 900;
+ALTER TABLE moodring
+ADD COLUMN IF NOT EXISTS liquidity_halt_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_moodring_volatility_halt_seconds'
+  ) THEN
+    ALTER TABLE moodring
+    ADD CONSTRAINT chk_moodring_volatility_halt_seconds
+    CHECK (volatility_halt_seconds BETWEEN 60 AND 86400);
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. TRADING HALTS
+-- =====================================================
+-- A halt stops buys and sells on a whole market (option_id NULL) or on one
+-- option. Claims and LP withdrawals are not affected.
+-- source: 'admin', 'volatility' or 'liquidity'
+-- resume_at: when trading resumes on its own, NULL = until resumed by an admin
+-- circuit_breaker_state (index_008) tracks whether each automatic source
+-- currently has a halt open
+
+CREATE TABLE IF NOT EXISTS trading_halts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  option_id UUID REFERENCES market_options(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('admin', 'volatility', 'liquidity')),
+  reason TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  halted_by UUID REFERENCES users(id),
+  resume_at BIGINT,
+  resumed_at BIGINT,
+  resumed_by UUID REFERENCES users(id),
+  metadata JSONB,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+-- At most one active halt per market and per option
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trading_halts_active_market
+  ON trading_halts(market_id) WHERE is_active = TRUE AND option_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trading_halts_active_option
+  ON trading_halts(option_id) WHERE is_active = TRUE AND option_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trading_halts_resume_at
+  ON trading_halts(resume_at) WHERE is_active = TRUE AND resume_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trading_halts_market
+  ON trading_halts(market_id, created_at DESC);
+
+ALTER TABLE trading_halts ENABLE ROW LEVEL SECURITY;
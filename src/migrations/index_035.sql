@@ -0,0 +1,42 @@
+-- =====================================================
+-- RISK RULES MIGRATION (index_035.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Admin settings for the trade risk rules
+-- 2. Indexes for withdrawal holds and the rules' trade lookups
+-- =====================================================
+
+-- =====================================================
+-- 1. RISK RULE SETTINGS
+-- =====================================================
+-- One row per rule whose settings an admin changed; rules without a row
+-- use their defaults (see services/riskRulesEngine.ts).
+-- action: 'flag', 'hold' or 'block' (see utils/riskRules.ts)
+-- params: numeric rule parameters, e.g. {"window_seconds": 600}
+
+CREATE TABLE IF NOT EXISTS risk_rules (
+  name VARCHAR(50) PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  action TEXT NOT NULL CHECK (action IN ('flag', 'hold', 'block')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
+);
+
+ALTER TABLE risk_rules ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+-- Trades flagged with the 'hold' action record it in
+-- suspicious_trades.detection_metadata; the user can't withdraw while
+-- any of them is pending review. The rules look up recent trades by
+-- option and user.
+
+CREATE INDEX IF NOT EXISTS idx_suspicious_trades_pending_holds
+  ON suspicious_trades(user_id)
+  WHERE review_status = 'pending' AND detection_metadata->>'action' = 'hold';
+
+CREATE INDEX IF NOT EXISTS idx_trades_option_user_created
+  ON trades(option_id, user_id, created_at DESC);
@@ -0,0 +1,65 @@
+-- =====================================================
+-- ACCOUNT LINKING MIGRATION (index_036.sql)
+-- =====================================================
+-- This migration adds:
+-- 1. Last-seen tracking on device fingerprints
+-- 2. Login IP addresses per user
+-- 3. Links between accounts that share a device, IP or withdrawal
+--    destination
+-- =====================================================
+
+-- =====================================================
+-- 1. DEVICE FINGERPRINTS
+-- =====================================================
+-- user_device_fingerprints (index_001) is written on every magic-link and
+-- wallet login; ip_address and user_agent hold the latest login's values.
+
+ALTER TABLE user_device_fingerprints
+ADD COLUMN IF NOT EXISTS last_seen_at BIGINT NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- 2. LOGIN IP ADDRESSES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS user_ip_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ip_address INET NOT NULL,
+  login_count INT NOT NULL DEFAULT 1,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  last_seen_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  UNIQUE(user_id, ip_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_ip_addresses_ip
+  ON user_ip_addresses(ip_address);
+
+ALTER TABLE user_ip_addresses ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 3. ACCOUNT LINKS
+-- =====================================================
+-- One row per pair of accounts and shared value, stored once with the
+-- lower user id first.
+-- link_type: 'device' (fingerprint hash), 'ip' (login IP) or
+-- 'withdrawal_destination' (an address both withdrew to, or one withdrew
+-- to the other's wallet)
+
+CREATE TABLE IF NOT EXISTS account_links (
+  user_a_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_b_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('device', 'ip', 'withdrawal_destination')),
+  link_value TEXT NOT NULL,
+  created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  last_seen_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+  PRIMARY KEY (user_a_id, user_b_id, link_type, link_value),
+  CHECK (user_a_id < user_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_links_user_b
+  ON account_links(user_b_id);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_destination_address
+  ON withdrawals(destination_address);
+
+ALTER TABLE account_links ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,239 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { AccountLinkEdge, AccountLinkType } from "../utils/accountLinks";
+
+type QueryClient = Pool | PoolClient;
+
+export interface UserDevice {
+  id: UUID;
+  user_id: UUID;
+  fingerprint_hash: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: number;
+  last_seen_at: number;
+}
+
+export interface UserIpAddress {
+  id: UUID;
+  user_id: UUID;
+  ip_address: string;
+  login_count: number;
+  created_at: number;
+  last_seen_at: number;
+}
+
+const toEdge = (row: any): AccountLinkEdge => ({
+  user_id: row.user_a_id,
+  linked_user_id: row.user_b_id,
+  link_type: row.link_type,
+  link_value: row.link_value,
+  last_seen_at: Number(row.last_seen_at),
+});
+
+export class UserDeviceModel {
+  /**
+   * Record a login from a device, keeping its latest IP and user agent
+   */
+  static async record(
+    userId: UUID | string,
+    fingerprintHash: string,
+    ipAddress: string | null,
+    userAgent: string | null,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO user_device_fingerprints (
+         user_id, fingerprint_hash, ip_address, user_agent,
+         created_at, last_seen_at
+       )
+       VALUES (
+         $1, $2, $3, $4,
+         EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
+       )
+       ON CONFLICT (user_id, fingerprint_hash) DO UPDATE SET
+         ip_address = COALESCE(EXCLUDED.ip_address, user_device_fingerprints.ip_address),
+         user_agent = COALESCE(EXCLUDED.user_agent, user_device_fingerprints.user_agent),
+         last_seen_at = EXCLUDED.last_seen_at`,
+      [userId, fingerprintHash, ipAddress, userAgent]
+    );
+  }
+
+  static async findByUserId(
+    userId: UUID | string,
+    client?: QueryClient
+  ): Promise<UserDevice[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM user_device_fingerprints
+       WHERE user_id = $1
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      created_at: Number(row.created_at),
+      last_seen_at: Number(row.last_seen_at),
+    }));
+  }
+
+  /**
+   * Other users seen on a device, up to limit
+   */
+  static async findOtherUserIds(
+    fingerprintHash: string,
+    excludeUserId: UUID | string,
+    limit: number,
+    client?: QueryClient
+  ): Promise<string[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT user_id FROM user_device_fingerprints
+       WHERE fingerprint_hash = $1 AND user_id <> $2
+       LIMIT $3`,
+      [fingerprintHash, excludeUserId, limit]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+}
+
+export class UserIpAddressModel {
+  static async record(
+    userId: UUID | string,
+    ipAddress: string,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO user_ip_addresses (user_id, ip_address)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id, ip_address) DO UPDATE SET
+         login_count = user_ip_addresses.login_count + 1,
+         last_seen_at = EXTRACT(EPOCH FROM NOW())::BIGINT`,
+      [userId, ipAddress]
+    );
+  }
+
+  static async findByUserId(
+    userId: UUID | string,
+    client?: QueryClient
+  ): Promise<UserIpAddress[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT id, user_id, host(ip_address) AS ip_address, login_count,
+         created_at, last_seen_at
+       FROM user_ip_addresses
+       WHERE user_id = $1
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      created_at: Number(row.created_at),
+      last_seen_at: Number(row.last_seen_at),
+    }));
+  }
+
+  /**
+   * Other users who logged in from an IP address, up to limit
+   */
+  static async findOtherUserIds(
+    ipAddress: string,
+    excludeUserId: UUID | string,
+    limit: number,
+    client?: QueryClient
+  ): Promise<string[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT user_id FROM user_ip_addresses
+       WHERE ip_address = $1 AND user_id <> $2
+       LIMIT $3`,
+      [ipAddress, excludeUserId, limit]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+}
+
+export class AccountLinkModel {
+  /**
+   * Record that two accounts share a value, or refresh when it was last seen
+   */
+  static async link(
+    userId: UUID | string,
+    otherUserId: UUID | string,
+    linkType: AccountLinkType,
+    linkValue: string,
+    client?: QueryClient
+  ): Promise<void> {
+    if (String(userId).toLowerCase() === String(otherUserId).toLowerCase()) {
+      return;
+    }
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO account_links (user_a_id, user_b_id, link_type, link_value)
+       VALUES (LEAST($1::uuid, $2::uuid), GREATEST($1::uuid, $2::uuid), $3, $4)
+       ON CONFLICT (user_a_id, user_b_id, link_type, link_value) DO UPDATE SET
+         last_seen_at = EXTRACT(EPOCH FROM NOW())::BIGINT`,
+      [userId, otherUserId, linkType, linkValue]
+    );
+  }
+
+  /**
+   * Every link touching any of the given users
+   */
+  static async findByUserIds(
+    userIds: (UUID | string)[],
+    client?: QueryClient
+  ): Promise<AccountLinkEdge[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM account_links
+       WHERE user_a_id = ANY($1::uuid[]) OR user_b_id = ANY($1::uuid[])`,
+      [userIds]
+    );
+    return result.rows.map(toEdge);
+  }
+
+  /**
+   * Users linked to a user by any of the given link types
+   */
+  static async findLinkedUserIds(
+    userId: UUID | string,
+    linkTypes: AccountLinkType[],
+    client?: QueryClient
+  ): Promise<string[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT DISTINCT
+         CASE WHEN user_a_id = $1 THEN user_b_id ELSE user_a_id END AS user_id
+       FROM account_links
+       WHERE (user_a_id = $1 OR user_b_id = $1)
+         AND link_type = ANY($2::text[])`,
+      [userId, linkTypes]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+
+  static async areLinked(
+    userId: UUID | string,
+    otherUserId: UUID | string,
+    linkTypes: AccountLinkType[],
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT 1 FROM account_links
+       WHERE user_a_id = LEAST($1::uuid, $2::uuid)
+         AND user_b_id = GREATEST($1::uuid, $2::uuid)
+         AND link_type = ANY($3::text[])
+       LIMIT 1`,
+      [userId, otherUserId, linkTypes]
+    );
+    return result.rows.length > 0;
+  }
+}
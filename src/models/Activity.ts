@@ -9,6 +9,8 @@ export type ActivityType =
   | "market_created"
   | "market_initialized"
   | "market_resolved"
+  | "market_voided"
+  | "void_refund"
   | "liquidity_added"
   | "liquidity_removed"
   | "lp_rewards_claimed"
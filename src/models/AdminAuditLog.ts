@@ -0,0 +1,186 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export interface AdminAuditLogEntry {
+  id: UUID;
+  sequence: number;
+  admin_user_id: UUID;
+  session_id: UUID | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  before_state: any | null;
+  after_state: any | null;
+  details: any;
+  ip_address: string;
+  user_agent: string | null;
+  prev_hash: string | null;
+  entry_hash: string;
+  created_at: number;
+}
+
+export interface AdminAuditLogCreateInput {
+  sequence: number;
+  admin_user_id: string;
+  session_id: string | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  before_state: any | null;
+  after_state: any | null;
+  details: any;
+  ip_address: string;
+  user_agent: string | null;
+  prev_hash: string | null;
+  entry_hash: string;
+  created_at: number;
+}
+
+export interface AdminAuditLogFilters {
+  admin_user_id?: string;
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  from?: number;
+  to?: number;
+}
+
+export class AdminAuditLogModel {
+  /**
+   * Latest chained entry. Callers must hold the audit chain lock.
+   */
+  static async findLatest(
+    client: PoolClient
+  ): Promise<AdminAuditLogEntry | null> {
+    const result = await client.query(
+      `SELECT * FROM admin_audit_log
+       WHERE sequence IS NOT NULL
+       ORDER BY sequence DESC
+       LIMIT 1`
+    );
+    return result.rows[0] || null;
+  }
+
+  static async create(
+    data: AdminAuditLogCreateInput,
+    client?: QueryClient
+  ): Promise<AdminAuditLogEntry> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO admin_audit_log (
+         sequence, admin_user_id, session_id, action, target_type, target_id,
+         before_state, after_state, details, ip_address, user_agent,
+         prev_hash, entry_hash, created_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING *`,
+      [
+        data.sequence,
+        data.admin_user_id,
+        data.session_id,
+        data.action,
+        data.target_type,
+        data.target_id,
+        data.before_state === null ? null : JSON.stringify(data.before_state),
+        data.after_state === null ? null : JSON.stringify(data.after_state),
+        JSON.stringify(data.details),
+        data.ip_address,
+        data.user_agent,
+        data.prev_hash,
+        data.entry_hash,
+        data.created_at,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findAll(
+    filters: AdminAuditLogFilters = {},
+    options: { limit?: number; offset?: number } = {},
+    client?: QueryClient
+  ): Promise<{ entries: AdminAuditLogEntry[]; total: number }> {
+    const db = client || pool;
+    const limit = options.limit || 50;
+    const offset = options.offset || 0;
+
+    const conditions: string[] = ["l.sequence IS NOT NULL"];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (filters.admin_user_id) {
+      conditions.push(`l.admin_user_id = $${paramCount++}`);
+      values.push(filters.admin_user_id);
+    }
+
+    if (filters.action) {
+      conditions.push(`l.action = $${paramCount++}`);
+      values.push(filters.action);
+    }
+
+    if (filters.target_type) {
+      conditions.push(`l.target_type = $${paramCount++}`);
+      values.push(filters.target_type);
+    }
+
+    if (filters.target_id) {
+      conditions.push(`l.target_id = $${paramCount++}`);
+      values.push(filters.target_id);
+    }
+
+    if (filters.from !== undefined) {
+      conditions.push(`l.created_at >= $${paramCount++}`);
+      values.push(filters.from);
+    }
+
+    if (filters.to !== undefined) {
+      conditions.push(`l.created_at <= $${paramCount++}`);
+      values.push(filters.to);
+    }
+
+    const whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+    const [entriesResult, countResult] = await Promise.all([
+      db.query(
+        `
+        SELECT l.*, u.username as admin_username
+        FROM admin_audit_log l
+        LEFT JOIN users u ON l.admin_user_id = u.id
+        ${whereClause}
+        ORDER BY l.sequence DESC
+        LIMIT $${paramCount} OFFSET $${paramCount + 1}
+      `,
+        [...values, limit, offset]
+      ),
+      db.query(
+        `SELECT COUNT(*)::int as count FROM admin_audit_log l ${whereClause}`,
+        values
+      ),
+    ]);
+
+    return {
+      entries: entriesResult.rows,
+      total: countResult.rows[0]?.count || 0,
+    };
+  }
+
+  /**
+   * Chained entries in sequence order, starting after `afterSequence`
+   */
+  static async findBatchAfter(
+    afterSequence: number,
+    limit: number,
+    client?: QueryClient
+  ): Promise<AdminAuditLogEntry[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM admin_audit_log
+       WHERE sequence > $1
+       ORDER BY sequence ASC
+       LIMIT $2`,
+      [afterSequence, limit]
+    );
+    return result.rows;
+  }
+}
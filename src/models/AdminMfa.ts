@@ -0,0 +1,245 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export interface AdminMfaSecret {
+  id: UUID;
+  admin_user_id: UUID;
+  secret: string; // Encrypted TOTP secret (base32)
+  backup_codes: string[] | null; // SHA-256 hashes of unused backup codes
+  is_enabled: boolean;
+  last_used_step: number | null;
+  enabled_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AdminSession {
+  id: UUID;
+  admin_user_id: UUID;
+  session_token: string; // SHA-256 hash of the session token
+  ip_address: string;
+  user_agent: string | null;
+  mfa_verified: boolean;
+  mfa_verified_at: number | null;
+  last_step_up_at: number | null;
+  expires_at: number;
+  created_at: number;
+  last_used_at: number;
+}
+
+export interface AdminSessionCreateInput {
+  admin_user_id: string;
+  session_token: string;
+  ip_address: string;
+  user_agent?: string | null;
+  expires_at: number;
+  mfa_verified_at: number;
+}
+
+export class AdminMfaSecretModel {
+  static async findByAdmin(
+    adminUserId: string,
+    client?: QueryClient
+  ): Promise<AdminMfaSecret | null> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM admin_mfa_secrets WHERE admin_user_id = $1",
+      [adminUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByAdminForUpdate(
+    adminUserId: string,
+    client: PoolClient
+  ): Promise<AdminMfaSecret | null> {
+    const result = await client.query(
+      "SELECT * FROM admin_mfa_secrets WHERE admin_user_id = $1 FOR UPDATE",
+      [adminUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Store a new, not yet enabled secret for an admin, replacing any pending one
+   */
+  static async upsertPending(
+    adminUserId: string,
+    encryptedSecret: string,
+    client?: QueryClient
+  ): Promise<AdminMfaSecret | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO admin_mfa_secrets (admin_user_id, secret, is_enabled)
+       VALUES ($1, $2, FALSE)
+       ON CONFLICT (admin_user_id) DO UPDATE SET
+         secret = EXCLUDED.secret,
+         backup_codes = NULL,
+         last_used_step = NULL,
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE admin_mfa_secrets.is_enabled = FALSE
+       RETURNING *`,
+      [adminUserId, encryptedSecret]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async enable(
+    adminUserId: string,
+    backupCodeHashes: string[],
+    step: number,
+    client?: QueryClient
+  ): Promise<AdminMfaSecret> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE admin_mfa_secrets SET
+         is_enabled = TRUE,
+         backup_codes = $2,
+         last_used_step = $3,
+         enabled_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE admin_user_id = $1
+       RETURNING *`,
+      [adminUserId, backupCodeHashes, step]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Record an accepted TOTP time step. Returns false if the step (or a later
+   * one) was already used, i.e. the code is being replayed.
+   */
+  static async recordStep(
+    adminUserId: string,
+    step: number,
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE admin_mfa_secrets SET
+         last_used_step = $2,
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE admin_user_id = $1
+         AND (last_used_step IS NULL OR last_used_step < $2)
+       RETURNING id`,
+      [adminUserId, step]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Remove a backup code by hash. Returns false if it wasn't an unused code.
+   */
+  static async consumeBackupCode(
+    adminUserId: string,
+    codeHash: string,
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE admin_mfa_secrets SET
+         backup_codes = array_remove(backup_codes, $2),
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE admin_user_id = $1
+         AND is_enabled = TRUE
+         AND $2 = ANY(backup_codes)
+       RETURNING id`,
+      [adminUserId, codeHash]
+    );
+    return result.rows.length > 0;
+  }
+}
+
+export class AdminSessionModel {
+  static async create(
+    data: AdminSessionCreateInput,
+    client?: QueryClient
+  ): Promise<AdminSession> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO admin_sessions (
+         admin_user_id, session_token, ip_address, user_agent,
+         mfa_verified, mfa_verified_at, expires_at
+       ) VALUES ($1, $2, $3, $4, TRUE, $5, $6)
+       RETURNING *`,
+      [
+        data.admin_user_id,
+        data.session_token,
+        data.ip_address,
+        data.user_agent || null,
+        data.mfa_verified_at,
+        data.expires_at,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Find an unexpired, MFA-verified session of an admin by token hash
+   */
+  static async findActive(
+    adminUserId: string,
+    tokenHash: string,
+    now: number,
+    client?: QueryClient
+  ): Promise<AdminSession | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM admin_sessions
+       WHERE session_token = $1
+         AND admin_user_id = $2
+         AND mfa_verified = TRUE
+         AND expires_at > $3`,
+      [tokenHash, adminUserId, now]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async touch(
+    id: string,
+    now: number,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      "UPDATE admin_sessions SET last_used_at = $2 WHERE id = $1",
+      [id, now]
+    );
+  }
+
+  static async recordStepUp(
+    id: string,
+    now: number,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      "UPDATE admin_sessions SET last_step_up_at = $2, last_used_at = $2 WHERE id = $1",
+      [id, now]
+    );
+  }
+
+  static async revoke(id: string, client?: QueryClient): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      "DELETE FROM admin_sessions WHERE id = $1 RETURNING id",
+      [id]
+    );
+    return result.rows.length > 0;
+  }
+
+  static async revokeAllForAdmin(
+    adminUserId: string,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      "DELETE FROM admin_sessions WHERE admin_user_id = $1 RETURNING id",
+      [adminUserId]
+    );
+    return result.rows.length;
+  }
+}
@@ -0,0 +1,194 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { parseJsonb, prepareJsonb } from "../utils/json";
+
+type QueryClient = Pool | PoolClient;
+
+export type JurorVoteOutcome = "YES" | "NO";
+export type ConsensusTallyStatus = "resolved" | "failed";
+
+export interface JurorVote {
+  id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  resolver_id: UUID;
+  commitment: string;
+  revealed_outcome: JurorVoteOutcome | null;
+  committed_at: number;
+  revealed_at: number | null;
+}
+
+export interface ConsensusTally {
+  option_id: UUID;
+  market_id: UUID;
+  status: ConsensusTallyStatus;
+  final_outcome: JurorVoteOutcome | null;
+  resolution_trace: any | null;
+  canonical_hash: string | null;
+  failure_reason: string | null;
+  total_slashed: number;
+  created_at: number;
+}
+
+export class JurorVoteModel {
+  /**
+   * Store (or replace, until revealed) a juror's vote commitment on an option
+   */
+  static async commit(
+    data: {
+      market_id: string;
+      option_id: string;
+      resolver_id: string;
+      commitment: string;
+    },
+    client?: QueryClient
+  ): Promise<JurorVote | null> {
+    const db = client || pool;
+    const query = `
+      INSERT INTO juror_votes (market_id, option_id, resolver_id, commitment, committed_at)
+      VALUES ($1, $2, $3, $4, EXTRACT(EPOCH FROM NOW())::BIGINT)
+      ON CONFLICT (option_id, resolver_id) DO UPDATE
+      SET commitment = EXCLUDED.commitment, committed_at = EXCLUDED.committed_at
+      WHERE juror_votes.revealed_at IS NULL
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.market_id,
+      data.option_id,
+      data.resolver_id,
+      data.commitment,
+    ]);
+    return result.rows[0] || null;
+  }
+
+  static async findByOptionAndResolver(
+    optionId: string,
+    resolverId: string,
+    client?: QueryClient
+  ): Promise<JurorVote | null> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM juror_votes WHERE option_id = $1 AND resolver_id = $2
+    `;
+    const result = await db.query(query, [optionId, resolverId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record a revealed outcome. Returns null if the vote was already revealed.
+   */
+  static async reveal(
+    id: string,
+    outcome: JurorVoteOutcome,
+    client?: QueryClient
+  ): Promise<JurorVote | null> {
+    const db = client || pool;
+    const query = `
+      UPDATE juror_votes
+      SET revealed_outcome = $1, revealed_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+      WHERE id = $2 AND revealed_at IS NULL
+      RETURNING *
+    `;
+    const result = await db.query(query, [outcome, id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByOption(
+    optionId: string,
+    client?: QueryClient
+  ): Promise<JurorVote[]> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM juror_votes WHERE option_id = $1 ORDER BY resolver_id ASC
+    `;
+    const result = await db.query(query, [optionId]);
+    return result.rows;
+  }
+
+  static async findByMarket(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<JurorVote[]> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM juror_votes
+      WHERE market_id = $1
+      ORDER BY option_id ASC, resolver_id ASC
+    `;
+    const result = await db.query(query, [marketId]);
+    return result.rows;
+  }
+}
+
+export class ConsensusTallyModel {
+  static async create(
+    data: {
+      option_id: string;
+      market_id: string;
+      status: ConsensusTallyStatus;
+      final_outcome?: JurorVoteOutcome | null;
+      resolution_trace?: any;
+      canonical_hash?: string | null;
+      failure_reason?: string | null;
+      total_slashed?: number;
+    },
+    client?: QueryClient
+  ): Promise<ConsensusTally> {
+    const db = client || pool;
+    const query = `
+      INSERT INTO consensus_tallies (
+        option_id, market_id, status, final_outcome,
+        resolution_trace, canonical_hash, failure_reason, total_slashed
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.option_id,
+      data.market_id,
+      data.status,
+      data.final_outcome || null,
+      prepareJsonb(data.resolution_trace),
+      data.canonical_hash || null,
+      data.failure_reason || null,
+      data.total_slashed || 0,
+    ]);
+    return {
+      ...result.rows[0],
+      resolution_trace: parseJsonb(result.rows[0].resolution_trace),
+    };
+  }
+
+  static async findByOption(
+    optionId: string,
+    client?: QueryClient
+  ): Promise<ConsensusTally | null> {
+    const db = client || pool;
+    const query = "SELECT * FROM consensus_tallies WHERE option_id = $1";
+    const result = await db.query(query, [optionId]);
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      ...row,
+      resolution_trace: parseJsonb(row.resolution_trace),
+    };
+  }
+
+  static async findByMarket(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<ConsensusTally[]> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM consensus_tallies
+      WHERE market_id = $1
+      ORDER BY created_at ASC
+    `;
+    const result = await db.query(query, [marketId]);
+    return result.rows.map((row) => ({
+      ...row,
+      resolution_trace: parseJsonb(row.resolution_trace),
+    }));
+  }
+}
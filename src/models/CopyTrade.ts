@@ -0,0 +1,443 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export type CopySizingMode = "fixed" | "percentage" | "market_cap";
+
+export type CopyTradeStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "rejected";
+
+export interface TraderFollow {
+  id: UUID;
+  follower_id: UUID;
+  trader_id: UUID;
+  auto_copy: boolean;
+  copy_percentage: number; // 1-100
+  max_trade_amount: number | null; // micro-USDC per copied trade
+  sizing_mode: CopySizingMode;
+  fixed_amount: number | null; // micro-USDC per copied buy
+  max_per_market: number | null; // micro-USDC copied spend per market
+  max_slippage_bps: number;
+  enabled: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface TraderFollowInput {
+  follower_id: UUID;
+  trader_id: UUID;
+  sizing_mode: CopySizingMode;
+  copy_percentage?: number;
+  fixed_amount?: number | null;
+  max_trade_amount?: number | null;
+  max_per_market?: number | null;
+  max_slippage_bps?: number;
+}
+
+export interface CopyTradeQueueItem {
+  id: UUID;
+  original_trade_id: UUID;
+  follower_id: UUID;
+  trader_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  trade_type: "buy" | "sell";
+  side: "yes" | "no";
+  original_quantity: number;
+  original_total_cost: number;
+  original_price_per_share: number;
+  leader_shares_before: number | null;
+  status: CopyTradeStatus;
+  error_message: string | null;
+  price_slippage_bps: number | null;
+  copied_trade_id: UUID | null;
+  processed_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CopyTradeQueueCreateInput {
+  original_trade_id: UUID;
+  follower_id: UUID;
+  trader_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  trade_type: "buy" | "sell";
+  side: "yes" | "no";
+  original_quantity: number;
+  original_total_cost: number;
+  original_price_per_share: number;
+  leader_shares_before?: number | null;
+}
+
+export class TraderFollowModel {
+  /**
+   * Create or update a copy-trading follow (re-enables a disabled follow)
+   */
+  static async upsert(
+    data: TraderFollowInput,
+    client?: QueryClient
+  ): Promise<TraderFollow> {
+    const {
+      follower_id,
+      trader_id,
+      sizing_mode,
+      copy_percentage = 100,
+      fixed_amount = null,
+      max_trade_amount = null,
+      max_per_market = null,
+      max_slippage_bps = 200,
+    } = data;
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await db.query(
+      `INSERT INTO trader_follows (
+        follower_id, trader_id, auto_copy, copy_percentage, max_trade_amount,
+        sizing_mode, fixed_amount, max_per_market, max_slippage_bps,
+        enabled, created_at, updated_at
+      ) VALUES ($1, $2, TRUE, $3, $4, $5, $6, $7, $8, TRUE, $9, $10)
+      ON CONFLICT (follower_id, trader_id) DO UPDATE SET
+        auto_copy = TRUE,
+        copy_percentage = EXCLUDED.copy_percentage,
+        max_trade_amount = EXCLUDED.max_trade_amount,
+        sizing_mode = EXCLUDED.sizing_mode,
+        fixed_amount = EXCLUDED.fixed_amount,
+        max_per_market = EXCLUDED.max_per_market,
+        max_slippage_bps = EXCLUDED.max_slippage_bps,
+        enabled = TRUE,
+        updated_at = EXCLUDED.updated_at
+      RETURNING *`,
+      [
+        follower_id,
+        trader_id,
+        copy_percentage,
+        max_trade_amount,
+        sizing_mode,
+        fixed_amount,
+        max_per_market,
+        max_slippage_bps,
+        now,
+        now,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async find(
+    followerId: UUID | string,
+    traderId: UUID | string,
+    client?: QueryClient
+  ): Promise<TraderFollow | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM trader_follows WHERE follower_id = $1 AND trader_id = $2`,
+      [followerId, traderId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async disable(
+    followerId: UUID | string,
+    traderId: UUID | string,
+    client?: QueryClient
+  ): Promise<TraderFollow | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE trader_follows SET
+        enabled = FALSE,
+        auto_copy = FALSE,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE follower_id = $1 AND trader_id = $2
+       RETURNING *`,
+      [followerId, traderId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Active copiers of a trader
+   */
+  static async findActiveFollowers(
+    traderId: UUID | string,
+    client?: QueryClient
+  ): Promise<TraderFollow[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM trader_follows
+       WHERE trader_id = $1 AND enabled = TRUE AND auto_copy = TRUE`,
+      [traderId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Traders a user is copying, with basic trader profile info
+   */
+  static async findByFollower(
+    followerId: UUID | string,
+    client?: QueryClient
+  ): Promise<(TraderFollow & { username: string; avatar_url: string })[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT tf.*, u.username, u.avatar_url
+       FROM trader_follows tf
+       JOIN users u ON u.id = tf.trader_id
+       WHERE tf.follower_id = $1 AND tf.enabled = TRUE
+       ORDER BY tf.created_at DESC`,
+      [followerId]
+    );
+    return result.rows;
+  }
+
+  static async countActiveFollowers(
+    traderId: UUID | string,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COUNT(*)::int as count FROM trader_follows
+       WHERE trader_id = $1 AND enabled = TRUE AND auto_copy = TRUE`,
+      [traderId]
+    );
+    return result.rows[0]?.count || 0;
+  }
+}
+
+export class CopyTradeQueueModel {
+  /**
+   * Enqueue a mirrored trade. Returns null if this trade was already queued for the follower.
+   */
+  static async enqueue(
+    data: CopyTradeQueueCreateInput,
+    client?: QueryClient
+  ): Promise<CopyTradeQueueItem | null> {
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await db.query(
+      `INSERT INTO copy_trade_queue (
+        original_trade_id, follower_id, trader_id, market_id, option_id,
+        trade_type, side, original_quantity, original_total_cost,
+        original_price_per_share, leader_shares_before, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'pending', $12, $13)
+      ON CONFLICT (original_trade_id, follower_id) DO NOTHING
+      RETURNING *`,
+      [
+        data.original_trade_id,
+        data.follower_id,
+        data.trader_id,
+        data.market_id,
+        data.option_id,
+        data.trade_type,
+        data.side,
+        data.original_quantity,
+        data.original_total_cost,
+        data.original_price_per_share,
+        data.leader_shares_before ?? null,
+        now,
+        now,
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim a batch of pending items for processing (oldest first)
+   */
+  static async claimPending(
+    limit: number,
+    client?: QueryClient
+  ): Promise<CopyTradeQueueItem[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE copy_trade_queue SET
+        status = 'processing',
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id IN (
+         SELECT id FROM copy_trade_queue
+         WHERE status = 'pending'
+         ORDER BY created_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+    return result.rows.sort(
+      (a: CopyTradeQueueItem, b: CopyTradeQueueItem) =>
+        Number(a.created_at) - Number(b.created_at)
+    );
+  }
+
+  static async markCompleted(
+    id: UUID | string,
+    copiedTradeId: UUID | string,
+    priceSlippageBps: number,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `UPDATE copy_trade_queue SET
+        status = 'completed',
+        copied_trade_id = $2,
+        price_slippage_bps = $3,
+        processed_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1`,
+      [id, copiedTradeId, priceSlippageBps]
+    );
+  }
+
+  /**
+   * failed = attempted but the trade was refused; rejected = not attempted (rule/gate)
+   */
+  static async markUnsuccessful(
+    id: UUID | string,
+    status: "failed" | "rejected",
+    errorMessage: string,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `UPDATE copy_trade_queue SET
+        status = $2,
+        error_message = $3,
+        processed_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1`,
+      [id, status, errorMessage]
+    );
+  }
+
+  /**
+   * Release items stuck in processing (e.g. after a crash) back to pending
+   */
+  static async requeueStale(
+    olderThanSeconds: number,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE copy_trade_queue SET
+        status = 'pending',
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE status = 'processing'
+         AND updated_at < EXTRACT(EPOCH FROM NOW())::BIGINT - $1`,
+      [olderThanSeconds]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Copied-trade ledger for a follower: every mirrored trade with its outcome
+   */
+  static async findLedger(
+    followerId: UUID | string,
+    filters: { status?: CopyTradeStatus; traderId?: string } = {},
+    limit = 50,
+    offset = 0,
+    client?: QueryClient
+  ): Promise<{ entries: any[]; total: number }> {
+    const db = client || pool;
+    const conditions = ["q.follower_id = $1"];
+    const params: any[] = [followerId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`q.status = $${params.length}`);
+    }
+    if (filters.traderId) {
+      params.push(filters.traderId);
+      conditions.push(`q.trader_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(" AND ");
+
+    const [entriesResult, countResult] = await Promise.all([
+      db.query(
+        `
+        SELECT
+          q.*,
+          u.username as trader_username,
+          m.question as market_question,
+          o.option_label,
+          ct.quantity as copied_quantity,
+          ct.price_per_share as copied_price_per_share,
+          ct.total_cost as copied_total_cost,
+          ct.fees_paid as copied_fees_paid
+        FROM copy_trade_queue q
+        LEFT JOIN users u ON u.id = q.trader_id
+        LEFT JOIN markets m ON m.id = q.market_id
+        LEFT JOIN market_options o ON o.id = q.option_id
+        LEFT JOIN trades ct ON ct.id = q.copied_trade_id
+        WHERE ${whereClause}
+        ORDER BY q.created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+        [...params, limit, offset]
+      ),
+      db.query(
+        `SELECT COUNT(*)::int as count FROM copy_trade_queue q WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    return {
+      entries: entriesResult.rows,
+      total: countResult.rows[0]?.count || 0,
+    };
+  }
+}
+
+export class CopiedTradeModel {
+  static async create(
+    data: {
+      original_trade_id: UUID;
+      copied_trade_id: UUID;
+      follower_id: UUID;
+      trader_id: UUID;
+      copy_percentage: number;
+    },
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO copied_trades (
+        original_trade_id, copied_trade_id, follower_id, trader_id, copy_percentage, created_at
+      ) VALUES ($1, $2, $3, $4, $5, EXTRACT(EPOCH FROM NOW())::BIGINT)`,
+      [
+        data.original_trade_id,
+        data.copied_trade_id,
+        data.follower_id,
+        data.trader_id,
+        data.copy_percentage,
+      ]
+    );
+  }
+
+  /**
+   * Micro-USDC a follower has spent copying buys in a market
+   */
+  static async getCopiedSpendInMarket(
+    followerId: UUID | string,
+    marketId: UUID | string,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COALESCE(SUM(t.total_cost), 0)::bigint as spent
+       FROM copied_trades c
+       JOIN trades t ON t.id = c.copied_trade_id
+       WHERE c.follower_id = $1 AND t.market_id = $2 AND t.trade_type = 'buy'`,
+      [followerId, marketId]
+    );
+    return Number(result.rows[0]?.spent || 0);
+  }
+}
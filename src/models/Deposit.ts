@@ -13,6 +13,12 @@ export interface WalletDeposit {
   block_time: number;
   amount: number;
   token_symbol: string;
+  token_mint: string | null;
+  token_amount: string | null; // base units of the token received
+  token_decimals: number | null;
+  conversion_rate: string | null; // USDC per token
+  price_source: string | null;
+  hold_reason: string | null;
   source: string | null;
   status: string;
   raw: any;
@@ -47,8 +53,13 @@ export class DepositModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Signatures already recorded as deposits of a token. Deposits from
+   * before multi-token support have no mint and count for every token.
+   */
   static async findExistingSignatures(
     signatures: string[],
+    tokenMint: string,
     client?: QueryClient
   ): Promise<Set<string>> {
     if (!signatures.length) {
@@ -57,8 +68,9 @@ export class DepositModel {
     const db = client || pool;
 
     const result = await db.query(
-      "SELECT signature FROM wallet_deposits WHERE signature = ANY($1)",
-      [signatures]
+      `SELECT signature FROM wallet_deposits
+       WHERE signature = ANY($1) AND (token_mint = $2 OR token_mint IS NULL)`,
+      [signatures, tokenMint]
     );
 
     return new Set(result.rows.map((row) => row.signature));
@@ -99,7 +111,7 @@ export class DepositModel {
         updated_at
       )
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-      ON CONFLICT (signature) DO NOTHING
+      ON CONFLICT (signature, token_mint) DO NOTHING
       RETURNING *`,
       [
         wallet_id,
@@ -119,4 +131,50 @@ export class DepositModel {
 
     return result.rows[0] || null;
   }
+
+  /**
+   * Held deposits of a token, oldest first
+   */
+  static async findHeld(
+    tokenMint: string,
+    limit: number,
+    client?: QueryClient
+  ): Promise<WalletDeposit[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM wallet_deposits
+       WHERE status = 'held' AND token_mint = $1
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [tokenMint, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Credit a held deposit at a new rate. Returns null if it is no longer
+   * held, e.g. another poll already released it.
+   */
+  static async releaseHeld(
+    id: UUID | string,
+    amount: number,
+    conversionRate: number,
+    priceSource: string,
+    client?: QueryClient
+  ): Promise<WalletDeposit | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE wallet_deposits
+       SET status = 'confirmed',
+           amount = $2,
+           conversion_rate = $3,
+           price_source = $4,
+           hold_reason = NULL,
+           updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1 AND status = 'held'
+       RETURNING *`,
+      [id, amount, conversionRate, priceSource]
+    );
+    return result.rows[0] || null;
+  }
 }
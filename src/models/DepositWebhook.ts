@@ -0,0 +1,114 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export interface DepositWebhookEvent {
+  id: UUID;
+  event_id: string;
+  transaction_count: number;
+  status: "processing" | "processed";
+  received_at: number;
+  processed_at: number | null;
+}
+
+export interface DepositWebhookDeadLetter {
+  id: UUID;
+  event_id: string | null;
+  payload: string;
+  error: string;
+  received_at: number;
+}
+
+export class DepositWebhookModel {
+  /**
+   * Record an event as received
+   * @returns The event, or null if it was already received (a replay)
+   */
+  static async claimEvent(
+    eventId: string,
+    client?: QueryClient
+  ): Promise<DepositWebhookEvent | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO deposit_webhook_events (event_id, status, received_at)
+       VALUES ($1, 'processing', $2)
+       ON CONFLICT (event_id) DO NOTHING
+       RETURNING *`,
+      [eventId, Math.floor(Date.now() / 1000)]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Mark an event's deposits as processed
+   */
+  static async markProcessed(
+    id: UUID | string,
+    transactionCount: number,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `UPDATE deposit_webhook_events
+       SET status = 'processed', transaction_count = $2, processed_at = $3
+       WHERE id = $1`,
+      [id, transactionCount, Math.floor(Date.now() / 1000)]
+    );
+  }
+
+  /**
+   * Forget an event whose processing failed, so the provider's retry is
+   * accepted
+   */
+  static async releaseEvent(
+    id: UUID | string,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query("DELETE FROM deposit_webhook_events WHERE id = $1", [id]);
+  }
+
+  /**
+   * Keep a payload (or a transaction in one) that couldn't be parsed
+   */
+  static async recordDeadLetter(
+    eventId: string | null,
+    payload: string,
+    error: string,
+    client?: QueryClient
+  ): Promise<DepositWebhookDeadLetter> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO deposit_webhook_dead_letters (event_id, payload, error, received_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [eventId, payload, error, Math.floor(Date.now() / 1000)]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Dead letters, newest first
+   */
+  static async findDeadLetters(
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{ dead_letters: DepositWebhookDeadLetter[]; total: number }> {
+    const db = client || pool;
+    const [rows, count] = await Promise.all([
+      db.query(
+        `SELECT * FROM deposit_webhook_dead_letters
+         ORDER BY received_at DESC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset]
+      ),
+      db.query(
+        "SELECT COUNT(*)::int AS total FROM deposit_webhook_dead_letters"
+      ),
+    ]);
+    return { dead_letters: rows.rows, total: count.rows[0].total };
+  }
+}
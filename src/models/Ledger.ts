@@ -0,0 +1,393 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import {
+  LedgerAccountType,
+  LedgerDirection,
+  LedgerEntryInput,
+  ReconciliationMismatch,
+  accountBalance,
+} from "../utils/ledger";
+
+type QueryClient = Pool | PoolClient;
+
+export type LedgerTransactionType =
+  | "opening_balance"
+  | "deposit"
+  | "withdrawal"
+  | "withdrawal_refund"
+  | "trade_buy"
+  | "trade_sell"
+  | "claim"
+  | "resolution_payout"
+  | "market_initialize"
+  | "liquidity_add"
+  | "liquidity_remove"
+  | "lp_rewards_claim"
+  | "creator_fee_withdrawal"
+  | "protocol_fee_withdrawal"
+  | "referral_claim"
+  | "key_buy"
+  | "key_sell"
+  | "limit_order_escrow"
+  | "limit_order_release"
+  | "resolver_bond_deposit"
+  | "resolver_bond_withdraw"
+  | "resolver_bond_slash"
+  | "resolution_bond"
+  | "resolution_bond_return"
+  | "resolution_bond_forfeit"
+  | "dispute_fee"
+  | "market_void"
+  | "balance_adjustment";
+
+export interface LedgerTransaction {
+  id: UUID;
+  transaction_type: LedgerTransactionType;
+  reference_type: string | null;
+  reference_id: string | null;
+  description: string | null;
+  metadata: Record<string, any>;
+  created_at: number;
+}
+
+export interface LedgerEntry {
+  id: UUID;
+  transaction_id: UUID;
+  account_type: LedgerAccountType;
+  account_id: UUID | null;
+  direction: LedgerDirection;
+  amount: number;
+  created_at: number;
+}
+
+export interface LedgerEntryWithTransaction extends LedgerEntry {
+  transaction_type: LedgerTransactionType;
+  reference_type: string | null;
+  reference_id: string | null;
+  description: string | null;
+}
+
+export interface LedgerTransactionCreateInput {
+  transaction_type: LedgerTransactionType;
+  reference_type?: string | null;
+  reference_id?: string | null;
+  description?: string | null;
+  metadata?: Record<string, any>;
+}
+
+export interface LedgerReconciliation {
+  id: UUID;
+  status: "balanced" | "mismatched";
+  accounts_checked: number;
+  mismatch_count: number;
+  mismatches: ReconciliationMismatch[];
+  totals: Record<string, number>;
+  triggered_by: UUID | null;
+  started_at: number;
+  completed_at: number;
+}
+
+export class LedgerModel {
+  /**
+   * Insert a transaction and its entries. Entries must already be
+   * normalized and balanced (see LedgerService.post).
+   */
+  static async createTransaction(
+    data: LedgerTransactionCreateInput,
+    entries: LedgerEntryInput[],
+    client?: QueryClient
+  ): Promise<LedgerTransaction> {
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+
+    const transactionResult = await db.query(
+      `INSERT INTO ledger_transactions (
+         transaction_type, reference_type, reference_id, description, metadata, created_at
+       ) VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        data.transaction_type,
+        data.reference_type || null,
+        data.reference_id || null,
+        data.description || null,
+        JSON.stringify(data.metadata || {}),
+        now,
+      ]
+    );
+    const transaction: LedgerTransaction = transactionResult.rows[0];
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+    entries.forEach((entry, index) => {
+      const offset = index * 6;
+      placeholders.push(
+        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${
+          offset + 5
+        }, $${offset + 6})`
+      );
+      values.push(
+        transaction.id,
+        entry.account.type,
+        entry.account.id,
+        entry.direction,
+        entry.amount,
+        now
+      );
+    });
+
+    await db.query(
+      `INSERT INTO ledger_entries (
+         transaction_id, account_type, account_id, direction, amount, created_at
+       ) VALUES ${placeholders.join(", ")}`,
+      values
+    );
+
+    return transaction;
+  }
+
+  /**
+   * Ledger balance of every account of a type, by account id
+   */
+  static async getBalancesByType(
+    accountType: LedgerAccountType,
+    client?: QueryClient
+  ): Promise<Map<string | null, number>> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT account_id,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0)::bigint AS debits,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)::bigint AS credits
+       FROM ledger_entries
+       WHERE account_type = $1
+       GROUP BY account_id`,
+      [accountType]
+    );
+
+    return new Map(
+      result.rows.map((row) => [
+        row.account_id,
+        accountBalance(accountType, Number(row.debits), Number(row.credits)),
+      ])
+    );
+  }
+
+  /**
+   * Ledger balance of a single account
+   */
+  static async getAccountBalance(
+    accountType: LedgerAccountType,
+    accountId: string | null,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0)::bigint AS debits,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)::bigint AS credits
+       FROM ledger_entries
+       WHERE account_type = $1 AND account_id IS NOT DISTINCT FROM $2`,
+      [accountType, accountId]
+    );
+    const row = result.rows[0];
+    return accountBalance(accountType, Number(row.debits), Number(row.credits));
+  }
+
+  /**
+   * Net change of an account's balance from entries posted at or after a
+   * time, leaving out the opening balance
+   */
+  static async getNetChangeSince(
+    accountType: LedgerAccountType,
+    accountId: string | null,
+    since: number,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COALESCE(SUM(e.amount) FILTER (WHERE e.direction = 'debit'), 0)::bigint AS debits,
+              COALESCE(SUM(e.amount) FILTER (WHERE e.direction = 'credit'), 0)::bigint AS credits
+       FROM ledger_entries e
+       JOIN ledger_transactions t ON t.id = e.transaction_id
+       WHERE e.account_type = $1
+         AND e.account_id IS NOT DISTINCT FROM $2
+         AND e.created_at >= $3
+         AND t.transaction_type <> 'opening_balance'`,
+      [accountType, accountId, since]
+    );
+    const row = result.rows[0];
+    return accountBalance(accountType, Number(row.debits), Number(row.credits));
+  }
+
+  /**
+   * Total credits posted to an account type by transactions of the given
+   * types, net of their debits
+   */
+  static async getNetPostedByTransactionTypes(
+    accountType: LedgerAccountType,
+    transactionTypes: LedgerTransactionType[],
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COALESCE(SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END), 0)::bigint AS net
+       FROM ledger_entries e
+       JOIN ledger_transactions t ON t.id = e.transaction_id
+       WHERE e.account_type = $1 AND t.transaction_type = ANY($2)`,
+      [accountType, transactionTypes]
+    );
+    return Number(result.rows[0].net);
+  }
+
+  /**
+   * The opening_balance transaction posted when the ledger was introduced
+   */
+  static async findOpeningBalance(
+    client?: QueryClient
+  ): Promise<LedgerTransaction | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM ledger_transactions
+       WHERE transaction_type = 'opening_balance'
+       ORDER BY created_at ASC
+       LIMIT 1`
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Debit and credit totals across the whole ledger, by account type
+   */
+  static async getTotalsByType(
+    client?: QueryClient
+  ): Promise<Record<string, { debits: number; credits: number }>> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT account_type,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0)::bigint AS debits,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)::bigint AS credits
+       FROM ledger_entries
+       GROUP BY account_type`
+    );
+
+    const totals: Record<string, { debits: number; credits: number }> = {};
+    for (const row of result.rows) {
+      totals[row.account_type] = {
+        debits: Number(row.debits),
+        credits: Number(row.credits),
+      };
+    }
+    return totals;
+  }
+
+  /**
+   * Transactions whose debits don't equal their credits
+   */
+  static async findUnbalancedTransactions(
+    limit: number,
+    client?: QueryClient
+  ): Promise<Array<{ transaction_id: UUID; debits: number; credits: number }>> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT transaction_id,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0)::bigint AS debits,
+              COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)::bigint AS credits
+       FROM ledger_entries
+       GROUP BY transaction_id
+       HAVING COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0)
+           <> COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row) => ({
+      transaction_id: row.transaction_id,
+      debits: Number(row.debits),
+      credits: Number(row.credits),
+    }));
+  }
+
+  /**
+   * An account's entries with the transactions they belong to, newest first
+   */
+  static async findEntriesByAccount(
+    accountType: LedgerAccountType,
+    accountId: string | null,
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{ entries: LedgerEntryWithTransaction[]; total: number }> {
+    const db = client || pool;
+    const countResult = await db.query(
+      `SELECT COUNT(*)::int AS total FROM ledger_entries
+       WHERE account_type = $1 AND account_id IS NOT DISTINCT FROM $2`,
+      [accountType, accountId]
+    );
+    const result = await db.query(
+      `SELECT e.*, t.transaction_type, t.reference_type, t.reference_id, t.description
+       FROM ledger_entries e
+       JOIN ledger_transactions t ON t.id = e.transaction_id
+       WHERE e.account_type = $1 AND e.account_id IS NOT DISTINCT FROM $2
+       ORDER BY e.created_at DESC, e.id DESC
+       LIMIT $3 OFFSET $4`,
+      [accountType, accountId, limit, offset]
+    );
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+}
+
+export class LedgerReconciliationModel {
+  static async create(
+    data: Omit<LedgerReconciliation, "id">,
+    client?: QueryClient
+  ): Promise<LedgerReconciliation> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO ledger_reconciliations (
+         status, accounts_checked, mismatch_count, mismatches, totals,
+         triggered_by, started_at, completed_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.status,
+        data.accounts_checked,
+        data.mismatch_count,
+        JSON.stringify(data.mismatches),
+        JSON.stringify(data.totals),
+        data.triggered_by,
+        data.started_at,
+        data.completed_at,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findLatest(
+    client?: QueryClient
+  ): Promise<LedgerReconciliation | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM ledger_reconciliations ORDER BY completed_at DESC, id DESC LIMIT 1`
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findRecent(
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{ reconciliations: LedgerReconciliation[]; total: number }> {
+    const db = client || pool;
+    const countResult = await db.query(
+      "SELECT COUNT(*)::int AS total FROM ledger_reconciliations"
+    );
+    const result = await db.query(
+      `SELECT * FROM ledger_reconciliations
+       ORDER BY completed_at DESC, id DESC
+       LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    );
+    return {
+      reconciliations: result.rows,
+      total: countResult.rows[0].total,
+    };
+  }
+}
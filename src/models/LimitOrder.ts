@@ -0,0 +1,307 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { LedgerModel } from "./Ledger";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
+
+type QueryClient = Pool | PoolClient;
+
+export type LimitOrderStatus = "open" | "filled" | "cancelled" | "expired";
+
+export interface LimitOrder {
+  id: UUID;
+  user_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  side: "yes" | "no";
+  quantity: number; // micro-shares
+  limit_price: number; // micro-USDC per share
+  escrow_amount: number; // micro-USDC held for this order
+  status: LimitOrderStatus;
+  filled_trade_id: UUID | null;
+  fill_price: number | null;
+  fill_cost: number | null;
+  cancel_reason: string | null;
+  filled_at: number | null;
+  cancelled_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface LimitOrderCreateInput {
+  user_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  side: "yes" | "no";
+  quantity: number;
+  limit_price: number;
+  escrow_amount: number;
+}
+
+export interface LimitOrderWithDetails extends LimitOrder {
+  market_question?: string;
+  option_label?: string;
+}
+
+export class LimitOrderModel {
+  static async create(
+    data: LimitOrderCreateInput,
+    client?: QueryClient
+  ): Promise<LimitOrder> {
+    const {
+      user_id,
+      market_id,
+      option_id,
+      side,
+      quantity,
+      limit_price,
+      escrow_amount,
+    } = data;
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await db.query(
+      `INSERT INTO limit_orders (
+        user_id, market_id, option_id, side, quantity, limit_price,
+        escrow_amount, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'open', $8, $9)
+      RETURNING *`,
+      [
+        user_id,
+        market_id,
+        option_id,
+        side,
+        quantity,
+        limit_price,
+        escrow_amount,
+        now,
+        now,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(
+    id: UUID | string,
+    client?: QueryClient
+  ): Promise<LimitOrder | null> {
+    const db = client || pool;
+    const result = await db.query("SELECT * FROM limit_orders WHERE id = $1", [
+      id,
+    ]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lock an open order for fill/cancel. Returns null if the order is no longer open.
+   */
+  static async findOpenByIdForUpdate(
+    id: UUID | string,
+    client: PoolClient
+  ): Promise<LimitOrder | null> {
+    const result = await client.query(
+      `SELECT * FROM limit_orders WHERE id = $1 AND status = 'open' FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByUserId(
+    userId: UUID | string,
+    filters: {
+      status?: LimitOrderStatus;
+      marketId?: string;
+    } = {},
+    limit = 50,
+    offset = 0,
+    client?: QueryClient
+  ): Promise<{ orders: LimitOrderWithDetails[]; total: number }> {
+    const db = client || pool;
+    const conditions = ["lo.user_id = $1"];
+    const params: any[] = [userId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`lo.status = $${params.length}`);
+    }
+    if (filters.marketId) {
+      params.push(filters.marketId);
+      conditions.push(`lo.market_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(" AND ");
+
+    const [ordersResult, countResult] = await Promise.all([
+      db.query(
+        `
+        SELECT lo.*, m.question as market_question, o.option_label
+        FROM limit_orders lo
+        LEFT JOIN markets m ON lo.market_id = m.id
+        LEFT JOIN market_options o ON lo.option_id = o.id
+        WHERE ${whereClause}
+        ORDER BY lo.created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+        [...params, limit, offset]
+      ),
+      db.query(
+        `SELECT COUNT(*)::int as count FROM limit_orders lo WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    return {
+      orders: ordersResult.rows,
+      total: countResult.rows[0]?.count || 0,
+    };
+  }
+
+  /**
+   * Open orders on an option whose limit is at or above the given price,
+   * best (highest) limit first, then oldest first.
+   */
+  static async findFillable(
+    optionId: UUID | string,
+    side: "yes" | "no",
+    currentPrice: number,
+    client?: QueryClient
+  ): Promise<LimitOrder[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM limit_orders
+       WHERE option_id = $1 AND side = $2 AND status = 'open' AND limit_price >= $3
+       ORDER BY limit_price DESC, created_at ASC`,
+      [optionId, side, currentPrice]
+    );
+    return result.rows;
+  }
+
+  static async markFilled(
+    id: UUID | string,
+    tradeId: UUID | string,
+    fillPrice: number,
+    fillCost: number,
+    client?: QueryClient
+  ): Promise<LimitOrder | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE limit_orders SET
+        status = 'filled',
+        escrow_amount = 0,
+        filled_trade_id = $2,
+        fill_price = $3,
+        fill_cost = $4,
+        filled_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1
+       RETURNING *`,
+      [id, tradeId, fillPrice, fillCost]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async markClosed(
+    id: UUID | string,
+    status: "cancelled" | "expired",
+    reason: string | null,
+    client?: QueryClient
+  ): Promise<LimitOrder | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE limit_orders SET
+        status = $2,
+        escrow_amount = 0,
+        cancel_reason = $3,
+        cancelled_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1
+       RETURNING *`,
+      [id, status, reason]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Expire all open orders on an option and return their escrow to the owners' wallets.
+   * Must be called inside a transaction that already holds the market/option locks.
+   */
+  static async expireByOption(
+    optionId: UUID | string,
+    reason: string,
+    client: PoolClient
+  ): Promise<LimitOrder[]> {
+    const result = await client.query(
+      `UPDATE limit_orders SET
+        status = 'expired',
+        cancel_reason = $2,
+        cancelled_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE option_id = $1 AND status = 'open'
+       RETURNING *`,
+      [optionId, reason]
+    );
+    return this.refundEscrow(result.rows, client);
+  }
+
+  /**
+   * Expire all open orders on a market and return their escrow to the owners' wallets.
+   */
+  static async expireByMarket(
+    marketId: UUID | string,
+    reason: string,
+    client: PoolClient
+  ): Promise<LimitOrder[]> {
+    const result = await client.query(
+      `UPDATE limit_orders SET
+        status = 'expired',
+        cancel_reason = $2,
+        cancelled_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE market_id = $1 AND status = 'open'
+       RETURNING *`,
+      [marketId, reason]
+    );
+    return this.refundEscrow(result.rows, client);
+  }
+
+  private static async refundEscrow(
+    orders: LimitOrder[],
+    client: PoolClient
+  ): Promise<LimitOrder[]> {
+    for (const order of orders) {
+      if (Number(order.escrow_amount) > 0) {
+        await client.query(
+          `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE user_id = $2`,
+          [order.escrow_amount, order.user_id]
+        );
+        await LedgerModel.createTransaction(
+          {
+            transaction_type: "limit_order_release",
+            reference_type: "limit_order",
+            reference_id: order.id,
+          },
+          [
+            debit(
+              LedgerAccounts.escrow(order.user_id),
+              Number(order.escrow_amount)
+            ),
+            credit(
+              LedgerAccounts.user(order.user_id),
+              Number(order.escrow_amount)
+            ),
+          ],
+          client
+        );
+      }
+    }
+
+    if (orders.length > 0) {
+      await client.query(
+        `UPDATE limit_orders SET escrow_amount = 0 WHERE id = ANY($1::uuid[])`,
+        [orders.map((o) => o.id)]
+      );
+    }
+
+    return orders;
+  }
+}
@@ -27,8 +27,9 @@ export interface LiveRoomParticipant {
   is_video_on: boolean;
   is_screen_sharing: boolean;
   is_hand_raised: boolean;
+  is_muted_by_host: boolean;
   joined_at: number;
-  left_at: number;
+  left_at: number | null;
 }
 
 export interface LiveRoomParticipantWithUser extends LiveRoomParticipant {
@@ -40,6 +41,22 @@ export interface LiveRoomWithParticipants extends LiveRoom {
   participants: LiveRoomParticipantWithUser[];
 }
 
+export interface LiveRoomMessage {
+  id: UUID;
+  room_id: UUID;
+  user_id: UUID;
+  content: string;
+  message_type: "text" | "emoji" | "gif" | "system";
+  reply_to_id: UUID | null;
+  is_deleted: boolean;
+  created_at: number;
+}
+
+export interface LiveRoomMessageWithUser extends LiveRoomMessage {
+  username: string;
+  display_name: string | null;
+}
+
 export interface LiveRoomCreateInput {
   market_id: string;
   name?: string;
@@ -92,6 +109,20 @@ export class LiveRoomModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Find room by ID
+   */
+  static async findById(
+    roomId: string,
+    client?: QueryClient
+  ): Promise<LiveRoom | null> {
+    const db = client || pool;
+    const result = await db.query(`SELECT * FROM live_rooms WHERE id = $1`, [
+      roomId,
+    ]);
+    return result.rows[0] || null;
+  }
+
   /**
    * Find room by ID with participants
    */
@@ -293,6 +324,126 @@ export class LiveRoomModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Mute or unmute a participant on behalf of a host.
+   * A host mute also forces the microphone off.
+   */
+  static async setHostMute(
+    roomId: string,
+    userId: string,
+    muted: boolean,
+    client?: QueryClient
+  ): Promise<LiveRoomParticipant | null> {
+    const db = client || pool;
+    const query = `
+      UPDATE live_room_participants
+      SET is_muted_by_host = $3, is_muted = CASE WHEN $3 THEN true ELSE is_muted END
+      WHERE room_id = $1 AND user_id = $2 AND left_at IS NULL
+      RETURNING *
+    `;
+    const result = await db.query(query, [roomId, userId, muted]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Remove a participant and block them from rejoining the room
+   */
+  static async kickParticipant(
+    roomId: string,
+    userId: string,
+    kickedBy: string,
+    reason: string | null,
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO live_room_kicks (room_id, user_id, kicked_by, reason, created_at)
+       VALUES ($1, $2, $3, $4, EXTRACT(EPOCH FROM NOW())::BIGINT)
+       ON CONFLICT (room_id, user_id) DO NOTHING`,
+      [roomId, userId, kickedBy, reason]
+    );
+    return this.removeParticipant(roomId, userId, client);
+  }
+
+  /**
+   * Check if a user was kicked from a room
+   */
+  static async isKicked(
+    roomId: string,
+    userId: string,
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT 1 FROM live_room_kicks WHERE room_id = $1 AND user_id = $2`,
+      [roomId, userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Persist a chat message
+   */
+  static async createMessage(
+    data: {
+      room_id: string;
+      user_id: string;
+      content: string;
+      message_type?: LiveRoomMessage["message_type"];
+      reply_to_id?: string | null;
+    },
+    client?: QueryClient
+  ): Promise<LiveRoomMessage> {
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+    const query = `
+      INSERT INTO live_room_messages (room_id, user_id, content, message_type, reply_to_id, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.room_id,
+      data.user_id,
+      data.content,
+      data.message_type || "text",
+      data.reply_to_id || null,
+      now,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Get message history, newest first. Pass `before` (unix seconds) to page back.
+   */
+  static async getMessages(
+    roomId: string,
+    limit = 50,
+    before?: number,
+    client?: QueryClient
+  ): Promise<LiveRoomMessageWithUser[]> {
+    const db = client || pool;
+    const params: any[] = [roomId, limit];
+    let beforeClause = "";
+    if (before) {
+      params.push(before);
+      beforeClause = `AND m.created_at < $3`;
+    }
+
+    const query = `
+      SELECT
+        m.*,
+        u.username,
+        u.display_name
+      FROM live_room_messages m
+      JOIN users u ON m.user_id = u.id
+      WHERE m.room_id = $1 AND m.is_deleted = false ${beforeClause}
+      ORDER BY m.created_at DESC
+      LIMIT $2
+    `;
+    const result = await db.query(query, params);
+    return result.rows;
+  }
+
   /**
    * Get active rooms with participant counts
    */
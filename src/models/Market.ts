@@ -2,7 +2,9 @@ import { pool } from "../db";
 import { Pool, PoolClient } from "pg";
 import { Category } from "./Category";
 import { UUID } from "crypto";
-import { ResolutionMode, MarketStatus } from "./Resolution";
+import { ResolutionMode, MarketStatus, ResolutionConfig } from "./Resolution";
+import { prepareJsonb } from "../utils/json";
+import { VoidFeePolicy } from "../utils/marketVoid";
 
 type QueryClient = Pool | PoolClient;
 
@@ -28,6 +30,14 @@ export interface Market {
   base_liquidity_parameter: number;
   lp_token_mint: string | null;
   is_binary: boolean;
+  // Scalar markets: a single LONG (yes) / SHORT (no) option on a numeric range
+  is_scalar: boolean;
+  scalar_lower_bound: string | null; // NUMERIC, returned as string
+  scalar_upper_bound: string | null;
+  scalar_unit: string | null;
+  // Exclusive markets: options are mutually exclusive outcomes priced by one
+  // shared LMSR cost function, and exactly one of them resolves YES
+  is_exclusive: boolean;
   is_verified: boolean;
   is_resolved: boolean;
   is_initialized: boolean;
@@ -36,8 +46,19 @@ export interface Market {
   trending_score: number;
   // Resolution fields
   resolution_mode: ResolutionMode | null;
+  resolution_config: ResolutionConfig | null;
   bond_amount: number;
   status: MarketStatus;
+  // Lifecycle: set by the MarketLifecycleProcessor
+  trading_closed_at: number | null;
+  resolution_deadline: number | null;
+  escalated_at: number | null;
+  // Void: set when the market is voided and refunded (MarketVoidService)
+  is_voided: boolean;
+  voided_at: number | null;
+  voided_by: UUID | null;
+  void_reason: string | null;
+  void_fee_policy: VoidFeePolicy | null;
   created_at: number;
   updated_at: number;
 }
@@ -54,12 +75,18 @@ export interface MarketCreateInput {
   expiration_timestamp: number;
   shared_pool_vault: string;
   is_binary: boolean;
+  is_scalar?: boolean;
+  scalar_lower_bound?: number | string | null;
+  scalar_upper_bound?: number | string | null;
+  scalar_unit?: string | null;
+  is_exclusive?: boolean;
   is_verified?: boolean;
   is_resolved?: boolean;
   is_initialized?: boolean;
   category_ids?: string[];
   // Resolution fields (required)
   resolution_mode: ResolutionMode;
+  resolution_config?: ResolutionConfig | null;
   bond_amount?: number;
   // Optional liquidity fields (defaults to 0)
   liquidity_parameter?: number;
@@ -81,11 +108,17 @@ export class MarketModel {
       expiration_timestamp,
       shared_pool_vault,
       is_binary,
+      is_scalar = false,
+      scalar_lower_bound = null,
+      scalar_upper_bound = null,
+      scalar_unit = null,
+      is_exclusive = false,
       is_verified = false,
       is_resolved = false,
       is_initialized = false,
       category_ids = [],
       resolution_mode,
+      resolution_config = null,
       bond_amount = 0,
       liquidity_parameter = 0,
       base_liquidity_parameter = 0,
@@ -118,12 +151,18 @@ export class MarketModel {
         shared_pool_liquidity,
         total_shared_lp_shares,
         resolution_mode,
+        resolution_config,
         bond_amount,
+        is_scalar,
+        scalar_lower_bound,
+        scalar_upper_bound,
+        scalar_unit,
+        is_exclusive,
         status,
         created_at,
         updated_at
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25
       ) RETURNING *
     `;
 
@@ -143,7 +182,13 @@ export class MarketModel {
       shared_pool_liquidity,
       total_shared_lp_shares,
       resolution_mode,
+      prepareJsonb(resolution_config),
       bond_amount,
+      is_scalar,
+      scalar_lower_bound,
+      scalar_upper_bound,
+      scalar_unit,
+      is_exclusive,
       "OPEN",
       now,
       now,
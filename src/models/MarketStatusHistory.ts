@@ -0,0 +1,74 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { MarketStatus } from "./Resolution";
+import { prepareJsonb } from "../utils/json";
+
+type QueryClient = Pool | PoolClient;
+
+export interface MarketStatusHistoryEntry {
+  id: UUID;
+  market_id: UUID;
+  sequence: number;
+  from_status: MarketStatus;
+  to_status: MarketStatus;
+  reason: string;
+  actor_id: UUID | null; // null for scheduler transitions
+  metadata: Record<string, any> | null;
+  created_at: number;
+}
+
+export interface MarketStatusHistoryCreateInput {
+  market_id: string;
+  from_status: MarketStatus;
+  to_status: MarketStatus;
+  reason: string;
+  actor_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export class MarketStatusHistoryModel {
+  /**
+   * Append a transition. The caller must hold the market lock, which keeps
+   * the per-market sequence gapless.
+   */
+  static async create(
+    data: MarketStatusHistoryCreateInput,
+    client?: QueryClient
+  ): Promise<MarketStatusHistoryEntry> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO market_status_history (
+         market_id, sequence, from_status, to_status, reason, actor_id, metadata
+       ) VALUES (
+         $1,
+         (SELECT COALESCE(MAX(sequence), 0) + 1 FROM market_status_history WHERE market_id = $1),
+         $2, $3, $4, $5, $6
+       )
+       RETURNING *`,
+      [
+        data.market_id,
+        data.from_status,
+        data.to_status,
+        data.reason,
+        data.actor_id || null,
+        prepareJsonb(data.metadata),
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findByMarket(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<MarketStatusHistoryEntry[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM market_status_history
+       WHERE market_id = $1
+       ORDER BY sequence ASC`,
+      [marketId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,117 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export type MarketVoidRefundType = "position" | "liquidity";
+
+export interface MarketVoidRefund {
+  id: UUID;
+  market_id: UUID;
+  user_id: UUID;
+  option_id: UUID | null; // null for liquidity refunds
+  refund_type: MarketVoidRefundType;
+  shares: number;
+  cost_basis: number;
+  amount: number;
+  fee_refund: number;
+  created_at: number;
+}
+
+export interface MarketVoidRefundCreateInput {
+  market_id: string;
+  user_id: string;
+  option_id?: string | null;
+  refund_type: MarketVoidRefundType;
+  shares: number;
+  cost_basis: number;
+  amount: number;
+  fee_refund?: number;
+}
+
+export interface MarketVoidRefundWithMarket extends MarketVoidRefund {
+  market_question: string;
+  option_label: string | null;
+  void_reason: string | null;
+  voided_at: number | null;
+}
+
+export class MarketVoidRefundModel {
+  static async createMany(
+    refunds: MarketVoidRefundCreateInput[],
+    client?: QueryClient
+  ): Promise<MarketVoidRefund[]> {
+    if (refunds.length === 0) return [];
+    const db = client || pool;
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    const now = Math.floor(Date.now() / 1000);
+    refunds.forEach((r, index) => {
+      const offset = index * 9;
+      placeholders.push(
+        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${
+          offset + 5
+        }, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9})`
+      );
+      values.push(
+        r.market_id,
+        r.user_id,
+        r.option_id || null,
+        r.refund_type,
+        r.shares,
+        r.cost_basis,
+        r.amount,
+        r.fee_refund || 0,
+        now
+      );
+    });
+
+    const result = await db.query(
+      `INSERT INTO market_void_refunds (
+         market_id, user_id, option_id, refund_type, shares, cost_basis,
+         amount, fee_refund, created_at
+       ) VALUES ${placeholders.join(", ")}
+       RETURNING *`,
+      values
+    );
+    return result.rows;
+  }
+
+  static async findByMarket(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<MarketVoidRefund[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM market_void_refunds
+       WHERE market_id = $1
+       ORDER BY refund_type ASC, amount DESC`,
+      [marketId]
+    );
+    return result.rows;
+  }
+
+  static async findByUser(
+    userId: string,
+    client?: QueryClient
+  ): Promise<MarketVoidRefundWithMarket[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT r.*,
+              m.question as market_question,
+              m.void_reason,
+              m.voided_at,
+              mo.option_label
+       FROM market_void_refunds r
+       JOIN markets m ON r.market_id = m.id
+       LEFT JOIN market_options mo ON r.option_id = mo.id
+       WHERE r.user_id = $1
+       ORDER BY r.created_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+}
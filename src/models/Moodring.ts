@@ -57,6 +57,9 @@ export interface MoodringConfig {
   max_market_volatility_threshold: number;
   suspicious_trade_threshold: number;
   circuit_breaker_threshold: number;
+  volatility_halt_enabled: boolean;
+  volatility_halt_seconds: number;
+  liquidity_halt_enabled: boolean;
 
   // Dispute Resolution
   default_dispute_period_hours: number;
@@ -69,6 +72,18 @@ export interface MoodringConfig {
   enable_referrals: boolean;
   enable_notifications: boolean;
 
+  // Share of the protocol fee paid to referrers (basis points of the protocol fee)
+  referral_fee_share_bps: number;
+
+  // Trending score settings (see utils/trending.ts)
+  trending_window_hours: number;
+  trending_half_life_hours: number;
+  trending_volume_weight: number;
+  trending_traders_weight: number;
+  trending_price_weight: number;
+  trending_comment_weight: number;
+  trending_watchlist_weight: number;
+
   created_at: number;
   updated_at: number;
 }
@@ -179,6 +194,9 @@ export interface MoodringConfigUpdateInput {
   max_market_volatility_threshold?: number;
   suspicious_trade_threshold?: number;
   circuit_breaker_threshold?: number;
+  volatility_halt_enabled?: boolean;
+  volatility_halt_seconds?: number;
+  liquidity_halt_enabled?: boolean;
 
   // Dispute Controls
   default_dispute_period_hours?: number;
@@ -190,6 +208,18 @@ export interface MoodringConfigUpdateInput {
   enable_live_rooms?: boolean;
   enable_referrals?: boolean;
   enable_notifications?: boolean;
+
+  // Referral Controls
+  referral_fee_share_bps?: number;
+
+  // Trending Controls
+  trending_window_hours?: number;
+  trending_half_life_hours?: number;
+  trending_volume_weight?: number;
+  trending_traders_weight?: number;
+  trending_price_weight?: number;
+  trending_comment_weight?: number;
+  trending_watchlist_weight?: number;
 }
 
 export class MoodringModel {
@@ -354,6 +384,9 @@ export class MoodringModel {
       "max_market_volatility_threshold",
       "suspicious_trade_threshold",
       "circuit_breaker_threshold",
+      "volatility_halt_enabled",
+      "volatility_halt_seconds",
+      "liquidity_halt_enabled",
       "default_dispute_period_hours",
       "required_dispute_bond",
       "enable_copy_trading",
@@ -361,6 +394,14 @@ export class MoodringModel {
       "enable_live_rooms",
       "enable_referrals",
       "enable_notifications",
+      "referral_fee_share_bps",
+      "trending_window_hours",
+      "trending_half_life_hours",
+      "trending_volume_weight",
+      "trending_traders_weight",
+      "trending_price_weight",
+      "trending_comment_weight",
+      "trending_watchlist_weight",
     ];
 
     for (const field of fields) {
@@ -7,13 +7,18 @@ type QueryClient = Pool | PoolClient;
 export type NotificationType =
   | "market_resolved"
   | "market_expiring"
+  | "market_resolution_due"
+  | "market_escalated"
+  | "market_voided"
+  | "ledger_mismatch"
   | "position_profit"
   | "position_loss"
   | "trade_executed"
   | "comment_reply"
   | "referral_bonus"
   | "withdrawal_completed"
-  | "deposit_received";
+  | "deposit_received"
+  | "liquidity_alert";
 
 export interface Notification {
   id: UUID;
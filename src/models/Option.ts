@@ -18,6 +18,8 @@ export interface Option {
   resolved_reason: string | null;
   resolved_by: string | null;
   dispute_deadline: number;
+  resolved_value?: string | null; // scalar markets: resolved value (NUMERIC)
+  reputation_settled_at?: number | null; // set once resolver reputation is scored
   created_at: number;
   updated_at: number;
 }
@@ -0,0 +1,127 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { EquityInterval, PortfolioValuation } from "../utils/equity";
+
+type QueryClient = Pool | PoolClient;
+
+export interface PortfolioSnapshot extends PortfolioValuation {
+  id: UUID;
+  user_id: UUID;
+  interval_type: EquityInterval;
+  bucket_start: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PortfolioSnapshotInput extends PortfolioValuation {
+  user_id: UUID | string;
+}
+
+const VALUE_COLUMNS = [
+  "cash_balance",
+  "positions_value",
+  "liquidity_value",
+  "total_value",
+  "cost_basis",
+  "realized_pnl",
+  "unrealized_pnl",
+  "net_deposits",
+] as const;
+
+export class PortfolioSnapshotModel {
+  /**
+   * Insert snapshots for a bucket, overwriting any already taken in it
+   */
+  static async upsertMany(
+    interval: EquityInterval,
+    bucketStart: number,
+    snapshots: PortfolioSnapshotInput[],
+    client?: QueryClient
+  ): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+    const columnCount = VALUE_COLUMNS.length + 5;
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    snapshots.forEach((snapshot, index) => {
+      const offset = index * columnCount;
+      placeholders.push(
+        `(${Array.from(
+          { length: columnCount },
+          (_, i) => `$${offset + i + 1}`
+        ).join(", ")})`
+      );
+      values.push(
+        snapshot.user_id,
+        interval,
+        bucketStart,
+        ...VALUE_COLUMNS.map((column) => Math.round(snapshot[column])),
+        now,
+        now
+      );
+    });
+
+    await db.query(
+      `INSERT INTO portfolio_snapshots (
+         user_id, interval_type, bucket_start, ${VALUE_COLUMNS.join(", ")},
+         created_at, updated_at
+       ) VALUES ${placeholders.join(", ")}
+       ON CONFLICT (user_id, interval_type, bucket_start) DO UPDATE SET
+         ${VALUE_COLUMNS.map((column) => `${column} = EXCLUDED.${column}`).join(
+           ", "
+         )},
+         updated_at = EXCLUDED.updated_at`,
+      values
+    );
+  }
+
+  /**
+   * A user's snapshots for an interval between two times, oldest first
+   */
+  static async findByUser(
+    userId: UUID | string,
+    interval: EquityInterval,
+    from: number,
+    to: number,
+    client?: QueryClient
+  ): Promise<PortfolioSnapshot[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM portfolio_snapshots
+       WHERE user_id = $1 AND interval_type = $2
+         AND bucket_start >= $3 AND bucket_start <= $4
+       ORDER BY bucket_start ASC`,
+      [userId, interval, from, to]
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      bucket_start: Number(row.bucket_start),
+      ...Object.fromEntries(
+        VALUE_COLUMNS.map((column) => [column, Number(row[column])])
+      ),
+    }));
+  }
+
+  /**
+   * Delete snapshots of an interval older than a time
+   */
+  static async deleteOlderThan(
+    interval: EquityInterval,
+    before: number,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `DELETE FROM portfolio_snapshots
+       WHERE interval_type = $1 AND bucket_start < $2`,
+      [interval, before]
+    );
+    return result.rowCount || 0;
+  }
+}
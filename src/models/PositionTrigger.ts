@@ -0,0 +1,293 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export type PositionTriggerType = "stop_loss" | "take_profit";
+
+export type PositionTriggerStatus =
+  | "active"
+  | "executed"
+  | "failed"
+  | "cancelled"
+  | "expired";
+
+export interface PositionTrigger {
+  id: UUID;
+  user_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  position_id: UUID;
+  side: "yes" | "no";
+  trigger_type: PositionTriggerType;
+  trigger_price: number; // micro-USDC per share
+  sell_percentage: number; // 1-100
+  slippage_bps: number;
+  status: PositionTriggerStatus;
+  executed_trade_id: UUID | null;
+  executed_quantity: number | null;
+  executed_payout: number | null;
+  failure_reason: string | null;
+  triggered_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PositionTriggerCreateInput {
+  user_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  position_id: UUID;
+  side: "yes" | "no";
+  trigger_type: PositionTriggerType;
+  trigger_price: number;
+  sell_percentage?: number;
+  slippage_bps?: number;
+}
+
+export interface PositionTriggerWithDetails extends PositionTrigger {
+  market_question?: string;
+  option_label?: string;
+}
+
+export class PositionTriggerModel {
+  static async create(
+    data: PositionTriggerCreateInput,
+    client?: QueryClient
+  ): Promise<PositionTrigger> {
+    const {
+      user_id,
+      market_id,
+      option_id,
+      position_id,
+      side,
+      trigger_type,
+      trigger_price,
+      sell_percentage = 100,
+      slippage_bps = 500,
+    } = data;
+    const db = client || pool;
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await db.query(
+      `INSERT INTO position_triggers (
+        user_id, market_id, option_id, position_id, side, trigger_type,
+        trigger_price, sell_percentage, slippage_bps, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'active', $10, $11)
+      RETURNING *`,
+      [
+        user_id,
+        market_id,
+        option_id,
+        position_id,
+        side,
+        trigger_type,
+        trigger_price,
+        sell_percentage,
+        slippage_bps,
+        now,
+        now,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(
+    id: UUID | string,
+    client?: QueryClient
+  ): Promise<PositionTrigger | null> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM position_triggers WHERE id = $1",
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lock an active trigger for execution/cancel. Returns null if it is no longer active.
+   */
+  static async findActiveByIdForUpdate(
+    id: UUID | string,
+    client: PoolClient
+  ): Promise<PositionTrigger | null> {
+    const result = await client.query(
+      `SELECT * FROM position_triggers WHERE id = $1 AND status = 'active' FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findActiveByOption(
+    optionId: UUID | string,
+    client?: QueryClient
+  ): Promise<PositionTrigger[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM position_triggers
+       WHERE option_id = $1 AND status = 'active'
+       ORDER BY created_at ASC`,
+      [optionId]
+    );
+    return result.rows;
+  }
+
+  static async findByUserId(
+    userId: UUID | string,
+    filters: {
+      status?: PositionTriggerStatus;
+      optionId?: string;
+    } = {},
+    limit = 50,
+    offset = 0,
+    client?: QueryClient
+  ): Promise<{ triggers: PositionTriggerWithDetails[]; total: number }> {
+    const db = client || pool;
+    const conditions = ["pt.user_id = $1"];
+    const params: any[] = [userId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`pt.status = $${params.length}`);
+    }
+    if (filters.optionId) {
+      params.push(filters.optionId);
+      conditions.push(`pt.option_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(" AND ");
+
+    const [triggersResult, countResult] = await Promise.all([
+      db.query(
+        `
+        SELECT pt.*, m.question as market_question, o.option_label
+        FROM position_triggers pt
+        LEFT JOIN markets m ON pt.market_id = m.id
+        LEFT JOIN market_options o ON pt.option_id = o.id
+        WHERE ${whereClause}
+        ORDER BY pt.created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+        [...params, limit, offset]
+      ),
+      db.query(
+        `SELECT COUNT(*)::int as count FROM position_triggers pt WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    return {
+      triggers: triggersResult.rows,
+      total: countResult.rows[0]?.count || 0,
+    };
+  }
+
+  /**
+   * Options with at least one active trigger whose price moved since `since` (unix seconds).
+   * Pass 0 to get every option with an active trigger.
+   */
+  static async findOptionsWithPriceChanges(
+    since: number,
+    client?: QueryClient
+  ): Promise<{ option_id: UUID; market_id: UUID }[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT DISTINCT pt.option_id, pt.market_id
+       FROM position_triggers pt
+       WHERE pt.status = 'active'
+         AND ($1::bigint = 0 OR EXISTS (
+           SELECT 1 FROM price_snapshots ps
+           WHERE ps.option_id = pt.option_id AND ps.created_at >= $1
+         ))`,
+      [since]
+    );
+    return result.rows;
+  }
+
+  static async markExecuted(
+    id: UUID | string,
+    tradeId: UUID | string,
+    quantity: number,
+    payout: number,
+    client?: QueryClient
+  ): Promise<PositionTrigger | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE position_triggers SET
+        status = 'executed',
+        executed_trade_id = $2,
+        executed_quantity = $3,
+        executed_payout = $4,
+        triggered_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1
+       RETURNING *`,
+      [id, tradeId, quantity, payout]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Close an active trigger without executing it
+   */
+  static async markClosed(
+    id: UUID | string,
+    status: "failed" | "cancelled" | "expired",
+    reason: string | null,
+    client?: QueryClient
+  ): Promise<PositionTrigger | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE position_triggers SET
+        status = $2,
+        failure_reason = $3,
+        triggered_at = CASE WHEN $2 = 'failed' THEN EXTRACT(EPOCH FROM NOW())::BIGINT ELSE triggered_at END,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1 AND status = 'active'
+       RETURNING *`,
+      [id, status, reason]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Expire all active triggers on an option (e.g. when it resolves)
+   */
+  static async expireByOption(
+    optionId: UUID | string,
+    reason: string,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE position_triggers SET
+        status = 'expired',
+        failure_reason = $2,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE option_id = $1 AND status = 'active'`,
+      [optionId, reason]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Expire all active triggers on a market
+   */
+  static async expireByMarket(
+    marketId: UUID | string,
+    reason: string,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE position_triggers SET
+        status = 'expired',
+        failure_reason = $2,
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE market_id = $1 AND status = 'active'`,
+      [marketId, reason]
+    );
+    return result.rowCount || 0;
+  }
+}
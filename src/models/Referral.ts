@@ -27,6 +27,28 @@ export interface Referral {
   rewarded_at: number;
 }
 
+export interface ReferralReward {
+  id: UUID;
+  referral_id: UUID;
+  referrer_id: UUID;
+  referred_id: UUID;
+  market_id: UUID | null;
+  option_id: UUID | null;
+  trade_type: "buy" | "sell";
+  protocol_fee: number;
+  reward_amount: number;
+  payout_id: UUID | null;
+  created_at: number;
+}
+
+export interface ReferralPayout {
+  id: UUID;
+  user_id: UUID;
+  amount: number;
+  reward_count: number;
+  created_at: number;
+}
+
 export interface ReferralWithDetails extends Referral {
   referred_username?: string;
   referrer_username?: string;
@@ -276,6 +298,172 @@ export class ReferralModel {
     return result.rows[0];
   }
 
+  static async findByReferredId(
+    referredId: UUID | string,
+    client?: QueryClient
+  ): Promise<Referral | null> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM referrals WHERE referred_id = $1",
+      [referredId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Accrue a fee-share reward for a referred user's trade.
+   * Runs inside the trade transaction so the reward and the fee split commit together.
+   */
+  static async accrueReward(
+    referral: Referral,
+    data: {
+      market_id: UUID | string;
+      option_id: UUID | string;
+      trade_type: "buy" | "sell";
+      protocol_fee: number;
+      reward_amount: number;
+    },
+    client: PoolClient
+  ): Promise<ReferralReward> {
+    const result = await client.query(
+      `
+      INSERT INTO referral_rewards (
+        referral_id, referrer_id, referred_id, market_id, option_id,
+        trade_type, protocol_fee, reward_amount, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, EXTRACT(EPOCH FROM NOW())::BIGINT)
+      RETURNING *
+    `,
+      [
+        referral.id,
+        referral.referrer_id,
+        referral.referred_id,
+        data.market_id,
+        data.option_id,
+        data.trade_type,
+        data.protocol_fee,
+        data.reward_amount,
+      ]
+    );
+
+    await client.query(
+      `
+      UPDATE referrals
+      SET
+        referrer_reward = referrer_reward + $1,
+        is_rewarded = TRUE,
+        rewarded_at = CASE WHEN is_rewarded THEN rewarded_at ELSE EXTRACT(EPOCH FROM NOW())::BIGINT END
+      WHERE id = $2
+    `,
+      [data.reward_amount, referral.id]
+    );
+
+    await client.query(
+      `
+      UPDATE referral_codes
+      SET total_earnings = total_earnings + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+      WHERE id = $2
+    `,
+      [data.reward_amount, referral.referral_code_id]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Micro-USDC of accrued rewards not yet claimed to the wallet
+   */
+  static async getClaimableAmount(
+    userId: UUID | string,
+    client?: QueryClient
+  ): Promise<{ amount: number; reward_count: number }> {
+    const db = client || pool;
+    const result = await db.query(
+      `
+      SELECT COALESCE(SUM(reward_amount), 0)::bigint as amount, COUNT(*)::int as reward_count
+      FROM referral_rewards
+      WHERE referrer_id = $1 AND payout_id IS NULL
+    `,
+      [userId]
+    );
+    return {
+      amount: Number(result.rows[0]?.amount || 0),
+      reward_count: result.rows[0]?.reward_count || 0,
+    };
+  }
+
+  /**
+   * Attach every unclaimed reward of a user to a new payout record.
+   * Returns null if there is nothing to claim. Caller credits the wallet.
+   */
+  static async createPayout(
+    userId: UUID | string,
+    client: PoolClient
+  ): Promise<ReferralPayout | null> {
+    const rewardsResult = await client.query(
+      `SELECT id, reward_amount FROM referral_rewards
+       WHERE referrer_id = $1 AND payout_id IS NULL
+       FOR UPDATE`,
+      [userId]
+    );
+    if (rewardsResult.rows.length === 0) {
+      return null;
+    }
+
+    const amount = rewardsResult.rows.reduce(
+      (sum: number, row: any) => sum + Number(row.reward_amount),
+      0
+    );
+    if (amount <= 0) {
+      return null;
+    }
+
+    const payoutResult = await client.query(
+      `
+      INSERT INTO referral_payouts (user_id, amount, reward_count, created_at)
+      VALUES ($1, $2, $3, EXTRACT(EPOCH FROM NOW())::BIGINT)
+      RETURNING *
+    `,
+      [userId, amount, rewardsResult.rows.length]
+    );
+    const payout = payoutResult.rows[0];
+
+    await client.query(
+      `UPDATE referral_rewards SET payout_id = $1 WHERE id = ANY($2::uuid[])`,
+      [payout.id, rewardsResult.rows.map((row: any) => row.id)]
+    );
+
+    return payout;
+  }
+
+  static async getPayouts(
+    userId: UUID | string,
+    limit = 50,
+    offset = 0,
+    client?: QueryClient
+  ): Promise<{ payouts: ReferralPayout[]; total: number }> {
+    const db = client || pool;
+    const [payoutsResult, countResult] = await Promise.all([
+      db.query(
+        `
+        SELECT * FROM referral_payouts
+        WHERE user_id = $1
+        ORDER BY created_at DESC
+        LIMIT $2 OFFSET $3
+      `,
+        [userId, limit, offset]
+      ),
+      db.query(
+        "SELECT COUNT(*)::int as count FROM referral_payouts WHERE user_id = $1",
+        [userId]
+      ),
+    ]);
+
+    return {
+      payouts: payoutsResult.rows,
+      total: countResult.rows[0]?.count || 0,
+    };
+  }
+
   static async hasBeenReferred(
     userId: UUID | string,
     client?: QueryClient
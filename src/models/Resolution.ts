@@ -9,6 +9,7 @@ export enum ResolutionMode {
   ORACLE = "ORACLE",
   AUTHORITY = "AUTHORITY",
   OPINION = "OPINION",
+  CONSENSUS = "CONSENSUS",
 }
 
 export enum MarketStatus {
@@ -16,13 +17,16 @@ export enum MarketStatus {
   RESOLVING = "RESOLVING",
   RESOLVED = "RESOLVED",
   DISPUTED = "DISPUTED",
+  VOIDED = "VOIDED",
 }
 
 export interface ResolutionSubmission {
   id: UUID;
   market_id: UUID;
+  option_id?: UUID | null;
   user_id: UUID;
   outcome: string;
+  numeric_outcome?: string | null; // scalar markets: submitted value (NUMERIC)
   evidence: any | null;
   signature: string | null;
   submitted_at: number;
@@ -42,24 +46,52 @@ export interface ResolutionConfig {
   // For ORACLE: platform admins resolve
   // For AUTHORITY: creator or admin can resolve
   // Additional configuration options
-  quorumSize?: number;
-  minJurors?: number;
-  consensusThreshold?: number;
+  // For CONSENSUS: bonded jurors commit then reveal YES/NO votes per option
+  quorumSize?: number; // Minimum revealed votes for a tally
+  minJurors?: number; // Minimum jurors on the panel
+  consensusThreshold?: number; // Share of revealed votes the winner needs (0.5-1)
+  minoritySlashBps?: number; // Share of bond_committed slashed from minority/absent jurors
+  commitWindowHours?: number; // Commit phase length, starting at expiration
+  revealWindowHours?: number; // Reveal phase length, starting at the commit deadline
   // For OPINION: snapshot_timestamp
   snapshotTimestamp?: number;
   // Common: bond_amount, dispute_window_hours
   bondAmount?: number;
   disputeWindowHours?: number;
+  // Hours after trading closes (after the reveal phase for CONSENSUS/OPINION)
+  // before an unresolved market is escalated to platform admins
+  resolutionDeadlineHours?: number;
   // Escalation path
   escalationPath?: string;
 }
 
+export type ResolutionCommitmentStatus = "committed" | "revealed" | "forfeited";
+
+/**
+ * Hidden OPINION submission (commit phase) backed by a bond
+ */
+export interface ResolutionCommitment {
+  id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  user_id: UUID;
+  commitment: string;
+  bond_amount: number;
+  status: ResolutionCommitmentStatus;
+  submission_id: UUID | null;
+  committed_at: number;
+  revealed_at: number | null;
+  forfeited_at: number | null;
+}
+
 export class ResolutionSubmissionModel {
   static async create(
     data: {
       market_id: string;
+      option_id?: string | null;
       user_id: string;
       outcome: string;
+      numeric_outcome?: number | string | null;
       evidence?: any;
       signature?: string;
     },
@@ -69,14 +101,16 @@ export class ResolutionSubmissionModel {
     const now = Math.floor(Date.now() / 1000);
 
     const query = `
-      INSERT INTO resolution_submissions (market_id, user_id, outcome, evidence, signature, submitted_at)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO resolution_submissions (market_id, option_id, user_id, outcome, numeric_outcome, evidence, signature, submitted_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `;
     const values = [
       data.market_id,
+      data.option_id || null,
       data.user_id,
       data.outcome,
+      data.numeric_outcome ?? null,
       prepareJsonb(data.evidence),
       data.signature || null,
       now,
@@ -127,6 +161,136 @@ export class ResolutionSubmissionModel {
   }
 }
 
+export class ResolutionCommitmentModel {
+  static async create(
+    data: {
+      market_id: string;
+      option_id: string;
+      user_id: string;
+      commitment: string;
+      bond_amount: number;
+    },
+    client?: QueryClient
+  ): Promise<ResolutionCommitment> {
+    const db = client || pool;
+    const query = `
+      INSERT INTO resolution_commitments (market_id, option_id, user_id, commitment, bond_amount, committed_at)
+      VALUES ($1, $2, $3, $4, $5, EXTRACT(EPOCH FROM NOW())::BIGINT)
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.market_id,
+      data.option_id,
+      data.user_id,
+      data.commitment,
+      data.bond_amount,
+    ]);
+    return result.rows[0];
+  }
+
+  static async findByOptionAndUser(
+    optionId: string,
+    userId: string,
+    client?: QueryClient
+  ): Promise<ResolutionCommitment | null> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM resolution_commitments WHERE option_id = $1 AND user_id = $2
+    `;
+    const result = await db.query(query, [optionId, userId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByMarket(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<ResolutionCommitment[]> {
+    const db = client || pool;
+    const query = `
+      SELECT * FROM resolution_commitments
+      WHERE market_id = $1
+      ORDER BY committed_at ASC
+    `;
+    const result = await db.query(query, [marketId]);
+    return result.rows;
+  }
+
+  /**
+   * Replace a commitment that hasn't been revealed yet
+   */
+  static async updateCommitment(
+    id: string,
+    commitment: string,
+    client?: QueryClient
+  ): Promise<ResolutionCommitment | null> {
+    const db = client || pool;
+    const query = `
+      UPDATE resolution_commitments
+      SET commitment = $1, committed_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+      WHERE id = $2 AND status = 'committed'
+      RETURNING *
+    `;
+    const result = await db.query(query, [commitment, id]);
+    return result.rows[0] || null;
+  }
+
+  static async markRevealed(
+    id: string,
+    submissionId: string,
+    client?: QueryClient
+  ): Promise<ResolutionCommitment | null> {
+    const db = client || pool;
+    const query = `
+      UPDATE resolution_commitments
+      SET status = 'revealed', submission_id = $1, revealed_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+      WHERE id = $2 AND status = 'committed'
+      RETURNING *
+    `;
+    const result = await db.query(query, [submissionId, id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Forfeit every unrevealed commitment on a market. Returns the forfeited rows.
+   */
+  static async forfeitUnrevealed(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<ResolutionCommitment[]> {
+    const db = client || pool;
+    const query = `
+      UPDATE resolution_commitments
+      SET status = 'forfeited', forfeited_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+      WHERE market_id = $1 AND status = 'committed'
+      RETURNING *
+    `;
+    const result = await db.query(query, [marketId]);
+    return result.rows;
+  }
+
+  /**
+   * Submissions created by revealed commitments on an option, ordered by user
+   */
+  static async findRevealedSubmissions(
+    optionId: string,
+    client?: QueryClient
+  ): Promise<ResolutionSubmission[]> {
+    const db = client || pool;
+    const query = `
+      SELECT s.*
+      FROM resolution_commitments c
+      INNER JOIN resolution_submissions s ON s.id = c.submission_id
+      WHERE c.option_id = $1 AND c.status = 'revealed'
+      ORDER BY c.user_id ASC
+    `;
+    const result = await db.query(query, [optionId]);
+    return result.rows.map((row) => ({
+      ...row,
+      evidence: parseJsonb(row.evidence),
+    }));
+  }
+}
+
 export class MarketResolutionModel {
   static async create(
     data: {
@@ -22,6 +22,7 @@ export interface Resolver {
   type: ResolverType;
   name: string;
   public_key: string | null;
+  user_id: UUID | null;
   bond_balance: number;
   reputation_score: number;
   created_at: number;
@@ -33,9 +34,52 @@ export interface MarketResolver {
   resolver_id: UUID;
   role: ResolverRole;
   bond_committed: number;
+  bond_slashed: number;
+  released_at: number | null;
   created_at: number;
 }
 
+export type ResolverBondEntryType =
+  | "deposit"
+  | "withdraw"
+  | "lock"
+  | "release"
+  | "slash";
+
+export interface ResolverBondLedgerEntry {
+  id: UUID;
+  resolver_id: UUID;
+  entry_type: ResolverBondEntryType;
+  amount: number;
+  bond_balance_after: number;
+  market_id: UUID | null;
+  option_id: UUID | null;
+  reason: string | null;
+  created_at: number;
+}
+
+export type ResolverReputationEventType = "undisputed" | "overturned";
+
+export interface ResolverReputationEvent {
+  id: UUID;
+  resolver_id: UUID;
+  market_id: UUID;
+  option_id: UUID;
+  dispute_id: UUID | null;
+  event_type: ResolverReputationEventType;
+  delta: number;
+  score_after: number;
+  created_at: number;
+}
+
+export interface ResolverStats {
+  markets_resolved: number;
+  undisputed_count: number;
+  overturned_count: number;
+  bond_locked: number;
+  total_slashed: number;
+}
+
 export class ResolverModel {
   static async findById(
     id: string,
@@ -47,6 +91,115 @@ export class ResolverModel {
     return result.rows[0] || null;
   }
 
+  static async findByUserId(
+    userId: string,
+    client?: QueryClient
+  ): Promise<Resolver | null> {
+    const db = client || pool;
+    const query = "SELECT * FROM resolvers WHERE user_id = $1";
+    const result = await db.query(query, [userId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lock a user's resolver row for bond changes
+   */
+  static async findByUserIdForUpdate(
+    userId: string,
+    client: PoolClient
+  ): Promise<Resolver | null> {
+    const result = await client.query(
+      "SELECT * FROM resolvers WHERE user_id = $1 FOR UPDATE",
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Public resolver listing, best reputation first
+   */
+  static async list(
+    filters: { type?: ResolverType; limit: number; offset: number },
+    client?: QueryClient
+  ): Promise<{ resolvers: Resolver[]; total: number }> {
+    const db = client || pool;
+    const where = filters.type ? "WHERE type = $1" : "";
+    const params: any[] = filters.type ? [filters.type] : [];
+
+    const countResult = await db.query(
+      `SELECT COUNT(*)::int AS total FROM resolvers ${where}`,
+      params
+    );
+    const result = await db.query(
+      `SELECT * FROM resolvers ${where}
+       ORDER BY reputation_score DESC, created_at ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit, filters.offset]
+    );
+    return { resolvers: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Track record of a resolver: scored resolutions, currently locked bond
+   * and everything slashed so far
+   */
+  static async getStats(
+    resolverId: string,
+    client?: QueryClient
+  ): Promise<ResolverStats> {
+    const db = client || pool;
+    const query = `
+      SELECT
+        (SELECT COUNT(DISTINCT market_id)::int FROM resolver_reputation_events WHERE resolver_id = $1) AS markets_resolved,
+        (SELECT COUNT(*)::int FROM resolver_reputation_events WHERE resolver_id = $1 AND event_type = 'undisputed') AS undisputed_count,
+        (SELECT COUNT(*)::int FROM resolver_reputation_events WHERE resolver_id = $1 AND event_type = 'overturned') AS overturned_count,
+        (SELECT COALESCE(SUM(bond_committed - bond_slashed), 0)::bigint FROM market_resolvers WHERE resolver_id = $1 AND released_at IS NULL) AS bond_locked,
+        (SELECT COALESCE(SUM(amount), 0)::bigint FROM resolver_bond_ledger WHERE resolver_id = $1 AND entry_type = 'slash') AS total_slashed
+    `;
+    const result = await db.query(query, [resolverId]);
+    const row = result.rows[0];
+    return {
+      markets_resolved: row.markets_resolved,
+      undisputed_count: row.undisputed_count,
+      overturned_count: row.overturned_count,
+      bond_locked: Number(row.bond_locked),
+      total_slashed: Number(row.total_slashed),
+    };
+  }
+
+  /**
+   * Markets a resolver is (or was) assigned to, newest first
+   */
+  static async getMarketAssignments(
+    resolverId: string,
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{
+    assignments: (MarketResolver & {
+      question: string;
+      status: string;
+      resolution_mode: string;
+    })[];
+    total: number;
+  }> {
+    const db = client || pool;
+    const countResult = await db.query(
+      "SELECT COUNT(*)::int AS total FROM market_resolvers WHERE resolver_id = $1",
+      [resolverId]
+    );
+    const result = await db.query(
+      `SELECT mr.*, m.question, m.status, m.resolution_mode
+       FROM market_resolvers mr
+       INNER JOIN markets m ON m.id = mr.market_id
+       WHERE mr.resolver_id = $1
+       ORDER BY mr.created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [resolverId, limit, offset]
+    );
+    return { assignments: result.rows, total: countResult.rows[0].total };
+  }
+
   static async findByType(
     type: ResolverType,
     client?: QueryClient
@@ -72,6 +225,7 @@ export class ResolverModel {
       type: ResolverType;
       name: string;
       public_key?: string | null;
+      user_id?: string | null;
       bond_balance?: number;
       reputation_score?: number;
     },
@@ -80,14 +234,15 @@ export class ResolverModel {
     const db = client || pool;
     const now = Math.floor(Date.now() / 1000);
     const query = `
-      INSERT INTO resolvers (type, name, public_key, bond_balance, reputation_score, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO resolvers (type, name, public_key, user_id, bond_balance, reputation_score, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `;
     const values = [
       data.type,
       data.name,
       data.public_key || null,
+      data.user_id || null,
       data.bond_balance || 0,
       data.reputation_score || 0,
       now,
@@ -172,12 +327,15 @@ export class ResolverModel {
       resolver_id: row.resolver_id,
       role: row.role,
       bond_committed: row.bond_committed,
+      bond_slashed: row.bond_slashed,
+      released_at: row.released_at,
       created_at: row.created_at,
       resolver: {
         id: row.id,
         type: row.type,
         name: row.name,
         public_key: row.public_key,
+        user_id: row.user_id,
         bond_balance: row.bond_balance,
         reputation_score: row.reputation_score,
         created_at: row.created_at,
@@ -185,4 +343,204 @@ export class ResolverModel {
       },
     }));
   }
+
+  /**
+   * Get the jurors assigned to a market, ordered by resolver id
+   */
+  static async getJurors(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<(MarketResolver & { user_id: UUID | null; name: string })[]> {
+    const db = client || pool;
+    const query = `
+      SELECT mr.*, r.user_id, r.name
+      FROM market_resolvers mr
+      INNER JOIN resolvers r ON mr.resolver_id = r.id
+      WHERE mr.market_id = $1 AND mr.role = $2
+      ORDER BY mr.resolver_id ASC
+    `;
+    const result = await db.query(query, [marketId, ResolverRole.JUROR]);
+    return result.rows;
+  }
+
+  static async findAssignment(
+    marketId: string,
+    resolverId: string,
+    client?: QueryClient
+  ): Promise<MarketResolver | null> {
+    const db = client || pool;
+    const query =
+      "SELECT * FROM market_resolvers WHERE market_id = $1 AND resolver_id = $2";
+    const result = await db.query(query, [marketId, resolverId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Slash part of a resolver's committed bond on a market
+   */
+  static async slashCommittedBond(
+    marketId: string,
+    resolverId: string,
+    amount: number,
+    client?: QueryClient
+  ): Promise<MarketResolver | null> {
+    const db = client || pool;
+    const query = `
+      UPDATE market_resolvers
+      SET bond_slashed = LEAST(bond_committed, bond_slashed + $1)
+      WHERE market_id = $2 AND resolver_id = $3 AND released_at IS NULL
+      RETURNING *
+    `;
+    const result = await db.query(query, [amount, marketId, resolverId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Return the unslashed part of every locked bond on a market to the
+   * resolvers' bond balances. Returns the released assignments.
+   */
+  static async releaseMarketBonds(
+    marketId: string,
+    client?: QueryClient
+  ): Promise<MarketResolver[]> {
+    const db = client || pool;
+    const query = `
+      WITH released AS (
+        UPDATE market_resolvers
+        SET released_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+        WHERE market_id = $1 AND released_at IS NULL
+        RETURNING *
+      ), credited AS (
+        UPDATE resolvers r
+        SET bond_balance = r.bond_balance + (released.bond_committed - released.bond_slashed),
+            updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+        FROM released
+        WHERE r.id = released.resolver_id
+      )
+      SELECT * FROM released
+    `;
+    const result = await db.query(query, [marketId]);
+    return result.rows;
+  }
+}
+
+export class ResolverBondLedgerModel {
+  /**
+   * Record a bond movement. Call after the balance change so the entry
+   * captures the resolver's free bond balance afterwards.
+   */
+  static async record(
+    data: {
+      resolver_id: string;
+      entry_type: ResolverBondEntryType;
+      amount: number;
+      market_id?: string | null;
+      option_id?: string | null;
+      reason?: string | null;
+    },
+    client?: QueryClient
+  ): Promise<ResolverBondLedgerEntry> {
+    const db = client || pool;
+    const query = `
+      INSERT INTO resolver_bond_ledger (
+        resolver_id, entry_type, amount, bond_balance_after,
+        market_id, option_id, reason, created_at
+      )
+      SELECT r.id, $2, $3, r.bond_balance, $4, $5, $6, EXTRACT(EPOCH FROM NOW())::BIGINT
+      FROM resolvers r
+      WHERE r.id = $1
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.resolver_id,
+      data.entry_type,
+      data.amount,
+      data.market_id || null,
+      data.option_id || null,
+      data.reason || null,
+    ]);
+    return result.rows[0];
+  }
+
+  static async findByResolver(
+    resolverId: string,
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{ entries: ResolverBondLedgerEntry[]; total: number }> {
+    const db = client || pool;
+    const countResult = await db.query(
+      "SELECT COUNT(*)::int AS total FROM resolver_bond_ledger WHERE resolver_id = $1",
+      [resolverId]
+    );
+    const result = await db.query(
+      `SELECT * FROM resolver_bond_ledger
+       WHERE resolver_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [resolverId, limit, offset]
+    );
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+}
+
+export class ResolverReputationEventModel {
+  /**
+   * Record a reputation event. Returns null if the resolver was already
+   * scored for this option and event type.
+   */
+  static async create(
+    data: {
+      resolver_id: string;
+      market_id: string;
+      option_id: string;
+      dispute_id?: string | null;
+      event_type: ResolverReputationEventType;
+      delta: number;
+      score_after: number;
+    },
+    client?: QueryClient
+  ): Promise<ResolverReputationEvent | null> {
+    const db = client || pool;
+    const query = `
+      INSERT INTO resolver_reputation_events (
+        resolver_id, market_id, option_id, dispute_id,
+        event_type, delta, score_after, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, EXTRACT(EPOCH FROM NOW())::BIGINT)
+      ON CONFLICT (resolver_id, option_id, event_type) DO NOTHING
+      RETURNING *
+    `;
+    const result = await db.query(query, [
+      data.resolver_id,
+      data.market_id,
+      data.option_id,
+      data.dispute_id || null,
+      data.event_type,
+      data.delta,
+      data.score_after,
+    ]);
+    return result.rows[0] || null;
+  }
+
+  static async findByResolver(
+    resolverId: string,
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{ events: ResolverReputationEvent[]; total: number }> {
+    const db = client || pool;
+    const countResult = await db.query(
+      "SELECT COUNT(*)::int AS total FROM resolver_reputation_events WHERE resolver_id = $1",
+      [resolverId]
+    );
+    const result = await db.query(
+      `SELECT * FROM resolver_reputation_events
+       WHERE resolver_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [resolverId, limit, offset]
+    );
+    return { events: result.rows, total: countResult.rows[0].total };
+  }
 }
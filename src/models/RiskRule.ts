@@ -0,0 +1,61 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import { RiskRuleConfig } from "../utils/riskRules";
+
+type QueryClient = Pool | PoolClient;
+
+export interface StoredRiskRule extends RiskRuleConfig {
+  name: string;
+  updated_by: UUID | null;
+  updated_at: number;
+}
+
+export class RiskRuleModel {
+  /**
+   * Stored rule settings by rule name
+   */
+  static async findAll(
+    client?: QueryClient
+  ): Promise<Map<string, StoredRiskRule>> {
+    const db = client || pool;
+    const result = await db.query("SELECT * FROM risk_rules");
+    return new Map(
+      result.rows.map((row) => [
+        row.name,
+        { ...row, updated_at: Number(row.updated_at) },
+      ])
+    );
+  }
+
+  static async upsert(
+    name: string,
+    config: RiskRuleConfig,
+    updatedBy: UUID | string | null,
+    client?: QueryClient
+  ): Promise<StoredRiskRule> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO risk_rules (name, enabled, severity, action, params, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (name) DO UPDATE SET
+         enabled = EXCLUDED.enabled,
+         severity = EXCLUDED.severity,
+         action = EXCLUDED.action,
+         params = EXCLUDED.params,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       RETURNING *`,
+      [
+        name,
+        config.enabled,
+        config.severity,
+        config.action,
+        JSON.stringify(config.params),
+        updatedBy,
+      ]
+    );
+    const row = result.rows[0];
+    return { ...row, updated_at: Number(row.updated_at) };
+  }
+}
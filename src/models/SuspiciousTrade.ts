@@ -4,6 +4,17 @@ import { UUID } from "crypto";
 
 type QueryClient = Pool | PoolClient;
 
+// Risk rule names (see services/riskRulesEngine.ts) plus the circuit breaker
+export type DetectionReason =
+  | "suspicious_trade_threshold"
+  | "circuit_breaker"
+  | "volatility_threshold"
+  | "wash_trading"
+  | "round_trip"
+  | "pre_resolution_trading"
+  | "creator_self_trade"
+  | "new_account_cluster";
+
 export interface SuspiciousTrade {
   id: UUID;
   trade_id: UUID | null;
@@ -17,10 +28,7 @@ export interface SuspiciousTrade {
   total_amount: number;
 
   // Detection info
-  detection_reason:
-    | "suspicious_trade_threshold"
-    | "circuit_breaker"
-    | "volatility_threshold";
+  detection_reason: DetectionReason;
   detection_metadata: any;
 
   // Review status
@@ -50,10 +58,7 @@ export interface SuspiciousTradeCreateInput {
   total_amount: number;
 
   // Detection info
-  detection_reason:
-    | "suspicious_trade_threshold"
-    | "circuit_breaker"
-    | "volatility_threshold";
+  detection_reason: DetectionReason;
   detection_metadata?: any;
 
   // Review status (defaults)
@@ -273,6 +278,26 @@ export class SuspiciousTradeModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Whether the user has a trade held by the risk rules that is still
+   * pending review
+   */
+  static async hasPendingHold(
+    userId: UUID | string,
+    client?: QueryClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT 1 FROM suspicious_trades
+       WHERE user_id = $1
+         AND review_status = 'pending'
+         AND detection_metadata->>'action' = 'hold'
+       LIMIT 1`,
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
   static async getStats(client?: QueryClient): Promise<{
     total_pending: number;
     total_reviewed: number;
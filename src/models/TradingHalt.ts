@@ -0,0 +1,301 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+
+type QueryClient = Pool | PoolClient;
+
+export type TradingHaltSource = "admin" | "volatility" | "liquidity";
+
+export interface TradingHalt {
+  id: UUID;
+  market_id: UUID;
+  option_id: UUID | null;
+  source: TradingHaltSource;
+  reason: string;
+  is_active: boolean;
+  halted_by: UUID | null;
+  resume_at: number | null;
+  resumed_at: number | null;
+  resumed_by: UUID | null;
+  metadata: Record<string, any> | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface TradingHaltCreateInput {
+  market_id: UUID | string;
+  option_id?: UUID | string | null;
+  source: TradingHaltSource;
+  reason: string;
+  halted_by?: UUID | string | null;
+  resume_at?: number | null;
+  metadata?: Record<string, any>;
+}
+
+export interface CircuitBreakerState {
+  id: UUID;
+  breaker_type: string;
+  is_open: boolean;
+  error_count: number;
+  last_error_at: number | null;
+  opened_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const toHalt = (row: any): TradingHalt => ({
+  ...row,
+  resume_at: row.resume_at === null ? null : Number(row.resume_at),
+  resumed_at: row.resumed_at === null ? null : Number(row.resumed_at),
+  created_at: Number(row.created_at),
+  updated_at: Number(row.updated_at),
+});
+
+export class TradingHaltModel {
+  /**
+   * Create a halt. Returns null if the market or option already has an
+   * active halt, without aborting the caller's transaction.
+   */
+  static async create(
+    data: TradingHaltCreateInput,
+    client?: QueryClient
+  ): Promise<TradingHalt | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO trading_halts (
+         market_id, option_id, source, reason, halted_by, resume_at, metadata
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [
+        data.market_id,
+        data.option_id ?? null,
+        data.source,
+        data.reason,
+        data.halted_by ?? null,
+        data.resume_at ?? null,
+        data.metadata ? JSON.stringify(data.metadata) : null,
+      ]
+    );
+    return result.rows[0] ? toHalt(result.rows[0]) : null;
+  }
+
+  static async findById(
+    id: UUID | string,
+    client?: QueryClient
+  ): Promise<TradingHalt | null> {
+    const db = client || pool;
+    const result = await db.query("SELECT * FROM trading_halts WHERE id = $1", [
+      id,
+    ]);
+    return result.rows[0] ? toHalt(result.rows[0]) : null;
+  }
+
+  /**
+   * Active halt on the market, or on one of its options when optionId is
+   * given (null to check the market-wide halt only). Halts past their
+   * resume_at no longer count, even before the sweeper closes them.
+   */
+  static async findBlocking(
+    marketId: UUID | string,
+    optionId: UUID | string | null,
+    now: number,
+    client?: QueryClient
+  ): Promise<TradingHalt | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM trading_halts
+       WHERE market_id = $1
+         AND is_active = TRUE
+         AND (option_id IS NULL OR option_id = $2)
+         AND (resume_at IS NULL OR resume_at > $3)
+       ORDER BY option_id NULLS FIRST
+       LIMIT 1`,
+      [marketId, optionId, now]
+    );
+    return result.rows[0] ? toHalt(result.rows[0]) : null;
+  }
+
+  /**
+   * Active halt on exactly this market (option_id NULL) or option
+   */
+  static async findActive(
+    marketId: UUID | string,
+    optionId: UUID | string | null,
+    client?: QueryClient
+  ): Promise<TradingHalt | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM trading_halts
+       WHERE market_id = $1
+         AND is_active = TRUE
+         AND option_id IS NOT DISTINCT FROM $2
+       LIMIT 1`,
+      [marketId, optionId]
+    );
+    return result.rows[0] ? toHalt(result.rows[0]) : null;
+  }
+
+  /**
+   * Halts with market question and option label, active first, newest first
+   */
+  static async findAll(
+    filters: { marketId?: string; activeOnly: boolean },
+    limit: number,
+    offset: number,
+    client?: QueryClient
+  ): Promise<{
+    halts: (TradingHalt & { question: string; option_label: string | null })[];
+    total: number;
+  }> {
+    const db = client || pool;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.activeOnly) {
+      conditions.push("h.is_active = TRUE");
+    }
+    if (filters.marketId) {
+      params.push(filters.marketId);
+      conditions.push(`h.market_id = $${params.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const [haltsResult, countResult] = await Promise.all([
+      db.query(
+        `SELECT h.*, m.question, o.option_label
+         FROM trading_halts h
+         JOIN markets m ON m.id = h.market_id
+         LEFT JOIN market_options o ON o.id = h.option_id
+         ${where}
+         ORDER BY h.is_active DESC, h.created_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      db.query(
+        `SELECT COUNT(*)::int AS count FROM trading_halts h ${where}`,
+        params
+      ),
+    ]);
+
+    return {
+      halts: haltsResult.rows.map((row) => ({
+        ...toHalt(row),
+        question: row.question,
+        option_label: row.option_label,
+      })),
+      total: countResult.rows[0].count,
+    };
+  }
+
+  /**
+   * Active halts whose resume_at has passed
+   */
+  static async findDue(
+    now: number,
+    client?: QueryClient
+  ): Promise<TradingHalt[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM trading_halts
+       WHERE is_active = TRUE AND resume_at IS NOT NULL AND resume_at <= $1
+       ORDER BY resume_at ASC`,
+      [now]
+    );
+    return result.rows.map(toHalt);
+  }
+
+  /**
+   * Close an active halt. Returns null if it was already closed.
+   */
+  static async resume(
+    id: UUID | string,
+    resumedBy: UUID | string | null,
+    client?: QueryClient
+  ): Promise<TradingHalt | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE trading_halts
+       SET is_active = FALSE,
+           resumed_at = EXTRACT(EPOCH FROM NOW())::BIGINT,
+           resumed_by = $2,
+           updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1 AND is_active = TRUE
+       RETURNING *`,
+      [id, resumedBy]
+    );
+    return result.rows[0] ? toHalt(result.rows[0]) : null;
+  }
+
+  static async countActiveBySource(
+    source: TradingHaltSource,
+    client?: QueryClient
+  ): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COUNT(*)::int AS count FROM trading_halts
+       WHERE source = $1 AND is_active = TRUE`,
+      [source]
+    );
+    return result.rows[0].count;
+  }
+}
+
+export class CircuitBreakerStateModel {
+  /**
+   * Open a breaker and count the trip
+   */
+  static async recordTrip(
+    breakerType: string,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO circuit_breaker_state (
+         breaker_type, is_open, error_count, last_error_at, opened_at
+       )
+       VALUES (
+         $1, TRUE, 1,
+         EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
+       )
+       ON CONFLICT (breaker_type) DO UPDATE SET
+         is_open = TRUE,
+         error_count = circuit_breaker_state.error_count + 1,
+         last_error_at = EXCLUDED.last_error_at,
+         opened_at = CASE
+           WHEN circuit_breaker_state.is_open THEN circuit_breaker_state.opened_at
+           ELSE EXCLUDED.opened_at
+         END,
+         updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT`,
+      [breakerType]
+    );
+  }
+
+  static async close(breakerType: string, client?: QueryClient): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `UPDATE circuit_breaker_state
+       SET is_open = FALSE, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE breaker_type = $1 AND is_open = TRUE`,
+      [breakerType]
+    );
+  }
+
+  static async findAll(client?: QueryClient): Promise<CircuitBreakerState[]> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM circuit_breaker_state ORDER BY breaker_type ASC"
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      last_error_at:
+        row.last_error_at === null ? null : Number(row.last_error_at),
+      opened_at: row.opened_at === null ? null : Number(row.opened_at),
+      created_at: Number(row.created_at),
+      updated_at: Number(row.updated_at),
+    }));
+  }
+}
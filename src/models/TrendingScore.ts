@@ -0,0 +1,132 @@
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { UUID } from "crypto";
+import {
+  RankedTrendingScore,
+  TrendingComponent,
+  TrendingComponentScore,
+} from "../utils/trending";
+
+type QueryClient = Pool | PoolClient;
+
+const toScore = (row: any) => ({
+  ...row,
+  score: Number(row.score),
+  computed_at: Number(row.computed_at),
+});
+
+export interface MarketTrendingScore {
+  market_id: UUID;
+  score: number;
+  rank: number | null;
+  previous_rank: number | null;
+  breakdown: Record<TrendingComponent, TrendingComponentScore>;
+  computed_at: number;
+}
+
+export class TrendingScoreModel {
+  /**
+   * Current rank of every scored market
+   */
+  static async findRanks(
+    client?: QueryClient
+  ): Promise<Map<string, number | null>> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT market_id, rank FROM market_trending_scores"
+    );
+    return new Map(result.rows.map((row) => [row.market_id, row.rank]));
+  }
+
+  /**
+   * Replace all scores with a new run's: upserts the scored markets, drops
+   * the rest and copies each score to markets.trending_score. Run inside
+   * a transaction.
+   */
+  static async replaceAll(
+    scores: RankedTrendingScore[],
+    previousRanks: Map<string, number | null>,
+    computedAt: number,
+    client: PoolClient
+  ): Promise<void> {
+    const marketIds = scores.map((score) => score.market_id);
+
+    if (scores.length > 0) {
+      await client.query(
+        `INSERT INTO market_trending_scores (
+           market_id, score, rank, previous_rank, breakdown, computed_at
+         )
+         SELECT * FROM UNNEST(
+           $1::uuid[], $2::bigint[], $3::int[], $4::int[], $5::jsonb[], $6::bigint[]
+         )
+         ON CONFLICT (market_id) DO UPDATE SET
+           score = EXCLUDED.score,
+           rank = EXCLUDED.rank,
+           previous_rank = EXCLUDED.previous_rank,
+           breakdown = EXCLUDED.breakdown,
+           computed_at = EXCLUDED.computed_at`,
+        [
+          marketIds,
+          scores.map((score) => score.score),
+          scores.map((score) => score.rank),
+          scores.map((score) => previousRanks.get(score.market_id) ?? null),
+          scores.map((score) => JSON.stringify(score.breakdown)),
+          scores.map(() => computedAt),
+        ]
+      );
+    }
+
+    await client.query(
+      `DELETE FROM market_trending_scores WHERE NOT (market_id = ANY($1::uuid[]))`,
+      [marketIds]
+    );
+
+    await client.query(
+      `UPDATE markets m
+       SET trending_score = s.score
+       FROM UNNEST($1::uuid[], $2::bigint[]) AS s(market_id, score)
+       WHERE m.id = s.market_id AND m.trending_score IS DISTINCT FROM s.score`,
+      [marketIds, scores.map((score) => score.score)]
+    );
+    await client.query(
+      `UPDATE markets SET trending_score = 0
+       WHERE trending_score <> 0 AND NOT (id = ANY($1::uuid[]))`,
+      [marketIds]
+    );
+  }
+
+  /**
+   * Score and breakdown of a market
+   */
+  static async findByMarketId(
+    marketId: UUID | string,
+    client?: QueryClient
+  ): Promise<MarketTrendingScore | null> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM market_trending_scores WHERE market_id = $1",
+      [marketId]
+    );
+    return result.rows[0] ? toScore(result.rows[0]) : null;
+  }
+
+  /**
+   * Ranked markets with their question, highest first
+   */
+  static async findTop(
+    limit: number,
+    client?: QueryClient
+  ): Promise<(MarketTrendingScore & { question: string })[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT s.*, m.question
+       FROM market_trending_scores s
+       JOIN markets m ON m.id = s.market_id
+       WHERE s.rank IS NOT NULL
+       ORDER BY s.rank ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(toScore);
+  }
+}
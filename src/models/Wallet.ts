@@ -116,6 +116,28 @@ export class WalletModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Find the wallets with any of the given public keys
+   * @param publicKeys - Wallet public keys
+   * @param client - Optional database client for transaction support
+   * @returns Matching wallets
+   */
+  static async findByPublicKeys(
+    publicKeys: string[],
+    client?: QueryClient
+  ): Promise<Wallet[]> {
+    if (!publicKeys.length) {
+      return [];
+    }
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM wallets WHERE public_key = ANY($1)",
+      [publicKeys]
+    );
+
+    return result.rows;
+  }
+
   /**
    * Delete wallet by ID
    * @param id - Wallet ID
@@ -286,6 +308,54 @@ export class WalletModel {
     );
   }
 
+  /**
+   * Last processed signature per token mint for a wallet (tokens other
+   * than USDC, which uses last_signature)
+   * @param id - Wallet ID
+   * @param client - Optional database client for transaction support
+   * @returns Map of mint address to signature
+   */
+  static async findTokenCursors(
+    id: UUID | string,
+    client?: QueryClient
+  ): Promise<Map<string, string>> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT token_mint, last_signature FROM wallet_token_cursors WHERE wallet_id = $1`,
+      [id]
+    );
+    return new Map(
+      result.rows.map((row) => [row.token_mint, row.last_signature])
+    );
+  }
+
+  /**
+   * Update the last processed signature for one of a wallet's token accounts
+   * @param id - Wallet ID
+   * @param tokenMint - Token mint address
+   * @param signature - Newest processed signature
+   * @param slot - Slot of the signature
+   * @param client - Optional database client for transaction support
+   */
+  static async updateTokenCursor(
+    id: UUID | string,
+    tokenMint: string,
+    signature: string,
+    slot: number,
+    client?: QueryClient
+  ): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `INSERT INTO wallet_token_cursors (wallet_id, token_mint, last_signature, last_signature_slot, updated_at)
+       VALUES ($1, $2, $3, $4, EXTRACT(EPOCH FROM NOW())::BIGINT)
+       ON CONFLICT (wallet_id, token_mint) DO UPDATE SET
+         last_signature = EXCLUDED.last_signature,
+         last_signature_slot = EXCLUDED.last_signature_slot,
+         updated_at = EXCLUDED.updated_at`,
+      [id, tokenMint, signature, slot]
+    );
+  }
+
   /**
    * Update wallet balances
    * @param id - Wallet ID
@@ -10,6 +10,16 @@ import {
   toggleMarketFeatured,
   toggleMarketVerified,
   updateMarketCategories,
+  voidMarket,
+  replayMarket,
+  getTrendingScores,
+  getMarketTrendingScore,
+  getLiquidityAlerts,
+  acknowledgeLiquidityAlert,
+  runLiquidityCheck,
+  getTradingHalts,
+  haltMarketTrading,
+  resumeTradingHalt,
   processWithdrawal,
   getPendingWithdrawals,
   getAdminStats,
@@ -22,6 +32,9 @@ import {
   getAdminSettingsGroup,
   getSuspiciousTrades,
   getSuspiciousTradesStats,
+  getRiskRules,
+  updateRiskRule,
+  getUserAccountLinks,
   reviewSuspiciousTrade,
   getUserSuspiciousTrades,
   toggleUserAdmin,
@@ -31,15 +44,51 @@ import {
   getDispute,
   resolveDispute,
 } from "../controllers/controller_admin";
+import {
+  getMfaStatus,
+  enrollMfa,
+  confirmMfaEnrollment,
+  verifyMfa,
+  endAdminSession,
+} from "../controllers/controller_mfa";
+import {
+  getAdminAuditLog,
+  exportAdminAuditLog,
+  verifyAdminAuditLog,
+} from "../controllers/controller_audit";
+import {
+  getLedgerReconciliations,
+  getUserLedger,
+  runLedgerReconciliation,
+} from "../controllers/controller_ledger";
+import { getDepositWebhookDeadLetters } from "../controllers/controller_webhook";
 import { authenticateToken } from "../middleware/auth";
-import { requireAdmin } from "../middleware/admin";
+import {
+  requireAdmin,
+  requireAdminRole,
+  requireStepUp,
+} from "../middleware/admin";
 import { adminLimiter } from "../middleware/rateLimit";
 import { typedHandler } from "../types/routeHandler";
 
 const router = Router();
 
-// All admin routes require authentication, admin role, and rate limiting
-router.use(authenticateToken as any, requireAdmin as any, adminLimiter);
+// MFA enrollment and sign-in only require the admin role, since they are
+// how an admin obtains an MFA-verified session
+const mfaRouter = Router();
+mfaRouter.use(authenticateToken as any, requireAdminRole, adminLimiter);
+mfaRouter.get("/status", typedHandler(getMfaStatus));
+mfaRouter.post("/enroll", typedHandler(enrollMfa));
+mfaRouter.post("/enroll/confirm", typedHandler(confirmMfaEnrollment));
+mfaRouter.post("/verify", typedHandler(verifyMfa));
+router.use("/mfa", mfaRouter);
+
+// All other admin routes require authentication, admin role, an MFA-verified
+// admin session, and rate limiting
+router.use(authenticateToken as any, requireAdmin, adminLimiter);
+
+// Admin session
+router.delete("/mfa/session", typedHandler(endAdminSession));
 
 // Platform management
 router.get("/pause", typedHandler(getPauseFlags));
@@ -47,30 +96,57 @@ router.post("/pause", typedHandler(setPauseFlags));
 
 // Fee management (off-chain)
 router.get("/fees", typedHandler(getProtocolFees));
-router.post("/fees/withdraw", typedHandler(withdrawProtocolFees));
+router.post(
+  "/fees/withdraw",
+  requireStepUp,
+  typedHandler(withdrawProtocolFees)
+);
 
 // Category management
 router.get("/categories", getCategories);
-router.post("/categories", createCategory);
-router.delete("/categories/:id", deleteCategory);
+router.post("/categories", typedHandler(createCategory));
+router.delete("/categories/:id", typedHandler(deleteCategory));
 
 // Market management
-router.post("/market/:id/feature", toggleMarketFeatured);
-router.post("/market/:id/verify", toggleMarketVerified);
-router.post("/market/:id/categories", updateMarketCategories);
+router.post("/market/:id/feature", typedHandler(toggleMarketFeatured));
+router.post("/market/:id/verify", typedHandler(toggleMarketVerified));
+router.post("/market/:id/categories", typedHandler(updateMarketCategories));
+router.post("/market/:id/void", requireStepUp, typedHandler(voidMarket));
+router.get("/market/:id/replay", typedHandler(replayMarket));
+router.get("/market/:id/trending", typedHandler(getMarketTrendingScore));
+router.get("/trending", typedHandler(getTrendingScores));
+
+// Liquidity monitoring
+router.get("/liquidity/alerts", typedHandler(getLiquidityAlerts));
+router.post(
+  "/liquidity/alerts/:id/acknowledge",
+  typedHandler(acknowledgeLiquidityAlert)
+);
+router.post("/liquidity/check", typedHandler(runLiquidityCheck));
+
+// Trading halts
+router.get("/halts", typedHandler(getTradingHalts));
+router.post("/market/:id/halt", typedHandler(haltMarketTrading));
+router.post("/halts/:id/resume", typedHandler(resumeTradingHalt));
 
 // Withdrawal management
 router.get("/withdrawals/pending", getPendingWithdrawals);
-router.post("/withdrawal/:id/process", processWithdrawal);
+router.post("/withdrawal/:id/process", typedHandler(processWithdrawal));
 
 // User management
 router.get("/users", typedHandler(getUsers));
-router.post("/user/:id/balance", typedHandler(adjustUserBalance));
+router.post(
+  "/user/:id/balance",
+  requireStepUp,
+  typedHandler(adjustUserBalance)
+);
 router.post(
   "/balance-adjustment/:requestId/approve",
+  requireStepUp,
   typedHandler(approveBalanceAdjustment)
 );
-router.post("/user/:id/admin", typedHandler(toggleUserAdmin));
+router.post("/user/:id/admin", requireStepUp, typedHandler(toggleUserAdmin));
+router.get("/user/:id/links", typedHandler(getUserAccountLinks));
 
 // Dashboard stats
 router.get("/stats", getAdminStats);
@@ -80,6 +156,7 @@ router.get("/hot-wallet", getHotWalletStatus);
 router.post("/circle-hot-wallet", typedHandler(createCircleHotWallet));
 router.post(
   "/hot-wallet/withdraw-to-cold-storage",
+  requireStepUp,
   typedHandler(withdrawToColdStorage)
 );
 
@@ -93,10 +170,32 @@ router.get("/suspicious-trades", typedHandler(getSuspiciousTrades));
 router.get("/suspicious-trades/stats", getSuspiciousTradesStats);
 router.post("/suspicious-trades/:id/review", reviewSuspiciousTrade);
 router.get("/suspicious-trades/user/:userId", getUserSuspiciousTrades);
+router.get("/risk-rules", typedHandler(getRiskRules));
+router.put("/risk-rules/:name", typedHandler(updateRiskRule));
 
 // Dispute management
 router.get("/disputes", typedHandler(getDisputes));
 router.get("/disputes/:id", typedHandler(getDispute));
-router.post("/disputes/:id/resolve", typedHandler(resolveDispute));
+router.post(
+  "/disputes/:id/resolve",
+  requireStepUp,
+  typedHandler(resolveDispute)
+);
+
+// Audit log
+router.get("/audit", typedHandler(getAdminAuditLog));
+router.get("/audit/export", typedHandler(exportAdminAuditLog));
+router.get("/audit/verify", typedHandler(verifyAdminAuditLog));
+
+// Ledger
+router.get("/ledger/reconciliations", typedHandler(getLedgerReconciliations));
+router.post("/ledger/reconcile", typedHandler(runLedgerReconciliation));
+router.get("/ledger/user/:id", typedHandler(getUserLedger));
+
+// Deposits
+router.get(
+  "/deposits/webhook-dead-letters",
+  typedHandler(getDepositWebhookDeadLetters)
+);
 
 export default router;
@@ -31,7 +31,7 @@ router.get("/my-stats", authenticateToken, typedHandler(getMyStats));
 router.get(
   "/platform/history",
   authenticateToken as any,
-  requireAdmin as any,
+  requireAdmin,
   typedHandler(getPlatformStatsHistory)
 );
 
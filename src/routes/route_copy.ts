@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { validateUUID } from "../middleware/validate";
+import { typedHandler } from "../types/routeHandler";
+import {
+  followTrader,
+  unfollowTrader,
+  getCopyFollowing,
+  getCopyFollowers,
+  getCopyLedger,
+} from "../controllers/controller_copy";
+
+const router = Router();
+
+// Copy trading (protected)
+router.post(
+  "/follow/:trader_id",
+  authenticateToken,
+  validateUUID("trader_id"),
+  typedHandler(followTrader)
+);
+router.delete(
+  "/follow/:trader_id",
+  authenticateToken,
+  validateUUID("trader_id"),
+  typedHandler(unfollowTrader)
+);
+router.get("/following", authenticateToken, typedHandler(getCopyFollowing));
+router.get("/followers", authenticateToken, typedHandler(getCopyFollowers));
+router.get("/ledger", authenticateToken, typedHandler(getCopyLedger));
+
+export default router;
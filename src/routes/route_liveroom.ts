@@ -0,0 +1,88 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { validateUUID } from "../middleware/validate";
+import { typedHandler } from "../types/routeHandler";
+import {
+  getActiveLiveRooms,
+  getLiveRoom,
+  getLiveRoomMessages,
+  joinLiveRoom,
+  leaveLiveRoom,
+  promoteParticipant,
+  demoteParticipant,
+  muteParticipant,
+  unmuteParticipant,
+  kickParticipant,
+  closeLiveRoom,
+} from "../controllers/controller_liveroom";
+
+const router = Router();
+
+// Public routes
+router.get("/", typedHandler(getActiveLiveRooms));
+router.get("/:roomId", validateUUID("roomId"), typedHandler(getLiveRoom));
+
+// Participation (protected)
+router.get(
+  "/:roomId/messages",
+  authenticateToken,
+  validateUUID("roomId"),
+  typedHandler(getLiveRoomMessages)
+);
+router.post(
+  "/market/:marketId/join",
+  authenticateToken,
+  validateUUID("marketId"),
+  typedHandler(joinLiveRoom)
+);
+router.post(
+  "/:roomId/leave",
+  authenticateToken,
+  validateUUID("roomId"),
+  typedHandler(leaveLiveRoom)
+);
+
+// Moderation (room hosts and the market creator)
+router.post(
+  "/:roomId/participants/:userId/promote",
+  authenticateToken,
+  validateUUID("roomId"),
+  validateUUID("userId"),
+  typedHandler(promoteParticipant)
+);
+router.post(
+  "/:roomId/participants/:userId/demote",
+  authenticateToken,
+  validateUUID("roomId"),
+  validateUUID("userId"),
+  typedHandler(demoteParticipant)
+);
+router.post(
+  "/:roomId/participants/:userId/mute",
+  authenticateToken,
+  validateUUID("roomId"),
+  validateUUID("userId"),
+  typedHandler(muteParticipant)
+);
+router.post(
+  "/:roomId/participants/:userId/unmute",
+  authenticateToken,
+  validateUUID("roomId"),
+  validateUUID("userId"),
+  typedHandler(unmuteParticipant)
+);
+router.post(
+  "/:roomId/participants/:userId/kick",
+  authenticateToken,
+  validateUUID("roomId"),
+  validateUUID("userId"),
+  typedHandler(kickParticipant)
+);
+router.post(
+  "/:roomId/close",
+  authenticateToken,
+  validateUUID("roomId"),
+  typedHandler(closeLiveRoom)
+);
+
+export default router;
@@ -28,6 +28,7 @@ import {
   getMarketCreationFee,
   getMarketOEmbed,
   getMarketMeta,
+  getMarketStatusHistory,
 } from "../controllers/controller_market";
 import { getCategories } from "../controllers/controller_admin";
 
@@ -115,6 +116,11 @@ router.get(
 router.get("/:id", validateUUID("id"), typedHandler(getMarket));
 router.get("/:id/oembed", validateUUID("id"), typedHandler(getMarketOEmbed));
 router.get("/:id/meta", validateUUID("id"), typedHandler(getMarketMeta));
+router.get(
+  "/:id/status-history",
+  validateUUID("id"),
+  typedHandler(getMarketStatusHistory)
+);
 router.post("/estimate-buy", typedHandler(estimateBuyCost));
 router.post("/estimate-sell", typedHandler(estimateSellPayout));
 
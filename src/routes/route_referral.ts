@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { typedHandler } from "../types/routeHandler";
+import {
+  getReferralStats,
+  getReferrals,
+  getReferralPayouts,
+  claimReferralRewards,
+} from "../controllers/controller_referral";
+
+const router = Router();
+
+// Referral program (protected)
+router.get("/stats", authenticateToken, typedHandler(getReferralStats));
+router.get("/referrals", authenticateToken, typedHandler(getReferrals));
+router.get("/payouts", authenticateToken, typedHandler(getReferralPayouts));
+router.post("/claim", authenticateToken, typedHandler(claimReferralRewards));
+
+export default router;
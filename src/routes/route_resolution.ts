@@ -7,6 +7,21 @@ import {
   getResolution,
   disputeResolution,
 } from "../controllers/controller_resolution";
+import {
+  depositJurorBond,
+  withdrawJurorBond,
+  getJurorPanel,
+  enlistJuror,
+  commitJurorVote,
+  revealJurorVote,
+} from "../controllers/controller_consensus";
+import {
+  getResolvers,
+  getResolverProfile,
+  getResolverReputation,
+  getResolverBondLedger,
+  getResolverMarkets,
+} from "../controllers/controller_resolver";
 
 const router = Router();
 
@@ -14,7 +29,59 @@ const router = Router();
 router.post("/submit", authenticateToken, typedHandler(submitResolution));
 router.post("/dispute", authenticateToken, typedHandler(disputeResolution));
 
+// CONSENSUS juror routes
+router.post("/jurors/bond", authenticateToken, typedHandler(depositJurorBond));
+router.post(
+  "/jurors/bond/withdraw",
+  authenticateToken,
+  typedHandler(withdrawJurorBond)
+);
+router.post(
+  "/:marketId/jurors",
+  authenticateToken,
+  validateUUID("marketId"),
+  typedHandler(enlistJuror)
+);
+router.post(
+  "/:marketId/votes/commit",
+  authenticateToken,
+  validateUUID("marketId"),
+  typedHandler(commitJurorVote)
+);
+router.post(
+  "/:marketId/votes/reveal",
+  authenticateToken,
+  validateUUID("marketId"),
+  typedHandler(revealJurorVote)
+);
+
 // Public routes
+router.get("/resolvers", typedHandler(getResolvers));
+router.get(
+  "/resolvers/:resolverId",
+  validateUUID("resolverId"),
+  typedHandler(getResolverProfile)
+);
+router.get(
+  "/resolvers/:resolverId/reputation",
+  validateUUID("resolverId"),
+  typedHandler(getResolverReputation)
+);
+router.get(
+  "/resolvers/:resolverId/ledger",
+  validateUUID("resolverId"),
+  typedHandler(getResolverBondLedger)
+);
+router.get(
+  "/resolvers/:resolverId/markets",
+  validateUUID("resolverId"),
+  typedHandler(getResolverMarkets)
+);
 router.get("/:marketId", validateUUID("marketId"), typedHandler(getResolution));
+router.get(
+  "/:marketId/jurors",
+  validateUUID("marketId"),
+  typedHandler(getJurorPanel)
+);
 
 export default router;
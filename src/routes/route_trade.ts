@@ -14,6 +14,12 @@ import {
   getMarketPriceHistory,
   getOHLCData,
   getUserTrades,
+  placeLimitOrder,
+  cancelLimitOrder,
+  getLimitOrders,
+  createPositionTrigger,
+  cancelPositionTrigger,
+  getPositionTriggers,
 } from "../controllers/controller_trade";
 
 const router = Router();
@@ -28,6 +34,37 @@ router.post(
   typedHandler(claimWinnings)
 );
 
+// Limit order routes
+router.post(
+  "/limit-orders",
+  authenticateToken,
+  tradeLimiter,
+  typedHandler(placeLimitOrder)
+);
+router.get("/limit-orders", authenticateToken, typedHandler(getLimitOrders));
+router.delete(
+  "/limit-orders/:id",
+  authenticateToken,
+  tradeLimiter,
+  validateUUID("id"),
+  typedHandler(cancelLimitOrder)
+);
+
+// Stop-loss / take-profit trigger routes
+router.post(
+  "/triggers",
+  authenticateToken,
+  tradeLimiter,
+  typedHandler(createPositionTrigger)
+);
+router.get("/triggers", authenticateToken, typedHandler(getPositionTriggers));
+router.delete(
+  "/triggers/:id",
+  authenticateToken,
+  validateUUID("id"),
+  typedHandler(cancelPositionTrigger)
+);
+
 // Position routes
 router.get(
   "/position/:option",
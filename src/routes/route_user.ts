@@ -17,6 +17,8 @@ import {
   getPositions,
   getLiquidityPositions,
   getPnLSummary,
+  getPortfolioHistory,
+  getStatement,
 } from "../controllers/controller_portfolio";
 import { authenticateToken, optionalAuth } from "../middleware/auth";
 import { typedHandler } from "../types/routeHandler";
@@ -37,6 +39,12 @@ router.get(
   typedHandler(getLiquidityPositions)
 );
 router.get("/portfolio/pnl", authenticateToken, typedHandler(getPnLSummary));
+router.get(
+  "/portfolio/history",
+  authenticateToken,
+  typedHandler(getPortfolioHistory)
+);
+router.get("/statement", authenticateToken, typedHandler(getStatement));
 
 // Wallet management
 router.post(
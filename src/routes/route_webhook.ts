@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { typedHandler } from "../types/routeHandler";
+import { receiveDepositWebhook } from "../controllers/controller_webhook";
+
+const router = Router();
+
+// Provider notifications, authenticated by their HMAC signature
+router.post("/deposits", typedHandler(receiveDepositWebhook));
+
+export default router;
@@ -0,0 +1,118 @@
+import dotenv from "dotenv";
+import path from "path";
+import { pool, initializePool } from "../db";
+import { initializeSecrets } from "../utils/secrets";
+import {
+  MarketReplayService,
+  MarketReplayReport,
+  ReplayMismatch,
+} from "../services/marketReplayService";
+
+dotenv.config({ path: path.join(__dirname, "../.env") });
+
+/**
+ * Replay markets' trades and liquidity events through the LMSR and report
+ * where the result diverges from stored market, option and position state.
+ *
+ * Usage:
+ *   npm run replay-market -- <market_id> [<market_id> ...] [--json]
+ *   npm run replay-market -- --all [--json]
+ *
+ * Exits with 1 if any replayed market is inconsistent.
+ */
+
+const formatMismatch = (mismatch: ReplayMismatch) =>
+  `${mismatch.scope} ${mismatch.id} ${mismatch.field}: replayed ${
+    mismatch.expected
+  }, stored ${mismatch.actual}${
+    mismatch.ambiguous_order ? " (ambiguous order)" : ""
+  }`;
+
+const printReport = (report: MarketReplayReport) => {
+  console.log(
+    `${report.consistent ? "✅" : "❌"} ${report.market_id}: ${
+      report.events_replayed
+    } events (${report.trades_replayed} trades, ${
+      report.liquidity_events_replayed
+    } liquidity events)`
+  );
+  if (report.first_divergence) {
+    console.log(
+      `   first divergence: ${formatMismatch(report.first_divergence)}`
+    );
+  }
+  for (const mismatch of [
+    ...report.trade_mismatches,
+    ...report.state_mismatches,
+  ]) {
+    console.log(`   - ${formatMismatch(mismatch)}`);
+  }
+  for (const note of report.notes) {
+    console.log(`   note: ${note}`);
+  }
+};
+
+async function replayMarkets(): Promise<boolean> {
+  const args = process.argv.slice(2);
+  const asJson = args.includes("--json");
+  let marketIds = args.filter((arg) => !arg.startsWith("--"));
+
+  await initializeSecrets();
+  await initializePool();
+
+  if (args.includes("--all")) {
+    const result = await pool.query(
+      `SELECT id FROM markets WHERE is_initialized = TRUE ORDER BY created_at ASC`
+    );
+    marketIds = result.rows.map((row: any) => row.id);
+  }
+
+  if (marketIds.length === 0) {
+    console.error(
+      "Usage: npm run replay-market -- <market_id> [...] | --all [--json]"
+    );
+    return false;
+  }
+
+  const reports: MarketReplayReport[] = [];
+  for (const marketId of marketIds) {
+    const report = await MarketReplayService.replayMarket(marketId);
+    if (!report) {
+      console.error(`❌ Market ${marketId} not found`);
+      continue;
+    }
+    reports.push(report);
+    if (!asJson) {
+      printReport(report);
+    }
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(reports, null, 2));
+  }
+
+  return (
+    reports.length === marketIds.length &&
+    reports.every((report) => report.consistent)
+  );
+}
+
+// Run if called directly
+if (require.main === module) {
+  replayMarkets()
+    .then((consistent) => {
+      if (pool) {
+        pool.end();
+      }
+      process.exit(consistent ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error("Fatal error:", error);
+      if (pool) {
+        pool.end();
+      }
+      process.exit(1);
+    });
+}
+
+export { replayMarkets };
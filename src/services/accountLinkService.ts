@@ -0,0 +1,190 @@
+import { isIP } from "net";
+import { Pool, PoolClient } from "pg";
+import {
+  AccountLinkModel,
+  UserDeviceModel,
+  UserIpAddressModel,
+} from "../models/AccountLink";
+import {
+  AccountLinkEdge,
+  AccountLinkType,
+  MAX_SHARED_ACCOUNTS,
+  SELF_DEALING_LINK_TYPES,
+  hashDeviceFingerprint,
+} from "../utils/accountLinks";
+
+type QueryClient = Pool | PoolClient;
+
+const DEFAULT_CLUSTER_DEPTH = 2;
+const MAX_CLUSTER_SIZE = 100;
+
+export interface LoginSignals {
+  userId: string;
+  deviceFingerprint?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AccountCluster {
+  user_ids: string[];
+  edges: AccountLinkEdge[];
+  depth: number;
+  truncated: boolean;
+}
+
+/**
+ * Builds the graph of accounts that share devices, login IPs or withdrawal
+ * destinations (see utils/accountLinks.ts), and answers whether two
+ * accounts are likely the same person.
+ */
+export class AccountLinkService {
+  /**
+   * Record a login's device and IP, and link the user to other accounts
+   * seen on them
+   */
+  static async recordLogin(signals: LoginSignals): Promise<void> {
+    const { userId } = signals;
+    const ipAddress =
+      signals.ipAddress && isIP(signals.ipAddress) ? signals.ipAddress : null;
+    const fingerprintHash = hashDeviceFingerprint(signals.deviceFingerprint);
+
+    if (fingerprintHash) {
+      await UserDeviceModel.record(
+        userId,
+        fingerprintHash,
+        ipAddress,
+        signals.userAgent || null
+      );
+      const others = await UserDeviceModel.findOtherUserIds(
+        fingerprintHash,
+        userId,
+        MAX_SHARED_ACCOUNTS
+      );
+      await this.linkShared(userId, others, "device", fingerprintHash);
+    }
+
+    if (ipAddress) {
+      await UserIpAddressModel.record(userId, ipAddress);
+      const others = await UserIpAddressModel.findOtherUserIds(
+        ipAddress,
+        userId,
+        MAX_SHARED_ACCOUNTS
+      );
+      await this.linkShared(userId, others, "ip", ipAddress);
+    }
+  }
+
+  /**
+   * Link a withdrawing user to anyone else who withdrew to the same
+   * address, and to the owner of the address if it is a platform wallet
+   */
+  static async recordWithdrawalDestination(
+    client: QueryClient,
+    userId: string,
+    destinationAddress: string
+  ): Promise<void> {
+    const result = await client.query(
+      `SELECT DISTINCT user_id FROM withdrawals
+       WHERE destination_address = $1 AND user_id <> $2
+       UNION
+       SELECT user_id FROM wallets
+       WHERE public_key = $1 AND user_id <> $2`,
+      [destinationAddress, userId]
+    );
+
+    for (const row of result.rows) {
+      await AccountLinkModel.link(
+        userId,
+        row.user_id,
+        "withdrawal_destination",
+        destinationAddress,
+        client
+      );
+    }
+  }
+
+  /**
+   * Whether two accounts share a device or withdrawal destination
+   */
+  static async isSelfDealing(
+    userId: string,
+    otherUserId: string,
+    client?: QueryClient
+  ): Promise<boolean> {
+    return AccountLinkModel.areLinked(
+      userId,
+      otherUserId,
+      SELF_DEALING_LINK_TYPES,
+      client
+    );
+  }
+
+  /**
+   * Accounts reachable from a user through at most maxDepth links,
+   * stopping once the cluster reaches MAX_CLUSTER_SIZE accounts
+   */
+  static async getCluster(
+    userId: string,
+    maxDepth: number = DEFAULT_CLUSTER_DEPTH
+  ): Promise<AccountCluster> {
+    const seen = new Set<string>([userId]);
+    const edges = new Map<string, AccountLinkEdge>();
+    let frontier = [userId];
+    let depth = 0;
+    let truncated = false;
+
+    while (frontier.length > 0 && depth < maxDepth && !truncated) {
+      const found = await AccountLinkModel.findByUserIds(frontier);
+      const next: string[] = [];
+
+      for (const edge of found) {
+        edges.set(
+          `${edge.user_id}:${edge.linked_user_id}:${edge.link_type}:${edge.link_value}`,
+          edge
+        );
+        for (const id of [edge.user_id, edge.linked_user_id]) {
+          if (seen.has(id)) {
+            continue;
+          }
+          if (seen.size >= MAX_CLUSTER_SIZE) {
+            truncated = true;
+            continue;
+          }
+          seen.add(id);
+          next.push(id);
+        }
+      }
+
+      frontier = next;
+      depth++;
+    }
+
+    return {
+      user_ids: [...seen],
+      // Links to accounts cut off by the size limit are left out
+      edges: [...edges.values()].filter(
+        (edge) => seen.has(edge.user_id) && seen.has(edge.linked_user_id)
+      ),
+      depth,
+      truncated,
+    };
+  }
+
+  /**
+   * Link the user to each other account sharing a value, unless so many
+   * share it that it says nothing about who they are
+   */
+  private static async linkShared(
+    userId: string,
+    otherUserIds: string[],
+    linkType: AccountLinkType,
+    linkValue: string
+  ): Promise<void> {
+    if (otherUserIds.length > MAX_SHARED_ACCOUNTS - 1) {
+      return;
+    }
+    for (const otherUserId of otherUserIds) {
+      await AccountLinkModel.link(userId, otherUserId, linkType, linkValue);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import {
+  AdminAuditLogCreateInput,
+  AdminAuditLogEntry,
+  AdminAuditLogFilters,
+  AdminAuditLogModel,
+} from "../models/AdminAuditLog";
+import { withTransaction } from "../utils/transaction";
+import { getClientIp } from "../utils/request";
+import { AdminRequest } from "../middleware/admin";
+
+// Fixed advisory lock key serializing appends to the audit hash chain
+const AUDIT_CHAIN_LOCK_ID = 7_410_302_118;
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Who performed an audited action and from where
+ */
+export interface AuditContext {
+  adminUserId: string;
+  sessionId?: string | null;
+  ipAddress: string;
+  userAgent?: string | null;
+}
+
+export interface AuditEvent {
+  action: string;
+  targetType?: string | null;
+  targetId?: string | null;
+  before?: any;
+  after?: any;
+  details?: Record<string, any>;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries_checked: number;
+  latest_sequence: number | null;
+  latest_hash: string | null;
+  broken_at: {
+    sequence: number;
+    id: string;
+    reason: "sequence_gap" | "prev_hash_mismatch" | "entry_hash_mismatch";
+  } | null;
+}
+
+const CSV_COLUMNS = [
+  "sequence",
+  "created_at",
+  "admin_user_id",
+  "admin_username",
+  "session_id",
+  "action",
+  "target_type",
+  "target_id",
+  "before_state",
+  "after_state",
+  "details",
+  "ip_address",
+  "user_agent",
+  "prev_hash",
+  "entry_hash",
+] as const;
+
+/**
+ * JSON with object keys sorted at every level, so the hash doesn't depend on
+ * key order (JSONB does not preserve it)
+ */
+const canonicalJson = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Round trip through JSON so the hashed value is exactly what JSONB stores
+const toJsonValue = (value: any): any =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+const csvField = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = typeof value === "object" ? canonicalJson(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Admin audit log.
+ *
+ * Every admin mutation is recorded here with before/after snapshots. Entries
+ * form a hash chain: each entry's hash covers its contents and the previous
+ * entry's hash, so editing, deleting or reordering past entries is detected by
+ * verifyChain(). The table itself is append-only (index_026.sql).
+ */
+export class AdminAuditService {
+  static getContext(req: AdminRequest): AuditContext {
+    return {
+      adminUserId: req.id,
+      sessionId: req.adminSessionId || null,
+      ipAddress: getClientIp(req),
+      userAgent: (req.headers["user-agent"] as string | undefined) || null,
+    };
+  }
+
+  /**
+   * Hash of an entry's contents chained to the previous entry's hash
+   */
+  static computeEntryHash(
+    entry: Omit<AdminAuditLogCreateInput, "entry_hash">
+  ): string {
+    const payload = canonicalJson({
+      sequence: Number(entry.sequence),
+      admin_user_id: entry.admin_user_id,
+      session_id: entry.session_id || null,
+      action: entry.action,
+      target_type: entry.target_type || null,
+      target_id: entry.target_id || null,
+      before_state: entry.before_state ?? null,
+      after_state: entry.after_state ?? null,
+      details: entry.details ?? {},
+      ip_address: entry.ip_address,
+      user_agent: entry.user_agent || null,
+      created_at: Number(entry.created_at),
+    });
+
+    return crypto
+      .createHash("sha256")
+      .update(`${entry.prev_hash || ""}:${payload}`)
+      .digest("hex");
+  }
+
+  /**
+   * Append an entry to the audit log. Pass the transaction client of the
+   * mutation so the entry commits (or rolls back) together with it.
+   */
+  static async record(
+    context: AuditContext,
+    event: AuditEvent,
+    client?: PoolClient
+  ): Promise<AdminAuditLogEntry> {
+    if (!client) {
+      return withTransaction((txClient) =>
+        AdminAuditService.record(context, event, txClient)
+      );
+    }
+
+    await client.query("SELECT pg_advisory_xact_lock($1)", [
+      AUDIT_CHAIN_LOCK_ID,
+    ]);
+    const latest = await AdminAuditLogModel.findLatest(client);
+
+    const entry: Omit<AdminAuditLogCreateInput, "entry_hash"> = {
+      sequence: latest ? Number(latest.sequence) + 1 : 1,
+      admin_user_id: context.adminUserId,
+      session_id: context.sessionId || null,
+      action: event.action,
+      target_type: event.targetType || null,
+      target_id: event.targetId ? String(event.targetId) : null,
+      before_state: toJsonValue(event.before),
+      after_state: toJsonValue(event.after),
+      details: toJsonValue(event.details || {}),
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent || null,
+      prev_hash: latest?.entry_hash || null,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    return AdminAuditLogModel.create(
+      { ...entry, entry_hash: AdminAuditService.computeEntryHash(entry) },
+      client
+    );
+  }
+
+  static async list(
+    filters: AdminAuditLogFilters,
+    options: { limit?: number; offset?: number }
+  ): Promise<{ entries: AdminAuditLogEntry[]; total: number }> {
+    return AdminAuditLogModel.findAll(filters, options);
+  }
+
+  /**
+   * Walk the whole chain in sequence order, recomputing every hash.
+   * Stops at the first broken link.
+   */
+  static async verifyChain(): Promise<AuditChainVerification> {
+    let checked = 0;
+    let previous: AdminAuditLogEntry | null = null;
+
+    while (true) {
+      const batch = await AdminAuditLogModel.findBatchAfter(
+        previous ? Number(previous.sequence) : 0,
+        VERIFY_BATCH_SIZE
+      );
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const entry of batch) {
+        const sequence = Number(entry.sequence);
+        const expectedSequence = previous ? Number(previous.sequence) + 1 : 1;
+        const expectedPrevHash = previous?.entry_hash || null;
+
+        let reason:
+          | NonNullable<AuditChainVerification["broken_at"]>["reason"]
+          | null = null;
+        if (sequence !== expectedSequence) {
+          reason = "sequence_gap";
+        } else if ((entry.prev_hash || null) !== expectedPrevHash) {
+          reason = "prev_hash_mismatch";
+        } else if (
+          AdminAuditService.computeEntryHash(entry) !== entry.entry_hash
+        ) {
+          reason = "entry_hash_mismatch";
+        }
+
+        if (reason) {
+          return {
+            valid: false,
+            entries_checked: checked,
+            latest_sequence: previous ? Number(previous.sequence) : null,
+            latest_hash: previous?.entry_hash || null,
+            broken_at: { sequence, id: entry.id, reason },
+          };
+        }
+
+        checked++;
+        previous = entry;
+      }
+    }
+
+    return {
+      valid: true,
+      entries_checked: checked,
+      latest_sequence: previous ? Number(previous.sequence) : null,
+      latest_hash: previous?.entry_hash || null,
+      broken_at: null,
+    };
+  }
+
+  static toCsv(
+    entries: Array<AdminAuditLogEntry & { admin_username?: string }>
+  ): string {
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) => csvField((entry as any)[column])).join(",")
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n");
+  }
+}
@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import {
+  AdminMfaSecretModel,
+  AdminSession,
+  AdminSessionModel,
+} from "../models/AdminMfa";
+import { decryptText, encryptText } from "../utils/cypher";
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotpCode,
+} from "../utils/totp";
+import { TransactionError } from "../utils/transaction";
+
+const MFA_ISSUER = "Moodring";
+const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60; // 8 hours
+const BACKUP_CODE_COUNT = 8;
+
+export type MfaMethod = "totp" | "backup_code";
+
+const hashValue = (value: string): string =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+// Backup codes are compared without dashes or case
+const normalizeBackupCode = (code: string): string =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+/**
+ * Admin multi-factor authentication.
+ *
+ * Admins enroll a TOTP secret (stored encrypted) and confirm it with a first
+ * code, receiving single-use backup codes. Admin routes then require a
+ * session that is only issued after a successful MFA check, and sensitive
+ * actions additionally require a fresh step-up code. Accepted TOTP time steps
+ * are recorded so a code can't be replayed.
+ * All methods take the current time in ms so they can run on a fixed clock.
+ */
+export class AdminMfaService {
+  static hashSessionToken(token: string): string {
+    return hashValue(token);
+  }
+
+  static async getStatus(adminUserId: string): Promise<{
+    enrolled: boolean;
+    pending: boolean;
+    backup_codes_remaining: number;
+    enabled_at: number | null;
+  }> {
+    const secret = await AdminMfaSecretModel.findByAdmin(adminUserId);
+    return {
+      enrolled: !!secret?.is_enabled,
+      pending: !!secret && !secret.is_enabled,
+      backup_codes_remaining: secret?.is_enabled
+        ? secret.backup_codes?.length || 0
+        : 0,
+      enabled_at: secret?.enabled_at ?? null,
+    };
+  }
+
+  /**
+   * Start (or restart) enrollment with a new secret. The secret only takes
+   * effect once confirmed with a code from the authenticator app.
+   */
+  static async beginEnrollment(
+    adminUserId: string,
+    accountName: string
+  ): Promise<{ secret: string; otpauth_url: string }> {
+    const secret = generateTotpSecret();
+    const stored = await AdminMfaSecretModel.upsertPending(
+      adminUserId,
+      await encryptText(secret)
+    );
+    if (!stored) {
+      throw new TransactionError(409, "MFA is already enabled");
+    }
+
+    return {
+      secret,
+      otpauth_url: buildOtpauthUrl(secret, accountName, MFA_ISSUER),
+    };
+  }
+
+  /**
+   * Enable MFA once the admin proves they hold the pending secret.
+   * Returns the backup codes, which are only ever shown here.
+   */
+  static async confirmEnrollment(
+    client: PoolClient,
+    adminUserId: string,
+    code: string,
+    now: number = Date.now()
+  ): Promise<{ backupCodes: string[] }> {
+    const stored = await AdminMfaSecretModel.findByAdminForUpdate(
+      adminUserId,
+      client
+    );
+    if (!stored) {
+      throw new TransactionError(400, "MFA enrollment has not been started");
+    }
+    if (stored.is_enabled) {
+      throw new TransactionError(409, "MFA is already enabled");
+    }
+
+    const step = verifyTotpCode(await decryptText(stored.secret), code, now);
+    if (step === null) {
+      throw new TransactionError(401, "Invalid MFA code");
+    }
+
+    const backupCodes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString("hex");
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await AdminMfaSecretModel.enable(
+      adminUserId,
+      backupCodes.map((backupCode) =>
+        hashValue(normalizeBackupCode(backupCode))
+      ),
+      step,
+      client
+    );
+
+    return { backupCodes };
+  }
+
+  /**
+   * Verify a TOTP code (or an unused backup code) for an enrolled admin.
+   * Throws a 401 TransactionError if the code is invalid or replayed.
+   */
+  static async verifyCode(
+    client: PoolClient,
+    adminUserId: string,
+    code: string,
+    now: number = Date.now()
+  ): Promise<MfaMethod> {
+    const stored = await AdminMfaSecretModel.findByAdminForUpdate(
+      adminUserId,
+      client
+    );
+    if (!stored || !stored.is_enabled) {
+      throw new TransactionError(403, "MFA enrollment required");
+    }
+    if (!code) {
+      throw new TransactionError(401, "MFA code required");
+    }
+
+    const step = verifyTotpCode(await decryptText(stored.secret), code, now);
+    if (step !== null) {
+      const accepted = await AdminMfaSecretModel.recordStep(
+        adminUserId,
+        step,
+        client
+      );
+      if (!accepted) {
+        throw new TransactionError(401, "MFA code has already been used");
+      }
+      return "totp";
+    }
+
+    const consumed = await AdminMfaSecretModel.consumeBackupCode(
+      adminUserId,
+      hashValue(normalizeBackupCode(code)),
+      client
+    );
+    if (consumed) {
+      return "backup_code";
+    }
+
+    throw new TransactionError(401, "Invalid MFA code");
+  }
+
+  /**
+   * Issue an admin session after a successful MFA check.
+   * Only the token hash is stored; the token itself is returned once.
+   */
+  static async createSession(
+    client: PoolClient,
+    adminUserId: string,
+    context: { ipAddress: string; userAgent?: string | null },
+    now: number = Date.now()
+  ): Promise<{ token: string; session: AdminSession }> {
+    const nowSeconds = Math.floor(now / 1000);
+    const token = crypto.randomBytes(32).toString("hex");
+    const session = await AdminSessionModel.create(
+      {
+        admin_user_id: adminUserId,
+        session_token: hashValue(token),
+        ip_address: context.ipAddress,
+        user_agent: context.userAgent,
+        mfa_verified_at: nowSeconds,
+        expires_at: nowSeconds + ADMIN_SESSION_TTL_SECONDS,
+      },
+      client
+    );
+    return { token, session };
+  }
+
+  /**
+   * Active MFA-verified session of an admin for a session token, or null
+   */
+  static async getActiveSession(
+    adminUserId: string,
+    token: string | undefined,
+    now: number = Date.now()
+  ): Promise<AdminSession | null> {
+    if (!token) {
+      return null;
+    }
+    const nowSeconds = Math.floor(now / 1000);
+    const session = await AdminSessionModel.findActive(
+      adminUserId,
+      hashValue(token),
+      nowSeconds
+    );
+    if (session) {
+      await AdminSessionModel.touch(session.id, nowSeconds);
+    }
+    return session;
+  }
+}
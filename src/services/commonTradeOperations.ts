@@ -1,7 +1,10 @@
 import { UUID } from "crypto";
-import { PoolClient } from "pg";
+import { BN } from "@coral-xyz/anchor";
+import { Pool, PoolClient } from "pg";
 import { TransactionError } from "../utils/transaction";
+import { calculate_option_prices } from "../utils/lmsr";
 import { checkAdminControls } from "../utils/tradeUtils";
+import { isTradingClosed } from "../utils/marketLifecycle";
 
 export interface MarketData {
   id: UUID;
@@ -9,12 +12,18 @@ export interface MarketData {
   base_liquidity_parameter: number;
   is_resolved: boolean;
   is_initialized: boolean;
+  expiration_timestamp: number;
   shared_pool_liquidity: number;
   total_volume: number;
   total_open_interest: number;
   creator_fees_collected: number;
   protocol_fees_collected: number;
   accumulated_lp_fees: number;
+  is_scalar?: boolean;
+  scalar_lower_bound?: string | null;
+  scalar_upper_bound?: string | null;
+  is_exclusive?: boolean;
+  is_voided?: boolean;
 }
 
 export interface OptionData {
@@ -24,6 +33,7 @@ export interface OptionData {
   no_quantity: number;
   is_resolved: boolean;
   winning_side?: number;
+  resolved_value?: string | null;
   dispute_deadline?: number;
 }
 
@@ -48,6 +58,14 @@ export interface UserPositionData {
   is_claimed?: boolean;
 }
 
+/** An option's YES price (micro-USDC per share) and share quantities */
+export interface OptionPrice {
+  option_id: UUID;
+  yes_price: number;
+  yes_quantity: number;
+  no_quantity: number;
+}
+
 /**
  * SECURITY: Global Database Locking Order
  *
@@ -68,10 +86,13 @@ export class CommonTradeOperations {
   /**
    * Get market with lock (first in consistent ordering)
    * SECURITY: Always lock Market FIRST to prevent deadlocks
+   * Trading closes at expiration. Claims pass allowResolved, since winnings
+   * are paid after resolution
    */
   static async getMarketWithLock(
     client: PoolClient,
-    marketId: UUID
+    marketId: UUID,
+    allowResolved: boolean = false
   ): Promise<MarketData> {
     const marketResult = await client.query(
       `SELECT * FROM markets WHERE id = $1 FOR UPDATE`,
@@ -83,7 +104,15 @@ export class CommonTradeOperations {
       throw new TransactionError(404, "Market not found");
     }
 
-    if (marketData.is_resolved) {
+    // Voided markets were refunded in full; nothing can trade or be claimed
+    if (marketData.is_voided) {
+      throw new TransactionError(
+        400,
+        "This market was voided. Positions were refunded to your wallet."
+      );
+    }
+
+    if (marketData.is_resolved && !allowResolved) {
       throw new TransactionError(400, "Market is already resolved");
     }
 
@@ -91,6 +120,10 @@ export class CommonTradeOperations {
       throw new TransactionError(400, "Market is not initialized");
     }
 
+    if (!allowResolved && isTradingClosed(marketData)) {
+      throw new TransactionError(400, "Trading is closed for this market");
+    }
+
     return marketData;
   }
 
@@ -140,6 +173,46 @@ export class CommonTradeOperations {
     return optionData;
   }
 
+  /**
+   * Current YES price of every option of a market, in the order exclusive
+   * markets price them. Options of an exclusive market move together, so
+   * any one of their prices depends on all of them.
+   */
+  static async getMarketOptionPrices(
+    client: Pool | PoolClient,
+    marketId: UUID | string
+  ): Promise<OptionPrice[]> {
+    const result = await client.query(
+      `SELECT o.id, o.yes_quantity, o.no_quantity,
+              m.liquidity_parameter, m.is_exclusive
+       FROM market_options o
+       JOIN markets m ON m.id = o.market_id
+       WHERE o.market_id = $1
+       ORDER BY o.created_at ASC, o.id ASC`,
+      [marketId]
+    );
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const { liquidity_parameter, is_exclusive } = result.rows[0];
+    const prices = calculate_option_prices(
+      result.rows.map((row) => ({
+        yes_quantity: new BN(Math.floor(Number(row.yes_quantity))),
+        no_quantity: new BN(Math.floor(Number(row.no_quantity))),
+      })),
+      new BN(liquidity_parameter),
+      !!is_exclusive
+    );
+
+    return result.rows.map((row, i) => ({
+      option_id: row.id,
+      yes_price: prices[i],
+      yes_quantity: Number(row.yes_quantity),
+      no_quantity: Number(row.no_quantity),
+    }));
+  }
+
   /**
    * Get wallet with lock (third in consistent ordering)
    * SECURITY: Always lock Wallet AFTER Market/Option to prevent deadlocks
@@ -298,10 +371,57 @@ export class CommonTradeOperations {
   }
 
   /**
-   * Update liquidity parameter based on current market state
+   * Liquidity parameter after a trade, given the market state after it
    * Formula: b = max(base_param * 1000, sqrt(max(liquidity, total_shares)) * 10000)
    * This ensures b scales with both liquidity provision AND trading volume
    * SECURITY FIX: Caps b changes to 10% per trade to prevent manipulation
+   * Pure, so the market replay (services/marketReplayService.ts) can reuse it
+   */
+  static calculateLiquidityParameter(
+    currentB: number,
+    currentLiquidity: number,
+    totalOptionShares: number,
+    baseLiquidityParam: number,
+    warnOnCap: boolean = true
+  ): number {
+    // Calculate new liquidity parameter
+    const marketSize = Math.max(currentLiquidity, totalOptionShares);
+    const calculatedB = Math.max(
+      baseLiquidityParam * 1000,
+      Math.floor(Math.sqrt(marketSize) * 10000)
+    );
+
+    // SECURITY FIX: Validate and cap liquidity parameter changes
+    // Prevents manipulation of b parameter by capping changes to 10% per trade
+    const MAX_CHANGE_PERCENT = 0.1; // 10% max change per trade
+    const minB = currentB * (1 - MAX_CHANGE_PERCENT);
+    const maxB = currentB * (1 + MAX_CHANGE_PERCENT);
+
+    // Cap b within allowed range
+    let validatedB = calculatedB;
+    if (calculatedB < minB) {
+      if (warnOnCap) {
+        console.warn(
+          `[TradeService] Liquidity param b change too large (${calculatedB} < ${minB}), capping to ${minB}`
+        );
+      }
+      validatedB = minB;
+    } else if (calculatedB > maxB) {
+      if (warnOnCap) {
+        console.warn(
+          `[TradeService] Liquidity param b change too large (${calculatedB} > ${maxB}), capping to ${maxB}`
+        );
+      }
+      validatedB = maxB;
+    }
+
+    // Ensure validatedB is an integer (bigint doesn't accept decimals)
+    return Math.round(validatedB);
+  }
+
+  /**
+   * Update liquidity parameter based on current market state
+   * (see calculateLiquidityParameter)
    */
   static async updateLiquidityParameter(
     client: PoolClient,
@@ -328,36 +448,13 @@ export class CommonTradeOperations {
       totalSharesResult.rows[0]?.total_shares || 0
     );
 
-    // Calculate new liquidity parameter
-    const marketSize = Math.max(currentLiquidity, totalOptionShares);
-    const calculatedB = Math.max(
-      baseLiquidityParam * 1000,
-      Math.floor(Math.sqrt(marketSize) * 10000)
+    const validatedB = this.calculateLiquidityParameter(
+      currentB,
+      currentLiquidity,
+      totalOptionShares,
+      baseLiquidityParam
     );
 
-    // SECURITY FIX: Validate and cap liquidity parameter changes
-    // Prevents manipulation of b parameter by capping changes to 10% per trade
-    const MAX_CHANGE_PERCENT = 0.1; // 10% max change per trade
-    const minB = currentB * (1 - MAX_CHANGE_PERCENT);
-    const maxB = currentB * (1 + MAX_CHANGE_PERCENT);
-
-    // Cap b within allowed range
-    let validatedB = calculatedB;
-    if (calculatedB < minB) {
-      console.warn(
-        `[TradeService] Liquidity param b change too large (${calculatedB} < ${minB}), capping to ${minB}`
-      );
-      validatedB = minB;
-    } else if (calculatedB > maxB) {
-      console.warn(
-        `[TradeService] Liquidity param b change too large (${calculatedB} > ${maxB}), capping to ${maxB}`
-      );
-      validatedB = maxB;
-    }
-
-    // Ensure validatedB is an integer (bigint doesn't accept decimals)
-    validatedB = Math.round(validatedB);
-
     // Update liquidity parameter
     await client.query(
       `UPDATE markets SET 
@@ -0,0 +1,599 @@
+import { UUID } from "crypto";
+import { PoolClient } from "pg";
+import { TransactionError } from "../utils/transaction";
+import {
+  CommitRevealSchedule,
+  VOTE_OUTCOMES,
+  computeCommitment,
+  getCommitRevealSchedule,
+  isCommitmentHash,
+  parseResolutionConfigInput,
+  parseVoteOutcome,
+  validateCommitRevealSettings,
+} from "../utils/commitReveal";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { LedgerService } from "./ledgerService";
+import { resolveOptionOutcome } from "./optionResolution";
+import {
+  ConsensusJuror,
+  ConsensusSettings,
+  ResolutionEngine,
+} from "./resolutionEngine";
+import { OptionModel, Option } from "../models/Option";
+import { MoodringModel } from "../models/Moodring";
+import { UserModel } from "../models/User";
+import {
+  LedgerAccounts,
+  LedgerEntryInput,
+  credit,
+  debit,
+} from "../utils/ledger";
+import {
+  ResolutionConfig,
+  ResolutionMode,
+  ResolutionSubmission,
+} from "../models/Resolution";
+import {
+  MarketResolver,
+  Resolver,
+  ResolverBondLedgerModel,
+  ResolverModel,
+  ResolverRole,
+  ResolverType,
+} from "../models/Resolver";
+import {
+  ConsensusTally,
+  ConsensusTallyModel,
+  JurorVote,
+  JurorVoteModel,
+  JurorVoteOutcome,
+} from "../models/Consensus";
+
+export interface ConsensusSchedule extends CommitRevealSchedule {
+  settings: ConsensusSettings;
+}
+
+/**
+ * CONSENSUS (juror) resolution.
+ *
+ * Users post a resolver bond from their wallet and enlist on CONSENSUS markets
+ * before expiration, locking the market's bondAmount. After expiration each
+ * juror commits a hidden YES/NO vote per option (see utils/commitReveal), then
+ * reveals outcome and salt once the commit window closes. When the reveal
+ * window closes the ResolutionProcessor tallies every option through the
+ * ResolutionEngine and resolves it; minority and absent jurors are slashed.
+ */
+export class ConsensusResolutionService {
+  /**
+   * Validate a CONSENSUS resolution config supplied at market creation.
+   * Returns the config with defaults filled in.
+   */
+  static parseConfig(raw: any): ConsensusSettings {
+    const config = parseResolutionConfigInput<ResolutionConfig>(raw);
+    const settings = ResolutionEngine.getConsensusSettings(config);
+    const isInt = (value: number, min: number, max: number) =>
+      Number.isInteger(value) && value >= min && value <= max;
+
+    if (!isInt(settings.minJurors, 1, 100)) {
+      throw new TransactionError(400, "minJurors must be between 1 and 100");
+    }
+    if (!isInt(settings.quorumSize, 1, settings.minJurors)) {
+      throw new TransactionError(
+        400,
+        "quorumSize must be between 1 and minJurors"
+      );
+    }
+    if (
+      typeof settings.consensusThreshold !== "number" ||
+      settings.consensusThreshold < 0.5 ||
+      settings.consensusThreshold > 1
+    ) {
+      throw new TransactionError(
+        400,
+        "consensusThreshold must be between 0.5 and 1"
+      );
+    }
+    if (!isInt(settings.minoritySlashBps, 0, 10000)) {
+      throw new TransactionError(
+        400,
+        "minoritySlashBps must be between 0 and 10000"
+      );
+    }
+    validateCommitRevealSettings(settings);
+
+    return settings;
+  }
+
+  /**
+   * Phase and deadlines of a CONSENSUS market at `now` (unix seconds).
+   * The panel is open until expiration, then jurors commit and reveal.
+   */
+  static getSchedule(
+    market: { expiration_timestamp: number; resolution_config: any },
+    now?: number
+  ): ConsensusSchedule {
+    const settings = ResolutionEngine.getConsensusSettings(
+      market.resolution_config
+    );
+    return {
+      ...getCommitRevealSchedule(
+        market.expiration_timestamp,
+        settings.commitWindowHours,
+        settings.revealWindowHours,
+        now
+      ),
+      settings,
+    };
+  }
+
+  /**
+   * Move USDC from the user's wallet into their resolver bond,
+   * creating the CONSENSUS resolver on first deposit
+   */
+  static async depositBond(
+    client: PoolClient,
+    userId: UUID,
+    amount: number
+  ): Promise<{ resolver: Resolver; newBalance: number }> {
+    const wallet = await CommonTradeOperations.getWalletWithLock(
+      client,
+      userId
+    );
+    if (Number(wallet.balance_usdc) < amount) {
+      throw new TransactionError(400, "Insufficient balance");
+    }
+
+    let resolver = await ResolverModel.findByUserIdForUpdate(userId, client);
+    if (!resolver) {
+      const user = await UserModel.findById(userId, client);
+      resolver = await ResolverModel.create(
+        {
+          type: ResolverType.CONSENSUS,
+          name: user?.username || user?.display_name || "Juror",
+          user_id: userId,
+        },
+        client
+      );
+    }
+
+    const newBalance = Number(wallet.balance_usdc) - amount;
+    await CommonTradeOperations.updateWalletBalance(
+      client,
+      wallet.id,
+      newBalance
+    );
+    resolver = (await ResolverModel.updateBond(resolver.id, amount, client))!;
+    await ResolverBondLedgerModel.record(
+      { resolver_id: resolver.id, entry_type: "deposit", amount },
+      client
+    );
+    await LedgerService.transfer(
+      client,
+      "resolver_bond_deposit",
+      LedgerAccounts.user(userId),
+      LedgerAccounts.resolverBond(resolver.id),
+      amount,
+      { reference_type: "resolver", reference_id: resolver.id }
+    );
+
+    return { resolver, newBalance };
+  }
+
+  /**
+   * Move free (unlocked) resolver bond back to the user's wallet
+   */
+  static async withdrawBond(
+    client: PoolClient,
+    userId: UUID,
+    amount: number
+  ): Promise<{ resolver: Resolver; newBalance: number }> {
+    const wallet = await CommonTradeOperations.getWalletWithLock(
+      client,
+      userId
+    );
+
+    const resolver = await ResolverModel.findByUserIdForUpdate(userId, client);
+    if (!resolver) {
+      throw new TransactionError(404, "Resolver not found");
+    }
+    if (Number(resolver.bond_balance) < amount) {
+      throw new TransactionError(400, "Insufficient free bond balance");
+    }
+
+    const updated = (await ResolverModel.updateBond(
+      resolver.id,
+      -amount,
+      client
+    ))!;
+    await ResolverBondLedgerModel.record(
+      { resolver_id: resolver.id, entry_type: "withdraw", amount },
+      client
+    );
+    const newBalance = Number(wallet.balance_usdc) + amount;
+    await CommonTradeOperations.updateWalletBalance(
+      client,
+      wallet.id,
+      newBalance
+    );
+    await LedgerService.transfer(
+      client,
+      "resolver_bond_withdraw",
+      LedgerAccounts.resolverBond(resolver.id),
+      LedgerAccounts.user(userId),
+      amount,
+      { reference_type: "resolver", reference_id: resolver.id }
+    );
+
+    return { resolver: updated, newBalance };
+  }
+
+  /**
+   * Lock a CONSENSUS market for juror operations
+   */
+  private static async getConsensusMarketWithLock(
+    client: PoolClient,
+    marketId: string
+  ) {
+    const result = await client.query(
+      `SELECT * FROM markets WHERE id = $1 FOR UPDATE`,
+      [marketId]
+    );
+    const market = result.rows[0];
+    if (!market) {
+      throw new TransactionError(404, "Market not found");
+    }
+    if (market.resolution_mode !== ResolutionMode.CONSENSUS) {
+      throw new TransactionError(
+        400,
+        "Market does not use CONSENSUS resolution"
+      );
+    }
+    return market;
+  }
+
+  /**
+   * Get the caller's juror seat on a market, or throw
+   */
+  private static async getJurorSeat(
+    client: PoolClient,
+    marketId: string,
+    userId: string
+  ) {
+    const jurors = await ResolverModel.getJurors(marketId, client);
+    const seat = jurors.find((juror) => juror.user_id === userId);
+    if (!seat) {
+      throw new TransactionError(403, "You are not a juror on this market");
+    }
+    return seat;
+  }
+
+  /**
+   * Get an unresolved option of the market, or throw
+   */
+  private static async getVotableOption(
+    client: PoolClient,
+    marketId: string,
+    optionId: string
+  ): Promise<Option> {
+    const option = await OptionModel.findById(optionId, client);
+    if (!option || option.market_id !== marketId) {
+      throw new TransactionError(404, "Option not found");
+    }
+    if (option.is_resolved) {
+      throw new TransactionError(400, "Option is already resolved");
+    }
+    return option;
+  }
+
+  /**
+   * Join a market's juror panel, locking the market's juror bond
+   */
+  static async enlist(
+    client: PoolClient,
+    marketId: string,
+    userId: UUID
+  ): Promise<MarketResolver> {
+    const market = await this.getConsensusMarketWithLock(client, marketId);
+    const schedule = this.getSchedule(market);
+
+    if (market.is_resolved || schedule.phase !== "open") {
+      throw new TransactionError(
+        400,
+        "The juror panel for this market is closed"
+      );
+    }
+    if (market.creator_id === userId) {
+      throw new TransactionError(
+        403,
+        "Market creators cannot serve as jurors on their own market"
+      );
+    }
+
+    const resolver = await ResolverModel.findByUserIdForUpdate(userId, client);
+    if (!resolver) {
+      throw new TransactionError(
+        400,
+        "Deposit a resolver bond before enlisting as a juror"
+      );
+    }
+
+    const jurors = await ResolverModel.getJurors(marketId, client);
+    if (jurors.some((juror) => juror.resolver_id === resolver.id)) {
+      throw new TransactionError(409, "You are already a juror on this market");
+    }
+
+    const bond = schedule.settings.bondAmount;
+    if (Number(resolver.bond_balance) < bond) {
+      throw new TransactionError(
+        400,
+        `Insufficient bond balance. Jurors on this market must lock ${
+          bond / 1_000_000
+        } USDC.`
+      );
+    }
+
+    await ResolverModel.updateBond(resolver.id, -bond, client);
+    const seat = await ResolverModel.linkToMarket(
+      marketId,
+      resolver.id,
+      ResolverRole.JUROR,
+      bond,
+      client
+    );
+    if (bond > 0) {
+      await ResolverBondLedgerModel.record(
+        {
+          resolver_id: resolver.id,
+          entry_type: "lock",
+          amount: bond,
+          market_id: marketId,
+          reason: "Juror enlisted",
+        },
+        client
+      );
+    }
+    return seat;
+  }
+
+  /**
+   * Commit a hidden vote on an option during the commit phase
+   */
+  static async commitVote(
+    client: PoolClient,
+    data: {
+      marketId: string;
+      optionId: string;
+      userId: UUID;
+      commitment: string;
+    }
+  ): Promise<JurorVote> {
+    if (!isCommitmentHash(data.commitment)) {
+      throw new TransactionError(
+        400,
+        "Commitment must be a hex-encoded sha256 hash"
+      );
+    }
+    const commitment = data.commitment.toLowerCase();
+
+    const market = await this.getConsensusMarketWithLock(client, data.marketId);
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "commit") {
+      throw new TransactionError(
+        400,
+        `Votes can only be committed during the commit phase (current phase: ${schedule.phase})`
+      );
+    }
+
+    await this.getVotableOption(client, data.marketId, data.optionId);
+    const seat = await this.getJurorSeat(client, data.marketId, data.userId);
+
+    const vote = await JurorVoteModel.commit(
+      {
+        market_id: data.marketId,
+        option_id: data.optionId,
+        resolver_id: seat.resolver_id,
+        commitment,
+      },
+      client
+    );
+    if (!vote) {
+      throw new TransactionError(409, "Vote has already been revealed");
+    }
+
+    return vote;
+  }
+
+  /**
+   * Reveal a committed vote during the reveal phase
+   */
+  static async revealVote(
+    client: PoolClient,
+    data: {
+      marketId: string;
+      optionId: string;
+      userId: UUID;
+      outcome: string;
+      salt: string;
+    }
+  ): Promise<JurorVote> {
+    const outcome = parseVoteOutcome(data.outcome);
+    if (!outcome) {
+      throw new TransactionError(400, "Outcome must be YES or NO");
+    }
+
+    const market = await this.getConsensusMarketWithLock(client, data.marketId);
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "reveal") {
+      throw new TransactionError(
+        400,
+        `Votes can only be revealed during the reveal phase (current phase: ${schedule.phase})`
+      );
+    }
+
+    await this.getVotableOption(client, data.marketId, data.optionId);
+    const seat = await this.getJurorSeat(client, data.marketId, data.userId);
+
+    const vote = await JurorVoteModel.findByOptionAndResolver(
+      data.optionId,
+      seat.resolver_id,
+      client
+    );
+    if (!vote) {
+      throw new TransactionError(404, "No committed vote for this option");
+    }
+    if (vote.revealed_at) {
+      throw new TransactionError(409, "Vote has already been revealed");
+    }
+
+    const expected = computeCommitment(
+      data.optionId,
+      data.userId,
+      outcome,
+      String(data.salt || "")
+    );
+    if (expected !== vote.commitment) {
+      throw new TransactionError(
+        400,
+        "Outcome and salt do not match your commitment"
+      );
+    }
+
+    const revealed = await JurorVoteModel.reveal(vote.id, outcome, client);
+    if (!revealed) {
+      throw new TransactionError(409, "Vote has already been revealed");
+    }
+    return revealed;
+  }
+
+  /**
+   * Tally an option once the reveal phase is over and resolve it.
+   * The caller must hold the market lock. A tally that misses quorum or the
+   * threshold is recorded as failed, leaving the option for an admin to resolve.
+   */
+  static async tallyOption(
+    client: PoolClient,
+    market: any,
+    option: Option
+  ): Promise<ConsensusTally> {
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "closed") {
+      throw new TransactionError(400, "Reveal phase has not ended");
+    }
+
+    const jurors = await ResolverModel.getJurors(market.id, client);
+    const votes = await JurorVoteModel.findByOption(option.id, client);
+    const userByResolver = new Map(
+      jurors.map((juror) => [juror.resolver_id, juror.user_id])
+    );
+
+    const submissions: ResolutionSubmission[] = votes
+      .filter(
+        (vote) => vote.revealed_outcome && userByResolver.has(vote.resolver_id)
+      )
+      .map((vote) => ({
+        id: vote.id,
+        market_id: vote.market_id,
+        user_id: userByResolver.get(vote.resolver_id) as UUID,
+        outcome: vote.revealed_outcome as string,
+        evidence: null,
+        signature: null,
+        submitted_at: Number(vote.revealed_at),
+      }));
+
+    const panel: ConsensusJuror[] = jurors
+      .filter((juror) => juror.user_id)
+      .map((juror) => ({
+        resolver_id: juror.resolver_id,
+        user_id: juror.user_id as string,
+        bond_committed: Number(juror.bond_committed),
+      }));
+
+    let result;
+    try {
+      result = ResolutionEngine.resolveMarket(
+        {
+          id: market.id,
+          question: market.question,
+          resolution_mode: ResolutionMode.CONSENSUS,
+          resolution_config: market.resolution_config,
+          outcomes: [...VOTE_OUTCOMES],
+          jurors: panel,
+        },
+        submissions
+      );
+    } catch (error: any) {
+      return ConsensusTallyModel.create(
+        {
+          option_id: option.id,
+          market_id: market.id,
+          status: "failed",
+          failure_reason: error.message,
+        },
+        client
+      );
+    }
+
+    // Slash minority and absent jurors; slashed bond goes to the protocol
+    const trace = result.resolution_trace;
+    const slashEntries: LedgerEntryInput[] = [];
+    for (const juror of trace.jurors) {
+      if (juror.slashed > 0) {
+        await ResolverModel.slashCommittedBond(
+          market.id,
+          juror.resolver_id,
+          juror.slashed,
+          client
+        );
+        await ResolverBondLedgerModel.record(
+          {
+            resolver_id: juror.resolver_id,
+            entry_type: "slash",
+            amount: juror.slashed,
+            market_id: market.id,
+            option_id: option.id,
+            reason: `Juror ${juror.status} on CONSENSUS tally`,
+          },
+          client
+        );
+        slashEntries.push(
+          debit(LedgerAccounts.resolverBond(juror.resolver_id), juror.slashed)
+        );
+      }
+    }
+    if (trace.total_slashed > 0) {
+      await MoodringModel.recordFees(0, trace.total_slashed, client);
+      await LedgerService.post(client, {
+        transaction_type: "resolver_bond_slash",
+        reference_type: "option",
+        reference_id: option.id,
+        metadata: { market_id: market.id },
+        entries: [
+          ...slashEntries,
+          credit(LedgerAccounts.protocolFees(), trace.total_slashed),
+        ],
+      });
+    }
+
+    const tally = await ConsensusTallyModel.create(
+      {
+        option_id: option.id,
+        market_id: market.id,
+        status: "resolved",
+        final_outcome: result.final_outcome as JurorVoteOutcome,
+        resolution_trace: trace,
+        canonical_hash: result.canonical_hash,
+        total_slashed: trace.total_slashed,
+      },
+      client
+    );
+
+    await resolveOptionOutcome(client, market, option, {
+      winningSide: result.final_outcome === "YES" ? 1 : 2,
+      reason: "Resolved via CONSENSUS mode juror vote",
+      resolvedBy: ResolutionMode.CONSENSUS,
+      disputeWindowHours: schedule.settings.disputeWindowHours,
+    });
+
+    return tally;
+  }
+}
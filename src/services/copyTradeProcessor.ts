@@ -0,0 +1,398 @@
+import { UUID } from "crypto";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import { calculateFees, getMoodringData } from "../utils/tradeUtils";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { TradeService, TradeResult, SellTradeResult } from "./tradeService";
+import { TradeValidationService } from "./tradeValidation";
+import { LimitOrderService } from "./limitOrderService";
+import { CopyTradingService } from "./copyTradingService";
+import { withTradeQueue } from "./tradeQueue";
+import { publishExecutedTrade } from "./tradeEvents";
+import {
+  CopyTradeQueueItem,
+  CopyTradeQueueModel,
+  CopiedTradeModel,
+  TraderFollowModel,
+} from "../models/CopyTrade";
+import { MoodringModel } from "../models/Moodring";
+import { Trade, TradeModel } from "../models/Trade";
+import { NotificationModel } from "../models/Notification";
+import { BuySharesRequest, SellSharesRequest } from "../types/requests";
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000; // Check every 2 seconds
+const BATCH_SIZE = 50;
+// Copies that could not run within this window are rejected rather than
+// executed at a price far from the leader's
+const MAX_COPY_DELAY_SECONDS = 300;
+// Items left in processing this long (e.g. after a crash) are released
+const STUCK_PROCESSING_SECONDS = 600;
+
+interface CopyExecution {
+  item: CopyTradeQueueItem;
+  trade: Trade;
+  result: TradeResult | SellTradeResult;
+  priceSlippageBps: number;
+}
+
+/**
+ * Refusal to copy that is decided before any trade is attempted
+ * (flag off, follow removed, keys gate, caps exhausted...)
+ */
+class CopyRejection extends Error {}
+
+/**
+ * Service that executes queued copy trades
+ * - Claims pending rows from copy_trade_queue
+ * - Sizes each copy from the follower's rule and executes it via TradeService
+ * - Records the result in copied_trades and notifies the follower
+ */
+class CopyTradeProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[CopyTradeProcessor] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.processQueue();
+    } catch (error) {
+      console.error("[CopyTradeProcessor] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+
+  private async processQueue() {
+    await CopyTradeQueueModel.requeueStale(STUCK_PROCESSING_SECONDS);
+
+    const items = await CopyTradeQueueModel.claimPending(BATCH_SIZE);
+    if (items.length === 0) {
+      return;
+    }
+
+    const copyTradingEnabled = await MoodringModel.isFeatureEnabled(
+      "copy_trading"
+    );
+
+    for (const item of items) {
+      try {
+        if (!copyTradingEnabled) {
+          throw new CopyRejection("Copy trading is disabled");
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (now - Number(item.created_at) > MAX_COPY_DELAY_SECONDS) {
+          throw new CopyRejection("Copy window expired");
+        }
+
+        const execution = await withTradeQueue(
+          item.market_id,
+          item.option_id,
+          () => this.executeCopy(item)
+        );
+        await this.recordExecution(execution);
+      } catch (error: any) {
+        if (error instanceof CopyRejection) {
+          await CopyTradeQueueModel.markUnsuccessful(
+            item.id,
+            "rejected",
+            error.message
+          );
+        } else {
+          if (!(error instanceof TransactionError)) {
+            console.error(
+              `[CopyTradeProcessor] Error copying trade ${item.original_trade_id} for ${item.follower_id}:`,
+              error
+            );
+          }
+          await CopyTradeQueueModel.markUnsuccessful(
+            item.id,
+            "failed",
+            error.message || "Copy trade failed"
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Size and execute one copy in its own transaction.
+   * Must run inside the trade queue for the market/option.
+   */
+  private async executeCopy(item: CopyTradeQueueItem): Promise<CopyExecution> {
+    return withTransaction(async (client) => {
+      const follow = await TraderFollowModel.find(
+        item.follower_id,
+        item.trader_id,
+        client
+      );
+      if (!follow || !follow.enabled || !follow.auto_copy) {
+        throw new CopyRejection("No longer copying this trader");
+      }
+
+      const access = await CopyTradingService.checkFollowAccess(
+        item.trader_id,
+        item.follower_id,
+        client
+      );
+      if (!access.allowed) {
+        throw new CopyRejection(
+          `Holding ${access.ownedKeys} of the ${access.requiredKeys} key(s) required to copy this trader`
+        );
+      }
+
+      const leaderPrice = Number(item.original_price_per_share);
+      let result: TradeResult | SellTradeResult;
+      let totalCost: number;
+
+      if (item.trade_type === "buy") {
+        const spent = await CopiedTradeModel.getCopiedSpendInMarket(
+          item.follower_id,
+          item.market_id,
+          client
+        );
+        const budget = CopyTradingService.calculateBuyBudget(
+          follow,
+          item,
+          spent
+        );
+        if (budget <= 0) {
+          throw new CopyRejection("Copy limit reached for this market");
+        }
+        const quantity = CopyTradingService.calculateBuyQuantity(item, budget);
+
+        // Same request validation as a manual buy
+        const validation = TradeValidationService.validateBuyRequest({
+          body: {
+            market: item.market_id,
+            option: item.option_id,
+            buyYes: item.side === "yes" ? quantity : 0,
+            buyNo: item.side === "no" ? quantity : 0,
+          },
+        } as BuySharesRequest);
+        if (!validation.isValid) {
+          throw new CopyRejection(validation.error!);
+        }
+
+        result = await TradeService.executeBuy(
+          client,
+          item.follower_id,
+          item.market_id,
+          item.option_id,
+          validation.buyYes!,
+          validation.buyNo!,
+          budget,
+          Number(follow.max_slippage_bps)
+        );
+        totalCost = result.totalCost;
+      } else {
+        await CommonTradeOperations.getMarketWithLock(client, item.market_id);
+        await CommonTradeOperations.getOptionWithLock(client, item.option_id);
+        const position = await CommonTradeOperations.getUserPositionWithLock(
+          client,
+          item.follower_id,
+          item.option_id
+        );
+        const shares =
+          item.side === "yes"
+            ? Number(position?.yes_shares || 0)
+            : Number(position?.no_shares || 0);
+        if (shares <= 0) {
+          throw new CopyRejection("No position to mirror");
+        }
+        const quantity = CopyTradingService.calculateSellQuantity(item, shares);
+
+        const validation = TradeValidationService.validateSellRequest({
+          body: {
+            market: item.market_id,
+            option: item.option_id,
+            sellYes: item.side === "yes" ? quantity : 0,
+            sellNo: item.side === "no" ? quantity : 0,
+          },
+        } as SellSharesRequest);
+        if (!validation.isValid) {
+          throw new CopyRejection(validation.error!);
+        }
+
+        // Expected net payout at the leader's price; executeSell enforces
+        // the follower's slippage tolerance against it
+        const moodring = await getMoodringData(client);
+        const expectedGross = Math.floor((quantity * leaderPrice) / 1_000_000);
+        const { totalFee } = calculateFees(
+          expectedGross,
+          Number(moodring.protocol_fee_rate),
+          Number(moodring.creator_fee_rate),
+          Number(moodring.lp_fee_rate)
+        );
+
+        const sellResult = await TradeService.executeSell(
+          client,
+          item.follower_id,
+          item.market_id,
+          item.option_id,
+          item.side === "yes" ? quantity : 0,
+          item.side === "no" ? quantity : 0,
+          expectedGross - totalFee,
+          Number(follow.max_slippage_bps)
+        );
+        result = sellResult;
+        totalCost = sellResult.netPayout;
+      }
+
+      const trade = await TradeModel.create(
+        {
+          user_id: item.follower_id,
+          market_id: item.market_id,
+          option_id: item.option_id,
+          trade_type: item.trade_type,
+          side: result.side,
+          quantity: result.quantity,
+          price_per_share: result.pricePerShare,
+          total_cost: totalCost,
+          fees_paid: result.totalFee,
+          status: "completed",
+        },
+        client
+      );
+
+      await CopiedTradeModel.create(
+        {
+          original_trade_id: item.original_trade_id,
+          copied_trade_id: trade.id,
+          follower_id: item.follower_id,
+          trader_id: item.trader_id,
+          copy_percentage: Number(follow.copy_percentage),
+        },
+        client
+      );
+
+      // Positive = follower got a worse price than the leader
+      const priceDiff =
+        item.trade_type === "buy"
+          ? result.pricePerShare - leaderPrice
+          : leaderPrice - result.pricePerShare;
+      const priceSlippageBps =
+        leaderPrice > 0 ? Math.round((priceDiff * 10_000) / leaderPrice) : 0;
+
+      await CopyTradeQueueModel.markCompleted(
+        item.id,
+        trade.id,
+        priceSlippageBps,
+        client
+      );
+
+      return { item, trade, result, priceSlippageBps };
+    });
+  }
+
+  /**
+   * Post-commit bookkeeping for a copied trade (mirrors the buy/sell endpoints)
+   */
+  private async recordExecution(execution: CopyExecution) {
+    const { item, trade, result } = execution;
+
+    await publishExecutedTrade({
+      userId: item.follower_id,
+      marketId: item.market_id,
+      optionId: item.option_id,
+      trade,
+      result,
+      metadata: {
+        copied_from_trade_id: item.original_trade_id,
+        trader_id: item.trader_id,
+      },
+    });
+
+    try {
+      await NotificationModel.create({
+        user_id: item.follower_id,
+        notification_type: "trade_executed",
+        title: "Trade Copied",
+        message: `Copied a ${item.trade_type} of ${
+          result.quantity / 1_000_000
+        } ${result.side.toUpperCase()} shares at ${
+          result.pricePerShare / 1_000_000
+        } USDC per share.`,
+        entity_type: "trade",
+        entity_id: trade.id,
+        metadata: {
+          market_id: item.market_id,
+          option_id: item.option_id,
+          original_trade_id: item.original_trade_id,
+          trader_id: item.trader_id,
+          price_slippage_bps: execution.priceSlippageBps,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[CopyTradeProcessor] Error notifying copy ${item.id}:`,
+        error
+      );
+    }
+
+    // Not awaited: matching is queued behind this option's current operation
+    LimitOrderService.matchMarket(item.market_id).catch((error) => {
+      console.error("Limit order matching error:", error);
+    });
+  }
+}
+
+let processorInstance: CopyTradeProcessor | null = null;
+
+export const startCopyTradeProcessor = (): CopyTradeProcessor | null => {
+  if (process.env.NODE_ENV === "test") {
+    console.log("[CopyTradeProcessor] Disabled in test environment");
+    return null;
+  }
+
+  if (processorInstance) {
+    return processorInstance;
+  }
+
+  const pollIntervalMs =
+    Number(process.env.COPY_TRADE_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+
+  processorInstance = new CopyTradeProcessor(pollIntervalMs);
+  processorInstance.start();
+
+  return processorInstance;
+};
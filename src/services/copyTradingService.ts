@@ -0,0 +1,169 @@
+import { UUID } from "crypto";
+import { pool } from "../db";
+import { Pool, PoolClient } from "pg";
+import { MoodringModel } from "../models/Moodring";
+import { UserKeyModel } from "../models/UserKey";
+import { Trade } from "../models/Trade";
+import {
+  TraderFollow,
+  TraderFollowModel,
+  CopyTradeQueueItem,
+  CopyTradeQueueModel,
+} from "../models/CopyTrade";
+
+type QueryClient = Pool | PoolClient;
+
+export interface FollowAccess {
+  allowed: boolean;
+  requiredKeys: number;
+  ownedKeys: number;
+}
+
+/**
+ * Copy trading: followers mirror a leader's buys and sells.
+ *
+ * Every trade a leader makes through the buy/sell endpoints is enqueued once per
+ * active follower (copy_trade_queue). CopyTradeProcessor drains the queue and
+ * executes each mirrored trade through TradeService, so copies go through the
+ * same validation, trade limits and slippage checks as a manual trade.
+ * Copied trades never enqueue further copies.
+ */
+export class CopyTradingService {
+  /**
+   * Whether a user may copy a trader. Applies the trader's required_keys_to_follow
+   * (set via the keys API): with a requirement, the follower must hold that many keys.
+   */
+  static async checkFollowAccess(
+    traderId: UUID | string,
+    followerId: UUID | string,
+    client?: QueryClient
+  ): Promise<FollowAccess> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT COALESCE(required_keys_to_follow, 0)::int as required_keys FROM users WHERE id = $1`,
+      [traderId]
+    );
+    const requiredKeys = Number(result.rows[0]?.required_keys || 0);
+    if (requiredKeys <= 0) {
+      return { allowed: true, requiredKeys: 0, ownedKeys: 0 };
+    }
+
+    const ownedKeys = await UserKeyModel.getQuantity(
+      traderId,
+      followerId,
+      client
+    );
+    return { allowed: ownedKeys >= requiredKeys, requiredKeys, ownedKeys };
+  }
+
+  /**
+   * Queue mirrored trades for every active follower of the trade's owner.
+   * Safe to call after any leader trade; returns the number of queued copies.
+   * For sells, pass the leader's shares on the sold side before the sell, read
+   * inside the sell's transaction (SellTradeResult.sharesBefore): followers
+   * sell the same fraction of their position.
+   */
+  static async enqueueCopies(
+    trade: Trade,
+    leaderSharesBefore: number | null = null
+  ): Promise<number> {
+    if (!(await MoodringModel.isFeatureEnabled("copy_trading"))) {
+      return 0;
+    }
+
+    const follows = await TraderFollowModel.findActiveFollowers(trade.user_id);
+    if (follows.length === 0) {
+      return 0;
+    }
+
+    let queued = 0;
+    for (const follow of follows) {
+      const item = await CopyTradeQueueModel.enqueue({
+        original_trade_id: trade.id,
+        follower_id: follow.follower_id,
+        trader_id: trade.user_id,
+        market_id: trade.market_id,
+        option_id: trade.option_id,
+        trade_type: trade.trade_type,
+        side: trade.side,
+        original_quantity: Number(trade.quantity),
+        original_total_cost: Number(trade.total_cost),
+        original_price_per_share: Number(trade.price_per_share),
+        leader_shares_before:
+          trade.trade_type === "sell" ? leaderSharesBefore : null,
+      });
+      if (item) {
+        queued++;
+      }
+    }
+    return queued;
+  }
+
+  /**
+   * USDC budget (micro-USDC, including fees) for copying a leader's buy.
+   * Returns 0 when the follow's caps leave nothing to spend.
+   */
+  static calculateBuyBudget(
+    follow: TraderFollow,
+    item: Pick<CopyTradeQueueItem, "original_total_cost">,
+    copiedSpendInMarket: number
+  ): number {
+    let budget =
+      follow.sizing_mode === "fixed"
+        ? Number(follow.fixed_amount || 0)
+        : Math.floor(
+            (Number(item.original_total_cost) *
+              Number(follow.copy_percentage)) /
+              100
+          );
+
+    if (
+      follow.max_trade_amount !== null &&
+      follow.max_trade_amount !== undefined
+    ) {
+      budget = Math.min(budget, Number(follow.max_trade_amount));
+    }
+    if (follow.max_per_market !== null && follow.max_per_market !== undefined) {
+      budget = Math.min(
+        budget,
+        Number(follow.max_per_market) - copiedSpendInMarket
+      );
+    }
+
+    return Math.max(budget, 0);
+  }
+
+  /**
+   * Shares (micro-shares) a follower buys for a budget, at the leader's average
+   * price including fees
+   */
+  static calculateBuyQuantity(
+    item: Pick<CopyTradeQueueItem, "original_quantity" | "original_total_cost">,
+    budget: number
+  ): number {
+    const leaderCost = Number(item.original_total_cost);
+    if (leaderCost <= 0) {
+      return 0;
+    }
+    return Math.floor((Number(item.original_quantity) * budget) / leaderCost);
+  }
+
+  /**
+   * Shares (micro-shares) a follower sells to mirror the leader selling the
+   * same fraction of their position
+   */
+  static calculateSellQuantity(
+    item: Pick<
+      CopyTradeQueueItem,
+      "original_quantity" | "leader_shares_before"
+    >,
+    followerShares: number
+  ): number {
+    const leaderBefore = Number(item.leader_shares_before || 0);
+    if (leaderBefore <= 0) {
+      return 0;
+    }
+    const fraction = Math.min(Number(item.original_quantity) / leaderBefore, 1);
+    return Math.floor(followerShares * fraction);
+  }
+}
@@ -7,13 +7,26 @@ import {
 } from "@solana/web3.js";
 import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 import { Wallet, WalletModel } from "../models/Wallet";
-import { DepositModel } from "../models/Deposit";
+import { DepositModel, WalletDeposit } from "../models/Deposit";
 
 // Note: WalletModel is used for:
 // - findAll() to get all wallets to monitor
 // - updateLastSignature() to track last processed signature per wallet
 import { SweepModel } from "../models/Sweep";
 import { getCircleWallet } from "./circleWallet";
+import { LedgerService } from "./ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
+import {
+  DepositToken,
+  convertToUsdc,
+  parseDepositTokens,
+  quoteDeposit,
+} from "../utils/depositTokens";
+import {
+  DepositPriceSource,
+  StaticDepositPriceSource,
+} from "./depositPriceSource";
+import { DepositNotification } from "../utils/depositWebhook";
 import { getUsdcMintAddress } from "../sdk/constants";
 
 // Configuration constants
@@ -23,6 +36,10 @@ const DEFAULT_POLL_INTERVAL_MS = 120_000; // How often to check for new deposits
 const DEFAULT_SIGNATURE_LIMIT = 50; // Number of recent transactions to check per wallet per poll
 // On startup, fetch more signatures to catch up on missed deposits
 const STARTUP_SIGNATURE_LIMIT = 200; // Higher limit on first run to catch up
+// With deposit webhooks enabled, polling is only a backstop for missed notifications
+const DEFAULT_BACKSTOP_POLL_INTERVAL_MS = 15 * 60_000; // 15 minutes
+// Held deposits re-quoted per token each poll
+const HELD_DEPOSIT_BATCH_SIZE = 50;
 
 // Devnet Solana RPC URL
 const DEFAULT_RPC_URL = process.env.RPC_URL;
@@ -36,16 +53,32 @@ type AnyTransactionResponse =
   | VersionedTransactionResponse
   | TransactionResponse;
 
+// A deposit found in a transaction, before it's converted and recorded
+export interface TokenDeposit {
+  amount: bigint; // In the token's base units
+  source: string | null; // Sending account
+  slot: number;
+  block_time: number | null;
+  meta: NonNullable<AnyTransactionResponse["meta"]>;
+}
+
 /**
- * DepositListener monitors Solana wallets for USDC deposits and automatically:
- * 1. Records deposits in the database
- * 2. Updates wallet balances
- * 3. Sweeps deposits to the hot wallet via Circle
+ * DepositListener monitors Solana wallets for deposits of the allowed SPL
+ * tokens (USDC plus any configured in DEPOSIT_TOKENS) and automatically:
+ * 1. Records deposits in the database, with the token received and the rate used
+ * 2. Updates wallet balances (other tokens are converted to USDC, see utils/depositTokens.ts)
+ * 3. Sweeps USDC deposits to the hot wallet via Circle
+ *
+ * Transactions can also be pushed by deposit webhooks (see ingestNotification),
+ * in which case polling runs less often as a backstop.
  *
- * SECURITY FIX (CVE-006): Minimum deposit of 1 USDC required to prevent DoS attacks
+ * Deposits held for a missing or off-peg rate are re-quoted every poll and
+ * credited once the price source quotes them within the slippage limit.
+ *
+ * SECURITY FIX (CVE-006): Minimum deposit of 0.25 USDC (after conversion) required to prevent DoS attacks
  * Per-wallet rate limiting: 10 deposits per hour
  */
-class DepositListener {
+export class DepositListener {
   private timer: NodeJS.Timeout | null = null; // Timer for scheduling next poll
   private isRunning = false; // Prevents concurrent poll executions
   private started = false; // Tracks if listener has been started
@@ -55,7 +88,8 @@ class DepositListener {
     private readonly connection: Connection, // Solana RPC connection
     private readonly pollIntervalMs: number, // How often to poll (milliseconds)
     private readonly signatureLimit: number, // Max signatures to fetch per wallet per poll
-    private readonly tokenMint: PublicKey // USDC mint address
+    private readonly tokens: DepositToken[], // Allowed mints, base token (USDC) first
+    private readonly priceSource: DepositPriceSource // USDC rates for non-base tokens
   ) {}
 
   /**
@@ -68,11 +102,15 @@ class DepositListener {
     this.started = true;
     this.isFirstRun = true; // Enable startup catchup mode
     console.log(
-      `[Deposits] USDC deposit listener started (interval=${this.pollIntervalMs}ms, limit=${this.signatureLimit})`
-    );
-    console.log(
-      `[Deposits] Monitoring USDC mint: ${this.tokenMint.toBase58()}`
+      `[Deposits] Deposit listener started (interval=${this.pollIntervalMs}ms, limit=${this.signatureLimit})`
     );
+    for (const token of this.tokens) {
+      console.log(
+        `[Deposits] Monitoring ${token.symbol} mint: ${token.mint}${
+          token.is_base ? "" : ` (price source: ${this.priceSource.name})`
+        }`
+      );
+    }
     console.log(
       `[Deposits] Running startup catchup with limit=${STARTUP_SIGNATURE_LIMIT} to recover any missed deposits...`
     );
@@ -90,7 +128,7 @@ class DepositListener {
       clearTimeout(this.timer); // Cancel scheduled next poll
       this.timer = null;
     }
-    console.log("[Deposits] USDC deposit listener stopped");
+    console.log("[Deposits] Deposit listener stopped");
   }
 
   /**
@@ -123,6 +161,7 @@ class DepositListener {
 
     try {
       await this.pollWallets(); // Check all wallets for deposits
+      await this.releaseHeldDeposits(); // Re-quote deposits held for pricing
     } catch (error) {
       console.error("[Deposits] Poll loop error:", error);
     } finally {
@@ -132,7 +171,7 @@ class DepositListener {
   }
 
   /**
-   * Poll all wallets in the database for new USDC deposits
+   * Poll all wallets in the database for new deposits
    * Uses higher signature limit on first run to catch up on missed deposits
    */
   private async pollWallets() {
@@ -202,7 +241,67 @@ class DepositListener {
   }
 
   /**
-   * Sync a single wallet - check for new USDC deposits
+   * Process a transaction a deposit webhook notified us of
+   * Credits any deposit it made to a user wallet exactly as polling would -
+   * deposits are recorded once per signature, so a transaction seen by both
+   * is only credited once
+   * @param notification - Transaction from the webhook payload
+   * @returns Number of user wallets the transaction involved
+   */
+  async ingestNotification(notification: DepositNotification): Promise<number> {
+    if (notification.failed) {
+      return 0; // Failed transactions don't move tokens
+    }
+
+    // Only wallets that are party to the transaction can have received a deposit
+    const wallets = await WalletModel.findByPublicKeys(notification.accounts);
+    if (!wallets.length) {
+      return 0;
+    }
+
+    // Skip tokens the transaction didn't transfer, when the payload says which it did
+    const tokens = notification.mints.length
+      ? this.tokens.filter((token) => notification.mints.includes(token.mint))
+      : this.tokens;
+
+    const signatureInfo: ConfirmedSignatureInfo = {
+      signature: notification.signature,
+      slot: notification.slot ?? 0,
+      err: null,
+      memo: null,
+      blockTime: notification.block_time,
+    };
+
+    for (const wallet of wallets) {
+      let walletPublicKey: PublicKey;
+      try {
+        walletPublicKey = new PublicKey(wallet.public_key);
+      } catch (error) {
+        console.warn(
+          `[Deposits] Invalid wallet public key stored for wallet ${wallet.id}: ${wallet.public_key}`
+        );
+        continue;
+      }
+
+      for (const token of tokens) {
+        await this.processTokenSignature(
+          wallet,
+          walletPublicKey,
+          token,
+          getAssociatedTokenAddressSync(
+            new PublicKey(token.mint),
+            walletPublicKey
+          ),
+          signatureInfo
+        );
+      }
+    }
+
+    return wallets.length;
+  }
+
+  /**
+   * Sync a single wallet - check each allowed token account for new deposits
    * @param wallet - Wallet record from database
    * @param limit - Maximum number of signatures to fetch
    */
@@ -222,34 +321,51 @@ class DepositListener {
       return; // Skip invalid public keys
     }
 
-    // Get the associated token account (ATA) for USDC
-    // Each wallet has a unique token account address for each SPL token
-    const tokenAccountPublicKey = getAssociatedTokenAddressSync(
-      this.tokenMint, // USDC mint address
-      walletPublicKey // Wallet owner
-    );
+    // The base token (USDC) tracks its last signature on the wallet itself,
+    // other tokens in wallet_token_cursors
+    const tokenCursors =
+      this.tokens.length > 1
+        ? await WalletModel.findTokenCursors(wallet.id)
+        : new Map<string, string>();
+
+    for (const token of this.tokens) {
+      // Get the associated token account (ATA) for this mint
+      // Each wallet has a unique token account address for each SPL token
+      const tokenAccountPublicKey = getAssociatedTokenAddressSync(
+        new PublicKey(token.mint), // Token mint address
+        walletPublicKey // Wallet owner
+      );
 
-    // Monitor the token account for deposits
-    await this.syncTokenDeposits(
-      wallet,
-      walletPublicKey,
-      tokenAccountPublicKey,
-      limit
-    );
+      // Monitor the token account for deposits
+      await this.syncTokenDeposits(
+        wallet,
+        walletPublicKey,
+        token,
+        tokenAccountPublicKey,
+        token.is_base
+          ? wallet.last_signature
+          : tokenCursors.get(token.mint) || null,
+        limit
+      );
+    }
   }
 
   /**
    * Sync deposits for a token account - fetch recent transactions and process new deposits
-   * Uses the wallet's last_signature to only fetch NEW transactions (optimization)
+   * Uses the token account's last processed signature to only fetch NEW transactions (optimization)
    * @param wallet - Wallet record
    * @param walletPublicKey - Wallet's public key
-   * @param tokenAccountPublicKey - Associated token account address for USDC
+   * @param token - Deposit token the account holds
+   * @param tokenAccountPublicKey - Associated token account address for the token
+   * @param lastSignature - Last processed signature for this token account
    * @param limit - Maximum number of signatures to fetch
    */
   private async syncTokenDeposits(
     wallet: Wallet,
     walletPublicKey: PublicKey,
+    token: DepositToken,
     tokenAccountPublicKey: PublicKey,
+    lastSignature: string | null,
     limit: number
   ): Promise<void> {
     // Fetch recent transaction signatures for the token account
@@ -261,8 +377,8 @@ class DepositListener {
       
       // If we have a last processed signature, only fetch newer ones
       // This prevents re-scanning the same transactions repeatedly
-      if (wallet.last_signature && !this.isFirstRun) {
-        options.until = wallet.last_signature;
+      if (lastSignature && !this.isFirstRun) {
+        options.until = lastSignature;
       }
       
       signatures = await this.connection.getSignaturesForAddress(
@@ -271,7 +387,7 @@ class DepositListener {
       );
     } catch (error: any) {
       // Token account doesn't exist yet - no deposits to process
-      // This is normal for wallets that haven't received USDC yet
+      // This is normal for wallets that haven't received this token yet
       if (
         typeof error?.message === "string" &&
         error.message.includes("does not exist")
@@ -313,7 +429,8 @@ class DepositListener {
     // Check which signatures we've already processed (avoid duplicates)
     // This is a safety check - with 'until' we should only get new ones
     const processedSignatures = await DepositModel.findExistingSignatures(
-      signatures.map((signatureInfo) => signatureInfo.signature)
+      signatures.map((signatureInfo) => signatureInfo.signature),
+      token.mint
     );
 
     // Filter to only new signatures and reverse to process oldest first
@@ -329,21 +446,31 @@ class DepositListener {
       await this.processTokenSignature(
         wallet,
         walletPublicKey,
+        token,
         tokenAccountPublicKey,
         signatureInfo
       );
     }
 
-    // OPTIMIZATION: Update the wallet's last_signature to the most recent one
+    // OPTIMIZATION: Update the token account's last signature to the most recent one
     // This ensures next poll only fetches newer signatures
     // signatures[0] is the newest (getSignaturesForAddress returns newest first)
     if (signatures.length > 0) {
       const newestSignature = signatures[0];
-      await WalletModel.updateLastSignature(
-        wallet.id,
-        newestSignature.signature,
-        newestSignature.slot
-      );
+      if (token.is_base) {
+        await WalletModel.updateLastSignature(
+          wallet.id,
+          newestSignature.signature,
+          newestSignature.slot
+        );
+      } else {
+        await WalletModel.updateTokenCursor(
+          wallet.id,
+          token.mint,
+          newestSignature.signature,
+          newestSignature.slot
+        );
+      }
     }
   }
 
@@ -352,88 +479,41 @@ class DepositListener {
    * This is where the actual deposit detection happens
    * @param wallet - Wallet record
    * @param walletPublicKey - Wallet's public key
+   * @param token - Deposit token the account holds
    * @param tokenAccountPublicKey - Token account address
    * @param signatureInfo - Transaction signature info from Solana
    */
   private async processTokenSignature(
     wallet: Wallet,
     walletPublicKey: PublicKey,
+    token: DepositToken,
     tokenAccountPublicKey: PublicKey,
     signatureInfo: ConfirmedSignatureInfo
   ) {
-    // Skip failed transactions (they don't represent successful deposits)
-    if (signatureInfo.err) {
-      return;
-    }
-
-    // Fetch full transaction details including token balance changes
-    let tx: AnyTransactionResponse | null = null;
-    try {
-      tx = await this.connection.getTransaction(signatureInfo.signature, {
-        commitment: "confirmed",
-        maxSupportedTransactionVersion: 0, // Support versioned transactions
-      });
-    } catch (error: any) {
-      // Handle transient RPC errors gracefully
-      const isTransientError =
-        error?.code === -32019 ||
-        error?.code === -32002 ||
-        error?.code === -32005 ||
-        error?.message?.includes("ETIMEDOUT") ||
-        error?.message?.includes("timeout") ||
-        error?.message?.includes("Failed to query long-term storage") ||
-        error?.message?.includes("ECONNRESET") ||
-        error?.message?.includes("ENOTFOUND");
-
-      if (isTransientError) {
-        // Log but continue processing other signatures
-        console.warn(
-          `[Deposits] Transient RPC error fetching transaction ${signatureInfo.signature}:`,
-          error?.message || error
-        );
-        return; // Skip this transaction
-      }
-
-      // For other errors, log and skip (don't crash the entire sync)
-      console.error(
-        `[Deposits] Error fetching transaction ${signatureInfo.signature}:`,
-        error
-      );
-      return;
-    }
-
-    if (!tx || !tx.meta) {
-      return; // Can't process without transaction metadata
-    }
-
-    // Extract all account keys from transaction (handles both legacy and versioned)
-    const accountKeys = this.resolveAccountKeys(tx);
-
-    // Find the index of our token account in the transaction's account list
-    const tokenAccountIndex = accountKeys.findIndex((key) =>
-      key.equals(tokenAccountPublicKey)
+    const deposit = await this.fetchTokenDeposit(
+      signatureInfo,
+      tokenAccountPublicKey,
+      token
     );
-
-    if (tokenAccountIndex === -1) {
-      return; // Token account not involved in this transaction
+    if (!deposit) {
+      return; // Not a deposit to this token account
     }
 
-    // Calculate how much USDC was received (post-balance - pre-balance)
-    // This is the deposit amount in micro-USDC (6 decimals)
-    const tokenDeltaInfo = this.calculateTokenDelta(tx.meta, tokenAccountIndex);
-
-    // Only process positive deltas (deposits, not withdrawals)
-    // NOTE: No minimum amount check - processes ANY positive deposit (even 1 micro-USDC)
-    if (!tokenDeltaInfo || tokenDeltaInfo.delta <= 0n) {
-      return; // Not a deposit or no change
+    // Work out the USDC to credit: the base token one to one, other tokens
+    // at the price source's rate if it's within their slippage limit
+    const quote = await this.quoteTokenDeposit(token, deposit.amount);
+
+    // SECURITY FIX (CVE-006): Skip deposits below minimum amount (prevents micro-deposit DoS)
+    // Held deposits without a quote are valued at the token's reference rate
+    const depositValue =
+      quote.quoted_amount ??
+      convertToUsdc(deposit.amount, token.decimals, token.reference_rate);
+    if (depositValue < BigInt(MIN_DEPOSIT_AMOUNT)) {
+      return; // Deposit too small, skip it
     }
 
-    // Identify the source account that sent the USDC (for tracking/audit)
-    const sourceAccount = this.identifyTokenSourceAccount(
-      tx.meta,
-      accountKeys,
-      tokenAccountIndex
-    );
+    const creditedAmount = Number(quote.credited_amount);
+    const sourceAccount = deposit.source;
 
     // SECURITY FIX: Use transaction to ensure atomicity
     // Both deposit recording and balance update happen atomically
@@ -462,9 +542,13 @@ class DepositListener {
       }
 
       // Check if deposit already processed (with lock to prevent race conditions)
+      // One transaction can deposit several tokens, so deposits are keyed by
+      // signature and mint; rows without a mint predate multi-token deposits
       const existingDeposit = await client.query(
-        `SELECT id FROM wallet_deposits WHERE signature = $1 FOR UPDATE`,
-        [signatureInfo.signature]
+        `SELECT id FROM wallet_deposits
+         WHERE signature = $1 AND (token_mint = $2 OR token_mint IS NULL)
+         FOR UPDATE`,
+        [signatureInfo.signature, token.mint]
       );
 
       if (existingDeposit.rows.length > 0) {
@@ -477,26 +561,40 @@ class DepositListener {
 
       // SECURITY FIX: Record deposit AND update balance atomically
       // Both operations in same transaction - if either fails, both roll back
+      // amount is the micro-USDC credited (0 if held); the token received
+      // and the rate used are recorded alongside it
       const depositResult = await client.query(
         `INSERT INTO wallet_deposits (
           wallet_id, user_id, signature, slot, block_time,
           amount, token_symbol, source, status, raw,
+          token_mint, token_amount, token_decimals, conversion_rate,
+          price_source, hold_reason,
           created_at, updated_at
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-        ON CONFLICT (signature) DO NOTHING
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+        ON CONFLICT (signature, token_mint) DO NOTHING
         RETURNING *`,
         [
           wallet.id,
           wallet.user_id,
           signatureInfo.signature,
-          signatureInfo.slot,
-          signatureInfo.blockTime || Math.floor(Date.now() / 1000),
-          Number(tokenDeltaInfo.delta),
-          "USDC",
+          deposit.slot,
+          deposit.block_time ||
+            signatureInfo.blockTime ||
+            Math.floor(Date.now() / 1000),
+          creditedAmount,
+          token.symbol,
           sourceAccount,
-          signatureInfo.confirmationStatus || "confirmed",
-          JSON.stringify(tx.meta),
+          quote.status === "held"
+            ? "held"
+            : signatureInfo.confirmationStatus || "confirmed",
+          JSON.stringify(deposit.meta),
+          token.mint,
+          deposit.amount.toString(),
+          token.decimals,
+          quote.rate,
+          token.is_base ? null : this.priceSource.name,
+          quote.reason,
           Math.floor(Date.now() / 1000),
           Math.floor(Date.now() / 1000),
         ]
@@ -512,6 +610,11 @@ class DepositListener {
 
       recorded = depositResult.rows[0];
 
+      // Held deposits are recorded for review but not credited
+      if (quote.status === "held") {
+        return;
+      }
+
       // SECURITY FIX: Update balance in same transaction
       // If this fails, entire transaction rolls back including deposit record
       await client.query(
@@ -519,7 +622,25 @@ class DepositListener {
          SET balance_usdc = balance_usdc + $1,
              updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
          WHERE id = $2`,
-        [Number(tokenDeltaInfo.delta), wallet.id]
+        [creditedAmount, wallet.id]
+      );
+      await LedgerService.transfer(
+        client,
+        "deposit",
+        LedgerAccounts.hotWallet(),
+        LedgerAccounts.user(wallet.user_id),
+        creditedAmount,
+        {
+          reference_type: "deposit",
+          reference_id: recorded.id,
+          metadata: token.is_base
+            ? {}
+            : {
+                token_symbol: token.symbol,
+                token_amount: deposit.amount.toString(),
+                conversion_rate: quote.rate,
+              },
+        }
       );
     });
 
@@ -528,26 +649,152 @@ class DepositListener {
       return;
     }
 
+    if (quote.status === "held") {
+      console.warn(
+        `[Deposits] ⚠️  Held ${token.symbol} deposit ${signatureInfo.signature} of ${deposit.amount} base units for wallet ${wallet.id}: ${quote.reason}`
+      );
+      return;
+    }
+
     console.log(
-      `[Deposits] ✅ Recorded USDC deposit of ${tokenDeltaInfo.delta} (${
-        Number(tokenDeltaInfo.delta) / 1_000_000
-      } USDC) for wallet ${wallet.id} (${walletPublicKey.toBase58()})`
+      `[Deposits] ✅ Recorded ${token.symbol} deposit of ${deposit.amount} base units, credited ${creditedAmount} (${
+        creditedAmount / 1_000_000
+      } USDC at ${quote.rate}) for wallet ${wallet.id} (${walletPublicKey.toBase58()})`
     );
 
     // Create activity for the deposit
+    await this.recordDepositActivity(recorded);
+
+    // Circle sweeps only move USDC; other tokens stay in the user's
+    // wallet until they're swept manually
+    if (!token.is_base) {
+      console.log(
+        `[Deposits] ${token.symbol} deposit ${recorded.id} left in wallet ${wallet.id} (automatic sweeps are USDC only)`
+      );
+      return;
+    }
+
+    // Automatically sweep the deposit to the hot wallet using Circle
+    // This moves funds from user's wallet to platform's hot wallet
+    await this.sweepDepositToHotWallet(
+      wallet,
+      creditedAmount,
+      recorded.id,
+      walletPublicKey.toBase58()
+    );
+  }
+
+  /**
+   * Re-quote held deposits and credit any the price source now quotes within
+   * the token's slippage limit
+   */
+  private async releaseHeldDeposits() {
+    const { withTransaction } = await import("../utils/transaction");
+
+    for (const token of this.tokens) {
+      if (token.is_base) {
+        continue; // USDC is never held for pricing
+      }
+
+      const held = await DepositModel.findHeld(
+        token.mint,
+        HELD_DEPOSIT_BATCH_SIZE
+      );
+      for (const deposit of held) {
+        const quote = await this.requoteHeldDeposit(deposit);
+        if (!quote || quote.status === "held") {
+          continue; // Still no usable rate, try again next poll
+        }
+
+        const creditedAmount = Number(quote.credited_amount);
+        let released: WalletDeposit | null = null;
+
+        await withTransaction(async (client) => {
+          released = await DepositModel.releaseHeld(
+            deposit.id,
+            creditedAmount,
+            quote.rate!,
+            this.priceSource.name,
+            client
+          );
+          if (!released) {
+            return; // Released by another poll
+          }
+
+          await client.query(
+            `UPDATE wallets
+             SET balance_usdc = balance_usdc + $1,
+                 updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+             WHERE id = $2`,
+            [creditedAmount, deposit.wallet_id]
+          );
+          await LedgerService.transfer(
+            client,
+            "deposit",
+            LedgerAccounts.hotWallet(),
+            LedgerAccounts.user(deposit.user_id),
+            creditedAmount,
+            {
+              reference_type: "deposit",
+              reference_id: deposit.id,
+              metadata: {
+                token_symbol: token.symbol,
+                token_amount: deposit.token_amount,
+                conversion_rate: quote.rate,
+                released_from_hold: true,
+              },
+            }
+          );
+        });
+
+        if (!released) {
+          continue;
+        }
+
+        console.log(
+          `[Deposits] ✅ Released held ${token.symbol} deposit ${deposit.signature}, credited ${creditedAmount} (${
+            creditedAmount / 1_000_000
+          } USDC at ${quote.rate}) for wallet ${deposit.wallet_id}`
+        );
+        await this.recordDepositActivity(released);
+      }
+    }
+  }
+
+  /**
+   * Quote a held deposit again at the price source's current rate
+   * @param deposit - Deposit recorded with status 'held'
+   * @returns The new quote, or null if its token is no longer allowed
+   */
+  async requoteHeldDeposit(deposit: WalletDeposit) {
+    const token = this.tokens.find((t) => t.mint === deposit.token_mint);
+    if (!token || deposit.token_amount === null) {
+      return null;
+    }
+    return this.quoteTokenDeposit(token, BigInt(deposit.token_amount));
+  }
+
+  /**
+   * Record the private activity for a credited deposit
+   * Failures are logged, not thrown - the deposit is already credited
+   * @param deposit - Credited deposit record
+   */
+  private async recordDepositActivity(deposit: WalletDeposit) {
     try {
       const { ActivityModel } = await import("../models/Activity");
       await ActivityModel.create({
-        user_id: wallet.user_id,
+        user_id: deposit.user_id,
         activity_type: "deposit",
         entity_type: "user",
-        entity_id: wallet.user_id,
+        entity_id: deposit.user_id,
         metadata: {
-          deposit_id: recorded.id,
-          amount: Number(tokenDeltaInfo.delta),
-          token_symbol: "USDC",
-          signature: signatureInfo.signature,
-          source: sourceAccount,
+          deposit_id: deposit.id,
+          amount: Number(deposit.amount),
+          token_symbol: deposit.token_symbol,
+          token_amount: deposit.token_amount,
+          conversion_rate: Number(deposit.conversion_rate),
+          signature: deposit.signature,
+          source: deposit.source,
         },
         is_public: false, // Deposits are private by default
       });
@@ -555,15 +802,132 @@ class DepositListener {
       console.error("[Deposits] Failed to create deposit activity:", error);
       // Don't fail the deposit if activity creation fails
     }
+  }
 
-    // Automatically sweep the deposit to the hot wallet using Circle
-    // This moves funds from user's wallet to platform's hot wallet
-    await this.sweepDepositToHotWallet(
-      wallet,
-      Number(tokenDeltaInfo.delta),
-      recorded.id,
-      walletPublicKey.toBase58()
+  /**
+   * Fetch a transaction and work out what it deposited into a token account
+   * Only reads from the RPC connection - nothing is recorded
+   * @param signatureInfo - Transaction signature info from Solana
+   * @param tokenAccountPublicKey - Token account address
+   * @param token - Deposit token the account holds
+   * @returns Amount received in the token's base units, the sender and the
+   * transaction metadata, or null if the transaction isn't a deposit
+   */
+  async fetchTokenDeposit(
+    signatureInfo: ConfirmedSignatureInfo,
+    tokenAccountPublicKey: PublicKey,
+    token: DepositToken
+  ): Promise<TokenDeposit | null> {
+    // Skip failed transactions (they don't represent successful deposits)
+    if (signatureInfo.err) {
+      return null;
+    }
+
+    // Fetch full transaction details including token balance changes
+    let tx: AnyTransactionResponse | null = null;
+    try {
+      tx = await this.connection.getTransaction(signatureInfo.signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0, // Support versioned transactions
+      });
+    } catch (error: any) {
+      // Handle transient RPC errors gracefully
+      const isTransientError =
+        error?.code === -32019 ||
+        error?.code === -32002 ||
+        error?.code === -32005 ||
+        error?.message?.includes("ETIMEDOUT") ||
+        error?.message?.includes("timeout") ||
+        error?.message?.includes("Failed to query long-term storage") ||
+        error?.message?.includes("ECONNRESET") ||
+        error?.message?.includes("ENOTFOUND");
+
+      if (isTransientError) {
+        // Log but continue processing other signatures
+        console.warn(
+          `[Deposits] Transient RPC error fetching transaction ${signatureInfo.signature}:`,
+          error?.message || error
+        );
+        return null; // Skip this transaction
+      }
+
+      // For other errors, log and skip (don't crash the entire sync)
+      console.error(
+        `[Deposits] Error fetching transaction ${signatureInfo.signature}:`,
+        error
+      );
+      return null;
+    }
+
+    if (!tx || !tx.meta) {
+      return null; // Can't process without transaction metadata
+    }
+
+    // Extract all account keys from transaction (handles both legacy and versioned)
+    const accountKeys = this.resolveAccountKeys(tx);
+
+    // Find the index of our token account in the transaction's account list
+    const tokenAccountIndex = accountKeys.findIndex((key) =>
+      key.equals(tokenAccountPublicKey)
     );
+
+    if (tokenAccountIndex === -1) {
+      return null; // Token account not involved in this transaction
+    }
+
+    // Calculate how much of the token was received (post-balance - pre-balance)
+    // This is the deposit amount in the token's base units
+    const tokenDeltaInfo = this.calculateTokenDelta(
+      tx.meta,
+      tokenAccountIndex,
+      token.mint
+    );
+
+    // Only process positive deltas (deposits, not withdrawals)
+    // NOTE: The minimum amount is checked after conversion to USDC
+    if (!tokenDeltaInfo || tokenDeltaInfo.delta <= 0n) {
+      return null; // Not a deposit or no change
+    }
+
+    // Identify the source account that sent the tokens (for tracking/audit)
+    const sourceAccount = this.identifyTokenSourceAccount(
+      tx.meta,
+      accountKeys,
+      tokenAccountIndex,
+      token.mint
+    );
+
+    return {
+      amount: tokenDeltaInfo.delta,
+      source: sourceAccount,
+      slot: tx.slot,
+      block_time: tx.blockTime ?? null,
+      meta: tx.meta,
+    };
+  }
+
+  /**
+   * Quote a deposit in USDC using the price source (base token deposits are
+   * credited as is)
+   * @param token - Deposit token
+   * @param amount - Amount received in the token's base units
+   */
+  async quoteTokenDeposit(token: DepositToken, amount: bigint) {
+    if (token.is_base) {
+      return quoteDeposit(token, amount, 1);
+    }
+
+    let rate: number | null = null;
+    try {
+      rate = await this.priceSource.getRate(token);
+    } catch (error: any) {
+      // No rate means the deposit is held, not lost
+      console.warn(
+        `[Deposits] Price source ${this.priceSource.name} failed for ${token.symbol}:`,
+        error?.message || error
+      );
+    }
+    return quoteDeposit(token, amount, rate);
   }
 
   /**
@@ -736,26 +1100,26 @@ class DepositListener {
    * Compares pre-transaction and post-transaction balances to determine deposit amount
    * @param meta - Transaction metadata containing token balance changes
    * @param tokenAccountIndex - Index of the token account in the transaction's account list
+   * @param mintAddress - Mint of the token account
    * @returns Object with delta (amount received) and postAmount, or null if not a deposit
    *
-   * NOTE: No minimum amount - returns ANY positive delta (even 1 micro-USDC = 0.000001 USDC)
+   * NOTE: No minimum amount - returns ANY positive delta; the minimum is checked once converted to USDC
    */
   private calculateTokenDelta(
     meta: AnyTransactionResponse["meta"],
-    tokenAccountIndex: number
+    tokenAccountIndex: number,
+    mintAddress: string
   ): { delta: bigint; postAmount: bigint } | null {
     if (!meta || !meta.postTokenBalances) {
       return null; // Can't calculate without balance info
     }
 
-    const mintAddress = this.tokenMint.toBase58(); // USDC mint address
-
     // Find the post-transaction balance for this token account
     // postTokenBalances shows balances after the transaction executed
     const postBalance = meta.postTokenBalances.find(
       (balance) =>
         balance.accountIndex === tokenAccountIndex &&
-        balance.mint === mintAddress // Must match USDC mint
+        balance.mint === mintAddress // Must match the token's mint
     );
 
     if (!postBalance) {
@@ -771,7 +1135,7 @@ class DepositListener {
           balance.mint === mintAddress
       ) || null;
 
-    // Convert amounts to BigInt for precise calculation (amounts are in micro-USDC)
+    // Convert amounts to BigInt for precise calculation (amounts are in the token's base units)
     const preAmount = BigInt(preBalance?.uiTokenAmount?.amount ?? "0");
     const postAmount = BigInt(postBalance.uiTokenAmount.amount);
 
@@ -779,42 +1143,36 @@ class DepositListener {
     const delta = postAmount - preAmount;
 
     // Only return positive deltas (deposits, not withdrawals)
-    // SECURITY FIX: Enforce minimum deposit amount to prevent DoS attacks
     if (delta <= 0n) {
       return null; // Not a deposit (withdrawal or no change)
     }
 
-    // Skip deposits below minimum amount (prevents micro-deposit DoS)
-    if (delta < BigInt(MIN_DEPOSIT_AMOUNT)) {
-      return null; // Deposit too small, skip it
-    }
-
     return { delta, postAmount };
   }
 
   /**
    * Identify the source account that sent tokens to the recipient
-   * Finds which account's balance decreased (sent USDC) to identify the sender
+   * Finds which account's balance decreased (sent the tokens) to identify the sender
    * @param meta - Transaction metadata with token balance changes
    * @param accountKeys - All account keys in the transaction
    * @param recipientIndex - Index of the recipient token account
+   * @param mintAddress - Mint of the token received
    * @returns Source account address (sender), or null if can't be determined
    */
   private identifyTokenSourceAccount(
     meta: AnyTransactionResponse["meta"],
     accountKeys: PublicKey[],
-    recipientIndex: number
+    recipientIndex: number,
+    mintAddress: string
   ): string | null {
     if (!meta?.preTokenBalances || !meta.postTokenBalances) {
       return null; // Can't identify sender without balance info
     }
 
-    const mintAddress = this.tokenMint.toBase58(); // USDC mint address
-
     // Look for token accounts that decreased (sent tokens)
-    // The account that sent USDC will have a lower post-balance than pre-balance
+    // The account that sent the tokens will have a lower post-balance than pre-balance
     for (const preBalance of meta.preTokenBalances) {
-      // Skip if not USDC or if it's the recipient (we're looking for the sender)
+      // Skip if not this token or if it's the recipient (we're looking for the sender)
       if (
         preBalance.mint !== mintAddress ||
         preBalance.accountIndex === recipientIndex
@@ -862,11 +1220,26 @@ class DepositListener {
 let listenerInstance: DepositListener | null = null;
 
 /**
- * Start the USDC deposit listener
- * Creates and starts a singleton instance that monitors all wallets for USDC deposits
+ * Whether deposit webhooks are enabled (DEPOSIT_WEBHOOKS_ENABLED=true)
+ */
+export const isDepositWebhookEnabled = (): boolean =>
+  process.env.DEPOSIT_WEBHOOKS_ENABLED === "true";
+
+/**
+ * The running deposit listener, or null if it isn't running
+ */
+export const getDepositListener = (): DepositListener | null =>
+  listenerInstance;
+
+/**
+ * Start the deposit listener
+ * Creates and starts a singleton instance that monitors all wallets for deposits of the allowed tokens
+ * @param priceSource - Rates for tokens other than USDC (defaults to their reference rates)
  * @returns The listener instance, or null if it couldn't be started
  */
-export const startDepositListener = (): DepositListener | null => {
+export const startDepositListener = (
+  priceSource: DepositPriceSource = new StaticDepositPriceSource()
+): DepositListener | null => {
   // Don't start listener in test environment
   if (process.env.NODE_ENV === "test") {
     console.log("[Deposits] Listener disabled in test environment");
@@ -889,8 +1262,11 @@ export const startDepositListener = (): DepositListener | null => {
   }
 
   // Get configuration from environment variables or use defaults
-  const pollIntervalMs =
-    Number(process.env.DEPOSIT_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+  // With webhooks pushing deposits, polling only needs to catch missed ones
+  const pollIntervalMs = isDepositWebhookEnabled()
+    ? Number(process.env.DEPOSIT_BACKSTOP_POLL_INTERVAL_MS) ||
+      DEFAULT_BACKSTOP_POLL_INTERVAL_MS
+    : Number(process.env.DEPOSIT_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
   const signatureLimit =
     Number(process.env.DEPOSIT_SIGNATURE_LIMIT) || DEFAULT_SIGNATURE_LIMIT;
 
@@ -921,6 +1297,15 @@ export const startDepositListener = (): DepositListener | null => {
   console.log(`[Deposits] Connecting to Solana ${network}: ${rpcUrl}`);
   console.log(`[Deposits] USDC mint address: ${tokenMintAddress} (${network})`);
 
+  // Other SPL tokens accepted as deposits, converted to USDC when credited
+  const { tokens, errors } = parseDepositTokens(
+    process.env.DEPOSIT_TOKENS,
+    tokenMint.toBase58()
+  );
+  for (const error of errors) {
+    console.error(`[Deposits] Ignoring deposit token config: ${error}`);
+  }
+
   // Create Solana connection with "confirmed" commitment level
   // This ensures we see transactions that are confirmed on-chain
   const connection = new Connection(rpcUrl, "confirmed");
@@ -930,7 +1315,8 @@ export const startDepositListener = (): DepositListener | null => {
     connection,
     pollIntervalMs,
     signatureLimit,
-    tokenMint
+    tokens,
+    priceSource
   );
   listenerInstance.start(); // Begin polling for deposits
 
@@ -0,0 +1,26 @@
+import { DepositToken } from "../utils/depositTokens";
+
+/**
+ * Quotes the USDC value of deposit tokens for the deposit listener.
+ * Implementations return USDC per whole token, or null when they have no
+ * rate (the deposit is then held instead of credited).
+ */
+export interface DepositPriceSource {
+  readonly name: string;
+  getRate(token: DepositToken): Promise<number | null>;
+}
+
+/**
+ * Fixed rates by token symbol, falling back to each token's reference
+ * rate. The default source: suitable for stablecoins, where the reference
+ * rate is the peg.
+ */
+export class StaticDepositPriceSource implements DepositPriceSource {
+  readonly name = "static";
+
+  constructor(private readonly rates: Record<string, number> = {}) {}
+
+  async getRate(token: DepositToken): Promise<number | null> {
+    return this.rates[token.symbol] ?? token.reference_rate;
+  }
+}
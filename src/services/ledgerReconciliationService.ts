@@ -0,0 +1,284 @@
+import { UUID } from "crypto";
+import { pool } from "../db";
+import {
+  LedgerModel,
+  LedgerReconciliation,
+  LedgerReconciliationModel,
+} from "../models/Ledger";
+import { MoodringAdminModel, MoodringModel } from "../models/Moodring";
+import { NotificationModel } from "../models/Notification";
+import {
+  LEDGER_ACCOUNT_TYPES,
+  LedgerAccountType,
+  ReconciliationMismatch,
+  accountBalance,
+  diffBalances,
+} from "../utils/ledger";
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 60_000; // Reconcile every hour
+const MAX_STORED_MISMATCHES = 500;
+const MAX_UNBALANCED_TRANSACTIONS = 100;
+
+/**
+ * Checks the double-entry ledger against the balances it explains:
+ * - every user account against wallets.balance_usdc
+ * - every market's pool, LP fee and creator fee accounts against markets
+ * - the protocol fee account against moodring.current_protocol_fees_balance
+ * - creator fees posted since the ledger was introduced against the growth
+ *   of moodring.creator_fees_collected
+ * - every transaction's debits against its credits
+ */
+export class LedgerReconciliationService {
+  static async reconcile(
+    triggeredBy: string | null = null
+  ): Promise<LedgerReconciliation> {
+    const startedAt = Math.floor(Date.now() / 1000);
+    const mismatches: ReconciliationMismatch[] = [];
+    let accountsChecked = 0;
+
+    const check = (
+      name: string,
+      type: LedgerAccountType,
+      stored: Map<string | null, number>,
+      ledger: Map<string | null, number>
+    ) => {
+      accountsChecked += new Set([...stored.keys(), ...ledger.keys()]).size;
+      mismatches.push(...diffBalances(name, type, stored, ledger));
+    };
+
+    // Wallet balances
+    const walletsResult = await pool.query(
+      `SELECT user_id, balance_usdc FROM wallets`
+    );
+    check(
+      "wallet_balance",
+      "user",
+      new Map(
+        walletsResult.rows.map((row) => [
+          row.user_id,
+          Number(row.balance_usdc || 0),
+        ])
+      ),
+      await LedgerModel.getBalancesByType("user")
+    );
+
+    // Market pools and fees
+    const marketsResult = await pool.query(
+      `SELECT id, shared_pool_liquidity, accumulated_lp_fees, creator_fees_collected
+       FROM markets`
+    );
+    const marketBalances = (column: string) =>
+      new Map<string | null, number>(
+        marketsResult.rows.map((row) => [row.id, Number(row[column] || 0)])
+      );
+    check(
+      "market_pool",
+      "market_pool",
+      marketBalances("shared_pool_liquidity"),
+      await LedgerModel.getBalancesByType("market_pool")
+    );
+    check(
+      "market_lp_fees",
+      "lp_fee_pool",
+      marketBalances("accumulated_lp_fees"),
+      await LedgerModel.getBalancesByType("lp_fee_pool")
+    );
+    check(
+      "market_creator_fees",
+      "creator_fees",
+      marketBalances("creator_fees_collected"),
+      await LedgerModel.getBalancesByType("creator_fees")
+    );
+
+    // Platform fee totals
+    const moodring = await MoodringModel.get();
+    if (moodring) {
+      check(
+        "protocol_fees_balance",
+        "protocol_fees",
+        new Map([[null, Number(moodring.current_protocol_fees_balance || 0)]]),
+        await LedgerModel.getBalancesByType("protocol_fees")
+      );
+
+      // creator_fees_collected is a running total that creator withdrawals
+      // don't reduce, so compare it with the opening total plus the creator
+      // fees posted by trades and voids since
+      const opening = await LedgerModel.findOpeningBalance();
+      const postedCreatorFees =
+        await LedgerModel.getNetPostedByTransactionTypes("creator_fees", [
+          "trade_buy",
+          "trade_sell",
+          "market_void",
+        ]);
+      check(
+        "creator_fees_collected",
+        "creator_fees",
+        new Map([[null, Number(moodring.creator_fees_collected || 0)]]),
+        new Map([
+          [
+            null,
+            Number(opening?.metadata?.creator_fees_collected || 0) +
+              postedCreatorFees,
+          ],
+        ])
+      );
+    }
+
+    // Every transaction must balance
+    const unbalanced = await LedgerModel.findUnbalancedTransactions(
+      MAX_UNBALANCED_TRANSACTIONS
+    );
+    for (const transaction of unbalanced) {
+      mismatches.push({
+        check: "unbalanced_transaction",
+        account_type: null,
+        account_id: transaction.transaction_id,
+        expected: transaction.debits,
+        actual: transaction.credits,
+        difference: transaction.credits - transaction.debits,
+      });
+    }
+
+    // Balance of every account type, for the record
+    const totalsByType = await LedgerModel.getTotalsByType();
+    const totals: Record<string, number> = {};
+    for (const type of LEDGER_ACCOUNT_TYPES) {
+      const { debits = 0, credits = 0 } = totalsByType[type] || {};
+      totals[type] = accountBalance(type, debits, credits);
+    }
+
+    const previous = await LedgerReconciliationModel.findLatest();
+    const reconciliation = await LedgerReconciliationModel.create({
+      status: mismatches.length === 0 ? "balanced" : "mismatched",
+      accounts_checked: accountsChecked,
+      mismatch_count: mismatches.length,
+      mismatches: mismatches.slice(0, MAX_STORED_MISMATCHES),
+      totals,
+      triggered_by: (triggeredBy as UUID) || null,
+      started_at: startedAt,
+      completed_at: Math.floor(Date.now() / 1000),
+    });
+
+    // Tell admins when the ledger stops reconciling, not on every run
+    if (
+      reconciliation.status === "mismatched" &&
+      previous?.status !== "mismatched"
+    ) {
+      await this.notifyAdmins(reconciliation);
+    }
+
+    return reconciliation;
+  }
+
+  private static async notifyAdmins(reconciliation: LedgerReconciliation) {
+    try {
+      const adminIds = await MoodringAdminModel.getAdminUserIds();
+      await NotificationModel.createMany(
+        adminIds.map((userId) => ({
+          user_id: userId as UUID,
+          notification_type: "ledger_mismatch" as const,
+          title: "Ledger out of balance",
+          message: `Ledger reconciliation found ${reconciliation.mismatch_count} mismatched balance(s).`,
+          entity_type: "ledger_reconciliation",
+          entity_id: reconciliation.id,
+          metadata: {
+            mismatch_count: reconciliation.mismatch_count,
+            checks: [...new Set(reconciliation.mismatches.map((m) => m.check))],
+          },
+        }))
+      );
+    } catch (error) {
+      console.error(
+        "[LedgerReconciliation] Failed to notify admins of mismatch:",
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Runs the ledger reconciliation on a schedule
+ */
+class LedgerReconciliationProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[LedgerReconciliation] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const reconciliation = await LedgerReconciliationService.reconcile();
+      if (reconciliation.status === "mismatched") {
+        console.warn(
+          `[LedgerReconciliation] ${reconciliation.mismatch_count} mismatch(es) across ${reconciliation.accounts_checked} accounts (run ${reconciliation.id})`
+        );
+      }
+    } catch (error) {
+      console.error("[LedgerReconciliation] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+}
+
+let processorInstance: LedgerReconciliationProcessor | null = null;
+
+export const startLedgerReconciliationProcessor =
+  (): LedgerReconciliationProcessor | null => {
+    if (process.env.NODE_ENV === "test") {
+      console.log("[LedgerReconciliation] Disabled in test environment");
+      return null;
+    }
+
+    if (processorInstance) {
+      return processorInstance;
+    }
+
+    const pollIntervalMs =
+      Number(process.env.LEDGER_RECONCILIATION_INTERVAL_MS) ||
+      DEFAULT_POLL_INTERVAL_MS;
+
+    processorInstance = new LedgerReconciliationProcessor(pollIntervalMs);
+    processorInstance.start();
+
+    return processorInstance;
+  };
@@ -0,0 +1,65 @@
+import { PoolClient } from "pg";
+import {
+  LedgerModel,
+  LedgerTransaction,
+  LedgerTransactionCreateInput,
+  LedgerTransactionType,
+} from "../models/Ledger";
+import {
+  LedgerAccount,
+  LedgerEntryInput,
+  credit,
+  debit,
+  normalizeEntries,
+} from "../utils/ledger";
+
+export interface LedgerPosting extends LedgerTransactionCreateInput {
+  entries: LedgerEntryInput[];
+}
+
+export type LedgerReference = Omit<
+  LedgerTransactionCreateInput,
+  "transaction_type"
+>;
+
+/**
+ * Posts balance movements to the double-entry ledger (see utils/ledger.ts).
+ * Always post in the same transaction as the balance change, so the ledger
+ * and the balances it explains commit or roll back together.
+ */
+export class LedgerService {
+  /**
+   * Post a balanced transaction. Throws LedgerImbalanceError (rolling back
+   * the caller's transaction) if debits don't equal credits. Returns null
+   * when every entry is zero.
+   */
+  static async post(
+    client: PoolClient,
+    posting: LedgerPosting
+  ): Promise<LedgerTransaction | null> {
+    const { entries, ...transaction } = posting;
+    const normalized = normalizeEntries(entries);
+    if (normalized.length === 0) {
+      return null;
+    }
+    return LedgerModel.createTransaction(transaction, normalized, client);
+  }
+
+  /**
+   * Move an amount from one account to another
+   */
+  static async transfer(
+    client: PoolClient,
+    transactionType: LedgerTransactionType,
+    from: LedgerAccount,
+    to: LedgerAccount,
+    amount: number,
+    reference: LedgerReference = {}
+  ): Promise<LedgerTransaction | null> {
+    return this.post(client, {
+      transaction_type: transactionType,
+      ...reference,
+      entries: [debit(from, amount), credit(to, amount)],
+    });
+  }
+}
@@ -0,0 +1,463 @@
+import { UUID } from "crypto";
+import { Pool, PoolClient } from "pg";
+import { pool } from "../db";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import { PRECISION } from "../utils/lmsr";
+import { calculateFees, getMoodringData } from "../utils/tradeUtils";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { TradeService, TradeResult } from "./tradeService";
+import { withTradeQueue } from "./tradeQueue";
+import { publishExecutedTrade } from "./tradeEvents";
+import { CopyTradingService } from "./copyTradingService";
+import { LimitOrder, LimitOrderModel } from "../models/LimitOrder";
+import { Trade, TradeModel } from "../models/Trade";
+import { NotificationModel } from "../models/Notification";
+import { LedgerService } from "./ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
+
+interface LimitOrderFill {
+  order: LimitOrder;
+  trade: Trade;
+  result: TradeResult;
+}
+
+/**
+ * Resting limit orders on top of the LMSR market maker.
+ *
+ * A limit order is a standing instruction to buy YES or NO shares on an option
+ * once the marginal price is at or below the limit. The worst-case cost
+ * (quantity * limit + fees) is escrowed from the wallet when the order is placed.
+ * On fill the escrow is released back into the wallet and the buy is executed
+ * through TradeService.executeBuy with the escrow as maxCost, so an order never
+ * pays more than its limit on average. Any unused escrow stays in the wallet.
+ *
+ * Lock order: Market -> Option -> Limit order -> Wallet -> Position
+ */
+export class LimitOrderService {
+  private static readonly MAX_OPEN_ORDERS_PER_USER = 50;
+  // Upper bound on fills per matching pass so one call can't monopolise the queue
+  private static readonly MAX_FILLS_PER_PASS = 50;
+
+  /**
+   * Calculate the escrow required for a limit order (raw cost at limit + fees)
+   */
+  static calculateEscrow(
+    quantity: number,
+    limitPrice: number,
+    moodring: any
+  ): number {
+    const rawBudget = Math.ceil((quantity * limitPrice) / 1_000_000);
+    const { totalFee } = calculateFees(
+      rawBudget,
+      Number(moodring.protocol_fee_rate),
+      Number(moodring.creator_fee_rate),
+      Number(moodring.lp_fee_rate)
+    );
+    return rawBudget + totalFee;
+  }
+
+  /**
+   * Current marginal price for a side of an option (micro-USDC per share).
+   * Options of an exclusive market are priced against their siblings.
+   */
+  static async getSidePrice(
+    client: Pool | PoolClient,
+    marketId: UUID | string,
+    optionId: UUID | string,
+    side: "yes" | "no"
+  ): Promise<number> {
+    const prices = await CommonTradeOperations.getMarketOptionPrices(
+      client,
+      marketId
+    );
+    const price = prices.find((p) => p.option_id === optionId);
+    if (!price) {
+      throw new TransactionError(404, "Option not found");
+    }
+    return side === "yes"
+      ? price.yes_price
+      : PRECISION.toNumber() - price.yes_price;
+  }
+
+  /**
+   * Place a limit order and escrow its worst-case cost from the wallet
+   */
+  static async placeOrder(
+    client: PoolClient,
+    userId: UUID,
+    marketId: UUID,
+    optionId: UUID,
+    side: "yes" | "no",
+    quantity: number,
+    limitPrice: number
+  ): Promise<LimitOrder> {
+    await CommonTradeOperations.performPreTradeChecks(client);
+
+    const marketData = await CommonTradeOperations.getMarketWithLock(
+      client,
+      marketId
+    );
+    const optionData = await CommonTradeOperations.getOptionWithLock(
+      client,
+      optionId
+    );
+    if (optionData.market_id !== marketId) {
+      throw new TransactionError(400, "Option does not belong to this market");
+    }
+    // Fills go through executeBuy, which only buys YES on exclusive markets
+    TradeService.checkSideTradable(marketData, side);
+
+    const openCountResult = await client.query(
+      `SELECT COUNT(*)::int as count FROM limit_orders WHERE user_id = $1 AND status = 'open'`,
+      [userId]
+    );
+    if (
+      (openCountResult.rows[0]?.count || 0) >= this.MAX_OPEN_ORDERS_PER_USER
+    ) {
+      throw new TransactionError(
+        400,
+        `You can have at most ${this.MAX_OPEN_ORDERS_PER_USER} open limit orders`
+      );
+    }
+
+    const moodring = await getMoodringData(client);
+    const escrowAmount = this.calculateEscrow(quantity, limitPrice, moodring);
+
+    const wallet = await CommonTradeOperations.getWalletWithLock(
+      client,
+      userId
+    );
+    CommonTradeOperations.checkWalletBalance(wallet, escrowAmount);
+
+    await CommonTradeOperations.updateWalletBalance(
+      client,
+      wallet.id,
+      Number(wallet.balance_usdc) - escrowAmount
+    );
+
+    const order = await LimitOrderModel.create(
+      {
+        user_id: userId,
+        market_id: marketId,
+        option_id: optionId,
+        side,
+        quantity,
+        limit_price: limitPrice,
+        escrow_amount: escrowAmount,
+      },
+      client
+    );
+    await LedgerService.transfer(
+      client,
+      "limit_order_escrow",
+      LedgerAccounts.user(userId),
+      LedgerAccounts.escrow(userId),
+      escrowAmount,
+      { reference_type: "limit_order", reference_id: order.id }
+    );
+
+    return order;
+  }
+
+  /**
+   * Cancel an open limit order and return its escrow to the wallet
+   */
+  static async cancelOrder(
+    client: PoolClient,
+    userId: UUID,
+    orderId: UUID
+  ): Promise<LimitOrder> {
+    const order = await LimitOrderModel.findOpenByIdForUpdate(orderId, client);
+    if (!order) {
+      const existing = await LimitOrderModel.findById(orderId, client);
+      if (!existing || existing.user_id !== userId) {
+        throw new TransactionError(404, "Limit order not found");
+      }
+      throw new TransactionError(
+        400,
+        `Limit order is already ${existing.status}`
+      );
+    }
+
+    if (order.user_id !== userId) {
+      throw new TransactionError(404, "Limit order not found");
+    }
+
+    const wallet = await CommonTradeOperations.getWalletWithLock(
+      client,
+      userId
+    );
+    await CommonTradeOperations.updateWalletBalance(
+      client,
+      wallet.id,
+      Number(wallet.balance_usdc) + Number(order.escrow_amount)
+    );
+    await LedgerService.transfer(
+      client,
+      "limit_order_release",
+      LedgerAccounts.escrow(userId),
+      LedgerAccounts.user(userId),
+      Number(order.escrow_amount),
+      { reference_type: "limit_order", reference_id: order.id }
+    );
+
+    const cancelled = await LimitOrderModel.markClosed(
+      order.id,
+      "cancelled",
+      "Cancelled by user",
+      client
+    );
+    return cancelled!;
+  }
+
+  /**
+   * Match open limit orders on every option of a market against the current curve.
+   * Safe to call after any trade; errors are logged, never thrown.
+   */
+  static async matchMarket(marketId: UUID | string): Promise<number> {
+    const optionsResult = await pool.query(
+      `SELECT DISTINCT option_id FROM limit_orders WHERE market_id = $1 AND status = 'open'`,
+      [marketId]
+    );
+
+    let filled = 0;
+    for (const row of optionsResult.rows) {
+      try {
+        filled += await withTradeQueue(
+          marketId as UUID,
+          row.option_id as UUID,
+          () => this.matchOption(marketId as UUID, row.option_id as UUID)
+        );
+      } catch (error: any) {
+        console.error(
+          `[LimitOrders] Error matching option ${row.option_id}:`,
+          error.message
+        );
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * Fill orders on one option until no open order crosses the current price.
+   * Must run inside the trade queue for the market/option.
+   */
+  private static async matchOption(
+    marketId: UUID,
+    optionId: UUID
+  ): Promise<number> {
+    let filled = 0;
+    // Orders that crossed but could not be filled this pass (e.g. average
+    // cost above the limit); skipped so the loop terminates
+    const skipped = new Set<string>();
+
+    while (filled < this.MAX_FILLS_PER_PASS) {
+      const stateResult = await pool.query(
+        `SELECT o.is_resolved AS option_resolved,
+                m.is_resolved AS market_resolved
+         FROM market_options o
+         JOIN markets m ON m.id = o.market_id
+         WHERE o.id = $1`,
+        [optionId]
+      );
+      const state = stateResult.rows[0];
+      if (!state || state.option_resolved || state.market_resolved) {
+        break;
+      }
+
+      const candidates: LimitOrder[] = [];
+      for (const side of ["yes", "no"] as const) {
+        const price = await this.getSidePrice(pool, marketId, optionId, side);
+        const orders = await LimitOrderModel.findFillable(
+          optionId,
+          side,
+          price
+        );
+        candidates.push(...orders.filter((o) => !skipped.has(o.id)));
+      }
+
+      if (candidates.length === 0) {
+        break;
+      }
+
+      // Best limit first, oldest first among equal limits
+      candidates.sort(
+        (a, b) =>
+          Number(b.limit_price) - Number(a.limit_price) ||
+          Number(a.created_at) - Number(b.created_at)
+      );
+
+      let fill: LimitOrderFill | null = null;
+      for (const candidate of candidates) {
+        try {
+          fill = await this.fillOrder(marketId, optionId, candidate.id);
+        } catch (error: any) {
+          if (!(error instanceof TransactionError)) {
+            throw error;
+          }
+          console.log(
+            `[LimitOrders] Order ${candidate.id} not filled: ${error.message}`
+          );
+          fill = null;
+        }
+        if (fill) {
+          break;
+        }
+        skipped.add(candidate.id);
+      }
+
+      if (!fill) {
+        break;
+      }
+
+      filled++;
+      await this.recordFill(fill);
+    }
+
+    return filled;
+  }
+
+  /**
+   * Fill a single order in its own transaction. Returns null if the order
+   * is no longer open or no longer crosses the price.
+   */
+  private static async fillOrder(
+    marketId: UUID,
+    optionId: UUID,
+    orderId: UUID
+  ): Promise<LimitOrderFill | null> {
+    return withTransaction(async (client) => {
+      const marketData = await CommonTradeOperations.getMarketWithLock(
+        client,
+        marketId
+      );
+      const optionData = await CommonTradeOperations.getOptionWithLock(
+        client,
+        optionId
+      );
+      const order = await LimitOrderModel.findOpenByIdForUpdate(
+        orderId,
+        client
+      );
+      if (!order) {
+        return null;
+      }
+
+      const price = await this.getSidePrice(
+        client,
+        marketId,
+        optionId,
+        order.side
+      );
+      if (price > Number(order.limit_price)) {
+        return null;
+      }
+
+      // Release escrow back to the wallet; executeBuy debits the actual cost
+      const escrowAmount = Number(order.escrow_amount);
+      const wallet = await CommonTradeOperations.getWalletWithLock(
+        client,
+        order.user_id
+      );
+      await CommonTradeOperations.updateWalletBalance(
+        client,
+        wallet.id,
+        Number(wallet.balance_usdc) + escrowAmount
+      );
+      await LedgerService.transfer(
+        client,
+        "limit_order_release",
+        LedgerAccounts.escrow(order.user_id),
+        LedgerAccounts.user(order.user_id),
+        escrowAmount,
+        { reference_type: "limit_order", reference_id: order.id }
+      );
+
+      const quantity = Number(order.quantity);
+      const result = await TradeService.executeBuy(
+        client,
+        order.user_id,
+        marketId,
+        optionId,
+        order.side === "yes" ? quantity : 0,
+        order.side === "no" ? quantity : 0,
+        escrowAmount
+      );
+
+      const trade = await TradeModel.create(
+        {
+          user_id: order.user_id,
+          market_id: marketId,
+          option_id: optionId,
+          trade_type: "buy",
+          side: result.side,
+          quantity: result.quantity,
+          price_per_share: result.pricePerShare,
+          total_cost: result.totalCost,
+          fees_paid: result.totalFee,
+          status: "completed",
+        },
+        client
+      );
+
+      const filledOrder = await LimitOrderModel.markFilled(
+        order.id,
+        trade.id,
+        result.pricePerShare,
+        result.totalCost,
+        client
+      );
+
+      return { order: filledOrder!, trade, result };
+    });
+  }
+
+  /**
+   * Post-commit bookkeeping for a fill (mirrors the buy endpoint)
+   */
+  private static async recordFill(fill: LimitOrderFill): Promise<void> {
+    const { order, trade, result } = fill;
+
+    await publishExecutedTrade({
+      userId: order.user_id,
+      marketId: order.market_id,
+      optionId: order.option_id,
+      trade,
+      result,
+      metadata: { limit_order_id: order.id },
+      limitOrderId: order.id,
+    });
+
+    try {
+      await NotificationModel.create({
+        user_id: order.user_id,
+        notification_type: "trade_executed",
+        title: "Limit Order Filled",
+        message: `Your limit order for ${
+          result.quantity / 1_000_000
+        } ${result.side.toUpperCase()} shares filled at ${
+          result.pricePerShare / 1_000_000
+        } USDC per share.`,
+        entity_type: "trade",
+        entity_id: trade.id,
+        metadata: {
+          market_id: order.market_id,
+          option_id: order.option_id,
+          limit_order_id: order.id,
+          limit_price: Number(order.limit_price),
+          fill_price: result.pricePerShare,
+          total_cost: result.totalCost,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[LimitOrders] Error notifying fill for order ${order.id}:`,
+        error
+      );
+    }
+
+    CopyTradingService.enqueueCopies(trade).catch((error) => {
+      console.error("Copy trade enqueue error:", error);
+    });
+  }
+}
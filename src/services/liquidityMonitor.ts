@@ -1,5 +1,11 @@
 import { pool } from "../db";
 import { PoolClient } from "pg";
+import { UUID } from "crypto";
+import { NotificationModel } from "../models/Notification";
+import { MoodringModel } from "../models/Moodring";
+import { TradingHaltService } from "./tradingHaltService";
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60_000; // Check every 5 minutes
 
 export interface LiquidityAlert {
   id: string;
@@ -12,6 +18,14 @@ export interface LiquidityAlert {
   is_resolved: boolean;
 }
 
+export interface LiquidityAlertFilters {
+  marketId?: string;
+  severity?: LiquidityAlert["severity"];
+  includeResolved?: boolean;
+  limit: number;
+  offset: number;
+}
+
 /**
  * LiquidityMonitorService monitors shared pool liquidity and alerts on risks
  */
@@ -36,6 +50,8 @@ class LiquidityMonitorService {
       `
       SELECT 
         m.id,
+        m.question,
+        m.creator_id,
         m.shared_pool_liquidity,
         m.liquidity_parameter,
         COALESCE(SUM(
@@ -56,7 +72,7 @@ class LiquidityMonitorService {
       LEFT JOIN market_options o ON o.market_id = m.id
       LEFT JOIN user_positions up ON up.option_id = o.id
       WHERE m.id = $1
-      GROUP BY m.id, m.shared_pool_liquidity, m.liquidity_parameter
+      GROUP BY m.id, m.question, m.creator_id, m.shared_pool_liquidity, m.liquidity_parameter
     `,
       [marketId]
     );
@@ -108,21 +124,29 @@ class LiquidityMonitorService {
       });
     }
 
-    // Save alerts to database
+    // Save alerts to database, notifying only when an alert is first raised
     for (const alert of alerts) {
-      await this.createAlert(alert, db);
+      const { id, created } = await this.createAlert(alert, db);
+      alert.id = id;
+      if (created) {
+        await this.notifyAlert(alert, market, db);
+        if (alert.severity === "critical") {
+          await this.haltMarket(alert, db);
+        }
+      }
     }
 
     return alerts;
   }
 
   /**
-   * Create a liquidity alert in the database
+   * Create a liquidity alert in the database, or refresh the unresolved one
+   * of the same type
    */
   private async createAlert(
     alert: Omit<LiquidityAlert, "id">,
     client: PoolClient | typeof pool
-  ): Promise<void> {
+  ): Promise<{ id: string; created: boolean }> {
     // Check if unresolved alert already exists
     const existing = await client.query(
       `
@@ -156,28 +180,103 @@ class LiquidityMonitorService {
           existing.rows[0].id,
         ]
       );
-    } else {
-      // Create new alert
-      await client.query(
-        `
+      return { id: existing.rows[0].id, created: false };
+    }
+
+    // Create new alert
+    const inserted = await client.query(
+      `
         INSERT INTO liquidity_alerts (
           market_id, alert_type, current_liquidity, required_liquidity,
-          reserve_ratio, severity
+          reserve_ratio, severity, created_at, updated_at
         )
-        VALUES ($1, $2, $3, $4, $5, $6)
+        VALUES (
+          $1, $2, $3, $4, $5, $6,
+          EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
+        )
+        RETURNING id
       `,
-        [
-          alert.market_id,
-          alert.alert_type,
-          alert.current_liquidity,
-          alert.required_liquidity,
-          alert.reserve_ratio,
-          alert.severity,
-        ]
-      );
+      [
+        alert.market_id,
+        alert.alert_type,
+        alert.current_liquidity,
+        alert.required_liquidity,
+        alert.reserve_ratio,
+        alert.severity,
+      ]
+    );
+    return { id: inserted.rows[0].id, created: true };
+  }
+
+  /**
+   * Halt trading on a market at risk of insolvency, when enabled in the
+   * risk controls. The halt stays until an admin resumes trading.
+   */
+  private async haltMarket(
+    alert: LiquidityAlert,
+    client: PoolClient | typeof pool
+  ): Promise<void> {
+    const config = await MoodringModel.get();
+    if (!config?.liquidity_halt_enabled) {
+      return;
+    }
+
+    const halt = await TradingHaltService.trip(client, {
+      market_id: alert.market_id,
+      source: "liquidity",
+      reason: `Pool liquidity covers only ${alert.reserve_ratio.toFixed(
+        1
+      )}% of potential payouts`,
+      metadata: { alert_id: alert.id, reserve_ratio: alert.reserve_ratio },
+    });
+    if (halt) {
+      TradingHaltService.broadcast(halt, "halted");
     }
   }
 
+  /**
+   * Notify the market creator and the market's LPs of a new alert
+   */
+  private async notifyAlert(
+    alert: LiquidityAlert,
+    market: { question: string; creator_id: string },
+    client: PoolClient | typeof pool
+  ): Promise<void> {
+    const lpResult = await client.query(
+      `SELECT DISTINCT user_id FROM lp_positions WHERE market_id = $1 AND shares > 0`,
+      [alert.market_id]
+    );
+    const recipients = new Set<string>([
+      market.creator_id,
+      ...lpResult.rows.map((row) => row.user_id),
+    ]);
+
+    const title =
+      alert.severity === "critical"
+        ? "Market at risk of insolvency"
+        : "Market liquidity is low";
+
+    await NotificationModel.createMany(
+      [...recipients].map((userId) => ({
+        user_id: userId as UUID,
+        notification_type: "liquidity_alert" as const,
+        title,
+        message: `"${market.question}" holds ${alert.reserve_ratio.toFixed(
+          1
+        )}% of the liquidity it may need to pay out`,
+        entity_type: "market",
+        entity_id: alert.market_id,
+        metadata: {
+          alert_id: alert.id,
+          alert_type: alert.alert_type,
+          severity: alert.severity,
+          reserve_ratio: alert.reserve_ratio,
+        },
+      })),
+      client
+    );
+  }
+
   /**
    * Check all markets for liquidity issues
    */
@@ -188,13 +287,91 @@ class LiquidityMonitorService {
 
     let totalAlerts = 0;
     for (const market of result.rows) {
-      const alerts = await this.checkMarketLiquidity(market.id);
-      totalAlerts += alerts.length;
+      try {
+        const alerts = await this.checkMarketLiquidity(market.id);
+        totalAlerts += alerts.length;
+      } catch (error) {
+        console.error(
+          `[LiquidityMonitor] Failed to check market ${market.id}:`,
+          error
+        );
+      }
     }
 
     return totalAlerts;
   }
 
+  /**
+   * List alerts across markets, most severe and newest first
+   */
+  async getAlerts(
+    filters: LiquidityAlertFilters
+  ): Promise<{ alerts: LiquidityAlert[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (!filters.includeResolved) {
+      conditions.push("a.is_resolved = FALSE");
+    }
+    if (filters.marketId) {
+      params.push(filters.marketId);
+      conditions.push(`a.market_id = $${params.length}`);
+    }
+    if (filters.severity) {
+      params.push(filters.severity);
+      conditions.push(`a.severity = $${params.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const [alertsResult, countResult] = await Promise.all([
+      pool.query(
+        `
+        SELECT a.*, m.question
+        FROM liquidity_alerts a
+        JOIN markets m ON m.id = a.market_id
+        ${where}
+        ORDER BY a.is_resolved ASC, a.severity ASC, a.created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+        [...params, filters.limit, filters.offset]
+      ),
+      pool.query(
+        `SELECT COUNT(*)::int AS count FROM liquidity_alerts a ${where}`,
+        params
+      ),
+    ]);
+
+    return {
+      alerts: alertsResult.rows.map((row) => ({
+        ...row,
+        current_liquidity: Number(row.current_liquidity),
+        required_liquidity: Number(row.required_liquidity),
+        reserve_ratio: Number(row.reserve_ratio),
+        resolved_at: Number(row.resolved_at),
+        created_at: Number(row.created_at),
+        updated_at: Number(row.updated_at),
+      })),
+      total: countResult.rows[0].count,
+    };
+  }
+
+  /**
+   * Get an alert by ID
+   */
+  async getAlert(
+    alertId: string,
+    client?: PoolClient
+  ): Promise<LiquidityAlert | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM liquidity_alerts WHERE id = $1`,
+      [alertId]
+    );
+    return result.rows[0] || null;
+  }
+
   /**
    * Get unresolved alerts for a market
    */
@@ -214,8 +391,13 @@ class LiquidityMonitorService {
   /**
    * Resolve an alert
    */
-  async resolveAlert(alertId: string, resolvedBy: string): Promise<boolean> {
-    const result = await pool.query(
+  async resolveAlert(
+    alertId: string,
+    resolvedBy: string,
+    client?: PoolClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
       `
       UPDATE liquidity_alerts
       SET 
@@ -240,5 +422,87 @@ export const getLiquidityMonitor = (): LiquidityMonitorService => {
   return liquidityMonitorService;
 };
 
+class LiquidityMonitorProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[LiquidityMonitor] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const alerts = await liquidityMonitorService.checkAllMarkets();
+      if (alerts > 0) {
+        console.log(`[LiquidityMonitor] ${alerts} market(s) below reserve`);
+      }
+    } catch (error) {
+      console.error("[LiquidityMonitor] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+}
+
+let processorInstance: LiquidityMonitorProcessor | null = null;
+
+export const startLiquidityMonitorProcessor =
+  (): LiquidityMonitorProcessor | null => {
+    if (process.env.NODE_ENV === "test") {
+      console.log("[LiquidityMonitor] Disabled in test environment");
+      return null;
+    }
+
+    if (processorInstance) {
+      return processorInstance;
+    }
+
+    const pollIntervalMs =
+      Number(process.env.LIQUIDITY_MONITOR_INTERVAL_MS) ||
+      DEFAULT_POLL_INTERVAL_MS;
+
+    processorInstance = new LiquidityMonitorProcessor(pollIntervalMs);
+    processorInstance.start();
+
+    return processorInstance;
+  };
+
 export { LiquidityMonitorService };
 export default liquidityMonitorService;
@@ -0,0 +1,287 @@
+import { UUID } from "crypto";
+import { pool } from "../db";
+import { withTransaction } from "../utils/transaction";
+import { Market } from "../models/Market";
+import { MarketStatus } from "../models/Resolution";
+import { LimitOrderModel } from "../models/LimitOrder";
+import { PositionTriggerModel } from "../models/PositionTrigger";
+import { MoodringAdminModel } from "../models/Moodring";
+import { NotificationModel } from "../models/Notification";
+import { MarketLifecycleService } from "./marketLifecycleService";
+import { emitMarketUpdate } from "./websocket";
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000; // Check every minute
+const BATCH_SIZE = 50;
+
+/**
+ * Service that drives markets through their lifecycle on a schedule
+ * - Closes trading on expired OPEN markets: moves them to RESOLVING, expires
+ *   their limit orders and position triggers and sets a resolution deadline
+ * - Notifies the market's resolvers that a resolution is due
+ * - Escalates markets still unresolved after their deadline to admins
+ */
+class MarketLifecycleProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[MarketLifecycleProcessor] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.processLifecycle();
+    } catch (error) {
+      console.error("[MarketLifecycleProcessor] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+
+  private async processLifecycle() {
+    // Close trading on markets that reached their expiration
+    await this.closeExpiredMarkets();
+
+    // Escalate markets nobody resolved before their deadline
+    await this.escalateOverdueMarkets();
+  }
+
+  /**
+   * Close trading on expired markets, one market per transaction
+   */
+  private async closeExpiredMarkets() {
+    const result = await pool.query(
+      `SELECT id FROM markets
+       WHERE is_initialized = TRUE
+         AND is_resolved = FALSE
+         AND trading_closed_at IS NULL
+         AND expiration_timestamp <= EXTRACT(EPOCH FROM NOW())::BIGINT
+       ORDER BY expiration_timestamp ASC
+       LIMIT $1`,
+      [BATCH_SIZE]
+    );
+
+    for (const { id } of result.rows) {
+      try {
+        await this.closeMarket(id);
+      } catch (error: any) {
+        console.error(
+          `[MarketLifecycleProcessor] Error closing market ${id}:`,
+          error.message
+        );
+      }
+    }
+  }
+
+  private async closeMarket(marketId: UUID) {
+    await withTransaction(async (client) => {
+      const marketResult = await client.query(
+        `SELECT * FROM markets
+         WHERE id = $1 AND trading_closed_at IS NULL AND is_resolved = FALSE
+         FOR UPDATE SKIP LOCKED`,
+        [marketId]
+      );
+      const market: Market | undefined = marketResult.rows[0];
+      if (!market) {
+        return;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (market.status === MarketStatus.OPEN) {
+        await MarketLifecycleService.transition(
+          client,
+          marketId,
+          MarketStatus.RESOLVING,
+          {
+            reason: "Trading closed at expiration",
+            metadata: { expiration_timestamp: market.expiration_timestamp },
+          }
+        );
+      }
+
+      const resolutionDeadline = MarketLifecycleService.getResolutionDeadline(
+        market,
+        now
+      );
+      await client.query(
+        `UPDATE markets
+         SET trading_closed_at = $1, resolution_deadline = $2,
+             updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+         WHERE id = $3`,
+        [now, resolutionDeadline, marketId]
+      );
+
+      await LimitOrderModel.expireByMarket(marketId, "Market closed", client);
+      await PositionTriggerModel.expireByMarket(
+        marketId,
+        "Market closed",
+        client
+      );
+
+      const resolverIds = await MarketLifecycleService.getResolverUserIds(
+        market,
+        client
+      );
+      await NotificationModel.createMany(
+        [...new Set(resolverIds)].map((userId) => ({
+          user_id: userId as UUID,
+          notification_type: "market_resolution_due" as const,
+          title: "Market ready to resolve",
+          message: `Trading has closed on "${market.question}". Please resolve it by the deadline.`,
+          entity_type: "market",
+          entity_id: marketId,
+          metadata: { resolution_deadline: resolutionDeadline },
+        })),
+        client
+      );
+
+      console.log(
+        `[MarketLifecycleProcessor] Closed market ${marketId} (resolution deadline ${resolutionDeadline})`
+      );
+    });
+  }
+
+  /**
+   * Escalate unresolved markets past their resolution deadline to admins
+   */
+  private async escalateOverdueMarkets() {
+    const result = await pool.query(
+      `SELECT id FROM markets
+       WHERE is_resolved = FALSE
+         AND escalated_at IS NULL
+         AND resolution_deadline <= EXTRACT(EPOCH FROM NOW())::BIGINT
+       ORDER BY resolution_deadline ASC
+       LIMIT $1`,
+      [BATCH_SIZE]
+    );
+
+    for (const { id } of result.rows) {
+      try {
+        await this.escalateMarket(id);
+      } catch (error: any) {
+        console.error(
+          `[MarketLifecycleProcessor] Error escalating market ${id}:`,
+          error.message
+        );
+      }
+    }
+  }
+
+  private async escalateMarket(marketId: UUID) {
+    const escalated = await withTransaction(async (client) => {
+      const marketResult = await client.query(
+        `SELECT * FROM markets
+         WHERE id = $1 AND escalated_at IS NULL AND is_resolved = FALSE
+         FOR UPDATE SKIP LOCKED`,
+        [marketId]
+      );
+      const market: Market | undefined = marketResult.rows[0];
+      if (!market) {
+        return null;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      await client.query(
+        `UPDATE markets
+         SET escalated_at = $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+         WHERE id = $2`,
+        [now, marketId]
+      );
+
+      const adminIds = await MoodringAdminModel.getAdminUserIds(client);
+      await NotificationModel.createMany(
+        adminIds.map((userId) => ({
+          user_id: userId as UUID,
+          notification_type: "market_escalated" as const,
+          title: "Market resolution overdue",
+          message: `"${market.question}" was not resolved by its deadline and needs an admin.`,
+          entity_type: "market",
+          entity_id: marketId,
+          metadata: {
+            status: market.status,
+            resolution_mode: market.resolution_mode,
+            resolution_deadline: market.resolution_deadline,
+          },
+        })),
+        client
+      );
+
+      return { market, escalatedAt: now };
+    });
+
+    if (escalated) {
+      emitMarketUpdate({
+        market_id: marketId,
+        event: "updated",
+        data: {
+          status: escalated.market.status,
+          escalated_at: escalated.escalatedAt,
+        },
+        timestamp: new Date(),
+      });
+      console.log(
+        `[MarketLifecycleProcessor] Escalated overdue market ${marketId}`
+      );
+    }
+  }
+}
+
+let processorInstance: MarketLifecycleProcessor | null = null;
+
+export const startMarketLifecycleProcessor =
+  (): MarketLifecycleProcessor | null => {
+    if (process.env.NODE_ENV === "test") {
+      console.log("[MarketLifecycleProcessor] Disabled in test environment");
+      return null;
+    }
+
+    if (processorInstance) {
+      return processorInstance;
+    }
+
+    const pollIntervalMs =
+      Number(process.env.MARKET_LIFECYCLE_POLL_INTERVAL_MS) ||
+      DEFAULT_POLL_INTERVAL_MS;
+
+    processorInstance = new MarketLifecycleProcessor(pollIntervalMs);
+    processorInstance.start();
+
+    return processorInstance;
+  };
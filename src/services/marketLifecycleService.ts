@@ -0,0 +1,182 @@
+import { PoolClient } from "pg";
+import { MarketStatus, ResolutionMode } from "../models/Resolution";
+import {
+  MarketStatusHistoryEntry,
+  MarketStatusHistoryModel,
+} from "../models/MarketStatusHistory";
+import { MoodringAdminModel } from "../models/Moodring";
+import { ResolverModel } from "../models/Resolver";
+import { ConsensusResolutionService } from "./consensusResolutionService";
+import { OpinionResolutionService } from "./opinionResolutionService";
+import { emitMarketUpdate } from "./websocket";
+import { canTransitionMarketStatus } from "../utils/marketLifecycle";
+import { TransactionError } from "../utils/transaction";
+
+const DEFAULT_RESOLUTION_DEADLINE_HOURS = 72;
+
+/**
+ * Applies market status transitions (see utils/marketLifecycle.ts for the
+ * state machine). Every status change goes through transition(), which
+ * validates it, records it in market_status_history and emits a market update.
+ */
+export class MarketLifecycleService {
+  /**
+   * Move a market to `to`. Locks the market row (a no-op if the caller
+   * already holds the lock). Returns null if the market already has that
+   * status; throws a 409 TransactionError if the transition isn't allowed.
+   */
+  static async transition(
+    client: PoolClient,
+    marketId: string,
+    to: MarketStatus,
+    context: {
+      reason: string;
+      actorId?: string | null;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<MarketStatusHistoryEntry | null> {
+    const result = await client.query(
+      `SELECT status FROM markets WHERE id = $1 FOR UPDATE`,
+      [marketId]
+    );
+    if (result.rows.length === 0) {
+      throw new TransactionError(404, "Market not found");
+    }
+
+    const from: MarketStatus = result.rows[0].status || MarketStatus.OPEN;
+    if (from === to) {
+      return null;
+    }
+    if (!canTransitionMarketStatus(from, to)) {
+      throw new TransactionError(
+        409,
+        `Market cannot move from ${from} to ${to}`
+      );
+    }
+
+    await client.query(
+      `UPDATE markets SET status = $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
+      [to, marketId]
+    );
+
+    const entry = await MarketStatusHistoryModel.create(
+      {
+        market_id: marketId,
+        from_status: from,
+        to_status: to,
+        reason: context.reason,
+        actor_id: context.actorId || null,
+        metadata: context.metadata || null,
+      },
+      client
+    );
+
+    emitMarketUpdate({
+      market_id: marketId,
+      event: to === MarketStatus.RESOLVED ? "resolved" : "status_changed",
+      data: {
+        status: to,
+        previous_status: from,
+        reason: context.reason,
+      },
+      timestamp: new Date(),
+    });
+
+    return entry;
+  }
+
+  /**
+   * Move a DISPUTED market back to RESOLVED (or RESOLVING, if options are
+   * still unresolved) once none of its disputes are open any more
+   */
+  static async settleDisputes(
+    client: PoolClient,
+    marketId: string,
+    actorId: string
+  ): Promise<MarketStatusHistoryEntry | null> {
+    const marketResult = await client.query(
+      `SELECT status, is_resolved FROM markets WHERE id = $1 FOR UPDATE`,
+      [marketId]
+    );
+    const market = marketResult.rows[0];
+    if (!market || market.status !== MarketStatus.DISPUTED) {
+      return null;
+    }
+
+    const openDisputes = await client.query(
+      `SELECT 1 FROM disputes
+       WHERE market_id = $1 AND status IN ('pending', 'reviewed')
+       LIMIT 1`,
+      [marketId]
+    );
+    if (openDisputes.rows.length > 0) {
+      return null;
+    }
+
+    return this.transition(
+      client,
+      marketId,
+      market.is_resolved ? MarketStatus.RESOLVED : MarketStatus.RESOLVING,
+      { reason: "Disputes settled", actorId }
+    );
+  }
+
+  /**
+   * Deadline (unix seconds) for resolving a market whose trading closed at
+   * `closedAt`. CONSENSUS and OPINION markets get the grace period after
+   * their reveal phase ends, since they can't resolve before it.
+   */
+  static getResolutionDeadline(
+    market: {
+      expiration_timestamp: number;
+      resolution_mode: ResolutionMode | null;
+      resolution_config: any;
+    },
+    closedAt: number
+  ): number {
+    const graceHours =
+      Number(market.resolution_config?.resolutionDeadlineHours) ||
+      DEFAULT_RESOLUTION_DEADLINE_HOURS;
+
+    let startsAt = closedAt;
+    if (market.resolution_mode === ResolutionMode.CONSENSUS) {
+      startsAt = Math.max(
+        startsAt,
+        ConsensusResolutionService.getSchedule(market).reveal_deadline
+      );
+    } else if (market.resolution_mode === ResolutionMode.OPINION) {
+      startsAt = Math.max(
+        startsAt,
+        OpinionResolutionService.getSchedule(market).reveal_deadline
+      );
+    }
+
+    return startsAt + graceHours * 60 * 60;
+  }
+
+  /**
+   * Users responsible for resolving a market:
+   * - ORACLE: platform admins
+   * - CONSENSUS: the market's jurors
+   * - AUTHORITY, OPINION and legacy markets: the creator
+   */
+  static async getResolverUserIds(
+    market: {
+      id: string;
+      creator_id: string;
+      resolution_mode: ResolutionMode | null;
+    },
+    client?: PoolClient
+  ): Promise<string[]> {
+    if (market.resolution_mode === ResolutionMode.ORACLE) {
+      return MoodringAdminModel.getAdminUserIds(client);
+    }
+    if (market.resolution_mode === ResolutionMode.CONSENSUS) {
+      const jurors = await ResolverModel.getJurors(market.id, client);
+      return jurors
+        .map((juror) => juror.user_id)
+        .filter((userId): userId is NonNullable<typeof userId> => !!userId);
+    }
+    return [market.creator_id];
+  }
+}
@@ -0,0 +1,804 @@
+import { BN } from "@coral-xyz/anchor";
+import { pool } from "../db";
+import {
+  calculate_buy_cost,
+  calculate_sell_payout,
+  calculate_multi_buy_cost,
+  calculate_multi_sell_payout,
+} from "../utils/lmsr";
+import { CommonTradeOperations } from "./commonTradeOperations";
+
+// Matches the defaults used when markets are initialized and traded
+const DEFAULT_BASE_LIQUIDITY_PARAM = 100000;
+const MIN_TRADE_COST = 0.01 * 1_000_000;
+
+/**
+ * Something that changed a market's LMSR, pool or position state.
+ * Trades come from `trades`; liquidity events and claims from `activities`;
+ * void refunds from `market_void_refunds`.
+ */
+export type ReplayEvent =
+  | {
+      kind: "initialize";
+      ref: string;
+      at: number;
+      user_id: string;
+      liquidity: number;
+      lp_shares: number;
+    }
+  | {
+      kind: "liquidity_added";
+      ref: string;
+      at: number;
+      user_id: string;
+      amount: number;
+      shares_minted: number;
+    }
+  | {
+      kind: "liquidity_removed";
+      ref: string;
+      at: number;
+      user_id: string;
+      shares_burned: number;
+      // Taken out of shared_pool_liquidity (fees come from accumulated_lp_fees)
+      liquidity_portion: number;
+      // remove_liquidity recomputes the liquidity parameter; lp_claim
+      // (lp_rewards_claimed) doesn't, and rounds the remaining deposit
+      // the other way
+      source: "remove_liquidity" | "lp_claim";
+    }
+  | {
+      kind: "trade";
+      ref: string;
+      at: number;
+      user_id: string;
+      option_id: string;
+      trade_type: "buy" | "sell";
+      side: "yes" | "no";
+      quantity: number;
+      total_cost: number;
+      fees_paid: number;
+    }
+  | {
+      kind: "claim";
+      ref: string;
+      at: number;
+      user_id: string;
+      option_id: string;
+      payout: number;
+      realized_pnl: number | null;
+    }
+  | {
+      kind: "void";
+      ref: string;
+      at: number;
+      refunds: Array<{
+        user_id: string;
+        option_id: string | null;
+        amount: number;
+        cost_basis: number;
+      }>;
+    };
+
+export interface ReplayMarketSetup {
+  base_liquidity_parameter: number | null;
+  is_exclusive: boolean;
+  // In the order exclusive markets price them (created_at, id)
+  option_ids: string[];
+}
+
+export interface ReplayPosition {
+  user_id: string;
+  option_id: string;
+  yes_shares: number;
+  no_shares: number;
+  total_yes_cost: number;
+  total_no_cost: number;
+  avg_yes_price: number;
+  avg_no_price: number;
+  realized_pnl: number;
+}
+
+export interface ReplayLpPosition {
+  user_id: string;
+  shares: number;
+  deposited_amount: number;
+}
+
+export interface ReplayState {
+  shared_pool_liquidity: number;
+  liquidity_parameter: number;
+  total_shared_lp_shares: number;
+  options: Record<string, { yes_quantity: number; no_quantity: number }>;
+  // Keyed by `${user_id}:${option_id}`
+  positions: Record<string, ReplayPosition>;
+  // Keyed by user_id
+  lp_positions: Record<string, ReplayLpPosition>;
+}
+
+export interface ReplayMismatch {
+  scope: "trade" | "market" | "option" | "user_position" | "lp_position";
+  id: string;
+  field: string;
+  expected: number | null; // replayed
+  actual: number | null; // recorded / stored
+  event_index?: number;
+  at?: number;
+  // Another event shares this event's timestamp, so the replay order
+  // may differ from the order it actually happened in
+  ambiguous_order?: boolean;
+}
+
+export interface ReplayResult {
+  state: ReplayState;
+  trade_mismatches: ReplayMismatch[];
+}
+
+export interface StoredMarketState {
+  shared_pool_liquidity: number;
+  liquidity_parameter: number;
+  total_shared_lp_shares: number;
+  options: Array<{
+    id: string;
+    yes_quantity: number;
+    no_quantity: number;
+    is_resolved: boolean;
+  }>;
+  positions: ReplayPosition[];
+  lp_positions: ReplayLpPosition[];
+}
+
+export interface MarketReplayReport {
+  market_id: string;
+  consistent: boolean;
+  events_replayed: number;
+  trades_replayed: number;
+  liquidity_events_replayed: number;
+  first_divergence: ReplayMismatch | null;
+  trade_mismatches: ReplayMismatch[];
+  state_mismatches: ReplayMismatch[];
+  replayed: ReplayState;
+  notes: string[];
+}
+
+// Order of events recorded within the same second
+const EVENT_PRIORITY: Record<ReplayEvent["kind"], number> = {
+  initialize: 0,
+  liquidity_added: 1,
+  trade: 2,
+  liquidity_removed: 3,
+  claim: 4,
+  void: 5,
+};
+
+const positionKey = (userId: string, optionId: string) =>
+  `${userId}:${optionId}`;
+
+const toInt = (value: any): number => Math.round(Number(value || 0));
+
+/**
+ * Deterministic replay of a market's history.
+ *
+ * Rebuilds option quantities, the liquidity parameter, the shared pool and
+ * every user and LP position from the market's trades and liquidity events,
+ * recomputing each trade's LMSR price with utils/lmsr.ts and the liquidity
+ * parameter with CommonTradeOperations.calculateLiquidityParameter, then
+ * compares the result with what is stored.
+ *
+ * Money moves by the amounts recorded on each event, so one mispriced trade
+ * is reported once instead of throwing off everything after it.
+ * Fees (accumulated_lp_fees, creator and protocol fees) are not replayed,
+ * since fee rates may have changed since the trades happened.
+ */
+export class MarketReplayService {
+  /**
+   * Sort events into replay order: by time, then by kind, then by ref
+   */
+  static sortEvents(events: ReplayEvent[]): ReplayEvent[] {
+    return [...events].sort(
+      (a, b) =>
+        a.at - b.at ||
+        EVENT_PRIORITY[a.kind] - EVENT_PRIORITY[b.kind] ||
+        a.ref.localeCompare(b.ref)
+    );
+  }
+
+  /**
+   * Replay sorted events from an empty market
+   */
+  static replay(setup: ReplayMarketSetup, events: ReplayEvent[]): ReplayResult {
+    const baseParam =
+      Number(setup.base_liquidity_parameter) || DEFAULT_BASE_LIQUIDITY_PARAM;
+    const state: ReplayState = {
+      shared_pool_liquidity: 0,
+      liquidity_parameter: 0,
+      total_shared_lp_shares: 0,
+      options: {},
+      positions: {},
+      lp_positions: {},
+    };
+    for (const optionId of setup.option_ids) {
+      state.options[optionId] = { yes_quantity: 0, no_quantity: 0 };
+    }
+
+    const tradeMismatches: ReplayMismatch[] = [];
+    const timestampCounts = new Map<number, number>();
+    for (const event of events) {
+      timestampCounts.set(event.at, (timestampCounts.get(event.at) || 0) + 1);
+    }
+
+    // b as set when liquidity is added or removed (not capped)
+    const liquidityParamFor = (poolLiquidity: number, totalShares: number) =>
+      Math.max(
+        baseParam * 1000,
+        Math.floor(Math.sqrt(Math.max(poolLiquidity, totalShares)) * 10000)
+      );
+    const totalOptionShares = () =>
+      Object.values(state.options).reduce(
+        (sum, option) => sum + option.yes_quantity + option.no_quantity,
+        0
+      );
+    const getPosition = (userId: string, optionId: string) => {
+      const key = positionKey(userId, optionId);
+      if (!state.positions[key]) {
+        state.positions[key] = {
+          user_id: userId,
+          option_id: optionId,
+          yes_shares: 0,
+          no_shares: 0,
+          total_yes_cost: 0,
+          total_no_cost: 0,
+          avg_yes_price: 0,
+          avg_no_price: 0,
+          realized_pnl: 0,
+        };
+      }
+      return state.positions[key];
+    };
+    const getLpPosition = (userId: string) => {
+      if (!state.lp_positions[userId]) {
+        state.lp_positions[userId] = {
+          user_id: userId,
+          shares: 0,
+          deposited_amount: 0,
+        };
+      }
+      return state.lp_positions[userId];
+    };
+
+    events.forEach((event, index) => {
+      switch (event.kind) {
+        case "initialize": {
+          state.shared_pool_liquidity = event.liquidity;
+          state.total_shared_lp_shares = event.lp_shares;
+          state.liquidity_parameter = liquidityParamFor(event.liquidity, 0);
+          const lp = getLpPosition(event.user_id);
+          lp.shares += event.lp_shares;
+          lp.deposited_amount += event.liquidity;
+          break;
+        }
+
+        case "liquidity_added": {
+          state.shared_pool_liquidity += event.amount;
+          state.total_shared_lp_shares += event.shares_minted;
+          state.liquidity_parameter = liquidityParamFor(
+            state.shared_pool_liquidity,
+            totalOptionShares()
+          );
+          const lp = getLpPosition(event.user_id);
+          lp.shares += event.shares_minted;
+          lp.deposited_amount += event.amount;
+          break;
+        }
+
+        case "liquidity_removed": {
+          state.shared_pool_liquidity = Math.max(
+            0,
+            state.shared_pool_liquidity - event.liquidity_portion
+          );
+          state.total_shared_lp_shares = Math.max(
+            0,
+            state.total_shared_lp_shares - event.shares_burned
+          );
+          if (event.source === "remove_liquidity") {
+            state.liquidity_parameter =
+              state.shared_pool_liquidity > 0
+                ? liquidityParamFor(
+                    state.shared_pool_liquidity,
+                    totalOptionShares()
+                  )
+                : baseParam * 1000;
+          }
+          const lp = getLpPosition(event.user_id);
+          const remainingShares = lp.shares - event.shares_burned;
+          if (lp.shares <= 0 || remainingShares <= 0) {
+            lp.deposited_amount = 0;
+          } else if (event.source === "remove_liquidity") {
+            lp.deposited_amount = Number(
+              (BigInt(lp.deposited_amount) * BigInt(remainingShares)) /
+                BigInt(lp.shares)
+            );
+          } else {
+            lp.deposited_amount -= Math.floor(
+              (lp.deposited_amount * event.shares_burned) / lp.shares
+            );
+          }
+          lp.shares = Math.max(0, remainingShares);
+          if (lp.shares === 0) {
+            delete state.lp_positions[event.user_id];
+          }
+          break;
+        }
+
+        case "trade": {
+          const option = state.options[event.option_id] || {
+            yes_quantity: 0,
+            no_quantity: 0,
+          };
+          state.options[event.option_id] = option;
+          const isYes = event.side === "yes";
+          const b = new BN(state.liquidity_parameter);
+
+          // Recompute the LMSR amount and compare it with the recorded one
+          let expected: number | null = null;
+          try {
+            if (setup.is_exclusive) {
+              const quantities = setup.option_ids.map(
+                (id) => new BN(state.options[id]?.yes_quantity || 0)
+              );
+              const outcomeIndex = setup.option_ids.indexOf(event.option_id);
+              expected =
+                event.trade_type === "buy"
+                  ? calculate_multi_buy_cost(
+                      quantities,
+                      outcomeIndex,
+                      new BN(event.quantity),
+                      b
+                    )
+                  : calculate_multi_sell_payout(
+                      quantities,
+                      outcomeIndex,
+                      new BN(event.quantity),
+                      b
+                    );
+            } else {
+              const yes = new BN(option.yes_quantity);
+              const no = new BN(option.no_quantity);
+              const yesAmount = new BN(isYes ? event.quantity : 0);
+              const noAmount = new BN(isYes ? 0 : event.quantity);
+              expected =
+                event.trade_type === "buy"
+                  ? calculate_buy_cost(yes, no, yesAmount, noAmount, b)
+                  : calculate_sell_payout(yes, no, yesAmount, noAmount, b);
+            }
+            if (event.trade_type === "buy" && expected < 0.01) {
+              expected = MIN_TRADE_COST;
+            }
+          } catch {
+            expected = null;
+          }
+
+          // buy: total_cost = raw cost + fees; sell: total_cost = raw payout - fees
+          const recordedRaw =
+            event.trade_type === "buy"
+              ? event.total_cost - event.fees_paid
+              : event.total_cost + event.fees_paid;
+          if (expected === null || Math.round(expected) !== recordedRaw) {
+            tradeMismatches.push({
+              scope: "trade",
+              id: event.ref,
+              field: event.trade_type === "buy" ? "raw_cost" : "raw_payout",
+              expected: expected === null ? null : Math.round(expected),
+              actual: recordedRaw,
+              event_index: index,
+              at: event.at,
+              ambiguous_order: (timestampCounts.get(event.at) || 0) > 1,
+            });
+          }
+
+          // Apply the trade as TradeService does
+          const direction = event.trade_type === "buy" ? 1 : -1;
+          if (isYes) {
+            option.yes_quantity += direction * event.quantity;
+          } else {
+            option.no_quantity += direction * event.quantity;
+          }
+          state.shared_pool_liquidity = Math.max(
+            0,
+            state.shared_pool_liquidity + direction * recordedRaw
+          );
+          state.liquidity_parameter =
+            CommonTradeOperations.calculateLiquidityParameter(
+              state.liquidity_parameter,
+              state.shared_pool_liquidity,
+              totalOptionShares(),
+              baseParam,
+              false
+            );
+
+          const position = getPosition(event.user_id, event.option_id);
+          const sharesField = isYes ? "yes_shares" : "no_shares";
+          const costField = isYes ? "total_yes_cost" : "total_no_cost";
+          const avgField = isYes ? "avg_yes_price" : "avg_no_price";
+          if (event.trade_type === "buy") {
+            // CommonTradeOperations.updatePositionShares
+            position[sharesField] += event.quantity;
+            position[costField] += recordedRaw;
+            position[avgField] =
+              position[sharesField] > 0
+                ? Number(
+                    BigInt(position[costField]) / BigInt(position[sharesField])
+                  )
+                : 0;
+          } else {
+            // TradeService.updatePositionForSell
+            const avgPrice = BigInt(Math.round(position[avgField]));
+            const costBasis = Number(BigInt(event.quantity) * avgPrice);
+            position.realized_pnl += Math.round(event.total_cost - costBasis);
+            position[sharesField] -= event.quantity;
+            position[costField] = Number(
+              BigInt(position[sharesField]) * avgPrice
+            );
+          }
+          break;
+        }
+
+        case "claim": {
+          state.shared_pool_liquidity = Math.max(
+            0,
+            state.shared_pool_liquidity - event.payout
+          );
+          const position = getPosition(event.user_id, event.option_id);
+          const costBasis = position.total_yes_cost + position.total_no_cost;
+          position.realized_pnl +=
+            event.realized_pnl ?? event.payout - costBasis;
+          position.yes_shares = 0;
+          position.no_shares = 0;
+          position.total_yes_cost = 0;
+          position.total_no_cost = 0;
+          break;
+        }
+
+        case "void": {
+          for (const refund of event.refunds) {
+            if (!refund.option_id) {
+              continue;
+            }
+            const position = getPosition(refund.user_id, refund.option_id);
+            position.realized_pnl += refund.amount - refund.cost_basis;
+            position.yes_shares = 0;
+            position.no_shares = 0;
+            position.total_yes_cost = 0;
+            position.total_no_cost = 0;
+          }
+          state.shared_pool_liquidity = 0;
+          state.total_shared_lp_shares = 0;
+          state.lp_positions = {};
+          break;
+        }
+      }
+    });
+
+    return { state, trade_mismatches: tradeMismatches };
+  }
+
+  /**
+   * Compare replayed state with stored state. Positions on resolved options
+   * are skipped: resolution zeroes losing positions without recording an
+   * event for them.
+   */
+  static diffState(
+    replayed: ReplayState,
+    stored: StoredMarketState
+  ): ReplayMismatch[] {
+    const mismatches: ReplayMismatch[] = [];
+    const compare = (
+      scope: ReplayMismatch["scope"],
+      id: string,
+      field: string,
+      expected: number | null,
+      actual: number | null
+    ) => {
+      if (expected !== actual) {
+        mismatches.push({ scope, id, field, expected, actual });
+      }
+    };
+
+    compare(
+      "market",
+      "market",
+      "shared_pool_liquidity",
+      replayed.shared_pool_liquidity,
+      toInt(stored.shared_pool_liquidity)
+    );
+    compare(
+      "market",
+      "market",
+      "liquidity_parameter",
+      replayed.liquidity_parameter,
+      toInt(stored.liquidity_parameter)
+    );
+    compare(
+      "market",
+      "market",
+      "total_shared_lp_shares",
+      replayed.total_shared_lp_shares,
+      toInt(stored.total_shared_lp_shares)
+    );
+
+    const resolvedOptions = new Set<string>();
+    for (const option of stored.options) {
+      if (option.is_resolved) {
+        resolvedOptions.add(option.id);
+      }
+      const replayedOption = replayed.options[option.id];
+      compare(
+        "option",
+        option.id,
+        "yes_quantity",
+        replayedOption ? replayedOption.yes_quantity : null,
+        toInt(option.yes_quantity)
+      );
+      compare(
+        "option",
+        option.id,
+        "no_quantity",
+        replayedOption ? replayedOption.no_quantity : null,
+        toInt(option.no_quantity)
+      );
+    }
+
+    const positionFields = [
+      "yes_shares",
+      "no_shares",
+      "total_yes_cost",
+      "total_no_cost",
+      "realized_pnl",
+    ] as const;
+    const storedPositions = new Map(
+      stored.positions.map((p) => [positionKey(p.user_id, p.option_id), p])
+    );
+    const positionKeys = new Set([
+      ...Object.keys(replayed.positions),
+      ...storedPositions.keys(),
+    ]);
+    for (const key of [...positionKeys].sort()) {
+      const replayedPosition = replayed.positions[key];
+      const storedPosition = storedPositions.get(key);
+      const optionId = (replayedPosition || storedPosition)!.option_id;
+      if (resolvedOptions.has(optionId)) {
+        continue;
+      }
+      for (const field of positionFields) {
+        compare(
+          "user_position",
+          key,
+          field,
+          replayedPosition ? replayedPosition[field] : null,
+          storedPosition ? toInt(storedPosition[field]) : null
+        );
+      }
+    }
+
+    const storedLps = new Map(
+      stored.lp_positions.map((lp) => [lp.user_id, lp])
+    );
+    const lpKeys = new Set([
+      ...Object.keys(replayed.lp_positions),
+      ...storedLps.keys(),
+    ]);
+    for (const userId of [...lpKeys].sort()) {
+      const replayedLp = replayed.lp_positions[userId];
+      const storedLp = storedLps.get(userId);
+      for (const field of ["shares", "deposited_amount"] as const) {
+        compare(
+          "lp_position",
+          userId,
+          field,
+          replayedLp ? replayedLp[field] : null,
+          storedLp ? toInt(storedLp[field]) : null
+        );
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Load a market's history, replay it and compare the result with the
+   * stored state. Returns null if the market doesn't exist.
+   */
+  static async replayMarket(
+    marketId: string
+  ): Promise<MarketReplayReport | null> {
+    const marketResult = await pool.query(
+      `SELECT * FROM markets WHERE id = $1`,
+      [marketId]
+    );
+    const market = marketResult.rows[0];
+    if (!market) {
+      return null;
+    }
+
+    const [
+      optionsResult,
+      tradesResult,
+      activitiesResult,
+      voidRefundsResult,
+      positionsResult,
+      lpPositionsResult,
+    ] = await Promise.all([
+      pool.query(
+        `SELECT id, yes_quantity, no_quantity, is_resolved FROM market_options
+         WHERE market_id = $1
+         ORDER BY created_at ASC, id ASC`,
+        [marketId]
+      ),
+      pool.query(
+        `SELECT * FROM trades
+         WHERE market_id = $1 AND status = 'completed'
+         ORDER BY created_at ASC, id ASC`,
+        [marketId]
+      ),
+      pool.query(
+        `SELECT * FROM activities
+         WHERE (
+           activity_type IN ('market_initialized', 'liquidity_added', 'liquidity_removed', 'lp_rewards_claimed')
+           AND entity_id = $1
+         ) OR (
+           activity_type = 'claim' AND metadata->>'market_id' = $1
+         )
+         ORDER BY created_at ASC, id ASC`,
+        [marketId]
+      ),
+      pool.query(`SELECT * FROM market_void_refunds WHERE market_id = $1`, [
+        marketId,
+      ]),
+      pool.query(`SELECT * FROM user_positions WHERE market_id = $1`, [
+        marketId,
+      ]),
+      pool.query(`SELECT * FROM lp_positions WHERE market_id = $1`, [marketId]),
+    ]);
+
+    const events: ReplayEvent[] = [];
+    for (const trade of tradesResult.rows) {
+      events.push({
+        kind: "trade",
+        ref: trade.id,
+        at: Number(trade.created_at),
+        user_id: trade.user_id,
+        option_id: trade.option_id,
+        trade_type: trade.trade_type,
+        side: trade.side,
+        quantity: toInt(trade.quantity),
+        total_cost: toInt(trade.total_cost),
+        fees_paid: toInt(trade.fees_paid),
+      });
+    }
+
+    let hasInitialization = false;
+    for (const activity of activitiesResult.rows) {
+      const metadata = activity.metadata || {};
+      const base = {
+        ref: activity.id,
+        at: Number(activity.created_at),
+        user_id: activity.user_id,
+      };
+      switch (activity.activity_type) {
+        case "market_initialized":
+          hasInitialization = true;
+          events.push({
+            ...base,
+            kind: "initialize",
+            liquidity: toInt(metadata.initial_liquidity),
+            lp_shares: toInt(metadata.lp_shares),
+          });
+          break;
+        case "liquidity_added":
+          events.push({
+            ...base,
+            kind: "liquidity_added",
+            amount: toInt(metadata.amount),
+            shares_minted: toInt(metadata.shares_minted),
+          });
+          break;
+        case "liquidity_removed":
+          events.push({
+            ...base,
+            kind: "liquidity_removed",
+            shares_burned: toInt(metadata.shares_burned),
+            liquidity_portion:
+              toInt(metadata.usdc_returned) - toInt(metadata.fees_portion),
+            source: "remove_liquidity",
+          });
+          break;
+        case "lp_rewards_claimed":
+          events.push({
+            ...base,
+            kind: "liquidity_removed",
+            shares_burned: toInt(metadata.shares_burned),
+            liquidity_portion: toInt(metadata.liquidity_portion),
+            source: "lp_claim",
+          });
+          break;
+        case "claim":
+          events.push({
+            ...base,
+            kind: "claim",
+            option_id: activity.entity_id,
+            payout: toInt(metadata.payout),
+            realized_pnl:
+              metadata.realized_pnl === undefined ||
+              metadata.realized_pnl === null
+                ? null
+                : toInt(metadata.realized_pnl),
+          });
+          break;
+      }
+    }
+
+    if (voidRefundsResult.rows.length > 0) {
+      events.push({
+        kind: "void",
+        ref: marketId,
+        at: Number(market.voided_at || voidRefundsResult.rows[0].created_at),
+        refunds: voidRefundsResult.rows.map((refund: any) => ({
+          user_id: refund.user_id,
+          option_id: refund.option_id,
+          amount: toInt(refund.amount),
+          cost_basis: toInt(refund.cost_basis),
+        })),
+      });
+    }
+
+    const sorted = this.sortEvents(events);
+    const { state, trade_mismatches } = this.replay(
+      {
+        base_liquidity_parameter: market.base_liquidity_parameter,
+        is_exclusive: !!market.is_exclusive,
+        option_ids: optionsResult.rows.map((option: any) => option.id),
+      },
+      sorted
+    );
+
+    const stateMismatches = this.diffState(state, {
+      shared_pool_liquidity: market.shared_pool_liquidity,
+      liquidity_parameter: market.liquidity_parameter,
+      total_shared_lp_shares: market.total_shared_lp_shares,
+      options: optionsResult.rows,
+      positions: positionsResult.rows,
+      lp_positions: lpPositionsResult.rows,
+    });
+
+    const notes: string[] = [];
+    if (market.is_initialized && !hasInitialization) {
+      notes.push(
+        "No market_initialized activity found; replay started from an empty pool"
+      );
+    }
+    const ambiguous = trade_mismatches.filter((m) => m.ambiguous_order).length;
+    if (ambiguous > 0) {
+      notes.push(
+        `${ambiguous} trade mismatch(es) share a timestamp with another event; their order within that second is a guess`
+      );
+    }
+    if (optionsResult.rows.some((option: any) => option.is_resolved)) {
+      notes.push("Positions on resolved options are not compared");
+    }
+
+    return {
+      market_id: marketId,
+      consistent: trade_mismatches.length === 0 && stateMismatches.length === 0,
+      events_replayed: sorted.length,
+      trades_replayed: tradesResult.rows.length,
+      liquidity_events_replayed: sorted.filter(
+        (event) => event.kind !== "trade" && event.kind !== "claim"
+      ).length,
+      first_divergence: trade_mismatches[0] || stateMismatches[0] || null,
+      trade_mismatches,
+      state_mismatches: stateMismatches,
+      replayed: state,
+      notes,
+    };
+  }
+}
@@ -0,0 +1,430 @@
+import { UUID } from "crypto";
+import { PoolClient } from "pg";
+import { pool } from "../db";
+import { Market } from "../models/Market";
+import { MarketStatus } from "../models/Resolution";
+import { MoodringModel } from "../models/Moodring";
+import { LimitOrderModel } from "../models/LimitOrder";
+import { PositionTriggerModel } from "../models/PositionTrigger";
+import { ActivityModel } from "../models/Activity";
+import { NotificationModel } from "../models/Notification";
+import {
+  MarketVoidRefundCreateInput,
+  MarketVoidRefundModel,
+} from "../models/MarketVoidRefund";
+import { MarketLifecycleService } from "./marketLifecycleService";
+import { emitBalanceUpdate } from "./websocket";
+import { LedgerService } from "./ledgerService";
+import { calculateVoidRefunds, VoidFeePolicy } from "../utils/marketVoid";
+import { TransactionError } from "../utils/transaction";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
+
+export interface VoidMarketOptions {
+  reason: string;
+  actorId: string;
+  feePolicy: VoidFeePolicy;
+  // Set when the void upholds a dispute
+  disputeId?: string | null;
+}
+
+export interface VoidMarketResult {
+  market_id: UUID;
+  status: MarketStatus;
+  fee_policy: VoidFeePolicy;
+  holders_refunded: number;
+  liquidity_providers_refunded: number;
+  total_position_refunds: number;
+  total_fee_refunds: number;
+  total_liquidity_refunds: number;
+  shortfall: number;
+  dust: number;
+  disputes_closed: number;
+  refunded_user_ids: string[];
+  voided_at: number;
+}
+
+interface HolderRow {
+  user_id: string;
+  option_id: string;
+  shares: number;
+  cost_basis: number;
+  fees_paid: number;
+}
+
+interface LiquidityProviderRow {
+  user_id: string;
+  shares: number;
+  deposited_amount: number;
+}
+
+/**
+ * Voids (cancels) a market and unwinds it in the caller's transaction:
+ * - moves the market to VOIDED and closes its open limit orders, position
+ *   triggers and disputes
+ * - refunds every holder's net cost basis and every LP's share of the pool
+ *   (see utils/marketVoid.ts for the split and the fee policies)
+ * - records the refunds, activities and notifications
+ *
+ * Positions are zeroed and marked claimed, and LP positions are removed, so
+ * nothing is left to claim or withdraw on a voided market.
+ */
+export class MarketVoidService {
+  static async voidMarket(
+    client: PoolClient,
+    marketId: string,
+    options: VoidMarketOptions
+  ): Promise<VoidMarketResult> {
+    // Lock the market first (Market -> Option -> Wallet -> Position). Every
+    // trade, claim and liquidity change takes this lock, so the positions
+    // read below can't change until we commit.
+    const marketResult = await client.query(
+      `SELECT * FROM markets WHERE id = $1 FOR UPDATE`,
+      [marketId]
+    );
+    const market: Market | undefined = marketResult.rows[0];
+    if (!market) {
+      throw new TransactionError(404, "Market not found");
+    }
+    if (market.is_voided) {
+      throw new TransactionError(409, "Market has already been voided");
+    }
+    if (!market.is_initialized) {
+      throw new TransactionError(
+        400,
+        "Market is not initialized. Delete it instead of voiding it."
+      );
+    }
+
+    // Paid-out winnings can't be unwound
+    const claimedResult = await client.query(
+      `SELECT 1 FROM user_positions
+       WHERE market_id = $1 AND is_claimed = TRUE
+       LIMIT 1`,
+      [marketId]
+    );
+    if (claimedResult.rows.length > 0) {
+      throw new TransactionError(
+        409,
+        "Cannot void a market after winnings have been claimed"
+      );
+    }
+
+    await MarketLifecycleService.transition(
+      client,
+      marketId,
+      MarketStatus.VOIDED,
+      {
+        reason: options.reason,
+        actorId: options.actorId,
+        metadata: {
+          fee_policy: options.feePolicy,
+          dispute_id: options.disputeId || null,
+        },
+      }
+    );
+
+    await LimitOrderModel.expireByMarket(marketId, "Market voided", client);
+    await PositionTriggerModel.expireByMarket(
+      marketId,
+      "Market voided",
+      client
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    const disputesResult = await client.query(
+      `UPDATE disputes SET
+         status = 'resolved',
+         reviewed_by = $2,
+         reviewed_at = $3,
+         review_notes = COALESCE(review_notes, $4),
+         updated_at = $3
+       WHERE market_id = $1 AND status IN ('pending', 'reviewed')`,
+      [marketId, options.actorId, now, `Market voided: ${options.reason}`]
+    );
+
+    const holdersResult = await client.query(
+      `SELECT
+         up.user_id,
+         up.option_id,
+         (up.yes_shares + up.no_shares)::bigint as shares,
+         (up.total_yes_cost + up.total_no_cost)::bigint as cost_basis,
+         COALESCE((
+           SELECT SUM(t.fees_paid) FROM trades t
+           WHERE t.user_id = up.user_id
+             AND t.option_id = up.option_id
+             AND t.trade_type = 'buy'
+             AND t.status = 'completed'
+         ), 0)::bigint as fees_paid
+       FROM user_positions up
+       WHERE up.market_id = $1
+         AND (up.yes_shares > 0 OR up.no_shares > 0
+              OR up.total_yes_cost > 0 OR up.total_no_cost > 0)
+       ORDER BY up.user_id, up.option_id`,
+      [marketId]
+    );
+    const holders: HolderRow[] = holdersResult.rows.map((row: any) => ({
+      user_id: row.user_id,
+      option_id: row.option_id,
+      shares: Number(row.shares),
+      cost_basis: Number(row.cost_basis),
+      fees_paid: Number(row.fees_paid),
+    }));
+
+    const lpResult = await client.query(
+      `SELECT user_id, shares, deposited_amount FROM lp_positions
+       WHERE market_id = $1 AND shares > 0
+       ORDER BY user_id`,
+      [marketId]
+    );
+    const liquidityProviders: LiquidityProviderRow[] = lpResult.rows.map(
+      (row: any) => ({
+        user_id: row.user_id,
+        shares: Number(row.shares),
+        deposited_amount: Number(row.deposited_amount),
+      })
+    );
+
+    const plan = calculateVoidRefunds({
+      poolLiquidity: Number(market.shared_pool_liquidity || 0),
+      lpFees: Number(market.accumulated_lp_fees || 0),
+      creatorFees: Number(market.creator_fees_collected || 0),
+      holders,
+      liquidityProviders,
+      feePolicy: options.feePolicy,
+    });
+
+    // Credit wallets, one update per user
+    const credits = new Map<string, number>();
+    for (const holder of plan.holders) {
+      credits.set(
+        holder.user_id,
+        (credits.get(holder.user_id) || 0) + holder.refund + holder.fee_refund
+      );
+    }
+    for (const lp of plan.liquidityProviders) {
+      credits.set(lp.user_id, (credits.get(lp.user_id) || 0) + lp.refund);
+    }
+    for (const [userId, amount] of credits) {
+      if (amount > 0) {
+        await client.query(
+          `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE user_id = $2`,
+          [amount, userId]
+        );
+      }
+    }
+    await LedgerService.post(client, {
+      transaction_type: "market_void",
+      reference_type: "market",
+      reference_id: marketId,
+      metadata: { fee_policy: options.feePolicy },
+      entries: [
+        debit(
+          LedgerAccounts.marketPool(marketId),
+          Number(market.shared_pool_liquidity || 0)
+        ),
+        debit(
+          LedgerAccounts.lpFeePool(marketId),
+          Number(market.accumulated_lp_fees || 0)
+        ),
+        debit(
+          LedgerAccounts.creatorFees(marketId),
+          plan.feeFunding.creator_fees
+        ),
+        debit(LedgerAccounts.protocolFees(), plan.feeFunding.protocol_fees),
+        ...[...credits].map(([userId, amount]) =>
+          credit(LedgerAccounts.user(userId), amount)
+        ),
+        credit(LedgerAccounts.protocolFees(), plan.dust),
+      ],
+    });
+
+    // Zero out positions the way a claim does
+    for (const holder of plan.holders) {
+      await client.query(
+        `UPDATE user_positions SET
+          yes_shares = 0,
+          no_shares = 0,
+          total_yes_cost = 0,
+          total_no_cost = 0,
+          realized_pnl = realized_pnl + $1,
+          is_claimed = TRUE,
+          updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+         WHERE user_id = $2 AND option_id = $3`,
+        [holder.refund - holder.cost_basis, holder.user_id, holder.option_id]
+      );
+    }
+    await client.query(`DELETE FROM lp_positions WHERE market_id = $1`, [
+      marketId,
+    ]);
+
+    await client.query(
+      `UPDATE markets SET
+        is_voided = TRUE,
+        is_resolved = TRUE,
+        voided_at = $2,
+        voided_by = $3,
+        void_reason = $4,
+        void_fee_policy = $5,
+        shared_pool_liquidity = 0,
+        accumulated_lp_fees = 0,
+        total_shared_lp_shares = 0,
+        reserved_liquidity = 0,
+        creator_fees_collected = GREATEST(0, creator_fees_collected - $6),
+        updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT
+       WHERE id = $1`,
+      [
+        marketId,
+        now,
+        options.actorId,
+        options.reason,
+        options.feePolicy,
+        plan.feeFunding.creator_fees,
+      ]
+    );
+
+    // Refunded creator and protocol fees come off the platform totals;
+    // rounding dust is kept as protocol fees
+    const creatorFeeChange = -plan.feeFunding.creator_fees;
+    const protocolFeeChange = plan.dust - plan.feeFunding.protocol_fees;
+    if (creatorFeeChange !== 0 || protocolFeeChange !== 0) {
+      await MoodringModel.recordFees(
+        creatorFeeChange,
+        protocolFeeChange,
+        client
+      );
+    }
+
+    const refunds: MarketVoidRefundCreateInput[] = [
+      ...plan.holders.map((holder) => ({
+        market_id: marketId,
+        user_id: holder.user_id,
+        option_id: holder.option_id,
+        refund_type: "position" as const,
+        shares: holder.shares,
+        cost_basis: holder.cost_basis,
+        amount: holder.refund,
+        fee_refund: holder.fee_refund,
+      })),
+      ...plan.liquidityProviders.map((lp) => ({
+        market_id: marketId,
+        user_id: lp.user_id,
+        refund_type: "liquidity" as const,
+        shares: lp.shares,
+        cost_basis: lp.deposited_amount,
+        amount: lp.refund,
+      })),
+    ];
+    await MarketVoidRefundModel.createMany(refunds, client);
+
+    const totalPositionRefunds = plan.holders.reduce(
+      (sum, h) => sum + h.refund,
+      0
+    );
+    const totalFeeRefunds = plan.holders.reduce(
+      (sum, h) => sum + h.fee_refund,
+      0
+    );
+    const totalLiquidityRefunds = plan.liquidityProviders.reduce(
+      (sum, lp) => sum + lp.refund,
+      0
+    );
+
+    await ActivityModel.create(
+      {
+        user_id: options.actorId as UUID,
+        activity_type: "market_voided",
+        entity_type: "market",
+        entity_id: marketId,
+        metadata: {
+          reason: options.reason,
+          fee_policy: options.feePolicy,
+          dispute_id: options.disputeId || null,
+          total_refunded:
+            totalPositionRefunds + totalFeeRefunds + totalLiquidityRefunds,
+        },
+      },
+      client
+    );
+    for (const refund of refunds) {
+      await ActivityModel.create(
+        {
+          user_id: refund.user_id as UUID,
+          activity_type: "void_refund",
+          entity_type: refund.option_id ? "option" : "market",
+          entity_id: refund.option_id || marketId,
+          metadata: {
+            market_id: marketId,
+            refund_type: refund.refund_type,
+            cost_basis: refund.cost_basis,
+            amount: refund.amount,
+            fee_refund: refund.fee_refund || 0,
+          },
+          is_public: false,
+        },
+        client
+      );
+    }
+
+    const refundedUserIds = [...credits.keys()];
+    await NotificationModel.createMany(
+      refundedUserIds.map((userId) => ({
+        user_id: userId as UUID,
+        notification_type: "market_voided" as const,
+        title: "Market voided",
+        message: `"${market.question}" was voided. ${
+          (credits.get(userId) || 0) / 1_000_000
+        } USDC has been refunded to your wallet.`,
+        entity_type: "market",
+        entity_id: marketId,
+        metadata: {
+          reason: options.reason,
+          amount: credits.get(userId) || 0,
+        },
+      })),
+      client
+    );
+
+    return {
+      market_id: marketId as UUID,
+      status: MarketStatus.VOIDED,
+      fee_policy: options.feePolicy,
+      holders_refunded: new Set(plan.holders.map((h) => h.user_id)).size,
+      liquidity_providers_refunded: plan.liquidityProviders.length,
+      total_position_refunds: totalPositionRefunds,
+      total_fee_refunds: totalFeeRefunds,
+      total_liquidity_refunds: totalLiquidityRefunds,
+      shortfall: plan.shortfall,
+      dust: plan.dust,
+      disputes_closed: disputesResult.rowCount || 0,
+      refunded_user_ids: refundedUserIds,
+      voided_at: now,
+    };
+  }
+
+  /**
+   * Push refunded users' new balances over the websocket. Call after the
+   * void transaction commits.
+   */
+  static async emitRefundBalances(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    try {
+      const result = await pool.query(
+        `SELECT user_id, balance_usdc FROM wallets WHERE user_id = ANY($1::uuid[])`,
+        [userIds]
+      );
+      for (const row of result.rows) {
+        emitBalanceUpdate({
+          user_id: row.user_id,
+          balance_usdc: Number(row.balance_usdc),
+          timestamp: new Date(),
+        });
+      }
+    } catch (wsError) {
+      // Don't fail the void if websocket emission fails
+      console.error("WebSocket emission error:", wsError);
+    }
+  }
+}
@@ -0,0 +1,432 @@
+import { UUID } from "crypto";
+import { PoolClient } from "pg";
+import { TransactionError } from "../utils/transaction";
+import {
+  CommitRevealSchedule,
+  VOTE_OUTCOMES,
+  computeCommitment,
+  getCommitRevealSchedule,
+  isCommitmentHash,
+  parseResolutionConfigInput,
+  parseVoteOutcome,
+  validateCommitRevealSettings,
+} from "../utils/commitReveal";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { LedgerService } from "./ledgerService";
+import { resolveOptionOutcome } from "./optionResolution";
+import { ResolutionEngine, ResolutionResult } from "./resolutionEngine";
+import { OptionModel, Option } from "../models/Option";
+import { MoodringModel } from "../models/Moodring";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
+import {
+  ResolutionCommitment,
+  ResolutionCommitmentModel,
+  ResolutionConfig,
+  ResolutionMode,
+  ResolutionSubmission,
+  ResolutionSubmissionModel,
+} from "../models/Resolution";
+
+export interface OpinionSettings {
+  commitWindowHours: number;
+  revealWindowHours: number;
+  bondAmount: number;
+  disputeWindowHours: number;
+}
+
+export interface OpinionSchedule extends CommitRevealSchedule {
+  settings: OpinionSettings;
+}
+
+const DEFAULT_COMMIT_WINDOW_HOURS = 24;
+const DEFAULT_REVEAL_WINDOW_HOURS = 24;
+const DEFAULT_SUBMISSION_BOND = 1_000_000; // 1 USDC
+const DEFAULT_DISPUTE_WINDOW_HOURS = 2;
+
+/**
+ * Commit–reveal submissions for OPINION markets.
+ *
+ * Once a market expires, anyone can submit a hidden YES/NO vote on an option
+ * through /api/resolution/submit by posting a commitment (see utils/commitReveal)
+ * and a bond. After the commit deadline submitters reveal outcome and salt; a
+ * matching reveal becomes a resolution submission and the bond is refunded.
+ * When the reveal phase ends the ResolutionProcessor forfeits unrevealed bonds
+ * and resolves each option from its revealed submissions only.
+ */
+export class OpinionResolutionService {
+  /**
+   * Fill in OPINION defaults for a market's resolution config
+   */
+  static getSettings(config?: ResolutionConfig | null): OpinionSettings {
+    return {
+      commitWindowHours:
+        config?.commitWindowHours ?? DEFAULT_COMMIT_WINDOW_HOURS,
+      revealWindowHours:
+        config?.revealWindowHours ?? DEFAULT_REVEAL_WINDOW_HOURS,
+      bondAmount: config?.bondAmount ?? DEFAULT_SUBMISSION_BOND,
+      disputeWindowHours:
+        config?.disputeWindowHours ?? DEFAULT_DISPUTE_WINDOW_HOURS,
+    };
+  }
+
+  /**
+   * Validate an OPINION resolution config supplied at market creation.
+   * Returns the config with defaults filled in.
+   */
+  static parseConfig(raw: any): OpinionSettings {
+    const settings = this.getSettings(
+      parseResolutionConfigInput<ResolutionConfig>(raw)
+    );
+    validateCommitRevealSettings(settings);
+    return settings;
+  }
+
+  /**
+   * Phase and deadlines of an OPINION market at `now` (unix seconds).
+   * Commits open at expiration.
+   */
+  static getSchedule(
+    market: { expiration_timestamp: number; resolution_config: any },
+    now?: number
+  ): OpinionSchedule {
+    const settings = this.getSettings(market.resolution_config);
+    return {
+      ...getCommitRevealSchedule(
+        market.expiration_timestamp,
+        settings.commitWindowHours,
+        settings.revealWindowHours,
+        now
+      ),
+      settings,
+    };
+  }
+
+  /**
+   * Lock an OPINION market that still accepts submissions
+   */
+  private static async getOpinionMarketWithLock(
+    client: PoolClient,
+    marketId: string
+  ) {
+    const result = await client.query(
+      `SELECT * FROM markets WHERE id = $1 FOR UPDATE`,
+      [marketId]
+    );
+    const market = result.rows[0];
+    if (!market) {
+      throw new TransactionError(404, "Market not found");
+    }
+    if (market.resolution_mode !== ResolutionMode.OPINION) {
+      throw new TransactionError(400, "Market does not use OPINION resolution");
+    }
+    if (market.is_resolved) {
+      throw new TransactionError(400, "Market is already resolved");
+    }
+    return market;
+  }
+
+  /**
+   * Get an unresolved option of the market, or throw
+   */
+  private static async getSubmittableOption(
+    client: PoolClient,
+    marketId: string,
+    optionId: string
+  ): Promise<Option> {
+    const option = await OptionModel.findById(optionId, client);
+    if (!option || option.market_id !== marketId) {
+      throw new TransactionError(404, "Option not found");
+    }
+    if (option.is_resolved) {
+      throw new TransactionError(400, "Option is already resolved");
+    }
+    return option;
+  }
+
+  /**
+   * Commit phase: store a hidden submission and lock its bond from the wallet.
+   * Re-committing before the deadline replaces the commitment without a new bond.
+   */
+  static async commit(
+    client: PoolClient,
+    data: {
+      marketId: string;
+      optionId: string;
+      userId: UUID;
+      commitment: string;
+    }
+  ): Promise<{
+    commitment: ResolutionCommitment;
+    schedule: OpinionSchedule;
+    newBalance: number | null;
+  }> {
+    if (!isCommitmentHash(data.commitment)) {
+      throw new TransactionError(
+        400,
+        "Commitment must be a hex-encoded sha256 hash"
+      );
+    }
+    const hash = data.commitment.toLowerCase();
+
+    const market = await this.getOpinionMarketWithLock(client, data.marketId);
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "commit") {
+      throw new TransactionError(
+        400,
+        `Submissions can only be committed during the commit phase (current phase: ${schedule.phase})`
+      );
+    }
+
+    await this.getSubmittableOption(client, data.marketId, data.optionId);
+
+    const existing = await ResolutionCommitmentModel.findByOptionAndUser(
+      data.optionId,
+      data.userId,
+      client
+    );
+    if (existing) {
+      const updated = await ResolutionCommitmentModel.updateCommitment(
+        existing.id,
+        hash,
+        client
+      );
+      if (!updated) {
+        throw new TransactionError(409, "Submission has already been revealed");
+      }
+      return { commitment: updated, schedule, newBalance: null };
+    }
+
+    const bond = schedule.settings.bondAmount;
+    let newBalance: number | null = null;
+    if (bond > 0) {
+      const wallet = await CommonTradeOperations.getWalletWithLock(
+        client,
+        data.userId
+      );
+      if (Number(wallet.balance_usdc) < bond) {
+        throw new TransactionError(
+          400,
+          `Insufficient balance. Submissions on this market require a ${
+            bond / 1_000_000
+          } USDC bond.`
+        );
+      }
+      newBalance = Number(wallet.balance_usdc) - bond;
+      await CommonTradeOperations.updateWalletBalance(
+        client,
+        wallet.id,
+        newBalance
+      );
+    }
+
+    const commitment = await ResolutionCommitmentModel.create(
+      {
+        market_id: data.marketId,
+        option_id: data.optionId,
+        user_id: data.userId,
+        commitment: hash,
+        bond_amount: bond,
+      },
+      client
+    );
+    await LedgerService.transfer(
+      client,
+      "resolution_bond",
+      LedgerAccounts.user(data.userId),
+      LedgerAccounts.escrow(data.userId),
+      bond,
+      { reference_type: "resolution_commitment", reference_id: commitment.id }
+    );
+
+    return { commitment, schedule, newBalance };
+  }
+
+  /**
+   * Reveal phase: check outcome and salt against the commitment, record the
+   * submission and refund the bond
+   */
+  static async reveal(
+    client: PoolClient,
+    data: {
+      marketId: string;
+      optionId: string;
+      userId: UUID;
+      outcome: string;
+      salt: string;
+      evidence?: any;
+      signature?: string;
+    }
+  ): Promise<{
+    submission: ResolutionSubmission;
+    commitment: ResolutionCommitment;
+    newBalance: number | null;
+  }> {
+    const outcome = parseVoteOutcome(data.outcome);
+    if (!outcome) {
+      throw new TransactionError(400, "Outcome must be YES or NO");
+    }
+
+    const market = await this.getOpinionMarketWithLock(client, data.marketId);
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "reveal") {
+      throw new TransactionError(
+        400,
+        `Submissions can only be revealed during the reveal phase (current phase: ${schedule.phase})`
+      );
+    }
+
+    await this.getSubmittableOption(client, data.marketId, data.optionId);
+
+    const existing = await ResolutionCommitmentModel.findByOptionAndUser(
+      data.optionId,
+      data.userId,
+      client
+    );
+    if (!existing) {
+      throw new TransactionError(
+        404,
+        "No committed submission for this option"
+      );
+    }
+    if (existing.status !== "committed") {
+      throw new TransactionError(409, "Submission has already been revealed");
+    }
+
+    const expected = computeCommitment(
+      data.optionId,
+      data.userId,
+      outcome,
+      String(data.salt || "")
+    );
+    if (expected !== existing.commitment) {
+      throw new TransactionError(
+        400,
+        "Outcome and salt do not match your commitment"
+      );
+    }
+
+    const submission = await ResolutionSubmissionModel.create(
+      {
+        market_id: data.marketId,
+        option_id: data.optionId,
+        user_id: data.userId,
+        outcome,
+        evidence: data.evidence,
+        signature: data.signature,
+      },
+      client
+    );
+    const commitment = (await ResolutionCommitmentModel.markRevealed(
+      existing.id,
+      submission.id,
+      client
+    ))!;
+
+    let newBalance: number | null = null;
+    const bond = Number(existing.bond_amount);
+    if (bond > 0) {
+      const wallet = await CommonTradeOperations.getWalletWithLock(
+        client,
+        data.userId
+      );
+      newBalance = Number(wallet.balance_usdc) + bond;
+      await CommonTradeOperations.updateWalletBalance(
+        client,
+        wallet.id,
+        newBalance
+      );
+    }
+    await LedgerService.transfer(
+      client,
+      "resolution_bond_return",
+      LedgerAccounts.escrow(data.userId),
+      LedgerAccounts.user(data.userId),
+      bond,
+      { reference_type: "resolution_commitment", reference_id: commitment.id }
+    );
+
+    return { submission, commitment, newBalance };
+  }
+
+  /**
+   * Forfeit the bonds of commitments that weren't revealed in time.
+   * Forfeited bonds go to the protocol. Returns the forfeited commitments.
+   */
+  static async forfeitUnrevealed(
+    client: PoolClient,
+    market: any
+  ): Promise<ResolutionCommitment[]> {
+    if (this.getSchedule(market).phase !== "closed") {
+      throw new TransactionError(400, "Reveal phase has not ended");
+    }
+
+    const forfeited = await ResolutionCommitmentModel.forfeitUnrevealed(
+      market.id,
+      client
+    );
+    const total = forfeited.reduce((sum, c) => sum + Number(c.bond_amount), 0);
+    if (total > 0) {
+      await MoodringModel.recordFees(0, total, client);
+      await LedgerService.post(client, {
+        transaction_type: "resolution_bond_forfeit",
+        reference_type: "market",
+        reference_id: market.id,
+        entries: [
+          ...forfeited.map((c) =>
+            debit(LedgerAccounts.escrow(c.user_id), Number(c.bond_amount))
+          ),
+          credit(LedgerAccounts.protocolFees(), total),
+        ],
+      });
+    }
+    return forfeited;
+  }
+
+  /**
+   * Resolve an option from its revealed submissions once the reveal phase is
+   * over. The caller must hold the market lock. Returns null when nothing was
+   * revealed for the option.
+   */
+  static async tallyOption(
+    client: PoolClient,
+    market: any,
+    option: Option
+  ): Promise<ResolutionResult | null> {
+    const schedule = this.getSchedule(market);
+    if (schedule.phase !== "closed") {
+      throw new TransactionError(400, "Reveal phase has not ended");
+    }
+
+    const submissions = await ResolutionCommitmentModel.findRevealedSubmissions(
+      option.id,
+      client
+    );
+    if (submissions.length === 0) {
+      return null;
+    }
+
+    // Snapshot at the reveal deadline so the trace doesn't depend on when the tally runs
+    const result = ResolutionEngine.resolveMarket(
+      {
+        id: market.id,
+        question: market.question,
+        resolution_mode: ResolutionMode.OPINION,
+        resolution_config: {
+          ...(market.resolution_config || {}),
+          snapshotTimestamp: schedule.reveal_deadline,
+        },
+        outcomes: [...VOTE_OUTCOMES],
+      },
+      submissions
+    );
+
+    await resolveOptionOutcome(client, market, option, {
+      winningSide: result.final_outcome === "YES" ? 1 : 2,
+      reason: `Resolved via OPINION mode commit-reveal tally (${submissions.length} revealed submissions, trace ${result.canonical_hash})`,
+      resolvedBy: ResolutionMode.OPINION,
+      disputeWindowHours: schedule.settings.disputeWindowHours,
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,160 @@
+import { PoolClient } from "pg";
+import { MarketModel } from "../models/Market";
+import { OptionModel, Option } from "../models/Option";
+import { MarketStatus } from "../models/Resolution";
+import { LimitOrderModel } from "../models/LimitOrder";
+import { PositionTriggerModel } from "../models/PositionTrigger";
+import { TransactionError } from "../utils/transaction";
+import { MarketLifecycleService } from "./marketLifecycleService";
+
+/**
+ * Resolve an option from a background tally (CONSENSUS juror votes, OPINION
+ * reveals) and update the market's resolution progress.
+ * The caller must hold the market lock. Payouts are made by the
+ * ResolutionProcessor once the dispute deadline passes.
+ */
+export const resolveOptionOutcome = async (
+  client: PoolClient,
+  market: { id: string; status: MarketStatus },
+  option: Option,
+  resolution: {
+    winningSide: number;
+    reason: string;
+    resolvedBy: string;
+    disputeWindowHours: number;
+  }
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await OptionModel.update(
+    option.id,
+    {
+      is_resolved: true,
+      winning_side: resolution.winningSide,
+      resolved_at: now,
+      resolved_reason: resolution.reason,
+      resolved_by: resolution.resolvedBy,
+      dispute_deadline: now + resolution.disputeWindowHours * 60 * 60,
+    },
+    client
+  );
+
+  await LimitOrderModel.expireByOption(option.id, "Option resolved", client);
+  await PositionTriggerModel.expireByOption(
+    option.id,
+    "Option resolved",
+    client
+  );
+
+  const allOptions = await OptionModel.findByMarketId(market.id, client);
+  const resolvedCount = allOptions.filter((opt) => opt.is_resolved).length;
+
+  if (resolvedCount === allOptions.length) {
+    await MarketModel.update(
+      market.id,
+      { resolved_options: resolvedCount, is_resolved: true },
+      client
+    );
+    await MarketLifecycleService.transition(
+      client,
+      market.id,
+      MarketStatus.RESOLVED,
+      { reason: resolution.reason }
+    );
+    await LimitOrderModel.expireByMarket(market.id, "Market resolved", client);
+    await PositionTriggerModel.expireByMarket(
+      market.id,
+      "Market resolved",
+      client
+    );
+    market.status = MarketStatus.RESOLVED;
+  } else {
+    await MarketModel.update(
+      market.id,
+      { resolved_options: resolvedCount },
+      client
+    );
+    if (market.status === MarketStatus.OPEN) {
+      await MarketLifecycleService.transition(
+        client,
+        market.id,
+        MarketStatus.RESOLVING,
+        { reason: resolution.reason }
+      );
+      market.status = MarketStatus.RESOLVING;
+    }
+  }
+};
+
+/**
+ * Exclusive markets resolve exactly one option YES. Rejects a resolution that
+ * would give the market a second winner, or leave it with none.
+ * The caller must hold the market lock.
+ */
+export const validateExclusiveResolution = async (
+  client: PoolClient,
+  marketId: string,
+  optionId: string,
+  winningSide: number
+): Promise<void> => {
+  const options = await OptionModel.findByMarketId(marketId, client);
+  const others = options.filter((opt) => opt.id !== optionId);
+
+  if (winningSide === 1) {
+    if (others.some((opt) => opt.is_resolved && opt.winning_side === 1)) {
+      throw new TransactionError(
+        400,
+        "Another outcome of this exclusive market has already won"
+      );
+    }
+  } else if (others.every((opt) => opt.is_resolved && opt.winning_side !== 1)) {
+    throw new TransactionError(
+      400,
+      "The last unresolved outcome of an exclusive market must resolve YES"
+    );
+  }
+};
+
+/**
+ * Resolve the remaining options of an exclusive market NO once its winning
+ * option has been resolved. The caller must hold the market lock.
+ * Returns the number of options resolved.
+ */
+export const resolveExclusiveLosers = async (
+  client: PoolClient,
+  marketId: string,
+  winningOptionId: string,
+  resolution: {
+    resolvedBy: string;
+    disputeDeadline: number;
+  }
+): Promise<number> => {
+  const now = Math.floor(Date.now() / 1000);
+  const options = await OptionModel.findByMarketId(marketId, client);
+  const losers = options.filter(
+    (opt) => opt.id !== winningOptionId && !opt.is_resolved
+  );
+
+  for (const option of losers) {
+    await OptionModel.update(
+      option.id,
+      {
+        is_resolved: true,
+        winning_side: 2,
+        resolved_at: now,
+        resolved_reason: "Another outcome of this exclusive market won",
+        resolved_by: resolution.resolvedBy,
+        dispute_deadline: resolution.disputeDeadline,
+      },
+      client
+    );
+    await LimitOrderModel.expireByOption(option.id, "Option resolved", client);
+    await PositionTriggerModel.expireByOption(
+      option.id,
+      "Option resolved",
+      client
+    );
+  }
+
+  return losers.length;
+};
@@ -0,0 +1,285 @@
+import { UUID } from "crypto";
+import { QueryResult } from "pg";
+import { pool } from "../db";
+import {
+  PortfolioSnapshotInput,
+  PortfolioSnapshotModel,
+} from "../models/PortfolioSnapshot";
+import {
+  EQUITY_INTERVALS,
+  EquityCurve,
+  EquityInterval,
+  OptionPrice,
+  buildEquityCurve,
+  equityBucketStart,
+  valuePortfolio,
+} from "../utils/equity";
+
+const DEFAULT_POLL_INTERVAL_MS = 15 * 60_000; // Refresh the current buckets every 15 minutes
+const BATCH_SIZE = 200;
+const HOURLY_RETENTION_SECONDS = 90 * 86400; // Daily snapshots are kept indefinitely
+
+type WalletBalance = { user_id: UUID; balance_usdc: string };
+
+export class PortfolioSnapshotService {
+  /**
+   * Value every user's portfolio and store it in the current hourly and
+   * daily buckets. Returns the number of users snapshotted.
+   */
+  static async snapshotAll(
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<number> {
+    let count = 0;
+    let lastUserId: string | null = null;
+
+    for (;;) {
+      const walletsResult: QueryResult<WalletBalance> = await pool.query(
+        `SELECT user_id, balance_usdc FROM wallets
+         WHERE $1::uuid IS NULL OR user_id > $1::uuid
+         ORDER BY user_id ASC
+         LIMIT $2`,
+        [lastUserId, BATCH_SIZE]
+      );
+      const wallets = walletsResult.rows;
+      if (wallets.length === 0) {
+        break;
+      }
+
+      const snapshots = await this.valueUsers(wallets);
+      for (const interval of EQUITY_INTERVALS) {
+        await PortfolioSnapshotModel.upsertMany(
+          interval,
+          equityBucketStart(now, interval),
+          snapshots
+        );
+      }
+
+      count += snapshots.length;
+      lastUserId = wallets[wallets.length - 1].user_id;
+      if (wallets.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    await PortfolioSnapshotModel.deleteOlderThan(
+      "1h",
+      now - HOURLY_RETENTION_SECONDS
+    );
+
+    return count;
+  }
+
+  /**
+   * Value the portfolios of a batch of wallets
+   */
+  private static async valueUsers(
+    wallets: WalletBalance[]
+  ): Promise<PortfolioSnapshotInput[]> {
+    const userIds = wallets.map((wallet) => wallet.user_id);
+
+    const [
+      positionsResult,
+      liquidityResult,
+      depositsResult,
+      withdrawalsResult,
+    ] = await Promise.all([
+      pool.query(
+        `SELECT up.user_id, up.option_id, up.yes_shares, up.no_shares,
+                  up.total_yes_cost, up.total_no_cost, up.realized_pnl,
+                  mo.is_resolved AS option_resolved, mo.winning_side,
+                  mo.resolved_value, m.is_scalar, m.scalar_lower_bound,
+                  m.scalar_upper_bound
+           FROM user_positions up
+           LEFT JOIN market_options mo ON mo.id = up.option_id
+           LEFT JOIN markets m ON m.id = mo.market_id
+           WHERE up.user_id = ANY($1)`,
+        [userIds]
+      ),
+      pool.query(
+        `SELECT lp.user_id, lp.shares, lp.deposited_amount,
+                  m.is_resolved AS market_resolved, m.total_shared_lp_shares,
+                  m.shared_pool_liquidity, m.accumulated_lp_fees
+           FROM lp_positions lp
+           LEFT JOIN markets m ON m.id = lp.market_id
+           WHERE lp.user_id = ANY($1) AND lp.shares > 0`,
+        [userIds]
+      ),
+      pool.query(
+        `SELECT user_id, COALESCE(SUM(amount), 0)::bigint AS total
+           FROM wallet_deposits
+           WHERE user_id = ANY($1)
+           GROUP BY user_id`,
+        [userIds]
+      ),
+      pool.query(
+        `SELECT user_id, COALESCE(SUM(amount), 0)::bigint AS total
+           FROM withdrawals
+           WHERE user_id = ANY($1) AND token_symbol = 'USDC'
+             AND status NOT IN ('failed', 'cancelled')
+           GROUP BY user_id`,
+        [userIds]
+      ),
+    ]);
+
+    // Latest price of every option with open shares
+    const openOptionIds = [
+      ...new Set(
+        positionsResult.rows
+          .filter(
+            (row) =>
+              !row.option_resolved &&
+              (Number(row.yes_shares) > 0 || Number(row.no_shares) > 0)
+          )
+          .map((row) => row.option_id)
+      ),
+    ];
+    const prices = new Map<string, OptionPrice>();
+    if (openOptionIds.length > 0) {
+      const pricesResult = await pool.query(
+        `SELECT DISTINCT ON (option_id) option_id, yes_price, no_price
+         FROM price_snapshots
+         WHERE option_id = ANY($1)
+         ORDER BY option_id, created_at DESC`,
+        [openOptionIds]
+      );
+      for (const row of pricesResult.rows) {
+        prices.set(row.option_id, {
+          yes_price: Number(row.yes_price),
+          no_price: Number(row.no_price),
+        });
+      }
+    }
+
+    const groupByUser = <T extends { user_id: string }>(rows: T[]) => {
+      const grouped = new Map<string, T[]>();
+      for (const row of rows) {
+        const list = grouped.get(row.user_id) || [];
+        list.push(row);
+        grouped.set(row.user_id, list);
+      }
+      return grouped;
+    };
+    const positionsByUser = groupByUser(positionsResult.rows);
+    const liquidityByUser = groupByUser(liquidityResult.rows);
+    const deposits = new Map<string, number>(
+      depositsResult.rows.map((row) => [row.user_id, Number(row.total)])
+    );
+    const withdrawals = new Map<string, number>(
+      withdrawalsResult.rows.map((row) => [row.user_id, Number(row.total)])
+    );
+
+    return wallets.map((wallet) => ({
+      user_id: wallet.user_id,
+      ...valuePortfolio({
+        cashBalance: Number(wallet.balance_usdc || 0),
+        positions: positionsByUser.get(wallet.user_id) || [],
+        prices,
+        liquidity: liquidityByUser.get(wallet.user_id) || [],
+        netDeposits:
+          (deposits.get(wallet.user_id) || 0) -
+          (withdrawals.get(wallet.user_id) || 0),
+      }),
+    }));
+  }
+
+  /**
+   * A user's equity curve between two times
+   */
+  static async getEquityCurve(
+    userId: UUID | string,
+    interval: EquityInterval,
+    from: number,
+    to: number
+  ): Promise<EquityCurve> {
+    const snapshots = await PortfolioSnapshotModel.findByUser(
+      userId,
+      interval,
+      from,
+      to
+    );
+    return buildEquityCurve(snapshots);
+  }
+}
+
+/**
+ * Takes portfolio snapshots on a schedule
+ */
+class PortfolioSnapshotProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[PortfolioSnapshots] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const count = await PortfolioSnapshotService.snapshotAll();
+      console.log(`[PortfolioSnapshots] Snapshotted ${count} portfolio(s)`);
+    } catch (error) {
+      console.error("[PortfolioSnapshots] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+}
+
+let processorInstance: PortfolioSnapshotProcessor | null = null;
+
+export const startPortfolioSnapshotProcessor =
+  (): PortfolioSnapshotProcessor | null => {
+    if (process.env.NODE_ENV === "test") {
+      console.log("[PortfolioSnapshots] Disabled in test environment");
+      return null;
+    }
+
+    if (processorInstance) {
+      return processorInstance;
+    }
+
+    const pollIntervalMs =
+      Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) ||
+      DEFAULT_POLL_INTERVAL_MS;
+
+    processorInstance = new PortfolioSnapshotProcessor(pollIntervalMs);
+    processorInstance.start();
+
+    return processorInstance;
+  };
@@ -0,0 +1,453 @@
+import { UUID } from "crypto";
+import { pool } from "../db";
+import { withTransaction, TransactionError } from "../utils/transaction";
+import { calculateFees, getMoodringData } from "../utils/tradeUtils";
+import { isTradingClosed } from "../utils/marketLifecycle";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { TradeService, SellTradeResult } from "./tradeService";
+import { LimitOrderService } from "./limitOrderService";
+import { withTradeQueue } from "./tradeQueue";
+import { publishExecutedTrade } from "./tradeEvents";
+import { CopyTradingService } from "./copyTradingService";
+import {
+  PositionTrigger,
+  PositionTriggerModel,
+} from "../models/PositionTrigger";
+import { Trade, TradeModel } from "../models/Trade";
+import { NotificationModel } from "../models/Notification";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000; // Check every 5 seconds
+// Periodically re-check every active trigger, e.g. ones skipped while trading was paused
+const FULL_SWEEP_INTERVAL_SECONDS = 300;
+
+interface TriggerExecution {
+  trigger: PositionTrigger;
+  trade: Trade;
+  result: SellTradeResult;
+}
+
+/**
+ * Whether a trigger fires at the given side price (micro-USDC per share)
+ */
+export const isTriggerHit = (
+  trigger: Pick<PositionTrigger, "trigger_type" | "trigger_price">,
+  price: number
+): boolean => {
+  return trigger.trigger_type === "stop_loss"
+    ? price <= Number(trigger.trigger_price)
+    : price >= Number(trigger.trigger_price);
+};
+
+/**
+ * Service that executes stop-loss / take-profit triggers on user positions
+ * - Watches options whose price moved (new rows from PriceSnapshotModel.recordPrice)
+ * - Sells the configured share of the position via TradeService.executeSell
+ * - Notifies the user whether the trigger executed or failed
+ */
+class PositionTriggerProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+  // Unix seconds of the last completed scan; 0 forces a full sweep
+  private lastCheckedAt = 0;
+  private lastFullSweepAt = 0;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(
+      `[PositionTriggerProcessor] Started (interval=${this.pollIntervalMs}ms)`
+    );
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.processTriggers();
+    } catch (error) {
+      console.error("[PositionTriggerProcessor] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+
+  private async processTriggers() {
+    const scanStartedAt = Math.floor(Date.now() / 1000);
+    const fullSweep =
+      scanStartedAt - this.lastFullSweepAt >= FULL_SWEEP_INTERVAL_SECONDS;
+
+    const options = await PositionTriggerModel.findOptionsWithPriceChanges(
+      fullSweep ? 0 : this.lastCheckedAt
+    );
+
+    for (const { option_id, market_id } of options) {
+      try {
+        await withTradeQueue(market_id, option_id, () =>
+          this.evaluateOption(market_id, option_id)
+        );
+      } catch (error: any) {
+        console.error(
+          `[PositionTriggerProcessor] Error evaluating option ${option_id}:`,
+          error.message
+        );
+      }
+    }
+
+    // Snapshots written in the same second are picked up again next scan (>=)
+    this.lastCheckedAt = scanStartedAt;
+    if (fullSweep) {
+      this.lastFullSweepAt = scanStartedAt;
+    }
+  }
+
+  /**
+   * Fire every active trigger on an option whose condition is met.
+   * Must run inside the trade queue for the market/option.
+   */
+  private async evaluateOption(marketId: UUID, optionId: UUID) {
+    const triggers = await PositionTriggerModel.findActiveByOption(optionId);
+
+    for (const trigger of triggers) {
+      // Re-read state for each trigger since earlier executions move the price
+      const stateResult = await pool.query(
+        `SELECT o.is_resolved AS option_resolved,
+                m.is_resolved AS market_resolved
+         FROM market_options o
+         JOIN markets m ON m.id = o.market_id
+         WHERE o.id = $1`,
+        [optionId]
+      );
+      const state = stateResult.rows[0];
+      if (!state || state.option_resolved || state.market_resolved) {
+        return;
+      }
+
+      const price = await LimitOrderService.getSidePrice(
+        pool,
+        marketId,
+        optionId,
+        trigger.side
+      );
+      if (!isTriggerHit(trigger, price)) {
+        continue;
+      }
+
+      try {
+        const execution = await this.executeTrigger(
+          marketId,
+          optionId,
+          trigger.id
+        );
+        if (execution) {
+          await this.recordExecution(execution);
+        }
+      } catch (error: any) {
+        if (!(error instanceof TransactionError)) {
+          throw error;
+        }
+        // Halts, breaker trips, slippage and liquidity rejections pass;
+        // the trigger stays active and is retried on the next price move
+        if (await this.canNeverExecute(trigger)) {
+          await this.recordFailure(trigger, error.message);
+        } else {
+          console.log(
+            `[PositionTriggerProcessor] Trigger ${trigger.id} deferred: ${error.message}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute a single trigger in its own transaction. Returns null if the
+   * trigger is no longer active or its condition no longer holds.
+   */
+  private async executeTrigger(
+    marketId: UUID,
+    optionId: UUID,
+    triggerId: UUID
+  ): Promise<TriggerExecution | null> {
+    return withTransaction(async (client) => {
+      const marketData = await CommonTradeOperations.getMarketWithLock(
+        client,
+        marketId
+      );
+      const optionData = await CommonTradeOperations.getOptionWithLock(
+        client,
+        optionId
+      );
+      const trigger = await PositionTriggerModel.findActiveByIdForUpdate(
+        triggerId,
+        client
+      );
+      if (!trigger) {
+        return null;
+      }
+
+      const price = await LimitOrderService.getSidePrice(
+        client,
+        marketId,
+        optionId,
+        trigger.side
+      );
+      if (!isTriggerHit(trigger, price)) {
+        return null;
+      }
+
+      const position = await CommonTradeOperations.getUserPositionWithLock(
+        client,
+        trigger.user_id,
+        optionId
+      );
+      const shares =
+        trigger.side === "yes"
+          ? Number(position?.yes_shares || 0)
+          : Number(position?.no_shares || 0);
+      const quantity = Math.floor(
+        (shares * Number(trigger.sell_percentage)) / 100
+      );
+      if (quantity <= 0) {
+        throw new TransactionError(400, "No shares left to sell");
+      }
+
+      // Expected net payout at the trigger price; executeSell enforces the
+      // trigger's slippage tolerance against it
+      const moodring = await getMoodringData(client);
+      const expectedGross = Math.floor(
+        (quantity * Number(trigger.trigger_price)) / 1_000_000
+      );
+      const { totalFee } = calculateFees(
+        expectedGross,
+        Number(moodring.protocol_fee_rate),
+        Number(moodring.creator_fee_rate),
+        Number(moodring.lp_fee_rate)
+      );
+
+      const result = await TradeService.executeSell(
+        client,
+        trigger.user_id,
+        marketId,
+        optionId,
+        trigger.side === "yes" ? quantity : 0,
+        trigger.side === "no" ? quantity : 0,
+        expectedGross - totalFee,
+        Number(trigger.slippage_bps)
+      );
+
+      const trade = await TradeModel.create(
+        {
+          user_id: trigger.user_id,
+          market_id: marketId,
+          option_id: optionId,
+          trade_type: "sell",
+          side: result.side,
+          quantity: result.quantity,
+          price_per_share: result.pricePerShare,
+          total_cost: result.netPayout,
+          fees_paid: result.totalFee,
+          status: "completed",
+        },
+        client
+      );
+
+      const executed = await PositionTriggerModel.markExecuted(
+        trigger.id,
+        trade.id,
+        result.quantity,
+        result.netPayout,
+        client
+      );
+
+      return { trigger: executed!, trade, result };
+    });
+  }
+
+  /**
+   * Post-commit bookkeeping for an executed trigger (mirrors the sell endpoint)
+   */
+  private async recordExecution(execution: TriggerExecution) {
+    const { trigger, trade, result } = execution;
+    const label =
+      trigger.trigger_type === "stop_loss" ? "Stop-Loss" : "Take-Profit";
+
+    await publishExecutedTrade({
+      userId: trigger.user_id,
+      marketId: trigger.market_id,
+      optionId: trigger.option_id,
+      trade,
+      result,
+      metadata: { position_trigger_id: trigger.id },
+    });
+
+    try {
+      await NotificationModel.create({
+        user_id: trigger.user_id,
+        notification_type: "trade_executed",
+        title: `${label} Triggered`,
+        message: `Your ${label.toLowerCase()} sold ${
+          result.quantity / 1_000_000
+        } ${result.side.toUpperCase()} shares for ${
+          result.netPayout / 1_000_000
+        } USDC.`,
+        entity_type: "trade",
+        entity_id: trade.id,
+        metadata: {
+          market_id: trigger.market_id,
+          option_id: trigger.option_id,
+          position_trigger_id: trigger.id,
+          trigger_type: trigger.trigger_type,
+          trigger_price: Number(trigger.trigger_price),
+          quantity: result.quantity,
+          net_payout: result.netPayout,
+          realized_pnl: result.realizedPnl,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[PositionTriggerProcessor] Error notifying for trigger ${trigger.id}:`,
+        error
+      );
+    }
+
+    // Not awaited: matching is queued behind this option's current operation
+    LimitOrderService.matchMarket(trigger.market_id).catch((error) => {
+      console.error("Limit order matching error:", error);
+    });
+
+    CopyTradingService.enqueueCopies(trade, result.sharesBefore).catch(
+      (error) => {
+        console.error("Copy trade enqueue error:", error);
+      }
+    );
+  }
+
+  /**
+   * Whether a trigger that failed to execute never can: its market is gone,
+   * resolved, voided or closed, or the position it sells is empty
+   */
+  private async canNeverExecute(trigger: PositionTrigger): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT m.is_resolved AS market_resolved,
+              m.is_voided,
+              m.expiration_timestamp,
+              o.is_resolved AS option_resolved,
+              p.yes_shares,
+              p.no_shares
+       FROM market_options o
+       JOIN markets m ON m.id = o.market_id
+       LEFT JOIN user_positions p
+         ON p.option_id = o.id AND p.user_id = $2
+       WHERE o.id = $1`,
+      [trigger.option_id, trigger.user_id]
+    );
+    const state = result.rows[0];
+    if (
+      !state ||
+      state.market_resolved ||
+      state.is_voided ||
+      state.option_resolved ||
+      isTradingClosed(state)
+    ) {
+      return true;
+    }
+
+    const shares =
+      trigger.side === "yes"
+        ? Number(state.yes_shares || 0)
+        : Number(state.no_shares || 0);
+    return Math.floor((shares * Number(trigger.sell_percentage)) / 100) <= 0;
+  }
+
+  /**
+   * Close a trigger that fired but can never be executed and tell the user
+   */
+  private async recordFailure(trigger: PositionTrigger, reason: string) {
+    const label =
+      trigger.trigger_type === "stop_loss" ? "Stop-Loss" : "Take-Profit";
+
+    const failed = await PositionTriggerModel.markClosed(
+      trigger.id,
+      "failed",
+      reason,
+      pool
+    );
+    if (!failed) {
+      return;
+    }
+
+    console.log(
+      `[PositionTriggerProcessor] Trigger ${trigger.id} failed: ${reason}`
+    );
+
+    await NotificationModel.create({
+      user_id: trigger.user_id,
+      notification_type: "trade_executed",
+      title: `${label} Not Executed`,
+      message: `Your ${label.toLowerCase()} was triggered but could not be executed: ${reason}`,
+      entity_type: "option",
+      entity_id: trigger.option_id,
+      metadata: {
+        market_id: trigger.market_id,
+        option_id: trigger.option_id,
+        position_trigger_id: trigger.id,
+        trigger_type: trigger.trigger_type,
+        trigger_price: Number(trigger.trigger_price),
+        failure_reason: reason,
+      },
+    });
+  }
+}
+
+let processorInstance: PositionTriggerProcessor | null = null;
+
+export const startPositionTriggerProcessor =
+  (): PositionTriggerProcessor | null => {
+    if (process.env.NODE_ENV === "test") {
+      console.log("[PositionTriggerProcessor] Disabled in test environment");
+      return null;
+    }
+
+    if (processorInstance) {
+      return processorInstance;
+    }
+
+    const pollIntervalMs =
+      Number(process.env.POSITION_TRIGGER_POLL_INTERVAL_MS) ||
+      DEFAULT_POLL_INTERVAL_MS;
+
+    processorInstance = new PositionTriggerProcessor(pollIntervalMs);
+    processorInstance.start();
+
+    return processorInstance;
+  };
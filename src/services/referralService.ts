@@ -0,0 +1,184 @@
+import { UUID } from "crypto";
+import { PoolClient } from "pg";
+import { TransactionError } from "../utils/transaction";
+import { CommonTradeOperations } from "./commonTradeOperations";
+import { LedgerService } from "./ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
+import { MoodringModel } from "../models/Moodring";
+import { ReferralModel, Referral, ReferralPayout } from "../models/Referral";
+import { UserStatsModel } from "../models/UserStats";
+import { NotificationModel } from "../models/Notification";
+import { AccountLinkService } from "./accountLinkService";
+
+/**
+ * Referral program.
+ *
+ * New users can pass a referral code when they first authenticate (magic link or
+ * wallet). From then on, a share of the protocol fee on every trade the referred
+ * user makes (moodring.referral_fee_share_bps) accrues to the referrer in
+ * referral_rewards. Referrers claim accrued rewards to their wallet balance.
+ * Referrals between linked accounts (same device or withdrawal destination,
+ * see AccountLinkService) are never recorded and earn nothing.
+ */
+export class ReferralService {
+  /**
+   * Link a newly created user to the owner of a referral code.
+   * Returns null when referrals are disabled or the code can't be applied.
+   */
+  static async captureReferral(
+    referredId: UUID | string,
+    code: string
+  ): Promise<Referral | null> {
+    if (!code || !(await MoodringModel.isFeatureEnabled("referrals"))) {
+      return null;
+    }
+
+    const referralCode = await ReferralModel.findCodeByCode(code.trim());
+    if (!referralCode || referralCode.user_id === referredId) {
+      return null;
+    }
+
+    if (await ReferralModel.hasBeenReferred(referredId)) {
+      return null;
+    }
+
+    if (
+      await AccountLinkService.isSelfDealing(
+        referralCode.user_id,
+        String(referredId)
+      )
+    ) {
+      console.warn(
+        `[Referrals] Ignoring referral of ${referredId} by linked account ${referralCode.user_id}`
+      );
+      return null;
+    }
+
+    const referral = await ReferralModel.recordReferral(
+      referralCode.id,
+      referralCode.user_id,
+      referredId
+    );
+
+    await UserStatsModel.increment(referralCode.user_id, {
+      referrals_count: 1,
+    });
+
+    try {
+      await NotificationModel.create({
+        user_id: referralCode.user_id,
+        notification_type: "referral_bonus",
+        title: "New Referral",
+        message:
+          "Someone joined with your referral code. You'll earn a share of the fees on their trades.",
+        entity_type: "user",
+        entity_id: referredId as UUID,
+        metadata: { referral_id: referral.id },
+      });
+    } catch (error) {
+      console.error(
+        `[Referrals] Error notifying referrer ${referralCode.user_id}:`,
+        error
+      );
+    }
+
+    return referral;
+  }
+
+  /**
+   * Accrue the referrer's share of the protocol fee on a trade.
+   * Must run inside the trade transaction; returns the reward in micro-USDC
+   * (0 when the trader wasn't referred or referrals are disabled), which the
+   * caller deducts from the protocol fee it records.
+   */
+  static async accrueTradeReward(
+    client: PoolClient,
+    userId: UUID,
+    marketId: UUID,
+    optionId: UUID,
+    tradeType: "buy" | "sell",
+    protocolFee: number,
+    moodring: any
+  ): Promise<number> {
+    if (!moodring.enable_referrals || protocolFee <= 0) {
+      return 0;
+    }
+
+    const shareBps = Number(moodring.referral_fee_share_bps || 0);
+    const reward = Math.floor((protocolFee * shareBps) / 10000);
+    if (reward <= 0) {
+      return 0;
+    }
+
+    const referral = await ReferralModel.findByReferredId(userId, client);
+    if (!referral) {
+      return 0;
+    }
+
+    // Accounts can be linked after the referral was recorded
+    if (
+      await AccountLinkService.isSelfDealing(
+        referral.referrer_id,
+        userId,
+        client
+      )
+    ) {
+      return 0;
+    }
+
+    await ReferralModel.accrueReward(
+      referral,
+      {
+        market_id: marketId,
+        option_id: optionId,
+        trade_type: tradeType,
+        protocol_fee: protocolFee,
+        reward_amount: reward,
+      },
+      client
+    );
+
+    return reward;
+  }
+
+  /**
+   * Move all unclaimed rewards to the user's wallet balance
+   */
+  static async claimRewards(
+    client: PoolClient,
+    userId: UUID
+  ): Promise<{ payout: ReferralPayout; newBalance: number }> {
+    const wallet = await CommonTradeOperations.getWalletWithLock(
+      client,
+      userId
+    );
+
+    const payout = await ReferralModel.createPayout(userId, client);
+    if (!payout) {
+      throw new TransactionError(400, "No referral rewards to claim");
+    }
+
+    const newBalance = Number(wallet.balance_usdc) + Number(payout.amount);
+    await CommonTradeOperations.updateWalletBalance(
+      client,
+      wallet.id,
+      newBalance
+    );
+    await LedgerService.transfer(
+      client,
+      "referral_claim",
+      LedgerAccounts.referralRewards(),
+      LedgerAccounts.user(userId),
+      Number(payout.amount),
+      { reference_type: "referral_payout", reference_id: payout.id }
+    );
+
+    await UserStatsModel.increment(
+      userId,
+      { referral_earnings: Number(payout.amount) },
+      client
+    );
+
+    return { payout, newBalance };
+  }
+}
@@ -1,5 +1,9 @@
 import { createHash } from "crypto";
-import { ResolutionMode, ResolutionSubmission } from "../models/Resolution";
+import {
+  ResolutionConfig,
+  ResolutionMode,
+  ResolutionSubmission,
+} from "../models/Resolution";
 
 export interface ResolutionResult {
   final_outcome: string;
@@ -7,6 +11,55 @@ export interface ResolutionResult {
   canonical_hash: string;
 }
 
+/**
+ * A juror on a CONSENSUS market panel
+ */
+export interface ConsensusJuror {
+  resolver_id: string;
+  user_id: string;
+  bond_committed: number;
+}
+
+export type ConsensusSettings = Required<
+  Pick<
+    ResolutionConfig,
+    | "quorumSize"
+    | "minJurors"
+    | "consensusThreshold"
+    | "minoritySlashBps"
+    | "commitWindowHours"
+    | "revealWindowHours"
+    | "bondAmount"
+    | "disputeWindowHours"
+  >
+>;
+
+const DEFAULT_MIN_JURORS = 3;
+const DEFAULT_CONSENSUS_THRESHOLD = 0.5;
+const DEFAULT_MINORITY_SLASH_BPS = 1000; // 10% of the committed bond
+const DEFAULT_COMMIT_WINDOW_HOURS = 24;
+const DEFAULT_REVEAL_WINDOW_HOURS = 24;
+const DEFAULT_JUROR_BOND = 10 * 1_000_000; // 10 USDC
+const DEFAULT_DISPUTE_WINDOW_HOURS = 2;
+
+/**
+ * Recursively sort object keys so equal traces always serialize identically
+ */
+const canonicalize = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce((sorted: Record<string, any>, key) => {
+        sorted[key] = canonicalize(value[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+};
+
 /**
  * Pure, deterministic resolution engine.
  * No randomness, no system clock, no DB access.
@@ -21,8 +74,9 @@ export class ResolutionEngine {
       id: string;
       question: string;
       resolution_mode: ResolutionMode;
-      resolution_config?: any; // Optional, only used by OPINION mode for snapshotTimestamp
+      resolution_config?: any; // Used by OPINION (snapshotTimestamp) and CONSENSUS
       outcomes: string[]; // Array of possible outcomes
+      jurors?: ConsensusJuror[]; // CONSENSUS only: the market's juror panel
     },
     submissions: ResolutionSubmission[]
   ): ResolutionResult {
@@ -33,6 +87,8 @@ export class ResolutionEngine {
         return AuthorityResolver.resolve(market, submissions);
       case ResolutionMode.OPINION:
         return OpinionResolver.resolve(market, submissions);
+      case ResolutionMode.CONSENSUS:
+        return ConsensusResolver.resolve(market, submissions);
       default:
         throw new Error(`Unknown resolution mode: ${market.resolution_mode}`);
     }
@@ -45,6 +101,40 @@ export class ResolutionEngine {
     const canonical = JSON.stringify(trace, Object.keys(trace).sort());
     return createHash("sha256").update(canonical).digest("hex");
   }
+
+  /**
+   * Hash of a trace with keys sorted at every level. Used for CONSENSUS
+   * traces, whose nested juror objects the top-level key list above would
+   * drop; other modes keep generateCanonicalHash so their stored hashes
+   * still verify.
+   */
+  static generateDeepCanonicalHash(trace: any): string {
+    const canonical = JSON.stringify(canonicalize(trace));
+    return createHash("sha256").update(canonical).digest("hex");
+  }
+
+  /**
+   * Fill in CONSENSUS defaults for a market's resolution config
+   */
+  static getConsensusSettings(
+    config?: ResolutionConfig | null
+  ): ConsensusSettings {
+    const minJurors = config?.minJurors ?? DEFAULT_MIN_JURORS;
+    return {
+      minJurors,
+      quorumSize: config?.quorumSize ?? minJurors,
+      consensusThreshold:
+        config?.consensusThreshold ?? DEFAULT_CONSENSUS_THRESHOLD,
+      minoritySlashBps: config?.minoritySlashBps ?? DEFAULT_MINORITY_SLASH_BPS,
+      commitWindowHours:
+        config?.commitWindowHours ?? DEFAULT_COMMIT_WINDOW_HOURS,
+      revealWindowHours:
+        config?.revealWindowHours ?? DEFAULT_REVEAL_WINDOW_HOURS,
+      bondAmount: config?.bondAmount ?? DEFAULT_JUROR_BOND,
+      disputeWindowHours:
+        config?.disputeWindowHours ?? DEFAULT_DISPUTE_WINDOW_HOURS,
+    };
+  }
 }
 
 /**
@@ -191,3 +281,128 @@ class OpinionResolver {
     };
   }
 }
+
+/**
+ * CONSENSUS: Bonded jurors vote, the outcome needs quorum and threshold.
+ * Jurors who voted for another outcome, or did not reveal a vote, are slashed.
+ */
+class ConsensusResolver {
+  static resolve(
+    market: {
+      resolution_config?: any;
+      outcomes: string[];
+      jurors?: ConsensusJuror[];
+    },
+    submissions: ResolutionSubmission[]
+  ): ResolutionResult {
+    const settings = ResolutionEngine.getConsensusSettings(
+      market.resolution_config
+    );
+    // Sort with plain comparisons (not localeCompare) so ordering never depends on the host
+    const jurors = [...(market.jurors || [])].sort((a, b) =>
+      a.resolver_id < b.resolver_id ? -1 : a.resolver_id > b.resolver_id ? 1 : 0
+    );
+
+    if (jurors.length < settings.minJurors) {
+      throw new Error(
+        `CONSENSUS mode requires at least ${settings.minJurors} jurors (panel has ${jurors.length})`
+      );
+    }
+
+    // One vote per juror; submissions from anyone off the panel are ignored
+    const votesByUser = new Map<string, ResolutionSubmission>();
+    for (const submission of submissions) {
+      if (!market.outcomes.includes(submission.outcome)) {
+        throw new Error(`Invalid outcome: ${submission.outcome}`);
+      }
+      if (!votesByUser.has(submission.user_id)) {
+        votesByUser.set(submission.user_id, submission);
+      }
+    }
+
+    const outcomeCounts: Record<string, number> = {};
+    market.outcomes.forEach((outcome) => (outcomeCounts[outcome] = 0));
+
+    let totalVotes = 0;
+    for (const juror of jurors) {
+      const vote = votesByUser.get(juror.user_id);
+      if (vote) {
+        outcomeCounts[vote.outcome] += 1;
+        totalVotes += 1;
+      }
+    }
+
+    if (totalVotes < settings.quorumSize) {
+      throw new Error(
+        `CONSENSUS quorum not reached: ${totalVotes} of ${settings.quorumSize} required votes revealed`
+      );
+    }
+
+    // Leader in market.outcomes order; a tie for first place is no consensus
+    let finalOutcome = "";
+    let maxCount = 0;
+    let tied = false;
+    for (const outcome of market.outcomes) {
+      if (outcomeCounts[outcome] > maxCount) {
+        maxCount = outcomeCounts[outcome];
+        finalOutcome = outcome;
+        tied = false;
+      } else if (outcomeCounts[outcome] === maxCount) {
+        tied = true;
+      }
+    }
+
+    // Integer comparison in basis points to keep the tally exact
+    const thresholdBps = Math.round(settings.consensusThreshold * 10000);
+    if (tied || maxCount * 10000 < thresholdBps * totalVotes) {
+      throw new Error(
+        `CONSENSUS threshold not reached: no outcome has ${thresholdBps} bps of ${totalVotes} revealed votes`
+      );
+    }
+
+    const jurorResults = jurors.map((juror) => {
+      const vote = votesByUser.get(juror.user_id);
+      const status = !vote
+        ? "absent"
+        : vote.outcome === finalOutcome
+        ? "majority"
+        : "minority";
+      const slashed =
+        status === "majority"
+          ? 0
+          : Math.floor(
+              (Number(juror.bond_committed) * settings.minoritySlashBps) / 10000
+            );
+      return {
+        resolver_id: juror.resolver_id,
+        user_id: juror.user_id,
+        vote_id: vote?.id || null,
+        outcome: vote?.outcome || null,
+        revealed_at: vote?.submitted_at || null,
+        bond_committed: Number(juror.bond_committed),
+        status,
+        slashed,
+      };
+    });
+
+    const trace = {
+      mode: "CONSENSUS",
+      jurors_assigned: jurors.length,
+      min_jurors: settings.minJurors,
+      quorum_size: settings.quorumSize,
+      consensus_threshold_bps: thresholdBps,
+      minority_slash_bps: settings.minoritySlashBps,
+      total_votes: totalVotes,
+      outcome_counts: outcomeCounts,
+      final_outcome: finalOutcome,
+      total_slashed: jurorResults.reduce((sum, j) => sum + j.slashed, 0),
+      jurors: jurorResults,
+    };
+
+    return {
+      final_outcome: finalOutcome,
+      resolution_trace: trace,
+      canonical_hash: ResolutionEngine.generateDeepCanonicalHash(trace),
+    };
+  }
+}
@@ -1,9 +1,23 @@
 import { pool } from "../db";
 import { OptionModel } from "../models/Option";
 import { MarketModel } from "../models/Market";
-import { MarketStatus, MarketResolutionModel } from "../models/Resolution";
+import {
+  MarketStatus,
+  MarketResolutionModel,
+  ResolutionMode,
+} from "../models/Resolution";
 import { ActivityModel } from "../models/Activity";
 import { NotificationModel } from "../models/Notification";
+import { LimitOrderModel } from "../models/LimitOrder";
+import { PositionTriggerModel } from "../models/PositionTrigger";
+import { ResolverBondLedgerModel, ResolverModel } from "../models/Resolver";
+import { ConsensusResolutionService } from "./consensusResolutionService";
+import { OpinionResolutionService } from "./opinionResolutionService";
+import { ResolverReputationService } from "./resolverReputationService";
+import { MarketLifecycleService } from "./marketLifecycleService";
+import { LedgerService } from "./ledgerService";
+import { LedgerAccounts, credit, debit } from "../utils/ledger";
+import { calculateResolvedPayout } from "../utils/scalar";
 import { UUID } from "crypto";
 
 const DEFAULT_POLL_INTERVAL_MS = 60_000; // Check every minute
@@ -12,6 +26,10 @@ const DEFAULT_POLL_INTERVAL_MS = 60_000; // Check every minute
  * Service that automatically processes resolution payouts and resolves markets
  * - Processes payouts for options whose dispute deadline has passed
  * - Auto-resolves markets when all options are resolved
+ * - Tallies CONSENSUS juror votes once the reveal phase ends
+ * - Forfeits unrevealed OPINION commitments and tallies revealed submissions
+ * - Credits resolver reputation once dispute windows close undisputed
+ * - Releases resolver bonds on resolved markets
  */
 class ResolutionProcessor {
   private timer: NodeJS.Timeout | null = null;
@@ -69,11 +87,294 @@ class ResolutionProcessor {
   }
 
   private async processResolutions() {
+    // Tally juror votes on CONSENSUS markets whose reveal phase has ended
+    await this.processConsensusTallies();
+
+    // Forfeit unrevealed commitments and tally reveals on OPINION markets
+    await this.processOpinionReveals();
+
     // Process payouts for options whose dispute deadline has passed
     await this.processOptionPayouts();
 
     // Auto-resolve markets where all options are resolved
     await this.autoResolveMarkets();
+
+    // Credit resolvers whose resolutions went undisputed
+    await this.settleResolverReputation();
+
+    // Return locked resolver bonds once markets are resolved and scored
+    await this.releaseResolverBonds();
+  }
+
+  /**
+   * Tally juror votes for untallied options on expired CONSENSUS markets
+   */
+  private async processConsensusTallies() {
+    const client = await pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const marketsResult = await client.query(
+        `SELECT m.*
+         FROM markets m
+         WHERE m.resolution_mode = $1
+           AND m.is_resolved = FALSE
+           AND m.expiration_timestamp < EXTRACT(EPOCH FROM NOW())::BIGINT
+           AND EXISTS (
+             SELECT 1 FROM market_options o
+             WHERE o.market_id = m.id
+               AND o.is_resolved = FALSE
+               AND NOT EXISTS (
+                 SELECT 1 FROM consensus_tallies t WHERE t.option_id = o.id
+               )
+           )
+         ORDER BY m.expiration_timestamp ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 10`,
+        [ResolutionMode.CONSENSUS]
+      );
+
+      for (const market of marketsResult.rows) {
+        if (ConsensusResolutionService.getSchedule(market).phase !== "closed") {
+          continue;
+        }
+
+        const options = await OptionModel.findByMarketId(market.id, client);
+        for (const option of options) {
+          if (option.is_resolved) {
+            continue;
+          }
+          try {
+            await client.query("SAVEPOINT consensus_tally");
+            const tally = await ConsensusResolutionService.tallyOption(
+              client,
+              market,
+              option
+            );
+            await client.query("RELEASE SAVEPOINT consensus_tally");
+
+            console.log(
+              `[ResolutionProcessor] Consensus tally for option ${option.id}: ${
+                tally.status === "resolved"
+                  ? tally.final_outcome
+                  : `failed (${tally.failure_reason})`
+              }`
+            );
+          } catch (error: any) {
+            await client.query("ROLLBACK TO SAVEPOINT consensus_tally");
+            // Unique violation: the option was already tallied
+            if (error.code !== "23505") {
+              console.error(
+                `[ResolutionProcessor] Error tallying option ${option.id}:`,
+                error.message
+              );
+            }
+          }
+        }
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Once the reveal phase of an OPINION market ends, forfeit the bonds of
+   * unrevealed commitments and resolve options from their revealed submissions
+   */
+  private async processOpinionReveals() {
+    const client = await pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const marketsResult = await client.query(
+        `SELECT m.*
+         FROM markets m
+         WHERE m.resolution_mode = $1
+           AND m.is_resolved = FALSE
+           AND m.expiration_timestamp < EXTRACT(EPOCH FROM NOW())::BIGINT
+           AND EXISTS (
+             SELECT 1
+             FROM resolution_commitments c
+             JOIN market_options o ON o.id = c.option_id
+             WHERE c.market_id = m.id
+               AND (
+                 c.status = 'committed'
+                 OR (c.status = 'revealed' AND o.is_resolved = FALSE)
+               )
+           )
+         ORDER BY m.expiration_timestamp ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 10`,
+        [ResolutionMode.OPINION]
+      );
+
+      for (const market of marketsResult.rows) {
+        if (OpinionResolutionService.getSchedule(market).phase !== "closed") {
+          continue;
+        }
+
+        const forfeited = await OpinionResolutionService.forfeitUnrevealed(
+          client,
+          market
+        );
+        if (forfeited.length > 0) {
+          console.log(
+            `[ResolutionProcessor] Forfeited ${forfeited.length} unrevealed commitments on market ${market.id}`
+          );
+        }
+
+        const options = await OptionModel.findByMarketId(market.id, client);
+        for (const option of options) {
+          if (option.is_resolved) {
+            continue;
+          }
+          try {
+            await client.query("SAVEPOINT opinion_tally");
+            const result = await OpinionResolutionService.tallyOption(
+              client,
+              market,
+              option
+            );
+            await client.query("RELEASE SAVEPOINT opinion_tally");
+
+            if (result) {
+              console.log(
+                `[ResolutionProcessor] Opinion tally for option ${option.id}: ${result.final_outcome}`
+              );
+            }
+          } catch (error: any) {
+            await client.query("ROLLBACK TO SAVEPOINT opinion_tally");
+            console.error(
+              `[ResolutionProcessor] Error tallying option ${option.id}:`,
+              error.message
+            );
+          }
+        }
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Credit the resolvers of options whose dispute deadline has passed
+   * with no open or upheld dispute
+   */
+  private async settleResolverReputation() {
+    const client = await pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const optionsResult = await client.query(
+        `SELECT o.*
+         FROM market_options o
+         WHERE o.is_resolved = TRUE
+           AND o.reputation_settled_at IS NULL
+           AND COALESCE(o.dispute_deadline, 0) < EXTRACT(EPOCH FROM NOW())::BIGINT
+           AND NOT EXISTS (
+             SELECT 1 FROM disputes d
+             WHERE d.option_id = o.id
+               AND d.status IN ('pending', 'reviewed', 'resolved')
+           )
+         ORDER BY o.dispute_deadline ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 50`
+      );
+
+      for (const option of optionsResult.rows) {
+        const credited = await ResolverReputationService.settleUndisputed(
+          client,
+          option
+        );
+        if (credited > 0) {
+          console.log(
+            `[ResolutionProcessor] Credited ${credited} resolvers for undisputed option ${option.id}`
+          );
+        }
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Release locked resolver bonds (minus slashing) on resolved markets once
+   * every option's reputation has been settled, so overturned resolutions can
+   * still be slashed during the dispute window
+   */
+  private async releaseResolverBonds() {
+    const client = await pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const marketsResult = await client.query(
+        `SELECT m.id
+         FROM markets m
+         WHERE m.is_resolved = TRUE
+           AND EXISTS (
+             SELECT 1 FROM market_resolvers mr
+             WHERE mr.market_id = m.id AND mr.released_at IS NULL
+           )
+           AND NOT EXISTS (
+             SELECT 1 FROM market_options o
+             WHERE o.market_id = m.id AND o.reputation_settled_at IS NULL
+           )
+         FOR UPDATE SKIP LOCKED
+         LIMIT 10`
+      );
+
+      for (const market of marketsResult.rows) {
+        const released = await ResolverModel.releaseMarketBonds(
+          market.id,
+          client
+        );
+        for (const assignment of released) {
+          const amount =
+            Number(assignment.bond_committed) - Number(assignment.bond_slashed);
+          if (amount > 0) {
+            await ResolverBondLedgerModel.record(
+              {
+                resolver_id: assignment.resolver_id,
+                entry_type: "release",
+                amount,
+                market_id: market.id,
+                reason: "Market resolved",
+              },
+              client
+            );
+          }
+        }
+        console.log(
+          `[ResolutionProcessor] Released ${released.length} resolver bonds for market ${market.id}`
+        );
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   /**
@@ -172,7 +473,9 @@ class ResolutionProcessor {
 
     // Get market data to check pool liquidity
     const marketResult = await client.query(
-      `SELECT shared_pool_liquidity, base_liquidity_parameter FROM markets WHERE id = $1 FOR UPDATE`,
+      `SELECT shared_pool_liquidity, base_liquidity_parameter,
+              is_scalar, scalar_lower_bound, scalar_upper_bound
+       FROM markets WHERE id = $1 FOR UPDATE`,
       [marketId]
     );
     const marketData = marketResult.rows[0];
@@ -181,6 +484,13 @@ class ResolutionProcessor {
       return;
     }
 
+    // Scalar options pay out by their resolved value
+    const resolution = {
+      ...marketData,
+      winning_side: winningSide,
+      resolved_value: option.resolved_value,
+    };
+
     let currentPoolLiquidity = Number(marketData.shared_pool_liquidity || 0);
     let totalPayout = 0;
     const winnerUpdates: Array<{
@@ -198,13 +508,12 @@ class ResolutionProcessor {
     for (const position of positions) {
       const yesShares = Number(position.yes_shares);
       const noShares = Number(position.no_shares);
-      const winningShares = winningSide === 1 ? yesShares : noShares;
+      const payout = calculateResolvedPayout(resolution, yesShares, noShares);
       const totalCostBasis =
         Number(position.total_yes_cost) + Number(position.total_no_cost);
 
-      if (winningShares > 0) {
+      if (payout > 0) {
         // Winner: gets payout
-        const payout = winningShares;
         const realizedPnl = payout - totalCostBasis;
 
         // Check if pool has enough liquidity
@@ -242,6 +551,18 @@ class ResolutionProcessor {
         [update.payout, update.walletId]
       );
     }
+    await LedgerService.post(client, {
+      transaction_type: "resolution_payout",
+      reference_type: "option",
+      reference_id: optionId,
+      metadata: { market_id: marketId },
+      entries: [
+        debit(LedgerAccounts.marketPool(marketId), totalPayout),
+        ...winnerUpdates.map((update) =>
+          credit(LedgerAccounts.user(update.userId), update.payout)
+        ),
+      ],
+    });
 
     // Update positions for winners - zero out shares and mark as claimed
     for (const update of winnerUpdates) {
@@ -430,10 +751,26 @@ class ResolutionProcessor {
           await client.query(
             `UPDATE markets 
              SET is_resolved = TRUE, 
-                 status = $1,
                  updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT 
-             WHERE id = $2`,
-            [MarketStatus.RESOLVED, market.id]
+             WHERE id = $1`,
+            [market.id]
+          );
+          await MarketLifecycleService.transition(
+            client,
+            market.id,
+            MarketStatus.RESOLVED,
+            { reason: "All options resolved" }
+          );
+
+          await LimitOrderModel.expireByMarket(
+            market.id,
+            "Market resolved",
+            client
+          );
+          await PositionTriggerModel.expireByMarket(
+            market.id,
+            "Market resolved",
+            client
           );
 
           console.log(
@@ -0,0 +1,260 @@
+import { PoolClient } from "pg";
+import { OptionModel, Option } from "../models/Option";
+import { MoodringModel } from "../models/Moodring";
+import { UserModel } from "../models/User";
+import { LedgerService } from "./ledgerService";
+import {
+  LedgerAccounts,
+  LedgerEntryInput,
+  credit,
+  debit,
+} from "../utils/ledger";
+import { ResolutionMode } from "../models/Resolution";
+import { ConsensusTallyModel } from "../models/Consensus";
+import {
+  Resolver,
+  ResolverBondLedgerModel,
+  ResolverModel,
+  ResolverReputationEventModel,
+  ResolverReputationEventType,
+  ResolverType,
+} from "../models/Resolver";
+
+const UNDISPUTED_REPUTATION_GAIN = 1;
+const OVERTURNED_REPUTATION_PENALTY = 10;
+const OVERTURN_SLASH_BPS = 5000; // 50% of the bond still locked on the market
+
+const USER_ID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolver reputation.
+ *
+ * Every option resolution is credited to the resolvers behind it: the user
+ * who submitted a direct resolution, or the majority jurors of a CONSENSUS
+ * tally (OPINION submitters post no resolver bond and aren't scored). Once
+ * the dispute window closes without an upheld dispute each of them gains
+ * reputation; when an admin upholds a dispute they lose reputation and part
+ * of any bond still locked on the market is slashed to the protocol.
+ * Each option is scored once, tracked by market_options.reputation_settled_at.
+ */
+export class ResolverReputationService {
+  /**
+   * Resolvers credited with an option's resolution
+   */
+  static async getOptionResolvers(
+    client: PoolClient,
+    option: Option
+  ): Promise<Resolver[]> {
+    const resolvedBy = option.resolved_by;
+    if (!resolvedBy || resolvedBy === ResolutionMode.OPINION) {
+      return [];
+    }
+
+    if (resolvedBy === ResolutionMode.CONSENSUS) {
+      const tally = await ConsensusTallyModel.findByOption(option.id, client);
+      if (!tally || tally.status !== "resolved") {
+        return [];
+      }
+      const resolvers: Resolver[] = [];
+      for (const juror of tally.resolution_trace?.jurors || []) {
+        if (juror.status !== "majority") {
+          continue;
+        }
+        const resolver = await ResolverModel.findById(
+          juror.resolver_id,
+          client
+        );
+        if (resolver) {
+          resolvers.push(resolver);
+        }
+      }
+      return resolvers;
+    }
+
+    if (!USER_ID_REGEX.test(resolvedBy)) {
+      return [];
+    }
+    const resolver = await this.getOrCreateUserResolver(client, resolvedBy);
+    return resolver ? [resolver] : [];
+  }
+
+  /**
+   * Resolver profile of a user who resolved a market directly
+   */
+  private static async getOrCreateUserResolver(
+    client: PoolClient,
+    userId: string
+  ): Promise<Resolver | null> {
+    const existing = await ResolverModel.findByUserIdForUpdate(userId, client);
+    if (existing) {
+      return existing;
+    }
+    const user = await UserModel.findById(userId, client);
+    if (!user) {
+      return null;
+    }
+    return ResolverModel.create(
+      {
+        type: ResolverType.USER,
+        name: user.username || user.display_name || "Resolver",
+        user_id: userId,
+      },
+      client
+    );
+  }
+
+  private static async adjustReputation(
+    client: PoolClient,
+    resolver: Resolver,
+    option: Option,
+    eventType: ResolverReputationEventType,
+    delta: number,
+    disputeId?: string
+  ): Promise<void> {
+    const updated = (await ResolverModel.updateReputation(
+      resolver.id,
+      delta,
+      client
+    ))!;
+    await ResolverReputationEventModel.create(
+      {
+        resolver_id: resolver.id,
+        market_id: option.market_id,
+        option_id: option.id,
+        dispute_id: disputeId,
+        event_type: eventType,
+        // Scores floor at zero, so record the change actually applied
+        delta:
+          Number(updated.reputation_score) - Number(resolver.reputation_score),
+        score_after: Number(updated.reputation_score),
+      },
+      client
+    );
+  }
+
+  /**
+   * Credit the resolvers of an option whose dispute window closed without an
+   * upheld dispute. The caller must hold the option lock.
+   * Returns the number of resolvers credited.
+   */
+  static async settleUndisputed(
+    client: PoolClient,
+    option: Option
+  ): Promise<number> {
+    if (!option.is_resolved || option.reputation_settled_at) {
+      return 0;
+    }
+
+    const resolvers = await this.getOptionResolvers(client, option);
+    for (const resolver of resolvers) {
+      await this.adjustReputation(
+        client,
+        resolver,
+        option,
+        "undisputed",
+        UNDISPUTED_REPUTATION_GAIN
+      );
+    }
+
+    await OptionModel.update(
+      option.id,
+      { reputation_settled_at: Math.floor(Date.now() / 1000) },
+      client
+    );
+    return resolvers.length;
+  }
+
+  /**
+   * Penalise the resolvers of an option whose resolution was overturned by an
+   * upheld dispute: reputation is cut and part of the bond they still have
+   * locked on the market is slashed to the protocol. Does nothing if the
+   * option has already been scored.
+   */
+  static async applyOverturn(
+    client: PoolClient,
+    dispute: { id: string; option_id: string }
+  ): Promise<{ resolvers: number; slashed: number }> {
+    const optionResult = await client.query(
+      "SELECT * FROM market_options WHERE id = $1 FOR UPDATE",
+      [dispute.option_id]
+    );
+    const option: Option | undefined = optionResult.rows[0];
+    if (!option || !option.is_resolved || option.reputation_settled_at) {
+      return { resolvers: 0, slashed: 0 };
+    }
+
+    const resolvers = await this.getOptionResolvers(client, option);
+    let totalSlashed = 0;
+    const slashEntries: LedgerEntryInput[] = [];
+
+    for (const resolver of resolvers) {
+      await this.adjustReputation(
+        client,
+        resolver,
+        option,
+        "overturned",
+        -OVERTURNED_REPUTATION_PENALTY,
+        dispute.id
+      );
+
+      const assignment = await ResolverModel.findAssignment(
+        option.market_id,
+        resolver.id,
+        client
+      );
+      if (!assignment || assignment.released_at) {
+        continue;
+      }
+      const unslashed =
+        Number(assignment.bond_committed) - Number(assignment.bond_slashed);
+      const amount = Math.floor((unslashed * OVERTURN_SLASH_BPS) / 10000);
+      if (amount <= 0) {
+        continue;
+      }
+
+      await ResolverModel.slashCommittedBond(
+        option.market_id,
+        resolver.id,
+        amount,
+        client
+      );
+      await ResolverBondLedgerModel.record(
+        {
+          resolver_id: resolver.id,
+          entry_type: "slash",
+          amount,
+          market_id: option.market_id,
+          option_id: option.id,
+          reason: "Resolution overturned by dispute",
+        },
+        client
+      );
+      slashEntries.push(
+        debit(LedgerAccounts.resolverBond(resolver.id), amount)
+      );
+      totalSlashed += amount;
+    }
+
+    if (totalSlashed > 0) {
+      await MoodringModel.recordFees(0, totalSlashed, client);
+      await LedgerService.post(client, {
+        transaction_type: "resolver_bond_slash",
+        reference_type: "option",
+        reference_id: option.id,
+        metadata: { market_id: option.market_id },
+        entries: [
+          ...slashEntries,
+          credit(LedgerAccounts.protocolFees(), totalSlashed),
+        ],
+      });
+    }
+
+    await OptionModel.update(
+      option.id,
+      { reputation_settled_at: Math.floor(Date.now() / 1000) },
+      client
+    );
+    return { resolvers: resolvers.length, slashed: totalSlashed };
+  }
+}
@@ -1,7 +1,14 @@
 import { UUID } from "crypto";
 import { BN } from "@coral-xyz/anchor";
 import { PoolClient } from "pg";
-import { SuspiciousTradeModel } from "../models/SuspiciousTrade";
+import {
+  DetectionReason,
+  SuspiciousTradeCreateInput,
+  SuspiciousTradeModel,
+} from "../models/SuspiciousTrade";
+import { TradingHalt } from "../models/TradingHalt";
+import { TradingHaltService } from "./tradingHaltService";
+import { RiskRulesEngine } from "./riskRulesEngine";
 import { calculate_yes_price, PRECISION } from "../utils/lmsr";
 import { getMoodringData } from "../utils/tradeUtils";
 
@@ -9,6 +16,7 @@ export interface RiskCheckResult {
   passed: boolean;
   error?: string;
   details?: any;
+  halt?: TradingHalt | null; // Halt tripped by the trade, to broadcast after commit
 }
 
 export interface VolatilityCheckResult extends RiskCheckResult {
@@ -20,7 +28,8 @@ export interface VolatilityCheckResult extends RiskCheckResult {
 
 export class RiskControlService {
   /**
-   * Check for suspicious trades based on threshold
+   * Run the risk rules against a trade and record what they find in
+   * suspicious_trades. Flagged and held trades pass; blocked ones don't.
    */
   static async checkSuspiciousTrade(
     client: PoolClient,
@@ -35,42 +44,62 @@ export class RiskControlService {
   ): Promise<RiskCheckResult> {
     const moodring = await getMoodringData(client);
 
-    if (totalAmount >= moodring.suspicious_trade_threshold) {
-      console.warn(
-        `SUSPICIOUS TRADE DETECTED: User ${userId} placed ${tradeType} trade of ${totalAmount} USDC (threshold: ${moodring.suspicious_trade_threshold})`
-      );
+    const evaluation = await RiskRulesEngine.evaluate(client, {
+      userId,
+      marketId,
+      optionId,
+      tradeType,
+      side,
+      quantity,
+      totalAmount,
+      pricePerShare,
+      now: Math.floor(Date.now() / 1000),
+      moodring,
+    });
+    if (!evaluation.primary) {
+      return { passed: true };
+    }
 
-      // Log to suspicious_trades table
-      await SuspiciousTradeModel.create(
-        {
-          user_id: userId,
-          market_id: marketId,
-          option_id: optionId,
-          trade_type: tradeType,
-          side: side as "yes" | "no",
-          quantity,
-          price_per_share: pricePerShare,
-          total_amount: totalAmount,
-          detection_reason: "suspicious_trade_threshold",
-          detection_metadata: {
-            threshold: moodring.suspicious_trade_threshold,
-            total_amount: totalAmount,
-            market_id: marketId,
-            option_id: optionId,
-          },
-          risk_score: Math.min(
-            100,
-            Math.floor((totalAmount / moodring.suspicious_trade_threshold) * 50)
-          ), // Scale risk score
-        },
-        client
-      );
+    console.warn(
+      `SUSPICIOUS TRADE DETECTED: User ${userId} ${tradeType} of ${totalAmount} on option ${optionId} (${
+        evaluation.action
+      }: ${evaluation.hits.map((hit) => hit.rule).join(", ")})`
+    );
 
-      // For now, we allow suspicious trades but log them
-      // In production, you might want to block them
-      return { passed: true };
+    const record: SuspiciousTradeCreateInput = {
+      user_id: userId,
+      market_id: marketId,
+      option_id: optionId,
+      trade_type: tradeType,
+      side,
+      quantity,
+      price_per_share: pricePerShare,
+      total_amount: totalAmount,
+      detection_reason: evaluation.primary.rule as DetectionReason,
+      detection_metadata: {
+        action: evaluation.action,
+        rules: evaluation.hits,
+        market_id: marketId,
+        option_id: optionId,
+      },
+      risk_score: evaluation.risk_score,
+      automated_action_taken: evaluation.action !== "flag",
+    };
+
+    if (evaluation.action === "block") {
+      // The trade's transaction rolls back, so the attempt is recorded on
+      // its own connection. Not awaited: the insert waits on the market
+      // row this transaction has locked and goes through once it ends.
+      SuspiciousTradeModel.create(record).catch((error) => {
+        console.error("Failed to record blocked trade:", error);
+      });
+      return {
+        passed: false,
+        error: "This trade was blocked by risk controls",
+      };
     }
 
+    await SuspiciousTradeModel.create(record, client);
     return { passed: true };
   }
 
@@ -167,7 +196,8 @@ export class RiskControlService {
 
     // Calculate volatility (price change in basis points)
     const priceChange = Math.abs(newPrice - currentPrice);
-    const volatilityBps = Math.floor((priceChange / currentPrice) * 10000);
+    const volatilityBps =
+      currentPrice > 0 ? Math.floor((priceChange / currentPrice) * 10000) : 0;
 
     // Dynamic threshold based on market maturity
     // Early markets naturally have higher volatility due to LMSR mechanics
@@ -190,13 +220,24 @@ export class RiskControlService {
     }
     // Well-established markets use the base threshold
 
-    // Volatility check disabled - always pass
+    // Volatility no longer rejects the trade, it halts the option instead
+    const halt =
+      volatilityBps > adjustedThreshold
+        ? await this.tripVolatilityHalt(client, moodring, marketId, optionId, {
+            current_price: currentPrice,
+            new_price: newPrice,
+            volatility_bps: volatilityBps,
+            adjusted_threshold: adjustedThreshold,
+          })
+        : null;
+
     return {
       passed: true,
       currentPrice,
       newPrice,
       volatilityBps,
       adjustedThreshold,
+      halt,
     };
   }
 
@@ -233,7 +274,8 @@ export class RiskControlService {
 
     // Calculate volatility (price change in basis points)
     const priceChange = Math.abs(newPrice - currentPrice);
-    const volatilityBps = Math.floor((priceChange / currentPrice) * 10000);
+    const volatilityBps =
+      currentPrice > 0 ? Math.floor((priceChange / currentPrice) * 10000) : 0;
 
     // Dynamic threshold based on market maturity
     const totalSharesBefore = Number(currentYes) + Number(currentNo);
@@ -253,16 +295,63 @@ export class RiskControlService {
       adjustedThreshold *= 2;
     }
 
-    // Volatility check disabled - always pass
+    // Volatility no longer rejects the trade, it halts the option instead
+    const halt =
+      volatilityBps > adjustedThreshold
+        ? await this.tripVolatilityHalt(client, moodring, marketId, optionId, {
+            current_price: currentPrice,
+            new_price: newPrice,
+            volatility_bps: volatilityBps,
+            adjusted_threshold: adjustedThreshold,
+          })
+        : null;
+
     return {
       passed: true,
       currentPrice,
       newPrice,
       volatilityBps,
       adjustedThreshold,
+      halt,
     };
   }
 
+  /**
+   * Halt an option after a trade moved its price past the volatility
+   * threshold. The trade that trips the halt still executes; later trades
+   * on the option are rejected until the halt resumes.
+   */
+  private static async tripVolatilityHalt(
+    client: PoolClient,
+    moodring: any,
+    marketId: UUID,
+    optionId: UUID,
+    metadata: Record<string, number>
+  ): Promise<TradingHalt | null> {
+    if (!moodring.volatility_halt_enabled) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const halt = await TradingHaltService.trip(client, {
+      market_id: marketId,
+      option_id: optionId,
+      source: "volatility",
+      reason: `Price moved ${(metadata.volatility_bps / 100).toFixed(
+        1
+      )}% in a single trade`,
+      resume_at: now + Number(moodring.volatility_halt_seconds),
+      metadata,
+    });
+
+    if (halt) {
+      console.warn(
+        `VOLATILITY HALT: option ${optionId} halted until ${halt.resume_at} (${metadata.volatility_bps} bps > ${metadata.adjusted_threshold} bps)`
+      );
+    }
+    return halt;
+  }
+
   /**
    * Run all risk checks for a trade
    */
@@ -366,6 +455,8 @@ export class RiskControlService {
       if (!volatilityCheck.passed) {
         return volatilityCheck;
       }
+
+      return { passed: true, halt: volatilityCheck.halt };
     }
 
     return { passed: true };
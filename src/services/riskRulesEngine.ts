@@ -0,0 +1,382 @@
+import { UUID } from "crypto";
+import { PoolClient } from "pg";
+import { AccountLinkModel } from "../models/AccountLink";
+import { RiskRuleModel, StoredRiskRule } from "../models/RiskRule";
+import { DetectionReason } from "../models/SuspiciousTrade";
+import {
+  RiskEvaluation,
+  RiskRuleConfig,
+  RiskRuleHit,
+  combineRiskHits,
+  resolveRiskRuleConfig,
+} from "../utils/riskRules";
+import { SELF_DEALING_LINK_TYPES } from "../utils/accountLinks";
+
+export interface RiskRuleContext {
+  userId: UUID;
+  marketId: UUID;
+  optionId: UUID;
+  tradeType: "buy" | "sell";
+  side: "yes" | "no";
+  quantity: number;
+  totalAmount: number; // micro-USDC
+  pricePerShare: number;
+  now: number;
+  moodring: any;
+}
+
+/** What a rule found, before its severity and action are applied */
+export interface RiskRuleFinding {
+  reason: string;
+  evidence: Record<string, any>;
+}
+
+export interface RiskRule {
+  name: DetectionReason;
+  description: string;
+  defaults: RiskRuleConfig;
+  detect(
+    client: PoolClient,
+    context: RiskRuleContext,
+    params: Record<string, number>
+  ): Promise<RiskRuleFinding | null>;
+}
+
+const formatUsdc = (amount: number) => (amount / 1_000_000).toFixed(2);
+
+const largeTradeRule: RiskRule = {
+  name: "suspicious_trade_threshold",
+  description: "Trade at or above the suspicious trade threshold setting",
+  defaults: { enabled: true, severity: "low", action: "flag", params: {} },
+  async detect(_client, context) {
+    const threshold = Number(context.moodring.suspicious_trade_threshold);
+    if (!threshold || context.totalAmount < threshold) {
+      return null;
+    }
+    return {
+      reason: `Trade of ${formatUsdc(
+        context.totalAmount
+      )} USDC is at or above the ${formatUsdc(threshold)} USDC threshold`,
+      evidence: { threshold, total_amount: context.totalAmount },
+    };
+  },
+};
+
+const washTradingRule: RiskRule = {
+  name: "wash_trading",
+  description:
+    "Accounts sharing a device or withdrawal address with the trader took the other side of the same option",
+  defaults: {
+    enabled: true,
+    severity: "high",
+    action: "hold",
+    params: { window_seconds: 3600 },
+  },
+  async detect(client, context, params) {
+    const linked = await AccountLinkModel.findLinkedUserIds(
+      context.userId,
+      SELF_DEALING_LINK_TYPES,
+      client
+    );
+    if (linked.length === 0) {
+      return null;
+    }
+
+    const result = await client.query(
+      `SELECT t.user_id, COUNT(*)::int AS trades,
+         COALESCE(SUM(t.total_cost), 0)::bigint AS volume
+       FROM trades t
+       WHERE t.option_id = $1
+         AND t.created_at >= $2
+         AND t.status = 'completed'
+         AND t.user_id = ANY($5::uuid[])
+         -- The other side: selling what this trade buys, or buying the
+         -- opposite side
+         AND ((t.trade_type <> $3 AND t.side = $4)
+           OR (t.trade_type = $3 AND t.side <> $4))
+       GROUP BY t.user_id`,
+      [
+        context.optionId,
+        context.now - params.window_seconds,
+        context.tradeType,
+        context.side,
+        linked,
+      ]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      reason: `${result.rows.length} linked account(s) took the other side of this option in the last ${params.window_seconds}s`,
+      evidence: {
+        linked_accounts: result.rows.map((row) => ({
+          user_id: row.user_id,
+          trades: row.trades,
+          volume: Number(row.volume),
+        })),
+        window_seconds: params.window_seconds,
+      },
+    };
+  },
+};
+
+const roundTripRule: RiskRule = {
+  name: "round_trip",
+  description: "The trader reversed a recent trade on the same option",
+  defaults: {
+    enabled: true,
+    severity: "medium",
+    action: "flag",
+    params: { window_seconds: 600, min_opposite_trades: 1 },
+  },
+  async detect(client, context, params) {
+    const result = await client.query(
+      `SELECT COUNT(*)::int AS trades, MIN(t.created_at) AS first_at
+       FROM trades t
+       WHERE t.option_id = $1
+         AND t.user_id = $2
+         AND t.created_at >= $3
+         AND t.status = 'completed'
+         AND t.side = $5
+         AND t.trade_type <> $4`,
+      [
+        context.optionId,
+        context.userId,
+        context.now - params.window_seconds,
+        context.tradeType,
+        context.side,
+      ]
+    );
+    const trades = result.rows[0]?.trades ?? 0;
+    if (trades < Math.max(1, params.min_opposite_trades)) {
+      return null;
+    }
+
+    return {
+      reason: `${context.tradeType} reverses ${trades} trade(s) on the same option in the last ${params.window_seconds}s`,
+      evidence: {
+        opposite_trades: trades,
+        first_trade_at: Number(result.rows[0].first_at),
+        window_seconds: params.window_seconds,
+      },
+    };
+  },
+};
+
+const preResolutionRule: RiskRule = {
+  name: "pre_resolution_trading",
+  description:
+    "The trader has committed or submitted a resolution for the market, or resolves it and it is about to expire",
+  defaults: {
+    enabled: true,
+    severity: "critical",
+    action: "block",
+    params: { window_seconds: 86400 },
+  },
+  async detect(client, context, params) {
+    const result = await client.query(
+      `SELECT
+         (SELECT COUNT(*)::int FROM resolution_commitments
+          WHERE market_id = $1 AND user_id = $2 AND status = 'committed'
+         ) AS open_commitments,
+         (SELECT MAX(submitted_at) FROM resolution_submissions
+          WHERE market_id = $1 AND user_id = $2 AND submitted_at >= $3
+         ) AS last_submission_at,
+         EXISTS (
+           SELECT 1 FROM market_resolvers mr
+           JOIN resolvers r ON r.id = mr.resolver_id
+           WHERE mr.market_id = $1 AND r.user_id = $2
+             AND mr.released_at IS NULL
+         ) AS is_resolver,
+         (SELECT expiration_timestamp FROM markets WHERE id = $1)
+           AS expiration_timestamp`,
+      [context.marketId, context.userId, context.now - params.window_seconds]
+    );
+    const row = result.rows[0];
+    const openCommitments = row?.open_commitments ?? 0;
+    const lastSubmissionAt =
+      row?.last_submission_at === null || row?.last_submission_at === undefined
+        ? null
+        : Number(row.last_submission_at);
+    const expiresIn = Number(row?.expiration_timestamp) - context.now;
+    const resolverNearExpiry =
+      Boolean(row?.is_resolver) && expiresIn <= params.window_seconds;
+
+    if (
+      openCommitments === 0 &&
+      lastSubmissionAt === null &&
+      !resolverNearExpiry
+    ) {
+      return null;
+    }
+
+    const reason =
+      openCommitments > 0
+        ? "Trader has an unrevealed resolution commitment on this market"
+        : lastSubmissionAt !== null
+        ? "Trader submitted a resolution for this market recently"
+        : "Trader is a resolver for this market and it expires soon";
+
+    return {
+      reason,
+      evidence: {
+        open_commitments: openCommitments,
+        last_submission_at: lastSubmissionAt,
+        is_resolver: Boolean(row?.is_resolver),
+        expires_in_seconds: expiresIn,
+        window_seconds: params.window_seconds,
+      },
+    };
+  },
+};
+
+const creatorSelfTradeRule: RiskRule = {
+  name: "creator_self_trade",
+  description: "The market's creator traded in it",
+  defaults: { enabled: true, severity: "high", action: "flag", params: {} },
+  async detect(client, context) {
+    const result = await client.query(
+      `SELECT creator_id FROM markets WHERE id = $1`,
+      [context.marketId]
+    );
+    if (result.rows[0]?.creator_id !== context.userId) {
+      return null;
+    }
+    return {
+      reason: "Market creator traded in their own market",
+      evidence: { creator_id: context.userId },
+    };
+  },
+};
+
+const newAccountClusterRule: RiskRule = {
+  name: "new_account_cluster",
+  description:
+    "Several new accounts made the same trade on an option in a short time",
+  defaults: {
+    enabled: true,
+    severity: "medium",
+    action: "flag",
+    params: {
+      account_age_seconds: 86400,
+      window_seconds: 3600,
+      min_accounts: 3,
+    },
+  },
+  async detect(client, context, params) {
+    const newSince = context.now - params.account_age_seconds;
+    const userResult = await client.query(
+      `SELECT created_at FROM users WHERE id = $1`,
+      [context.userId]
+    );
+    if (Number(userResult.rows[0]?.created_at ?? 0) < newSince) {
+      return null;
+    }
+
+    const result = await client.query(
+      `SELECT ARRAY_AGG(DISTINCT t.user_id) AS user_ids
+       FROM trades t
+       JOIN users u ON u.id = t.user_id
+       WHERE t.option_id = $1
+         AND t.side = $2
+         AND t.trade_type = $3
+         AND t.created_at >= $4
+         AND t.status = 'completed'
+         AND u.created_at >= $5
+         AND t.user_id <> $6`,
+      [
+        context.optionId,
+        context.side,
+        context.tradeType,
+        context.now - params.window_seconds,
+        newSince,
+        context.userId,
+      ]
+    );
+    const others: string[] = result.rows[0]?.user_ids ?? [];
+    const accounts = others.length + 1;
+    if (accounts < params.min_accounts) {
+      return null;
+    }
+
+    return {
+      reason: `${accounts} accounts created in the last ${params.account_age_seconds}s made this trade within ${params.window_seconds}s`,
+      evidence: {
+        accounts,
+        other_user_ids: others,
+        account_age_seconds: params.account_age_seconds,
+        window_seconds: params.window_seconds,
+      },
+    };
+  },
+};
+
+const registry = new Map<string, RiskRule>();
+
+export class RiskRulesEngine {
+  /**
+   * Add a rule. Rules run in registration order.
+   */
+  static register(rule: RiskRule): void {
+    registry.set(rule.name, rule);
+  }
+
+  static getRule(name: string): RiskRule | null {
+    return registry.get(name) || null;
+  }
+
+  /**
+   * Every registered rule with its effective settings
+   */
+  static async listRules(client?: PoolClient): Promise<
+    {
+      rule: RiskRule;
+      config: RiskRuleConfig;
+      stored: StoredRiskRule | null;
+    }[]
+  > {
+    const stored = await RiskRuleModel.findAll(client);
+    return [...registry.values()].map((rule) => ({
+      rule,
+      config: resolveRiskRuleConfig(rule.defaults, stored.get(rule.name)),
+      stored: stored.get(rule.name) || null,
+    }));
+  }
+
+  /**
+   * Run every enabled rule against a trade
+   */
+  static async evaluate(
+    client: PoolClient,
+    context: RiskRuleContext
+  ): Promise<RiskEvaluation> {
+    const rules = await this.listRules(client);
+
+    const hits: RiskRuleHit[] = [];
+    for (const { rule, config } of rules) {
+      if (!config.enabled) {
+        continue;
+      }
+      const finding = await rule.detect(client, context, config.params);
+      if (finding) {
+        hits.push({
+          rule: rule.name,
+          severity: config.severity,
+          action: config.action,
+          reason: finding.reason,
+          evidence: finding.evidence,
+        });
+      }
+    }
+
+    return combineRiskHits(hits);
+  }
+}
+
+RiskRulesEngine.register(largeTradeRule);
+RiskRulesEngine.register(washTradingRule);
+RiskRulesEngine.register(roundTripRule);
+RiskRulesEngine.register(preResolutionRule);
+RiskRulesEngine.register(creatorSelfTradeRule);
+RiskRulesEngine.register(newAccountClusterRule);
@@ -0,0 +1,395 @@
+import { pool } from "../db";
+import { LedgerModel } from "../models/Ledger";
+import { WalletModel } from "../models/Wallet";
+import { renderTextPdf } from "../utils/pdf";
+import {
+  PositionEvent,
+  Statement,
+  StatementLine,
+  StatementPeriod,
+  buildStatement,
+  computeRealizedPnl,
+  formatUsdc,
+  statementToCsv,
+  statementToText,
+} from "../utils/statement";
+
+const LIQUIDITY_ACTIVITY_TYPES = [
+  "market_initialized",
+  "liquidity_added",
+  "liquidity_removed",
+  "lp_rewards_claimed",
+];
+
+const shares = (quantity: number) => (quantity / 1_000_000).toFixed(2);
+
+/**
+ * Builds account statements (see utils/statement.ts).
+ *
+ * Lines come from the tables that record each kind of activity: trades,
+ * claim and LP activities, key transactions, void refunds, deposits and
+ * withdrawals. Opening and closing balances are worked back from the
+ * current wallet balance through the ledger, so periods before the ledger
+ * was introduced show the balance it started from.
+ */
+export class StatementService {
+  /**
+   * Build a user's statement for a period. Returns null if the user has no
+   * wallet.
+   */
+  static async generate(
+    userId: string,
+    period: StatementPeriod
+  ): Promise<Statement | null> {
+    const wallet = await WalletModel.findByUserId(userId);
+    if (!wallet) {
+      return null;
+    }
+
+    const [
+      tradesResult,
+      claimsResult,
+      voidRefundsResult,
+      liquidityResult,
+      keyResult,
+      depositsResult,
+      withdrawalsResult,
+      positionsResult,
+      changeSinceFrom,
+      changeSinceTo,
+    ] = await Promise.all([
+      // Trades, claims and void refunds before the period too, for cost basis
+      pool.query(
+        `SELECT t.*, m.question AS market_question, mo.option_label
+         FROM trades t
+         LEFT JOIN markets m ON m.id = t.market_id
+         LEFT JOIN market_options mo ON mo.id = t.option_id
+         WHERE t.user_id = $1 AND t.status = 'completed' AND t.created_at < $2
+         ORDER BY t.created_at ASC, t.id ASC`,
+        [userId, period.to]
+      ),
+      pool.query(
+        `SELECT a.*, m.id AS market_id, m.question AS market_question, mo.option_label
+         FROM activities a
+         LEFT JOIN markets m ON m.id::text = a.metadata->>'market_id'
+         LEFT JOIN market_options mo ON mo.id::text = a.entity_id
+         WHERE a.user_id = $1 AND a.activity_type = 'claim' AND a.created_at < $2
+         ORDER BY a.created_at ASC, a.id ASC`,
+        [userId, period.to]
+      ),
+      pool.query(
+        `SELECT r.*, m.question AS market_question, mo.option_label
+         FROM market_void_refunds r
+         LEFT JOIN markets m ON m.id = r.market_id
+         LEFT JOIN market_options mo ON mo.id = r.option_id
+         WHERE r.user_id = $1 AND r.created_at < $2
+         ORDER BY r.created_at ASC, r.id ASC`,
+        [userId, period.to]
+      ),
+      pool.query(
+        `SELECT a.*, m.id AS market_id, m.question AS market_question
+         FROM activities a
+         LEFT JOIN markets m ON m.id::text = a.entity_id
+         WHERE a.user_id = $1 AND a.activity_type = ANY($2)
+           AND a.created_at >= $3 AND a.created_at < $4
+         ORDER BY a.created_at ASC, a.id ASC`,
+        [userId, LIQUIDITY_ACTIVITY_TYPES, period.from, period.to]
+      ),
+      pool.query(
+        `SELECT kt.*, u.username AS trader_username
+         FROM key_transactions kt
+         LEFT JOIN users u ON u.id = kt.trader_id
+         WHERE (kt.buyer_id = $1 OR kt.trader_id = $1)
+           AND kt.created_at >= $2 AND kt.created_at < $3
+         ORDER BY kt.created_at ASC, kt.id ASC`,
+        [userId, period.from, period.to]
+      ),
+      pool.query(
+        `SELECT * FROM wallet_deposits
+         WHERE user_id = $1 AND created_at >= $2 AND created_at < $3
+         ORDER BY created_at ASC, id ASC`,
+        [userId, period.from, period.to]
+      ),
+      pool.query(
+        `SELECT * FROM withdrawals
+         WHERE user_id = $1 AND token_symbol = 'USDC'
+           AND status NOT IN ('failed', 'cancelled')
+           AND created_at >= $2 AND created_at < $3
+         ORDER BY created_at ASC, id ASC`,
+        [userId, period.from, period.to]
+      ),
+      pool.query(
+        `SELECT up.market_id, m.question AS market_question, up.realized_pnl,
+                up.total_yes_cost, up.total_no_cost
+         FROM user_positions up
+         LEFT JOIN markets m ON m.id = up.market_id
+         WHERE up.user_id = $1`,
+        [userId]
+      ),
+      LedgerModel.getNetChangeSince("user", userId, period.from),
+      LedgerModel.getNetChangeSince("user", userId, period.to),
+    ]);
+
+    // Realized P&L needs the whole position history
+    const positionEvents: PositionEvent[] = [];
+    for (const trade of tradesResult.rows) {
+      const totalCost = Number(trade.total_cost);
+      const fees = Number(trade.fees_paid || 0);
+      positionEvents.push(
+        trade.trade_type === "buy"
+          ? {
+              kind: "buy",
+              ref: trade.id,
+              at: Number(trade.created_at),
+              option_id: trade.option_id,
+              side: trade.side,
+              quantity: Number(trade.quantity),
+              raw_cost: totalCost - fees,
+            }
+          : {
+              kind: "sell",
+              ref: trade.id,
+              at: Number(trade.created_at),
+              option_id: trade.option_id,
+              side: trade.side,
+              quantity: Number(trade.quantity),
+              net_payout: totalCost,
+            }
+      );
+    }
+    for (const claim of claimsResult.rows) {
+      const metadata = claim.metadata || {};
+      positionEvents.push({
+        kind: "claim",
+        ref: claim.id,
+        at: Number(claim.created_at),
+        option_id: claim.entity_id,
+        payout: Number(metadata.payout || 0),
+        realized_pnl:
+          metadata.realized_pnl === undefined || metadata.realized_pnl === null
+            ? null
+            : Number(metadata.realized_pnl),
+      });
+    }
+    for (const refund of voidRefundsResult.rows) {
+      if (refund.option_id) {
+        positionEvents.push({
+          kind: "void_refund",
+          ref: refund.id,
+          at: Number(refund.created_at),
+          option_id: refund.option_id,
+          amount: Number(refund.amount),
+          cost_basis: Number(refund.cost_basis),
+        });
+      }
+    }
+    const realizedPnl = computeRealizedPnl(positionEvents);
+
+    const inPeriod = (row: any) =>
+      Number(row.created_at) >= period.from &&
+      Number(row.created_at) < period.to;
+    const lines: StatementLine[] = [];
+
+    for (const trade of tradesResult.rows.filter(inPeriod)) {
+      const isBuy = trade.trade_type === "buy";
+      lines.push({
+        at: Number(trade.created_at),
+        category: "trade",
+        type: trade.trade_type,
+        description: `${isBuy ? "Bought" : "Sold"} ${shares(
+          Number(trade.quantity)
+        )} ${trade.side.toUpperCase()} ${trade.option_label || "shares"}`,
+        market_id: trade.market_id,
+        market_question: trade.market_question,
+        quantity: Number(trade.quantity),
+        amount: isBuy ? -Number(trade.total_cost) : Number(trade.total_cost),
+        fees: Number(trade.fees_paid || 0),
+        realized_pnl: isBuy ? null : realizedPnl.get(trade.id) ?? null,
+        reference_id: trade.id,
+      });
+    }
+
+    for (const claim of claimsResult.rows.filter(inPeriod)) {
+      const metadata = claim.metadata || {};
+      lines.push({
+        at: Number(claim.created_at),
+        category: "claim",
+        type: metadata.auto_credited ? "auto_credit" : "claim",
+        description: `Winnings on ${claim.option_label || "option"} (${(
+          metadata.winning_side || ""
+        ).toUpperCase()})`,
+        market_id: claim.market_id,
+        market_question: claim.market_question,
+        quantity: null,
+        amount: Number(metadata.payout || 0),
+        fees: 0,
+        realized_pnl: realizedPnl.get(claim.id) ?? null,
+        reference_id: claim.id,
+      });
+    }
+
+    for (const refund of voidRefundsResult.rows.filter(inPeriod)) {
+      const isPosition = refund.refund_type === "position";
+      lines.push({
+        at: Number(refund.created_at),
+        category: "void_refund",
+        type: isPosition ? "void_refund" : "void_liquidity_refund",
+        description: isPosition
+          ? `Voided market refund for ${refund.option_label || "option"}`
+          : "Voided market liquidity refund",
+        market_id: refund.market_id,
+        market_question: refund.market_question,
+        quantity: Number(refund.shares),
+        amount: Number(refund.amount) + Number(refund.fee_refund || 0),
+        fees: 0,
+        realized_pnl: isPosition ? realizedPnl.get(refund.id) ?? null : null,
+        reference_id: refund.id,
+      });
+    }
+
+    for (const activity of liquidityResult.rows) {
+      const metadata = activity.metadata || {};
+      const [description, amount] = (() => {
+        switch (activity.activity_type) {
+          case "market_initialized":
+            return [
+              "Initial market liquidity",
+              -Number(metadata.initial_liquidity || 0),
+            ];
+          case "liquidity_added":
+            return ["Added liquidity", -Number(metadata.amount || 0)];
+          case "liquidity_removed":
+            return [
+              `Removed liquidity (fees ${formatUsdc(
+                Number(metadata.fees_portion || 0)
+              )} USDC)`,
+              Number(metadata.usdc_returned || 0),
+            ];
+          default:
+            return [
+              `Claimed LP rewards (fees ${formatUsdc(
+                Number(metadata.fees_earned || 0)
+              )} USDC)`,
+              Number(metadata.usdc_payout || 0),
+            ];
+        }
+      })() as [string, number];
+
+      lines.push({
+        at: Number(activity.created_at),
+        category: "liquidity",
+        type: activity.activity_type,
+        description,
+        market_id: activity.market_id,
+        market_question: activity.market_question,
+        quantity: null,
+        amount,
+        fees: 0,
+        realized_pnl: null,
+        reference_id: activity.id,
+      });
+    }
+
+    for (const keyTx of keyResult.rows) {
+      const quantity = Number(keyTx.quantity);
+      const total = Number(keyTx.total_cost);
+      const trader = keyTx.trader_username || keyTx.trader_id;
+      const isBuy = keyTx.transaction_type === "buy";
+
+      // The trader receives what a buyer pays and pays out what a seller
+      // receives, so a user can appear on both sides of the same trade
+      if (keyTx.buyer_id === userId) {
+        lines.push({
+          at: Number(keyTx.created_at),
+          category: "key_trade",
+          type: isBuy ? "key_buy" : "key_sell",
+          description: `${
+            isBuy ? "Bought" : "Sold"
+          } ${quantity} key(s) of ${trader}`,
+          market_id: null,
+          market_question: null,
+          quantity,
+          amount: isBuy ? -total : total,
+          fees: 0,
+          realized_pnl: null,
+          reference_id: keyTx.id,
+        });
+      }
+      if (keyTx.trader_id === userId) {
+        lines.push({
+          at: Number(keyTx.created_at),
+          category: "key_trade",
+          type: isBuy ? "key_proceeds" : "key_buyback",
+          description: `${quantity} of your key(s) ${
+            isBuy ? "bought" : "sold back"
+          }`,
+          market_id: null,
+          market_question: null,
+          quantity,
+          amount: isBuy ? total : -total,
+          fees: 0,
+          realized_pnl: null,
+          reference_id: keyTx.id,
+        });
+      }
+    }
+
+    for (const deposit of depositsResult.rows) {
+      lines.push({
+        at: Number(deposit.created_at),
+        category: "deposit",
+        type: "deposit",
+        description:
+          deposit.token_symbol === "USDC"
+            ? `Deposit ${deposit.signature}`
+            : `Deposit of ${deposit.token_symbol} at ${Number(
+                deposit.conversion_rate
+              )} (${deposit.status}) ${deposit.signature}`,
+        market_id: null,
+        market_question: null,
+        quantity: null,
+        amount: Number(deposit.amount),
+        fees: 0,
+        realized_pnl: null,
+        reference_id: deposit.id,
+      });
+    }
+
+    for (const withdrawal of withdrawalsResult.rows) {
+      lines.push({
+        at: Number(withdrawal.created_at),
+        category: "withdrawal",
+        type: "withdrawal",
+        description: `Withdrawal to ${withdrawal.destination_address} (${withdrawal.status})`,
+        market_id: null,
+        market_question: null,
+        quantity: null,
+        amount: -Number(withdrawal.amount),
+        fees: 0,
+        realized_pnl: null,
+        reference_id: withdrawal.id,
+      });
+    }
+
+    const balance = Number(wallet.balance_usdc);
+    return buildStatement({
+      userId,
+      period,
+      openingBalance: balance - changeSinceFrom,
+      closingBalance: balance - changeSinceTo,
+      lines,
+      positions: positionsResult.rows,
+    });
+  }
+
+  static toCsv(statement: Statement): string {
+    return statementToCsv(statement);
+  }
+
+  static toPdf(statement: Statement): Buffer {
+    return renderTextPdf(
+      statementToText(statement),
+      `Account statement ${statement.period.label}`
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { UUID } from "crypto";
+import { pool } from "../db";
+import { PRECISION } from "../utils/lmsr";
+import { TradeResult, SellTradeResult } from "./tradeService";
+import { TradingHaltService } from "./tradingHaltService";
+import { OptionPrice } from "./commonTradeOperations";
+import {
+  emitTradeUpdate,
+  emitPriceUpdate,
+  emitBalanceUpdate,
+} from "./websocket";
+import { Trade } from "../models/Trade";
+import { PriceSnapshotModel } from "../models/PriceSnapshot";
+import { ActivityModel } from "../models/Activity";
+import { UserStatsModel } from "../models/UserStats";
+
+export interface ExecutedTrade {
+  userId: UUID;
+  marketId: UUID;
+  optionId: UUID;
+  trade: Trade;
+  result: TradeResult | SellTradeResult;
+  // Extra activity metadata identifying the source (limit order, trigger, copy...)
+  metadata?: Record<string, any>;
+  limitOrderId?: string;
+}
+
+/**
+ * Record a price snapshot for every option a trade moved. The traded option
+ * carries the trade's volume; siblings on exclusive markets get a snapshot
+ * of their new price only.
+ */
+export const recordTradePrices = async (
+  marketId: string,
+  optionId: string,
+  tradeId: string,
+  volume: number,
+  prices: OptionPrice[]
+): Promise<void> => {
+  for (const price of prices) {
+    const yesPrice = price.yes_price / PRECISION.toNumber();
+    const traded = price.option_id === optionId;
+    await PriceSnapshotModel.recordPrice({
+      option_id: price.option_id,
+      market_id: marketId,
+      yes_price: yesPrice,
+      no_price: 1 - yesPrice,
+      yes_quantity: price.yes_quantity,
+      no_quantity: price.no_quantity,
+      volume: traded ? volume : 0,
+      trade_count: traded ? 1 : 0,
+      snapshot_type: "trade",
+      trade_id: tradeId,
+    });
+  }
+};
+
+/**
+ * Push the new price of every option a trade moved
+ */
+export const emitTradePrices = (prices: OptionPrice[]): void => {
+  for (const price of prices) {
+    const yesPrice = price.yes_price / PRECISION.toNumber();
+    emitPriceUpdate({
+      option_id: price.option_id,
+      yes_price: yesPrice,
+      no_price: 1 - yesPrice,
+      yes_quantity: price.yes_quantity,
+      no_quantity: price.no_quantity,
+      timestamp: new Date(),
+    });
+  }
+};
+
+/**
+ * Post-commit bookkeeping for trades executed outside the buy/sell endpoints
+ * (limit order fills, position triggers, copied trades).
+ * Records the price snapshot, activity and user stats, then pushes websocket updates.
+ * Errors are logged, never thrown - the trade itself is already committed.
+ */
+export const publishExecutedTrade = async (
+  executed: ExecutedTrade
+): Promise<void> => {
+  const { userId, marketId, optionId, trade, result, metadata } = executed;
+  const isSell = trade.trade_type === "sell";
+  const sellResult = result as SellTradeResult;
+
+  try {
+    await recordTradePrices(
+      marketId,
+      optionId,
+      trade.id,
+      isSell ? result.rawCost : result.totalCost,
+      result.prices
+    );
+
+    await ActivityModel.create({
+      user_id: userId,
+      activity_type: "trade",
+      entity_type: "option",
+      entity_id: optionId,
+      metadata: {
+        trade_id: trade.id,
+        trade_type: trade.trade_type,
+        side: result.side,
+        quantity: result.quantity,
+        ...(isSell
+          ? {
+              total_payout: sellResult.netPayout,
+              realized_pnl: sellResult.realizedPnl,
+            }
+          : { total_cost: result.totalCost }),
+        fees_paid: result.totalFee,
+        market_id: marketId,
+        ...metadata,
+      },
+    });
+
+    await UserStatsModel.recordTrade(
+      userId,
+      isSell ? sellResult.netPayout : result.totalCost,
+      result.totalFee,
+      isSell ? sellResult.realizedPnl > 0 : false
+    );
+
+    const balanceResult = await pool.query(
+      `SELECT balance_usdc FROM wallets WHERE user_id = $1`,
+      [userId]
+    );
+
+    emitTradeUpdate({
+      market_id: marketId,
+      option_id: optionId,
+      trade_type: trade.trade_type,
+      side: result.side,
+      quantity: result.quantity,
+      price: result.pricePerShare / 1_000_000,
+      limit_order_id: executed.limitOrderId,
+      timestamp: new Date(),
+    });
+
+    emitTradePrices(result.prices);
+
+    emitBalanceUpdate({
+      user_id: userId,
+      balance_usdc: balanceResult.rows[0]?.balance_usdc || 0,
+      timestamp: new Date(),
+    });
+
+    if (result.halt) {
+      TradingHaltService.broadcast(result.halt, "halted");
+    }
+  } catch (error) {
+    console.error(`Error publishing executed trade ${trade.id}:`, error);
+  }
+};
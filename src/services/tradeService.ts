@@ -5,13 +5,29 @@ import { TransactionError } from "../utils/transaction";
 import {
   calculate_buy_cost,
   calculate_sell_payout,
+  calculate_multi_buy_cost,
+  calculate_multi_sell_payout,
   calculate_yes_price,
+  calculate_option_prices,
   PRECISION,
 } from "../utils/lmsr";
 import { calculateFees, getMoodringData } from "../utils/tradeUtils";
 import { TradeValidationService } from "./tradeValidation";
-import { CommonTradeOperations } from "./commonTradeOperations";
+import { CommonTradeOperations, OptionPrice } from "./commonTradeOperations";
+import { ReferralService } from "./referralService";
 import { MoodringModel } from "../models/Moodring";
+import { LedgerService } from "./ledgerService";
+import {
+  LedgerAccounts,
+  credit,
+  debit,
+  netProtocolFee,
+  tradeFeeCredits,
+} from "../utils/ledger";
+import { calculateResolvedPayout } from "../utils/scalar";
+import { RiskControlService } from "./riskControl";
+import { TradingHaltService } from "./tradingHaltService";
+import { TradingHalt } from "../models/TradingHalt";
 
 export interface TradeResult {
   wallet: any;
@@ -24,11 +40,16 @@ export interface TradeResult {
   totalCost: number;
   totalFee: number;
   pricePerShare: number;
+  // Every option whose price the trade moved: the traded option, and its
+  // siblings on exclusive markets
+  prices: OptionPrice[];
+  halt?: TradingHalt | null; // Volatility halt tripped by this trade
 }
 
 export interface SellTradeResult extends TradeResult {
   netPayout: number;
   realizedPnl: number;
+  sharesBefore: number; // Seller's shares on the sold side before the sell
 }
 
 export interface ClaimResult {
@@ -38,6 +59,12 @@ export interface ClaimResult {
   realizedPnl: number;
 }
 
+interface ExclusiveQuantities {
+  quantities: BN[];
+  outcomeIndex: number;
+  options: { id: UUID; yes_quantity: number; no_quantity: number }[];
+}
+
 export class TradeService {
   /**
    * Execute a buy trade
@@ -64,6 +91,7 @@ export class TradeService {
       client,
       optionId
     );
+    await TradingHaltService.assertNotHalted(client, marketId, optionId);
     const wallet = await CommonTradeOperations.getWalletWithLock(
       client,
       userId
@@ -74,15 +102,27 @@ export class TradeService {
     const currentYes = new BN(Math.floor(Number(optionData.yes_quantity)));
     const currentNo = new BN(Math.floor(Number(optionData.no_quantity)));
 
+    // Exclusive markets price the option against all of its siblings
+    const exclusive = marketData.is_exclusive
+      ? await this.getExclusiveQuantities(client, marketId, optionId, buyNo)
+      : null;
+
     let cost: number;
     try {
-      cost = calculate_buy_cost(
-        currentYes,
-        currentNo,
-        new BN(buyYes),
-        new BN(buyNo),
-        liquidityParam
-      );
+      cost = exclusive
+        ? calculate_multi_buy_cost(
+            exclusive.quantities,
+            exclusive.outcomeIndex,
+            new BN(buyYes),
+            liquidityParam
+          )
+        : calculate_buy_cost(
+            currentYes,
+            currentNo,
+            new BN(buyYes),
+            new BN(buyNo),
+            liquidityParam
+          );
     } catch (error) {
       throw new TransactionError(400, "Failed to calculate cost");
     }
@@ -150,6 +190,24 @@ export class TradeService {
     // Check balance
     CommonTradeOperations.checkWalletBalance(wallet, totalCost);
 
+    // Exclusive markets have no binary price to check volatility against
+    const riskCheck = await RiskControlService.performRiskChecks(client, {
+      userId,
+      marketId,
+      optionId,
+      tradeType: "buy",
+      side,
+      quantity,
+      totalAmount: totalCost,
+      pricePerShare,
+      ...(exclusive ? {} : { currentYes, currentNo, liquidityParam }),
+      buyYes,
+      buyNo,
+    });
+    if (!riskCheck.passed) {
+      throw new TransactionError(403, riskCheck.error || "Trade rejected");
+    }
+
     // Execute trade
     // Deduct from wallet
     const newBalance = wallet.balance_usdc - totalCost;
@@ -169,6 +227,19 @@ export class TradeService {
       newNoQuantity
     );
 
+    // Referrer's share of the protocol fee (0 if the trader wasn't referred).
+    // Market stats and protocol totals record the fee net of this reward.
+    const referralReward = await ReferralService.accrueTradeReward(
+      client,
+      userId,
+      marketId,
+      optionId,
+      "buy",
+      protocolFee,
+      moodring
+    );
+    const protocolFeeNet = netProtocolFee({ protocolFee, referralReward });
+
     // Update market stats and shared pool liquidity
     const newPoolLiquidity =
       Number(marketData.shared_pool_liquidity || 0) + rawCost;
@@ -178,7 +249,7 @@ export class TradeService {
       totalCost,
       buyYes + buyNo,
       creatorFee,
-      protocolFee,
+      protocolFeeNet,
       lpFee,
       rawCost
     );
@@ -195,9 +266,27 @@ export class TradeService {
 
     // Track protocol fees
     if (protocolFee > 0) {
-      await MoodringModel.recordFees(creatorFee, protocolFee, client);
+      await MoodringModel.recordFees(creatorFee, protocolFeeNet, client);
     }
 
+    await LedgerService.post(client, {
+      transaction_type: "trade_buy",
+      reference_type: "market",
+      reference_id: marketId,
+      metadata: { option_id: optionId, side, quantity },
+      entries: [
+        debit(LedgerAccounts.user(userId), totalCost),
+        credit(LedgerAccounts.marketPool(marketId), rawCost),
+        ...tradeFeeCredits(marketId, {
+          totalFee,
+          lpFee,
+          creatorFee,
+          protocolFee,
+          referralReward,
+        }),
+      ],
+    });
+
     // Create/update user position
     await CommonTradeOperations.upsertUserPosition(
       client,
@@ -219,12 +308,20 @@ export class TradeService {
       newYesQuantity,
       newNoQuantity,
       liquidityParam,
+      prices: this.getPostTradePrices(
+        optionId,
+        newYesQuantity,
+        newNoQuantity,
+        liquidityParam,
+        exclusive
+      ),
       side: side as "yes" | "no",
       quantity,
       rawCost,
       totalCost,
       totalFee,
       pricePerShare,
+      halt: riskCheck.halt,
     };
   }
 
@@ -253,6 +350,7 @@ export class TradeService {
       client,
       optionId
     );
+    await TradingHaltService.assertNotHalted(client, marketId, optionId);
     const position = await CommonTradeOperations.getUserPositionWithLock(
       client,
       userId,
@@ -267,15 +365,27 @@ export class TradeService {
     const currentYes = new BN(Math.floor(Number(optionData.yes_quantity)));
     const currentNo = new BN(Math.floor(Number(optionData.no_quantity)));
 
+    // Exclusive markets price the option against all of its siblings
+    const exclusive = marketData.is_exclusive
+      ? await this.getExclusiveQuantities(client, marketId, optionId, sellNo)
+      : null;
+
     let payout: number;
     try {
-      payout = calculate_sell_payout(
-        currentYes,
-        currentNo,
-        new BN(sellYes),
-        new BN(sellNo),
-        liquidityParam
-      );
+      payout = exclusive
+        ? calculate_multi_sell_payout(
+            exclusive.quantities,
+            exclusive.outcomeIndex,
+            new BN(sellYes),
+            liquidityParam
+          )
+        : calculate_sell_payout(
+            currentYes,
+            currentNo,
+            new BN(sellYes),
+            new BN(sellNo),
+            liquidityParam
+          );
     } catch (error) {
       throw new TransactionError(400, "Failed to calculate payout");
     }
@@ -359,6 +469,24 @@ export class TradeService {
     const costBasis = Number(BigInt(quantity) * avgPrice);
     const realizedPnl = netPayout - costBasis;
 
+    // Exclusive markets have no binary price to check volatility against
+    const riskCheck = await RiskControlService.performRiskChecks(client, {
+      userId,
+      marketId,
+      optionId,
+      tradeType: "sell",
+      side,
+      quantity,
+      totalAmount: rawPayout,
+      pricePerShare,
+      ...(exclusive ? {} : { currentYes, currentNo, liquidityParam }),
+      sellYes,
+      sellNo,
+    });
+    if (!riskCheck.passed) {
+      throw new TransactionError(403, riskCheck.error || "Trade rejected");
+    }
+
     // Execute trade
     // Deduct raw payout from shared pool
     const newPoolLiquidity = Math.max(
@@ -384,6 +512,19 @@ export class TradeService {
       newNoQuantity
     );
 
+    // Referrer's share of the protocol fee (0 if the trader wasn't referred).
+    // Market stats and protocol totals record the fee net of this reward.
+    const referralReward = await ReferralService.accrueTradeReward(
+      client,
+      userId,
+      marketId,
+      optionId,
+      "sell",
+      protocolFee,
+      moodring
+    );
+    const protocolFeeNet = netProtocolFee({ protocolFee, referralReward });
+
     // Update market stats
     await CommonTradeOperations.updateMarketStats(
       client,
@@ -391,7 +532,7 @@ export class TradeService {
       rawPayout,
       -(sellYes + sellNo), // Decrease open interest
       creatorFee,
-      protocolFee,
+      protocolFeeNet,
       lpFee,
       -rawPayout
     );
@@ -408,9 +549,27 @@ export class TradeService {
 
     // Track protocol fees
     if (protocolFee > 0) {
-      await MoodringModel.recordFees(creatorFee, protocolFee, client);
+      await MoodringModel.recordFees(creatorFee, protocolFeeNet, client);
     }
 
+    await LedgerService.post(client, {
+      transaction_type: "trade_sell",
+      reference_type: "market",
+      reference_id: marketId,
+      metadata: { option_id: optionId, side, quantity },
+      entries: [
+        debit(LedgerAccounts.marketPool(marketId), rawPayout),
+        credit(LedgerAccounts.user(userId), netPayout),
+        ...tradeFeeCredits(marketId, {
+          totalFee,
+          lpFee,
+          creatorFee,
+          protocolFee,
+          referralReward,
+        }),
+      ],
+    });
+
     // Update user position
     await this.updatePositionForSell(
       client,
@@ -426,6 +585,13 @@ export class TradeService {
       newYesQuantity,
       newNoQuantity,
       liquidityParam,
+      prices: this.getPostTradePrices(
+        optionId,
+        newYesQuantity,
+        newNoQuantity,
+        liquidityParam,
+        exclusive
+      ),
       side: side as "yes" | "no",
       quantity,
       rawCost: rawPayout,
@@ -434,6 +600,11 @@ export class TradeService {
       pricePerShare,
       netPayout,
       realizedPnl,
+      sharesBefore:
+        side === "yes"
+          ? Number(position?.yes_shares || 0)
+          : Number(position?.no_shares || 0),
+      halt: riskCheck.halt,
     };
   }
 
@@ -446,6 +617,14 @@ export class TradeService {
     marketId: UUID,
     optionId: UUID
   ): Promise<ClaimResult> {
+    // Get market with lock first (this also rejects voided markets, whose
+    // positions were refunded when they were voided)
+    const marketData = await CommonTradeOperations.getMarketWithLock(
+      client,
+      marketId,
+      true
+    );
+
     // Get option (must be resolved)
     const optionData = await CommonTradeOperations.getOption(client, optionId);
 
@@ -498,20 +677,34 @@ export class TradeService {
     const winningSide = optionData.winning_side;
     const winningShares = winningSide === 1 ? yesShares : noShares;
 
-    // Payout is 1 micro-USDC per micro-share (shares are now stored in 6 decimal format)
-    const payout = winningShares;
+    // Outcomes of an exclusive market are paid from one shared pool, so
+    // claims open only once the winning outcome has been resolved
+    if (marketData.is_exclusive && !marketData.is_resolved) {
+      throw new TransactionError(
+        400,
+        "Winnings on exclusive markets can be claimed once the winning outcome is resolved"
+      );
+    }
+
+    // Payout is 1 micro-USDC per winning micro-share (shares are now stored in 6 decimal format).
+    // Scalar options pay LONG and SHORT shares pro rata by the resolved value.
+    const payout = calculateResolvedPayout(
+      {
+        winning_side: winningSide ?? null,
+        resolved_value: optionData.resolved_value,
+        is_scalar: marketData.is_scalar,
+        scalar_lower_bound: marketData.scalar_lower_bound,
+        scalar_upper_bound: marketData.scalar_upper_bound,
+      },
+      yesShares,
+      noShares
+    );
 
     // Calculate PnL
     const totalCostBasis =
       Number(position.total_yes_cost) + Number(position.total_no_cost);
     const realizedPnl = payout - totalCostBasis;
 
-    // Get market with lock
-    const marketData = await CommonTradeOperations.getMarketWithLock(
-      client,
-      marketId
-    );
-
     // Check pool liquidity
     CommonTradeOperations.checkPoolLiquidity(marketData, payout);
 
@@ -543,6 +736,20 @@ export class TradeService {
       wallet.id,
       newBalance
     );
+    // Any payout the pool can't cover is booked against adjustments
+    const poolDebit =
+      Number(marketData.shared_pool_liquidity || 0) - newPoolLiquidity;
+    await LedgerService.post(client, {
+      transaction_type: "claim",
+      reference_type: "option",
+      reference_id: optionId,
+      metadata: { market_id: marketId },
+      entries: [
+        debit(LedgerAccounts.marketPool(marketId), poolDebit),
+        debit(LedgerAccounts.adjustments(), payout - poolDebit),
+        credit(LedgerAccounts.user(userId), payout),
+      ],
+    });
 
     // Zero out position and mark as claimed
     await client.query(
@@ -566,6 +773,105 @@ export class TradeService {
     };
   }
 
+  /**
+   * Reject NO shares on exclusive markets, where only YES shares of each
+   * outcome trade. Checked when trades, limit orders and triggers are placed.
+   */
+  static checkSideTradable(
+    market: { is_exclusive?: boolean | null },
+    side: "yes" | "no"
+  ): void {
+    if (market.is_exclusive && side === "no") {
+      throw new TransactionError(
+        400,
+        "Exclusive markets only trade YES shares of each outcome"
+      );
+    }
+  }
+
+  /**
+   * YES quantities of every option of an exclusive market, and the index of
+   * the traded option among them. Only YES shares trade on exclusive markets.
+   * Sibling options aren't locked: the market lock held by every trade
+   * already serializes changes to their quantities.
+   */
+  private static async getExclusiveQuantities(
+    client: PoolClient,
+    marketId: UUID,
+    optionId: UUID,
+    noShares: number
+  ): Promise<ExclusiveQuantities> {
+    this.checkSideTradable({ is_exclusive: true }, noShares > 0 ? "no" : "yes");
+
+    const result = await client.query(
+      `SELECT id, yes_quantity, no_quantity FROM market_options
+       WHERE market_id = $1
+       ORDER BY created_at ASC, id ASC`,
+      [marketId]
+    );
+    const outcomeIndex = result.rows.findIndex(
+      (row: { id: string }) => row.id === optionId
+    );
+    if (outcomeIndex === -1) {
+      throw new TransactionError(400, "Option does not belong to this market");
+    }
+
+    return {
+      quantities: result.rows.map(
+        (row: { yes_quantity: string }) =>
+          new BN(Math.floor(Number(row.yes_quantity)))
+      ),
+      outcomeIndex,
+      options: result.rows.map((row) => ({
+        id: row.id,
+        yes_quantity: Number(row.yes_quantity),
+        no_quantity: Number(row.no_quantity),
+      })),
+    };
+  }
+
+  /**
+   * Prices after a trade of the options it moved. On exclusive markets
+   * every sibling's price moves with the traded option's.
+   */
+  private static getPostTradePrices(
+    optionId: UUID,
+    newYesQuantity: number,
+    newNoQuantity: number,
+    liquidityParam: BN,
+    exclusive: ExclusiveQuantities | null
+  ): OptionPrice[] {
+    const options = (
+      exclusive
+        ? exclusive.options
+        : [{ id: optionId, yes_quantity: 0, no_quantity: 0 }]
+    ).map((option) =>
+      option.id === optionId
+        ? {
+            ...option,
+            yes_quantity: newYesQuantity,
+            no_quantity: newNoQuantity,
+          }
+        : option
+    );
+
+    const prices = calculate_option_prices(
+      options.map((option) => ({
+        yes_quantity: new BN(Math.floor(option.yes_quantity)),
+        no_quantity: new BN(Math.floor(option.no_quantity)),
+      })),
+      liquidityParam,
+      !!exclusive
+    );
+
+    return options.map((option, i) => ({
+      option_id: option.id,
+      yes_price: prices[i],
+      yes_quantity: option.yes_quantity,
+      no_quantity: option.no_quantity,
+    }));
+  }
+
   /**
    * Update position for sell operation
    */
@@ -4,6 +4,8 @@ import {
   BuySharesRequest,
   SellSharesRequest,
   ClaimWinningsRequest,
+  PlaceLimitOrderRequest,
+  CreatePositionTriggerRequest,
 } from "../types/requests";
 import { validateRequired, validateFields } from "../utils/validation";
 import { getMoodringData } from "../utils/tradeUtils";
@@ -25,6 +27,20 @@ export interface SellValidationResult extends TradeValidationResult {
   totalShares?: number;
 }
 
+export interface LimitOrderValidationResult extends TradeValidationResult {
+  side?: "yes" | "no";
+  quantity?: number;
+  limitPrice?: number;
+}
+
+export interface PositionTriggerValidationResult extends TradeValidationResult {
+  side?: "yes" | "no";
+  triggerType?: "stop_loss" | "take_profit";
+  triggerPrice?: number;
+  sellPercentage?: number;
+  slippageBps?: number;
+}
+
 export interface TradeLimits {
   minTradeAmount: number;
   maxTradeAmount: number;
@@ -148,6 +164,156 @@ export class TradeValidationService {
     };
   }
 
+  /**
+   * Validate limit order request parameters
+   * limitPrice is in micro-USDC per share and must be strictly between 0 and 1 USDC
+   */
+  static validateLimitOrderRequest(
+    req: PlaceLimitOrderRequest
+  ): LimitOrderValidationResult {
+    const { market, option, side, quantity, limitPrice } = req.body;
+
+    const validation = validateFields([
+      validateRequired(market, "Market ID"),
+      validateRequired(option, "Option ID"),
+      validateRequired(side, "Side"),
+      validateRequired(quantity, "Quantity"),
+      validateRequired(limitPrice, "Limit price"),
+    ]);
+    if (!validation.isValid) {
+      return { isValid: false, error: validation.error! };
+    }
+
+    if (side !== "yes" && side !== "no") {
+      return { isValid: false, error: "Side must be 'yes' or 'no'" };
+    }
+
+    const parsedQuantity = Math.floor(Number(quantity)) || 0;
+    if (parsedQuantity < this.MIN_SHARES_PER_TRADE) {
+      return {
+        isValid: false,
+        error: `Minimum order size is ${
+          this.MIN_SHARES_PER_TRADE / 1_000_000
+        } shares`,
+      };
+    }
+
+    if (parsedQuantity > this.MAX_SHARES_PER_TRADE) {
+      return {
+        isValid: false,
+        error: `Order size exceeds maximum allowed (${this.MAX_SHARES_PER_TRADE} shares)`,
+      };
+    }
+
+    const parsedLimitPrice = Math.floor(Number(limitPrice));
+    if (
+      !Number.isFinite(parsedLimitPrice) ||
+      parsedLimitPrice <= 0 ||
+      parsedLimitPrice >= 1_000_000
+    ) {
+      return {
+        isValid: false,
+        error:
+          "Limit price must be between 0 and 1 USDC (exclusive, in micro-USDC)",
+      };
+    }
+
+    return {
+      isValid: true,
+      side,
+      quantity: parsedQuantity,
+      limitPrice: parsedLimitPrice,
+    };
+  }
+
+  /**
+   * Validate stop-loss / take-profit trigger request parameters
+   * triggerPrice is in micro-USDC per share, sellPercentage is 1-100 (default 100)
+   */
+  static validatePositionTriggerRequest(
+    req: CreatePositionTriggerRequest
+  ): PositionTriggerValidationResult {
+    const {
+      market,
+      option,
+      side,
+      triggerType,
+      triggerPrice,
+      sellPercentage,
+      slippageBps,
+    } = req.body;
+
+    const validation = validateFields([
+      validateRequired(market, "Market ID"),
+      validateRequired(option, "Option ID"),
+      validateRequired(side, "Side"),
+      validateRequired(triggerType, "Trigger type"),
+      validateRequired(triggerPrice, "Trigger price"),
+    ]);
+    if (!validation.isValid) {
+      return { isValid: false, error: validation.error! };
+    }
+
+    if (side !== "yes" && side !== "no") {
+      return { isValid: false, error: "Side must be 'yes' or 'no'" };
+    }
+
+    if (triggerType !== "stop_loss" && triggerType !== "take_profit") {
+      return {
+        isValid: false,
+        error: "Trigger type must be 'stop_loss' or 'take_profit'",
+      };
+    }
+
+    const parsedTriggerPrice = Math.floor(Number(triggerPrice));
+    if (
+      !Number.isFinite(parsedTriggerPrice) ||
+      parsedTriggerPrice <= 0 ||
+      parsedTriggerPrice >= 1_000_000
+    ) {
+      return {
+        isValid: false,
+        error:
+          "Trigger price must be between 0 and 1 USDC (exclusive, in micro-USDC)",
+      };
+    }
+
+    const parsedSellPercentage =
+      sellPercentage === undefined ? 100 : Math.floor(Number(sellPercentage));
+    if (
+      !Number.isFinite(parsedSellPercentage) ||
+      parsedSellPercentage <= 0 ||
+      parsedSellPercentage > 100
+    ) {
+      return {
+        isValid: false,
+        error: "Sell percentage must be between 1 and 100",
+      };
+    }
+
+    const parsedSlippageBps =
+      slippageBps === undefined ? 500 : Math.floor(Number(slippageBps));
+    if (
+      !Number.isFinite(parsedSlippageBps) ||
+      parsedSlippageBps < 0 ||
+      parsedSlippageBps > 10000
+    ) {
+      return {
+        isValid: false,
+        error: "Slippage must be between 0 and 10000 basis points",
+      };
+    }
+
+    return {
+      isValid: true,
+      side,
+      triggerType,
+      triggerPrice: parsedTriggerPrice,
+      sellPercentage: parsedSellPercentage,
+      slippageBps: parsedSlippageBps,
+    };
+  }
+
   /**
    * Validate claim winnings request
    */
@@ -0,0 +1,244 @@
+import { Pool, PoolClient } from "pg";
+import {
+  CircuitBreakerStateModel,
+  TradingHalt,
+  TradingHaltCreateInput,
+  TradingHaltModel,
+} from "../models/TradingHalt";
+import { TransactionError, withTransaction } from "../utils/transaction";
+import { emitMarketUpdate } from "./websocket";
+
+type QueryClient = Pool | PoolClient;
+
+const DEFAULT_POLL_INTERVAL_MS = 30_000; // Resume due halts every 30 seconds
+
+export class TradingHaltService {
+  /**
+   * Reject a trade on a halted market or option
+   */
+  static async assertNotHalted(
+    client: PoolClient,
+    marketId: string,
+    optionId: string
+  ): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const halt = await TradingHaltModel.findBlocking(
+      marketId,
+      optionId,
+      now,
+      client
+    );
+    if (!halt) {
+      return;
+    }
+
+    throw new TransactionError(
+      400,
+      `Trading is halted on this ${halt.option_id ? "option" : "market"}: ${
+        halt.reason
+      }`,
+      { halt_id: halt.id, resume_at: halt.resume_at }
+    );
+  }
+
+  /**
+   * Halt a market, or one option when option_id is set. Automatic halts
+   * also open the circuit breaker of their source.
+   */
+  static async halt(
+    client: QueryClient,
+    input: TradingHaltCreateInput
+  ): Promise<TradingHalt> {
+    const halt = await TradingHaltModel.create(input, client);
+    if (!halt) {
+      const existing = await TradingHaltModel.findActive(
+        input.market_id,
+        input.option_id ?? null,
+        client
+      );
+      throw new TransactionError(
+        409,
+        `Trading is already halted on this ${
+          input.option_id ? "option" : "market"
+        }`,
+        { halt_id: existing?.id }
+      );
+    }
+
+    if (input.source !== "admin") {
+      await CircuitBreakerStateModel.recordTrip(input.source, client);
+    }
+    return halt;
+  }
+
+  /**
+   * Automatic halt: like halt(), but returns null instead of throwing when
+   * the market or option is already halted
+   */
+  static async trip(
+    client: QueryClient,
+    input: TradingHaltCreateInput
+  ): Promise<TradingHalt | null> {
+    const existing = await TradingHaltModel.findActive(
+      input.market_id,
+      input.option_id ?? null,
+      client
+    );
+    if (existing) {
+      // A halt past its resume time that the sweeper hasn't closed yet is
+      // replaced rather than left to lapse
+      const now = Math.floor(Date.now() / 1000);
+      if (existing.resume_at === null || existing.resume_at > now) {
+        return null;
+      }
+      await this.resume(client, existing.id, null);
+    }
+
+    // Null if another halt on the same market or option won a race
+    const halt = await TradingHaltModel.create(input, client);
+    if (halt && input.source !== "admin") {
+      await CircuitBreakerStateModel.recordTrip(input.source, client);
+    }
+    return halt;
+  }
+
+  /**
+   * Resume trading. Closes the source's circuit breaker once none of its
+   * halts are left open.
+   */
+  static async resume(
+    client: QueryClient,
+    haltId: string,
+    resumedBy: string | null
+  ): Promise<TradingHalt | null> {
+    const halt = await TradingHaltModel.resume(haltId, resumedBy, client);
+    if (!halt) {
+      return null;
+    }
+
+    if (
+      halt.source !== "admin" &&
+      (await TradingHaltModel.countActiveBySource(halt.source, client)) === 0
+    ) {
+      await CircuitBreakerStateModel.close(halt.source, client);
+    }
+    return halt;
+  }
+
+  /**
+   * Tell market subscribers a halt started or ended. Call after commit.
+   */
+  static broadcast(halt: TradingHalt, event: "halted" | "resumed"): void {
+    emitMarketUpdate({
+      market_id: halt.market_id,
+      event,
+      data: {
+        halt_id: halt.id,
+        option_id: halt.option_id,
+        source: halt.source,
+        reason: halt.reason,
+        resume_at: halt.resume_at,
+      },
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Resume every halt whose resume_at has passed
+   */
+  static async resumeDue(
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<number> {
+    const due = await TradingHaltModel.findDue(now);
+
+    let resumed = 0;
+    for (const { id } of due) {
+      const halt = await withTransaction((client) =>
+        this.resume(client, id, null)
+      );
+      if (halt) {
+        this.broadcast(halt, "resumed");
+        resumed++;
+      }
+    }
+    return resumed;
+  }
+}
+
+class TradingHaltProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(`[TradingHalts] Started (interval=${this.pollIntervalMs}ms)`);
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const resumed = await TradingHaltService.resumeDue();
+      if (resumed > 0) {
+        console.log(`[TradingHalts] Resumed ${resumed} halt(s)`);
+      }
+    } catch (error) {
+      console.error("[TradingHalts] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+}
+
+let processorInstance: TradingHaltProcessor | null = null;
+
+export const startTradingHaltProcessor = (): TradingHaltProcessor | null => {
+  if (process.env.NODE_ENV === "test") {
+    console.log("[TradingHalts] Disabled in test environment");
+    return null;
+  }
+
+  if (processorInstance) {
+    return processorInstance;
+  }
+
+  const pollIntervalMs =
+    Number(process.env.TRADING_HALT_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+
+  processorInstance = new TradingHaltProcessor(pollIntervalMs);
+  processorInstance.start();
+
+  return processorInstance;
+};
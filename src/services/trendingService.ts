@@ -0,0 +1,191 @@
+import { pool } from "../db";
+import { MoodringModel } from "../models/Moodring";
+import { TrendingScoreModel } from "../models/TrendingScore";
+import {
+  RankedTrendingScore,
+  TrendingActivity,
+  TrendingRankChange,
+  diffTrendingRanks,
+  rankTrending,
+  resolveTrendingSettings,
+  scoreTrending,
+} from "../utils/trending";
+import { withTransaction } from "../utils/transaction";
+import { emitTrendingUpdate } from "./websocket";
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60_000; // Rescore every 5 minutes
+const BROADCAST_LIMIT = 50; // Only rank changes in the top 50 are pushed
+
+export class TrendingService {
+  /**
+   * Score every open market, store the scores and push rank changes to
+   * clients subscribed to the trending feed
+   */
+  static async scoreAll(now: number = Math.floor(Date.now() / 1000)): Promise<{
+    scored: number;
+    changes: TrendingRankChange[];
+  }> {
+    const settings = resolveTrendingSettings(await MoodringModel.get());
+    const windowStart = now - settings.window_hours * 3600;
+    const halfLifeSeconds = settings.half_life_hours * 3600;
+
+    // Each trade, comment and watchlist add is weighted by
+    // 0.5 ^ (age / half-life), see utils/trending.ts
+    const activityResult = await pool.query(
+      `WITH open_markets AS (
+         SELECT id FROM markets
+         WHERE is_resolved = FALSE AND is_initialized = TRUE
+           AND expiration_timestamp > $1
+       ),
+       trade_activity AS (
+         SELECT market_id,
+           SUM(total_cost * POWER(0.5, ($1 - created_at) / $3::float)) AS volume,
+           COUNT(DISTINCT user_id) AS unique_traders
+         FROM trades
+         WHERE created_at >= $2 AND status = 'completed'
+           AND market_id IN (SELECT id FROM open_markets)
+         GROUP BY market_id
+       ),
+       option_moves AS (
+         SELECT market_id,
+           (ARRAY_AGG(yes_price ORDER BY created_at DESC))[1]
+             - (ARRAY_AGG(yes_price ORDER BY created_at ASC))[1] AS change
+         FROM price_snapshots
+         WHERE created_at >= $2
+           AND market_id IN (SELECT id FROM open_markets)
+         GROUP BY market_id, option_id
+       ),
+       price_activity AS (
+         SELECT market_id, MAX(ABS(change)) AS price_change
+         FROM option_moves
+         GROUP BY market_id
+       ),
+       comment_activity AS (
+         SELECT market_id,
+           SUM(POWER(0.5, ($1 - created_at) / $3::float)) AS comments
+         FROM comments
+         WHERE created_at >= $2 AND is_deleted = FALSE
+           AND market_id IN (SELECT id FROM open_markets)
+         GROUP BY market_id
+       ),
+       watchlist_activity AS (
+         SELECT market_id,
+           SUM(POWER(0.5, ($1 - created_at) / $3::float)) AS watchlist_adds
+         FROM watchlist
+         WHERE created_at >= $2
+           AND market_id IN (SELECT id FROM open_markets)
+         GROUP BY market_id
+       )
+       SELECT m.id AS market_id,
+         COALESCE(t.volume, 0) AS volume,
+         COALESCE(t.unique_traders, 0) AS unique_traders,
+         COALESCE(p.price_change, 0) AS price_change,
+         COALESCE(c.comments, 0) AS comments,
+         COALESCE(w.watchlist_adds, 0) AS watchlist_adds
+       FROM open_markets m
+       LEFT JOIN trade_activity t ON t.market_id = m.id
+       LEFT JOIN price_activity p ON p.market_id = m.id
+       LEFT JOIN comment_activity c ON c.market_id = m.id
+       LEFT JOIN watchlist_activity w ON w.market_id = m.id`,
+      [now, windowStart, halfLifeSeconds]
+    );
+
+    const ranked: RankedTrendingScore[] = rankTrending(
+      activityResult.rows.map((row: TrendingActivity) =>
+        scoreTrending(row, settings)
+      )
+    );
+
+    const changes = await withTransaction(async (client) => {
+      // Lock out a concurrent run so ranks are diffed against the last one
+      await client.query("LOCK TABLE market_trending_scores IN EXCLUSIVE MODE");
+      const previousRanks = await TrendingScoreModel.findRanks(client);
+      await TrendingScoreModel.replaceAll(ranked, previousRanks, now, client);
+      return diffTrendingRanks(previousRanks, ranked, BROADCAST_LIMIT);
+    });
+
+    if (changes.length > 0) {
+      emitTrendingUpdate({ changes, timestamp: new Date(now * 1000) });
+    }
+
+    return { scored: ranked.length, changes };
+  }
+}
+
+class TrendingProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private started = false;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(`[Trending] Started (interval=${this.pollIntervalMs}ms)`);
+    this.pollLoop();
+  }
+
+  stop() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => this.pollLoop(), this.pollIntervalMs);
+  }
+
+  private async pollLoop() {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.isRunning) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const { scored, changes } = await TrendingService.scoreAll();
+      console.log(
+        `[Trending] Scored ${scored} market(s), ${changes.length} rank change(s)`
+      );
+    } catch (error) {
+      console.error("[Trending] Poll loop error:", error);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
+  }
+}
+
+let processorInstance: TrendingProcessor | null = null;
+
+export const startTrendingProcessor = (): TrendingProcessor | null => {
+  if (process.env.NODE_ENV === "test") {
+    console.log("[Trending] Disabled in test environment");
+    return null;
+  }
+
+  if (processorInstance) {
+    return processorInstance;
+  }
+
+  const pollIntervalMs =
+    Number(process.env.TRENDING_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+
+  processorInstance = new TrendingProcessor(pollIntervalMs);
+  processorInstance.start();
+
+  return processorInstance;
+};
@@ -2,6 +2,9 @@ import { Server as HttpServer } from "http";
 import { Server, Socket } from "socket.io";
 import { verifyAccessToken } from "../utils/jwt";
 import { isTokenRevoked } from "../utils/revocation";
+import { LiveRoomModel } from "../models/LiveRoom";
+import { MoodringModel } from "../models/Moodring";
+import { TrendingRankChange } from "../utils/trending";
 
 // Extend Socket interface to include user data
 interface AuthenticatedSocket extends Socket {
@@ -17,6 +20,7 @@ export interface TradeUpdate {
   side: "yes" | "no";
   quantity: number;
   price: number;
+  limit_order_id?: string; // Set when the trade is a resting limit order fill
   timestamp: Date;
 }
 
@@ -31,7 +35,14 @@ export interface PriceUpdate {
 
 export interface MarketUpdate {
   market_id: string;
-  event: "created" | "resolved" | "initialized" | "updated";
+  event:
+    | "created"
+    | "resolved"
+    | "initialized"
+    | "updated"
+    | "status_changed"
+    | "halted"
+    | "resumed";
   data: Record<string, any>;
   timestamp: Date;
 }
@@ -62,6 +73,28 @@ export interface CommentUpdate {
   timestamp: Date;
 }
 
+export interface LiveRoomUpdate {
+  room_id: string;
+  event:
+    | "joined"
+    | "left"
+    | "promoted"
+    | "demoted"
+    | "muted"
+    | "unmuted"
+    | "kicked"
+    | "closed";
+  user_id?: string;
+  participant?: any; // Participant record after the change
+  actor_id?: string; // Host or creator who made a moderation change
+  timestamp: Date;
+}
+
+export interface TrendingUpdate {
+  changes: TrendingRankChange[]; // Rank changes in the top of the trending list
+  timestamp: Date;
+}
+
 /**
  * Initialize WebSocket server
  */
@@ -150,6 +183,8 @@ export const initializeWebSocket = (server: HttpServer): Server => {
 
         if (!isRevoked) {
           socket.userId = payload.id;
+          // Also kept on socket.data so server-side lookups (fetchSockets) can see it
+          socket.data.userId = payload.id;
           console.log(
             `[WebSocket] Client ${socket.id} authenticated as user ${payload.id}`
           );
@@ -229,6 +264,17 @@ export const initializeWebSocket = (server: HttpServer): Server => {
       console.log(`[WebSocket] ${socket.id} unsubscribed from global activity`);
     });
 
+    // Subscribe to trending rank changes
+    socket.on("subscribe:trending", () => {
+      socket.join("trending");
+      console.log(`[WebSocket] ${socket.id} subscribed to trending`);
+    });
+
+    socket.on("unsubscribe:trending", () => {
+      socket.leave("trending");
+      console.log(`[WebSocket] ${socket.id} unsubscribed from trending`);
+    });
+
     // User-specific notifications (requires authentication)
     socket.on("subscribe:notifications", (userId: string) => {
       // Verify user can only subscribe to their own notifications
@@ -337,13 +383,48 @@ export const initializeWebSocket = (server: HttpServer): Server => {
           return;
         }
 
-        // Broadcast message to room
-        io.to(`liveroom:${data.roomId}`).emit("liveroom:message", {
-          room_id: data.roomId,
-          user_id: data.userId,
-          content: data.content.trim(),
-          timestamp: new Date(),
-        });
+        try {
+          if (!(await MoodringModel.isFeatureEnabled("live_rooms"))) {
+            socket.emit("error", {
+              message: "Live rooms are currently disabled",
+            });
+            return;
+          }
+
+          // Only current participants who aren't host-muted may chat
+          const participant = await LiveRoomModel.getParticipant(
+            data.roomId,
+            data.userId
+          );
+          if (!participant) {
+            socket.emit("error", {
+              message: "Join the room before sending messages",
+            });
+            return;
+          }
+          if (participant.is_muted_by_host) {
+            socket.emit("error", { message: "You have been muted by a host" });
+            return;
+          }
+
+          const message = await LiveRoomModel.createMessage({
+            room_id: data.roomId,
+            user_id: data.userId,
+            content: data.content.trim(),
+          });
+
+          // Broadcast message to room
+          io.to(`liveroom:${data.roomId}`).emit("liveroom:message", {
+            id: message.id,
+            room_id: data.roomId,
+            user_id: data.userId,
+            content: message.content,
+            timestamp: new Date(),
+          });
+        } catch (error) {
+          console.error("[WebSocket] Live room message error:", error);
+          socket.emit("error", { message: "Failed to send message" });
+        }
       }
     );
 
@@ -438,6 +519,15 @@ export const emitMarketUpdate = (update: MarketUpdate): void => {
   }
 };
 
+/**
+ * Emit trending rank changes to subscribers
+ */
+export const emitTrendingUpdate = (update: TrendingUpdate): void => {
+  if (!io) return;
+
+  io.to("trending").emit("trending", update);
+};
+
 /**
  * Emit a notification to a specific user
  */
@@ -505,3 +595,29 @@ export const getRoomSize = async (room: string): Promise<number> => {
   const sockets = await io.in(room).allSockets();
   return sockets.size;
 };
+
+/**
+ * Emit a live room participant/moderation update to room subscribers
+ */
+export const emitLiveRoomUpdate = (update: LiveRoomUpdate): void => {
+  if (!io) return;
+
+  io.to(`liveroom:${update.room_id}`).emit("liveroom:update", update);
+};
+
+/**
+ * Unsubscribe every socket of a user from a live room (e.g. after a kick)
+ */
+export const removeUserFromLiveRoom = async (
+  roomId: string,
+  userId: string
+): Promise<void> => {
+  if (!io) return;
+
+  const sockets = await io.in(`liveroom:${roomId}`).fetchSockets();
+  for (const remoteSocket of sockets) {
+    if (remoteSocket.data?.userId === userId) {
+      remoteSocket.leave(`liveroom:${roomId}`);
+    }
+  }
+};
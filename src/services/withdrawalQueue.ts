@@ -4,6 +4,8 @@ import { pool } from "../db";
 import { withTransaction, TransactionError } from "../utils/transaction";
 import { ActivityModel } from "../models/Activity";
 import { NotificationModel } from "../models/Notification";
+import { LedgerService } from "./ledgerService";
+import { LedgerAccounts } from "../utils/ledger";
 import { UUID } from "crypto";
 
 /**
@@ -229,6 +231,14 @@ withdrawalQueue.process(async (job: Job<WithdrawalJobData>) => {
           `UPDATE wallets SET balance_usdc = balance_usdc + $1, updated_at = EXTRACT(EPOCH FROM NOW())::BIGINT WHERE id = $2`,
           [amount, wallet.id]
         );
+        await LedgerService.transfer(
+          client,
+          "withdrawal_refund",
+          LedgerAccounts.hotWallet(),
+          LedgerAccounts.user(userId),
+          amount,
+          { reference_type: "withdrawal", reference_id: withdrawalId }
+        );
       }
 
       // Mark withdrawal as failed
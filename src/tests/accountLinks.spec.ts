@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  AccountLinkEdge,
+  hashDeviceFingerprint,
+  summarizeAccountLinks,
+} from "../utils/accountLinks";
+
+describe("Account Links Tests", function () {
+  const edge = (overrides: Partial<AccountLinkEdge>): AccountLinkEdge => ({
+    user_id: "user-a",
+    linked_user_id: "user-b",
+    link_type: "ip",
+    link_value: "10.0.0.1",
+    last_seen_at: 100,
+    ...overrides,
+  });
+
+  describe("hashDeviceFingerprint", () => {
+    it("hashes the trimmed fingerprint", () => {
+      const hash = hashDeviceFingerprint("  device-123 ");
+      expect(hash).to.match(/^[0-9a-f]{64}$/);
+      expect(hashDeviceFingerprint("device-123")).to.equal(hash);
+      expect(hashDeviceFingerprint("device-456")).to.not.equal(hash);
+    });
+
+    it("ignores missing or implausible fingerprints", () => {
+      expect(hashDeviceFingerprint(undefined)).to.equal(null);
+      expect(hashDeviceFingerprint(42)).to.equal(null);
+      expect(hashDeviceFingerprint("   ")).to.equal(null);
+      expect(hashDeviceFingerprint("x".repeat(1025))).to.equal(null);
+    });
+  });
+
+  describe("summarizeAccountLinks", () => {
+    it("groups links by the other account in either direction", () => {
+      const summary = summarizeAccountLinks("user-b", [
+        edge({}),
+        edge({ link_type: "device", link_value: "hash", last_seen_at: 200 }),
+        edge({ user_id: "user-b", linked_user_id: "user-c" }),
+        edge({ user_id: "user-c", linked_user_id: "user-d" }),
+      ]);
+
+      expect(summary).to.deep.equal([
+        {
+          user_id: "user-a",
+          link_types: ["device", "ip"],
+          shared: [
+            { link_type: "ip", link_value: "10.0.0.1" },
+            { link_type: "device", link_value: "hash" },
+          ],
+          last_seen_at: 200,
+        },
+        {
+          user_id: "user-c",
+          link_types: ["ip"],
+          shared: [{ link_type: "ip", link_value: "10.0.0.1" }],
+          last_seen_at: 100,
+        },
+      ]);
+    });
+
+    it("orders accounts with the same link count by last seen", () => {
+      const summary = summarizeAccountLinks("user-a", [
+        edge({ linked_user_id: "user-b", last_seen_at: 100 }),
+        edge({ linked_user_id: "user-c", last_seen_at: 300 }),
+      ]);
+      expect(summary.map((account) => account.user_id)).to.deep.equal([
+        "user-c",
+        "user-b",
+      ]);
+    });
+  });
+});
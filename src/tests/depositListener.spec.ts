@@ -0,0 +1,351 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+} from "@solana/web3.js";
+import { DepositListener } from "../services/depositListener";
+import { WalletDeposit } from "../models/Deposit";
+import {
+  DepositPriceSource,
+  StaticDepositPriceSource,
+} from "../services/depositPriceSource";
+import {
+  DepositToken,
+  convertToUsdc,
+  parseDepositTokens,
+  quoteDeposit,
+} from "../utils/depositTokens";
+
+describe("Deposit Listener Tests", function () {
+  const usdcMint = Keypair.generate().publicKey.toBase58();
+  const usdtMint = Keypair.generate().publicKey.toBase58();
+  const { tokens } = parseDepositTokens(
+    JSON.stringify([{ symbol: "usdt", mint: usdtMint, decimals: 6 }]),
+    usdcMint
+  );
+  const [usdc, usdt] = tokens;
+
+  const tokenAccount = Keypair.generate().publicKey;
+  const sender = Keypair.generate().publicKey;
+
+  const signatureInfo = (
+    overrides: Partial<ConfirmedSignatureInfo> = {}
+  ): ConfirmedSignatureInfo => ({
+    signature: "sig-1",
+    slot: 100,
+    err: null,
+    memo: null,
+    blockTime: 1_700_000_000,
+    ...overrides,
+  });
+
+  const balance = (accountIndex: number, mint: string, amount: string) => ({
+    accountIndex,
+    mint,
+    owner: "owner",
+    uiTokenAmount: {
+      amount,
+      decimals: 6,
+      uiAmount: Number(amount) / 1e6,
+      uiAmountString: String(Number(amount) / 1e6),
+    },
+  });
+
+  // A legacy transfer of `amount` of `mint` from sender to the token account
+  const transferTx = (mint: string, amount: number) => ({
+    slot: 100,
+    blockTime: 1_700_000_000,
+    transaction: {
+      message: { accountKeys: [sender, tokenAccount] },
+      signatures: ["sig-1"],
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: [
+        balance(0, mint, "50000000"),
+        balance(1, mint, "1000000"),
+      ],
+      postTokenBalances: [
+        balance(0, mint, String(50_000_000 - amount)),
+        balance(1, mint, String(1_000_000 + amount)),
+      ],
+    },
+  });
+
+  const listenerFor = (
+    getTransaction: (signature: string) => Promise<unknown>,
+    priceSource: DepositPriceSource = new StaticDepositPriceSource()
+  ) => {
+    const connection = { getTransaction } as unknown as Connection;
+    return new DepositListener(connection, 1000, 10, tokens, priceSource);
+  };
+
+  describe("fetchTokenDeposit", () => {
+    it("finds the amount received and the sender", async () => {
+      const listener = listenerFor(async () => transferTx(usdcMint, 2_500_000));
+      const deposit = await listener.fetchTokenDeposit(
+        signatureInfo(),
+        tokenAccount,
+        usdc
+      );
+      expect(deposit?.amount).to.equal(2_500_000n);
+      expect(deposit?.source).to.equal(sender.toBase58());
+    });
+
+    it("ignores transfers of another mint", async () => {
+      const listener = listenerFor(async () => transferTx(usdtMint, 2_500_000));
+      expect(
+        await listener.fetchTokenDeposit(signatureInfo(), tokenAccount, usdc)
+      ).to.equal(null);
+    });
+
+    it("ignores transfers to another account", async () => {
+      const listener = listenerFor(async () => transferTx(usdcMint, 2_500_000));
+      expect(
+        await listener.fetchTokenDeposit(
+          signatureInfo(),
+          new PublicKey(Keypair.generate().publicKey.toBase58()),
+          usdc
+        )
+      ).to.equal(null);
+    });
+
+    it("finds a deposit of each mint sent in one transaction", async () => {
+      const usdtAccount = Keypair.generate().publicKey;
+      const listener = listenerFor(async () => ({
+        slot: 100,
+        blockTime: 1_700_000_000,
+        transaction: {
+          message: { accountKeys: [sender, tokenAccount, usdtAccount] },
+          signatures: ["sig-1"],
+        },
+        meta: {
+          err: null,
+          fee: 5000,
+          preBalances: [],
+          postBalances: [],
+          preTokenBalances: [
+            balance(0, usdcMint, "50000000"),
+            balance(0, usdtMint, "50000000"),
+            balance(1, usdcMint, "0"),
+            balance(2, usdtMint, "0"),
+          ],
+          postTokenBalances: [
+            balance(0, usdcMint, "47500000"),
+            balance(0, usdtMint, "46000000"),
+            balance(1, usdcMint, "2500000"),
+            balance(2, usdtMint, "4000000"),
+          ],
+        },
+      }));
+
+      // Both are recorded under the same signature, keyed by mint
+      const usdcDeposit = await listener.fetchTokenDeposit(
+        signatureInfo(),
+        tokenAccount,
+        usdc
+      );
+      const usdtDeposit = await listener.fetchTokenDeposit(
+        signatureInfo(),
+        usdtAccount,
+        usdt
+      );
+      expect(usdcDeposit?.amount).to.equal(2_500_000n);
+      expect(usdtDeposit?.amount).to.equal(4_000_000n);
+      expect(usdtDeposit?.source).to.equal(sender.toBase58());
+    });
+
+    it("skips failed transactions without fetching them", async () => {
+      let fetched = false;
+      const listener = listenerFor(async () => {
+        fetched = true;
+        return transferTx(usdcMint, 2_500_000);
+      });
+      expect(
+        await listener.fetchTokenDeposit(
+          signatureInfo({ err: { InstructionError: [0, "Custom"] } }),
+          tokenAccount,
+          usdc
+        )
+      ).to.equal(null);
+      expect(fetched).to.equal(false);
+    });
+
+    it("skips a transaction the RPC fails to return", async () => {
+      const listener = listenerFor(async () => {
+        throw new Error("ETIMEDOUT");
+      });
+      expect(
+        await listener.fetchTokenDeposit(signatureInfo(), tokenAccount, usdc)
+      ).to.equal(null);
+    });
+  });
+
+  describe("quoteTokenDeposit", () => {
+    it("credits USDC one to one", async () => {
+      const quote = await listenerFor(async () => null).quoteTokenDeposit(
+        usdc,
+        2_500_000n
+      );
+      expect(quote.status).to.equal("credited");
+      expect(quote.credited_amount).to.equal(2_500_000n);
+    });
+
+    it("converts a token quoted within its slippage limit", async () => {
+      const listener = listenerFor(
+        async () => null,
+        new StaticDepositPriceSource({ USDT: 0.998 })
+      );
+      const quote = await listener.quoteTokenDeposit(usdt, 10_000_000n);
+      expect(quote.status).to.equal("credited");
+      expect(quote.credited_amount).to.equal(9_980_000n);
+      expect(quote.rate).to.equal(0.998);
+    });
+
+    it("holds a token quoted off its peg", async () => {
+      const listener = listenerFor(
+        async () => null,
+        new StaticDepositPriceSource({ USDT: 0.95 })
+      );
+      const quote = await listener.quoteTokenDeposit(usdt, 10_000_000n);
+      expect(quote.status).to.equal("held");
+      expect(quote.credited_amount).to.equal(0n);
+      expect(quote.quoted_amount).to.equal(9_500_000n);
+      expect(quote.reason).to.contain("500.0 bps");
+    });
+
+    it("holds a deposit when the price source fails", async () => {
+      const listener = listenerFor(async () => null, {
+        name: "failing",
+        getRate: async () => {
+          throw new Error("unavailable");
+        },
+      });
+      const quote = await listener.quoteTokenDeposit(usdt, 10_000_000n);
+      expect(quote.status).to.equal("held");
+      expect(quote.reason).to.equal("No USDT/USDC rate available");
+    });
+  });
+
+  describe("requoteHeldDeposit", () => {
+    const heldDeposit = (overrides: Partial<WalletDeposit> = {}) =>
+      ({
+        id: "deposit-1",
+        signature: "sig-1",
+        status: "held",
+        amount: 0,
+        token_symbol: "USDT",
+        token_mint: usdtMint,
+        token_amount: "10000000",
+        token_decimals: 6,
+        hold_reason: "No USDT/USDC rate available",
+        ...overrides,
+      } as WalletDeposit);
+
+    it("credits a held deposit once its token is back within its slippage limit", async () => {
+      const listener = listenerFor(
+        async () => null,
+        new StaticDepositPriceSource({ USDT: 0.999 })
+      );
+      const quote = await listener.requoteHeldDeposit(heldDeposit());
+      expect(quote?.status).to.equal("credited");
+      expect(quote?.credited_amount).to.equal(9_990_000n);
+      expect(quote?.rate).to.equal(0.999);
+    });
+
+    it("keeps holding a deposit still quoted off its peg", async () => {
+      const listener = listenerFor(
+        async () => null,
+        new StaticDepositPriceSource({ USDT: 0.9 })
+      );
+      const quote = await listener.requoteHeldDeposit(heldDeposit());
+      expect(quote?.status).to.equal("held");
+      expect(quote?.credited_amount).to.equal(0n);
+    });
+
+    it("skips a deposit of a token that is no longer allowed", async () => {
+      const listener = listenerFor(async () => null);
+      expect(
+        await listener.requoteHeldDeposit(
+          heldDeposit({ token_mint: Keypair.generate().publicKey.toBase58() })
+        )
+      ).to.equal(null);
+    });
+  });
+
+  describe("parseDepositTokens", () => {
+    it("always allows USDC first", () => {
+      const { tokens: parsed, errors } = parseDepositTokens(
+        undefined,
+        usdcMint
+      );
+      expect(errors).to.deep.equal([]);
+      expect(parsed.map((t) => [t.symbol, t.is_base])).to.deep.equal([
+        ["USDC", true],
+      ]);
+    });
+
+    it("applies defaults to configured tokens", () => {
+      expect(usdt).to.deep.equal({
+        symbol: "USDT",
+        mint: usdtMint,
+        decimals: 6,
+        reference_rate: 1,
+        max_slippage_bps: 100,
+        is_base: false,
+      });
+    });
+
+    it("skips invalid and duplicate entries", () => {
+      const { tokens: parsed, errors } = parseDepositTokens(
+        JSON.stringify([
+          { symbol: "BAD", mint: "mint-a", decimals: 40 },
+          { symbol: "DUP", mint: usdcMint, decimals: 6 },
+          {
+            symbol: "PYUSD",
+            mint: "mint-b",
+            decimals: 6,
+            max_slippage_bps: 50,
+          },
+        ]),
+        usdcMint
+      );
+      expect(parsed.map((t) => t.symbol)).to.deep.equal(["USDC", "PYUSD"]);
+      expect(errors).to.have.length(2);
+    });
+
+    it("reports a config that isn't a JSON array", () => {
+      expect(parseDepositTokens("{", usdcMint).errors).to.have.length(1);
+      expect(parseDepositTokens("{}", usdcMint).errors).to.deep.equal([
+        "DEPOSIT_TOKENS must be a JSON array",
+      ]);
+    });
+  });
+
+  describe("convertToUsdc", () => {
+    it("scales between decimals and rounds down", () => {
+      expect(convertToUsdc(1_000_000_000n, 9, 150.25)).to.equal(150_250_000n);
+      expect(convertToUsdc(1n, 9, 0.5)).to.equal(0n);
+      expect(convertToUsdc(3n, 2, 1)).to.equal(30_000n);
+    });
+  });
+
+  describe("quoteDeposit", () => {
+    it("holds a deposit without a rate", () => {
+      const token: DepositToken = { ...usdt, symbol: "SOL", decimals: 9 };
+      expect(quoteDeposit(token, 1_000_000_000n, null)).to.deep.equal({
+        status: "held",
+        credited_amount: 0n,
+        quoted_amount: null,
+        rate: null,
+        reason: "No SOL/USDC rate available",
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { Keypair } from "@solana/web3.js";
+import {
+  parseDepositWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookEventId,
+} from "../utils/depositWebhook";
+
+describe("Deposit Webhook Tests", function () {
+  const secret = "webhook-secret";
+  const now = 1_700_000_000;
+  const body = Buffer.from(JSON.stringify([{ signature: "sig" }]));
+
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const tokenAccount = Keypair.generate().publicKey.toBase58();
+  const mint = Keypair.generate().publicKey.toBase58();
+  const signature = "5".repeat(88);
+
+  const verify = (overrides: {
+    timestamp?: string;
+    signature?: string;
+    id?: string;
+    body?: Buffer;
+  }) =>
+    verifyWebhookSignature({
+      secret,
+      timestamp: String(now),
+      signature: `sha256=${signWebhookPayload(secret, now, body)}`,
+      body,
+      now,
+      ...overrides,
+    });
+
+  describe("verifyWebhookSignature", () => {
+    it("accepts a correctly signed request", () => {
+      expect(verify({})).to.equal(null);
+      expect(
+        verify({ signature: signWebhookPayload(secret, now, body) })
+      ).to.equal(null);
+    });
+
+    it("rejects a tampered body or wrong secret", () => {
+      expect(verify({ body: Buffer.from("[]") })).to.equal("Invalid signature");
+      expect(
+        verify({
+          signature: `sha256=${signWebhookPayload("other", now, body)}`,
+        })
+      ).to.equal("Invalid signature");
+      expect(verify({ signature: "sha256=abc" })).to.equal("Invalid signature");
+    });
+
+    it("rejects a captured request replayed under a new event id", () => {
+      const signed = `sha256=${signWebhookPayload(secret, now, body, "evt_1")}`;
+      expect(verify({ id: "evt_1", signature: signed })).to.equal(null);
+      expect(verify({ id: "evt_2", signature: signed })).to.equal(
+        "Invalid signature"
+      );
+      // Adding an id to a request signed without one doesn't verify either
+      expect(verify({ id: "evt_3" })).to.equal("Invalid signature");
+      expect(verify({ id: "evt.1", signature: signed })).to.equal(
+        "Invalid webhook id"
+      );
+    });
+
+    it("rejects stale or missing timestamps", () => {
+      const stale = String(now - 10 * 60);
+      expect(
+        verify({
+          timestamp: stale,
+          signature: signWebhookPayload(secret, stale, body),
+        })
+      ).to.equal("Timestamp outside the allowed window");
+      expect(verify({ timestamp: "soon" })).to.equal(
+        "Missing or invalid timestamp"
+      );
+    });
+  });
+
+  describe("webhookEventId", () => {
+    it("prefers the provider's id and falls back to a body hash", () => {
+      expect(webhookEventId(" evt_1 ", body)).to.equal("evt_1");
+      expect(webhookEventId(undefined, body)).to.match(/^sha256:[0-9a-f]{64}$/);
+      expect(webhookEventId(undefined, body)).to.equal(
+        webhookEventId("", body)
+      );
+    });
+  });
+
+  describe("parseDepositWebhook", () => {
+    it("reads Helius enhanced transactions", () => {
+      const { notifications, errors } = parseDepositWebhook(
+        JSON.stringify([
+          {
+            signature,
+            slot: 250,
+            timestamp: now,
+            transactionError: null,
+            tokenTransfers: [
+              {
+                fromUserAccount: Keypair.generate().publicKey.toBase58(),
+                toUserAccount: wallet,
+                toTokenAccount: tokenAccount,
+                mint,
+                tokenAmount: 5,
+              },
+            ],
+          },
+        ])
+      );
+      expect(errors).to.deep.equal([]);
+      expect(notifications).to.deep.equal([
+        {
+          signature,
+          slot: 250,
+          block_time: now,
+          failed: false,
+          accounts: [wallet, tokenAccount],
+          mints: [mint],
+        },
+      ]);
+    });
+
+    it("reads plain notifications and wrapped arrays", () => {
+      const { notifications } = parseDepositWebhook(
+        JSON.stringify({
+          transactions: [{ signature, accounts: [wallet], err: "failed" }],
+        })
+      );
+      expect(notifications[0].accounts).to.deep.equal([wallet]);
+      expect(notifications[0].failed).to.equal(true);
+      expect(notifications[0].mints).to.deep.equal([]);
+    });
+
+    it("reports unparseable transactions without dropping the rest", () => {
+      const { notifications, errors } = parseDepositWebhook(
+        JSON.stringify([
+          { signature: "not-a-signature", accounts: [wallet] },
+          { signature, accounts: ["0x123"] },
+          { signature, accounts: [wallet] },
+        ])
+      );
+      expect(notifications).to.have.length(1);
+      expect(errors.map((e) => e.error)).to.deep.equal([
+        "transactions[0]: signature is missing or invalid",
+        `transactions[1]: no accounts listed for ${signature}`,
+      ]);
+    });
+
+    it("throws on a body that isn't JSON or has no transactions", () => {
+      expect(() => parseDepositWebhook("{")).to.throw(/not valid JSON/);
+      expect(() => parseDepositWebhook("[]")).to.throw(/no transactions/);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { calculateResolvedPayout } from "../utils/scalar";
+import {
+  EquitySnapshot,
+  PositionHolding,
+  buildEquityCurve,
+  equityBucketStart,
+  valueLiquidity,
+  valuePortfolio,
+  valuePosition,
+} from "../utils/equity";
+
+describe("Equity Tests", function () {
+  const holding = (overrides: Partial<PositionHolding>): PositionHolding => ({
+    option_id: "option-1",
+    yes_shares: 10_000_000,
+    no_shares: 0,
+    total_yes_cost: 4_000_000,
+    total_no_cost: 0,
+    realized_pnl: 0,
+    option_resolved: false,
+    winning_side: null,
+    ...overrides,
+  });
+
+  const snapshot = (
+    bucketStart: number,
+    totalValue: number,
+    netDeposits: number,
+    realizedPnl = 0,
+    unrealizedPnl = 0
+  ): EquitySnapshot => ({
+    bucket_start: bucketStart,
+    cash_balance: totalValue,
+    positions_value: 0,
+    liquidity_value: 0,
+    total_value: totalValue,
+    cost_basis: 0,
+    realized_pnl: realizedPnl,
+    unrealized_pnl: unrealizedPnl,
+    net_deposits: netDeposits,
+  });
+
+  describe("equityBucketStart", () => {
+    it("rounds down to the hour and the UTC day", () => {
+      const at = Date.UTC(2026, 4, 17, 13, 45, 12) / 1000;
+      expect(equityBucketStart(at, "1h")).to.equal(
+        Date.UTC(2026, 4, 17, 13) / 1000
+      );
+      expect(equityBucketStart(at, "1d")).to.equal(
+        Date.UTC(2026, 4, 17) / 1000
+      );
+    });
+  });
+
+  describe("valuePosition", () => {
+    it("values open shares at the latest price", () => {
+      const value = valuePosition(
+        holding({ no_shares: 2_000_000, total_no_cost: 1_000_000 }),
+        { yes_price: 0.65, no_price: 0.35 }
+      );
+      expect(value).to.equal(6_500_000 + 700_000);
+    });
+
+    it("falls back to cost without a price", () => {
+      expect(valuePosition(holding({}), null)).to.equal(4_000_000);
+    });
+
+    it("pays 1 USDC per winning share once resolved", () => {
+      const resolved = holding({
+        no_shares: 3_000_000,
+        option_resolved: true,
+      });
+      expect(valuePosition({ ...resolved, winning_side: 1 }, null)).to.equal(
+        10_000_000
+      );
+      expect(valuePosition({ ...resolved, winning_side: 2 }, null)).to.equal(
+        3_000_000
+      );
+    });
+
+    it("values resolved scalar shares at their pro rata payout", () => {
+      const resolved = holding({
+        no_shares: 4_000_000,
+        option_resolved: true,
+        winning_side: 1,
+        is_scalar: true,
+        scalar_lower_bound: 0,
+        scalar_upper_bound: 200,
+        resolved_value: "150",
+      });
+      // LONG pays 0.75 and SHORT 0.25 per share
+      expect(valuePosition(resolved, null)).to.equal(7_500_000 + 1_000_000);
+      expect(valuePosition(resolved, null)).to.equal(
+        calculateResolvedPayout(resolved, 10_000_000, 4_000_000)
+      );
+    });
+  });
+
+  describe("valueLiquidity", () => {
+    it("values LP shares at the pool's share value", () => {
+      expect(
+        valueLiquidity({
+          shares: 250,
+          deposited_amount: 1_000_000,
+          market_resolved: false,
+          total_shared_lp_shares: 1_000,
+          shared_pool_liquidity: 8_000_000,
+          accumulated_lp_fees: 400_000,
+        })
+      ).to.equal(2_100_000);
+    });
+
+    it("uses the deposit once the market resolved", () => {
+      expect(
+        valueLiquidity({
+          shares: 250,
+          deposited_amount: 1_000_000,
+          market_resolved: true,
+          total_shared_lp_shares: 1_000,
+          shared_pool_liquidity: 8_000_000,
+          accumulated_lp_fees: 0,
+        })
+      ).to.equal(1_000_000);
+    });
+  });
+
+  describe("valuePortfolio", () => {
+    it("adds cash, positions and liquidity and splits P&L", () => {
+      const valuation = valuePortfolio({
+        cashBalance: 5_000_000,
+        positions: [
+          holding({ realized_pnl: 1_500_000 }),
+          // Closed position: only its realized P&L counts
+          holding({
+            option_id: "option-2",
+            yes_shares: 0,
+            total_yes_cost: 0,
+            realized_pnl: -500_000,
+          }),
+        ],
+        prices: new Map([["option-1", { yes_price: 0.5, no_price: 0.5 }]]),
+        liquidity: [],
+        netDeposits: 8_000_000,
+      });
+
+      expect(valuation).to.deep.equal({
+        cash_balance: 5_000_000,
+        positions_value: 5_000_000,
+        liquidity_value: 0,
+        total_value: 10_000_000,
+        cost_basis: 4_000_000,
+        realized_pnl: 1_000_000,
+        unrealized_pnl: 1_000_000,
+        net_deposits: 8_000_000,
+      });
+    });
+  });
+
+  describe("buildEquityCurve", () => {
+    it("reports P&L per bucket", () => {
+      const curve = buildEquityCurve([
+        snapshot(200, 11_000_000, 10_000_000, 500_000, 500_000),
+        snapshot(100, 10_000_000, 10_000_000, 0, 0),
+      ]);
+      expect(curve.points.map((p) => p.bucket_start)).to.deep.equal([100, 200]);
+      expect(curve.points[1].total_pnl).to.equal(1_000_000);
+      expect(curve.points[1].pnl_change).to.equal(1_000_000);
+      expect(curve.summary.total_pnl_change).to.equal(1_000_000);
+      expect(curve.summary.return_percent).to.equal(10);
+    });
+
+    it("doesn't count deposits and withdrawals as returns", () => {
+      const curve = buildEquityCurve([
+        snapshot(100, 10_000_000, 10_000_000),
+        snapshot(200, 20_000_000, 20_000_000), // deposited 10
+        snapshot(300, 5_000_000, 5_000_000), // withdrew 15
+      ]);
+      expect(curve.points.map((p) => p.return_percent)).to.deep.equal([
+        0, 0, 0,
+      ]);
+      expect(curve.summary.max_drawdown_percent).to.equal(0);
+      expect(curve.summary.net_deposits_change).to.equal(-5_000_000);
+    });
+
+    it("measures drawdown from the highest return", () => {
+      const curve = buildEquityCurve([
+        snapshot(100, 10_000_000, 10_000_000),
+        snapshot(200, 12_000_000, 10_000_000),
+        snapshot(300, 9_000_000, 10_000_000),
+        snapshot(400, 10_800_000, 10_000_000),
+      ]);
+      expect(curve.points.map((p) => p.drawdown_percent)).to.deep.equal([
+        0, 0, -25, -10,
+      ]);
+      expect(curve.summary.max_drawdown_percent).to.equal(-25);
+      expect(curve.summary.current_drawdown_percent).to.equal(-10);
+      expect(curve.summary.peak_value).to.equal(12_000_000);
+    });
+
+    it("handles an empty history", () => {
+      const curve = buildEquityCurve([]);
+      expect(curve.points).to.deep.equal([]);
+      expect(curve.summary.end_value).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  LedgerAccounts,
+  LedgerImbalanceError,
+  accountBalance,
+  credit,
+  debit,
+  diffBalances,
+  netProtocolFee,
+  normalizeEntries,
+  tradeFeeCredits,
+} from "../utils/ledger";
+import { calculateFees } from "../utils/tradeUtils";
+
+describe("Ledger Tests", function () {
+  const user = LedgerAccounts.user("user-1");
+  const pool = LedgerAccounts.marketPool("market-1");
+
+  const sum = (
+    entries: ReturnType<typeof normalizeEntries>,
+    direction: "debit" | "credit"
+  ) =>
+    entries
+      .filter((e) => e.direction === direction)
+      .reduce((total, e) => total + e.amount, 0);
+
+  describe("normalizeEntries", () => {
+    it("keeps a balanced transfer as is", () => {
+      const entries = normalizeEntries([debit(user, 500), credit(pool, 500)]);
+      expect(entries).to.deep.equal([debit(user, 500), credit(pool, 500)]);
+    });
+
+    it("drops zero entries and flips negative ones", () => {
+      const entries = normalizeEntries([
+        debit(LedgerAccounts.adjustments(), -250),
+        credit(user, -250),
+        credit(pool, 0),
+      ]);
+      expect(entries).to.deep.equal([
+        credit(LedgerAccounts.adjustments(), 250),
+        debit(user, 250),
+      ]);
+    });
+
+    it("throws when debits don't equal credits", () => {
+      expect(() =>
+        normalizeEntries([debit(user, 500), credit(pool, 499)])
+      ).to.throw(LedgerImbalanceError, "debits 500 != credits 499");
+    });
+
+    it("throws on fractional amounts", () => {
+      expect(() =>
+        normalizeEntries([debit(user, 0.5), credit(pool, 0.5)])
+      ).to.throw(LedgerImbalanceError, "whole number");
+    });
+  });
+
+  describe("accountBalance", () => {
+    it("counts credits as positive on liability accounts", () => {
+      expect(accountBalance("user", 100, 350)).to.equal(250);
+      expect(accountBalance("market_pool", 100, 350)).to.equal(250);
+    });
+
+    it("counts debits as positive on the hot wallet and adjustments", () => {
+      expect(accountBalance("hot_wallet", 350, 100)).to.equal(250);
+      expect(accountBalance("adjustments", 350, 100)).to.equal(250);
+    });
+  });
+
+  describe("tradeFeeCredits", () => {
+    it("balances a buy whose fee rounding leaves a residue", () => {
+      const rawCost = 1_000_100;
+      const fees = calculateFees(rawCost, 50, 50, 50);
+      expect(fees.totalFee).to.be.greaterThan(
+        fees.protocolFee + fees.creatorFee + fees.lpFee
+      );
+
+      const referralReward = Math.floor(fees.protocolFee / 10);
+      const entries = normalizeEntries([
+        debit(user, rawCost + fees.totalFee),
+        credit(pool, rawCost),
+        ...tradeFeeCredits("market-1", { ...fees, referralReward }),
+      ]);
+
+      expect(sum(entries, "debit")).to.equal(sum(entries, "credit"));
+      const protocol = entries.find((e) => e.account.type === "protocol_fees");
+      expect(protocol!.amount).to.equal(fees.protocolFee - referralReward);
+      const referral = entries.find(
+        (e) => e.account.type === "referral_rewards"
+      );
+      expect(referral!.amount).to.equal(referralReward);
+      const rounding = entries.find((e) => e.account.type === "adjustments");
+      expect(rounding!.amount).to.equal(
+        fees.totalFee - fees.protocolFee - fees.creatorFee - fees.lpFee
+      );
+    });
+
+    it("omits the adjustment when the fees round evenly", () => {
+      const entries = normalizeEntries(
+        tradeFeeCredits("market-1", {
+          totalFee: 300,
+          lpFee: 100,
+          creatorFee: 100,
+          protocolFee: 100,
+          referralReward: 0,
+        }).concat(debit(user, 300))
+      );
+      expect(entries.map((e) => e.account.type)).to.deep.equal([
+        "lp_fee_pool",
+        "creator_fees",
+        "protocol_fees",
+        "user",
+      ]);
+    });
+
+    it("credits the protocol the same net fee recorded on the market", () => {
+      const fees = calculateFees(2_000_000, 50, 50, 50);
+      const referralReward = Math.floor(fees.protocolFee / 5);
+      const marketProtocolFee = netProtocolFee({
+        protocolFee: fees.protocolFee,
+        referralReward,
+      });
+
+      const entries = normalizeEntries(
+        tradeFeeCredits("market-1", { ...fees, referralReward }).concat(
+          debit(user, fees.totalFee)
+        )
+      );
+      const protocol = entries.find((e) => e.account.type === "protocol_fees");
+      const referral = entries.find(
+        (e) => e.account.type === "referral_rewards"
+      );
+      expect(protocol!.amount).to.equal(marketProtocolFee);
+      expect(marketProtocolFee + referral!.amount).to.equal(fees.protocolFee);
+    });
+  });
+
+  describe("diffBalances", () => {
+    it("reports accounts that differ or exist on one side only", () => {
+      const stored = new Map<string | null, number>([
+        ["a", 100],
+        ["b", 200],
+        ["c", 0],
+      ]);
+      const ledger = new Map<string | null, number>([
+        ["a", 100],
+        ["b", 150],
+        ["d", 25],
+      ]);
+
+      const mismatches = diffBalances("wallet_balance", "user", stored, ledger);
+      expect(mismatches).to.deep.equal([
+        {
+          check: "wallet_balance",
+          account_type: "user",
+          account_id: "b",
+          expected: 200,
+          actual: 150,
+          difference: -50,
+        },
+        {
+          check: "wallet_balance",
+          account_type: "user",
+          account_id: "d",
+          expected: 0,
+          actual: 25,
+          difference: 25,
+        },
+      ]);
+    });
+  });
+});
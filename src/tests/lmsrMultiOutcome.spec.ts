@@ -0,0 +1,312 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { BN } from "@coral-xyz/anchor";
+import {
+  calculate_buy_cost,
+  calculate_yes_price,
+  calculate_no_price,
+  calculate_multi_buy_cost,
+  calculate_multi_sell_payout,
+  calculate_multi_prices,
+  calculate_option_prices,
+  PRECISION,
+  InvariantViolationError,
+} from "../utils/lmsr";
+import { TradeService } from "../services/tradeService";
+import { TransactionError } from "../utils/transaction";
+
+describe("Exclusive (Multi-Outcome) Markets", function () {
+  this.timeout(10000);
+
+  const LIQUIDITY_PARAM = new BN(1_000_000_000); // 1000 USDC scaled
+  const SMALL_LIQUIDITY = new BN(100_000_000); // 100 USDC scaled
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  it("should maintain price invariant (sum of prices = PRECISION)", () => {
+    const testCases = [
+      [0, 0],
+      [0, 0, 0],
+      [1_000_000_000, 0, 0],
+      [500_000_000, 1_500_000_000, 250_000_000, 0],
+      [100_000, 100_000, 100_000, 100_000, 100_000],
+      [10_000_000_000, 1, 2_000_000_000, 7, 3_333_333_333, 0],
+    ];
+
+    for (const quantities of testCases) {
+      const prices = calculate_multi_prices(quantities, LIQUIDITY_PARAM);
+      expect(prices).to.have.length(quantities.length);
+      expect(
+        sum(prices),
+        `Price sum should equal PRECISION for q=[${quantities.join(", ")}]`
+      ).to.equal(PRECISION.toNumber());
+      for (const price of prices) {
+        expect(price).to.be.at.least(0);
+        expect(price).to.be.at.most(PRECISION.toNumber());
+      }
+    }
+  });
+
+  it("should price a balanced market evenly", () => {
+    const prices = calculate_multi_prices(
+      [1_000_000_000, 1_000_000_000, 1_000_000_000, 1_000_000_000],
+      LIQUIDITY_PARAM
+    );
+
+    for (const price of prices) {
+      expect(price).to.be.closeTo(250_000, 1);
+    }
+  });
+
+  it("should match the binary functions for two outcomes", () => {
+    const testCases = [
+      { yes: 0, no: 1_000_000_000 },
+      { yes: 500_000_000, no: 1_500_000_000 },
+      { yes: 2_000_000_000, no: 500_000_000 },
+    ];
+
+    for (const testCase of testCases) {
+      const quantities = [new BN(testCase.yes), new BN(testCase.no)];
+      const [yes_price, no_price] = calculate_multi_prices(
+        quantities,
+        LIQUIDITY_PARAM
+      );
+      expect(yes_price).to.be.closeTo(
+        calculate_yes_price(quantities[0], quantities[1], LIQUIDITY_PARAM),
+        1
+      );
+      expect(no_price).to.be.closeTo(
+        calculate_no_price(quantities[0], quantities[1], LIQUIDITY_PARAM),
+        1
+      );
+
+      const multi_cost = calculate_multi_buy_cost(
+        quantities,
+        0,
+        new BN(1_000_000),
+        LIQUIDITY_PARAM
+      );
+      const binary_cost = calculate_buy_cost(
+        quantities[0],
+        quantities[1],
+        new BN(1_000_000),
+        new BN(0),
+        LIQUIDITY_PARAM
+      );
+      expect(multi_cost).to.be.closeTo(binary_cost, 1);
+    }
+  });
+
+  it("should raise the bought outcome's price and lower all others", () => {
+    const before = [1_000_000_000, 500_000_000, 0];
+    const after = [1_000_000_000, 600_000_000, 0];
+
+    const prices_before = calculate_multi_prices(before, LIQUIDITY_PARAM);
+    const prices_after = calculate_multi_prices(after, LIQUIDITY_PARAM);
+
+    expect(prices_after[1]).to.be.greaterThan(prices_before[1]);
+    expect(prices_after[0]).to.be.lessThan(prices_before[0]);
+    expect(prices_after[2]).to.be.lessThan(prices_before[2]);
+  });
+
+  it("should price a buy between the marginal prices before and after", () => {
+    const quantities = [1_000_000_000, 500_000_000, 0];
+    const amount = 100_000_000; // 100 shares
+
+    const cost = calculate_multi_buy_cost(
+      quantities,
+      2,
+      amount,
+      LIQUIDITY_PARAM
+    );
+    const price_before = calculate_multi_prices(quantities, LIQUIDITY_PARAM)[2];
+    const price_after = calculate_multi_prices(
+      [1_000_000_000, 500_000_000, amount],
+      LIQUIDITY_PARAM
+    )[2];
+
+    // Convexity: average price lies between the marginal prices
+    expect(cost).to.be.greaterThan(
+      (price_before * amount) / PRECISION.toNumber()
+    );
+    expect(cost).to.be.lessThan((price_after * amount) / PRECISION.toNumber());
+    // A share never costs more than its 1 USDC payout
+    expect(cost).to.be.lessThan(amount);
+  });
+
+  it("should bound the market maker's loss by b * ln(n)", () => {
+    for (const n of [2, 3, 5, 10]) {
+      const quantities = new Array(n).fill(0);
+      const amount = 50_000_000_000; // 50,000 shares of a single outcome
+
+      const cost = calculate_multi_buy_cost(
+        quantities,
+        0,
+        amount,
+        LIQUIDITY_PARAM
+      );
+
+      // If outcome 0 wins, the pool pays `amount` having collected `cost`
+      const max_loss = LIQUIDITY_PARAM.toNumber() * Math.log(n);
+      expect(amount - cost).to.be.at.most(Math.ceil(max_loss));
+      expect(amount - cost).to.be.greaterThan(0);
+    }
+  });
+
+  it("should be path independent (cost depends only on the final state)", () => {
+    const quantities = [200_000_000, 300_000_000, 100_000_000];
+
+    // Buy outcome 0 then outcome 1, vs outcome 1 then outcome 0
+    const cost_a =
+      calculate_multi_buy_cost(quantities, 0, 50_000_000, LIQUIDITY_PARAM) +
+      calculate_multi_buy_cost(
+        [250_000_000, 300_000_000, 100_000_000],
+        1,
+        70_000_000,
+        LIQUIDITY_PARAM
+      );
+    const cost_b =
+      calculate_multi_buy_cost(quantities, 1, 70_000_000, LIQUIDITY_PARAM) +
+      calculate_multi_buy_cost(
+        [200_000_000, 370_000_000, 100_000_000],
+        0,
+        50_000_000,
+        LIQUIDITY_PARAM
+      );
+
+    expect(cost_a).to.be.closeTo(cost_b, 2);
+  });
+
+  it("should prevent round-trip exploitation", () => {
+    let quantities = [1_000_000_000, 1_000_000_000, 1_000_000_000];
+    let total_cost = 0;
+    let total_payout = 0;
+
+    for (let i = 0; i < 5; i++) {
+      const outcome = i % 3;
+      const amount = 100_000 * (i + 1);
+
+      total_cost += calculate_multi_buy_cost(
+        quantities,
+        outcome,
+        amount,
+        LIQUIDITY_PARAM
+      );
+      quantities = quantities.map((q, j) => (j === outcome ? q + amount : q));
+
+      total_payout += calculate_multi_sell_payout(
+        quantities,
+        outcome,
+        amount,
+        LIQUIDITY_PARAM
+      );
+      quantities = quantities.map((q, j) => (j === outcome ? q - amount : q));
+    }
+
+    // Round trips return at most what was paid (within rounding)
+    expect(total_payout).to.be.at.most(total_cost + 5);
+  });
+
+  it("should return zero cost for buying zero shares", () => {
+    expect(
+      calculate_multi_buy_cost(
+        [1_000_000_000, 0, 0],
+        1,
+        new BN(0),
+        LIQUIDITY_PARAM
+      )
+    ).to.equal(0);
+  });
+
+  it("should reject selling more shares than outstanding", () => {
+    expect(() => {
+      calculate_multi_sell_payout(
+        [1_000_000, 5_000_000, 0],
+        0,
+        new BN(2_000_000),
+        LIQUIDITY_PARAM
+      );
+    }).to.throw("Arithmetic underflow");
+  });
+
+  it("should reject invalid outcomes and zero liquidity", () => {
+    expect(() => {
+      calculate_multi_buy_cost([0, 0, 0], 3, 1_000_000, LIQUIDITY_PARAM);
+    }).to.throw(InvariantViolationError);
+    expect(() => {
+      calculate_multi_buy_cost([0], 0, 1_000_000, LIQUIDITY_PARAM);
+    }).to.throw(InvariantViolationError);
+    expect(() => {
+      calculate_multi_prices([1000, 1000, 1000], new BN(0));
+    }).to.throw("Division by zero");
+  });
+
+  it("should handle extreme quantity ratios without overflow", () => {
+    const prices = calculate_multi_prices(
+      [1_000_000_000_000, 1_000, 0, 5],
+      SMALL_LIQUIDITY
+    );
+
+    expect(prices[0]).to.equal(PRECISION.toNumber());
+    expect(sum(prices)).to.equal(PRECISION.toNumber());
+
+    const cost = calculate_multi_buy_cost(
+      [1_000_000_000_000, 1_000, 0, 5],
+      0,
+      1_000_000,
+      SMALL_LIQUIDITY
+    );
+    // The dominant outcome trades at (almost exactly) its 1 USDC payout
+    expect(cost).to.be.closeTo(1_000_000, 1);
+  });
+
+  describe("calculate_option_prices", () => {
+    const options = [
+      { yes_quantity: 1_000_000_000, no_quantity: 0 },
+      { yes_quantity: 500_000_000, no_quantity: 200_000_000 },
+      { yes_quantity: 0, no_quantity: 0 },
+    ];
+
+    it("should price exclusive options together", () => {
+      expect(
+        calculate_option_prices(options, LIQUIDITY_PARAM, true)
+      ).to.deep.equal(
+        calculate_multi_prices(
+          options.map((option) => option.yes_quantity),
+          LIQUIDITY_PARAM
+        )
+      );
+    });
+
+    it("should price other options as separate YES/NO pairs", () => {
+      expect(
+        calculate_option_prices(options, LIQUIDITY_PARAM, false)
+      ).to.deep.equal(
+        options.map((option) =>
+          calculate_yes_price(
+            option.yes_quantity,
+            option.no_quantity,
+            LIQUIDITY_PARAM
+          )
+        )
+      );
+    });
+  });
+
+  describe("checkSideTradable", () => {
+    it("rejects NO orders and triggers on exclusive markets", () => {
+      expect(() =>
+        TradeService.checkSideTradable({ is_exclusive: true }, "no")
+      ).to.throw(TransactionError, "only trade YES shares");
+    });
+
+    it("allows YES on exclusive markets and either side elsewhere", () => {
+      expect(() =>
+        TradeService.checkSideTradable({ is_exclusive: true }, "yes")
+      ).to.not.throw();
+      expect(() =>
+        TradeService.checkSideTradable({ is_exclusive: false }, "no")
+      ).to.not.throw();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { MarketStatus } from "../models/Resolution";
+import {
+  MARKET_STATUS_TRANSITIONS,
+  canTransitionMarketStatus,
+  isTradingClosed,
+} from "../utils/marketLifecycle";
+
+describe("Market Lifecycle Tests", function () {
+  const ALL_STATUSES = Object.values(MarketStatus);
+
+  describe("Status transitions", () => {
+    it("should define transitions for every status", () => {
+      for (const status of ALL_STATUSES) {
+        expect(MARKET_STATUS_TRANSITIONS).to.have.property(status);
+      }
+    });
+
+    it("should allow the normal resolution path", () => {
+      expect(
+        canTransitionMarketStatus(MarketStatus.OPEN, MarketStatus.RESOLVING)
+      ).to.be.true;
+      expect(
+        canTransitionMarketStatus(MarketStatus.RESOLVING, MarketStatus.RESOLVED)
+      ).to.be.true;
+      expect(
+        canTransitionMarketStatus(MarketStatus.OPEN, MarketStatus.RESOLVED)
+      ).to.be.true;
+    });
+
+    it("should allow disputes and their settlement", () => {
+      expect(
+        canTransitionMarketStatus(MarketStatus.RESOLVING, MarketStatus.DISPUTED)
+      ).to.be.true;
+      expect(
+        canTransitionMarketStatus(MarketStatus.RESOLVED, MarketStatus.DISPUTED)
+      ).to.be.true;
+      expect(
+        canTransitionMarketStatus(MarketStatus.DISPUTED, MarketStatus.RESOLVED)
+      ).to.be.true;
+      expect(
+        canTransitionMarketStatus(MarketStatus.DISPUTED, MarketStatus.RESOLVING)
+      ).to.be.true;
+    });
+
+    it("should never reopen a market", () => {
+      for (const status of ALL_STATUSES) {
+        expect(canTransitionMarketStatus(status, MarketStatus.OPEN)).to.be
+          .false;
+      }
+    });
+
+    it("should not move a resolved market back to resolving", () => {
+      expect(
+        canTransitionMarketStatus(MarketStatus.RESOLVED, MarketStatus.RESOLVING)
+      ).to.be.false;
+    });
+
+    it("should allow voiding from any status and never leave VOIDED", () => {
+      for (const status of ALL_STATUSES) {
+        expect(canTransitionMarketStatus(status, MarketStatus.VOIDED)).to.equal(
+          status !== MarketStatus.VOIDED
+        );
+        expect(canTransitionMarketStatus(MarketStatus.VOIDED, status)).to.be
+          .false;
+      }
+    });
+
+    it("should not treat staying in a status as a transition", () => {
+      for (const status of ALL_STATUSES) {
+        expect(canTransitionMarketStatus(status, status)).to.be.false;
+      }
+    });
+  });
+
+  describe("Trading window", () => {
+    const expiration = 1_700_000_000;
+
+    it("should be open before expiration", () => {
+      expect(
+        isTradingClosed({ expiration_timestamp: expiration }, expiration - 1)
+      ).to.be.false;
+    });
+
+    it("should close at expiration", () => {
+      expect(isTradingClosed({ expiration_timestamp: expiration }, expiration))
+        .to.be.true;
+      expect(
+        isTradingClosed(
+          { expiration_timestamp: String(expiration) },
+          expiration + 60
+        )
+      ).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { BN } from "@coral-xyz/anchor";
+import { calculate_buy_cost, calculate_sell_payout } from "../utils/lmsr";
+import {
+  MarketReplayService,
+  ReplayEvent,
+  ReplayMarketSetup,
+  StoredMarketState,
+} from "../services/marketReplayService";
+
+describe("Market Replay Tests", function () {
+  this.timeout(10000);
+
+  const setup: ReplayMarketSetup = {
+    base_liquidity_parameter: 100000,
+    is_exclusive: false,
+    option_ids: ["opt-1"],
+  };
+  const initialize: ReplayEvent = {
+    kind: "initialize",
+    ref: "act-1",
+    at: 100,
+    user_id: "creator",
+    liquidity: 100_000_000,
+    lp_shares: 100_000_000,
+  };
+
+  // A buy followed by a sell, priced the way TradeService prices them
+  const buildHistory = (): ReplayEvent[] => {
+    // max(base * 1000, sqrt(100 USDC) * 10000)
+    const initialB = 100_000_000;
+    const buyCost = Math.round(
+      calculate_buy_cost(
+        new BN(0),
+        new BN(0),
+        new BN(10_000_000),
+        new BN(0),
+        new BN(initialB)
+      )
+    );
+    const replayed = MarketReplayService.replay(setup, [
+      initialize,
+      {
+        kind: "trade",
+        ref: "trade-1",
+        at: 200,
+        user_id: "alice",
+        option_id: "opt-1",
+        trade_type: "buy",
+        side: "yes",
+        quantity: 10_000_000,
+        total_cost: buyCost + 100_000,
+        fees_paid: 100_000,
+      },
+    ]);
+    const bAfterBuy = replayed.state.liquidity_parameter;
+    const sellPayout = Math.round(
+      calculate_sell_payout(
+        new BN(10_000_000),
+        new BN(0),
+        new BN(4_000_000),
+        new BN(0),
+        new BN(bAfterBuy)
+      )
+    );
+
+    return [
+      initialize,
+      {
+        kind: "trade",
+        ref: "trade-1",
+        at: 200,
+        user_id: "alice",
+        option_id: "opt-1",
+        trade_type: "buy",
+        side: "yes",
+        quantity: 10_000_000,
+        total_cost: buyCost + 100_000,
+        fees_paid: 100_000,
+      },
+      {
+        kind: "trade",
+        ref: "trade-2",
+        at: 300,
+        user_id: "alice",
+        option_id: "opt-1",
+        trade_type: "sell",
+        side: "yes",
+        quantity: 4_000_000,
+        total_cost: sellPayout - 50_000,
+        fees_paid: 50_000,
+      },
+    ];
+  };
+
+  const storedFrom = (
+    state: ReturnType<typeof MarketReplayService.replay>["state"]
+  ): StoredMarketState => ({
+    shared_pool_liquidity: state.shared_pool_liquidity,
+    liquidity_parameter: state.liquidity_parameter,
+    total_shared_lp_shares: state.total_shared_lp_shares,
+    options: Object.entries(state.options).map(([id, option]) => ({
+      id,
+      ...option,
+      is_resolved: false,
+    })),
+    positions: Object.values(state.positions).map((p) => ({ ...p })),
+    lp_positions: Object.values(state.lp_positions).map((lp) => ({ ...lp })),
+  });
+
+  describe("Event ordering", () => {
+    it("should order same-second events by kind, then by ref", () => {
+      const sorted = MarketReplayService.sortEvents([
+        {
+          kind: "claim",
+          ref: "c",
+          at: 5,
+          user_id: "u",
+          option_id: "o",
+          payout: 0,
+          realized_pnl: null,
+        },
+        {
+          kind: "trade",
+          ref: "t2",
+          at: 5,
+          user_id: "u",
+          option_id: "o",
+          trade_type: "buy",
+          side: "yes",
+          quantity: 1,
+          total_cost: 1,
+          fees_paid: 0,
+        },
+        {
+          kind: "trade",
+          ref: "t1",
+          at: 5,
+          user_id: "u",
+          option_id: "o",
+          trade_type: "buy",
+          side: "yes",
+          quantity: 1,
+          total_cost: 1,
+          fees_paid: 0,
+        },
+        { ...initialize, at: 5 },
+        {
+          kind: "liquidity_added",
+          ref: "a",
+          at: 1,
+          user_id: "u",
+          amount: 1,
+          shares_minted: 1,
+        },
+      ]);
+
+      expect(sorted.map((event) => event.ref)).to.deep.equal([
+        "a",
+        "act-1",
+        "t1",
+        "t2",
+        "c",
+      ]);
+    });
+  });
+
+  describe("Replay", () => {
+    it("should rebuild pool, quantities and positions from a consistent history", () => {
+      const events = buildHistory();
+      const { state, trade_mismatches } = MarketReplayService.replay(
+        setup,
+        events
+      );
+
+      expect(trade_mismatches).to.deep.equal([]);
+      expect(state.options["opt-1"]).to.deep.equal({
+        yes_quantity: 6_000_000,
+        no_quantity: 0,
+      });
+      expect(state.lp_positions.creator).to.deep.equal({
+        user_id: "creator",
+        shares: 100_000_000,
+        deposited_amount: 100_000_000,
+      });
+
+      const position = state.positions["alice:opt-1"];
+      expect(position.yes_shares).to.equal(6_000_000);
+      expect(position.total_yes_cost).to.equal(
+        6_000_000 * position.avg_yes_price
+      );
+    });
+
+    it("should flag a trade whose recorded cost doesn't match the LMSR", () => {
+      const events = buildHistory();
+      const sell = events[2] as Extract<ReplayEvent, { kind: "trade" }>;
+      sell.total_cost += 5_000;
+
+      const { trade_mismatches } = MarketReplayService.replay(setup, events);
+
+      expect(trade_mismatches).to.have.length(1);
+      expect(trade_mismatches[0]).to.include({
+        scope: "trade",
+        id: "trade-2",
+        field: "raw_payout",
+        actual: sell.total_cost + sell.fees_paid,
+        ambiguous_order: false,
+      });
+    });
+
+    it("should apply liquidity added and removed to the pool and LP positions", () => {
+      const { state } = MarketReplayService.replay(setup, [
+        initialize,
+        {
+          kind: "liquidity_added",
+          ref: "act-2",
+          at: 150,
+          user_id: "lp",
+          amount: 50_000_000,
+          shares_minted: 50_000_000,
+        },
+        {
+          kind: "liquidity_removed",
+          ref: "act-3",
+          at: 160,
+          user_id: "lp",
+          shares_burned: 20_000_000,
+          liquidity_portion: 20_000_000,
+          source: "remove_liquidity",
+        },
+      ]);
+
+      expect(state.shared_pool_liquidity).to.equal(130_000_000);
+      expect(state.total_shared_lp_shares).to.equal(130_000_000);
+      expect(state.lp_positions.lp).to.deep.equal({
+        user_id: "lp",
+        shares: 30_000_000,
+        deposited_amount: 30_000_000,
+      });
+      expect(state.liquidity_parameter).to.equal(
+        Math.floor(Math.sqrt(130_000_000) * 10000)
+      );
+    });
+
+    it("should zero positions and LP positions when the market is voided", () => {
+      const events = buildHistory();
+      events.push({
+        kind: "void",
+        ref: "market",
+        at: 400,
+        refunds: [
+          {
+            user_id: "alice",
+            option_id: "opt-1",
+            amount: 3_000_000,
+            cost_basis: 3_500_000,
+          },
+          {
+            user_id: "creator",
+            option_id: null,
+            amount: 90_000_000,
+            cost_basis: 100_000_000,
+          },
+        ],
+      });
+
+      const { state } = MarketReplayService.replay(setup, events);
+
+      expect(state.positions["alice:opt-1"].yes_shares).to.equal(0);
+      expect(state.shared_pool_liquidity).to.equal(0);
+      expect(state.lp_positions).to.deep.equal({});
+    });
+  });
+
+  describe("State diff", () => {
+    it("should report no mismatches when stored state matches the replay", () => {
+      const { state } = MarketReplayService.replay(setup, buildHistory());
+
+      expect(
+        MarketReplayService.diffState(state, storedFrom(state))
+      ).to.deep.equal([]);
+    });
+
+    it("should flag diverging market, position and LP state", () => {
+      const { state } = MarketReplayService.replay(setup, buildHistory());
+      const stored = storedFrom(state);
+      stored.shared_pool_liquidity += 1;
+      stored.positions[0].yes_shares += 10;
+      stored.lp_positions.push({
+        user_id: "ghost",
+        shares: 5,
+        deposited_amount: 5,
+      });
+
+      const mismatches = MarketReplayService.diffState(state, stored);
+
+      expect(mismatches.map((m) => `${m.scope}:${m.field}`)).to.deep.equal([
+        "market:shared_pool_liquidity",
+        "user_position:yes_shares",
+        "lp_position:shares",
+        "lp_position:deposited_amount",
+      ]);
+      expect(mismatches[2]).to.include({
+        id: "ghost",
+        expected: null,
+        actual: 5,
+      });
+    });
+
+    it("should skip positions on resolved options", () => {
+      const { state } = MarketReplayService.replay(setup, buildHistory());
+      const stored = storedFrom(state);
+      stored.options[0].is_resolved = true;
+      stored.positions[0].yes_shares = 0;
+
+      expect(MarketReplayService.diffState(state, stored)).to.deep.equal([]);
+    });
+  });
+});
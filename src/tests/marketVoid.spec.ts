@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { calculateVoidRefunds } from "../utils/marketVoid";
+
+describe("Market Void Refund Tests", function () {
+  const holders = [
+    { user_id: "alice", cost_basis: 6_000_000, fees_paid: 120_000 },
+    { user_id: "bob", cost_basis: 4_000_000, fees_paid: 80_000 },
+  ];
+  const liquidityProviders = [
+    { user_id: "carol", shares: 3_000_000 },
+    { user_id: "dave", shares: 1_000_000 },
+  ];
+
+  describe("Holder refunds", () => {
+    it("should refund every holder's cost basis when the pool covers it", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 50_000_000,
+        lpFees: 0,
+        creatorFees: 0,
+        holders,
+        liquidityProviders,
+        feePolicy: "retain",
+      });
+
+      expect(plan.holders.map((h) => h.refund)).to.deep.equal([
+        6_000_000, 4_000_000,
+      ]);
+      expect(plan.shortfall).to.equal(0);
+    });
+
+    it("should refund holders pro rata when the pool is short", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 5_000_000,
+        lpFees: 0,
+        creatorFees: 0,
+        holders,
+        liquidityProviders,
+        feePolicy: "retain",
+      });
+
+      expect(plan.holders.map((h) => h.refund)).to.deep.equal([
+        3_000_000, 2_000_000,
+      ]);
+      expect(plan.shortfall).to.equal(5_000_000);
+      expect(plan.liquidityProviders.map((lp) => lp.refund)).to.deep.equal([
+        0, 0,
+      ]);
+    });
+
+    it("should round pro rata refunds down and report the dust", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 10,
+        lpFees: 0,
+        creatorFees: 0,
+        holders: [
+          { cost_basis: 10, fees_paid: 0 },
+          { cost_basis: 10, fees_paid: 0 },
+          { cost_basis: 10, fees_paid: 0 },
+        ],
+        liquidityProviders: [],
+        feePolicy: "retain",
+      });
+
+      expect(plan.holders.map((h) => h.refund)).to.deep.equal([3, 3, 3]);
+      expect(plan.dust).to.equal(1);
+    });
+  });
+
+  describe("LP refunds", () => {
+    it("should split the rest of the pool and LP fees by LP shares", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 50_000_000,
+        lpFees: 2_000_000,
+        creatorFees: 0,
+        holders,
+        liquidityProviders,
+        feePolicy: "retain",
+      });
+
+      // (50 - 10 + 2) USDC split 3:1
+      expect(plan.liquidityProviders.map((lp) => lp.refund)).to.deep.equal([
+        31_500_000, 10_500_000,
+      ]);
+      expect(plan.dust).to.equal(0);
+    });
+
+    it("should leave the remainder as dust when there are no LPs", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 12_000_000,
+        lpFees: 500_000,
+        creatorFees: 0,
+        holders,
+        liquidityProviders: [],
+        feePolicy: "retain",
+      });
+
+      expect(plan.dust).to.equal(2_500_000);
+    });
+  });
+
+  describe("Fee policies", () => {
+    it("should not refund fees under the retain policy", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 50_000_000,
+        lpFees: 2_000_000,
+        creatorFees: 1_000_000,
+        holders,
+        liquidityProviders,
+        feePolicy: "retain",
+      });
+
+      expect(plan.holders.every((h) => h.fee_refund === 0)).to.be.true;
+      expect(plan.feeFunding).to.deep.equal({
+        lp_fees: 0,
+        creator_fees: 0,
+        protocol_fees: 0,
+      });
+    });
+
+    it("should fund fee refunds from LP, then creator, then protocol fees", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 50_000_000,
+        lpFees: 100_000,
+        creatorFees: 60_000,
+        holders,
+        liquidityProviders,
+        feePolicy: "refund",
+      });
+
+      expect(plan.holders.map((h) => h.fee_refund)).to.deep.equal([
+        120_000, 80_000,
+      ]);
+      expect(plan.feeFunding).to.deep.equal({
+        lp_fees: 100_000,
+        creator_fees: 60_000,
+        protocol_fees: 40_000,
+      });
+      // LP fees went to the fee refunds, so LPs only split the pool
+      expect(plan.liquidityProviders.map((lp) => lp.refund)).to.deep.equal([
+        30_000_000, 10_000_000,
+      ]);
+    });
+
+    it("should leave unused LP fees with the LPs under the refund policy", () => {
+      const plan = calculateVoidRefunds({
+        poolLiquidity: 10_000_000,
+        lpFees: 1_000_000,
+        creatorFees: 0,
+        holders,
+        liquidityProviders,
+        feePolicy: "refund",
+      });
+
+      expect(plan.feeFunding.lp_fees).to.equal(200_000);
+      expect(plan.liquidityProviders.map((lp) => lp.refund)).to.deep.equal([
+        600_000, 200_000,
+      ]);
+    });
+  });
+});
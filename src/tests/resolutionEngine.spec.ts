@@ -0,0 +1,50 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { createHash, UUID } from "crypto";
+import { ResolutionEngine } from "../services/resolutionEngine";
+import { ResolutionMode, ResolutionSubmission } from "../models/Resolution";
+
+describe("Resolution Engine Tests", function () {
+  const submission: ResolutionSubmission = {
+    id: "00000000-0000-0000-0000-000000000001" as UUID,
+    market_id: "00000000-0000-0000-0000-000000000002" as UUID,
+    user_id: "00000000-0000-0000-0000-000000000003" as UUID,
+    outcome: "YES",
+    evidence: { source: "https://example.com", notes: { checked: true } },
+    signature: null,
+    submitted_at: 1_700_000_000,
+  };
+
+  describe("generateCanonicalHash", () => {
+    it("keeps the hash stored for existing ORACLE resolutions", () => {
+      const result = ResolutionEngine.resolveMarket(
+        {
+          id: submission.market_id,
+          question: "Will it happen?",
+          resolution_mode: ResolutionMode.ORACLE,
+          outcomes: ["YES", "NO"],
+        },
+        [submission]
+      );
+      const trace = result.resolution_trace;
+      const legacy = createHash("sha256")
+        .update(JSON.stringify(trace, Object.keys(trace).sort()))
+        .digest("hex");
+      expect(result.canonical_hash).to.equal(legacy);
+    });
+  });
+
+  describe("generateDeepCanonicalHash", () => {
+    it("hashes nested objects regardless of key order", () => {
+      const a = { jurors: [{ vote: "YES", id: "j1" }], outcome: "YES" };
+      const b = { outcome: "YES", jurors: [{ id: "j1", vote: "YES" }] };
+      const c = { outcome: "YES", jurors: [{ id: "j1", vote: "NO" }] };
+      expect(ResolutionEngine.generateDeepCanonicalHash(a)).to.equal(
+        ResolutionEngine.generateDeepCanonicalHash(b)
+      );
+      expect(ResolutionEngine.generateDeepCanonicalHash(a)).to.not.equal(
+        ResolutionEngine.generateDeepCanonicalHash(c)
+      );
+    });
+  });
+});
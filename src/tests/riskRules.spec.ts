@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  RiskRuleConfig,
+  RiskRuleHit,
+  combineRiskHits,
+  resolveRiskRuleConfig,
+} from "../utils/riskRules";
+
+describe("Risk Rules Tests", function () {
+  const defaults: RiskRuleConfig = {
+    enabled: true,
+    severity: "medium",
+    action: "flag",
+    params: { window_seconds: 600, min_opposite_trades: 1 },
+  };
+
+  const hit = (overrides: Partial<RiskRuleHit>): RiskRuleHit => ({
+    rule: "round_trip",
+    severity: "medium",
+    action: "flag",
+    reason: "test",
+    evidence: {},
+    ...overrides,
+  });
+
+  describe("resolveRiskRuleConfig", () => {
+    it("uses the defaults when nothing is stored", () => {
+      expect(resolveRiskRuleConfig(defaults, null)).to.deep.equal(defaults);
+      expect(resolveRiskRuleConfig(defaults)).to.deep.equal(defaults);
+    });
+
+    it("applies stored settings over the defaults", () => {
+      expect(
+        resolveRiskRuleConfig(defaults, {
+          enabled: false,
+          severity: "critical",
+          action: "block",
+          params: { window_seconds: 60 },
+        })
+      ).to.deep.equal({
+        enabled: false,
+        severity: "critical",
+        action: "block",
+        params: { window_seconds: 60, min_opposite_trades: 1 },
+      });
+    });
+
+    it("ignores unknown parameters and invalid values", () => {
+      expect(
+        resolveRiskRuleConfig(defaults, {
+          severity: "extreme" as any,
+          action: "ban" as any,
+          params: { window_seconds: "60", other: 5 } as any,
+        })
+      ).to.deep.equal(defaults);
+    });
+  });
+
+  describe("combineRiskHits", () => {
+    it("allows a trade no rule fired on", () => {
+      expect(combineRiskHits([])).to.deep.equal({
+        action: "allow",
+        risk_score: 0,
+        primary: null,
+        hits: [],
+      });
+    });
+
+    it("picks the strongest action, then the highest severity", () => {
+      const flag = hit({ rule: "creator_self_trade", severity: "critical" });
+      const hold = hit({ rule: "wash_trading", action: "hold" });
+      const block = hit({ rule: "pre_resolution_trading", action: "block" });
+
+      expect(combineRiskHits([flag, hold]).primary).to.equal(hold);
+      expect(combineRiskHits([hold, block, flag]).action).to.equal("block");
+
+      const low = hit({ severity: "low" });
+      const high = hit({ severity: "high" });
+      expect(combineRiskHits([low, high]).primary).to.equal(high);
+    });
+
+    it("adds 10 per extra rule to the top severity score, capped at 100", () => {
+      expect(combineRiskHits([hit({ severity: "low" })]).risk_score).to.equal(
+        25
+      );
+      expect(
+        combineRiskHits([hit({ severity: "high" }), hit({ severity: "low" })])
+          .risk_score
+      ).to.equal(85);
+      expect(
+        combineRiskHits([
+          hit({ severity: "critical" }),
+          hit({ severity: "low" }),
+        ]).risk_score
+      ).to.equal(100);
+    });
+  });
+});
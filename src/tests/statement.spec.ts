@@ -0,0 +1,302 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { renderTextPdf } from "../utils/pdf";
+import {
+  PositionEvent,
+  StatementLine,
+  buildStatement,
+  computeRealizedPnl,
+  formatUsdc,
+  resolveStatementPeriod,
+  statementToCsv,
+  statementToText,
+} from "../utils/statement";
+
+describe("Statement Tests", function () {
+  const now = Math.floor(Date.UTC(2026, 4, 17, 12) / 1000);
+
+  const line = (overrides: Partial<StatementLine>): StatementLine => ({
+    at: Math.floor(Date.UTC(2026, 4, 2) / 1000),
+    category: "trade",
+    type: "buy",
+    description: "Bought 10.00 YES Candidate A",
+    market_id: "market-1",
+    market_question: "Who wins?",
+    quantity: 10_000_000,
+    amount: -5_100_000,
+    fees: 100_000,
+    realized_pnl: null,
+    reference_id: "trade-1",
+    ...overrides,
+  });
+
+  describe("resolveStatementPeriod", () => {
+    it("defaults to the current month", () => {
+      const { period } = resolveStatementPeriod({}, now);
+      expect(period).to.deep.equal({
+        from: Date.UTC(2026, 4, 1) / 1000,
+        to: Date.UTC(2026, 5, 1) / 1000,
+        label: "2026-05",
+      });
+    });
+
+    it("parses months, quarters and years", () => {
+      expect(
+        resolveStatementPeriod({ period: "2025-12" }, now).period
+      ).to.include({
+        from: Date.UTC(2025, 11, 1) / 1000,
+        to: Date.UTC(2026, 0, 1) / 1000,
+      });
+      expect(
+        resolveStatementPeriod({ period: "2026-q2" }, now).period
+      ).to.deep.equal({
+        from: Date.UTC(2026, 3, 1) / 1000,
+        to: Date.UTC(2026, 6, 1) / 1000,
+        label: "2026-Q2",
+      });
+      expect(resolveStatementPeriod({ period: "2025" }, now).period).to.include(
+        {
+          from: Date.UTC(2025, 0, 1) / 1000,
+          to: Date.UTC(2026, 0, 1) / 1000,
+        }
+      );
+    });
+
+    it("accepts a from/to range, with to defaulting to now", () => {
+      expect(resolveStatementPeriod({ from: "1000" }, now).period).to.include({
+        from: 1000,
+        to: now,
+      });
+    });
+
+    it("rejects invalid input", () => {
+      expect(resolveStatementPeriod({ period: "2026-13" }, now).error).to.exist;
+      expect(resolveStatementPeriod({ from: "abc" }, now).error).to.exist;
+      expect(resolveStatementPeriod({ from: "200", to: "100" }, now).error).to
+        .exist;
+      expect(
+        resolveStatementPeriod({ period: "2026", from: "100" }, now).error
+      ).to.equal("Use either period or from/to, not both");
+    });
+  });
+
+  describe("computeRealizedPnl", () => {
+    it("realizes sells at the average price TradeService records", () => {
+      const events: PositionEvent[] = [
+        {
+          kind: "buy",
+          ref: "b1",
+          at: 1,
+          option_id: "o1",
+          side: "yes",
+          quantity: 10,
+          raw_cost: 40,
+        },
+        {
+          kind: "buy",
+          ref: "b2",
+          at: 2,
+          option_id: "o1",
+          side: "yes",
+          quantity: 10,
+          raw_cost: 65,
+        },
+        {
+          kind: "sell",
+          ref: "s1",
+          at: 3,
+          option_id: "o1",
+          side: "yes",
+          quantity: 5,
+          net_payout: 35,
+        },
+      ];
+
+      // The average price is truncated to 105 / 20 = 5, so 5 shares cost 25
+      expect(computeRealizedPnl(events).get("s1")).to.equal(10);
+    });
+
+    it("closes positions on claims and void refunds", () => {
+      const events: PositionEvent[] = [
+        {
+          kind: "buy",
+          ref: "b1",
+          at: 1,
+          option_id: "o1",
+          side: "yes",
+          quantity: 10_000_000,
+          raw_cost: 4_000_000,
+        },
+        {
+          kind: "buy",
+          ref: "b2",
+          at: 2,
+          option_id: "o1",
+          side: "no",
+          quantity: 2_000_000,
+          raw_cost: 1_000_000,
+        },
+        {
+          kind: "claim",
+          ref: "c1",
+          at: 3,
+          option_id: "o1",
+          payout: 10_000_000,
+          realized_pnl: null,
+        },
+        {
+          kind: "void_refund",
+          ref: "v1",
+          at: 4,
+          option_id: "o2",
+          amount: 900_000,
+          cost_basis: 1_000_000,
+        },
+      ];
+
+      const realized = computeRealizedPnl(events);
+      expect(realized.get("c1")).to.equal(5_000_000);
+      expect(realized.get("v1")).to.equal(-100_000);
+    });
+
+    it("prefers the P&L recorded on the claim", () => {
+      const realized = computeRealizedPnl([
+        {
+          kind: "claim",
+          ref: "c1",
+          at: 1,
+          option_id: "o1",
+          payout: 10_000_000,
+          realized_pnl: 7_000_000,
+        },
+      ]);
+      expect(realized.get("c1")).to.equal(7_000_000);
+    });
+  });
+
+  describe("buildStatement", () => {
+    const statement = buildStatement({
+      userId: "user-1",
+      period: { from: 1777593600, to: 1780272000, label: "2026-05" },
+      openingBalance: 20_000_000,
+      closingBalance: 24_400_000,
+      generatedAt: now,
+      lines: [
+        line({ at: 1777600000 }),
+        line({
+          at: 1777700000,
+          type: "sell",
+          amount: 8_000_000,
+          fees: 200_000,
+          realized_pnl: 3_000_000,
+          reference_id: "trade-2",
+        }),
+        line({
+          at: 1777650000,
+          category: "deposit",
+          type: "deposit",
+          description: "Deposit sig",
+          market_id: null,
+          market_question: null,
+          quantity: null,
+          amount: 2_000_000,
+          fees: 0,
+          reference_id: "deposit-1",
+        }),
+      ],
+      positions: [
+        {
+          market_id: "market-1",
+          market_question: "Who wins?",
+          realized_pnl: 4_000_000,
+          total_yes_cost: 1_000_000,
+          total_no_cost: 0,
+        },
+        {
+          market_id: "market-2",
+          market_question: "Other",
+          realized_pnl: -500_000,
+          total_yes_cost: 0,
+          total_no_cost: 0,
+        },
+      ],
+    });
+
+    it("totals lines per category and reports what isn't itemized", () => {
+      expect(statement.net_change).to.equal(4_400_000);
+      expect(statement.totals.trade).to.equal(2_900_000);
+      expect(statement.totals.deposit).to.equal(2_000_000);
+      expect(statement.other_movements).to.equal(-500_000);
+      expect(statement.lines.map((l) => l.reference_id)).to.deep.equal([
+        "trade-1",
+        "deposit-1",
+        "trade-2",
+      ]);
+    });
+
+    it("summarizes realized P&L for the markets traded in the period", () => {
+      expect(statement.markets).to.deep.equal([
+        {
+          market_id: "market-1",
+          market_question: "Who wins?",
+          trades: 2,
+          bought: 5_100_000,
+          sold: 8_000_000,
+          payouts: 0,
+          fees: 300_000,
+          realized_pnl: 3_000_000,
+          lifetime_realized_pnl: 4_000_000,
+          open_cost_basis: 1_000_000,
+        },
+      ]);
+      expect(statement.realized_pnl).to.equal(3_000_000);
+      expect(statement.lifetime_realized_pnl).to.equal(3_500_000);
+    });
+
+    it("exports CSV between opening and closing balance rows", () => {
+      const rows = statementToCsv(statement).split("\n");
+      expect(rows).to.have.length(6);
+      expect(rows[0]).to.match(/^date,category,type,description/);
+      expect(rows[1]).to.include("opening_balance,,,,,20.000000");
+      expect(rows[2]).to.include("trade,buy,Bought 10.00 YES Candidate A");
+      expect(rows[2]).to.include("-5.100000,0.100000,,trade-1");
+      expect(rows[5]).to.include("closing_balance,,,,,24.400000");
+    });
+
+    it("renders a PDF with a valid cross-reference table", () => {
+      const pdf = renderTextPdf(statementToText(statement), "Statement");
+      const text = pdf.toString("latin1");
+      expect(text.startsWith("%PDF-1.4\n")).to.be.true;
+      expect(text.trimEnd().endsWith("%%EOF")).to.be.true;
+
+      const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+      expect(text.slice(startxref, startxref + 4)).to.equal("xref");
+      const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) =>
+        Number(m[1])
+      );
+      offsets.forEach((offset, index) => {
+        expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).to.be.true;
+      });
+    });
+  });
+
+  describe("renderTextPdf", () => {
+    it("splits long documents across pages", () => {
+      const lines = Array.from({ length: 150 }, (_, i) => `Line ${i}`);
+      const text = renderTextPdf(lines).toString("latin1");
+      expect(text).to.include("/Count 3");
+    });
+
+    it("starts a new page on a form feed", () => {
+      const text = renderTextPdf(["a", "\f", "b"]).toString("latin1");
+      expect(text).to.include("/Count 2");
+    });
+  });
+
+  describe("formatUsdc", () => {
+    it("formats micro-USDC with six decimals", () => {
+      expect(formatUsdc(1_500_000)).to.equal("1.500000");
+      expect(formatUsdc(-42)).to.equal("-0.000042");
+    });
+  });
+});
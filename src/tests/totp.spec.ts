@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+  TOTP_STEP_SECONDS,
+} from "../utils/totp";
+
+describe("TOTP Tests", function () {
+  // RFC 6238 Appendix B SHA1 seed "12345678901234567890"
+  const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+  const at = (seconds: number) => seconds * 1000;
+
+  describe("Base32", () => {
+    it("should decode the RFC 6238 seed", () => {
+      expect(base32Decode(RFC_SECRET).toString()).to.equal(
+        "12345678901234567890"
+      );
+    });
+
+    it("should round trip random bytes", () => {
+      for (let length = 1; length <= 32; length++) {
+        const bytes = Buffer.from(
+          Array.from({ length }, (_, i) => (i * 37 + length) & 255)
+        );
+        expect(base32Decode(base32Encode(bytes)).equals(bytes)).to.be.true;
+      }
+    });
+
+    it("should ignore case, padding and spaces", () => {
+      expect(base32Decode("mzxw 6ytb oi======").toString()).to.equal("foobar");
+    });
+
+    it("should reject invalid characters", () => {
+      expect(() => base32Decode("ABC1")).to.throw("Invalid base32 character");
+    });
+
+    it("should generate 160-bit secrets", () => {
+      const secret = generateTotpSecret();
+      expect(base32Decode(secret).length).to.equal(20);
+      expect(generateTotpSecret()).to.not.equal(secret);
+    });
+  });
+
+  describe("Code generation", () => {
+    // RFC 6238 Appendix B test vectors, truncated to 6 digits
+    const vectors: Array<[number, string]> = [
+      [59, "287082"],
+      [1111111109, "081804"],
+      [1111111111, "050471"],
+      [1234567890, "005924"],
+      [2000000000, "279037"],
+      [20000000000, "353130"],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      it(`should match the RFC 6238 vector at T=${seconds}`, () => {
+        expect(generateTotpCode(RFC_SECRET, at(seconds))).to.equal(code);
+      });
+    }
+
+    it("should keep the same code within a time step", () => {
+      const start = at(1111111110); // step boundary
+      expect(getTotpStep(start)).to.equal(1111111110 / TOTP_STEP_SECONDS);
+      expect(generateTotpCode(RFC_SECRET, start)).to.equal(
+        generateTotpCode(RFC_SECRET, start + 29_999)
+      );
+      expect(generateTotpCode(RFC_SECRET, start)).to.not.equal(
+        generateTotpCode(RFC_SECRET, start + 30_000)
+      );
+    });
+  });
+
+  describe("Verification", () => {
+    const now = at(1234567890);
+    const step = getTotpStep(now);
+
+    it("should accept the current code and return its step", () => {
+      expect(verifyTotpCode(RFC_SECRET, "005924", now)).to.equal(step);
+    });
+
+    it("should accept codes within one step of drift", () => {
+      const previous = generateTotpCode(RFC_SECRET, now - 30_000);
+      const next = generateTotpCode(RFC_SECRET, now + 30_000);
+      expect(verifyTotpCode(RFC_SECRET, previous, now)).to.equal(step - 1);
+      expect(verifyTotpCode(RFC_SECRET, next, now)).to.equal(step + 1);
+    });
+
+    it("should reject codes outside the drift window", () => {
+      const old = generateTotpCode(RFC_SECRET, now - 60_000);
+      expect(verifyTotpCode(RFC_SECRET, old, now)).to.be.null;
+      expect(verifyTotpCode(RFC_SECRET, old, now, 2)).to.equal(step - 2);
+      expect(verifyTotpCode(RFC_SECRET, "005924", now + 60_000, 0)).to.be.null;
+    });
+
+    it("should reject wrong and malformed codes", () => {
+      expect(verifyTotpCode(RFC_SECRET, "005925", now)).to.be.null;
+      expect(verifyTotpCode(RFC_SECRET, "5924", now)).to.be.null;
+      expect(verifyTotpCode(RFC_SECRET, "00592a", now)).to.be.null;
+      expect(verifyTotpCode(RFC_SECRET, "", now)).to.be.null;
+    });
+
+    it("should ignore whitespace in codes", () => {
+      expect(verifyTotpCode(RFC_SECRET, "005 924", now)).to.equal(step);
+    });
+
+    it("should reject codes for a different secret", () => {
+      const other = generateTotpSecret();
+      expect(verifyTotpCode(other, "005924", now)).to.be.null;
+    });
+  });
+
+  describe("Enrollment URL", () => {
+    it("should build an otpauth URL for authenticator apps", () => {
+      const url = new URL(
+        buildOtpauthUrl(RFC_SECRET, "admin@example.com", "Moodring")
+      );
+      expect(url.protocol).to.equal("otpauth:");
+      expect(decodeURIComponent(url.pathname)).to.include(
+        "Moodring:admin@example.com"
+      );
+      expect(url.searchParams.get("secret")).to.equal(RFC_SECRET);
+      expect(url.searchParams.get("issuer")).to.equal("Moodring");
+      expect(url.searchParams.get("digits")).to.equal("6");
+      expect(url.searchParams.get("period")).to.equal("30");
+    });
+  });
+});
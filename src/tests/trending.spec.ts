@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import {
+  DEFAULT_TRENDING_SETTINGS,
+  TrendingActivity,
+  diffTrendingRanks,
+  rankTrending,
+  resolveTrendingSettings,
+  scoreTrending,
+} from "../utils/trending";
+
+describe("Trending Tests", function () {
+  const activity = (
+    overrides: Partial<TrendingActivity>
+  ): TrendingActivity => ({
+    market_id: "market-1",
+    volume: 0,
+    unique_traders: 0,
+    price_change: 0,
+    comments: 0,
+    watchlist_adds: 0,
+    ...overrides,
+  });
+
+  const score = (overrides: Partial<TrendingActivity>) =>
+    scoreTrending(activity(overrides), DEFAULT_TRENDING_SETTINGS);
+
+  describe("resolveTrendingSettings", () => {
+    it("uses configured values and defaults for the rest", () => {
+      expect(
+        resolveTrendingSettings({
+          trending_volume_weight: 0,
+          trending_half_life_hours: 0,
+        })
+      ).to.deep.equal({
+        ...DEFAULT_TRENDING_SETTINGS,
+        volume_weight: 0,
+        half_life_hours: 1,
+      });
+      expect(resolveTrendingSettings(null)).to.deep.equal(
+        DEFAULT_TRENDING_SETTINGS
+      );
+    });
+  });
+
+  describe("scoreTrending", () => {
+    it("scores a market without activity 0", () => {
+      expect(score({}).score).to.equal(0);
+    });
+
+    it("breaks the score down by signal", () => {
+      const result = score({
+        volume: 99_000_000, // 99 USDC
+        unique_traders: 4,
+        price_change: -0.09,
+        comments: 1,
+      });
+      expect(result.breakdown.volume).to.deep.equal({
+        value: 99,
+        weight: 100,
+        points: 4.6052, // ln(100)
+      });
+      expect(result.breakdown.traders.points).to.equal(1.6094); // ln(5)
+      expect(result.breakdown.price_move.value).to.equal(9);
+      expect(result.breakdown.comments.points).to.equal(0.3466); // ln(2) / 2
+      expect(result.breakdown.watchlist_adds.points).to.equal(0);
+      expect(result.score).to.equal(
+        Math.round(
+          (4.6052 + 1.6094 + result.breakdown.price_move.points + 0.3466) * 1000
+        )
+      );
+    });
+
+    it("dampens large values", () => {
+      const small = score({ volume: 100_000_000 }).score;
+      const whale = score({ volume: 10_000_000_000 }).score;
+      expect(whale).to.be.lessThan(small * 3);
+    });
+
+    it("ignores signals weighted 0", () => {
+      const result = scoreTrending(activity({ comments: 50 }), {
+        ...DEFAULT_TRENDING_SETTINGS,
+        comment_weight: 0,
+      });
+      expect(result.score).to.equal(0);
+    });
+  });
+
+  describe("rankTrending", () => {
+    it("ranks by score, leaving inactive markets unranked", () => {
+      const ranked = rankTrending([
+        score({ market_id: "a", volume: 5_000_000 }),
+        score({ market_id: "b" }),
+        score({ market_id: "c", volume: 50_000_000 }),
+      ]);
+      expect(ranked.map((r) => [r.market_id, r.rank])).to.deep.equal([
+        ["c", 1],
+        ["a", 2],
+        ["b", null],
+      ]);
+    });
+  });
+
+  describe("diffTrendingRanks", () => {
+    const ranked = rankTrending([
+      score({ market_id: "a", volume: 50_000_000 }),
+      score({ market_id: "b", volume: 5_000_000 }),
+      score({ market_id: "c", volume: 1_000_000 }),
+    ]);
+
+    it("reports markets that moved, entered or left the top", () => {
+      const changes = diffTrendingRanks(
+        new Map<string, number | null>([
+          ["b", 1],
+          ["a", 2],
+          ["c", 3],
+          ["gone", 2],
+        ]),
+        ranked,
+        2
+      );
+      expect(
+        changes.map((c) => [c.market_id, c.previous_rank, c.rank])
+      ).to.deep.equal([
+        ["a", 2, 1],
+        ["b", 1, 2],
+        ["gone", 2, null],
+      ]);
+    });
+
+    it("reports nothing when ranks are unchanged", () => {
+      expect(
+        diffTrendingRanks(
+          new Map([
+            ["a", 1],
+            ["b", 2],
+            ["c", 3],
+          ]),
+          ranked,
+          50
+        )
+      ).to.deep.equal([]);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Request } from "express";
 import { ActivityType } from "../models/Activity";
-import { ResolutionMode } from "../models/Resolution";
+import { ResolutionConfig, ResolutionMode } from "../models/Resolution";
+import { VoidFeePolicy } from "../utils/marketVoid";
 
 /**
  * Base UserRequest interface that extends Express Request
@@ -71,6 +72,8 @@ export interface VerifyMagicLinkRequest extends Request {
   body: {
     email: string;
     otp: string;
+    referral_code?: string;
+    device_fingerprint?: string;
   };
 }
 
@@ -86,6 +89,8 @@ export interface AuthenticateWithWalletRequest extends Request {
     signature: string;
     message: string;
     nonce: string;
+    referral_code?: string;
+    device_fingerprint?: string;
   };
 }
 
@@ -113,8 +118,14 @@ export interface CreateMarketRequest extends UserRequest {
     marketDescription?: string;
     marketExpirationDate: string;
     isBinary: boolean;
+    isScalar?: boolean | string; // Scalar (numeric-range) market, implies a single option
+    scalarLowerBound?: number | string;
+    scalarUpperBound?: number | string;
+    scalarUnit?: string; // e.g. "USD"
+    isExclusive?: boolean | string; // Mutually exclusive options sharing one LMSR cost function
     categoryIds?: string[];
     resolutionMode?: ResolutionMode;
+    resolutionConfig?: string | ResolutionConfig; // CONSENSUS/OPINION only, JSON when multipart
   };
   file?: Express.Multer.File;
 }
@@ -342,6 +353,58 @@ export interface GetUserTradesRequest extends UserRequest {
   };
 }
 
+export interface PlaceLimitOrderRequest extends UserRequest {
+  body: {
+    market: string;
+    option: string;
+    side: "yes" | "no";
+    quantity: number;
+    limitPrice: number;
+  };
+}
+
+export interface CancelLimitOrderRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetLimitOrdersRequest extends UserRequest {
+  query: {
+    status?: string;
+    market?: string;
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface CreatePositionTriggerRequest extends UserRequest {
+  body: {
+    market: string;
+    option: string;
+    side: "yes" | "no";
+    triggerType: "stop_loss" | "take_profit";
+    triggerPrice: number;
+    sellPercentage?: number;
+    slippageBps?: number;
+  };
+}
+
+export interface CancelPositionTriggerRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetPositionTriggersRequest extends UserRequest {
+  query: {
+    status?: string;
+    option?: string;
+    page?: string;
+    limit?: string;
+  };
+}
+
 /**
  * Typed request interfaces for Key Controller
  */
@@ -418,6 +481,114 @@ export interface GetOHLCDataRequest extends Request {
   };
 }
 
+/**
+ * Typed request interfaces for Copy Trading Controller
+ */
+export interface FollowTraderRequest extends UserRequest {
+  params: {
+    trader_id: string;
+  };
+  body: {
+    sizing_mode: "fixed" | "percentage" | "market_cap";
+    copy_percentage?: number;
+    fixed_amount?: number;
+    max_trade_amount?: number | null;
+    max_per_market?: number | null;
+    max_slippage_bps?: number;
+  };
+}
+
+export interface UnfollowTraderRequest extends UserRequest {
+  params: {
+    trader_id: string;
+  };
+}
+
+export interface GetCopyFollowingRequest extends UserRequest {}
+
+export interface GetCopyLedgerRequest extends UserRequest {
+  query: {
+    status?: string;
+    trader_id?: string;
+    page?: string;
+    limit?: string;
+  };
+}
+
+/**
+ * Typed request interfaces for Referral Controller
+ */
+export interface GetReferralStatsRequest extends UserRequest {}
+
+export interface GetReferralsRequest extends UserRequest {
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface GetReferralPayoutsRequest extends UserRequest {
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface ClaimReferralRewardsRequest extends UserRequest {}
+
+/**
+ * Typed request interfaces for Live Room Controller
+ */
+export interface GetActiveLiveRoomsRequest extends Request {
+  query: {
+    limit?: string;
+  };
+}
+
+export interface GetLiveRoomRequest extends Request {
+  params: {
+    roomId: string;
+  };
+}
+
+export interface GetLiveRoomMessagesRequest extends UserRequest {
+  params: {
+    roomId: string;
+  };
+  query: {
+    before?: string;
+    limit?: string;
+  };
+}
+
+export interface JoinLiveRoomRequest extends UserRequest {
+  params: {
+    marketId: string;
+  };
+}
+
+export interface LeaveLiveRoomRequest extends UserRequest {
+  params: {
+    roomId: string;
+  };
+}
+
+export interface ModerateLiveRoomParticipantRequest extends UserRequest {
+  params: {
+    roomId: string;
+    userId: string;
+  };
+  body: {
+    reason?: string;
+  };
+}
+
+export interface CloseLiveRoomRequest extends UserRequest {
+  params: {
+    roomId: string;
+  };
+}
+
 /**
  * Typed request interfaces for Liquidity Controller
  */
@@ -706,6 +877,22 @@ export interface GetPositionsRequest extends UserRequest {
 
 export interface GetPnLSummaryRequest extends UserRequest {}
 
+export interface GetPortfolioHistoryRequest extends UserRequest {
+  query: {
+    interval?: string;
+    range?: string;
+  };
+}
+
+export interface GetStatementRequest extends UserRequest {
+  query: {
+    period?: string;
+    from?: string;
+    to?: string;
+    format?: string;
+  };
+}
+
 export interface GetLiquidityPositionsRequest extends UserRequest {
   query: {
     page?: string;
@@ -719,11 +906,13 @@ export interface GetLiquidityPositionsRequest extends UserRequest {
 export interface SubmitResolutionRequest extends UserRequest {
   body: {
     marketId: string;
-    outcome: string;
+    outcome: string | number; // Scalar markets: the resolved numeric value
     optionId?: string; // Optional: for option-level resolution
     winningSide?: 1 | 2; // Optional: 1 = YES (wins), 2 = NO (loses). If provided, overrides resolution engine
     evidence?: string;
     signature?: string;
+    commitment?: string; // OPINION commit phase: sha256(option_id:user_id:outcome:salt)
+    salt?: string; // OPINION reveal phase: salt used for the commitment
   };
 }
 
@@ -748,6 +937,75 @@ export interface DisputeResolutionRequest extends UserRequest {
   };
 }
 
+/**
+ * Typed request interfaces for Consensus Controller
+ */
+export interface JurorBondRequest extends UserRequest {
+  body: {
+    amount: number; // micro-USDC
+  };
+}
+
+export interface GetJurorPanelRequest extends Request {
+  params: {
+    marketId: string;
+  };
+}
+
+export interface EnlistJurorRequest extends UserRequest {
+  params: {
+    marketId: string;
+  };
+}
+
+export interface CommitJurorVoteRequest extends UserRequest {
+  params: {
+    marketId: string;
+  };
+  body: {
+    optionId: string;
+    commitment: string; // sha256(optionId:userId:outcome:salt), hex
+  };
+}
+
+export interface RevealJurorVoteRequest extends UserRequest {
+  params: {
+    marketId: string;
+  };
+  body: {
+    optionId: string;
+    outcome: "YES" | "NO";
+    salt: string;
+  };
+}
+
+/**
+ * Typed request interfaces for Resolver Controller
+ */
+export interface GetResolversRequest extends Request {
+  query: {
+    type?: string;
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface GetResolverProfileRequest extends Request {
+  params: {
+    resolverId: string;
+  };
+}
+
+export interface GetResolverHistoryRequest extends Request {
+  params: {
+    resolverId: string;
+  };
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
 /**
  * Typed request interfaces for Analytics Controller
  */
@@ -799,7 +1057,7 @@ export interface HealthCheckRequest extends Request {}
 /**
  * Typed request interfaces for Admin Controller
  */
-export interface SetPauseFlagsRequest extends Request {
+export interface SetPauseFlagsRequest extends UserRequest {
   body: {
     pauseTrading?: boolean;
   };
@@ -816,7 +1074,7 @@ export interface WithdrawProtocolFeesRequest extends UserRequest {
   };
 }
 
-export interface CreateCategoryRequest extends Request {
+export interface CreateCategoryRequest extends UserRequest {
   body: {
     name: string;
     description?: string;
@@ -826,13 +1084,13 @@ export interface CreateCategoryRequest extends Request {
 
 export interface GetCategoriesRequest extends Request {}
 
-export interface DeleteCategoryRequest extends Request {
+export interface DeleteCategoryRequest extends UserRequest {
   params: {
     id: string;
   };
 }
 
-export interface ToggleMarketFeaturedRequest extends Request {
+export interface ToggleMarketFeaturedRequest extends UserRequest {
   params: {
     id: string;
   };
@@ -842,7 +1100,7 @@ export interface ToggleMarketFeaturedRequest extends Request {
   };
 }
 
-export interface ToggleMarketVerifiedRequest extends Request {
+export interface ToggleMarketVerifiedRequest extends UserRequest {
   params: {
     id: string;
   };
@@ -851,7 +1109,7 @@ export interface ToggleMarketVerifiedRequest extends Request {
   };
 }
 
-export interface UpdateMarketCategoriesRequest extends Request {
+export interface UpdateMarketCategoriesRequest extends UserRequest {
   params: {
     id: string;
   };
@@ -860,7 +1118,7 @@ export interface UpdateMarketCategoriesRequest extends Request {
   };
 }
 
-export interface ProcessWithdrawalRequest extends Request {
+export interface ProcessWithdrawalRequest extends UserRequest {
   params: {
     id: string;
   };
@@ -962,6 +1220,9 @@ export interface UpdateAdminSettingsRequest extends UserRequest {
       max_market_volatility_threshold?: number;
       suspicious_trade_threshold?: number;
       circuit_breaker_threshold?: number;
+      volatility_halt_enabled?: boolean;
+      volatility_halt_seconds?: number;
+      liquidity_halt_enabled?: boolean;
     };
     dispute_controls?: {
       default_dispute_period_hours?: number;
@@ -978,6 +1239,16 @@ export interface UpdateAdminSettingsRequest extends UserRequest {
       lp_fee_rate?: number;
       protocol_fee_rate?: number;
       creator_fee_rate?: number;
+      referral_fee_share_bps?: number;
+    };
+    trending_controls?: {
+      trending_window_hours?: number;
+      trending_half_life_hours?: number;
+      trending_volume_weight?: number;
+      trending_traders_weight?: number;
+      trending_price_weight?: number;
+      trending_comment_weight?: number;
+      trending_watchlist_weight?: number;
     };
   };
 }
@@ -993,7 +1264,8 @@ export interface GetAdminSettingsGroupRequest extends UserRequest {
       | "risk_controls"
       | "dispute_controls"
       | "feature_flags"
-      | "platform_fees";
+      | "platform_fees"
+      | "trending_controls";
   };
 }
 
@@ -1019,5 +1291,179 @@ export interface ResolveDisputeRequest extends UserRequest {
   body: {
     status: "resolved" | "dismissed";
     review_notes?: string;
+    // Uphold the dispute by voiding the whole market
+    void_market?: boolean;
+    fee_policy?: VoidFeePolicy;
+  };
+}
+
+export interface VoidMarketRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    reason: string;
+    fee_policy?: VoidFeePolicy;
+  };
+}
+
+export interface ReplayMarketRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetTrendingScoresRequest extends UserRequest {
+  query: {
+    limit?: string;
+  };
+}
+
+export interface GetMarketTrendingScoreRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetLiquidityAlertsRequest extends UserRequest {
+  query: {
+    market_id?: string;
+    severity?: string;
+    include_resolved?: string;
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface AcknowledgeLiquidityAlertRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    note?: string;
+  };
+}
+
+export interface RunLiquidityCheckRequest extends UserRequest {
+  body: {
+    market_id?: string;
+  };
+}
+
+export interface GetTradingHaltsRequest extends UserRequest {
+  query: {
+    market_id?: string;
+    status?: "active" | "all";
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface HaltMarketTradingRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    option_id?: string;
+    reason: string;
+    resume_at?: number | null;
+  };
+}
+
+export interface ResumeTradingHaltRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetRiskRulesRequest extends UserRequest {}
+
+export interface UpdateRiskRuleRequest extends UserRequest {
+  params: {
+    name: string;
+  };
+  body: {
+    enabled?: boolean;
+    severity?: string;
+    action?: string;
+    params?: Record<string, number>;
+  };
+}
+
+export interface GetUserAccountLinksRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+  query: {
+    depth?: string;
+  };
+}
+
+/**
+ * Typed request interfaces for Admin MFA Controller
+ */
+export interface ConfirmMfaEnrollmentRequest extends UserRequest {
+  body: {
+    code: string;
+  };
+}
+
+export interface VerifyMfaRequest extends UserRequest {
+  body: {
+    code: string; // TOTP code or backup code
+  };
+}
+
+/**
+ * Typed request interfaces for Admin Audit Controller
+ */
+export interface GetAdminAuditLogRequest extends UserRequest {
+  query: {
+    page?: string;
+    limit?: string;
+    admin_id?: string;
+    action?: string;
+    target_type?: string;
+    target_id?: string;
+    from?: string; // Unix seconds
+    to?: string; // Unix seconds
+  };
+}
+
+export interface VerifyAdminAuditLogRequest extends UserRequest {}
+
+/**
+ * Typed request interfaces for Ledger Controller
+ */
+export interface GetLedgerReconciliationsRequest extends UserRequest {
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
+export interface RunLedgerReconciliationRequest extends UserRequest {}
+
+export interface GetUserLedgerRequest extends UserRequest {
+  params: {
+    id: string;
+  };
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
+/**
+ * Typed request interfaces for Webhook Controller
+ */
+export interface DepositWebhookRequest extends Request {
+  body: Buffer; // Raw body, needed to check the signature
+}
+
+export interface GetDepositWebhookDeadLettersRequest extends UserRequest {
+  query: {
+    page?: string;
+    limit?: string;
   };
 }
@@ -1,4 +1,4 @@
-import { RequestHandler, Request, Response } from "express";
+import { RequestHandler, Request, Response, NextFunction } from "express";
 
 /**
  * Type-safe route handler wrapper
@@ -25,3 +25,23 @@ export function typedHandler<TRequest extends Request = Request>(
     Promise.resolve(handler(req as TRequest, res)).catch(next);
   };
 }
+
+/**
+ * Type-safe middleware wrapper
+ *
+ * Like typedHandler, for middleware that calls next() to continue the chain.
+ *
+ * @example
+ * router.post("/fees/withdraw", requireStepUp, typedHandler(withdrawProtocolFees));
+ */
+export function typedMiddleware<TRequest extends Request = Request>(
+  middleware: (
+    req: TRequest,
+    res: Response,
+    next: NextFunction
+  ) => Promise<void> | void
+): RequestHandler {
+  return (req: Request, res: Response, next) => {
+    Promise.resolve(middleware(req as TRequest, res, next)).catch(next);
+  };
+}
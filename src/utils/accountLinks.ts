@@ -0,0 +1,116 @@
+/// Account links
+///
+/// Accounts are linked when they share something only one person is
+/// likely to have:
+///   device                  the same device fingerprint at login
+///   ip                      the same login IP address
+///   withdrawal_destination  an address both withdrew to, or one withdrew
+///                           to the other's wallet
+/// Links form a graph; a user's cluster is every account reachable from
+/// them. Device and withdrawal links are strong enough to act on (risk
+/// rules, referral rewards); IP links are shown to admins only, since
+/// households and mobile networks share addresses. A device or IP shared
+/// by more than MAX_SHARED_ACCOUNTS accounts is treated as public (an
+/// office network, a common device model) and links nothing.
+
+import crypto from "crypto";
+
+export const ACCOUNT_LINK_TYPES = [
+  "device",
+  "ip",
+  "withdrawal_destination",
+] as const;
+export type AccountLinkType = (typeof ACCOUNT_LINK_TYPES)[number];
+
+/** Link types treated as the same person */
+export const SELF_DEALING_LINK_TYPES: AccountLinkType[] = [
+  "device",
+  "withdrawal_destination",
+];
+
+export const MAX_SHARED_ACCOUNTS = 10;
+
+const MAX_FINGERPRINT_LENGTH = 1024;
+
+/** One shared value between two accounts */
+export interface AccountLinkEdge {
+  user_id: string;
+  linked_user_id: string;
+  link_type: AccountLinkType;
+  link_value: string;
+  last_seen_at: number;
+}
+
+export interface LinkedAccount {
+  user_id: string;
+  link_types: AccountLinkType[];
+  shared: { link_type: AccountLinkType; link_value: string }[];
+  last_seen_at: number;
+}
+
+/**
+ * SHA-256 of a client-supplied device fingerprint, or null when none was
+ * sent or it isn't a plausible fingerprint
+ */
+export function hashDeviceFingerprint(fingerprint: unknown): string | null {
+  if (typeof fingerprint !== "string") {
+    return null;
+  }
+  const trimmed = fingerprint.trim();
+  if (!trimmed || trimmed.length > MAX_FINGERPRINT_LENGTH) {
+    return null;
+  }
+  return crypto.createHash("sha256").update(trimmed).digest("hex");
+}
+
+/**
+ * Group a user's links by the other account. Accounts sharing the most
+ * kinds of value come first, then the most recently seen.
+ */
+export function summarizeAccountLinks(
+  userId: string,
+  edges: AccountLinkEdge[]
+): LinkedAccount[] {
+  const byUser = new Map<string, LinkedAccount>();
+
+  for (const edge of edges) {
+    const other =
+      edge.user_id === userId
+        ? edge.linked_user_id
+        : edge.linked_user_id === userId
+        ? edge.user_id
+        : null;
+    if (!other) {
+      continue;
+    }
+
+    const account = byUser.get(other) || {
+      user_id: other,
+      link_types: [],
+      shared: [],
+      last_seen_at: 0,
+    };
+    if (!account.link_types.includes(edge.link_type)) {
+      account.link_types.push(edge.link_type);
+    }
+    account.shared.push({
+      link_type: edge.link_type,
+      link_value: edge.link_value,
+    });
+    account.last_seen_at = Math.max(account.last_seen_at, edge.last_seen_at);
+    byUser.set(other, account);
+  }
+
+  return [...byUser.values()]
+    .map((account) => ({
+      ...account,
+      link_types: ACCOUNT_LINK_TYPES.filter((type) =>
+        account.link_types.includes(type)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.link_types.length - a.link_types.length ||
+        b.last_seen_at - a.last_seen_at
+    );
+}
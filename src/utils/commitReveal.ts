@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { TransactionError } from "./transaction";
+
+/**
+ * Commit–reveal helpers shared by resolution flows where several parties vote
+ * on an option (OPINION submissions, CONSENSUS jurors).
+ *
+ * Voters first post sha256(option_id:user_id:outcome:salt) and only reveal the
+ * outcome and salt after the commit deadline, so nobody can copy a vote they
+ * have already seen.
+ */
+
+export type CommitRevealPhase = "open" | "commit" | "reveal" | "closed";
+
+export interface CommitRevealSchedule {
+  phase: CommitRevealPhase;
+  commit_opens_at: number;
+  commit_deadline: number;
+  reveal_deadline: number;
+}
+
+export const VOTE_OUTCOMES = ["YES", "NO"] as const;
+export type VoteOutcome = (typeof VOTE_OUTCOMES)[number];
+
+export const MAX_WINDOW_HOURS = 24 * 14;
+
+/**
+ * Commitment for a vote. Binding the option and voter stops anyone from
+ * reusing another voter's commitment.
+ */
+export function computeCommitment(
+  optionId: string,
+  userId: string,
+  outcome: string,
+  salt: string
+): string {
+  return createHash("sha256")
+    .update(`${optionId}:${userId}:${outcome}:${salt}`)
+    .digest("hex");
+}
+
+export function isCommitmentHash(value: any): boolean {
+  return typeof value === "string" && /^[0-9a-f]{64}$/i.test(value);
+}
+
+/**
+ * Normalize a revealed outcome, or return null if it isn't YES/NO
+ */
+export function parseVoteOutcome(value: any): VoteOutcome | null {
+  const outcome = String(value || "").toUpperCase();
+  return VOTE_OUTCOMES.includes(outcome as VoteOutcome)
+    ? (outcome as VoteOutcome)
+    : null;
+}
+
+/**
+ * Phase and deadlines of a commit–reveal round that opens at `opensAt`
+ * (unix seconds). Before it opens the phase is "open" (still trading).
+ */
+export function getCommitRevealSchedule(
+  opensAt: number,
+  commitWindowHours: number,
+  revealWindowHours: number,
+  now: number = Math.floor(Date.now() / 1000)
+): CommitRevealSchedule {
+  const commitOpensAt = Number(opensAt);
+  const commitDeadline = commitOpensAt + commitWindowHours * 3600;
+  const revealDeadline = commitDeadline + revealWindowHours * 3600;
+
+  let phase: CommitRevealPhase = "closed";
+  if (now < commitOpensAt) {
+    phase = "open";
+  } else if (now < commitDeadline) {
+    phase = "commit";
+  } else if (now < revealDeadline) {
+    phase = "reveal";
+  }
+
+  return {
+    phase,
+    commit_opens_at: commitOpensAt,
+    commit_deadline: commitDeadline,
+    reveal_deadline: revealDeadline,
+  };
+}
+
+/**
+ * Validate the commit–reveal windows and bond of a resolution config
+ */
+export function validateCommitRevealSettings(settings: {
+  commitWindowHours: number;
+  revealWindowHours: number;
+  bondAmount: number;
+  disputeWindowHours: number;
+}): void {
+  const isInt = (value: number, min: number, max: number) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+  if (
+    !isInt(settings.commitWindowHours, 1, MAX_WINDOW_HOURS) ||
+    !isInt(settings.revealWindowHours, 1, MAX_WINDOW_HOURS)
+  ) {
+    throw new TransactionError(
+      400,
+      `Commit and reveal windows must be between 1 and ${MAX_WINDOW_HOURS} hours`
+    );
+  }
+  if (!isInt(settings.bondAmount, 0, Number.MAX_SAFE_INTEGER)) {
+    throw new TransactionError(
+      400,
+      "bondAmount must be a non-negative integer (micro-USDC)"
+    );
+  }
+  if (!isInt(settings.disputeWindowHours, 0, MAX_WINDOW_HOURS)) {
+    throw new TransactionError(
+      400,
+      `disputeWindowHours must be between 0 and ${MAX_WINDOW_HOURS}`
+    );
+  }
+}
+
+/**
+ * Parse a resolution config from a request body (JSON string or object)
+ */
+export function parseResolutionConfigInput<T extends object>(raw: any): T {
+  if (raw === undefined || raw === null || raw === "") {
+    return {} as T;
+  }
+  let config: any;
+  try {
+    config = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    throw new TransactionError(400, "Resolution config must be valid JSON");
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new TransactionError(400, "Resolution config must be an object");
+  }
+  return config as T;
+}
@@ -29,21 +29,10 @@ async function getEncryptionPassword(): Promise<string> {
 }
 
 /**
- * Encrypts a Solana private key using AES-256-GCM encryption
- * @param privateKey - Solana private key as Uint8Array (64 bytes) or Keypair object
+ * Encrypts bytes using AES-256-GCM encryption
  * @returns Encrypted data as a hex string (format: salt:iv:tag:encryptedData)
  */
-export const encryptSolanaPrivateKey = async (
-  privateKey: Uint8Array | Keypair
-): Promise<string> => {
-  // Extract private key from Keypair if needed
-  const keyBytes =
-    privateKey instanceof Keypair ? privateKey.secretKey : privateKey;
-
-  if (keyBytes.length !== 64) {
-    throw new Error("Invalid Solana private key length. Expected 64 bytes.");
-  }
-
+const encryptBytes = async (bytes: Buffer): Promise<string> => {
   // Get encryption password lazily
   const password = await getEncryptionPassword();
 
@@ -63,11 +52,8 @@ export const encryptSolanaPrivateKey = async (
   // Create cipher
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
-  // Encrypt the private key
-  const encrypted = Buffer.concat([
-    cipher.update(Buffer.from(keyBytes)),
-    cipher.final(),
-  ]);
+  // Encrypt the data
+  const encrypted = Buffer.concat([cipher.update(bytes), cipher.final()]);
 
   // Get authentication tag
   const tag = cipher.getAuthTag();
@@ -79,6 +65,61 @@ export const encryptSolanaPrivateKey = async (
   return result.toString("hex");
 };
 
+/**
+ * Decrypts data encrypted by encryptBytes
+ * @param encryptedData - Encrypted data as hex string (format: salt:iv:tag:encryptedData)
+ */
+const decryptBytes = async (encryptedData: string): Promise<Buffer> => {
+  // Parse hex string to buffer
+  const data = Buffer.from(encryptedData, "hex");
+
+  // Extract components
+  const salt = data.subarray(0, SALT_LENGTH);
+  const iv = data.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const tag = data.subarray(
+    SALT_LENGTH + IV_LENGTH,
+    SALT_LENGTH + IV_LENGTH + TAG_LENGTH
+  );
+  const encrypted = data.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+
+  // Get encryption password lazily
+  const password = await getEncryptionPassword();
+
+  // Derive decryption key from password using PBKDF2
+  const key = crypto.pbkdf2Sync(
+    password,
+    salt,
+    PBKDF2_ITERATIONS,
+    KEY_LENGTH,
+    "sha256"
+  );
+
+  // Create decipher
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+};
+
+/**
+ * Encrypts a Solana private key using AES-256-GCM encryption
+ * @param privateKey - Solana private key as Uint8Array (64 bytes) or Keypair object
+ * @returns Encrypted data as a hex string (format: salt:iv:tag:encryptedData)
+ */
+export const encryptSolanaPrivateKey = async (
+  privateKey: Uint8Array | Keypair
+): Promise<string> => {
+  // Extract private key from Keypair if needed
+  const keyBytes =
+    privateKey instanceof Keypair ? privateKey.secretKey : privateKey;
+
+  if (keyBytes.length !== 64) {
+    throw new Error("Invalid Solana private key length. Expected 64 bytes.");
+  }
+
+  return encryptBytes(Buffer.from(keyBytes));
+};
+
 /**
  * Decrypts an encrypted Solana private key
  * @param encryptedData - Encrypted data as hex string (format: salt:iv:tag:encryptedData)
@@ -88,39 +129,7 @@ export const decryptSolanaPrivateKey = async (
   encryptedData: string
 ): Promise<Uint8Array> => {
   try {
-    // Parse hex string to buffer
-    const data = Buffer.from(encryptedData, "hex");
-
-    // Extract components
-    const salt = data.subarray(0, SALT_LENGTH);
-    const iv = data.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = data.subarray(
-      SALT_LENGTH + IV_LENGTH,
-      SALT_LENGTH + IV_LENGTH + TAG_LENGTH
-    );
-    const encrypted = data.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-
-    // Get encryption password lazily
-    const password = await getEncryptionPassword();
-
-    // Derive decryption key from password using PBKDF2
-    const key = crypto.pbkdf2Sync(
-      password,
-      salt,
-      PBKDF2_ITERATIONS,
-      KEY_LENGTH,
-      "sha256"
-    );
-
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(tag);
-
-    // Decrypt the private key
-    const decrypted = Buffer.concat([
-      decipher.update(encrypted),
-      decipher.final(),
-    ]);
+    const decrypted = await decryptBytes(encryptedData);
 
     // Validate length
     if (decrypted.length !== 64) {
@@ -136,6 +145,28 @@ export const decryptSolanaPrivateKey = async (
   }
 };
 
+/**
+ * Encrypts a UTF-8 string (e.g. an MFA secret) using AES-256-GCM encryption
+ * @returns Encrypted data as a hex string (format: salt:iv:tag:encryptedData)
+ */
+export const encryptText = async (text: string): Promise<string> => {
+  return encryptBytes(Buffer.from(text, "utf8"));
+};
+
+/**
+ * Decrypts a string encrypted with encryptText
+ */
+export const decryptText = async (encryptedData: string): Promise<string> => {
+  try {
+    return (await decryptBytes(encryptedData)).toString("utf8");
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Decryption failed: ${error.message}`);
+    }
+    throw new Error("Decryption failed: Unknown error");
+  }
+};
+
 /**
  * Encrypts a Solana Keypair and returns the encrypted private key
  * @param keypair - Solana Keypair object
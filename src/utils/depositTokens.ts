@@ -0,0 +1,204 @@
+/// SPL tokens accepted as deposits
+///
+/// USDC is the base token: it's credited one to one. Any other allowed
+/// mint (USDT, PYUSD, ...) is converted to USDC at the rate quoted by the
+/// deposit price source. A quote further than the token's max slippage
+/// from its reference rate (1 for stablecoins) isn't credited; the deposit
+/// is recorded as held for an admin to review, as is one without a quote.
+///
+/// Extra tokens are configured with DEPOSIT_TOKENS, a JSON array:
+///   [{ "symbol": "USDT", "mint": "Es9v...", "decimals": 6,
+///      "reference_rate": 1, "max_slippage_bps": 100 }]
+
+export const USDC_DECIMALS = 6;
+export const DEFAULT_MAX_SLIPPAGE_BPS = 100; // 1%
+
+// Rates are applied as fixed-point integers with this many decimals
+const RATE_DECIMALS = 12;
+const RATE_SCALE = 10n ** BigInt(RATE_DECIMALS);
+
+export interface DepositToken {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  reference_rate: number; // expected USDC per token
+  max_slippage_bps: number;
+  is_base: boolean;
+}
+
+export interface DepositQuote {
+  status: "credited" | "held";
+  credited_amount: bigint; // micro-USDC credited to the wallet, 0 if held
+  quoted_amount: bigint | null; // micro-USDC at the quoted rate
+  rate: number | null;
+  reason: string | null;
+}
+
+/**
+ * The base token (USDC) for a mint address
+ */
+export function baseDepositToken(mint: string): DepositToken {
+  return {
+    symbol: "USDC",
+    mint,
+    decimals: USDC_DECIMALS,
+    reference_rate: 1,
+    max_slippage_bps: 0,
+    is_base: true,
+  };
+}
+
+/**
+ * Parse DEPOSIT_TOKENS. Invalid entries and duplicates of an allowed mint
+ * are skipped and reported in errors. The base token always comes first.
+ */
+export function parseDepositTokens(
+  config: string | undefined,
+  baseMint: string
+): { tokens: DepositToken[]; errors: string[] } {
+  const tokens = [baseDepositToken(baseMint)];
+  const errors: string[] = [];
+  if (!config || !config.trim()) {
+    return { tokens, errors };
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(config);
+  } catch (error: any) {
+    return {
+      tokens,
+      errors: [`DEPOSIT_TOKENS is not valid JSON: ${error.message}`],
+    };
+  }
+  if (!Array.isArray(entries)) {
+    return { tokens, errors: ["DEPOSIT_TOKENS must be a JSON array"] };
+  }
+
+  entries.forEach((entry: any, index) => {
+    const label = `DEPOSIT_TOKENS[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const symbol =
+      typeof entry.symbol === "string" ? entry.symbol.trim().toUpperCase() : "";
+    const mint = typeof entry.mint === "string" ? entry.mint.trim() : "";
+    const decimals = Number(entry.decimals);
+    const referenceRate =
+      entry.reference_rate === undefined ? 1 : Number(entry.reference_rate);
+    const maxSlippageBps =
+      entry.max_slippage_bps === undefined
+        ? DEFAULT_MAX_SLIPPAGE_BPS
+        : Number(entry.max_slippage_bps);
+
+    if (!symbol || symbol.length > 32) {
+      errors.push(`${label}: symbol is required (max 32 characters)`);
+    } else if (!mint) {
+      errors.push(`${label}: mint is required`);
+    } else if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+      errors.push(`${label}: decimals must be an integer from 0 to 18`);
+    } else if (!(referenceRate > 0)) {
+      errors.push(`${label}: reference_rate must be positive`);
+    } else if (
+      !Number.isInteger(maxSlippageBps) ||
+      maxSlippageBps < 0 ||
+      maxSlippageBps > 10_000
+    ) {
+      errors.push(
+        `${label}: max_slippage_bps must be an integer from 0 to 10000`
+      );
+    } else if (tokens.some((token) => token.mint === mint)) {
+      errors.push(`${label}: mint ${mint} is already allowed`);
+    } else {
+      tokens.push({
+        symbol,
+        mint,
+        decimals,
+        reference_rate: referenceRate,
+        max_slippage_bps: maxSlippageBps,
+        is_base: false,
+      });
+    }
+  });
+
+  return { tokens, errors };
+}
+
+/**
+ * Convert an amount in a token's base units to micro-USDC at a rate (USDC
+ * per token), rounding down
+ */
+export function convertToUsdc(
+  amount: bigint,
+  decimals: number,
+  rate: number
+): bigint {
+  const scaledRate = BigInt(Math.round(rate * Number(RATE_SCALE)));
+  return (
+    (amount * scaledRate * 10n ** BigInt(USDC_DECIMALS)) /
+    (10n ** BigInt(decimals) * RATE_SCALE)
+  );
+}
+
+/**
+ * How far a rate is from the token's reference rate, in basis points
+ */
+export function rateDeviationBps(token: DepositToken, rate: number): number {
+  return (
+    (Math.abs(rate - token.reference_rate) / token.reference_rate) * 10_000
+  );
+}
+
+/**
+ * Work out what to credit for a deposit given the price source's rate
+ * (null when it has none)
+ */
+export function quoteDeposit(
+  token: DepositToken,
+  amount: bigint,
+  rate: number | null
+): DepositQuote {
+  if (token.is_base) {
+    return {
+      status: "credited",
+      credited_amount: amount,
+      quoted_amount: amount,
+      rate: 1,
+      reason: null,
+    };
+  }
+
+  if (rate === null || !Number.isFinite(rate) || rate <= 0) {
+    return {
+      status: "held",
+      credited_amount: 0n,
+      quoted_amount: null,
+      rate: null,
+      reason: `No ${token.symbol}/USDC rate available`,
+    };
+  }
+
+  const quotedAmount = convertToUsdc(amount, token.decimals, rate);
+  const deviationBps = rateDeviationBps(token, rate);
+  if (deviationBps > token.max_slippage_bps) {
+    return {
+      status: "held",
+      credited_amount: 0n,
+      quoted_amount: quotedAmount,
+      rate,
+      reason: `${token.symbol}/USDC rate ${rate} is ${deviationBps.toFixed(
+        1
+      )} bps from ${token.reference_rate} (max ${token.max_slippage_bps})`,
+    };
+  }
+
+  return {
+    status: "credited",
+    credited_amount: quotedAmount,
+    quoted_amount: quotedAmount,
+    rate,
+    reason: null,
+  };
+}
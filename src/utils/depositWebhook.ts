@@ -0,0 +1,212 @@
+/// Deposit webhooks
+///
+/// RPC providers (Helius, Circle, ...) can notify us of transactions to
+/// user wallets instead of waiting for the deposit listener's next poll.
+/// Requests are signed with an HMAC-SHA256 of "<timestamp>.<id>.<raw body>"
+/// using DEPOSIT_WEBHOOK_SECRET, sent as:
+///   X-Webhook-Timestamp: <unix seconds>
+///   X-Webhook-Signature: sha256=<hex digest>
+///   X-Webhook-Id: <unique event id> (optional; signed as "" when absent,
+///                 and events are then deduplicated by a body hash)
+/// The timestamp must be recent and each event id is only accepted once.
+/// The id is signed, so a captured request can't be replayed under a new
+/// one; ids are letters, digits, "_", "-" and ":" only, so the signed
+/// string can't be split differently.
+///
+/// Payloads are a transaction or an array of transactions, in Helius'
+/// enhanced format or as plain { signature, slot, accounts } objects; a
+/// { transactions: [...] } wrapper is accepted too.
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Solana signatures are 64 bytes, base58 encoded
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,90}$/;
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const WEBHOOK_ID_PATTERN = /^[A-Za-z0-9_:-]{1,128}$/;
+
+export interface DepositNotification {
+  signature: string;
+  slot: number | null;
+  block_time: number | null;
+  failed: boolean;
+  accounts: string[]; // Addresses involved, wallets are matched against these
+  mints: string[]; // Token mints transferred, empty if the payload didn't say
+}
+
+/**
+ * Sign a webhook body and its event id ("" when the request has none)
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number | string,
+  body: string | Buffer,
+  id: string = ""
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${id}.`)
+    .update(body)
+    .digest("hex");
+}
+
+/**
+ * Check a webhook's signature and that its timestamp is recent
+ * @returns null if the request is authentic, otherwise why it isn't
+ */
+export function verifyWebhookSignature(input: {
+  secret: string;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  id?: string;
+  body: Buffer;
+  now?: number;
+  toleranceSeconds?: number;
+}): string | null {
+  const {
+    secret,
+    timestamp,
+    signature,
+    body,
+    now = Math.floor(Date.now() / 1000),
+    toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  } = input;
+
+  if (!timestamp || !/^\d+$/.test(timestamp)) {
+    return "Missing or invalid timestamp";
+  }
+  if (Math.abs(now - Number(timestamp)) > toleranceSeconds) {
+    return "Timestamp outside the allowed window";
+  }
+  if (!signature) {
+    return "Missing signature";
+  }
+  const id = input.id?.trim() || "";
+  if (id && !WEBHOOK_ID_PATTERN.test(id)) {
+    return "Invalid webhook id";
+  }
+
+  const provided = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+  const expected = Buffer.from(
+    signWebhookPayload(secret, timestamp, body, id),
+    "hex"
+  );
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return "Invalid signature";
+  }
+  return null;
+}
+
+/**
+ * The id an event is deduplicated by: the provider's (signed) id if it sent
+ * one, otherwise a hash of the body
+ */
+export function webhookEventId(
+  headerId: string | undefined,
+  body: Buffer
+): string {
+  const id = headerId?.trim();
+  if (id && WEBHOOK_ID_PATTERN.test(id)) {
+    return id;
+  }
+  return `sha256:${createHash("sha256").update(body).digest("hex")}`;
+}
+
+const addresses = (values: unknown[]): string[] =>
+  values.filter(
+    (value): value is string =>
+      typeof value === "string" && ADDRESS_PATTERN.test(value)
+  );
+
+/**
+ * Parse one transaction from a webhook payload
+ */
+function parseNotification(entry: any): DepositNotification {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error("transaction must be an object");
+  }
+
+  const signature =
+    typeof entry.signature === "string" ? entry.signature.trim() : "";
+  if (!SIGNATURE_PATTERN.test(signature)) {
+    throw new Error("signature is missing or invalid");
+  }
+
+  const slot = Number.isInteger(entry.slot) ? entry.slot : null;
+  const blockTimeValue = entry.blockTime ?? entry.timestamp;
+  const blockTime = Number.isInteger(blockTimeValue) ? blockTimeValue : null;
+  const failed = Boolean(entry.transactionError ?? entry.err);
+
+  const tokenTransfers = Array.isArray(entry.tokenTransfers)
+    ? entry.tokenTransfers
+    : [];
+  const accountData = Array.isArray(entry.accountData) ? entry.accountData : [];
+
+  const accounts = new Set<string>(
+    addresses([
+      ...(Array.isArray(entry.accounts) ? entry.accounts : []),
+      ...tokenTransfers.flatMap((transfer: any) => [
+        transfer?.toUserAccount,
+        transfer?.toTokenAccount,
+      ]),
+      ...accountData.map((data: any) => data?.account),
+    ])
+  );
+  const mints = new Set<string>(
+    addresses(tokenTransfers.map((transfer: any) => transfer?.mint))
+  );
+
+  if (!accounts.size) {
+    throw new Error(`no accounts listed for ${signature}`);
+  }
+
+  return {
+    signature,
+    slot,
+    block_time: blockTime,
+    failed,
+    accounts: [...accounts],
+    mints: [...mints],
+  };
+}
+
+/**
+ * Parse a webhook body. Transactions that can't be parsed are reported in
+ * errors (with the entry) rather than failing the whole payload.
+ * @throws if the body isn't JSON or holds no transactions
+ */
+export function parseDepositWebhook(body: Buffer | string): {
+  notifications: DepositNotification[];
+  errors: { error: string; entry: unknown }[];
+} {
+  let payload: any;
+  try {
+    payload = JSON.parse(body.toString());
+  } catch (error: any) {
+    throw new Error(`Payload is not valid JSON: ${error.message}`);
+  }
+
+  const entries = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.transactions)
+    ? payload.transactions
+    : [payload];
+  if (!entries.length) {
+    throw new Error("Payload holds no transactions");
+  }
+
+  const notifications: DepositNotification[] = [];
+  const errors: { error: string; entry: unknown }[] = [];
+  entries.forEach((entry: unknown, index: number) => {
+    try {
+      notifications.push(parseNotification(entry));
+    } catch (error: any) {
+      errors.push({ error: `transactions[${index}]: ${error.message}`, entry });
+    }
+  });
+
+  return { notifications, errors };
+}
@@ -0,0 +1,249 @@
+/// Portfolio valuation and equity curves
+///
+/// A portfolio is valued as wallet cash plus open positions at their latest
+/// price plus LP shares at the pool's share value. Snapshots of that value
+/// are taken per hour and per day (see PortfolioSnapshotService); the curve
+/// built from them reports P&L per bucket and drawdown. Amounts are
+/// micro-USDC, share quantities micro-shares and prices 0-1 USDC per share.
+
+import { ScalarBounds, calculateResolvedPayout } from "./scalar";
+
+export type EquityInterval = "1h" | "1d";
+
+export const EQUITY_INTERVALS: EquityInterval[] = ["1h", "1d"];
+
+export const EQUITY_INTERVAL_SECONDS: Record<EquityInterval, number> = {
+  "1h": 3600,
+  "1d": 86400,
+};
+
+/**
+ * Start of the bucket a time falls in (UTC)
+ */
+export function equityBucketStart(
+  at: number,
+  interval: EquityInterval
+): number {
+  const seconds = EQUITY_INTERVAL_SECONDS[interval];
+  return Math.floor(at / seconds) * seconds;
+}
+
+/** A user_positions row with its option's resolution */
+export interface PositionHolding extends ScalarBounds {
+  option_id: string;
+  yes_shares: number;
+  no_shares: number;
+  total_yes_cost: number;
+  total_no_cost: number;
+  realized_pnl: number;
+  option_resolved: boolean;
+  winning_side: number | null; // 1 = yes, 2 = no
+  is_scalar?: boolean;
+  resolved_value?: number | string | null;
+}
+
+export interface OptionPrice {
+  yes_price: number;
+  no_price: number;
+}
+
+/** An lp_positions row with its market's pool */
+export interface LiquidityHolding {
+  shares: number;
+  deposited_amount: number;
+  market_resolved: boolean;
+  total_shared_lp_shares: number;
+  shared_pool_liquidity: number;
+  accumulated_lp_fees: number;
+}
+
+/**
+ * Current value of a position. Resolved options are valued at what they
+ * pay out (see calculateResolvedPayout); open ones are valued at the
+ * latest price, or at cost when the option has no price history.
+ */
+export function valuePosition(
+  position: PositionHolding,
+  price: OptionPrice | null
+): number {
+  const yesShares = Number(position.yes_shares || 0);
+  const noShares = Number(position.no_shares || 0);
+
+  if (position.option_resolved && position.winning_side) {
+    return calculateResolvedPayout(position, yesShares, noShares);
+  }
+  if (!price) {
+    return (
+      Number(position.total_yes_cost || 0) + Number(position.total_no_cost || 0)
+    );
+  }
+  return Math.floor(
+    yesShares * Number(price.yes_price) + noShares * Number(price.no_price)
+  );
+}
+
+/**
+ * Current value of an LP position, as getPortfolio values it
+ */
+export function valueLiquidity(lp: LiquidityHolding): number {
+  const totalShares = Number(lp.total_shared_lp_shares || 0);
+  if (lp.market_resolved || totalShares <= 0) {
+    return Number(lp.deposited_amount || 0);
+  }
+  return Math.floor(
+    (Number(lp.shares || 0) *
+      (Number(lp.shared_pool_liquidity || 0) +
+        Number(lp.accumulated_lp_fees || 0))) /
+      totalShares
+  );
+}
+
+export interface PortfolioValuation {
+  cash_balance: number;
+  positions_value: number;
+  liquidity_value: number;
+  total_value: number;
+  cost_basis: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  net_deposits: number;
+}
+
+/**
+ * Value a user's portfolio. prices maps option ids to their latest price.
+ */
+export function valuePortfolio(input: {
+  cashBalance: number;
+  positions: PositionHolding[];
+  prices: Map<string, OptionPrice>;
+  liquidity: LiquidityHolding[];
+  netDeposits: number;
+}): PortfolioValuation {
+  let positionsValue = 0;
+  let costBasis = 0;
+  let realizedPnl = 0;
+  for (const position of input.positions) {
+    realizedPnl += Number(position.realized_pnl || 0);
+    if (
+      Number(position.yes_shares || 0) <= 0 &&
+      Number(position.no_shares || 0) <= 0
+    ) {
+      continue;
+    }
+    positionsValue += valuePosition(
+      position,
+      input.prices.get(position.option_id) || null
+    );
+    costBasis +=
+      Number(position.total_yes_cost || 0) +
+      Number(position.total_no_cost || 0);
+  }
+
+  const liquidityValue = input.liquidity.reduce(
+    (sum, lp) => sum + valueLiquidity(lp),
+    0
+  );
+  const cashBalance = Number(input.cashBalance || 0);
+
+  return {
+    cash_balance: cashBalance,
+    positions_value: positionsValue,
+    liquidity_value: liquidityValue,
+    total_value: cashBalance + positionsValue + liquidityValue,
+    cost_basis: costBasis,
+    realized_pnl: realizedPnl,
+    unrealized_pnl: positionsValue - costBasis,
+    net_deposits: input.netDeposits,
+  };
+}
+
+export interface EquitySnapshot extends PortfolioValuation {
+  bucket_start: number;
+}
+
+export interface EquityPoint extends EquitySnapshot {
+  total_pnl: number; // realized + unrealized
+  pnl_change: number; // total_pnl change since the previous point
+  return_percent: number; // time-weighted, since the first point
+  drawdown_percent: number; // from the highest return so far, <= 0
+}
+
+export interface EquityCurve {
+  points: EquityPoint[];
+  summary: {
+    start_value: number;
+    end_value: number;
+    peak_value: number;
+    net_deposits_change: number;
+    realized_pnl_change: number;
+    unrealized_pnl_change: number;
+    total_pnl_change: number;
+    return_percent: number;
+    max_drawdown_percent: number;
+    current_drawdown_percent: number;
+  };
+}
+
+const roundPercent = (value: number): number =>
+  Math.round(value * 10_000) / 10_000;
+
+/**
+ * Build an equity curve from snapshots. Returns are time-weighted:
+ * deposits and withdrawals between two snapshots (the change in
+ * net_deposits) are taken out of that step's return, so moving money in
+ * or out doesn't show up as profit or drawdown.
+ */
+export function buildEquityCurve(snapshots: EquitySnapshot[]): EquityCurve {
+  const sorted = [...snapshots].sort((a, b) => a.bucket_start - b.bucket_start);
+
+  const points: EquityPoint[] = [];
+  let index = 1;
+  let peakIndex = 1;
+  let maxDrawdown = 0;
+  let peakValue = 0;
+
+  sorted.forEach((snapshot, i) => {
+    const previous = i > 0 ? sorted[i - 1] : null;
+    const totalPnl = snapshot.realized_pnl + snapshot.unrealized_pnl;
+
+    if (previous && previous.total_value > 0) {
+      const flow = snapshot.net_deposits - previous.net_deposits;
+      const growth = (snapshot.total_value - flow) / previous.total_value;
+      index *= Math.max(0, growth);
+    }
+    peakIndex = Math.max(peakIndex, index);
+    peakValue = Math.max(peakValue, snapshot.total_value);
+    const drawdown = peakIndex > 0 ? (index / peakIndex - 1) * 100 : 0;
+    maxDrawdown = Math.min(maxDrawdown, drawdown);
+
+    points.push({
+      ...snapshot,
+      total_pnl: totalPnl,
+      pnl_change: previous
+        ? totalPnl - (previous.realized_pnl + previous.unrealized_pnl)
+        : 0,
+      return_percent: roundPercent((index - 1) * 100),
+      drawdown_percent: roundPercent(drawdown),
+    });
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  return {
+    points,
+    summary: {
+      start_value: first?.total_value || 0,
+      end_value: last?.total_value || 0,
+      peak_value: peakValue,
+      net_deposits_change: last ? last.net_deposits - first.net_deposits : 0,
+      realized_pnl_change: last ? last.realized_pnl - first.realized_pnl : 0,
+      unrealized_pnl_change: last
+        ? last.unrealized_pnl - first.unrealized_pnl
+        : 0,
+      total_pnl_change: last ? last.total_pnl - first.total_pnl : 0,
+      return_percent: last?.return_percent || 0,
+      max_drawdown_percent: roundPercent(maxDrawdown),
+      current_drawdown_percent: last?.drawdown_percent || 0,
+    },
+  };
+}
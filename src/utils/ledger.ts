@@ -0,0 +1,245 @@
+/// Double-entry ledger
+///
+/// Every movement of USDC between balances is posted as one ledger
+/// transaction whose debits equal its credits. Accounts:
+/// - user: a user's wallet balance (wallets.balance_usdc), by user id
+/// - market_pool: a market's shared pool (markets.shared_pool_liquidity)
+/// - lp_fee_pool: a market's LP fees (markets.accumulated_lp_fees)
+/// - creator_fees: a market's unwithdrawn creator fees (markets.creator_fees_collected)
+/// - protocol_fees: the platform's fee balance (moodring.current_protocol_fees_balance)
+/// - referral_rewards: referral rewards accrued but not yet claimed
+/// - escrow: a user's funds held for open limit orders and resolution bonds
+/// - resolver_bond: a resolver's bond, free or committed to markets, by resolver id
+/// - hot_wallet: USDC held on-chain for the platform; deposits come in
+///   and withdrawals go out through it
+/// - adjustments: manual balance adjustments made by admins, and fee
+///   rounding the platform keeps but doesn't book as protocol fees
+///
+/// hot_wallet and adjustments are debit-normal (what the platform holds or
+/// spent); every other account is credit-normal (what the platform owes).
+/// Because every transaction balances, hot_wallet + adjustments always
+/// equal the sum of every other account.
+
+export type LedgerAccountType =
+  | "user"
+  | "market_pool"
+  | "lp_fee_pool"
+  | "creator_fees"
+  | "protocol_fees"
+  | "referral_rewards"
+  | "escrow"
+  | "resolver_bond"
+  | "hot_wallet"
+  | "adjustments";
+
+export const LEDGER_ACCOUNT_TYPES: LedgerAccountType[] = [
+  "user",
+  "market_pool",
+  "lp_fee_pool",
+  "creator_fees",
+  "protocol_fees",
+  "referral_rewards",
+  "escrow",
+  "resolver_bond",
+  "hot_wallet",
+  "adjustments",
+];
+
+export const DEBIT_NORMAL_ACCOUNTS: LedgerAccountType[] = [
+  "hot_wallet",
+  "adjustments",
+];
+
+export type LedgerDirection = "debit" | "credit";
+
+export interface LedgerAccount {
+  type: LedgerAccountType;
+  id: string | null; // null for platform-wide accounts
+}
+
+export interface LedgerEntryInput {
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount: number; // micro-USDC
+}
+
+export const LedgerAccounts = {
+  user: (userId: string): LedgerAccount => ({ type: "user", id: userId }),
+  marketPool: (marketId: string): LedgerAccount => ({
+    type: "market_pool",
+    id: marketId,
+  }),
+  lpFeePool: (marketId: string): LedgerAccount => ({
+    type: "lp_fee_pool",
+    id: marketId,
+  }),
+  creatorFees: (marketId: string): LedgerAccount => ({
+    type: "creator_fees",
+    id: marketId,
+  }),
+  protocolFees: (): LedgerAccount => ({ type: "protocol_fees", id: null }),
+  referralRewards: (): LedgerAccount => ({
+    type: "referral_rewards",
+    id: null,
+  }),
+  escrow: (userId: string): LedgerAccount => ({ type: "escrow", id: userId }),
+  resolverBond: (resolverId: string): LedgerAccount => ({
+    type: "resolver_bond",
+    id: resolverId,
+  }),
+  hotWallet: (): LedgerAccount => ({ type: "hot_wallet", id: null }),
+  adjustments: (): LedgerAccount => ({ type: "adjustments", id: null }),
+};
+
+export const debit = (
+  account: LedgerAccount,
+  amount: number
+): LedgerEntryInput => ({ account, direction: "debit", amount });
+
+export const credit = (
+  account: LedgerAccount,
+  amount: number
+): LedgerEntryInput => ({ account, direction: "credit", amount });
+
+export class LedgerImbalanceError extends Error {
+  constructor(message: string) {
+    super(`Ledger transaction is not balanced: ${message}`);
+    this.name = "LedgerImbalanceError";
+  }
+}
+
+/**
+ * Check a transaction's entries and return the ones to store.
+ * Zero entries are dropped and negative ones flipped to the other side;
+ * throws LedgerImbalanceError if an amount isn't a whole number of
+ * micro-USDC or debits don't equal credits.
+ */
+export function normalizeEntries(
+  entries: LedgerEntryInput[]
+): LedgerEntryInput[] {
+  const normalized: LedgerEntryInput[] = [];
+  let debits = 0;
+  let credits = 0;
+
+  for (const entry of entries) {
+    if (!Number.isSafeInteger(entry.amount)) {
+      throw new LedgerImbalanceError(
+        `${entry.account.type} amount ${entry.amount} is not a whole number of micro-USDC`
+      );
+    }
+    if (entry.amount === 0) {
+      continue;
+    }
+    const flipped = entry.amount < 0;
+    const direction: LedgerDirection = flipped
+      ? entry.direction === "debit"
+        ? "credit"
+        : "debit"
+      : entry.direction;
+    const amount = Math.abs(entry.amount);
+
+    normalized.push({ account: entry.account, direction, amount });
+    if (direction === "debit") {
+      debits += amount;
+    } else {
+      credits += amount;
+    }
+  }
+
+  if (debits !== credits) {
+    throw new LedgerImbalanceError(`debits ${debits} != credits ${credits}`);
+  }
+  return normalized;
+}
+
+/**
+ * Balance of an account from its debit and credit totals, positive when
+ * the account holds its normal balance
+ */
+export function accountBalance(
+  type: LedgerAccountType,
+  debits: number,
+  credits: number
+): number {
+  return DEBIT_NORMAL_ACCOUNTS.includes(type)
+    ? debits - credits
+    : credits - debits;
+}
+
+/**
+ * Fees taken on a trade, credited to the market's fee accounts and the
+ * platform. The referrer's share comes out of the protocol fee. totalFee
+ * is rounded once over all fee rates, so it can exceed the sum of the
+ * separately rounded fees; the difference goes to adjustments.
+ */
+/**
+ * Protocol's share of a trade fee after the referrer's cut. Market stats,
+ * the protocol fee total and the ledger all record this same amount.
+ */
+export function netProtocolFee(fees: {
+  protocolFee: number;
+  referralReward: number;
+}): number {
+  return fees.protocolFee - fees.referralReward;
+}
+
+export function tradeFeeCredits(
+  marketId: string,
+  fees: {
+    totalFee: number;
+    lpFee: number;
+    creatorFee: number;
+    protocolFee: number;
+    referralReward: number;
+  }
+): LedgerEntryInput[] {
+  const rounding =
+    fees.totalFee - fees.lpFee - fees.creatorFee - fees.protocolFee;
+  return [
+    credit(LedgerAccounts.lpFeePool(marketId), fees.lpFee),
+    credit(LedgerAccounts.creatorFees(marketId), fees.creatorFee),
+    credit(LedgerAccounts.protocolFees(), netProtocolFee(fees)),
+    credit(LedgerAccounts.referralRewards(), fees.referralReward),
+    credit(LedgerAccounts.adjustments(), rounding),
+  ];
+}
+
+export interface ReconciliationMismatch {
+  check: string;
+  account_type: LedgerAccountType | null; // null for unbalanced transactions
+  account_id: string | null;
+  expected: number; // stored balance
+  actual: number; // ledger balance
+  difference: number; // actual - expected
+}
+
+/**
+ * Compare stored balances with ledger balances by account id. An id
+ * missing on one side counts as a zero balance there.
+ */
+export function diffBalances(
+  check: string,
+  type: LedgerAccountType,
+  stored: Map<string | null, number>,
+  ledger: Map<string | null, number>
+): ReconciliationMismatch[] {
+  const mismatches: ReconciliationMismatch[] = [];
+  const ids = new Set([...stored.keys(), ...ledger.keys()]);
+
+  for (const id of ids) {
+    const expected = stored.get(id) || 0;
+    const actual = ledger.get(id) || 0;
+    if (expected !== actual) {
+      mismatches.push({
+        check,
+        account_type: type,
+        account_id: id,
+        expected,
+        actual,
+        difference: actual - expected,
+      });
+    }
+  }
+
+  return mismatches;
+}
@@ -6,6 +6,10 @@ import Decimal from "decimal.js";
 /// Price for YES = e^(q_yes/b) / (e^(q_yes/b) + e^(q_no/b))
 /// Price for NO = e^(q_no/b) / (e^(q_yes/b) + e^(q_no/b))
 ///
+/// Exclusive (multi-outcome) markets share one n-dimensional cost function
+/// across all of their options: C(q) = b * ln(sum_i e^(q_i/b))
+/// Price for outcome i = e^(q_i/b) / sum_j e^(q_j/b), so prices sum to 1.
+///
 /// SECURITY FIX: Uses Decimal.js for arbitrary precision (28 decimal places)
 /// to prevent rounding exploits and maintain all LMSR invariants.
 
@@ -264,5 +268,212 @@ function cost_function(
   return result;
 }
 
+/// Calculate the cost to buy shares of one outcome of an exclusive market
+/// Returns the cost in USDC (scaled by PRECISION)
+export function calculate_multi_buy_cost(
+  quantities: Array<number | bigint | Decimal | any>,
+  outcome_index: number,
+  buy_amount: number | bigint | Decimal | any,
+  liquidity_param: number | bigint | Decimal | any
+): number {
+  const q = quantities.map(toDecimal);
+  const amount = toDecimal(buy_amount);
+  const b = toDecimal(liquidity_param);
+
+  validate_outcome_index(q, outcome_index);
+  if (amount.isNegative()) {
+    throw new ArithmeticUnderflowError();
+  }
+
+  // Cost = C(q_new) - C(q_current)
+  const cost_before = multi_cost_function(q, b);
+  const new_q = q.map((value, i) =>
+    i === outcome_index ? value.add(amount) : value
+  );
+  const cost_after = multi_cost_function(new_q, b);
+
+  const result = cost_after.sub(cost_before);
+
+  if (result.isNegative()) {
+    throw new ArithmeticUnderflowError();
+  }
+
+  // Validate cost is non-negative (LMSR invariant)
+  if (result.isZero() && !amount.isZero()) {
+    throw new InvariantViolationError(
+      "Cost should be positive for non-zero purchase"
+    );
+  }
+
+  return toNumber(result);
+}
+
+/// Calculate the payout from selling shares of one outcome of an exclusive market
+/// Returns the payout in USDC (scaled by PRECISION)
+export function calculate_multi_sell_payout(
+  quantities: Array<number | bigint | Decimal | any>,
+  outcome_index: number,
+  sell_amount: number | bigint | Decimal | any,
+  liquidity_param: number | bigint | Decimal | any
+): number {
+  const q = quantities.map(toDecimal);
+  const amount = toDecimal(sell_amount);
+  const b = toDecimal(liquidity_param);
+
+  validate_outcome_index(q, outcome_index);
+  if (amount.isNegative() || q[outcome_index].lt(amount)) {
+    throw new ArithmeticUnderflowError();
+  }
+
+  // Payout = C(q_current) - C(q_new)
+  const cost_before = multi_cost_function(q, b);
+  const new_q = q.map((value, i) =>
+    i === outcome_index ? value.sub(amount) : value
+  );
+  const cost_after = multi_cost_function(new_q, b);
+
+  const result = cost_before.sub(cost_after);
+
+  if (result.isNegative()) {
+    throw new ArithmeticUnderflowError();
+  }
+
+  // Validate payout is non-negative (LMSR invariant)
+  if (result.isZero() && !amount.isZero()) {
+    throw new InvariantViolationError(
+      "Payout should be positive for non-zero sale"
+    );
+  }
+
+  return toNumber(result);
+}
+
+/// Calculate the current price of every outcome of an exclusive market (scaled by PRECISION)
+/// Price_i = e^(q_i/b) / sum_j e^(q_j/b)
+/// Maintains the invariant that the prices sum to exactly PRECISION
+export function calculate_multi_prices(
+  quantities: Array<number | bigint | Decimal | any>,
+  liquidity_param: number | bigint | Decimal | any
+): number[] {
+  const q = quantities.map(toDecimal);
+  const b = toDecimal(liquidity_param);
+
+  if (b.isZero()) {
+    throw new DivisionByZeroError();
+  }
+  if (q.length === 0) {
+    return [];
+  }
+
+  // For numerical stability, factor out the largest exponent:
+  // price_i = e^((q_i - max_q)/b) / sum_j e^((q_j - max_q)/b)
+  const max_q = Decimal.max(...q);
+  const weights = q.map((value) => value.sub(max_q).div(b).exp());
+  const total = weights.reduce(
+    (sum, weight) => sum.add(weight),
+    new Decimal(0)
+  );
+
+  const prices = weights.map((weight) =>
+    toNumber(weight.mul(PRECISION).div(total))
+  );
+
+  // Rounding can leave the sum a few units off PRECISION; settle the
+  // difference on the highest-priced outcome so the invariant holds exactly
+  const rounding_error =
+    PRECISION.toNumber() - prices.reduce((sum, price) => sum + price, 0);
+  if (Math.abs(rounding_error) > q.length) {
+    throw new InvariantViolationError(
+      `Price sum not equal to PRECISION: ${prices.join(" + ")}`
+    );
+  }
+  const max_index = prices.indexOf(Math.max(...prices));
+  prices[max_index] += rounding_error;
+
+  for (const price of prices) {
+    if (price < 0 || price > PRECISION.toNumber()) {
+      throw new InvariantViolationError(
+        `Outcome price out of bounds: ${price}`
+      );
+    }
+  }
+
+  return prices;
+}
+
+/// Calculate the YES price of every option of a market (scaled by PRECISION)
+/// Options of an exclusive market share one cost function and are priced
+/// together, in market order; every other option is its own YES/NO pair
+export function calculate_option_prices(
+  options: Array<{
+    yes_quantity: number | bigint | Decimal | any;
+    no_quantity: number | bigint | Decimal | any;
+  }>,
+  liquidity_param: number | bigint | Decimal | any,
+  is_exclusive: boolean
+): number[] {
+  if (is_exclusive) {
+    return calculate_multi_prices(
+      options.map((option) => option.yes_quantity),
+      liquidity_param
+    );
+  }
+  return options.map((option) =>
+    calculate_yes_price(
+      option.yes_quantity,
+      option.no_quantity,
+      liquidity_param
+    )
+  );
+}
+
+/// Cost function: C(q) = b * ln(sum_i e^(q_i/b))
+/// Returns cost scaled by PRECISION
+function multi_cost_function(
+  quantities: Decimal[],
+  liquidity_param: Decimal
+): Decimal {
+  if (liquidity_param.isZero()) {
+    throw new DivisionByZeroError();
+  }
+
+  // For numerical stability, factor out the largest exponent:
+  // C(q) = max_q + b * ln(sum_i e^((q_i - max_q)/b))
+  const max_q = Decimal.max(...quantities);
+  const sum_exp = quantities.reduce(
+    (sum, value) => sum.add(value.sub(max_q).div(liquidity_param).exp()),
+    new Decimal(0)
+  );
+  const result = max_q.add(liquidity_param.mul(sum_exp.ln()));
+
+  // Validate cost function invariant: C(q) >= max(q_i)
+  if (result.lt(max_q)) {
+    throw new InvariantViolationError(
+      `Cost function violated: C(${quantities.join(
+        ", "
+      )}) < max(${quantities.join(", ")})`
+    );
+  }
+
+  return result;
+}
+
+function validate_outcome_index(quantities: Decimal[], outcome_index: number) {
+  if (quantities.length < 2) {
+    throw new InvariantViolationError(
+      "Exclusive markets need at least two outcomes"
+    );
+  }
+  if (
+    !Number.isInteger(outcome_index) ||
+    outcome_index < 0 ||
+    outcome_index >= quantities.length
+  ) {
+    throw new InvariantViolationError(
+      `Invalid outcome index: ${outcome_index}`
+    );
+  }
+}
+
 // Export PRECISION and error classes for use in tests
 export { PRECISION, InvariantViolationError };
@@ -0,0 +1,67 @@
+import { MarketStatus } from "../models/Resolution";
+
+/**
+ * Market lifecycle state machine.
+ *
+ *   OPEN ──> RESOLVING ──> RESOLVED
+ *     │          │  ▲          │
+ *     │          ▼  │          ▼
+ *     └──────> DISPUTED <──────┘
+ *
+ *   (any status except VOIDED) ──> VOIDED
+ *
+ * - OPEN: trading until expiration_timestamp
+ * - RESOLVING: resolution has started, either because the market expired
+ *   (the lifecycle scheduler closes trading) or because an option was
+ *   resolved early; waiting for the remaining options to resolve
+ * - RESOLVED: every option resolved; payouts follow the dispute window
+ * - DISPUTED: a resolution is under dispute; goes back to RESOLVING or
+ *   RESOLVED once no open disputes remain
+ * - VOIDED: the market was cancelled and unwound; holders and LPs were
+ *   refunded (see services/marketVoidService.ts). Terminal.
+ *
+ * A market never reopens. OPEN can move straight to RESOLVED when all of its
+ * options resolve at once (e.g. a binary market resolved by a tally).
+ */
+export const MARKET_STATUS_TRANSITIONS: Record<MarketStatus, MarketStatus[]> = {
+  [MarketStatus.OPEN]: [
+    MarketStatus.RESOLVING,
+    MarketStatus.RESOLVED,
+    MarketStatus.DISPUTED,
+    MarketStatus.VOIDED,
+  ],
+  [MarketStatus.RESOLVING]: [
+    MarketStatus.RESOLVED,
+    MarketStatus.DISPUTED,
+    MarketStatus.VOIDED,
+  ],
+  [MarketStatus.RESOLVED]: [MarketStatus.DISPUTED, MarketStatus.VOIDED],
+  [MarketStatus.DISPUTED]: [
+    MarketStatus.RESOLVING,
+    MarketStatus.RESOLVED,
+    MarketStatus.VOIDED,
+  ],
+  [MarketStatus.VOIDED]: [],
+};
+
+/**
+ * Whether a market may move from one status to another
+ */
+export const canTransitionMarketStatus = (
+  from: MarketStatus,
+  to: MarketStatus
+): boolean => {
+  return (MARKET_STATUS_TRANSITIONS[from] || []).includes(to);
+};
+
+/**
+ * Whether trading has closed for a market at `now` (unix seconds).
+ * Trading closes at expiration, even if the lifecycle scheduler hasn't moved
+ * the market to RESOLVING yet.
+ */
+export const isTradingClosed = (
+  market: { expiration_timestamp: number | string },
+  now: number = Math.floor(Date.now() / 1000)
+): boolean => {
+  return Number(market.expiration_timestamp) <= now;
+};
@@ -0,0 +1,120 @@
+/// Market void refund calculation
+///
+/// Voiding a market unwinds it from its shared pool:
+/// 1. Every holder gets back the net cost basis of their position. If the
+///    pool can't cover every holder in full, holders are refunded pro rata.
+/// 2. LPs split what is left of the pool by their LP shares.
+/// 3. The fee policy decides what happens to trading fees:
+///    - retain: fees stay with the platform and creator; LPs also get the
+///      accumulated LP fees
+///    - refund: holders also get back the fees they paid on buys, funded
+///      from the LP fees first, then the creator's unwithdrawn fees, then
+///      the platform's protocol fees
+/// Integer rounding leftovers are reported as dust and kept by the platform.
+
+export type VoidFeePolicy = "retain" | "refund";
+
+export const VOID_FEE_POLICIES: VoidFeePolicy[] = ["retain", "refund"];
+
+export interface VoidHolder {
+  cost_basis: number;
+  fees_paid: number;
+}
+
+export interface VoidLiquidityProvider {
+  shares: number;
+}
+
+export interface VoidRefundInput<H extends VoidHolder, L> {
+  poolLiquidity: number;
+  lpFees: number;
+  creatorFees: number;
+  holders: H[];
+  liquidityProviders: L[];
+  feePolicy: VoidFeePolicy;
+}
+
+export interface VoidRefundPlan<H, L> {
+  holders: Array<H & { refund: number; fee_refund: number }>;
+  liquidityProviders: Array<L & { refund: number }>;
+  // Cost basis the pool couldn't cover
+  shortfall: number;
+  // Where refunded fees come from (all 0 under the retain policy)
+  feeFunding: {
+    lp_fees: number;
+    creator_fees: number;
+    protocol_fees: number;
+  };
+  dust: number;
+}
+
+// floor(amount * numerator / denominator) without losing precision
+const mulDiv = (amount: number, numerator: number, denominator: number) =>
+  Number((BigInt(amount) * BigInt(numerator)) / BigInt(denominator));
+
+/**
+ * Split a voided market's pool (and, by policy, its fees) between holders
+ * and LPs. All amounts are integers in micro-USDC.
+ */
+export function calculateVoidRefunds<
+  H extends VoidHolder,
+  L extends VoidLiquidityProvider
+>(input: VoidRefundInput<H, L>): VoidRefundPlan<H, L> {
+  const poolLiquidity = Math.max(0, Math.floor(input.poolLiquidity));
+  const lpFees = Math.max(0, Math.floor(input.lpFees));
+  const creatorFees = Math.max(0, Math.floor(input.creatorFees));
+
+  // 1. Holders get their cost basis back, pro rata if the pool is short
+  const totalCostBasis = input.holders.reduce(
+    (sum, holder) => sum + Math.max(0, Math.floor(holder.cost_basis)),
+    0
+  );
+  const coveredCostBasis = Math.min(totalCostBasis, poolLiquidity);
+
+  const holders = input.holders.map((holder) => {
+    const costBasis = Math.max(0, Math.floor(holder.cost_basis));
+    const refund =
+      totalCostBasis <= poolLiquidity
+        ? costBasis
+        : mulDiv(costBasis, coveredCostBasis, totalCostBasis);
+    const feeRefund =
+      input.feePolicy === "refund"
+        ? Math.max(0, Math.floor(holder.fees_paid))
+        : 0;
+    return { ...holder, refund, fee_refund: feeRefund };
+  });
+  const holderRefunds = holders.reduce((sum, h) => sum + h.refund, 0);
+
+  // 2. Fee refunds come from LP fees, then creator fees, then the platform
+  const totalFeeRefunds = holders.reduce((sum, h) => sum + h.fee_refund, 0);
+  const fromLpFees = Math.min(totalFeeRefunds, lpFees);
+  const fromCreatorFees = Math.min(totalFeeRefunds - fromLpFees, creatorFees);
+  const fromProtocolFees = totalFeeRefunds - fromLpFees - fromCreatorFees;
+
+  // 3. LPs split the rest of the pool and any LP fees left
+  const distributable = poolLiquidity - holderRefunds + lpFees - fromLpFees;
+  const totalShares = input.liquidityProviders.reduce(
+    (sum, lp) => sum + Math.max(0, Math.floor(lp.shares)),
+    0
+  );
+  const liquidityProviders = input.liquidityProviders.map((lp) => ({
+    ...lp,
+    refund:
+      totalShares > 0
+        ? mulDiv(distributable, Math.max(0, Math.floor(lp.shares)), totalShares)
+        : 0,
+  }));
+  const lpRefunds = liquidityProviders.reduce((sum, lp) => sum + lp.refund, 0);
+
+  return {
+    holders,
+    liquidityProviders,
+    shortfall: totalCostBasis - holderRefunds,
+    feeFunding: {
+      lp_fees: fromLpFees,
+      creator_fees: fromCreatorFees,
+      protocol_fees: fromProtocolFees,
+    },
+    dust: distributable - lpRefunds,
+  };
+}
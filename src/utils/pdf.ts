@@ -0,0 +1,100 @@
+/// Minimal PDF writer for plain-text documents (statements, exports).
+///
+/// Renders lines of text in a monospace font onto A4 pages, so columns
+/// padded with spaces stay aligned. Only printable ASCII is written;
+/// anything else is replaced with "?".
+
+const PAGE_WIDTH = 595; // A4, points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+
+/** Characters that fit on one line at the default font size */
+export const PDF_LINE_WIDTH = Math.floor(
+  (PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6)
+);
+
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+/**
+ * Render lines of text as a PDF. Lines longer than PDF_LINE_WIDTH are cut
+ * off; a line containing only "\f" starts a new page.
+ */
+export function renderTextPdf(lines: string[], title?: string): Buffer {
+  const pages: string[][] = [[]];
+  for (const line of lines) {
+    const page = pages[pages.length - 1];
+    if (line === "\f") {
+      if (page.length > 0) {
+        pages.push([]);
+      }
+      continue;
+    }
+    if (page.length >= LINES_PER_PAGE) {
+      pages.push([line]);
+    } else {
+      page.push(line);
+    }
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, 4 info, then a page
+  // object and a content stream for each page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+  objects[4] = `<< /Producer (moodring-server)${
+    title ? ` /Title (${escapeText(title)})` : ""
+  } >>`;
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td`,
+      ...pageLines.map(
+        (line) => `(${escapeText(line.slice(0, PDF_LINE_WIDTH))}) '`
+      ),
+      "ET",
+    ].join("\n");
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+      ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(
+      content,
+      "latin1"
+    )} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1");
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
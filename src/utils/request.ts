@@ -0,0 +1,15 @@
+import { Request } from "express";
+
+/**
+ * Request utilities shared by controllers and services
+ */
+
+/**
+ * Client IP of a request: Cloudflare's CF-Connecting-IP when behind it,
+ * otherwise the IP Express resolved
+ */
+export const getClientIp = (req: Request): string =>
+  (req.headers["cf-connecting-ip"] as string | undefined)?.trim() ||
+  req.ip ||
+  req.socket?.remoteAddress ||
+  "unknown";
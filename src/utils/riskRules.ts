@@ -0,0 +1,116 @@
+/// Risk rules
+///
+/// Every trade is run through a set of detectors (see
+/// services/riskRulesEngine.ts). Each rule has a severity and an action
+/// for when it fires:
+///   flag  the trade executes and is queued for review
+///   hold  the trade executes, and the trader's withdrawals are held until
+///         an admin reviews it
+///   block the trade is rejected
+/// When several rules fire on one trade the strongest action wins, and
+/// the trade's risk score is the highest rule's severity score plus 10 per
+/// additional rule, capped at 100. Admins can change a rule's severity,
+/// action and numeric parameters, or turn it off; rules without stored
+/// settings use their defaults.
+
+export const RISK_RULE_ACTIONS = ["flag", "hold", "block"] as const;
+export type RiskRuleAction = (typeof RISK_RULE_ACTIONS)[number];
+
+export const RISK_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type RiskSeverity = (typeof RISK_SEVERITIES)[number];
+
+export const RISK_SEVERITY_SCORES: Record<RiskSeverity, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+  critical: 100,
+};
+
+const ACTION_STRENGTH: Record<RiskRuleAction, number> = {
+  flag: 1,
+  hold: 2,
+  block: 3,
+};
+
+export interface RiskRuleConfig {
+  enabled: boolean;
+  severity: RiskSeverity;
+  action: RiskRuleAction;
+  params: Record<string, number>;
+}
+
+/** A rule that fired on a trade */
+export interface RiskRuleHit {
+  rule: string;
+  severity: RiskSeverity;
+  action: RiskRuleAction;
+  reason: string;
+  evidence: Record<string, any>;
+}
+
+export interface RiskEvaluation {
+  action: RiskRuleAction | "allow";
+  risk_score: number; // 0-100
+  primary: RiskRuleHit | null; // The hit that decided the action
+  hits: RiskRuleHit[];
+}
+
+/**
+ * A rule's effective settings: stored values over its defaults. Only
+ * parameters the rule defines are kept, and only when they are numbers.
+ */
+export function resolveRiskRuleConfig(
+  defaults: RiskRuleConfig,
+  stored?: Partial<RiskRuleConfig> | null
+): RiskRuleConfig {
+  const params = { ...defaults.params };
+  for (const key of Object.keys(params)) {
+    const value = stored?.params?.[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      params[key] = value;
+    }
+  }
+
+  return {
+    enabled:
+      typeof stored?.enabled === "boolean" ? stored.enabled : defaults.enabled,
+    severity: RISK_SEVERITIES.includes(stored?.severity as RiskSeverity)
+      ? (stored!.severity as RiskSeverity)
+      : defaults.severity,
+    action: RISK_RULE_ACTIONS.includes(stored?.action as RiskRuleAction)
+      ? (stored!.action as RiskRuleAction)
+      : defaults.action,
+    params,
+  };
+}
+
+/**
+ * Combine the rules that fired on a trade into one decision
+ */
+export function combineRiskHits(hits: RiskRuleHit[]): RiskEvaluation {
+  if (hits.length === 0) {
+    return { action: "allow", risk_score: 0, primary: null, hits };
+  }
+
+  const primary = hits.reduce((best, hit) => {
+    const byAction = ACTION_STRENGTH[hit.action] - ACTION_STRENGTH[best.action];
+    if (byAction !== 0) {
+      return byAction > 0 ? hit : best;
+    }
+    return RISK_SEVERITY_SCORES[hit.severity] >
+      RISK_SEVERITY_SCORES[best.severity]
+      ? hit
+      : best;
+  });
+
+  const topScore = Math.max(
+    ...hits.map((hit) => RISK_SEVERITY_SCORES[hit.severity])
+  );
+
+  return {
+    action: primary.action,
+    risk_score: Math.min(100, topScore + 10 * (hits.length - 1)),
+    primary,
+    hits,
+  };
+}
@@ -0,0 +1,125 @@
+import Decimal from "decimal.js";
+
+/// Scalar (numeric-range) market utilities
+///
+/// A scalar market has a single option traded on the usual LMSR curve where
+/// YES is LONG and NO is SHORT on a value between a lower and upper bound.
+/// Once the value is resolved each LONG share pays
+///   f = clamp((value - lower) / (upper - lower), 0, 1)
+/// and each SHORT share pays 1 - f (in micro-USDC per micro-share).
+/// Because f is a convex combination of the binary payouts, the pool never
+/// owes more than it would for a YES or NO resolution.
+
+export const MAX_SCALAR_UNIT_LENGTH = 20;
+
+// Bounds are always set on scalar markets (enforced by markets_scalar_bounds_check)
+export interface ScalarBounds {
+  scalar_lower_bound?: number | string | null;
+  scalar_upper_bound?: number | string | null;
+}
+
+/**
+ * Parse a finite numeric input (number or numeric string), or return null
+ */
+export function parseScalarValue(value: any): Decimal | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "number" && typeof value !== "string") {
+    return null;
+  }
+  try {
+    const parsed = new Decimal(value);
+    return parsed.isFinite() ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate the range of a scalar market. Returns an error message or null.
+ */
+export function validateScalarBounds(lower: any, upper: any): string | null {
+  const lowerValue = parseScalarValue(lower);
+  const upperValue = parseScalarValue(upper);
+  if (!lowerValue || !upperValue) {
+    return "Scalar markets require numeric lower and upper bounds";
+  }
+  if (!upperValue.gt(lowerValue)) {
+    return "Scalar upper bound must be greater than the lower bound";
+  }
+  return null;
+}
+
+/**
+ * Fraction of the range (0..1) that a LONG share pays for a resolved value.
+ * Values outside the range are clamped to the nearest bound.
+ */
+export function getScalarLongFraction(
+  bounds: ScalarBounds,
+  value: number | string
+): Decimal {
+  const lower = new Decimal(bounds.scalar_lower_bound!);
+  const upper = new Decimal(bounds.scalar_upper_bound!);
+  const fraction = new Decimal(value).sub(lower).div(upper.sub(lower));
+  return Decimal.min(1, Decimal.max(0, fraction));
+}
+
+/**
+ * Value implied by the LONG (YES) price, given as a probability (0..1)
+ */
+export function getScalarImpliedValue(
+  bounds: ScalarBounds,
+  yesPrice: number
+): string {
+  const lower = new Decimal(bounds.scalar_lower_bound!);
+  const upper = new Decimal(bounds.scalar_upper_bound!);
+  return lower
+    .add(upper.sub(lower).mul(yesPrice))
+    .toDecimalPlaces(8)
+    .toString();
+}
+
+/**
+ * Winning side recorded for a scalar resolution: whichever side pays more
+ * (LONG on an exact midpoint). Payouts use the resolved value, not this.
+ */
+export function getScalarWinningSide(
+  bounds: ScalarBounds,
+  value: number | string
+): number {
+  return getScalarLongFraction(bounds, value).gte(0.5) ? 1 : 2;
+}
+
+/**
+ * Payout (micro-USDC) owed for a position on a resolved option.
+ * Binary options pay 1:1 on the winning side; scalar options pay LONG and
+ * SHORT shares pro rata by the resolved value (rounded down).
+ */
+export function calculateResolvedPayout(
+  resolution: ScalarBounds & {
+    winning_side: number | null;
+    resolved_value?: number | string | null;
+    is_scalar?: boolean;
+  },
+  yesShares: number,
+  noShares: number
+): number {
+  if (
+    resolution.is_scalar &&
+    resolution.resolved_value !== null &&
+    resolution.resolved_value !== undefined
+  ) {
+    const longFraction = getScalarLongFraction(
+      resolution,
+      resolution.resolved_value
+    );
+    const longPayout = new Decimal(yesShares).mul(longFraction).floor();
+    const shortPayout = new Decimal(noShares)
+      .mul(new Decimal(1).sub(longFraction))
+      .floor();
+    return longPayout.add(shortPayout).toNumber();
+  }
+
+  return resolution.winning_side === 1 ? yesShares : noShares;
+}
@@ -0,0 +1,560 @@
+/// Account statements
+///
+/// A statement lists everything that moved a user's wallet balance in a
+/// period (trades, claims, LP events, key trades, void refunds, deposits
+/// and withdrawals) with the opening and closing balance and the realized
+/// P&L per market. Amounts are micro-USDC; a line's amount is its effect
+/// on the wallet (negative when money left it).
+
+import { PDF_LINE_WIDTH } from "./pdf";
+
+export type StatementFormat = "json" | "csv" | "pdf";
+
+export const STATEMENT_FORMATS: StatementFormat[] = ["json", "csv", "pdf"];
+
+export type StatementCategory =
+  | "trade"
+  | "claim"
+  | "liquidity"
+  | "key_trade"
+  | "void_refund"
+  | "deposit"
+  | "withdrawal";
+
+export const STATEMENT_CATEGORIES: StatementCategory[] = [
+  "trade",
+  "claim",
+  "liquidity",
+  "key_trade",
+  "void_refund",
+  "deposit",
+  "withdrawal",
+];
+
+export interface StatementPeriod {
+  from: number; // Unix seconds, inclusive
+  to: number; // Unix seconds, exclusive
+  label: string;
+}
+
+export interface StatementLine {
+  at: number;
+  category: StatementCategory;
+  type: string; // buy, sell, claim, liquidity_added, key_buy, deposit, ...
+  description: string;
+  market_id: string | null;
+  market_question: string | null;
+  quantity: number | null;
+  amount: number;
+  fees: number;
+  realized_pnl: number | null;
+  reference_id: string;
+}
+
+/**
+ * A change to one of the user's option positions, used to work out the
+ * realized P&L of each sell, claim and void refund
+ */
+export type PositionEvent =
+  | {
+      kind: "buy";
+      ref: string;
+      at: number;
+      option_id: string;
+      side: "yes" | "no";
+      quantity: number;
+      raw_cost: number;
+    }
+  | {
+      kind: "sell";
+      ref: string;
+      at: number;
+      option_id: string;
+      side: "yes" | "no";
+      quantity: number;
+      net_payout: number;
+    }
+  | {
+      kind: "claim";
+      ref: string;
+      at: number;
+      option_id: string;
+      payout: number;
+      realized_pnl: number | null; // as recorded when the claim was made
+    }
+  | {
+      kind: "void_refund";
+      ref: string;
+      at: number;
+      option_id: string;
+      amount: number;
+      cost_basis: number;
+    };
+
+/** A user_positions row with its market, as getPnLSummary reads it */
+export interface StatementPositionRow {
+  market_id: string;
+  market_question: string | null;
+  realized_pnl: number;
+  total_yes_cost: number;
+  total_no_cost: number;
+}
+
+export interface StatementMarketSummary {
+  market_id: string;
+  market_question: string | null;
+  trades: number;
+  bought: number; // paid for shares, fees included
+  sold: number; // received for shares, after fees
+  payouts: number; // claims and void refunds
+  fees: number;
+  realized_pnl: number; // in the period
+  lifetime_realized_pnl: number; // user_positions.realized_pnl
+  open_cost_basis: number; // cost basis of shares still held
+}
+
+export interface Statement {
+  user_id: string;
+  period: StatementPeriod;
+  generated_at: number;
+  currency: "USDC";
+  opening_balance: number;
+  closing_balance: number;
+  net_change: number;
+  totals: Record<StatementCategory, number>;
+  // Movements the statement doesn't itemize (referral rewards, resolution
+  // bonds, dispute fees, limit order escrow, balance adjustments)
+  other_movements: number;
+  realized_pnl: number;
+  lifetime_realized_pnl: number;
+  markets: StatementMarketSummary[];
+  lines: StatementLine[];
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const QUARTER_PATTERN = /^(\d{4})-Q([1-4])$/i;
+const YEAR_PATTERN = /^(\d{4})$/;
+
+const utcSeconds = (year: number, monthIndex: number): number =>
+  Math.floor(Date.UTC(year, monthIndex, 1) / 1000);
+
+/**
+ * Work out the statement period from the query string: `period` as YYYY,
+ * YYYY-MM or YYYY-Qn (UTC), or `from`/`to` as Unix seconds. Defaults to the
+ * current month. Returns an error message if the input is invalid.
+ */
+export function resolveStatementPeriod(
+  query: { period?: string; from?: string; to?: string },
+  now: number = Math.floor(Date.now() / 1000)
+): { period?: StatementPeriod; error?: string } {
+  const hasRange =
+    (query.from !== undefined && query.from !== "") ||
+    (query.to !== undefined && query.to !== "");
+
+  if (query.period && hasRange) {
+    return { error: "Use either period or from/to, not both" };
+  }
+
+  if (hasRange) {
+    const from = Number(query.from ?? 0);
+    const to =
+      query.to === undefined || query.to === "" ? now : Number(query.to);
+    if (!Number.isInteger(from) || from < 0 || !Number.isInteger(to)) {
+      return { error: "from and to must be Unix timestamps in seconds" };
+    }
+    if (to <= from) {
+      return { error: "to must be after from" };
+    }
+    return {
+      period: {
+        from,
+        to,
+        label: `${new Date(from * 1000).toISOString()} - ${new Date(
+          to * 1000
+        ).toISOString()}`,
+      },
+    };
+  }
+
+  const current = new Date(now * 1000);
+  const value =
+    query.period ||
+    `${current.getUTCFullYear()}-${String(current.getUTCMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+
+  let match = value.match(MONTH_PATTERN);
+  if (match) {
+    const year = Number(match[1]);
+    const month = Number(match[2]) - 1;
+    return {
+      period: {
+        from: utcSeconds(year, month),
+        to: utcSeconds(year, month + 1),
+        label: value,
+      },
+    };
+  }
+
+  match = value.match(QUARTER_PATTERN);
+  if (match) {
+    const year = Number(match[1]);
+    const quarter = Number(match[2]);
+    return {
+      period: {
+        from: utcSeconds(year, (quarter - 1) * 3),
+        to: utcSeconds(year, quarter * 3),
+        label: `${year}-Q${quarter}`,
+      },
+    };
+  }
+
+  match = value.match(YEAR_PATTERN);
+  if (match) {
+    const year = Number(match[1]);
+    return {
+      period: {
+        from: utcSeconds(year, 0),
+        to: utcSeconds(year + 1, 0),
+        label: value,
+      },
+    };
+  }
+
+  return { error: "period must be YYYY, YYYY-MM or YYYY-Qn" };
+}
+
+/**
+ * Realized P&L of every sell, claim and void refund, by event ref.
+ * Positions are tracked at average cost the way TradeService does: buys add
+ * their raw cost, sells realize net payout minus quantity at the average
+ * price, and claims and void refunds close the position.
+ */
+export function computeRealizedPnl(
+  events: PositionEvent[]
+): Map<string, number> {
+  const sorted = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+    .map(({ event }) => event);
+
+  const positions = new Map<
+    string,
+    Record<"yes" | "no", { shares: number; cost: number; avg: number }>
+  >();
+  const getPosition = (optionId: string) => {
+    let position = positions.get(optionId);
+    if (!position) {
+      position = {
+        yes: { shares: 0, cost: 0, avg: 0 },
+        no: { shares: 0, cost: 0, avg: 0 },
+      };
+      positions.set(optionId, position);
+    }
+    return position;
+  };
+
+  const realized = new Map<string, number>();
+  for (const event of sorted) {
+    const position = getPosition(event.option_id);
+    switch (event.kind) {
+      case "buy": {
+        const side = position[event.side];
+        side.shares += event.quantity;
+        side.cost += event.raw_cost;
+        side.avg =
+          side.shares > 0 ? Number(BigInt(side.cost) / BigInt(side.shares)) : 0;
+        break;
+      }
+      case "sell": {
+        const side = position[event.side];
+        const costBasis = Number(BigInt(event.quantity) * BigInt(side.avg));
+        realized.set(event.ref, Math.round(event.net_payout - costBasis));
+        side.shares -= event.quantity;
+        side.cost = Number(BigInt(Math.max(0, side.shares)) * BigInt(side.avg));
+        break;
+      }
+      case "claim":
+      case "void_refund": {
+        const costBasis =
+          event.kind === "claim"
+            ? position.yes.cost + position.no.cost
+            : event.cost_basis;
+        const pnl =
+          event.kind === "claim"
+            ? event.realized_pnl ?? event.payout - costBasis
+            : event.amount - costBasis;
+        realized.set(event.ref, pnl);
+        positions.delete(event.option_id);
+        break;
+      }
+    }
+  }
+
+  return realized;
+}
+
+/**
+ * Assemble a statement from the period's lines, the balances around it and
+ * the user's positions
+ */
+export function buildStatement(input: {
+  userId: string;
+  period: StatementPeriod;
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  positions: StatementPositionRow[];
+  generatedAt?: number;
+}): Statement {
+  const lines = [...input.lines].sort((a, b) => a.at - b.at);
+
+  const totals = Object.fromEntries(
+    STATEMENT_CATEGORIES.map((category) => [category, 0])
+  ) as Record<StatementCategory, number>;
+  for (const line of lines) {
+    totals[line.category] += line.amount;
+  }
+  const itemized = lines.reduce((sum, line) => sum + line.amount, 0);
+  const netChange = input.closingBalance - input.openingBalance;
+
+  const markets = new Map<string, StatementMarketSummary>();
+  const getMarket = (marketId: string, question: string | null) => {
+    let market = markets.get(marketId);
+    if (!market) {
+      market = {
+        market_id: marketId,
+        market_question: question,
+        trades: 0,
+        bought: 0,
+        sold: 0,
+        payouts: 0,
+        fees: 0,
+        realized_pnl: 0,
+        lifetime_realized_pnl: 0,
+        open_cost_basis: 0,
+      };
+      markets.set(marketId, market);
+    }
+    market.market_question = market.market_question || question;
+    return market;
+  };
+
+  for (const line of lines) {
+    if (
+      !line.market_id ||
+      !["trade", "claim", "void_refund"].includes(line.category)
+    ) {
+      continue;
+    }
+    const market = getMarket(line.market_id, line.market_question);
+    if (line.category === "trade") {
+      market.trades += 1;
+      if (line.type === "buy") {
+        market.bought += -line.amount;
+      } else {
+        market.sold += line.amount;
+      }
+      market.fees += line.fees;
+    } else {
+      market.payouts += line.amount;
+    }
+    market.realized_pnl += line.realized_pnl || 0;
+  }
+
+  // Lifetime figures come from user_positions, as in getPnLSummary; only
+  // markets the user traded in this period are listed
+  for (const position of input.positions) {
+    const market = markets.get(position.market_id);
+    if (!market) {
+      continue;
+    }
+    market.lifetime_realized_pnl += Number(position.realized_pnl || 0);
+    market.open_cost_basis +=
+      Number(position.total_yes_cost || 0) +
+      Number(position.total_no_cost || 0);
+  }
+
+  const marketSummaries = [...markets.values()].sort((a, b) =>
+    a.market_id.localeCompare(b.market_id)
+  );
+
+  return {
+    user_id: input.userId,
+    period: input.period,
+    generated_at: input.generatedAt ?? Math.floor(Date.now() / 1000),
+    currency: "USDC",
+    opening_balance: input.openingBalance,
+    closing_balance: input.closingBalance,
+    net_change: netChange,
+    totals,
+    other_movements: netChange - itemized,
+    realized_pnl: marketSummaries.reduce((sum, m) => sum + m.realized_pnl, 0),
+    lifetime_realized_pnl: input.positions.reduce(
+      (sum, position) => sum + Number(position.realized_pnl || 0),
+      0
+    ),
+    markets: marketSummaries,
+    lines,
+  };
+}
+
+/**
+ * Format micro-USDC as a decimal USDC amount, e.g. -1500000 -> "-1.500000"
+ */
+export function formatUsdc(micro: number): string {
+  const sign = micro < 0 ? "-" : "";
+  const abs = Math.abs(Math.round(micro));
+  return `${sign}${Math.floor(abs / 1_000_000)}.${String(
+    abs % 1_000_000
+  ).padStart(6, "0")}`;
+}
+
+const formatDate = (at: number): string =>
+  new Date(at * 1000).toISOString().replace("T", " ").slice(0, 19);
+
+const csvField = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  "date",
+  "category",
+  "type",
+  "description",
+  "market_id",
+  "market",
+  "quantity",
+  "amount_usdc",
+  "fees_usdc",
+  "realized_pnl_usdc",
+  "reference_id",
+];
+
+/**
+ * One CSV row per line, between an opening and a closing balance row.
+ * Amounts are in USDC.
+ */
+export function statementToCsv(statement: Statement): string {
+  const row = (values: any[]) => values.map(csvField).join(",");
+  const balanceRow = (at: number, type: string, amount: number) =>
+    row([formatDate(at), "balance", type, "", "", "", "", formatUsdc(amount)]);
+
+  return [
+    CSV_COLUMNS.join(","),
+    balanceRow(
+      statement.period.from,
+      "opening_balance",
+      statement.opening_balance
+    ),
+    ...statement.lines.map((line) =>
+      row([
+        formatDate(line.at),
+        line.category,
+        line.type,
+        line.description,
+        line.market_id,
+        line.market_question,
+        line.quantity,
+        formatUsdc(line.amount),
+        formatUsdc(line.fees),
+        line.realized_pnl === null ? null : formatUsdc(line.realized_pnl),
+        line.reference_id,
+      ])
+    ),
+    balanceRow(
+      Math.min(statement.period.to, statement.generated_at),
+      "closing_balance",
+      statement.closing_balance
+    ),
+  ].join("\n");
+}
+
+const fit = (text: string, width: number): string =>
+  text.length > width ? `${text.slice(0, width - 1)}~` : text.padEnd(width);
+
+const amountColumn = (micro: number, width = 16): string =>
+  formatUsdc(micro).padStart(width);
+
+/**
+ * Statement as lines of fixed-width text, for the PDF export
+ */
+export function statementToText(statement: Statement): string[] {
+  const rule = "-".repeat(PDF_LINE_WIDTH);
+  const summaryRow = (label: string, micro: number) =>
+    `${label.padEnd(30)}${amountColumn(micro)} USDC`;
+
+  const lines = [
+    "ACCOUNT STATEMENT",
+    rule,
+    `User:      ${statement.user_id}`,
+    `Period:    ${statement.period.label} (${formatDate(
+      statement.period.from
+    )} to ${formatDate(statement.period.to)} UTC)`,
+    `Generated: ${formatDate(statement.generated_at)} UTC`,
+    "",
+    "SUMMARY",
+    rule,
+    summaryRow("Opening balance", statement.opening_balance),
+    ...STATEMENT_CATEGORIES.map((category) =>
+      summaryRow(`  ${category.replace("_", " ")}`, statement.totals[category])
+    ),
+    summaryRow("  other", statement.other_movements),
+    summaryRow("Closing balance", statement.closing_balance),
+    "",
+    summaryRow("Realized P&L (period)", statement.realized_pnl),
+    summaryRow("Realized P&L (lifetime)", statement.lifetime_realized_pnl),
+    "",
+    "REALIZED P&L BY MARKET",
+    rule,
+    `${fit("Market", 40)}${"Trades".padStart(7)}${"Fees".padStart(
+      16
+    )}${"Realized P&L".padStart(16)}${"Lifetime".padStart(16)}`,
+  ];
+
+  if (statement.markets.length === 0) {
+    lines.push("No market activity in this period");
+  }
+  for (const market of statement.markets) {
+    lines.push(
+      `${fit(market.market_question || market.market_id, 40)}${String(
+        market.trades
+      ).padStart(7)}${amountColumn(market.fees)}${amountColumn(
+        market.realized_pnl
+      )}${amountColumn(market.lifetime_realized_pnl)}`
+    );
+  }
+
+  lines.push(
+    "",
+    "TRANSACTIONS",
+    rule,
+    `${fit("Date (UTC)", 20)}${fit("Type", 18)}${fit(
+      "Description",
+      41
+    )}${"Amount".padStart(16)}`
+  );
+  if (statement.lines.length === 0) {
+    lines.push("No transactions in this period");
+  }
+  for (const line of statement.lines) {
+    lines.push(
+      `${fit(formatDate(line.at), 20)}${fit(line.type, 18)}${fit(
+        line.description,
+        41
+      )}${amountColumn(line.amount)}`
+    );
+  }
+
+  lines.push(
+    rule,
+    "Amounts in USDC. Negative amounts left the wallet.",
+    "Other: referral rewards, resolution bonds, dispute fees, limit order escrow and adjustments."
+  );
+  return lines;
+}
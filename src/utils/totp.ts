@@ -0,0 +1,156 @@
+import crypto from "crypto";
+
+/// TOTP (RFC 6238) utilities for admin multi-factor authentication
+///
+/// Codes are HMAC-SHA1 over the 30-second time step counter, truncated to
+/// 6 digits (RFC 4226), which is what authenticator apps expect.
+/// Every function takes the current time (ms) as a parameter so that
+/// verification can be tested against a deterministic clock.
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+const TOTP_SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+ */
+export const base32Decode = (encoded: string): Buffer => {
+  const cleaned = encoded.replace(/[\s=]/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (base32)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+};
+
+/**
+ * Time step counter for a point in time (ms)
+ */
+export const getTotpStep = (now: number): number => {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+};
+
+/**
+ * HOTP code (RFC 4226) for a counter value
+ */
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", secret).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * TOTP code for a base32 secret at a point in time (ms)
+ */
+export const generateTotpCode = (
+  secret: string,
+  now: number = Date.now()
+): string => {
+  return generateHotp(base32Decode(secret), getTotpStep(now));
+};
+
+/**
+ * Verify a TOTP code, allowing `window` steps of clock drift either side.
+ * Returns the time step the code matched, or null if it didn't match.
+ * Callers should reject steps at or before the last one accepted, so a code
+ * can't be replayed.
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  window: number = 1
+): number | null => {
+  const normalized = String(code || "").replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep(now);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    if (step < 0) {
+      continue;
+    }
+    const expected = generateHotp(key, step);
+    if (
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))
+    ) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * otpauth:// URL for enrolling a secret in an authenticator app
+ */
+export const buildOtpauthUrl = (
+  secret: string,
+  accountName: string,
+  issuer: string
+): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
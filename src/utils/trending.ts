@@ -0,0 +1,239 @@
+/// Trending scores
+///
+/// A market's trending score combines five signals measured over the
+/// trending window (trending_window_hours, 24 by default):
+///   volume         USDC traded
+///   traders        unique traders
+///   price_move     largest move of an option's YES price, in points
+///   comments       comments posted
+///   watchlist_adds times the market was added to a watchlist
+/// Volume, comments and watchlist adds are time-decayed: each trade,
+/// comment or add counts half as much every trending_half_life_hours, so
+/// a burst an hour ago beats the same burst yesterday. Signals are
+/// log-dampened (ln(1 + x)) so a single whale can't dominate, then
+/// weighted by the admin settings (100 = 1x) and summed. Scores are
+/// stored in markets.trending_score as integer milli-points.
+
+export interface TrendingSettings {
+  window_hours: number;
+  half_life_hours: number;
+  volume_weight: number;
+  traders_weight: number;
+  price_weight: number;
+  comment_weight: number;
+  watchlist_weight: number;
+}
+
+export const DEFAULT_TRENDING_SETTINGS: TrendingSettings = {
+  window_hours: 24,
+  half_life_hours: 6,
+  volume_weight: 100,
+  traders_weight: 100,
+  price_weight: 100,
+  comment_weight: 50,
+  watchlist_weight: 50,
+};
+
+/** A market's activity over the window, already time-decayed */
+export interface TrendingActivity {
+  market_id: string;
+  volume: number; // micro-USDC, decayed
+  unique_traders: number;
+  price_change: number; // 0-1
+  comments: number; // decayed
+  watchlist_adds: number; // decayed
+}
+
+export type TrendingComponent =
+  | "volume"
+  | "traders"
+  | "price_move"
+  | "comments"
+  | "watchlist_adds";
+
+export interface TrendingComponentScore {
+  value: number; // The signal before dampening, in display units
+  weight: number;
+  points: number;
+}
+
+export interface TrendingScore {
+  market_id: string;
+  score: number; // Integer milli-points
+  breakdown: Record<TrendingComponent, TrendingComponentScore>;
+}
+
+export interface RankedTrendingScore extends TrendingScore {
+  rank: number | null; // null when the market has no activity to rank
+}
+
+export interface TrendingRankChange {
+  market_id: string;
+  rank: number | null;
+  previous_rank: number | null;
+  score: number;
+}
+
+/**
+ * Trending settings from the moodring config, falling back to defaults
+ * for any that aren't set
+ */
+export function resolveTrendingSettings(
+  config: {
+    trending_window_hours?: number | null;
+    trending_half_life_hours?: number | null;
+    trending_volume_weight?: number | null;
+    trending_traders_weight?: number | null;
+    trending_price_weight?: number | null;
+    trending_comment_weight?: number | null;
+    trending_watchlist_weight?: number | null;
+  } | null
+): TrendingSettings {
+  const pick = (value: number | null | undefined, fallback: number) =>
+    value === null || value === undefined || !Number.isFinite(Number(value))
+      ? fallback
+      : Number(value);
+  const defaults = DEFAULT_TRENDING_SETTINGS;
+  return {
+    window_hours: Math.max(
+      1,
+      pick(config?.trending_window_hours, defaults.window_hours)
+    ),
+    half_life_hours: Math.max(
+      1,
+      pick(config?.trending_half_life_hours, defaults.half_life_hours)
+    ),
+    volume_weight: pick(config?.trending_volume_weight, defaults.volume_weight),
+    traders_weight: pick(
+      config?.trending_traders_weight,
+      defaults.traders_weight
+    ),
+    price_weight: pick(config?.trending_price_weight, defaults.price_weight),
+    comment_weight: pick(
+      config?.trending_comment_weight,
+      defaults.comment_weight
+    ),
+    watchlist_weight: pick(
+      config?.trending_watchlist_weight,
+      defaults.watchlist_weight
+    ),
+  };
+}
+
+const roundTo = (value: number, places: number): number =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Score a market's activity
+ */
+export function scoreTrending(
+  activity: TrendingActivity,
+  settings: TrendingSettings
+): TrendingScore {
+  const component = (value: number, weight: number): TrendingComponentScore => {
+    const signal = Math.log1p(Math.max(0, value));
+    return {
+      value: roundTo(value, 4),
+      weight,
+      points: roundTo((signal * weight) / 100, 4),
+    };
+  };
+
+  const breakdown: Record<TrendingComponent, TrendingComponentScore> = {
+    volume: component(
+      Number(activity.volume) / 1_000_000,
+      settings.volume_weight
+    ),
+    traders: component(
+      Number(activity.unique_traders),
+      settings.traders_weight
+    ),
+    price_move: component(
+      Math.abs(Number(activity.price_change)) * 100,
+      settings.price_weight
+    ),
+    comments: component(Number(activity.comments), settings.comment_weight),
+    watchlist_adds: component(
+      Number(activity.watchlist_adds),
+      settings.watchlist_weight
+    ),
+  };
+
+  const points = Object.values(breakdown).reduce(
+    (sum, part) => sum + part.points,
+    0
+  );
+
+  return {
+    market_id: activity.market_id,
+    score: Math.max(0, Math.round(points * 1000)),
+    breakdown,
+  };
+}
+
+/**
+ * Rank scores, highest first. Ties go to the higher volume, then the
+ * market id so ranks are stable between runs. Markets scoring 0 aren't
+ * ranked.
+ */
+export function rankTrending(scores: TrendingScore[]): RankedTrendingScore[] {
+  const sorted = [...scores].sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.breakdown.volume.value - a.breakdown.volume.value ||
+      a.market_id.localeCompare(b.market_id)
+  );
+  let rank = 0;
+  return sorted.map((score) => ({
+    ...score,
+    rank: score.score > 0 ? ++rank : null,
+  }));
+}
+
+/**
+ * Rank changes worth telling clients about: markets whose rank changed
+ * that are in the top `limit` now or were before
+ */
+export function diffTrendingRanks(
+  previousRanks: Map<string, number | null>,
+  ranked: RankedTrendingScore[],
+  limit: number
+): TrendingRankChange[] {
+  const inTop = (rank: number | null | undefined) =>
+    rank !== null && rank !== undefined && rank <= limit;
+
+  const changes: TrendingRankChange[] = [];
+  const seen = new Set<string>();
+  for (const entry of ranked) {
+    seen.add(entry.market_id);
+    const previousRank = previousRanks.get(entry.market_id) ?? null;
+    if (
+      previousRank !== entry.rank &&
+      (inTop(entry.rank) || inTop(previousRank))
+    ) {
+      changes.push({
+        market_id: entry.market_id,
+        rank: entry.rank,
+        previous_rank: previousRank,
+        score: entry.score,
+      });
+    }
+  }
+
+  // Markets that stopped being scored (resolved or expired) drop out
+  for (const [marketId, previousRank] of previousRanks) {
+    if (!seen.has(marketId) && inTop(previousRank)) {
+      changes.push({
+        market_id: marketId,
+        rank: null,
+        previous_rank: previousRank,
+        score: 0,
+      });
+    }
+  }
+
+  // Ranked markets first, then those that dropped out
+  const order = (change: TrendingRankChange) =>
+    change.rank ?? limit + (change.previous_rank ?? 0);
+  return changes.sort((a, b) => order(a) - order(b));
+}